@@ -0,0 +1,18 @@
+#!/usr/bin/env node
+/**
+ * Sinh supabase/functions/_shared/shopee-endpoints.generated.ts từ src/lib/docs/api-data.ts
+ * Usage: pnpm generate:shopee-api
+ */
+import { writeFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { runnerImport } from 'vite'
+
+const root = resolve(fileURLToPath(import.meta.url), '../..')
+const load = async (file) => (await runnerImport(resolve(root, file), { configFile: false, logLevel: 'silent' })).module
+
+const { apiEndpoints } = await load('src/lib/docs/api-data.ts')
+const { generateEndpointCatalogue, GENERATED_ENDPOINTS_PATH } = await load('src/lib/docs/endpoint-codegen.ts')
+
+writeFileSync(resolve(root, GENERATED_ENDPOINTS_PATH), generateEndpointCatalogue(apiEndpoints))
+console.log(`Generated ${GENERATED_ENDPOINTS_PATH} (${apiEndpoints.length} endpoints)`)
@@ -36,11 +36,16 @@ const FlashSaleAutoSetupPage = lazy(() => import('@/pages/FlashSaleAutoSetupPage
 const FlashSaleCopyPage = lazy(() => import('@/pages/FlashSaleCopyPage'));
 const FlashSaleOverviewPage = lazy(() => import('@/pages/FlashSaleOverviewPage'));
 const ProductsPage = lazy(() => import('@/pages/ProductsPage'));
+const OrdersPage = lazy(() => import('@/pages/OrdersPage'));
+const TeamPage = lazy(() => import('@/pages/TeamPage'));
 const DocsPage = lazy(() => import('@/pages/DocsPage'));
+const AcceptInvitePage = lazy(() => import('@/pages/AcceptInvitePage'));
 
 // Admin Pages
 const AdminDashboardPage = lazy(() => import('@/pages/admin/AdminDashboardPage'));
 const MonitoringPage = lazy(() => import('@/pages/admin/monitoring-page'));
+const AdminAuditLogPage = lazy(() => import('@/pages/admin/AdminAuditLogPage'));
+const CustomRolesPage = lazy(() => import('@/pages/admin/CustomRolesPage'));
 
 // Shop Performance Page
 const ShopPerformancePage = lazy(() => import('@/pages/ShopPerformancePage'));
@@ -84,6 +89,7 @@ function App() {
                 <Route path="/" element={<Navigate to="/auth" replace />} />
                 <Route path="/auth" element={<AuthPage />} />
                 <Route path="/auth/callback" element={<AuthCallback />} />
+                <Route path="/auth/invite" element={<AcceptInvitePage />} />
                 {/* Standalone pages (no sidebar) */}
                 <Route path="/docs" element={<DocsPage />} />
 
@@ -91,11 +97,13 @@ function App() {
                 <Route element={<MainLayout />}>
                   <Route path="/dashboard" element={<HomePage />} />
                   <Route path="/products" element={<ProductsPage />} />
+                  <Route path="/orders" element={<OrdersPage />} />
                   <Route path="/flash-sale" element={<FlashSalePage />} />
                   <Route path="/flash-sale/detail/:flashSaleId" element={<FlashSaleDetailPage />} />
                   <Route path="/flash-sale/auto-setup" element={<FlashSaleAutoSetupPage />} />
                   <Route path="/flash-sale/copy/:flashSaleId" element={<FlashSaleCopyPage />} />
                   <Route path="/shop-performance" element={<ShopPerformancePage />} />
+                  <Route path="/team" element={<TeamPage />} />
                   <Route path="/settings" element={<Navigate to="/settings/profile" replace />} />
                   <Route path="/settings/profile" element={<ProfileSettingsPage />} />
                   <Route path="/demo/tables" element={<TableDemoPage />} />
@@ -109,6 +117,8 @@ function App() {
                   <Route path="/admin/shops" element={<ShopsSettingsPage />} />
                   <Route path="/admin/shops/:shopId" element={<ShopInfoPage />} />
                   <Route path="/admin/users" element={<UsersSettingsPage />} />
+                  <Route path="/admin/roles" element={<CustomRolesPage />} />
+                  <Route path="/admin/audit-log" element={<AdminAuditLogPage />} />
                   <Route path="/admin/monitoring" element={<MonitoringPage />} />
                   <Route path="/admin/monitoring/:tab" element={<MonitoringPage />} />
                 </Route>
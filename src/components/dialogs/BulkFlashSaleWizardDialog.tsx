@@ -0,0 +1,416 @@
+/**
+ * BulkFlashSaleWizardDialog - Lên lịch Flash Sale hàng loạt cho nhiều shop
+ * 1. Chọn shop (tìm theo tên / nhóm: khu vực, shop gắn template)
+ * 2. Chọn giờ khung giờ + nguồn sản phẩm (FS gần nhất / template / top bán chạy)
+ * 3. Preview khung giờ + số sản phẩm từng shop rồi enqueue một batch
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { AlertCircle, ArrowLeft, ArrowRight, CheckCircle2, Layers, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Spinner } from '@/components/ui/spinner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAccessibleFlashSaleTemplates } from '@/hooks/useFlashSaleTemplates';
+import { previewBatch, useCreateFlashSaleBatch } from '@/hooks/useFlashSaleBatches';
+import {
+  DEFAULT_RECURRENCE_TIMEZONE,
+  TOP_SELLER_DEFAULTS,
+  describeBatchItemSource,
+  type BatchItemSource,
+  type BatchSettings,
+  type BatchShopPlan,
+} from '@/lib/shopee/flash-sale';
+import { cn } from '@/lib/utils';
+
+type Step = 'shops' | 'settings' | 'preview';
+type SourceType = BatchItemSource['type'];
+
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+const LEAD_TIME_OPTIONS = [0, 5, 10, 15, 30, 60];
+const HORIZON_OPTIONS = [1, 2, 3, 7, 14];
+const ALL_GROUP = 'all';
+
+interface BulkFlashSaleWizardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shops: { shop_id: number; shop_name: string | null; region: string | null }[];
+  onCreated?: (batchId: string) => void;
+}
+
+function formatSlot(unixSec: number): string {
+  return new Date(unixSec * 1000).toLocaleString('vi-VN', {
+    hour: '2-digit', minute: '2-digit', day: '2-digit', month: '2-digit',
+  });
+}
+
+export function BulkFlashSaleWizardDialog({ open, onOpenChange, shops, onCreated }: BulkFlashSaleWizardDialogProps) {
+  const { toast } = useToast();
+  const { data: templates = [] } = useAccessibleFlashSaleTemplates(open);
+  const createBatch = useCreateFlashSaleBatch();
+
+  const [step, setStep] = useState<Step>('shops');
+  const [search, setSearch] = useState('');
+  const [group, setGroup] = useState(ALL_GROUP);
+  const [shopIds, setShopIds] = useState<Set<number>>(new Set());
+
+  const [name, setName] = useState('');
+  const [hours, setHours] = useState<Set<number>>(new Set());
+  const [horizonDays, setHorizonDays] = useState(3);
+  const [leadTimeMinutes, setLeadTimeMinutes] = useState(10);
+  const [sourceType, setSourceType] = useState<SourceType>('latest');
+  const [templateId, setTemplateId] = useState('');
+  const [topSellers, setTopSellers] = useState(TOP_SELLER_DEFAULTS);
+
+  const [plans, setPlans] = useState<BatchShopPlan[] | null>(null);
+  const [previewProgress, setPreviewProgress] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setStep('shops');
+    setSearch('');
+    setGroup(ALL_GROUP);
+    setShopIds(new Set());
+    setName('');
+    setHours(new Set());
+    setPlans(null);
+    setPreviewProgress(null);
+  }, [open]);
+
+  const regions = useMemo(
+    () => Array.from(new Set(shops.map(s => s.region).filter((r): r is string => !!r))).sort(),
+    [shops]
+  );
+
+  const visibleShops = useMemo(() => {
+    const keyword = search.trim().toLowerCase();
+    return shops.filter(shop => {
+      if (keyword && !`${shop.shop_name || ''} ${shop.shop_id}`.toLowerCase().includes(keyword)) return false;
+      if (group.startsWith('region:')) return shop.region === group.slice('region:'.length);
+      if (group.startsWith('template:')) {
+        const template = templates.find(t => t.id === group.slice('template:'.length));
+        return !!template?.shop_ids.includes(shop.shop_id);
+      }
+      return true;
+    });
+  }, [shops, search, group, templates]);
+
+  const shopName = (shopId: number) => shops.find(s => s.shop_id === shopId)?.shop_name || `Shop #${shopId}`;
+
+  const toggleShop = (shopId: number) => {
+    setShopIds(prev => {
+      const next = new Set(prev);
+      if (next.has(shopId)) next.delete(shopId); else next.add(shopId);
+      return next;
+    });
+  };
+
+  const selectVisible = (checked: boolean) => {
+    setShopIds(prev => {
+      const next = new Set(prev);
+      visibleShops.forEach(s => (checked ? next.add(s.shop_id) : next.delete(s.shop_id)));
+      return next;
+    });
+  };
+
+  const toggleHour = (hour: number) => {
+    setHours(prev => {
+      const next = new Set(prev);
+      if (next.has(hour)) next.delete(hour); else next.add(hour);
+      return next;
+    });
+  };
+
+  const settings: BatchSettings = {
+    start_hours: Array.from(hours),
+    horizon_days: horizonDays,
+    lead_time_minutes: leadTimeMinutes,
+    timezone: DEFAULT_RECURRENCE_TIMEZONE,
+  };
+
+  const selectedTemplate = templates.find(t => t.id === templateId);
+  const source: BatchItemSource | null =
+    sourceType === 'latest' ? { type: 'latest' }
+    : sourceType === 'template' ? (selectedTemplate ? { type: 'template', template_id: selectedTemplate.id, template_version: selectedTemplate.current_version } : null)
+    : { type: 'top_sellers', ...topSellers };
+
+  const runPreview = async () => {
+    if (!source) return;
+    setStep('preview');
+    setPlans(null);
+    setPreviewProgress({ done: 0, total: shopIds.size });
+    try {
+      const result = await previewBatch(Array.from(shopIds), settings, source, (done, total) => setPreviewProgress({ done, total }));
+      setPlans(result);
+    } catch (err) {
+      toast({ title: 'Lỗi', description: (err as Error).message, variant: 'destructive' });
+      setStep('settings');
+    } finally {
+      setPreviewProgress(null);
+    }
+  };
+
+  const readyPlans = plans?.filter(p => !p.error && p.slots.length > 0 && p.itemsCount > 0) || [];
+  const totalSlots = readyPlans.reduce((sum, p) => sum + p.slots.length, 0);
+
+  const handleEnqueue = async () => {
+    if (!plans || !source) return;
+    try {
+      const batchId = await createBatch.mutateAsync({ name, settings, source, plans });
+      toast({
+        title: 'Đã tạo batch',
+        description: `${totalSlots} khung giờ cho ${readyPlans.length} shop${plans.length > readyPlans.length ? ` · ${plans.length - readyPlans.length} shop lỗi` : ''}`,
+      });
+      onCreated?.(batchId);
+      onOpenChange(false);
+    } catch (err) {
+      toast({ title: 'Lỗi', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const allVisibleSelected = visibleShops.length > 0 && visibleShops.every(s => shopIds.has(s.shop_id));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" /> Lên lịch Flash Sale hàng loạt
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'shops' && 'Bước 1/3 · Chọn shop'}
+            {step === 'settings' && `Bước 2/3 · Khung giờ & sản phẩm cho ${shopIds.size} shop`}
+            {step === 'preview' && 'Bước 3/3 · Kiểm tra trước khi lên lịch'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[65vh] overflow-y-auto pr-1">
+          {/* ==================== STEP 1: SHOPS ==================== */}
+          {step === 'shops' && (
+            <>
+              <div className="flex flex-col md:flex-row gap-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                  <Input value={search} onChange={e => setSearch(e.target.value)} placeholder="Tìm shop..." className="h-9 pl-8" />
+                </div>
+                <Select value={group} onValueChange={setGroup}>
+                  <SelectTrigger className="h-9 md:w-[220px]"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_GROUP}>Tất cả shop</SelectItem>
+                    {regions.map(region => (
+                      <SelectItem key={region} value={`region:${region}`}>Khu vực {region}</SelectItem>
+                    ))}
+                    {templates.filter(t => t.shop_ids.length > 0).map(t => (
+                      <SelectItem key={t.id} value={`template:${t.id}`}>Gắn template: {t.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Checkbox checked={allVisibleSelected} onCheckedChange={checked => selectVisible(checked === true)} />
+                Chọn tất cả {visibleShops.length} shop đang lọc · đã chọn {shopIds.size}
+              </label>
+
+              <div className="border rounded-lg divide-y max-h-[320px] overflow-y-auto">
+                {visibleShops.map(shop => (
+                  <label key={shop.shop_id} className="flex items-center gap-2 px-3 py-2 text-sm cursor-pointer hover:bg-muted">
+                    <Checkbox checked={shopIds.has(shop.shop_id)} onCheckedChange={() => toggleShop(shop.shop_id)} />
+                    <span className="truncate">{shop.shop_name || `Shop #${shop.shop_id}`}</span>
+                    {shop.region && <span className="text-xs text-muted-foreground ml-auto">{shop.region}</span>}
+                  </label>
+                ))}
+                {visibleShops.length === 0 && (
+                  <p className="px-3 py-6 text-center text-sm text-muted-foreground">Không có shop phù hợp</p>
+                )}
+              </div>
+            </>
+          )}
+
+          {/* ==================== STEP 2: SETTINGS ==================== */}
+          {step === 'settings' && (
+            <>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Tên batch (tùy chọn)</Label>
+                <Input value={name} onChange={e => setName(e.target.value)} placeholder="VD: Flash Sale 12.12" className="h-9" />
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Giờ bắt đầu khung giờ <span className="text-destructive">*</span></Label>
+                <div className="grid grid-cols-8 gap-1.5">
+                  {HOURS.map(hour => (
+                    <button
+                      key={hour}
+                      type="button"
+                      onClick={() => toggleHour(hour)}
+                      className={cn(
+                        'h-8 rounded-md border text-xs font-medium cursor-pointer',
+                        hours.has(hour) ? 'bg-primary text-primary-foreground border-primary' : 'hover:bg-muted'
+                      )}
+                    >
+                      {String(hour).padStart(2, '0')}:00
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Trong</Label>
+                  <Select value={String(horizonDays)} onValueChange={v => setHorizonDays(Number(v))}>
+                    <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {HORIZON_OPTIONS.map(d => <SelectItem key={d} value={String(d)}>{d} ngày tới</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Cài trước</Label>
+                  <Select value={String(leadTimeMinutes)} onValueChange={v => setLeadTimeMinutes(Number(v))}>
+                    <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {LEAD_TIME_OPTIONS.map(m => (
+                        <SelectItem key={m} value={String(m)}>{m === 0 ? 'Ngay khi tới lịch' : `${m} phút trước`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Nguồn sản phẩm</Label>
+                <Select value={sourceType} onValueChange={v => setSourceType(v as SourceType)}>
+                  <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="latest">Flash Sale gần nhất của từng shop</SelectItem>
+                    <SelectItem value="template">Template</SelectItem>
+                    <SelectItem value="top_sellers">Sản phẩm bán chạy nhất</SelectItem>
+                  </SelectContent>
+                </Select>
+
+                {sourceType === 'template' && (
+                  <Select value={templateId} onValueChange={setTemplateId}>
+                    <SelectTrigger className="h-9"><SelectValue placeholder="Chọn template" /></SelectTrigger>
+                    <SelectContent>
+                      {templates.map(t => (
+                        <SelectItem key={t.id} value={t.id}>{t.name} (v{t.current_version})</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
+                {sourceType === 'top_sellers' && (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    {([
+                      ['limit', 'Số sản phẩm', 1, 50],
+                      ['percent_off', 'Giảm (%)', 1, 99],
+                      ['stock', 'Tồn kho CT', 1, undefined],
+                      ['purchase_limit', 'Giới hạn mua (0 = không)', 0, undefined],
+                    ] as const).map(([key, label, min, max]) => (
+                      <div key={key} className="space-y-1">
+                        <Label className="text-xs text-muted-foreground">{label}</Label>
+                        <Input
+                          type="number" min={min} max={max} value={topSellers[key]} className="h-9"
+                          onChange={e => setTopSellers(prev => ({ ...prev, [key]: Math.max(min, Number(e.target.value) || 0) }))}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Sản phẩm được lấy lúc tạo Flash Sale; khung giờ đã có lịch hoặc đã có Flash Sale sẽ được bỏ qua.
+                </p>
+              </div>
+            </>
+          )}
+
+          {/* ==================== STEP 3: PREVIEW ==================== */}
+          {step === 'preview' && (
+            <>
+              {previewProgress && (
+                <div className="space-y-2 py-4">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Spinner className="h-4 w-4" />
+                    Đang kiểm tra shop {previewProgress.done}/{previewProgress.total}...
+                  </div>
+                  <Progress value={(previewProgress.done / Math.max(1, previewProgress.total)) * 100} />
+                </div>
+              )}
+
+              {plans && source && (
+                <>
+                  <div className="text-sm">
+                    <span className="font-medium">{totalSlots} khung giờ</span> cho {readyPlans.length}/{plans.length} shop
+                    {' · '}{describeBatchItemSource(source, selectedTemplate?.name)}
+                  </div>
+                  <div className="border rounded-lg divide-y text-sm">
+                    {plans.map(plan => {
+                      const error = plan.error
+                        || (plan.slots.length === 0 ? 'Không có khung giờ phù hợp' : null)
+                        || (plan.itemsCount === 0 ? 'Không có sản phẩm' : null);
+                      return (
+                        <div key={plan.shopId} className="px-3 py-2 space-y-1">
+                          <div className="flex items-center gap-2">
+                            {error
+                              ? <AlertCircle className="h-4 w-4 text-destructive flex-shrink-0" />
+                              : <CheckCircle2 className="h-4 w-4 text-success flex-shrink-0" />}
+                            <span className="font-medium truncate">{shopName(plan.shopId)}</span>
+                            <span className="text-xs text-muted-foreground ml-auto whitespace-nowrap">
+                              {plan.slots.length} khung · {plan.itemsCount} SP
+                              {plan.skippedSlots > 0 && ` · ${plan.skippedSlots} bỏ qua`}
+                            </span>
+                          </div>
+                          {error ? (
+                            <p className="text-xs text-destructive ml-6">{error}</p>
+                          ) : (
+                            <p className="text-xs text-muted-foreground ml-6 truncate">
+                              {plan.slots.map(s => formatSlot(s.start_time)).join(', ')}
+                            </p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          {step !== 'shops' && (
+            <Button
+              variant="outline"
+              onClick={() => setStep(step === 'preview' ? 'settings' : 'shops')}
+              disabled={!!previewProgress || createBatch.isPending}
+              className="cursor-pointer"
+            >
+              <ArrowLeft className="h-4 w-4 mr-1" /> Quay lại
+            </Button>
+          )}
+          {step === 'shops' && (
+            <Button onClick={() => setStep('settings')} disabled={shopIds.size === 0} className="cursor-pointer">
+              Tiếp <ArrowRight className="h-4 w-4 ml-1" />
+            </Button>
+          )}
+          {step === 'settings' && (
+            <Button onClick={runPreview} disabled={hours.size === 0 || !source} className="cursor-pointer">
+              Xem trước <ArrowRight className="h-4 w-4 ml-1" />
+            </Button>
+          )}
+          {step === 'preview' && (
+            <Button onClick={handleEnqueue} disabled={!plans || totalSlots === 0 || createBatch.isPending} className="cursor-pointer">
+              {createBatch.isPending && <Spinner className="h-4 w-4 mr-2" />}
+              Lên lịch {totalSlots} khung giờ
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * CatalogLinkDialog - Ghép tay 1 sản phẩm / phân loại vào master SKU của danh mục chung,
+ * bỏ ghép, hoặc quay về ghép theo SKU trên Shopee
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useDeleteCatalogLink, useSaveCatalogLink } from '@/hooks/useProductCatalog';
+import { normalizeSku, type CatalogLink, type CatalogListing } from '@/lib/shopee/product-catalog';
+
+interface CatalogLinkDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  listing: CatalogListing;
+  shopName: string;
+  /** Ghép tay hiện tại của listing (nếu có) */
+  link: CatalogLink | null;
+  /** Master SKU có sẵn để gợi ý */
+  masterSkus: string[];
+}
+
+export function CatalogLinkDialog({ open, onOpenChange, userId, listing, shopName, link, masterSkus }: CatalogLinkDialogProps) {
+  const { toast } = useToast();
+  const [masterSku, setMasterSku] = useState(link?.master_sku ?? normalizeSku(listing.sku));
+  const saveLink = useSaveCatalogLink(userId);
+  const deleteLink = useDeleteCatalogLink();
+  const busy = saveLink.isPending || deleteLink.isPending;
+  const target = { shopId: listing.shop_id, itemId: listing.item_id, modelId: listing.model_id };
+
+  const run = async (action: () => Promise<void>, message: string) => {
+    try {
+      await action();
+      toast({ title: message });
+      onOpenChange(false);
+    } catch (err) {
+      toast({ title: 'Lỗi', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Ghép SKU</DialogTitle>
+          <DialogDescription className="line-clamp-2">
+            {shopName} · {listing.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 text-sm">
+          <div className="text-xs text-muted-foreground">
+            SKU trên Shopee: <span className="font-mono">{listing.sku || '(trống)'}</span>
+            {link && (
+              <span className="ml-2">
+                · Đang ghép tay: <span className="font-mono">{link.master_sku ?? 'không ghép'}</span>
+              </span>
+            )}
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="catalog-master-sku">Master SKU</Label>
+            <Input
+              id="catalog-master-sku"
+              value={masterSku}
+              onChange={e => setMasterSku(e.target.value)}
+              list="catalog-master-skus"
+              className="font-mono"
+            />
+            <datalist id="catalog-master-skus">
+              {masterSkus.map(sku => <option key={sku} value={sku} />)}
+            </datalist>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={busy}
+              onClick={() => run(() => saveLink.mutateAsync({ ...target, masterSku: null }), 'Đã bỏ ghép')}
+            >
+              Không ghép
+            </Button>
+            {link && (
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={busy}
+                onClick={() => run(() => deleteLink.mutateAsync(target), 'Đã ghép lại theo SKU Shopee')}
+              >
+                Theo SKU Shopee
+              </Button>
+            )}
+          </div>
+          <Button
+            size="sm"
+            disabled={busy || !normalizeSku(masterSku)}
+            onClick={() => run(() => saveLink.mutateAsync({ ...target, masterSku }), 'Đã ghép SKU')}
+          >
+            Lưu
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * FlashSaleBatchProgressDialog - Tiến độ các batch Flash Sale hàng loạt
+ * Mỗi batch: tiến độ khung giờ, trạng thái từng shop, lỗi + retry shop lỗi
+ */
+
+import { AlertCircle, CheckCircle2, Clock, Layers, RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Progress } from '@/components/ui/progress';
+import { Spinner } from '@/components/ui/spinner';
+import { useToast } from '@/hooks/use-toast';
+import { useFlashSaleBatches, useRetryFlashSaleBatch, type FlashSaleBatch } from '@/hooks/useFlashSaleBatches';
+import { describeBatchItemSource, type BatchShopState } from '@/lib/shopee/flash-sale';
+
+interface FlashSaleBatchProgressDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shopNameMap: Map<number, string>;
+}
+
+const STATE_LABELS: Record<BatchShopState, { label: string; className: string }> = {
+  pending: { label: 'Chờ chạy', className: 'bg-muted text-muted-foreground' },
+  running: { label: 'Đang chạy', className: 'bg-info/10 text-info' },
+  done: { label: 'Hoàn thành', className: 'bg-success/10 text-success' },
+  failed: { label: 'Lỗi', className: 'bg-destructive/10 text-destructive' },
+  skipped: { label: 'Bỏ qua', className: 'bg-warning/10 text-warning' },
+};
+
+export function FlashSaleBatchProgressDialog({ open, onOpenChange, shopNameMap }: FlashSaleBatchProgressDialogProps) {
+  const { toast } = useToast();
+  const { data: batches = [], isLoading } = useFlashSaleBatches(open);
+  const retryBatch = useRetryFlashSaleBatch();
+
+  const handleRetry = async (batch: FlashSaleBatch, shopIds: number[]) => {
+    try {
+      const { requeued, appended } = await retryBatch.mutateAsync({ batch, shopIds });
+      toast({
+        title: 'Đã thử lại',
+        description: `${requeued} khung giờ được lên lịch lại${appended ? ` · ${appended} khung giờ mới` : ''}`,
+      });
+    } catch (err) {
+      toast({ title: 'Lỗi', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" /> Batch Flash Sale
+          </DialogTitle>
+          <DialogDescription>{batches.length} batch gần nhất</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[65vh] overflow-y-auto pr-1">
+          {isLoading && (
+            <div className="flex justify-center py-8"><Spinner className="h-6 w-6" /></div>
+          )}
+          {!isLoading && batches.length === 0 && (
+            <p className="py-8 text-center text-sm text-muted-foreground">Chưa có batch nào</p>
+          )}
+
+          {batches.map(batch => {
+            const { progress } = batch;
+            const percent = progress.totalSlots > 0 ? (progress.finishedSlots / progress.totalSlots) * 100 : 100;
+            return (
+              <div key={batch.id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-start gap-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-sm truncate">
+                      {batch.name || `Batch ${new Date(batch.created_at).toLocaleString('vi-VN')}`}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {batch.shop_ids.length} shop · {batch.start_hours.map(h => `${String(h).padStart(2, '0')}:00`).join(', ')}
+                      {' · '}{describeBatchItemSource(batch.item_source)}
+                    </div>
+                  </div>
+                  {progress.failedShopIds.length > 0 && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRetry(batch, progress.failedShopIds)}
+                      disabled={retryBatch.isPending}
+                      className="cursor-pointer"
+                    >
+                      <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                      Thử lại shop lỗi ({progress.failedShopIds.length})
+                    </Button>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Progress value={percent} className="flex-1" />
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {progress.successSlots}/{progress.totalSlots} thành công
+                    {!progress.isFinished && <Clock className="inline h-3 w-3 ml-1" />}
+                  </span>
+                </div>
+
+                <div className="divide-y text-sm">
+                  {progress.shops.map(shop => (
+                    <div key={shop.shopId} className="py-1.5 flex items-start gap-2">
+                      {shop.state === 'failed' || shop.state === 'skipped'
+                        ? <AlertCircle className={`h-4 w-4 mt-0.5 flex-shrink-0 ${shop.state === 'failed' ? 'text-destructive' : 'text-warning'}`} />
+                        : <CheckCircle2 className="h-4 w-4 mt-0.5 text-success flex-shrink-0" />}
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="truncate">{shopNameMap.get(shop.shopId) || `Shop #${shop.shopId}`}</span>
+                          <Badge className={STATE_LABELS[shop.state].className}>{STATE_LABELS[shop.state].label}</Badge>
+                          <span className="text-xs text-muted-foreground ml-auto whitespace-nowrap">
+                            {shop.success}/{shop.total}{shop.error > 0 && ` · ${shop.error} lỗi`}
+                          </span>
+                        </div>
+                        {shop.message && (
+                          <p className={`text-xs truncate ${shop.state === 'failed' ? 'text-destructive' : 'text-muted-foreground'}`}>{shop.message}</p>
+                        )}
+                      </div>
+                      {shop.state === 'failed' && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleRetry(batch, [shop.shopId])}
+                          disabled={retryBatch.isPending}
+                          className="h-7 px-2 cursor-pointer"
+                          title="Thử lại shop này"
+                        >
+                          <RotateCcw className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,148 @@
+/**
+ * OrderDetailDialog - Chi tiết 1 đơn hàng đã đồng bộ: trạng thái, người nhận, vận chuyển,
+ * các dòng hàng (đánh dấu dòng mua trong Flash Sale) và lý do hủy nếu có
+ */
+
+import type { ReactNode } from 'react';
+import { Zap } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Spinner } from '@/components/ui/spinner';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useOrderDetail } from '@/hooks/useOrders';
+import { ORDER_STATUS_LABELS } from '@/lib/shopee/order-sync';
+
+interface OrderDetailDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shopId: number;
+  orderSn: string;
+}
+
+function formatPrice(price: number | null | undefined): string {
+  return new Intl.NumberFormat('vi-VN').format(Number(price) || 0) + ' đ';
+}
+
+function formatTime(seconds: number | null | undefined): string {
+  return seconds ? new Date(seconds * 1000).toLocaleString('vi-VN', { dateStyle: 'short', timeStyle: 'short' }) : '—';
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="space-y-0.5">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="text-sm">{children}</div>
+    </div>
+  );
+}
+
+export function OrderDetailDialog({ open, onOpenChange, shopId, orderSn }: OrderDetailDialogProps) {
+  const { data, isLoading } = useOrderDetail(shopId, orderSn);
+  const order = data?.order;
+  const items = data?.items ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Đơn <span className="font-mono">{orderSn}</span>
+            {order && <Badge variant="outline">{ORDER_STATUS_LABELS[order.order_status] ?? order.order_status}</Badge>}
+          </DialogTitle>
+          <DialogDescription>
+            {order ? `Đặt lúc ${formatTime(order.create_time)} · cập nhật ${formatTime(order.update_time)}` : ' '}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner className="h-8 w-8" />
+          </div>
+        ) : !order ? (
+          <div className="py-12 text-center text-sm text-muted-foreground">Không tìm thấy đơn hàng</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              <Field label="Người mua">{order.buyer_username || '—'}</Field>
+              <Field label="Tổng tiền"><span className="font-medium text-brand">{formatPrice(order.total_amount)}</span></Field>
+              <Field label="Thanh toán">
+                {order.payment_method || '—'}
+                {order.pay_time ? ` · ${formatTime(order.pay_time)}` : ''}
+              </Field>
+              <Field label="Vận chuyển">{order.shipping_carrier || '—'}</Field>
+              <Field label="Phí vận chuyển">
+                {formatPrice(order.actual_shipping_fee ?? order.estimated_shipping_fee)}
+                {order.actual_shipping_fee === null && order.estimated_shipping_fee !== null && ' (ước tính)'}
+              </Field>
+              <Field label="Hạn giao">{formatTime(order.ship_by_date)}</Field>
+            </div>
+
+            {order.recipient_address && (
+              <Field label="Người nhận">
+                {[order.recipient_address.name, order.recipient_address.phone].filter(Boolean).join(' · ')}
+                {order.recipient_address.full_address && (
+                  <div className="text-xs text-muted-foreground">{order.recipient_address.full_address}</div>
+                )}
+              </Field>
+            )}
+
+            {(order.cancel_reason || order.buyer_cancel_reason) && (
+              <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">
+                Hủy bởi {order.cancel_by || '—'}: {order.buyer_cancel_reason || order.cancel_reason}
+              </div>
+            )}
+
+            {(order.message_to_seller || order.note) && (
+              <div className="text-xs space-y-0.5">
+                {order.message_to_seller && <p><span className="text-muted-foreground">Lời nhắn:</span> {order.message_to_seller}</p>}
+                {order.note && <p><span className="text-muted-foreground">Ghi chú:</span> {order.note}</p>}
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sản phẩm</TableHead>
+                  <TableHead className="text-right">SL</TableHead>
+                  <TableHead className="text-right">Đơn giá</TableHead>
+                  <TableHead className="text-right">Thành tiền</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map(item => (
+                  <TableRow key={`${item.item_id}-${item.model_id}`}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {item.image_url && <img src={item.image_url} alt="" className="h-9 w-9 rounded object-cover flex-shrink-0" />}
+                        <div className="min-w-0">
+                          <div className="text-sm line-clamp-1">{item.item_name}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {[item.model_name, item.model_sku || item.item_sku].filter(Boolean).join(' · ')}
+                          </div>
+                        </div>
+                        {item.flash_sale_id !== null && (
+                          <Badge variant="outline" className="gap-1 text-[11px] bg-orange-50 text-orange-700 border-orange-200" title={`Flash Sale ${item.flash_sale_id}`}>
+                            <Zap className="h-3 w-3" />
+                            FS
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right text-sm">{item.quantity}</TableCell>
+                    <TableCell className="text-right text-sm">
+                      {formatPrice(item.discounted_price)}
+                      {Number(item.original_price) > Number(item.discounted_price) && (
+                        <div className="text-xs text-muted-foreground line-through">{formatPrice(item.original_price)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">{formatPrice(item.quantity * Number(item.discounted_price))}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,333 @@
+/**
+ * ProductAlertRulesDialog - Rule cảnh báo giá / tồn kho / trạng thái của shop
+ * Rule được đánh giá mỗi khi có history log mới (webhook, sync, sửa thủ công);
+ * rule khớp tạo alert trong inbox của ProductHistoryPanel.
+ */
+
+import { useState } from 'react';
+import { Pencil, Plus, ShieldAlert, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Spinner } from '@/components/ui/spinner';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useDeleteProductAlertRule,
+  useProductAlertRules,
+  useSaveProductAlertRule,
+  type AlertRuleInput,
+} from '@/hooks/useProductAlerts';
+import {
+  ALERT_RULE_TYPES,
+  describeAlertRule,
+  type AlertRuleType,
+  type AlertSeverity,
+  type ProductAlertRule,
+} from '@/lib/shopee/product-alerts';
+import { parsePriceInput } from '@/lib/shopee/product-edit';
+import { cn } from '@/lib/utils';
+
+const SEVERITY_OPTIONS: { value: AlertSeverity; label: string }[] = [
+  { value: 'WARNING', label: 'Cảnh báo' },
+  { value: 'HIGH', label: 'Nghiêm trọng' },
+  { value: 'CRITICAL', label: 'Cực kỳ nghiêm trọng' },
+];
+
+type RuleScope = 'shop' | 'category' | 'item';
+
+interface RuleDraft {
+  id?: string;
+  name: string;
+  ruleType: AlertRuleType;
+  threshold: string;
+  severity: AlertSeverity;
+  scope: RuleScope;
+  scopeId: string;
+  isEnabled: boolean;
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: '',
+  ruleType: 'price_drop_percent',
+  threshold: '30',
+  severity: 'WARNING',
+  scope: 'shop',
+  scopeId: '',
+  isEnabled: true,
+};
+
+function draftFromRule(rule: ProductAlertRule): RuleDraft {
+  return {
+    id: rule.id,
+    name: rule.name || '',
+    ruleType: rule.rule_type,
+    threshold: rule.threshold === null ? '' : String(rule.threshold),
+    severity: rule.severity,
+    scope: rule.item_id !== null ? 'item' : rule.category_id !== null ? 'category' : 'shop',
+    scopeId: String(rule.item_id ?? rule.category_id ?? ''),
+    isEnabled: rule.is_enabled,
+  };
+}
+
+function ruleInput(rule: ProductAlertRule, patch: Partial<AlertRuleInput> = {}): AlertRuleInput {
+  return {
+    id: rule.id,
+    shopId: rule.shop_id,
+    name: rule.name || undefined,
+    ruleType: rule.rule_type,
+    threshold: rule.threshold,
+    severity: rule.severity,
+    categoryId: rule.category_id,
+    itemId: rule.item_id,
+    isEnabled: rule.is_enabled,
+    ...patch,
+  };
+}
+
+/** Ngưỡng hợp lệ theo loại rule; undefined = không hợp lệ */
+function parseThreshold(draft: RuleDraft): number | null | undefined {
+  const unit = ALERT_RULE_TYPES[draft.ruleType].unit;
+  if (!unit) return null;
+  if (unit === 'đ') return parsePriceInput(draft.threshold) ?? undefined;
+  const percent = Number(draft.threshold.replace(',', '.'));
+  return Number.isFinite(percent) && percent > 0 && percent <= 1000 ? percent : undefined;
+}
+
+interface ProductAlertRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shopId: number;
+}
+
+export function ProductAlertRulesDialog({ open, onOpenChange, shopId }: ProductAlertRulesDialogProps) {
+  const { toast } = useToast();
+  const { data: rules = [], isLoading } = useProductAlertRules(open ? shopId : null);
+  const saveRule = useSaveProductAlertRule();
+  const deleteRule = useDeleteProductAlertRule();
+
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setDraft(null);
+    onOpenChange(next);
+  };
+
+  const updateDraft = (patch: Partial<RuleDraft>) => setDraft(prev => prev && { ...prev, ...patch });
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const threshold = parseThreshold(draft);
+    if (threshold === undefined) {
+      toast({ title: 'Ngưỡng không hợp lệ', variant: 'destructive' });
+      return;
+    }
+    const scopeId = Number(draft.scopeId);
+    if (draft.scope !== 'shop' && (!Number.isInteger(scopeId) || scopeId <= 0)) {
+      toast({ title: draft.scope === 'item' ? 'Nhập ID sản phẩm' : 'Nhập ID danh mục', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      await saveRule.mutateAsync({
+        id: draft.id,
+        shopId,
+        name: draft.name,
+        ruleType: draft.ruleType,
+        threshold,
+        severity: draft.severity,
+        categoryId: draft.scope === 'category' ? scopeId : null,
+        itemId: draft.scope === 'item' ? scopeId : null,
+        isEnabled: draft.isEnabled,
+      });
+      toast({
+        title: draft.id ? 'Đã cập nhật quy tắc' : 'Đã tạo quy tắc',
+        description: 'Áp dụng cho các thay đổi mới trong vòng 1 phút.',
+      });
+      setDraft(null);
+    } catch (err) {
+      toast({ title: 'Lỗi', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleToggle = async (rule: ProductAlertRule, isEnabled: boolean) => {
+    try {
+      await saveRule.mutateAsync(ruleInput(rule, { isEnabled }));
+    } catch (err) {
+      toast({ title: 'Lỗi', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async (rule: ProductAlertRule) => {
+    try {
+      await deleteRule.mutateAsync(rule.id);
+      toast({ title: 'Đã xóa quy tắc', description: 'Các cảnh báo đã tạo vẫn được giữ lại.' });
+      if (draft?.id === rule.id) setDraft(null);
+    } catch (err) {
+      toast({ title: 'Lỗi', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const unit = draft ? ALERT_RULE_TYPES[draft.ruleType].unit : undefined;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5" /> Quy tắc cảnh báo sản phẩm
+          </DialogTitle>
+          <DialogDescription>
+            Kiểm tra mỗi thay đổi giá, tồn kho, trạng thái. Thay đổi khớp quy tắc được đưa vào hộp cảnh báo.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[65vh] overflow-y-auto pr-1">
+          {isLoading ? (
+            <div className="flex justify-center py-6"><Spinner className="h-5 w-5" /></div>
+          ) : rules.length === 0 && !draft ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Chưa có quy tắc nào.</p>
+          ) : (
+            <div className="border rounded-lg divide-y">
+              {rules.map(rule => (
+                <div key={rule.id} className={cn('px-3 py-2 flex items-center gap-2', draft?.id === rule.id && 'bg-primary/5')}>
+                  <Switch
+                    checked={rule.is_enabled}
+                    onCheckedChange={checked => handleToggle(rule, checked)}
+                    disabled={saveRule.isPending}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium truncate">{rule.name || describeAlertRule(rule)}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {rule.name && `${describeAlertRule(rule)} · `}
+                      {SEVERITY_OPTIONS.find(s => s.value === rule.severity)?.label || rule.severity}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost" size="icon" className="h-7 w-7 cursor-pointer"
+                    onClick={() => setDraft(draftFromRule(rule))}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-destructive cursor-pointer"
+                    onClick={() => handleDelete(rule)}
+                    disabled={deleteRule.isPending}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!draft && (
+            <Button variant="outline" size="sm" onClick={() => setDraft({ ...EMPTY_DRAFT })} className="cursor-pointer">
+              <Plus className="h-4 w-4 mr-1" /> Thêm quy tắc
+            </Button>
+          )}
+
+          {draft && (
+            <div className="border rounded-lg p-3 space-y-3">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Tên (tùy chọn)</Label>
+                <Input
+                  value={draft.name} className="h-9" placeholder="VD: Giá sàn áo thun"
+                  onChange={e => updateDraft({ name: e.target.value })}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Điều kiện</Label>
+                  <Select
+                    value={draft.ruleType}
+                    onValueChange={v => updateDraft({ ruleType: v as AlertRuleType, threshold: v === 'price_below_floor' ? '' : draft.threshold })}
+                  >
+                    <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ALERT_RULE_TYPES) as AlertRuleType[]).map(type => (
+                        <SelectItem key={type} value={type}>{ALERT_RULE_TYPES[type].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {unit && (
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">
+                      {unit === '%' ? 'Ngưỡng (%)' : 'Giá sàn (đ)'}
+                    </Label>
+                    <Input
+                      value={draft.threshold} className="h-9" inputMode="decimal"
+                      placeholder={unit === '%' ? '30' : '100.000'}
+                      onChange={e => updateDraft({ threshold: e.target.value })}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Phạm vi</Label>
+                  <Select value={draft.scope} onValueChange={v => updateDraft({ scope: v as RuleScope, scopeId: '' })}>
+                    <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="shop">Toàn shop</SelectItem>
+                      <SelectItem value="category">Danh mục</SelectItem>
+                      <SelectItem value="item">Sản phẩm</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {draft.scope !== 'shop' && (
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">
+                      {draft.scope === 'item' ? 'ID sản phẩm' : 'ID danh mục'}
+                    </Label>
+                    <Input
+                      value={draft.scopeId} className="h-9" inputMode="numeric"
+                      onChange={e => updateDraft({ scopeId: e.target.value.trim() })}
+                    />
+                  </div>
+                )}
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Mức độ</Label>
+                  <Select value={draft.severity} onValueChange={v => updateDraft({ severity: v as AlertSeverity })}>
+                    <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {SEVERITY_OPTIONS.map(s => (
+                        <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={draft.isEnabled} onCheckedChange={checked => updateDraft({ isEnabled: checked })} />
+                Đang bật
+              </label>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setDraft(null)} className="cursor-pointer">
+                  Hủy
+                </Button>
+                <Button size="sm" onClick={handleSave} disabled={saveRule.isPending} className="cursor-pointer">
+                  {saveRule.isPending && <Spinner className="h-4 w-4 mr-1" />}
+                  {draft.id ? 'Cập nhật' : 'Tạo quy tắc'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} className="cursor-pointer">
+            Đóng
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
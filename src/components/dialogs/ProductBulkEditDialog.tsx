@@ -0,0 +1,284 @@
+/**
+ * ProductBulkEditDialog - Sửa giá / tồn kho hàng loạt bằng file CSV
+ * Xuất catalogue → sửa file → nhập lại để xem diff với DB → áp dụng tuần tự, báo kết quả từng dòng
+ */
+
+import { useMemo, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle2, Download, FileSpreadsheet, MinusCircle, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { invokeProductEdit, useInvalidateProductEdits } from '@/hooks/useProductEdits';
+import { logCompletedActivity } from '@/lib/activity-logger';
+import { cn } from '@/lib/utils';
+import { CSV_MIME, downloadFile, readSpreadsheetFile, toCsv } from '@/lib/spreadsheet';
+import {
+  applyBulkRequests,
+  buildBulkCatalog,
+  buildBulkRequests,
+  catalogToSheet,
+  diffBulkImport,
+  parseBulkSheet,
+  resultsToSheet,
+  summarizeRowResult,
+  type BulkDiffRow,
+  type BulkImportError,
+  type BulkRowResult,
+  type BulkSourceModel,
+  type BulkSourceProduct,
+} from '@/lib/shopee/product-bulk';
+
+interface ProductBulkEditDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shopId: number;
+  userId: string;
+  products: BulkSourceProduct[];
+  modelsByItem: Record<number, BulkSourceModel[]>;
+}
+
+function formatNumber(value: number | null | undefined): string {
+  return value === null || value === undefined ? '-' : new Intl.NumberFormat('vi-VN').format(value);
+}
+
+function fileStamp(): string {
+  return new Date().toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+export function ProductBulkEditDialog({ open, onOpenChange, shopId, userId, products, modelsByItem }: ProductBulkEditDialogProps) {
+  const { toast } = useToast();
+  const invalidate = useInvalidateProductEdits(shopId);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [diffs, setDiffs] = useState<BulkDiffRow[]>([]);
+  const [parseErrors, setParseErrors] = useState<BulkImportError[]>([]);
+  const [results, setResults] = useState<Map<string, BulkRowResult>>(new Map());
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [applying, setApplying] = useState(false);
+
+  const catalog = useMemo(() => buildBulkCatalog(products, modelsByItem), [products, modelsByItem]);
+  const validDiffs = useMemo(() => diffs.filter(d => !d.error), [diffs]);
+  const finished = progress !== null && !applying;
+
+  const reset = () => {
+    setFileName(null);
+    setDiffs([]);
+    setParseErrors([]);
+    setResults(new Map());
+    setProgress(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (applying) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleExport = () => {
+    downloadFile(toCsv(catalogToSheet(catalog)), `products_${shopId}_${fileStamp()}.csv`, CSV_MIME);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    reset();
+    try {
+      const { rows, errors } = parseBulkSheet(await readSpreadsheetFile(file));
+      setFileName(file.name);
+      setParseErrors(errors);
+      setDiffs(diffBulkImport(catalog, rows));
+    } catch (err) {
+      toast({ title: 'Không đọc được file', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleApply = async () => {
+    const requests = buildBulkRequests(validDiffs);
+    if (requests.length === 0) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const startTime = new Date();
+    setApplying(true);
+    setResults(new Map());
+    setProgress({ done: 0, total: requests.length });
+
+    const finalResults = await applyBulkRequests(requests, request => invokeProductEdit(shopId, userId, request), {
+      signal: controller.signal,
+      onProgress: (done, total, partial) => {
+        setProgress({ done, total });
+        setResults(new Map(partial));
+      },
+    });
+
+    setResults(finalResults);
+    setApplying(false);
+    abortRef.current = null;
+    invalidate();
+
+    const summaries = validDiffs.map(d => summarizeRowResult(finalResults.get(d.key)));
+    const success = summaries.filter(s => s?.status === 'success').length;
+    const failed = summaries.filter(s => s?.status === 'failed').length;
+    const skipped = summaries.filter(s => s?.status === 'skipped').length;
+
+    toast({
+      title: failed > 0 ? 'Hoàn tất, có dòng lỗi' : 'Đã áp dụng thay đổi',
+      description: `${success} thành công · ${failed} lỗi${skipped ? ` · ${skipped} bỏ qua` : ''}`,
+      variant: failed > 0 && success === 0 ? 'destructive' : undefined,
+    });
+
+    logCompletedActivity({
+      userId,
+      shopId,
+      actionType: 'products_bulk_edit',
+      actionCategory: 'products',
+      actionDescription: `Sửa hàng loạt từ ${fileName}: ${success}/${validDiffs.length} dòng thành công`,
+      status: success === 0 ? 'failed' : 'success',
+      source: 'manual',
+      startedAt: startTime,
+      completedAt: new Date(),
+      durationMs: Date.now() - startTime.getTime(),
+      requestData: { file_name: fileName, rows: validDiffs.length, requests: requests.length },
+      responseData: { success, failed, skipped },
+    });
+  };
+
+  const downloadResults = () => {
+    downloadFile(toCsv(resultsToSheet(diffs, results)), `products_${shopId}_result_${fileStamp()}.csv`, CSV_MIME);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" /> Sửa giá & tồn kho hàng loạt
+          </DialogTitle>
+          <DialogDescription>
+            Xuất file, sửa cột price / stock (để trống = giữ nguyên) rồi nhập lại để xem thay đổi trước khi áp dụng
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">{catalog.length} dòng</span>
+            <Button size="sm" variant="outline" onClick={handleExport} disabled={catalog.length === 0} className="cursor-pointer">
+              <Download className="h-4 w-4 mr-1" /> CSV
+            </Button>
+            <div className="ml-auto flex items-center gap-2">
+              {fileName && <span className="text-xs text-muted-foreground truncate max-w-48">{fileName}</span>}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+              <Button size="sm" onClick={() => fileInputRef.current?.click()} disabled={applying} className="cursor-pointer">
+                <Upload className="h-4 w-4 mr-1" /> Nhập file
+              </Button>
+            </div>
+          </div>
+
+          {parseErrors.length > 0 && (
+            <div className="rounded-md border border-destructive/30 bg-destructive/5 p-2 text-xs text-destructive max-h-24 overflow-y-auto">
+              {parseErrors.map(e => (
+                <div key={e.line}>Dòng {e.line}: {e.message}</div>
+              ))}
+            </div>
+          )}
+
+          {fileName && (
+            <div className="text-sm">
+              <span className="font-medium">{validDiffs.length}</span> dòng thay đổi
+              {diffs.length > validDiffs.length && (
+                <span className="text-destructive"> · {diffs.length - validDiffs.length} dòng không hợp lệ</span>
+              )}
+            </div>
+          )}
+
+          {diffs.length > 0 && (
+            <div className="border rounded-md max-h-[45vh] overflow-y-auto">
+              <table className="w-full text-xs">
+                <thead className="bg-muted sticky top-0">
+                  <tr className="text-left">
+                    <th className="px-2 py-1.5 font-medium">Dòng</th>
+                    <th className="px-2 py-1.5 font-medium">Sản phẩm</th>
+                    <th className="px-2 py-1.5 font-medium text-right">Giá</th>
+                    <th className="px-2 py-1.5 font-medium text-right">Tồn kho</th>
+                    <th className="px-2 py-1.5 font-medium">Kết quả</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {diffs.map(d => {
+                    const outcome = d.error ? { status: 'failed' as const, message: d.error } : summarizeRowResult(results.get(d.key));
+                    return (
+                      <tr key={d.key} className={cn(d.error && 'bg-destructive/5')}>
+                        <td className="px-2 py-1.5 text-muted-foreground">{d.line}</td>
+                        <td className="px-2 py-1.5 max-w-64">
+                          <div className="truncate" title={d.name}>{d.name || `#${d.item_id}`}</div>
+                          <div className="text-muted-foreground truncate">
+                            {d.sku || '-'} · {d.item_id}{d.model_id ? ` / ${d.model_id}` : ''}
+                          </div>
+                        </td>
+                        <td className="px-2 py-1.5 text-right whitespace-nowrap">
+                          {d.new_price !== undefined
+                            ? <>{formatNumber(d.old_price)} → <span className="font-medium">{formatNumber(d.new_price)}</span></>
+                            : <span className="text-muted-foreground">{formatNumber(d.old_price)}</span>}
+                        </td>
+                        <td className="px-2 py-1.5 text-right whitespace-nowrap">
+                          {d.new_stock !== undefined
+                            ? <>{formatNumber(d.old_stock)} → <span className="font-medium">{formatNumber(d.new_stock)}</span></>
+                            : <span className="text-muted-foreground">{formatNumber(d.old_stock)}</span>}
+                        </td>
+                        <td className="px-2 py-1.5">
+                          {outcome?.status === 'success' && <CheckCircle2 className="h-4 w-4 text-success" />}
+                          {outcome?.status === 'skipped' && <MinusCircle className="h-4 w-4 text-muted-foreground" />}
+                          {outcome?.status === 'failed' && (
+                            <span className="flex items-start gap-1 text-destructive">
+                              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                              <span className="line-clamp-2">{outcome.message}</span>
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {progress && (
+            <div className="flex items-center gap-2">
+              <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 100} className="flex-1" />
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                {progress.done}/{progress.total} request
+              </span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {finished && (
+            <Button variant="outline" onClick={downloadResults} className="cursor-pointer">
+              <Download className="h-4 w-4 mr-1" /> Tải kết quả
+            </Button>
+          )}
+          {applying ? (
+            <Button variant="destructive" onClick={() => abortRef.current?.abort()} className="cursor-pointer">
+              Dừng
+            </Button>
+          ) : (
+            <Button onClick={handleApply} disabled={validDiffs.length === 0 || finished} className="cursor-pointer">
+              Áp dụng {validDiffs.length} thay đổi
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,484 @@
+/**
+ * ProductContentDialog - Sửa tên, mô tả, thuộc tính, thương hiệu, cân nặng / kích thước và ảnh
+ * của sản phẩm dưới dạng bản nháp; kiểm tra theo yêu cầu ngành hàng rồi đẩy lên Shopee
+ */
+
+import { useMemo, useRef, useState, type ReactNode } from 'react';
+import { AlertCircle, ArrowLeft, ImagePlus, RefreshCw, Upload, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Spinner } from '@/components/ui/spinner';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import {
+  uploadProductImage,
+  useDiscardProductContentDraft,
+  useProductContent,
+  useProductContentDraft,
+  usePushProductContent,
+  useSaveProductContentDraft,
+} from '@/hooks/useProductContent';
+import { logCompletedActivity } from '@/lib/activity-logger';
+import {
+  contentChangeSummary,
+  diffContent,
+  validateContent,
+  CONTENT_FIELD_LABELS,
+  type CategoryAttribute,
+  type ContentValidationError,
+  type ProductAttributeValue,
+  type ProductContent,
+  type ProductContentField,
+  type ProductDimension,
+} from '@/lib/shopee/product-content';
+import { cn } from '@/lib/utils';
+
+interface ProductContentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shopId: number;
+  userId: string;
+  itemId: number;
+  itemName?: string | null;
+}
+
+const NO_VALUE = '__none__';
+
+function FieldError({ errors, field }: { errors: ContentValidationError[]; field: ProductContentField }) {
+  const messages = errors.filter(e => e.field === field && !e.attribute_id).map(e => e.message);
+  if (messages.length === 0) return null;
+  return <p className="text-xs text-destructive">{messages.join(' · ')}</p>;
+}
+
+function Section({ title, hint, children }: { title: string; hint?: ReactNode; children: ReactNode }) {
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between">
+        <Label>{title}</Label>
+        {hint && <span className="text-xs text-muted-foreground">{hint}</span>}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+/** Ô nhập 1 thuộc tính theo input_type của ngành hàng */
+function AttributeInput({
+  attribute,
+  values,
+  onChange,
+}: {
+  attribute: CategoryAttribute;
+  values: ProductAttributeValue[];
+  onChange: (values: ProductAttributeValue[]) => void;
+}) {
+  if (attribute.input_type === 'single_select') {
+    return (
+      <Select
+        value={values[0]?.value_id ? String(values[0].value_id) : NO_VALUE}
+        onValueChange={v => onChange(v === NO_VALUE ? [] : [{ value_id: Number(v) }])}
+      >
+        <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_VALUE} className="text-xs">—</SelectItem>
+          {attribute.values.map(v => (
+            <SelectItem key={v.value_id} value={String(v.value_id)} className="text-xs">{v.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  if (attribute.input_type === 'multi_select') {
+    const selected = new Set(values.map(v => v.value_id));
+    return (
+      <div className="flex flex-wrap gap-x-3 gap-y-1.5 max-h-28 overflow-y-auto">
+        {attribute.values.map(v => (
+          <label key={v.value_id} className="flex items-center gap-1.5 text-xs cursor-pointer">
+            <Checkbox
+              checked={selected.has(v.value_id)}
+              onCheckedChange={checked => onChange(checked
+                ? [...values, { value_id: v.value_id }]
+                : values.filter(x => x.value_id !== v.value_id))}
+            />
+            {v.name}
+          </label>
+        ))}
+      </div>
+    );
+  }
+
+  // Tự nhập (combo box: chữ trùng tên giá trị có sẵn thì dùng value_id của nó); nhiều giá trị cách nhau dấu phẩy
+  const isMulti = attribute.input_type === 'multi_combo';
+  const unit = values[0]?.value_unit || attribute.units[0];
+  const text = values.map(v => attribute.values.find(x => x.value_id === v.value_id)?.name ?? v.original_value_name ?? '').join(', ');
+  const handleText = (raw: string) => {
+    const parts = (isMulti ? raw.split(',') : [raw]).map(p => p.trim()).filter(Boolean);
+    onChange(parts.map(part => {
+      const known = attribute.values.find(v => v.name.toLowerCase() === part.toLowerCase());
+      return known ? { value_id: known.value_id } : { value_id: 0, original_value_name: part, ...(unit ? { value_unit: unit } : {}) };
+    }));
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Input
+        defaultValue={text}
+        onBlur={e => handleText(e.target.value)}
+        placeholder={isMulti ? 'Nhiều giá trị, cách nhau dấu phẩy' : undefined}
+        className="h-8 text-xs"
+        list={attribute.values.length > 0 ? `attr-${attribute.attribute_id}` : undefined}
+      />
+      {attribute.values.length > 0 && (
+        <datalist id={`attr-${attribute.attribute_id}`}>
+          {attribute.values.map(v => <option key={v.value_id} value={v.name} />)}
+        </datalist>
+      )}
+      {attribute.units.length > 0 && (
+        <Select
+          value={unit}
+          onValueChange={u => onChange(values.map(v => (v.value_id ? v : { ...v, value_unit: u })))}
+        >
+          <SelectTrigger className="h-8 w-24 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {attribute.units.map(u => <SelectItem key={u} value={u} className="text-xs">{u}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
+
+export function ProductContentDialog({ open, onOpenChange, shopId, userId, itemId, itemName }: ProductContentDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [edited, setEdited] = useState<ProductContent | null>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const { data: meta, isLoading: loadingMeta, error: metaError } = useProductContent(shopId, userId, open ? itemId : null);
+  const { data: draft, isLoading: loadingDraft } = useProductContentDraft(shopId, open ? itemId : null);
+  const saveDraft = useSaveProductContentDraft(shopId, userId, itemId);
+  const discardDraft = useDiscardProductContentDraft(shopId, itemId);
+  const pushContent = usePushProductContent(shopId, userId, itemId);
+
+  // Nháp đang mở được sửa tiếp; chưa có nháp thì bắt đầu từ nội dung hiện tại trên Shopee
+  const base = draft?.base_content ?? meta?.content ?? null;
+  const content = edited ?? draft?.content ?? meta?.content ?? null;
+
+  const errors = useMemo(
+    () => (content && meta ? validateContent(content, meta.attributes, meta.limits) : []),
+    [content, meta]
+  );
+  const changed = useMemo(() => (content && base ? diffContent(base, content) : []), [content, base]);
+  const busy = saveDraft.isPending || pushContent.isPending || discardDraft.isPending || uploading;
+
+  const update = (patch: Partial<ProductContent>) => {
+    if (content) setEdited({ ...content, ...patch });
+  };
+
+  const attributeValues = (attributeId: number) =>
+    content?.attribute_list.find(a => a.attribute_id === attributeId)?.attribute_value_list || [];
+
+  const setAttributeValues = (attributeId: number, values: ProductAttributeValue[]) => {
+    if (!content) return;
+    const others = content.attribute_list.filter(a => a.attribute_id !== attributeId);
+    update({ attribute_list: values.length > 0 ? [...others, { attribute_id: attributeId, attribute_value_list: values }] : others });
+  };
+
+  const updateDimension = (key: keyof ProductDimension, value: string) => {
+    const current = content?.dimension ?? { package_length: 0, package_width: 0, package_height: 0 };
+    const next = { ...current, [key]: Number(value) || 0 };
+    update({ dimension: next.package_length || next.package_width || next.package_height ? next : null });
+  };
+
+  const moveImageFirst = (index: number) => {
+    if (!content) return;
+    const images = [...content.images];
+    const [image] = images.splice(index, 1);
+    update({ images: [image, ...images] });
+  };
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!files || !content || !meta) return;
+    setUploading(true);
+    try {
+      const room = meta.limits.image_max - content.images.length;
+      const uploaded = [];
+      for (const file of Array.from(files).slice(0, Math.max(room, 0))) {
+        uploaded.push(await uploadProductImage(shopId, userId, file));
+      }
+      update({ images: [...content.images, ...uploaded] });
+    } catch (err) {
+      toast({ title: 'Upload ảnh thất bại', description: (err as Error).message, variant: 'destructive' });
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const persistDraft = async () => {
+    if (!content || !base || !meta) throw new Error('Chưa tải xong nội dung');
+    return saveDraft.mutateAsync({
+      id: draft?.id,
+      categoryId: meta.category_id,
+      baseContent: base,
+      content,
+      validationErrors: errors,
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      await persistDraft();
+      toast({ title: 'Đã lưu nháp' });
+    } catch (err) {
+      toast({ title: 'Lưu nháp thất bại', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!draft) return;
+    try {
+      await discardDraft.mutateAsync(draft.id);
+      setEdited(null);
+    } catch (err) {
+      toast({ title: 'Xóa nháp thất bại', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handlePush = async () => {
+    const startTime = new Date();
+    try {
+      const saved = await persistDraft();
+      const result = await pushContent.mutateAsync(saved.id);
+      const errorMessage = result.success ? null
+        : result.validation_errors?.length ? result.validation_errors.map(e => e.message).join(' · ')
+        : result.error || 'Đẩy nội dung thất bại';
+
+      logCompletedActivity({
+        userId,
+        shopId,
+        actionType: 'product_push_content',
+        actionCategory: 'products',
+        actionDescription: result.changed_fields.length > 0
+          ? `${contentChangeSummary(result.changed_fields)}: #${itemId}`
+          : `Cập nhật nội dung: #${itemId}`,
+        targetType: 'product',
+        targetId: String(itemId),
+        status: result.success ? 'success' : 'failed',
+        source: 'manual',
+        startedAt: startTime,
+        completedAt: new Date(),
+        durationMs: Date.now() - startTime.getTime(),
+        requestData: { draft_id: saved.id, fields: changed },
+        errorMessage: errorMessage || undefined,
+      });
+
+      if (errorMessage) {
+        toast({ title: 'Đẩy nội dung thất bại', description: errorMessage, variant: 'destructive' });
+        return;
+      }
+      toast({
+        title: 'Đã cập nhật nội dung',
+        description: result.changed_fields.length > 0 ? contentChangeSummary(result.changed_fields) : 'Không có thay đổi',
+      });
+      setEdited(null);
+      onOpenChange(false);
+    } catch (err) {
+      toast({ title: 'Đẩy nội dung thất bại', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const limits = meta?.limits;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Sửa nội dung sản phẩm
+            {draft && <Badge variant="secondary">{draft.status === 'failed' ? 'Nháp (đẩy lỗi)' : 'Nháp'}</Badge>}
+          </DialogTitle>
+          <DialogDescription className="truncate">{itemName || `Sản phẩm #${itemId}`}</DialogDescription>
+        </DialogHeader>
+
+        {loadingMeta || loadingDraft ? (
+          <div className="flex justify-center py-16"><Spinner /></div>
+        ) : metaError || !content || !meta || !limits ? (
+          <p className="py-16 text-center text-sm text-destructive">
+            {(metaError as Error | null)?.message || 'Không tải được nội dung sản phẩm'}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {draft?.last_error && (
+              <div className="flex items-start gap-2 rounded-md border border-destructive/30 bg-destructive/5 px-3 py-2 text-xs text-destructive">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                <span>{draft.last_error}</span>
+              </div>
+            )}
+
+            <Section title="Tên sản phẩm" hint={`${content.item_name.trim().length}/${limits.name_max}`}>
+              <Input value={content.item_name} onChange={e => update({ item_name: e.target.value })} className="h-9" />
+              <FieldError errors={errors} field="item_name" />
+            </Section>
+
+            <Section title="Mô tả" hint={`${content.description.trim().length}/${limits.description_max}`}>
+              <Textarea value={content.description} onChange={e => update({ description: e.target.value })} rows={8} className="text-sm" />
+              <FieldError errors={errors} field="description" />
+            </Section>
+
+            <Section title="Hình ảnh" hint={`${content.images.length}/${limits.image_max} · ảnh đầu là ảnh bìa`}>
+              <div className="flex flex-wrap gap-2">
+                {content.images.map((image, index) => (
+                  <div key={image.image_id} className={cn('relative h-20 w-20 rounded-md border overflow-hidden group', index === 0 && 'ring-2 ring-brand')}>
+                    {image.image_url
+                      ? <img src={image.image_url} alt="" className="h-full w-full object-cover" />
+                      : <div className="h-full w-full bg-muted" />}
+                    <div className="absolute inset-x-0 top-0 flex justify-between p-0.5 opacity-0 group-hover:opacity-100">
+                      {index > 0 ? (
+                        <button type="button" title="Đặt làm ảnh bìa" onClick={() => moveImageFirst(index)} className="rounded bg-background/90 p-0.5">
+                          <ArrowLeft className="h-3 w-3" />
+                        </button>
+                      ) : <span />}
+                      <button
+                        type="button"
+                        title="Xóa ảnh"
+                        onClick={() => update({ images: content.images.filter((_, i) => i !== index) })}
+                        className="rounded bg-background/90 p-0.5"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                {content.images.length < limits.image_max && (
+                  <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={uploading}
+                    className="h-20 w-20 rounded-md border border-dashed flex flex-col items-center justify-center gap-1 text-xs text-muted-foreground hover:text-foreground disabled:opacity-50"
+                  >
+                    {uploading ? <RefreshCw className="h-4 w-4 animate-spin" /> : <ImagePlus className="h-4 w-4" />}
+                    Thêm ảnh
+                  </button>
+                )}
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/jpeg,image/png"
+                  multiple
+                  className="hidden"
+                  onChange={e => handleUpload(e.target.files)}
+                />
+              </div>
+              <FieldError errors={errors} field="images" />
+            </Section>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Section title={`Thương hiệu${limits.brand_mandatory ? ' *' : ''}`}>
+                <Select
+                  value={String(content.brand?.brand_id ?? 0)}
+                  onValueChange={v => {
+                    const brand = meta.brands.find(b => String(b.brand_id) === v);
+                    update({ brand: brand ?? null });
+                  }}
+                >
+                  <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0">Không thương hiệu</SelectItem>
+                    {content.brand && content.brand.brand_id > 0 && !meta.brands.some(b => b.brand_id === content.brand?.brand_id) && (
+                      <SelectItem value={String(content.brand.brand_id)}>{content.brand.original_brand_name}</SelectItem>
+                    )}
+                    {meta.brands.map(b => (
+                      <SelectItem key={b.brand_id} value={String(b.brand_id)}>{b.original_brand_name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FieldError errors={errors} field="brand" />
+              </Section>
+
+              <Section title="Cân nặng (kg)">
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={content.weight ?? ''}
+                  onChange={e => update({ weight: e.target.value === '' ? null : Number(e.target.value) })}
+                  className="h-9"
+                />
+                <FieldError errors={errors} field="weight" />
+              </Section>
+            </div>
+
+            <Section title="Kích thước đóng gói (cm)" hint="Dài × Rộng × Cao">
+              <div className="grid grid-cols-3 gap-2">
+                {(['package_length', 'package_width', 'package_height'] as const).map(key => (
+                  <Input
+                    key={key}
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={content.dimension?.[key] || ''}
+                    onChange={e => updateDimension(key, e.target.value)}
+                    className="h-9"
+                  />
+                ))}
+              </div>
+              <FieldError errors={errors} field="dimension" />
+            </Section>
+
+            {meta.attributes.length > 0 && (
+              <Section title="Thuộc tính" hint="* bắt buộc theo ngành hàng">
+                {/* Ô tự nhập không controlled - remount khi đổi / bỏ nháp */}
+                <div key={draft?.id ?? 'shopee'} className="border rounded-md divide-y">
+                  {meta.attributes.map(attribute => {
+                    const attributeError = errors.find(e => e.attribute_id === attribute.attribute_id);
+                    return (
+                      <div key={attribute.attribute_id} className="grid grid-cols-1 md:grid-cols-3 gap-2 px-3 py-2">
+                        <span className="text-xs font-medium pt-1.5">
+                          {attribute.name}{attribute.is_mandatory && <span className="text-destructive"> *</span>}
+                        </span>
+                        <div className="md:col-span-2 space-y-1">
+                          <AttributeInput
+                            attribute={attribute}
+                            values={attributeValues(attribute.attribute_id)}
+                            onChange={values => setAttributeValues(attribute.attribute_id, values)}
+                          />
+                          {attributeError && <p className="text-xs text-destructive">{attributeError.message}</p>}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </Section>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="flex-col sm:flex-row sm:items-center gap-2">
+          <p className="text-xs text-muted-foreground sm:mr-auto">
+            {changed.length > 0
+              ? `Đã sửa: ${changed.map(f => CONTENT_FIELD_LABELS[f]).join(', ')}`
+              : 'Chưa có thay đổi'}
+            {errors.length > 0 && <span className="text-destructive"> · {errors.length} lỗi cần sửa</span>}
+          </p>
+          {draft && (
+            <Button variant="ghost" size="sm" onClick={handleDiscard} disabled={busy}>Bỏ nháp</Button>
+          )}
+          <Button variant="outline" size="sm" onClick={handleSave} disabled={busy || !content || (!edited && !!draft)}>
+            Lưu nháp
+          </Button>
+          <Button size="sm" onClick={handlePush} disabled={busy || !content || changed.length === 0 || errors.length > 0}>
+            {pushContent.isPending ? <RefreshCw className="h-4 w-4 mr-1.5 animate-spin" /> : <Upload className="h-4 w-4 mr-1.5" />}
+            Đẩy lên Shopee
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
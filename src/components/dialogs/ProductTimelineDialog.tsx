@@ -0,0 +1,222 @@
+/**
+ * ProductTimelineDialog - Biểu đồ giá / giá khuyến mãi / tồn kho theo thời gian của từng phân loại,
+ * dựng lại từ history logs, overlay các khung Flash Sale và bảng giá trị lúc mỗi khung bắt đầu
+ */
+
+import { useMemo, useState } from 'react';
+import { Download, Zap } from 'lucide-react';
+import {
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceArea,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Spinner } from '@/components/ui/spinner';
+import { useProductTimeline } from '@/hooks/useProductTimeline';
+import { CSV_MIME, downloadFile, toCsv } from '@/lib/spreadsheet';
+import {
+  flashSaleStartStates,
+  flashSaleStatesToSheet,
+  timelineToSheet,
+} from '@/lib/shopee/product-timeline';
+import { cn } from '@/lib/utils';
+
+interface ProductTimelineDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shopId: number;
+  itemId: number;
+  itemName?: string | null;
+}
+
+const RANGE_OPTIONS = [
+  { label: '7 ngày', value: 7 },
+  { label: '30 ngày', value: 30 },
+  { label: '90 ngày', value: 90 },
+];
+
+function formatNumber(value: number | null | undefined): string {
+  return value === null || value === undefined ? '-' : new Intl.NumberFormat('vi-VN').format(value);
+}
+
+function formatDateTime(ms: number): string {
+  return new Date(ms).toLocaleString('vi-VN', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+}
+
+function fileStamp(): string {
+  return new Date().toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+export function ProductTimelineDialog({ open, onOpenChange, shopId, itemId, itemName }: ProductTimelineDialogProps) {
+  const [days, setDays] = useState(30);
+  const [selectedModel, setSelectedModel] = useState<string | null>(null);
+
+  const { data, isLoading, dataUpdatedAt } = useProductTimeline(open ? shopId : null, itemId, days);
+  const series = useMemo(() => data?.series ?? [], [data]);
+  const windows = useMemo(() => data?.windows ?? [], [data]);
+
+  const current = series.find(s => String(s.model_id) === selectedModel) ?? series[0] ?? null;
+  const startStates = useMemo(() => (current ? flashSaleStartStates(current, windows) : []), [current, windows]);
+
+  // Mốc "hiện tại" của biểu đồ là lúc tải dữ liệu
+  const rangeEnd = dataUpdatedAt;
+  const rangeStart = rangeEnd - days * 24 * 60 * 60 * 1000;
+  // Điểm trước đầu khoảng được kéo về mép trái để đường giá không bị hụt
+  const chartData = useMemo(() => {
+    if (!current) return [];
+    const points = current.points.map(p => ({ ...p, time: Math.max(p.time, rangeStart) }));
+    const last = points[points.length - 1];
+    return last && last.time < rangeEnd ? [...points, { ...last, time: rangeEnd }] : points;
+  }, [current, rangeStart, rangeEnd]);
+
+  const handleExport = () => {
+    downloadFile(toCsv(timelineToSheet(series)), `timeline_${shopId}_${itemId}_${fileStamp()}.csv`, CSV_MIME);
+  };
+
+  const handleExportFlashSales = () => {
+    downloadFile(
+      toCsv(flashSaleStatesToSheet(series, windows)),
+      `timeline_${shopId}_${itemId}_flash_sale_${fileStamp()}.csv`,
+      CSV_MIME
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Lịch sử giá & tồn kho</DialogTitle>
+          <DialogDescription className="truncate">
+            {itemName || `Sản phẩm #${itemId}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {series.length > 1 && (
+            <Select value={current ? String(current.model_id) : undefined} onValueChange={setSelectedModel}>
+              <SelectTrigger className="h-8 w-56"><SelectValue placeholder="Phân loại" /></SelectTrigger>
+              <SelectContent>
+                {series.map(s => (
+                  <SelectItem key={s.model_id} value={String(s.model_id)}>
+                    {s.model_name || (s.model_id === 0 ? 'Cấp sản phẩm' : `#${s.model_id}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <div className="flex gap-1">
+            {RANGE_OPTIONS.map(option => (
+              <Button
+                key={option.value}
+                size="sm"
+                variant={days === option.value ? 'default' : 'outline'}
+                className="h-8"
+                onClick={() => setDays(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          <div className="ml-auto flex gap-1">
+            <Button size="sm" variant="outline" className="h-8" disabled={series.length === 0} onClick={handleExport}>
+              <Download className="h-3.5 w-3.5 mr-1" /> CSV
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-16"><Spinner /></div>
+        ) : !current ? (
+          <p className="py-16 text-center text-sm text-muted-foreground">Chưa có lịch sử giá / tồn kho trong khoảng này</p>
+        ) : (
+          <>
+            {data?.truncated && (
+              <p className="text-xs text-amber-600">Có quá nhiều thay đổi - chỉ hiển thị phần đầu của khoảng thời gian, hãy chọn khoảng ngắn hơn.</p>
+            )}
+            <ResponsiveContainer width="100%" height={300}>
+              <ComposedChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  scale="time"
+                  domain={[rangeStart, rangeEnd]}
+                  tickFormatter={(t: number) => new Date(t).toLocaleDateString('vi-VN', { day: '2-digit', month: '2-digit' })}
+                  className="text-xs"
+                />
+                <YAxis yAxisId="price" className="text-xs" tickFormatter={(v: number) => formatNumber(v)} width={80} />
+                <YAxis yAxisId="stock" orientation="right" className="text-xs" />
+                <Tooltip
+                  contentStyle={{ borderRadius: 8, fontSize: 12 }}
+                  labelFormatter={label => formatDateTime(Number(label))}
+                  formatter={value => formatNumber(Number(value))}
+                />
+                {windows.map(w => (
+                  <ReferenceArea
+                    key={w.flash_sale_id}
+                    yAxisId="price"
+                    x1={Math.max(w.start_time * 1000, rangeStart)}
+                    x2={Math.min(w.end_time * 1000, rangeEnd)}
+                    fill={w.includes_item ? '#f97316' : '#94a3b8'}
+                    fillOpacity={w.includes_item ? 0.2 : 0.1}
+                  />
+                ))}
+                <Line yAxisId="price" type="stepAfter" dataKey="price" stroke="hsl(var(--chart-1))" strokeWidth={2} dot={false} name="Giá bán" connectNulls />
+                <Line yAxisId="price" type="stepAfter" dataKey="promotion_price" stroke="hsl(var(--chart-5))" strokeWidth={1.5} strokeDasharray="4 2" dot={false} name="Giá KM" />
+                <Line yAxisId="stock" type="stepAfter" dataKey="stock" stroke="hsl(var(--chart-2))" strokeWidth={1.5} dot={false} name="Tồn kho" connectNulls />
+              </ComposedChart>
+            </ResponsiveContainer>
+            <p className="text-xs text-muted-foreground">
+              Vùng cam: khung Flash Sale có đăng ký sản phẩm · vùng xám: khung Flash Sale khác của shop
+            </p>
+
+            <div className="border rounded-md">
+              <div className="flex items-center justify-between px-3 py-2 border-b bg-muted/40">
+                <span className="text-sm font-medium flex items-center gap-1.5">
+                  <Zap className="h-4 w-4 text-orange-500" /> Giá trị lúc Flash Sale bắt đầu
+                </span>
+                <Button size="sm" variant="ghost" className="h-7" disabled={windows.length === 0} onClick={handleExportFlashSales}>
+                  <Download className="h-3.5 w-3.5 mr-1" /> CSV
+                </Button>
+              </div>
+              {startStates.length === 0 ? (
+                <p className="px-3 py-4 text-center text-xs text-muted-foreground">Không có khung Flash Sale trong khoảng này</p>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead className="text-muted-foreground">
+                    <tr className="border-b">
+                      <th className="px-3 py-1.5 text-left font-medium">Khung giờ</th>
+                      <th className="px-3 py-1.5 text-right font-medium">Giá bán</th>
+                      <th className="px-3 py-1.5 text-right font-medium">Giá KM</th>
+                      <th className="px-3 py-1.5 text-right font-medium">Tồn kho</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {startStates.map(({ window, state }) => (
+                      <tr key={window.flash_sale_id} className={cn('border-b last:border-0', window.includes_item && 'bg-orange-50')}>
+                        <td className="px-3 py-1.5">
+                          {formatDateTime(window.start_time * 1000)} - {new Date(window.end_time * 1000).toLocaleTimeString('vi-VN', { hour: '2-digit', minute: '2-digit' })}
+                          {window.includes_item && <span className="ml-1.5 text-orange-600">· có SP</span>}
+                        </td>
+                        <td className="px-3 py-1.5 text-right">{formatNumber(state?.price)}</td>
+                        <td className="px-3 py-1.5 text-right">{formatNumber(state?.promotion_price)}</td>
+                        <td className="px-3 py-1.5 text-right">{formatNumber(state?.stock)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,412 @@
+/**
+ * RecurringScheduleDialog - Lịch Flash Sale lặp lại của shop
+ * Rule = thứ trong tuần + giờ khung giờ + lead time + nguồn sản phẩm (template / FS gần nhất).
+ * Worker tự lên lịch khi Shopee công bố khung giờ mới; dialog preview các khung sắp được lên lịch.
+ */
+
+import { useState, useEffect } from 'react';
+import { CalendarClock, Eye, Pencil, Plus, Repeat, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Spinner } from '@/components/ui/spinner';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useFlashSaleTemplates } from '@/hooks/useFlashSaleTemplates';
+import {
+  previewRecurringRule,
+  useDeleteRecurringRule,
+  useFlashSaleRecurringRules,
+  useSaveRecurringRule,
+  useToggleRecurringRule,
+  type FlashSaleRecurringRule,
+} from '@/hooks/useFlashSaleRecurringRules';
+import {
+  DEFAULT_RECURRENCE_TIMEZONE,
+  WEEKDAY_LABELS,
+  describeRecurrenceRule,
+  type FlashSaleRecurrenceRule,
+  type RecurrenceExpansion,
+} from '@/lib/shopee/flash-sale';
+import { cn } from '@/lib/utils';
+
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+const LEAD_TIME_OPTIONS = [0, 5, 10, 15, 30, 60];
+const HORIZON_OPTIONS = [1, 2, 3, 7, 14];
+const NO_TEMPLATE = 'none';
+
+interface RuleDraft {
+  id?: string;
+  name: string;
+  days: Set<number>;
+  hours: Set<number>;
+  leadTimeMinutes: number;
+  horizonDays: number;
+  templateId: string;
+  isActive: boolean;
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: '',
+  days: new Set([0, 1, 2, 3, 4, 5, 6]),
+  hours: new Set(),
+  leadTimeMinutes: 10,
+  horizonDays: 3,
+  templateId: NO_TEMPLATE,
+  isActive: true,
+};
+
+function draftFromRule(rule: FlashSaleRecurringRule): RuleDraft {
+  return {
+    id: rule.id,
+    name: rule.name || '',
+    days: new Set(rule.days_of_week),
+    hours: new Set(rule.start_hours),
+    leadTimeMinutes: rule.lead_time_minutes,
+    horizonDays: rule.horizon_days,
+    templateId: rule.template_id || NO_TEMPLATE,
+    isActive: rule.is_active,
+  };
+}
+
+function draftToRule(draft: RuleDraft): FlashSaleRecurrenceRule {
+  return {
+    days_of_week: Array.from(draft.days),
+    start_hours: Array.from(draft.hours),
+    lead_time_minutes: draft.leadTimeMinutes,
+    timezone: DEFAULT_RECURRENCE_TIMEZONE,
+    horizon_days: draft.horizonDays,
+  };
+}
+
+function formatSlot(unixSec: number): string {
+  return new Date(unixSec * 1000).toLocaleString('vi-VN', {
+    weekday: 'short', hour: '2-digit', minute: '2-digit', day: '2-digit', month: '2-digit',
+  });
+}
+
+interface RecurringScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shopId: number;
+  /** Rule thay đổi / bị xóa (lịch sử có thể đổi) */
+  onChanged?: () => void;
+}
+
+export function RecurringScheduleDialog({ open, onOpenChange, shopId, onChanged }: RecurringScheduleDialogProps) {
+  const { toast } = useToast();
+  const { data: rules = [], isLoading } = useFlashSaleRecurringRules(open ? shopId : null);
+  const { data: templates = [] } = useFlashSaleTemplates(open ? shopId : null);
+  const saveRule = useSaveRecurringRule();
+  const toggleRule = useToggleRecurringRule();
+  const deleteRule = useDeleteRecurringRule();
+
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [preview, setPreview] = useState<RecurrenceExpansion | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(null);
+    setPreview(null);
+  }, [open, shopId]);
+
+  const updateDraft = (patch: Partial<RuleDraft>) => {
+    setDraft(prev => prev && { ...prev, ...patch });
+    setPreview(null);
+  };
+
+  const toggleIn = (set: Set<number>, value: number) => {
+    const next = new Set(set);
+    if (next.has(value)) next.delete(value); else next.add(value);
+    return next;
+  };
+
+  const templateName = (templateId: string | null) =>
+    templateId ? templates.find(t => t.id === templateId)?.name || 'Template' : 'Flash Sale gần nhất';
+
+  const handlePreview = async () => {
+    if (!draft) return;
+    setPreviewing(true);
+    try {
+      const excluded = rules.find(r => r.id === draft.id)?.excluded_timeslot_ids || [];
+      setPreview(await previewRecurringRule(shopId, draftToRule(draft), excluded));
+    } catch (err) {
+      toast({ title: 'Lỗi', description: (err as Error).message, variant: 'destructive' });
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (draft.days.size === 0 || draft.hours.size === 0) {
+      toast({ title: 'Chọn ít nhất một ngày và một khung giờ', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      await saveRule.mutateAsync({
+        ...draftToRule(draft),
+        id: draft.id,
+        shopId,
+        name: draft.name,
+        templateId: draft.templateId === NO_TEMPLATE ? null : draft.templateId,
+        isActive: draft.isActive,
+      });
+      toast({
+        title: draft.id ? 'Đã cập nhật lịch lặp lại' : 'Đã tạo lịch lặp lại',
+        description: 'Worker sẽ lên lịch các khung giờ phù hợp trong vòng 30 phút.',
+      });
+      setDraft(null);
+      setPreview(null);
+      onChanged?.();
+    } catch (err) {
+      toast({ title: 'Lỗi', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleToggle = async (rule: FlashSaleRecurringRule, isActive: boolean) => {
+    try {
+      await toggleRule.mutateAsync({ id: rule.id, isActive });
+    } catch (err) {
+      toast({ title: 'Lỗi', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async (rule: FlashSaleRecurringRule) => {
+    try {
+      const removed = await deleteRule.mutateAsync(rule.id);
+      toast({
+        title: 'Đã xóa lịch lặp lại',
+        description: removed > 0 ? `Đã hủy ${removed} khung giờ đã lên lịch` : undefined,
+      });
+      if (draft?.id === rule.id) setDraft(null);
+      onChanged?.();
+    } catch (err) {
+      toast({ title: 'Lỗi', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Repeat className="h-5 w-5" /> Lịch Flash Sale lặp lại
+          </DialogTitle>
+          <DialogDescription>
+            Tự động lên lịch khi Shopee mở khung giờ mới. Khung đã có lịch hoặc đã có Flash Sale sẽ được bỏ qua.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[65vh] overflow-y-auto pr-1">
+          {/* Rule list */}
+          {isLoading ? (
+            <div className="flex justify-center py-6"><Spinner className="h-5 w-5" /></div>
+          ) : rules.length === 0 && !draft ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Chưa có lịch lặp lại nào.</p>
+          ) : (
+            <div className="border rounded-lg divide-y">
+              {rules.map(rule => (
+                <div key={rule.id} className={cn('px-3 py-2 space-y-1', draft?.id === rule.id && 'bg-primary/5')}>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={rule.is_active}
+                      onCheckedChange={checked => handleToggle(rule, checked)}
+                      disabled={toggleRule.isPending}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium truncate">{rule.name || describeRecurrenceRule(rule)}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {rule.name && `${describeRecurrenceRule(rule)} · `}
+                        {rule.lead_time_minutes > 0 ? `cài trước ${rule.lead_time_minutes} phút` : 'cài ngay'}
+                        {' · '}{templateName(rule.template_id)}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost" size="icon" className="h-7 w-7 cursor-pointer"
+                      onClick={() => { setDraft(draftFromRule(rule)); setPreview(null); }}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-destructive cursor-pointer"
+                      onClick={() => handleDelete(rule)}
+                      disabled={deleteRule.isPending}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                  {rule.last_error ? (
+                    <p className="text-xs text-destructive ml-[52px] truncate">{rule.last_error}</p>
+                  ) : rule.last_expanded_at && (
+                    <p className="text-xs text-muted-foreground ml-[52px]">
+                      Lần chạy cuối {new Date(rule.last_expanded_at).toLocaleString('vi-VN')}
+                      {' · '}lên lịch {rule.last_expansion?.scheduled?.length || 0} khung
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!draft && (
+            <Button variant="outline" size="sm" onClick={() => setDraft({ ...EMPTY_DRAFT })} className="cursor-pointer">
+              <Plus className="h-4 w-4 mr-1" /> Thêm lịch lặp lại
+            </Button>
+          )}
+
+          {/* Rule editor */}
+          {draft && (
+            <div className="border rounded-lg p-3 space-y-3">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Tên (tùy chọn)</Label>
+                <Input
+                  value={draft.name} className="h-9" placeholder="VD: Flash Sale trưa & tối"
+                  onChange={e => updateDraft({ name: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Ngày trong tuần</Label>
+                <div className="flex flex-wrap gap-1.5">
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <button
+                      key={day}
+                      type="button"
+                      onClick={() => updateDraft({ days: toggleIn(draft.days, day) })}
+                      className={cn(
+                        'h-8 w-10 rounded-md border text-xs font-medium cursor-pointer',
+                        draft.days.has(day) ? 'bg-primary text-primary-foreground border-primary' : 'hover:bg-muted'
+                      )}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Giờ bắt đầu khung giờ</Label>
+                <div className="grid grid-cols-8 gap-1.5">
+                  {HOURS.map(hour => (
+                    <button
+                      key={hour}
+                      type="button"
+                      onClick={() => updateDraft({ hours: toggleIn(draft.hours, hour) })}
+                      className={cn(
+                        'h-8 rounded-md border text-xs font-medium cursor-pointer',
+                        draft.hours.has(hour) ? 'bg-primary text-primary-foreground border-primary' : 'hover:bg-muted'
+                      )}
+                    >
+                      {String(hour).padStart(2, '0')}:00
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">Chỉ khớp khung giờ Shopee bắt đầu đúng giờ đã chọn (giờ Việt Nam).</p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Cài trước</Label>
+                  <Select value={String(draft.leadTimeMinutes)} onValueChange={v => updateDraft({ leadTimeMinutes: Number(v) })}>
+                    <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {LEAD_TIME_OPTIONS.map(m => (
+                        <SelectItem key={m} value={String(m)}>{m === 0 ? 'Ngay khi lên lịch' : `${m} phút trước`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Lên lịch trước</Label>
+                  <Select value={String(draft.horizonDays)} onValueChange={v => updateDraft({ horizonDays: Number(v) })}>
+                    <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {HORIZON_OPTIONS.map(d => (
+                        <SelectItem key={d} value={String(d)}>{d} ngày</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Sản phẩm</Label>
+                  <Select value={draft.templateId} onValueChange={v => updateDraft({ templateId: v })}>
+                    <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_TEMPLATE}>Flash Sale gần nhất</SelectItem>
+                      {templates.map(t => (
+                        <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={draft.isActive} onCheckedChange={checked => updateDraft({ isActive: checked })} />
+                Đang bật
+              </label>
+
+              <div className="space-y-2">
+                <Button
+                  variant="outline" size="sm" onClick={handlePreview}
+                  disabled={previewing || draft.days.size === 0 || draft.hours.size === 0}
+                  className="cursor-pointer"
+                >
+                  {previewing ? <Spinner className="h-4 w-4 mr-1" /> : <Eye className="h-4 w-4 mr-1" />}
+                  Xem khung giờ sắp lên lịch
+                </Button>
+                {preview && (
+                  <div className="border rounded-lg divide-y text-sm">
+                    {preview.toSchedule.length === 0 && preview.skipped.length === 0 && (
+                      <p className="px-3 py-2 text-xs text-muted-foreground">
+                        Shopee chưa mở khung giờ nào khớp trong {draft.horizonDays} ngày tới.
+                      </p>
+                    )}
+                    {preview.toSchedule.map(slot => (
+                      <div key={slot.timeslot_id} className="px-3 py-1.5 flex items-center gap-2">
+                        <CalendarClock className="h-4 w-4 text-info flex-shrink-0" />
+                        <span>{formatSlot(slot.start_time)}</span>
+                        <span className="text-xs text-muted-foreground ml-auto">chạy lúc {formatSlot(slot.scheduled_at)}</span>
+                      </div>
+                    ))}
+                    {preview.skipped.map(slot => (
+                      <div key={slot.timeslot_id} className="px-3 py-1.5 flex items-center gap-2 text-muted-foreground">
+                        <CalendarClock className="h-4 w-4 flex-shrink-0" />
+                        <span>{formatSlot(slot.start_time)}</span>
+                        <Badge variant="outline" className="ml-auto text-[10px]">
+                          {slot.reason === 'already_booked' ? 'Đã có lịch / Flash Sale' : 'Quá gần giờ bắt đầu'}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => { setDraft(null); setPreview(null); }} className="cursor-pointer">
+                  Hủy
+                </Button>
+                <Button size="sm" onClick={handleSave} disabled={saveRule.isPending} className="cursor-pointer">
+                  {saveRule.isPending && <Spinner className="h-4 w-4 mr-1" />}
+                  {draft.id ? 'Cập nhật' : 'Tạo lịch'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="cursor-pointer">
+            Đóng
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
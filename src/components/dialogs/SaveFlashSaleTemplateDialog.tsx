@@ -0,0 +1,282 @@
+/**
+ * SaveFlashSaleTemplateDialog - Lưu danh sách sản phẩm Flash Sale thành template
+ * Tạo template mới hoặc version mới, gắn vào nhiều shop.
+ * Kiểm tra với get-criteria của từng shop trước khi lưu.
+ */
+
+import { useState, useEffect } from 'react';
+import { AlertCircle, CheckCircle2, Save, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Spinner } from '@/components/ui/spinner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchTemplateCatalog,
+  useSaveFlashSaleTemplate,
+  validateTemplateForShops,
+  type TemplateShopValidation,
+} from '@/hooks/useFlashSaleTemplates';
+import { buildTemplateItems, type FlashSaleItem, type FlashSaleTemplate, type TemplatePricing } from '@/lib/shopee/flash-sale';
+import { cn } from '@/lib/utils';
+
+const NEW_TEMPLATE = 'new';
+
+interface SaveFlashSaleTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sourceShopId: number;
+  shops: { shop_id: number; shop_name: string | null }[];
+  /** Payload add-items đang chọn trên trang */
+  items: FlashSaleItem[];
+  templates: FlashSaleTemplate[];
+  onSaved?: (templateId: string, version: number) => void;
+}
+
+export function SaveFlashSaleTemplateDialog({
+  open,
+  onOpenChange,
+  sourceShopId,
+  shops,
+  items,
+  templates,
+  onSaved,
+}: SaveFlashSaleTemplateDialogProps) {
+  const { toast } = useToast();
+  const saveTemplate = useSaveFlashSaleTemplate();
+
+  const [target, setTarget] = useState<string>(NEW_TEMPLATE);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [pricingMode, setPricingMode] = useState<TemplatePricing['mode']>('keep_price');
+  const [percent, setPercent] = useState(20);
+  const [floorPrice, setFloorPrice] = useState(0);
+  const [shopIds, setShopIds] = useState<Set<number>>(new Set([sourceShopId]));
+  const [validating, setValidating] = useState(false);
+  const [validations, setValidations] = useState<TemplateShopValidation[] | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setTarget(NEW_TEMPLATE);
+    setName('');
+    setDescription('');
+    setShopIds(new Set([sourceShopId]));
+    setValidations(null);
+  }, [open, sourceShopId]);
+
+  // Chọn template có sẵn → lưu version mới, giữ tên / mô tả
+  useEffect(() => {
+    const existing = templates.find(t => t.id === target);
+    if (existing) {
+      setName(existing.name);
+      setDescription(existing.description || '');
+    }
+  }, [target, templates]);
+
+  const shopName = (shopId: number) => shops.find(s => s.shop_id === shopId)?.shop_name || `Shop #${shopId}`;
+
+  const toggleShop = (shopId: number) => {
+    if (shopId === sourceShopId) return;
+    setValidations(null);
+    setShopIds(prev => {
+      const next = new Set(prev);
+      if (next.has(shopId)) next.delete(shopId); else next.add(shopId);
+      return next;
+    });
+  };
+
+  const pricing: TemplatePricing = pricingMode === 'percent_off'
+    ? { mode: 'percent_off', percent, floor_price: floorPrice > 0 ? floorPrice : undefined }
+    : { mode: 'keep_price' };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({ title: 'Thiếu tên template', variant: 'destructive' });
+      return;
+    }
+
+    setValidating(true);
+    setValidations(null);
+    try {
+      const catalog = await fetchTemplateCatalog(sourceShopId);
+      const templateItems = buildTemplateItems(items, pricing, catalog);
+      const results = await validateTemplateForShops(templateItems, Array.from(shopIds));
+      setValidations(results);
+
+      if (results.some(r => r.error || r.issues.length > 0)) {
+        toast({
+          title: 'Template chưa đạt tiêu chí',
+          description: 'Điều chỉnh giá / tồn kho hoặc bỏ shop lỗi rồi thử lại.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      const saved = await saveTemplate.mutateAsync({
+        templateId: target === NEW_TEMPLATE ? undefined : target,
+        name: name.trim(),
+        description: description.trim() || undefined,
+        sourceShopId,
+        items: templateItems,
+        shopIds: Array.from(shopIds),
+        criteriaSnapshot: results.find(r => r.shopId === sourceShopId)?.criteria ?? null,
+      });
+
+      toast({ title: 'Đã lưu template', description: `${name.trim()} - version ${saved.version}` });
+      onSaved?.(saved.templateId, saved.version);
+      onOpenChange(false);
+    } catch (err) {
+      toast({ title: 'Lỗi', description: (err as Error).message, variant: 'destructive' });
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Lưu thành template</DialogTitle>
+          <DialogDescription>
+            {items.length} sản phẩm · dùng lại cho nhiều shop và khung giờ
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[65vh] overflow-y-auto pr-1">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Lưu vào</Label>
+            <Select value={target} onValueChange={v => { setTarget(v); setValidations(null); }}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEW_TEMPLATE}>Template mới</SelectItem>
+                {templates.map(t => (
+                  <SelectItem key={t.id} value={t.id}>{t.name} (version {t.current_version + 1})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Tên template <span className="text-destructive">*</span></Label>
+            <Input value={name} onChange={e => setName(e.target.value)} placeholder="VD: Flash Sale cuối tuần" className="h-9" />
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Mô tả</Label>
+            <Textarea value={description} onChange={e => setDescription(e.target.value)} className="min-h-[60px]" />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Giá khuyến mãi</Label>
+            <Select value={pricingMode} onValueChange={v => { setPricingMode(v as TemplatePricing['mode']); setValidations(null); }}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="keep_price">Giữ giá KM hiện tại (giá cố định)</SelectItem>
+                <SelectItem value="percent_off">Giảm % theo giá gốc lúc chạy</SelectItem>
+              </SelectContent>
+            </Select>
+            {pricingMode === 'percent_off' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Giảm (%)</Label>
+                  <Input
+                    type="number" min={1} max={99} value={percent} className="h-9"
+                    onChange={e => { setPercent(Number(e.target.value)); setValidations(null); }}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Giá sàn (₫, 0 = không)</Label>
+                  <Input
+                    type="number" min={0} value={floorPrice} className="h-9"
+                    onChange={e => { setFloorPrice(Number(e.target.value)); setValidations(null); }}
+                  />
+                </div>
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Tồn kho CT và giới hạn mua lấy theo danh sách hiện tại; tồn kho bị cắt theo tồn kho thực tế khi chạy.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Gắn vào shop</Label>
+            <div className="border rounded-lg divide-y max-h-[180px] overflow-y-auto">
+              {shops.map(shop => (
+                <label
+                  key={shop.shop_id}
+                  className={cn(
+                    'flex items-center gap-2 px-3 py-2 text-sm',
+                    shop.shop_id === sourceShopId ? 'opacity-70' : 'cursor-pointer hover:bg-muted'
+                  )}
+                >
+                  <Checkbox
+                    checked={shopIds.has(shop.shop_id)}
+                    disabled={shop.shop_id === sourceShopId}
+                    onCheckedChange={() => toggleShop(shop.shop_id)}
+                  />
+                  <span className="truncate">{shop.shop_name || `Shop #${shop.shop_id}`}</span>
+                  {shop.shop_id === sourceShopId && <span className="text-xs text-muted-foreground ml-auto">Shop nguồn</span>}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">Shop khác khớp sản phẩm theo SKU.</p>
+          </div>
+
+          {validations && (
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground flex items-center gap-1">
+                <ShieldCheck className="h-3.5 w-3.5" /> Kiểm tra tiêu chí
+              </Label>
+              <div className="border rounded-lg divide-y text-sm">
+                {validations.map(v => {
+                  const ok = !v.error && v.issues.length === 0;
+                  return (
+                    <div key={v.shopId} className="px-3 py-2 space-y-1">
+                      <div className="flex items-center gap-2">
+                        {ok
+                          ? <CheckCircle2 className="h-4 w-4 text-success flex-shrink-0" />
+                          : <AlertCircle className="h-4 w-4 text-destructive flex-shrink-0" />}
+                        <span className="font-medium truncate">{shopName(v.shopId)}</span>
+                        <span className="text-xs text-muted-foreground ml-auto">
+                          {v.resolution.items.length} SP khớp
+                          {v.resolution.skipped.length > 0 && ` · ${v.resolution.skipped.length} bỏ qua`}
+                        </span>
+                      </div>
+                      {v.error && <p className="text-xs text-destructive">{v.error}</p>}
+                      {v.issues.slice(0, 5).map((issue, idx) => (
+                        <p key={idx} className="text-xs text-destructive">
+                          SP {issue.item_id}{issue.model_id ? ` / ${issue.model_id}` : ''}: {issue.message}
+                        </p>
+                      ))}
+                      {v.issues.length > 5 && (
+                        <p className="text-xs text-muted-foreground">+{v.issues.length - 5} lỗi khác</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={validating} className="cursor-pointer">
+            Hủy
+          </Button>
+          <Button onClick={handleSave} disabled={validating || items.length === 0} className="cursor-pointer">
+            {validating ? <Spinner className="h-4 w-4 mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+            Kiểm tra & lưu
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
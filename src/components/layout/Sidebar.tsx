@@ -22,7 +22,7 @@ export default function Sidebar({ collapsed, onToggle: _onToggle, mobileOpen = f
   const location = useLocation();
   const navigate = useNavigate();
   const { user, profile, signOut } = useAuth();
-  const { hasFeature } = usePermissionsContext();
+  const { hasFeature, isAdmin, isLeader } = usePermissionsContext();
   const [expandedMenu, setExpandedMenu] = useState<string | null>(null);
 
   const handleLeafClick = () => {
@@ -47,6 +47,7 @@ export default function Sidebar({ collapsed, onToggle: _onToggle, mobileOpen = f
   const filteredMenuItems = menuItems
     .filter(item => {
       if (item.permissionKey && !hasFeature(item.permissionKey)) return false;
+      if (item.teamOnly && !isAdmin && !isLeader) return false;
       return true;
     })
     .map(item => {
@@ -0,0 +1,274 @@
+/**
+ * AdminAuditLogPanel - Nhật ký thay đổi quản trị: ai đổi gì (trước / sau), lý do,
+ * lọc theo loại, người thực hiện, người dùng, shop, thời gian và xuất CSV (admin only)
+ */
+
+import { Fragment, useMemo, useState } from 'react';
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp, Download, History, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Spinner } from '@/components/ui/spinner';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AUDIT_EXPORT_LIMIT,
+  fetchAdminAuditForExport,
+  useAdminAuditLog,
+  useAuditNameLookup,
+  type AdminAuditFilters,
+} from '@/hooks/useAdminAuditLog';
+import {
+  AUDIT_ENTITY_LABELS,
+  AUDIT_OPERATION_LABELS,
+  AUDIT_SOURCE_LABELS,
+  auditChanges,
+  auditEntriesToRows,
+  formatAuditChange,
+  type AdminAuditEntry,
+  type AuditEntityType,
+} from '@/lib/admin-audit';
+import { CSV_MIME, downloadFile, toCsv } from '@/lib/spreadsheet';
+import { cn } from '@/lib/utils';
+
+const PAGE_SIZE = 50;
+
+const DAY_OPTIONS = [
+  { value: '1', label: '24 giờ' },
+  { value: '7', label: '7 ngày' },
+  { value: '30', label: '30 ngày' },
+  { value: '90', label: '90 ngày' },
+  { value: 'all', label: 'Tất cả' },
+];
+
+const OPERATION_COLORS: Record<AdminAuditEntry['operation'], string> = {
+  insert: 'bg-success/10 text-success',
+  update: 'bg-info/10 text-info',
+  delete: 'bg-destructive/10 text-destructive',
+};
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('vi-VN', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+export function AdminAuditLogPanel() {
+  const [entityType, setEntityType] = useState<AuditEntityType | 'all'>('all');
+  const [actorId, setActorId] = useState('all');
+  const [targetProfileId, setTargetProfileId] = useState('all');
+  const [shopIdInput, setShopIdInput] = useState('');
+  const [days, setDays] = useState('30');
+  const [page, setPage] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const filters: AdminAuditFilters = {
+    entityType,
+    actorId,
+    targetProfileId,
+    shopId: Number(shopIdInput) || undefined,
+    days: days === 'all' ? null : Number(days),
+    page,
+    pageSize: PAGE_SIZE,
+  };
+
+  const { data, isLoading, isFetching, refetch } = useAdminAuditLog(filters);
+  const { data: names } = useAuditNameLookup();
+  const entries = data?.entries ?? [];
+  const totalPages = Math.max(1, Math.ceil((data?.totalCount ?? 0) / PAGE_SIZE));
+
+  const profileOptions = useMemo(
+    () => [...(names?.profiles ?? new Map<string, string>()).entries()].sort((a, b) => a[1].localeCompare(b[1], 'vi')),
+    [names]
+  );
+
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const profileName = (id: string | null) => (id ? names?.profiles.get(id) ?? id.slice(0, 8) : '—');
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const { page: _page, pageSize: _pageSize, ...exportFilters } = filters;
+      const all = await fetchAdminAuditForExport(exportFilters);
+      const rows = auditEntriesToRows(all, names ?? { profiles: new Map(), shops: new Map() });
+      downloadFile(toCsv(rows), `audit-log-${new Date().toISOString().slice(0, 10)}.csv`, CSV_MIME);
+      if (all.length >= AUDIT_EXPORT_LIMIT) {
+        toast.warning(`Chỉ xuất ${AUDIT_EXPORT_LIMIT} dòng mới nhất - thu hẹp bộ lọc để xuất đủ`);
+      }
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      toast.error('Không thể xuất nhật ký');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border bg-card">
+      <div className="flex flex-wrap items-center gap-2 px-3 md:px-4 py-3 border-b">
+        <Select value={entityType} onValueChange={updateFilter(v => setEntityType(v as AuditEntityType | 'all'))}>
+          <SelectTrigger className="h-8 w-40 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all" className="text-xs">Tất cả đối tượng</SelectItem>
+            {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value} className="text-xs">{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={actorId} onValueChange={updateFilter(setActorId)}>
+          <SelectTrigger className="h-8 w-44 text-xs"><SelectValue placeholder="Người thực hiện" /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all" className="text-xs">Mọi người thực hiện</SelectItem>
+            {profileOptions.map(([id, name]) => (
+              <SelectItem key={id} value={id} className="text-xs">{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={targetProfileId} onValueChange={updateFilter(setTargetProfileId)}>
+          <SelectTrigger className="h-8 w-44 text-xs"><SelectValue placeholder="Người dùng" /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all" className="text-xs">Mọi người dùng</SelectItem>
+            {profileOptions.map(([id, name]) => (
+              <SelectItem key={id} value={id} className="text-xs">{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={shopIdInput}
+          onChange={e => updateFilter(setShopIdInput)(e.target.value.replace(/\D/g, ''))}
+          placeholder="Shop ID"
+          className="h-8 w-32 text-xs"
+        />
+        <Select value={days} onValueChange={updateFilter(setDays)}>
+          <SelectTrigger className="h-8 w-28 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {DAY_OPTIONS.map(o => (
+              <SelectItem key={o.value} value={o.value} className="text-xs">{o.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-2 ml-auto">
+          <Button variant="outline" size="sm" className="h-8 cursor-pointer" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={cn('h-3.5 w-3.5', isFetching && 'animate-spin')} />
+          </Button>
+          <Button variant="outline" size="sm" className="h-8 cursor-pointer" onClick={handleExport} disabled={exporting || entries.length === 0}>
+            <Download className="h-3.5 w-3.5 mr-1" />
+            {exporting ? 'Đang xuất...' : 'Xuất CSV'}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Spinner className="h-8 w-8" />
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-sm text-muted-foreground">
+          <History className="h-10 w-10 mb-3 text-muted-foreground/50" />
+          Không có thay đổi nào theo bộ lọc
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8" />
+              <TableHead>Thời gian</TableHead>
+              <TableHead>Người thực hiện</TableHead>
+              <TableHead>Thao tác</TableHead>
+              <TableHead>Người dùng / Shop</TableHead>
+              <TableHead>Thay đổi</TableHead>
+              <TableHead>Lý do</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map(entry => {
+              const changes = auditChanges(entry);
+              const expanded = expandedId === entry.id;
+              return (
+                <Fragment key={entry.id}>
+                  <TableRow className="cursor-pointer" onClick={() => setExpandedId(expanded ? null : entry.id)}>
+                    <TableCell className="text-muted-foreground">
+                      {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                    </TableCell>
+                    <TableCell className="text-xs whitespace-nowrap">{formatDateTime(entry.created_at)}</TableCell>
+                    <TableCell className="text-sm">
+                      <div>{entry.actor_email ?? (entry.actor_id ? profileName(entry.actor_id) : AUDIT_SOURCE_LABELS.service)}</div>
+                      <div className="text-xs text-muted-foreground">{AUDIT_SOURCE_LABELS[entry.source]}</div>
+                    </TableCell>
+                    <TableCell>
+                      <span className={cn('px-2 py-0.5 rounded text-xs font-medium', OPERATION_COLORS[entry.operation])}>
+                        {AUDIT_OPERATION_LABELS[entry.operation]}
+                      </span>
+                      <div className="text-xs text-muted-foreground mt-1">{AUDIT_ENTITY_LABELS[entry.entity_type]}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {entry.target_profile_id && <div>{profileName(entry.target_profile_id)}</div>}
+                      {entry.shop_id && (
+                        <div className="text-xs text-muted-foreground">{names?.shops.get(entry.shop_id) ?? `Shop ${entry.shop_id}`}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs max-w-80">
+                      <div className="line-clamp-2">
+                        {changes.map(change => formatAuditChange(change, entry.operation)).join('; ') || '—'}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm max-w-56">
+                      <div className="line-clamp-2">{entry.reason || <span className="text-muted-foreground">—</span>}</div>
+                    </TableCell>
+                  </TableRow>
+                  {expanded && (
+                    <TableRow className="bg-muted/30 hover:bg-muted/30">
+                      <TableCell />
+                      <TableCell colSpan={6}>
+                        <div className="grid grid-cols-[minmax(8rem,auto)_1fr_1fr] gap-x-4 gap-y-1 text-xs py-1">
+                          <div className="font-medium text-muted-foreground">Cột</div>
+                          <div className="font-medium text-muted-foreground">Trước</div>
+                          <div className="font-medium text-muted-foreground">Sau</div>
+                          {changes.map(change => (
+                            <Fragment key={change.field}>
+                              <div className="font-mono">{change.field}</div>
+                              <div className="font-mono break-all text-destructive/80">
+                                {change.redacted ? '(ẩn)' : JSON.stringify(change.before)}
+                              </div>
+                              <div className="font-mono break-all text-success">
+                                {change.redacted ? '(ẩn)' : JSON.stringify(change.after)}
+                              </div>
+                            </Fragment>
+                          ))}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="flex items-center justify-between px-4 py-2 border-t text-sm text-muted-foreground">
+        <span>{(data?.totalCount ?? 0).toLocaleString('vi-VN')} thay đổi</span>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" className="h-7 cursor-pointer" disabled={page === 0} onClick={() => setPage(p => p - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span>{page + 1} / {totalPages}</span>
+          <Button variant="outline" size="sm" className="h-7 cursor-pointer" disabled={page + 1 >= totalPages} onClick={() => setPage(p => p + 1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
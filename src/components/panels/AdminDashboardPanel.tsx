@@ -31,7 +31,7 @@ import { supabase } from "@/lib/supabase";
 // ==================== HELPERS ====================
 
 const PUSH_TYPE_LABELS: Record<number, string> = {
-  1: "Auth", 2: "Deauth", 5: "Updates", 12: "Token Expiry", 28: "Penalty",
+  1: "Auth", 2: "Deauth", 5: "Updates", 12: "Token Expiry", 16: "Violation", 22: "Price", 28: "Penalty",
 };
 
 function formatTime(dateStr: string): string {
@@ -1,10 +1,11 @@
 /**
- * AllShopsFlashSalePanel - Tổng quan Flash Sale tất cả shop (admin only, read-only)
+ * AllShopsFlashSalePanel - Tổng quan Flash Sale tất cả shop (admin only)
+ * Lên lịch hàng loạt nhiều shop qua BulkFlashSaleWizardDialog
  */
 
 import { useState, useMemo, useCallback } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { RefreshCw, Eye, Clock, Calendar as CalendarIcon, ChevronDown, Store } from "lucide-react";
+import { RefreshCw, Eye, Clock, Calendar as CalendarIcon, ChevronDown, Store, Layers, ListChecks } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import {
@@ -55,6 +56,8 @@ import {
   deduplicateByTimeslot,
 } from "@/lib/shopee/flash-sale/utils";
 import { FlashSaleDetailPanel } from "./FlashSaleDetailPanel";
+import { BulkFlashSaleWizardDialog } from "@/components/dialogs/BulkFlashSaleWizardDialog";
+import { FlashSaleBatchProgressDialog } from "@/components/dialogs/FlashSaleBatchProgressDialog";
 import { cn } from "@/lib/utils";
 
 interface AllShopsFlashSalePanelProps {
@@ -161,6 +164,8 @@ export function AllShopsFlashSalePanel({ userId }: AllShopsFlashSalePanelProps)
   const [shopFilter, setShopFilter] = useState<string>("all");
   const [dateFilter, setDateFilter] = useState<Date | undefined>(undefined);
   const [detailFlashSale, setDetailFlashSale] = useState<FlashSale | null>(null);
+  const [showBulkWizard, setShowBulkWizard] = useState(false);
+  const [showBatches, setShowBatches] = useState(false);
 
   // Pagination
   const [desktopPage, setDesktopPage] = useState(1);
@@ -428,6 +433,26 @@ export function AllShopsFlashSalePanel({ userId }: AllShopsFlashSalePanelProps)
               </SelectContent>
             </Select>
 
+            {/* Bulk schedule */}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowBulkWizard(true)}
+              className="bg-brand/10 border-brand/20 hover:bg-brand/20 text-brand"
+            >
+              <Layers className="h-4 w-4 mr-2" />
+              Lên lịch hàng loạt
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowBatches(true)}
+              title="Tiến độ batch"
+            >
+              <ListChecks className="h-4 w-4 mr-2" />
+              Batch
+            </Button>
+
             {/* Refresh */}
             <Button
               variant="outline"
@@ -862,6 +887,21 @@ export function AllShopsFlashSalePanel({ userId }: AllShopsFlashSalePanelProps)
           )}
         </DialogContent>
       </Dialog>
+
+      <BulkFlashSaleWizardDialog
+        open={showBulkWizard}
+        onOpenChange={setShowBulkWizard}
+        shops={shops}
+        onCreated={() => {
+          setShowBatches(true);
+          setActiveTab("scheduled");
+        }}
+      />
+      <FlashSaleBatchProgressDialog
+        open={showBatches}
+        onOpenChange={setShowBatches}
+        shopNameMap={shopNameMap}
+      />
     </Card>
   );
 }
@@ -0,0 +1,326 @@
+/**
+ * CustomRolesPanel - Ma trận vai trò tùy chỉnh × quyền (trang / thao tác), tạo / sửa / xóa vai trò (admin only)
+ */
+
+import { Fragment, useMemo, useState } from 'react';
+import { Pencil, Plus, Save, ShieldCheck, Trash2, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Spinner } from '@/components/ui/spinner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useCustomRoles, useDeleteCustomRole, useSaveCustomRole, type CustomRole } from '@/hooks/useCustomRoles';
+import { getPermissionMatrixGroups } from '@/lib/app-permissions';
+import { cn } from '@/lib/utils';
+
+const MATRIX_GROUPS = getPermissionMatrixGroups();
+const MATRIX_KEYS = new Set(MATRIX_GROUPS.flatMap(g => g.rows.map(r => r.key)));
+
+interface RoleForm {
+  id: string | null;
+  name: string;
+  description: string;
+  copyFrom: string;
+}
+
+function samePermissions(a: string[], b: string[]): boolean {
+  return a.length === b.length && [...a].sort().join('|') === [...b].sort().join('|');
+}
+
+export function CustomRolesPanel() {
+  const { data: roles = [], isLoading } = useCustomRoles();
+  const saveRole = useSaveCustomRole();
+  const deleteRole = useDeleteCustomRole();
+
+  // Quyền đang sửa theo vai trò (chưa lưu)
+  const [drafts, setDrafts] = useState<Record<string, string[]>>({});
+  const [reason, setReason] = useState('');
+  const [savingMatrix, setSavingMatrix] = useState(false);
+  const [form, setForm] = useState<RoleForm | null>(null);
+  const [deleting, setDeleting] = useState<CustomRole | null>(null);
+
+  const permissionsOf = (role: CustomRole) => drafts[role.id] ?? role.permissions;
+
+  const dirtyRoles = useMemo(
+    () => roles.filter(role => drafts[role.id] && !samePermissions(drafts[role.id], role.permissions)),
+    [roles, drafts]
+  );
+
+  const togglePermission = (role: CustomRole, key: string) => {
+    const current = permissionsOf(role);
+    setDrafts(prev => ({
+      ...prev,
+      [role.id]: current.includes(key) ? current.filter(k => k !== key) : [...current, key],
+    }));
+  };
+
+  const handleSaveMatrix = async () => {
+    setSavingMatrix(true);
+    try {
+      for (const role of dirtyRoles) {
+        await saveRole.mutateAsync({
+          id: role.id,
+          name: role.name,
+          description: role.description,
+          permissions: drafts[role.id],
+          reason: reason.trim() || null,
+        });
+      }
+      setDrafts({});
+      setReason('');
+      toast.success(`Đã cập nhật quyền ${dirtyRoles.length} vai trò`);
+    } catch (error) {
+      console.error('Error saving role permissions:', error);
+      toast.error((error as Error).message || 'Không thể lưu quyền');
+    } finally {
+      setSavingMatrix(false);
+    }
+  };
+
+  const handleSaveForm = async () => {
+    if (!form) return;
+    const existing = roles.find(r => r.id === form.id);
+    const source = roles.find(r => r.id === form.copyFrom);
+    try {
+      await saveRole.mutateAsync({
+        id: form.id,
+        name: form.name,
+        description: form.description.trim() || null,
+        permissions: existing ? permissionsOf(existing) : source?.permissions ?? [],
+        reason: reason.trim() || null,
+      });
+      if (existing) {
+        setDrafts(prev => {
+          const { [existing.id]: _saved, ...rest } = prev;
+          return rest;
+        });
+      }
+      toast.success(existing ? 'Đã cập nhật vai trò' : 'Đã tạo vai trò');
+      setForm(null);
+    } catch (error) {
+      console.error('Error saving role:', error);
+      toast.error((error as Error).message || 'Không thể lưu vai trò');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteRole.mutateAsync({ id: deleting.id, reason: reason.trim() || null });
+      toast.success(`Đã xóa vai trò ${deleting.name}`);
+    } catch (error) {
+      console.error('Error deleting role:', error);
+      toast.error('Không thể xóa vai trò');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Spinner className="h-8 w-8" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border bg-card">
+      <div className="flex flex-wrap items-center gap-2 px-3 md:px-4 py-3 border-b">
+        <Button size="sm" className="h-8 cursor-pointer" onClick={() => setForm({ id: null, name: '', description: '', copyFrom: 'none' })}>
+          <Plus className="h-3.5 w-3.5 mr-1" />
+          Thêm vai trò
+        </Button>
+        <div className="flex items-center gap-2 ml-auto">
+          <Input
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            placeholder="Lý do thay đổi (ghi vào nhật ký)"
+            className="h-8 w-64 text-xs"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 cursor-pointer"
+            disabled={dirtyRoles.length === 0 || savingMatrix}
+            onClick={() => setDrafts({})}
+          >
+            <Undo2 className="h-3.5 w-3.5 mr-1" />
+            Hủy
+          </Button>
+          <Button size="sm" className="h-8 cursor-pointer" disabled={dirtyRoles.length === 0 || savingMatrix} onClick={handleSaveMatrix}>
+            <Save className="h-3.5 w-3.5 mr-1" />
+            {savingMatrix ? 'Đang lưu...' : `Lưu thay đổi${dirtyRoles.length ? ` (${dirtyRoles.length})` : ''}`}
+          </Button>
+        </div>
+      </div>
+
+      {roles.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-sm text-muted-foreground">
+          <ShieldCheck className="h-10 w-10 mb-3 text-muted-foreground/50" />
+          Chưa có vai trò tùy chỉnh - người dùng đang dùng quyền mặc định theo chức vụ
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-56">Quyền</TableHead>
+              {roles.map(role => (
+                <TableHead key={role.id} className="text-center min-w-32 align-top py-2">
+                  <div className="font-medium text-foreground">{role.name}</div>
+                  <div className="text-xs font-normal text-muted-foreground">{role.member_count} người dùng</div>
+                  <div className="flex justify-center gap-1 mt-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 cursor-pointer"
+                      title="Sửa tên / mô tả"
+                      onClick={() => setForm({ id: role.id, name: role.name, description: role.description ?? '', copyFrom: 'none' })}
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 cursor-pointer hover:text-destructive"
+                      title="Xóa vai trò"
+                      onClick={() => setDeleting(role)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {MATRIX_GROUPS.map(group => (
+              <Fragment key={group.label}>
+                <TableRow className="bg-muted/40 hover:bg-muted/40">
+                  <TableCell colSpan={roles.length + 1} className="text-xs font-semibold uppercase text-muted-foreground py-1.5">
+                    {group.label}
+                  </TableCell>
+                </TableRow>
+                {group.rows.map(row => (
+                  <TableRow key={row.key}>
+                    <TableCell>
+                      <div className="text-sm">{row.label}</div>
+                      <div className="text-xs text-muted-foreground font-mono">{row.key}</div>
+                    </TableCell>
+                    {roles.map(role => {
+                      const checked = permissionsOf(role).includes(row.key);
+                      const changed = drafts[role.id] && checked !== role.permissions.includes(row.key);
+                      return (
+                        <TableCell key={role.id} className={cn('text-center', changed && 'bg-warning/10')}>
+                          <Checkbox
+                            checked={checked}
+                            onCheckedChange={() => togglePermission(role, row.key)}
+                            className="w-4 h-4"
+                          />
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </Fragment>
+            ))}
+            {roles.some(role => role.permissions.some(k => !MATRIX_KEYS.has(k))) && (
+              <TableRow>
+                <TableCell className="text-xs text-muted-foreground">Quyền khác (không có trong danh mục)</TableCell>
+                {roles.map(role => (
+                  <TableCell key={role.id} className="text-center text-xs font-mono text-muted-foreground">
+                    {role.permissions.filter(k => !MATRIX_KEYS.has(k)).join(', ') || '—'}
+                  </TableCell>
+                ))}
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={!!form} onOpenChange={open => !open && setForm(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? 'Sửa vai trò' : 'Thêm vai trò'}</DialogTitle>
+            <DialogDescription>
+              Người dùng được gán vai trò chỉ có các quyền của vai trò (cộng quyền riêng của từng người)
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="role-name">Tên vai trò</Label>
+                <Input id="role-name" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="VD: Nhân viên Flash Sale" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="role-description">Mô tả</Label>
+                <Textarea id="role-description" value={form.description} onChange={e => setForm({ ...form, description: e.target.value })} rows={2} />
+              </div>
+              {!form.id && roles.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Sao chép quyền từ</Label>
+                  <Select value={form.copyFrom} onValueChange={copyFrom => setForm({ ...form, copyFrom })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Không (vai trò trống)</SelectItem>
+                      {roles.map(role => (
+                        <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Hủy</Button>
+            <Button onClick={handleSaveForm} disabled={!form?.name.trim() || saveRole.isPending}>
+              {saveRole.isPending ? 'Đang lưu...' : 'Lưu'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={open => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Xóa vai trò {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.member_count
+                ? `${deleting.member_count} người dùng của vai trò này sẽ quay về quyền mặc định theo chức vụ.`
+                : 'Vai trò chưa được gán cho ai.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Hủy</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Xóa
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * FlashSaleLeaderboardPanel - Xếp hạng các khung Flash Sale của mọi shop theo doanh thu
+ * giá Flash Sale, kèm số lượng bán, sell-through và chuyển đổi (admin only)
+ */
+
+import { useMemo, useState } from 'react';
+import { Trophy } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Spinner } from '@/components/ui/spinner';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useShopeeAuth } from '@/hooks/useShopeeAuth';
+import { useFlashSaleLeaderboard } from '@/hooks/useFlashSalePerformance';
+
+const DAY_OPTIONS = [7, 30, 90];
+const MAX_ROWS = 100;
+
+function formatPrice(price: number): string {
+  return new Intl.NumberFormat('vi-VN').format(Math.round(price)) + ' đ';
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+function formatWindow(start: number, end: number): string {
+  const startDate = new Date(start * 1000);
+  const endDate = new Date(end * 1000);
+  const time = (d: Date) => d.toLocaleTimeString('vi-VN', { hour: '2-digit', minute: '2-digit' });
+  return `${startDate.toLocaleDateString('vi-VN')} ${time(startDate)} - ${time(endDate)}`;
+}
+
+export function FlashSaleLeaderboardPanel() {
+  const { shops } = useShopeeAuth();
+  const [days, setDays] = useState(30);
+  const { data: rows = [], isLoading } = useFlashSaleLeaderboard(days);
+
+  const shopNameMap = useMemo(() => {
+    const map = new Map<number, string>();
+    shops.forEach(s => map.set(s.shop_id, s.shop_name || `Shop #${s.shop_id}`));
+    return map;
+  }, [shops]);
+
+  return (
+    <div className="flex flex-col h-full bg-card">
+      <div className="flex items-center gap-2 px-3 md:px-4 py-2 border-b">
+        <span className="text-sm text-muted-foreground">
+          {rows.length > MAX_ROWS ? `Top ${MAX_ROWS} / ${rows.length}` : rows.length} khung có đơn Flash Sale
+        </span>
+        <Select value={String(days)} onValueChange={v => setDays(Number(v))}>
+          <SelectTrigger className="h-8 w-32 text-xs ml-auto"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {DAY_OPTIONS.map(d => (
+              <SelectItem key={d} value={String(d)} className="text-xs">{d} ngày</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner className="h-8 w-8" />
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-sm text-muted-foreground">
+            <Trophy className="h-10 w-10 mb-3 text-muted-foreground/50" />
+            Chưa có đơn hàng Flash Sale trong {days} ngày
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">#</TableHead>
+                <TableHead>Shop</TableHead>
+                <TableHead>Khung giờ</TableHead>
+                <TableHead className="text-right">Đơn</TableHead>
+                <TableHead className="text-right">Đã bán</TableHead>
+                <TableHead className="text-right">Doanh thu</TableHead>
+                <TableHead className="text-right">Sell-through</TableHead>
+                <TableHead className="text-right">Chuyển đổi</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.slice(0, MAX_ROWS).map((row, index) => (
+                <TableRow key={`${row.shop_id}-${row.flash_sale_id}`}>
+                  <TableCell className="text-sm font-medium text-muted-foreground">{index + 1}</TableCell>
+                  <TableCell className="text-sm">{shopNameMap.get(row.shop_id) ?? `Shop #${row.shop_id}`}</TableCell>
+                  <TableCell>
+                    <div className="text-sm">{formatWindow(row.start_time, row.end_time)}</div>
+                    <div className="text-xs text-muted-foreground font-mono">{row.flash_sale_id}</div>
+                  </TableCell>
+                  <TableCell className="text-right text-sm">{row.orders}</TableCell>
+                  <TableCell className="text-right text-sm">{row.units}</TableCell>
+                  <TableCell className="text-right text-sm font-medium text-brand">{formatPrice(row.revenue)}</TableCell>
+                  <TableCell className="text-right text-sm">{formatPercent(row.sell_through)}</TableCell>
+                  <TableCell className="text-right text-sm">{formatPercent(row.conversion)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -81,6 +81,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
+import { usePermissionsContext } from "@/contexts/PermissionsContext";
 
 interface FlashSalePanelProps {
   shopId: number;
@@ -155,6 +156,14 @@ function getPageNumbers(
 export function FlashSalePanel({ shopId, userId }: FlashSalePanelProps) {
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { hasFeature } = usePermissionsContext();
+
+  // Quyền thao tác (vai trò tùy chỉnh có thể chỉ cho xem)
+  const allowCreate = hasFeature("flash-sale:create");
+  const allowEdit = hasFeature("flash-sale:edit");
+  const allowDelete = hasFeature("flash-sale:delete");
+  const isDeletable = (sale: FlashSale) => allowDelete && canDelete(sale);
+  const isTogglable = (sale: FlashSale) => allowEdit && canToggle(sale);
 
   // State
   const [activeTab, setActiveTab] = useState<FilterType>("0");
@@ -595,7 +604,7 @@ export function FlashSalePanel({ shopId, userId }: FlashSalePanelProps) {
                               handleToggleStatus(sale);
                             }}
                             disabled={
-                              !canToggle(sale) ||
+                              !isTogglable(sale) ||
                               togglingId === sale.flash_sale_id
                             }
                             className="data-[state=checked]:bg-green-500"
@@ -620,17 +629,19 @@ export function FlashSalePanel({ shopId, userId }: FlashSalePanelProps) {
                                 }}>
                                 <Eye className="h-4 w-4 mr-2" /> Chi tiết
                               </DropdownMenuItem>
-                              <DropdownMenuItem
-                                className="cursor-pointer text-success"
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  handleCopy(sale);
-                                }}>
-                                <Copy className="h-4 w-4 mr-2" /> Sao chép
-                              </DropdownMenuItem>
+                              {allowCreate && (
+                                <DropdownMenuItem
+                                  className="cursor-pointer text-success"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleCopy(sale);
+                                  }}>
+                                  <Copy className="h-4 w-4 mr-2" /> Sao chép
+                                </DropdownMenuItem>
+                              )}
                               <DropdownMenuItem
                                 className="cursor-pointer text-destructive"
-                                disabled={!canDelete(sale)}
+                                disabled={!isDeletable(sale)}
                                 onClick={(e) => {
                                   e.stopPropagation();
                                   handleDeleteClick(sale);
@@ -852,22 +863,24 @@ export function FlashSalePanel({ shopId, userId }: FlashSalePanelProps) {
                                 </Tooltip>
                               </TooltipProvider>
 
-                              <TooltipProvider>
-                                <Tooltip>
-                                  <TooltipTrigger asChild>
-                                    <Button
-                                      variant="ghost"
-                                      size="icon"
-                                      className="h-8 w-8 text-muted-foreground hover:text-info cursor-pointer"
-                                      onClick={() => handleCopy(sale)}>
-                                      <Copy className="h-4 w-4" />
-                                    </Button>
-                                  </TooltipTrigger>
-                                  <TooltipContent>
-                                    Sao chép vào cài FS tự động
-                                  </TooltipContent>
-                                </Tooltip>
-                              </TooltipProvider>
+                              {allowCreate && (
+                                <TooltipProvider>
+                                  <Tooltip>
+                                    <TooltipTrigger asChild>
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-8 w-8 text-muted-foreground hover:text-info cursor-pointer"
+                                        onClick={() => handleCopy(sale)}>
+                                        <Copy className="h-4 w-4" />
+                                      </Button>
+                                    </TooltipTrigger>
+                                    <TooltipContent>
+                                      Sao chép vào cài FS tự động
+                                    </TooltipContent>
+                                  </Tooltip>
+                                </TooltipProvider>
+                              )}
 
                               <TooltipProvider>
                                 <Tooltip>
@@ -877,19 +890,21 @@ export function FlashSalePanel({ shopId, userId }: FlashSalePanelProps) {
                                       size="icon"
                                       className={cn(
                                         "h-8 w-8 cursor-pointer",
-                                        canDelete(sale)
+                                        isDeletable(sale)
                                           ? "text-muted-foreground hover:text-destructive"
                                           : "text-muted-foreground/30 cursor-not-allowed",
                                       )}
                                       onClick={() => handleDeleteClick(sale)}
-                                      disabled={!canDelete(sale)}>
+                                      disabled={!isDeletable(sale)}>
                                       <Trash2 className="h-4 w-4" />
                                     </Button>
                                   </TooltipTrigger>
                                   <TooltipContent>
-                                    {canDelete(sale)
+                                    {isDeletable(sale)
                                       ? "Xóa"
-                                      : "Chỉ xóa được Flash Sale sắp diễn ra"}
+                                      : !allowDelete
+                                        ? "Không có quyền xóa Flash Sale"
+                                        : "Chỉ xóa được Flash Sale sắp diễn ra"}
                                   </TooltipContent>
                                 </Tooltip>
                               </TooltipProvider>
@@ -0,0 +1,119 @@
+/**
+ * FlashSalePerformancePanel - Kết quả bán hàng của 1 khung Flash Sale: số lượng / doanh thu theo
+ * phân loại, sell-through so với tồn kho Flash Sale, chuyển đổi và tốc độ bán so với ngoài khung
+ */
+
+import { BarChart3 } from 'lucide-react';
+import { Spinner } from '@/components/ui/spinner';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useFlashSalePerformance } from '@/hooks/useFlashSalePerformance';
+import { BASELINE_DAYS } from '@/lib/shopee/flash-sale-performance';
+import type { FlashSale } from '@/lib/shopee/flash-sale';
+import { cn } from '@/lib/utils';
+
+interface FlashSalePerformancePanelProps {
+  shopId: number;
+  flashSale: FlashSale;
+}
+
+function formatPrice(price: number): string {
+  return new Intl.NumberFormat('vi-VN').format(Math.round(price)) + ' đ';
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+function formatUplift(value: number | null): string {
+  return value === null ? '—' : `x${value.toFixed(1)}`;
+}
+
+function Stat({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-md border px-3 py-2" title={hint}>
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="text-sm font-semibold">{value}</div>
+    </div>
+  );
+}
+
+export function FlashSalePerformancePanel({ shopId, flashSale }: FlashSalePerformancePanelProps) {
+  // Khung sắp tới chưa có kết quả
+  const started = flashSale.type !== 1;
+  const { data, isLoading } = useFlashSalePerformance(shopId, flashSale, started);
+
+  if (!started) return null;
+
+  return (
+    <div className="rounded-lg border bg-card">
+      <div className="flex items-center gap-2 px-4 py-3 border-b text-sm font-medium">
+        <BarChart3 className="h-4 w-4 text-brand" />
+        Kết quả Flash Sale
+        {flashSale.type === 2 && <span className="text-xs font-normal text-muted-foreground">(đang diễn ra)</span>}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Spinner className="h-6 w-6" />
+        </div>
+      ) : !data || data.models.length === 0 ? (
+        <div className="py-8 text-center text-sm text-muted-foreground">
+          Chưa có đơn hàng Flash Sale - kiểm tra đồng bộ đơn hàng của shop
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-2 p-3">
+            <Stat label="Đơn" value={data.orders.toLocaleString('vi-VN')} />
+            <Stat label="Đã bán" value={data.units.toLocaleString('vi-VN')} />
+            <Stat label="Doanh thu" value={formatPrice(data.revenue)} />
+            <Stat
+              label="Sell-through"
+              value={formatPercent(data.sell_through)}
+              hint={data.campaign_stock === null ? 'Chưa có ảnh chụp tồn kho Flash Sale của khung' : `Tồn kho Flash Sale: ${data.campaign_stock}`}
+            />
+            <Stat label="Chuyển đổi" value={formatPercent(data.conversion)} hint={`Đơn / ${data.click_count ?? 0} lượt click`} />
+            <Stat
+              label="So với ngoài khung"
+              value={formatUplift(data.uplift)}
+              hint={`Tốc độ bán trong khung so với ${BASELINE_DAYS} ngày trước (${data.baseline_units} sản phẩm)`}
+            />
+          </div>
+
+          <div className="max-h-80 overflow-auto border-t">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sản phẩm</TableHead>
+                  <TableHead className="text-right">Đã bán</TableHead>
+                  <TableHead className="text-right">Doanh thu</TableHead>
+                  <TableHead className="text-right">Tồn kho FS</TableHead>
+                  <TableHead className="text-right">Sell-through</TableHead>
+                  <TableHead className="text-right">{BASELINE_DAYS} ngày trước</TableHead>
+                  <TableHead className="text-right">So với ngoài khung</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.models.map(model => (
+                  <TableRow key={`${model.item_id}-${model.model_id}`}>
+                    <TableCell className="max-w-72">
+                      <div className="text-sm line-clamp-1">{model.item_name || `Item #${model.item_id}`}</div>
+                      {model.model_name && <div className="text-xs text-muted-foreground">{model.model_name}</div>}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">{model.units}</TableCell>
+                    <TableCell className="text-right text-sm font-medium text-brand">{formatPrice(model.revenue)}</TableCell>
+                    <TableCell className="text-right text-sm">{model.campaign_stock ?? '—'}</TableCell>
+                    <TableCell className={cn('text-right text-sm', model.sell_through !== null && model.sell_through >= 1 && 'text-green-600 font-medium')}>
+                      {formatPercent(model.sell_through)}
+                    </TableCell>
+                    <TableCell className="text-right text-sm text-muted-foreground">{model.baseline_units}</TableCell>
+                    <TableCell className="text-right text-sm">{formatUplift(model.uplift)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+/**
+ * FlashSaleRevenuePanel - Doanh thu đơn hàng theo từng khung Flash Sale của shop:
+ * GMV đơn đặt trong khung so với doanh thu dòng hàng mua bằng giá Flash Sale
+ */
+
+import { useMemo, useState } from 'react';
+import { Zap } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Spinner } from '@/components/ui/spinner';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useFlashSaleRevenue } from '@/hooks/useOrders';
+import { summarizeFlashSaleRevenue } from '@/lib/shopee/flash-sale-revenue';
+
+interface FlashSaleRevenuePanelProps {
+  shopId: number;
+}
+
+const DAY_OPTIONS = [7, 30, 90];
+
+function formatPrice(price: number): string {
+  return new Intl.NumberFormat('vi-VN').format(Math.round(price)) + ' đ';
+}
+
+function formatWindow(start: number, end: number): string {
+  const startDate = new Date(start * 1000);
+  const endDate = new Date(end * 1000);
+  const time = (d: Date) => d.toLocaleTimeString('vi-VN', { hour: '2-digit', minute: '2-digit' });
+  return `${startDate.toLocaleDateString('vi-VN')} ${time(startDate)} - ${time(endDate)}`;
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-md border px-3 py-2">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="text-sm font-semibold">{value}</div>
+    </div>
+  );
+}
+
+export function FlashSaleRevenuePanel({ shopId }: FlashSaleRevenuePanelProps) {
+  const [days, setDays] = useState(30);
+  const { data: rows = [], isLoading } = useFlashSaleRevenue(shopId, days);
+  const summary = useMemo(() => summarizeFlashSaleRevenue(rows), [rows]);
+
+  return (
+    <div className="flex flex-col h-full bg-card">
+      <div className="flex flex-wrap items-center gap-2 px-3 md:px-4 py-2 border-b">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 flex-1">
+          <Stat label="Khung Flash Sale" value={summary.windows.toLocaleString('vi-VN')} />
+          <Stat label="Đơn trong khung" value={summary.orders.toLocaleString('vi-VN')} />
+          <Stat label="GMV trong khung" value={formatPrice(summary.gmv)} />
+          <Stat label="Doanh thu giá Flash Sale" value={formatPrice(summary.fs_revenue)} />
+        </div>
+        <Select value={String(days)} onValueChange={v => setDays(Number(v))}>
+          <SelectTrigger className="h-8 w-32 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {DAY_OPTIONS.map(d => (
+              <SelectItem key={d} value={String(d)} className="text-xs">{d} ngày</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner className="h-8 w-8" />
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-sm text-muted-foreground">
+            <Zap className="h-10 w-10 mb-3 text-muted-foreground/50" />
+            Không có khung Flash Sale nào trong {days} ngày
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Khung giờ</TableHead>
+                <TableHead className="text-right">Đơn</TableHead>
+                <TableHead className="text-right">GMV</TableHead>
+                <TableHead className="text-right">Đơn có hàng FS</TableHead>
+                <TableHead className="text-right">SL bán giá FS</TableHead>
+                <TableHead className="text-right">Doanh thu FS</TableHead>
+                <TableHead className="text-right">Tỷ trọng</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.flash_sale_id}>
+                  <TableCell>
+                    <div className="text-sm">{formatWindow(row.start_time, row.end_time)}</div>
+                    <div className="text-xs text-muted-foreground font-mono">{row.flash_sale_id}</div>
+                  </TableCell>
+                  <TableCell className="text-right text-sm">{row.orders}</TableCell>
+                  <TableCell className="text-right text-sm">{formatPrice(row.gmv)}</TableCell>
+                  <TableCell className="text-right text-sm">{row.fs_orders}</TableCell>
+                  <TableCell className="text-right text-sm">{row.fs_quantity}</TableCell>
+                  <TableCell className="text-right text-sm font-medium text-brand">{formatPrice(row.fs_revenue)}</TableCell>
+                  <TableCell className="text-right text-sm">
+                    {row.fs_share === null ? '—' : `${Math.round(row.fs_share * 100)}%`}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
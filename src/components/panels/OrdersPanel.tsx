@@ -0,0 +1,239 @@
+/**
+ * OrdersPanel - Danh sách đơn hàng đã đồng bộ của shop: lọc theo trạng thái, tìm theo mã đơn /
+ * người mua, đồng bộ ngay hoặc đặt chu kỳ tự đồng bộ (job order_sync) và mở chi tiết đơn
+ */
+
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, Database, RefreshCw, Search, ShoppingCart } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Spinner } from '@/components/ui/spinner';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { OrderDetailDialog } from '@/components/dialogs/OrderDetailDialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useOrders,
+  useOrderSyncStatus,
+  useSyncOrders,
+  useUpdateOrderSyncInterval,
+  ORDER_SYNC_INTERVAL_OPTIONS,
+} from '@/hooks/useOrders';
+import {
+  describeOrderSyncProgress,
+  ORDER_STATUSES,
+  ORDER_STATUS_LABELS,
+  type OrderStatus,
+} from '@/lib/shopee/order-sync';
+import { cn } from '@/lib/utils';
+
+interface OrdersPanelProps {
+  shopId: number;
+}
+
+const PAGE_SIZE = 50;
+
+const STATUS_STYLES: Partial<Record<OrderStatus, string>> = {
+  UNPAID: 'bg-gray-100 text-gray-700 border-gray-200',
+  READY_TO_SHIP: 'bg-amber-100 text-amber-700 border-amber-200',
+  PROCESSED: 'bg-amber-100 text-amber-700 border-amber-200',
+  SHIPPED: 'bg-blue-100 text-blue-700 border-blue-200',
+  TO_CONFIRM_RECEIVE: 'bg-blue-100 text-blue-700 border-blue-200',
+  IN_CANCEL: 'bg-red-100 text-red-700 border-red-200',
+  CANCELLED: 'bg-red-100 text-red-700 border-red-200',
+  TO_RETURN: 'bg-purple-100 text-purple-700 border-purple-200',
+  COMPLETED: 'bg-green-100 text-green-700 border-green-200',
+};
+
+function formatPrice(price: number | null): string {
+  return new Intl.NumberFormat('vi-VN').format(Number(price) || 0) + ' đ';
+}
+
+function formatTime(seconds: number): string {
+  return new Date(seconds * 1000).toLocaleString('vi-VN', { dateStyle: 'short', timeStyle: 'short' });
+}
+
+export function OrdersPanel({ shopId }: OrdersPanelProps) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<OrderStatus | 'all'>('all');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [selectedSn, setSelectedSn] = useState<string | null>(null);
+
+  const { data, isLoading } = useOrders(shopId, { status, search, page, pageSize: PAGE_SIZE });
+  const { data: syncStatus } = useOrderSyncStatus(shopId);
+  const syncOrders = useSyncOrders(shopId);
+  const updateInterval = useUpdateOrderSyncInterval(shopId);
+
+  const rows = data?.rows ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const syncCursor = syncStatus?.sync_cursor ?? null;
+  const syncProgress = syncCursor ? describeOrderSyncProgress(syncCursor) : null;
+  const syncActive = !!syncCursor || syncOrders.isPending;
+
+  const handleSync = async () => {
+    try {
+      await syncOrders.mutateAsync();
+      toast({ title: 'Đã đưa vào hàng đợi đồng bộ đơn hàng' });
+    } catch (err) {
+      toast({ title: 'Lỗi', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleIntervalChange = async (value: string) => {
+    try {
+      await updateInterval.mutateAsync(value === 'off' ? null : Number(value));
+    } catch (err) {
+      toast({ title: 'Lỗi', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-card">
+      <div className="flex flex-wrap items-center gap-2 px-3 md:px-4 py-2 border-b">
+        <Select value={status} onValueChange={v => { setStatus(v as OrderStatus | 'all'); setPage(1); }}>
+          <SelectTrigger className="h-8 w-48 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all" className="text-xs">Tất cả trạng thái</SelectItem>
+            {ORDER_STATUSES.map(s => (
+              <SelectItem key={s} value={s} className="text-xs">{ORDER_STATUS_LABELS[s]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+          <Input
+            placeholder="Mã đơn, người mua..."
+            value={search}
+            onChange={e => { setSearch(e.target.value); setPage(1); }}
+            className="pl-8 h-8 text-xs w-44 lg:w-56"
+          />
+        </div>
+
+        <div className="flex items-center gap-2 ml-auto">
+          <div
+            className="hidden lg:flex items-center gap-1.5 text-xs text-muted-foreground"
+            title={syncStatus?.last_sync_result ? `Lần gần nhất: ${syncStatus.last_sync_result.inserted} mới, ${syncStatus.last_sync_result.updated} cập nhật` : undefined}
+          >
+            <Database className="h-3.5 w-3.5" />
+            <span>Sync: {syncStatus?.last_sync_at ? new Date(syncStatus.last_sync_at).toLocaleString('vi-VN') : 'Chưa đồng bộ'}</span>
+          </div>
+
+          <Select
+            value={syncStatus?.sync_interval_minutes ? String(syncStatus.sync_interval_minutes) : 'off'}
+            onValueChange={handleIntervalChange}
+            disabled={updateInterval.isPending || !syncStatus?.last_sync_at}
+          >
+            <SelectTrigger className="hidden lg:flex h-8 w-36 text-xs" title="Chu kỳ tự đồng bộ (sau lần đồng bộ đầu tiên)">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ORDER_SYNC_INTERVAL_OPTIONS.map(option => (
+                <SelectItem key={option.label} value={option.value ? String(option.value) : 'off'} className="text-xs">
+                  Tự động: {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Button variant="outline" size="sm" onClick={handleSync} disabled={syncActive} className="h-8 text-xs">
+            <RefreshCw className={cn('h-4 w-4 mr-1 md:mr-1.5', syncActive && 'animate-spin')} />
+            <span className="hidden md:inline">{syncActive ? 'Đang đồng bộ...' : 'Đồng bộ ngay'}</span>
+            <span className="md:hidden">Sync</span>
+          </Button>
+        </div>
+      </div>
+
+      {/* Sync progress (job order_sync đang chạy) / lỗi lần sync gần nhất */}
+      {syncProgress ? (
+        <div className="px-3 md:px-4 py-2 border-b bg-muted/40 flex items-center gap-3 text-xs text-muted-foreground">
+          <span className="flex-shrink-0">{syncProgress.label}</span>
+          <Progress value={syncProgress.percent} className="h-1.5" />
+        </div>
+      ) : syncStatus?.last_error && (
+        <div className="px-3 md:px-4 py-2 border-b bg-red-50 text-xs text-red-600 truncate" title={syncStatus.last_error}>
+          Đồng bộ lỗi: {syncStatus.last_error}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner className="h-8 w-8" />
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-sm text-muted-foreground">
+            <ShoppingCart className="h-10 w-10 mb-3 text-muted-foreground/50" />
+            {syncStatus?.last_sync_at ? 'Không có đơn hàng phù hợp' : 'Chưa có đơn hàng - bấm "Đồng bộ ngay" để lấy đơn 30 ngày gần nhất'}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Mã đơn</TableHead>
+                <TableHead>Sản phẩm</TableHead>
+                <TableHead>Người mua</TableHead>
+                <TableHead className="text-right">Tổng tiền</TableHead>
+                <TableHead>Trạng thái</TableHead>
+                <TableHead>Đặt lúc</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(order => {
+                const quantity = (order.item_list || []).reduce((sum, i) => sum + (i.model_quantity_purchased || 0), 0);
+                return (
+                  <TableRow key={order.order_sn} className="cursor-pointer" onClick={() => setSelectedSn(order.order_sn)}>
+                    <TableCell className="font-mono text-xs">{order.order_sn}</TableCell>
+                    <TableCell className="max-w-72">
+                      <div className="text-sm line-clamp-1">{order.item_list?.[0]?.item_name || '—'}</div>
+                      {order.item_list?.length > 1 && (
+                        <div className="text-xs text-muted-foreground">+{order.item_list.length - 1} sản phẩm khác · {quantity} món</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs">{order.buyer_username || '—'}</TableCell>
+                    <TableCell className="text-right text-sm font-medium">{formatPrice(order.total_amount)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={cn('text-[11px]', STATUS_STYLES[order.order_status])}>
+                        {ORDER_STATUS_LABELS[order.order_status] ?? order.order_status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{formatTime(order.create_time)}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {pageCount > 1 && (
+        <div className="flex items-center justify-end gap-2 px-4 py-2 border-t text-xs text-muted-foreground">
+          <span>
+            {(page - 1) * PAGE_SIZE + 1}-{Math.min(page * PAGE_SIZE, total)} / {total}
+          </span>
+          <Button variant="outline" size="sm" className="h-7 w-7 p-0" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" className="h-7 w-7 p-0" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {selectedSn && (
+        <OrderDetailDialog
+          key={selectedSn}
+          open
+          onOpenChange={open => !open && setSelectedSn(null)}
+          shopId={shopId}
+          orderSn={selectedSn}
+        />
+      )}
+    </div>
+  );
+}
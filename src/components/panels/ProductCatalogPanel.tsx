@@ -0,0 +1,352 @@
+/**
+ * ProductCatalogPanel - Danh mục chung nhiều shop: 1 dòng / master SKU với giá, tồn kho,
+ * trạng thái của từng shop cạnh nhau, đánh dấu giá lệch giữa các shop và ghép tay SKU
+ */
+
+import { useMemo, useState } from 'react';
+import { AlertTriangle, ChevronLeft, ChevronRight, Download, Link2, Search, Store } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Spinner } from '@/components/ui/spinner';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CatalogLinkDialog } from '@/components/dialogs/CatalogLinkDialog';
+import { useCatalogLinks, useCatalogListings } from '@/hooks/useProductCatalog';
+import {
+  buildCatalog,
+  catalogListingKey,
+  catalogToSheet,
+  summarizeCatalog,
+  DEFAULT_PRICE_TOLERANCE_PCT,
+  PRICE_TOLERANCE_OPTIONS,
+  type CatalogListing,
+  type CatalogShopCell,
+} from '@/lib/shopee/product-catalog';
+import { CSV_MIME, downloadFile, toCsv } from '@/lib/spreadsheet';
+import { cn } from '@/lib/utils';
+
+interface CatalogShop {
+  shop_id: number;
+  shop_name: string | null;
+}
+
+interface ProductCatalogPanelProps {
+  userId: string;
+  shops: CatalogShop[];
+}
+
+type CatalogView = 'all' | 'multi' | 'inconsistent' | 'unmatched';
+
+const VIEW_OPTIONS: { value: CatalogView; label: string }[] = [
+  { value: 'all', label: 'Tất cả SKU' },
+  { value: 'multi', label: 'Bán ở nhiều shop' },
+  { value: 'inconsistent', label: 'Giá lệch' },
+  { value: 'unmatched', label: 'Chưa ghép' },
+];
+
+/** Số shop hiển thị mặc định (mỗi shop 1 cột) */
+const DEFAULT_VISIBLE_SHOPS = 6;
+const PAGE_SIZE = 50;
+
+function formatPrice(price: number): string {
+  return new Intl.NumberFormat('vi-VN').format(price) + ' đ';
+}
+
+function fileStamp(): string {
+  return new Date().toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function ShopCellView({ cell, onEdit }: { cell: CatalogShopCell; onEdit: (listing: CatalogListing) => void }) {
+  return (
+    <div className="space-y-0.5">
+      <div className={cn('text-sm font-medium', cell.is_active ? 'text-brand' : 'text-muted-foreground')}>
+        {cell.min_price === cell.max_price
+          ? formatPrice(cell.min_price)
+          : `${formatPrice(cell.min_price)} - ${formatPrice(cell.max_price)}`}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        Kho: {cell.stock.toLocaleString('vi-VN')}
+        {!cell.is_active && <span className="ml-1.5 text-orange-600">· {cell.listings[0].item_status}</span>}
+      </div>
+      {cell.listings.map(listing => (
+        <button
+          key={catalogListingKey(listing.shop_id, listing.item_id, listing.model_id)}
+          type="button"
+          onClick={() => onEdit(listing)}
+          className="block max-w-44 truncate text-[11px] text-muted-foreground hover:text-foreground cursor-pointer"
+          title={`${listing.name} (ID ${listing.item_id}${listing.model_id ? ` / ${listing.model_id}` : ''}) - bấm để ghép SKU`}
+        >
+          {listing.name}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function ProductCatalogPanel({ userId, shops }: ProductCatalogPanelProps) {
+  const [visibleShopIds, setVisibleShopIds] = useState<number[]>(() =>
+    shops.slice(0, DEFAULT_VISIBLE_SHOPS).map(s => s.shop_id)
+  );
+  const [view, setView] = useState<CatalogView>('all');
+  const [tolerance, setTolerance] = useState(DEFAULT_PRICE_TOLERANCE_PCT);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [page, setPage] = useState(0);
+  const [editing, setEditing] = useState<CatalogListing | null>(null);
+
+  const shopIds = useMemo(() => shops.map(s => s.shop_id), [shops]);
+  const { data: listings = [], isLoading: loadingListings } = useCatalogListings(shopIds);
+  const { data: links = [], isLoading: loadingLinks } = useCatalogLinks(shopIds);
+  const loading = loadingListings || loadingLinks;
+
+  const visibleShops = useMemo(
+    () => shops.filter(s => visibleShopIds.includes(s.shop_id)),
+    [shops, visibleShopIds]
+  );
+  const shopName = (shopId: number) => shops.find(s => s.shop_id === shopId)?.shop_name || String(shopId);
+
+  // Ghép trên tất cả shop; cột hiển thị chỉ là lựa chọn xem
+  const catalog = useMemo(() => buildCatalog(listings, links, tolerance), [listings, links, tolerance]);
+  const summary = useMemo(() => summarizeCatalog(catalog), [catalog]);
+
+  const term = searchTerm.trim().toLowerCase();
+  const entries = useMemo(() => catalog.entries.filter(entry => {
+    if (view === 'multi' && entry.shops.length < 2) return false;
+    if (view === 'inconsistent' && !entry.price_inconsistent) return false;
+    if (!entry.shops.some(s => visibleShopIds.includes(s.shop_id))) return false;
+    return !term || entry.master_sku.toLowerCase().includes(term) || entry.name.toLowerCase().includes(term);
+  }), [catalog, view, term, visibleShopIds]);
+  const unmatched = useMemo(() => catalog.unmatched.filter(listing =>
+    visibleShopIds.includes(listing.shop_id)
+    && (!term || listing.name.toLowerCase().includes(term) || String(listing.item_id).includes(term))
+  ), [catalog, term, visibleShopIds]);
+
+  const rowCount = view === 'unmatched' ? unmatched.length : entries.length;
+  const pageCount = Math.max(1, Math.ceil(rowCount / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageStart = currentPage * PAGE_SIZE;
+
+  const editingLink = editing
+    ? links.find(l => catalogListingKey(l.shop_id, l.item_id, l.model_id) === catalogListingKey(editing.shop_id, editing.item_id, editing.model_id)) ?? null
+    : null;
+
+  const toggleShop = (shopId: number, checked: boolean) => {
+    setVisibleShopIds(ids => (checked ? [...ids, shopId] : ids.filter(id => id !== shopId)));
+    setPage(0);
+  };
+
+  const handleExport = () => {
+    downloadFile(toCsv(catalogToSheet(entries, visibleShops)), `catalog_${fileStamp()}.csv`, CSV_MIME);
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-card">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 px-3 md:px-4 py-2 border-b">
+        <div className="flex flex-wrap items-center gap-1.5 text-xs">
+          <Badge variant="secondary">{summary.master_count} SKU</Badge>
+          <Badge variant="secondary">{summary.multi_shop_count} bán nhiều shop</Badge>
+          <Badge variant={summary.inconsistent_count > 0 ? 'destructive' : 'secondary'}>
+            {summary.inconsistent_count} giá lệch
+          </Badge>
+          <Badge variant="outline">{summary.unmatched_count} chưa ghép</Badge>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 ml-auto">
+          <div className="relative">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+            <Input
+              placeholder="Tìm SKU, tên..."
+              value={searchTerm}
+              onChange={e => { setSearchTerm(e.target.value); setPage(0); }}
+              className="pl-8 h-8 text-xs w-40 lg:w-52"
+            />
+          </div>
+
+          <Select value={view} onValueChange={v => { setView(v as CatalogView); setPage(0); }}>
+            <SelectTrigger className="h-8 w-36 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {VIEW_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value} className="text-xs">{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={String(tolerance)} onValueChange={v => setTolerance(Number(v))}>
+            <SelectTrigger className="h-8 w-32 text-xs" title="Ngưỡng lệch giá giữa các shop"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {PRICE_TOLERANCE_OPTIONS.map(pct => (
+                <SelectItem key={pct} value={String(pct)} className="text-xs">
+                  {pct === 0 ? 'Lệch: bất kỳ' : `Lệch > ${pct}%`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="h-8 text-xs">
+                <Store className="h-4 w-4 mr-1.5" />
+                Shop ({visibleShops.length}/{shops.length})
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-64 max-h-80 overflow-y-auto p-2">
+              {shops.map(shop => (
+                <label key={shop.shop_id} className="flex items-center gap-2 px-1.5 py-1 text-xs cursor-pointer hover:bg-muted rounded">
+                  <Checkbox
+                    checked={visibleShopIds.includes(shop.shop_id)}
+                    onCheckedChange={checked => toggleShop(shop.shop_id, !!checked)}
+                  />
+                  <span className="truncate">{shop.shop_name || shop.shop_id}</span>
+                </label>
+              ))}
+            </PopoverContent>
+          </Popover>
+
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 text-xs"
+            disabled={view === 'unmatched' || entries.length === 0}
+            onClick={handleExport}
+            title="Xuất CSV theo bộ lọc hiện tại"
+          >
+            <Download className="h-4 w-4 md:mr-1.5" />
+            <span className="hidden md:inline">Xuất CSV</span>
+          </Button>
+        </div>
+      </div>
+
+      {/* Table */}
+      <div className="flex-1 overflow-auto">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner className="h-8 w-8" />
+          </div>
+        ) : rowCount === 0 ? (
+          <div className="py-12 text-center text-sm text-muted-foreground">
+            {listings.length === 0 ? 'Chưa có sản phẩm - đồng bộ sản phẩm các shop trước' : 'Không có SKU phù hợp'}
+          </div>
+        ) : view === 'unmatched' ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Shop</TableHead>
+                <TableHead>Sản phẩm</TableHead>
+                <TableHead className="text-right">Giá</TableHead>
+                <TableHead className="text-right">Tồn kho</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {unmatched.slice(pageStart, pageStart + PAGE_SIZE).map(listing => (
+                <TableRow key={catalogListingKey(listing.shop_id, listing.item_id, listing.model_id)}>
+                  <TableCell className="text-xs">{shopName(listing.shop_id)}</TableCell>
+                  <TableCell>
+                    <div className="text-sm line-clamp-1">{listing.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      ID {listing.item_id}{listing.model_id ? ` / ${listing.model_id}` : ''} · {listing.item_status}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right text-sm">{formatPrice(listing.current_price)}</TableCell>
+                  <TableCell className="text-right text-sm">{listing.stock.toLocaleString('vi-VN')}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setEditing(listing)}>
+                      <Link2 className="h-3.5 w-3.5 mr-1" />
+                      Ghép
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="min-w-56 sticky left-0 bg-card">Master SKU</TableHead>
+                <TableHead className="text-right min-w-28">Lệch giá</TableHead>
+                {visibleShops.map(shop => (
+                  <TableHead key={shop.shop_id} className="min-w-40">
+                    <span className="line-clamp-1">{shop.shop_name || shop.shop_id}</span>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.slice(pageStart, pageStart + PAGE_SIZE).map(entry => (
+                <TableRow key={entry.master_sku} className={cn(entry.price_inconsistent && 'bg-red-50/60')}>
+                  <TableCell className="sticky left-0 bg-card align-top">
+                    <div className="flex gap-2">
+                      {entry.image_url && (
+                        <img src={entry.image_url} alt="" className="w-10 h-10 rounded object-cover flex-shrink-0" />
+                      )}
+                      <div className="min-w-0">
+                        <div className="font-mono text-xs font-medium flex items-center gap-1">
+                          {entry.master_sku}
+                          {entry.has_manual_link && <Link2 className="h-3 w-3 text-muted-foreground" aria-label="Có ghép tay" />}
+                        </div>
+                        <div className="text-xs text-muted-foreground line-clamp-2">{entry.name}</div>
+                        <div className="text-[11px] text-muted-foreground">
+                          {entry.shops.length} shop · kho {entry.total_stock.toLocaleString('vi-VN')}
+                        </div>
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right align-top">
+                    {entry.price_inconsistent ? (
+                      <span className="inline-flex items-center gap-1 text-xs font-medium text-red-600">
+                        <AlertTriangle className="h-3.5 w-3.5" />
+                        {entry.price_spread_pct}%
+                      </span>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">{entry.shops.length >= 2 ? `${entry.price_spread_pct}%` : '—'}</span>
+                    )}
+                  </TableCell>
+                  {visibleShops.map(shop => {
+                    const cell = entry.shops.find(s => s.shop_id === shop.shop_id);
+                    return (
+                      <TableCell key={shop.shop_id} className="align-top">
+                        {cell ? <ShopCellView cell={cell} onEdit={setEditing} /> : <span className="text-xs text-muted-foreground">—</span>}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {pageCount > 1 && (
+        <div className="flex items-center justify-end gap-2 px-4 py-2 border-t text-xs text-muted-foreground">
+          <span>
+            {pageStart + 1}-{Math.min(pageStart + PAGE_SIZE, rowCount)} / {rowCount}
+          </span>
+          <Button variant="outline" size="sm" className="h-7 w-7 p-0" disabled={currentPage === 0} onClick={() => setPage(currentPage - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" className="h-7 w-7 p-0" disabled={currentPage >= pageCount - 1} onClick={() => setPage(currentPage + 1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {editing && (
+        <CatalogLinkDialog
+          key={catalogListingKey(editing.shop_id, editing.item_id, editing.model_id)}
+          open
+          onOpenChange={open => !open && setEditing(null)}
+          userId={userId}
+          listing={editing}
+          shopName={shopName(editing.shop_id)}
+          link={editingLink}
+          masterSkus={catalog.entries.map(e => e.master_sku)}
+        />
+      )}
+    </div>
+  );
+}
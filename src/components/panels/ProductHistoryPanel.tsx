@@ -2,6 +2,7 @@
  * ProductHistoryPanel - UI component hiển thị lịch sử biến đổi sản phẩm
  * Đọc dữ liệu từ bảng apishopee_product_history_logs
  * Hỗ trợ filter theo loại thay đổi, mức độ nghiêm trọng, và tìm kiếm
+ * Tab Cảnh báo: inbox alert từ rule cảnh báo của shop (xác nhận / tạm hoãn)
  */
 
 import { useState, useEffect, useMemo } from 'react';
@@ -26,18 +27,33 @@ import {
   Plus,
   Bell,
   BellOff,
+  ShieldAlert,
+  Check,
+  Clock,
+  Settings2,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { ProductAlertRulesDialog } from '@/components/dialogs/ProductAlertRulesDialog';
+import { ProductTimelineDialog } from '@/components/dialogs/ProductTimelineDialog';
 import { useToast } from '@/hooks/use-toast';
+import { useProductAlerts, useUpdateProductAlerts, type ProductAlert } from '@/hooks/useProductAlerts';
+import { ALERT_SNOOZE_OPTIONS, filterAlertInbox, type AlertInboxView } from '@/lib/shopee/product-alerts';
 import { supabase } from '@/lib/supabase';
 import { cn } from '@/lib/utils';
 
 // Types
 type ChangeType = 'price_change' | 'stock_change' | 'status_change' | 'content_change' | 'violation' | 'product_created' | 'product_deleted' | 'model_change';
 type Severity = 'INFO' | 'WARNING' | 'HIGH' | 'CRITICAL';
-type LogSource = 'webhook' | 'api_sync' | 'manual_check';
+type LogSource = 'webhook' | 'api_sync' | 'manual_check' | 'manual';
+
+const SOURCE_LABELS: Record<LogSource, string> = {
+  webhook: 'Webhook',
+  api_sync: 'API Sync',
+  manual_check: 'Kiểm tra',
+  manual: 'Sửa thủ công',
+};
 
 interface HistoryLog {
   id: string;
@@ -50,6 +66,7 @@ interface HistoryLog {
   change_type: ChangeType;
   severity: Severity;
   source: LogSource;
+  actor_user_id: string | null;
   old_value: Record<string, unknown> | null;
   new_value: Record<string, unknown> | null;
   change_summary: string | null;
@@ -89,6 +106,13 @@ const FILTER_TABS = [
   { key: 'stock_change', label: 'Sửa kho', icon: Box },
   { key: 'violation', label: 'Vi phạm', icon: Ban },
   { key: 'status_change', label: 'Trạng thái', icon: FileText },
+  { key: 'ALERTS', label: 'Cảnh báo', icon: ShieldAlert },
+];
+
+const ALERT_VIEWS: { key: AlertInboxView; label: string }[] = [
+  { key: 'active', label: 'Cần xử lý' },
+  { key: 'snoozed', label: 'Tạm hoãn' },
+  { key: 'acknowledged', label: 'Đã xác nhận' },
 ];
 
 // Severity config
@@ -157,7 +181,11 @@ export function ProductHistoryPanel({ shopId, userId: _userId }: ProductHistoryP
   const [filterType, setFilterType] = useState<string>('ALL');
   const [showUnreadOnly, setShowUnreadOnly] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
+  const [alertView, setAlertView] = useState<AlertInboxView>('active');
+  const [rulesOpen, setRulesOpen] = useState(false);
+  const [timelineItem, setTimelineItem] = useState<{ itemId: number; itemName: string | null } | null>(null);
   const pageSize = 20;
+  const showAlerts = filterType === 'ALERTS';
 
   // Query keys (memoized to prevent re-renders)
   const historyQueryKey = useMemo(() => ['product-history', shopId, filterType, showUnreadOnly, currentPage], [shopId, filterType, showUnreadOnly, currentPage]);
@@ -195,7 +223,7 @@ export function ProductHistoryPanel({ shopId, userId: _userId }: ProductHistoryP
         totalPages: Math.ceil((count || 0) / pageSize),
       };
     },
-    enabled: !!shopId,
+    enabled: !!shopId && !showAlerts,
     staleTime: 30 * 1000, // 30 seconds
     refetchOnWindowFocus: false,
   });
@@ -248,6 +276,30 @@ export function ProductHistoryPanel({ shopId, userId: _userId }: ProductHistoryP
     },
   });
 
+  // Alert inbox (open + snoozed luôn tải để hiện số cảnh báo trên tab)
+  const { data: pendingAlerts = [], isLoading: loadingAlerts, refetch: refetchAlerts } = useProductAlerts(shopId);
+  const { data: acknowledgedAlerts = [] } = useProductAlerts(showAlerts && alertView === 'acknowledged' ? shopId : null, true);
+  const updateAlerts = useUpdateProductAlerts();
+  const activeAlertCount = useMemo(() => filterAlertInbox(pendingAlerts, 'active').length, [pendingAlerts]);
+
+  const inboxAlerts = useMemo(() => {
+    const alerts = alertView === 'acknowledged' ? acknowledgedAlerts : filterAlertInbox(pendingAlerts, alertView);
+    if (!searchTerm) return alerts;
+    const term = searchTerm.toLowerCase();
+    return alerts.filter(alert =>
+      alert.item_name?.toLowerCase().includes(term) ||
+      alert.item_id.toString().includes(term) ||
+      alert.message.toLowerCase().includes(term)
+    );
+  }, [alertView, acknowledgedAlerts, pendingAlerts, searchTerm]);
+
+  const handleUpdateAlerts = (ids: string[], snoozeHours?: number) => {
+    updateAlerts.mutate({ ids, snoozeHours }, {
+      onSuccess: () => toast({ title: snoozeHours ? 'Đã tạm hoãn cảnh báo' : 'Đã xác nhận cảnh báo' }),
+      onError: (err) => toast({ title: 'Lỗi', description: (err as Error).message, variant: 'destructive' }),
+    });
+  };
+
   // Subscribe to realtime changes
   useEffect(() => {
     if (!shopId) return;
@@ -354,9 +406,13 @@ export function ProductHistoryPanel({ shopId, userId: _userId }: ProductHistoryP
 
             {/* Product info */}
             <div className="mb-1">
-              <span className="text-sm font-medium text-foreground line-clamp-1">
+              <button
+                onClick={() => setTimelineItem({ itemId: log.item_id, itemName: log.item_name })}
+                className="text-sm font-medium text-foreground line-clamp-1 text-left hover:underline cursor-pointer"
+                title="Xem lịch sử giá & tồn kho"
+              >
                 {log.item_name || `Sản phẩm #${log.item_id}`}
-              </span>
+              </button>
               {log.model_name && (
                 <span className="text-xs text-muted-foreground ml-2">
                   ({log.model_name})
@@ -437,7 +493,7 @@ export function ProductHistoryPanel({ shopId, userId: _userId }: ProductHistoryP
             {/* Source badge */}
             <div className="mt-2 flex items-center gap-2">
               <span className="text-[10px] text-muted-foreground uppercase tracking-wider">
-                {log.source === 'webhook' ? 'Webhook' : log.source === 'api_sync' ? 'API Sync' : 'Kiểm tra'}
+                {SOURCE_LABELS[log.source] || log.source}
               </span>
               <span className="text-[10px] text-muted-foreground">•</span>
               <span className="text-[10px] text-muted-foreground">
@@ -450,6 +506,88 @@ export function ProductHistoryPanel({ shopId, userId: _userId }: ProductHistoryP
     );
   };
 
+  // Render alert item
+  const renderAlertItem = (alert: ProductAlert) => {
+    const severityConfig = SEVERITY_CONFIG[alert.severity];
+    const SeverityIcon = severityConfig.icon;
+    const snoozed = alert.status === 'snoozed' && alert.snoozed_until && new Date(alert.snoozed_until) > new Date();
+
+    return (
+      <div key={alert.id} className="border-b last:border-b-0 p-4 hover:bg-accent transition-colors">
+        <div className="flex items-start gap-3">
+          <div className={cn('p-2 rounded-lg flex-shrink-0', severityConfig.className)}>
+            <SeverityIcon className="w-4 h-4" />
+          </div>
+
+          <div className="flex-1 min-w-0">
+            <div className="flex items-start justify-between gap-2 mb-1">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className={cn('text-xs px-2 py-0.5 rounded-full', severityConfig.className)}>
+                  {severityConfig.label}
+                </span>
+                {snoozed && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground flex items-center gap-1">
+                    <Clock className="w-3 h-3" />
+                    Đến {formatDateTime(alert.snoozed_until!)}
+                  </span>
+                )}
+              </div>
+              <span className="text-xs text-muted-foreground flex-shrink-0" title={formatDateTime(alert.created_at)}>
+                {formatRelativeTime(alert.created_at)}
+              </span>
+            </div>
+
+            <div className="mb-1">
+              <button
+                onClick={() => setTimelineItem({ itemId: alert.item_id, itemName: alert.item_name })}
+                className="text-sm font-medium text-foreground line-clamp-1 text-left hover:underline cursor-pointer"
+                title="Xem lịch sử giá & tồn kho"
+              >
+                {alert.item_name || `Sản phẩm #${alert.item_id}`}
+              </button>
+              {alert.model_name && (
+                <span className="text-xs text-muted-foreground ml-2">({alert.model_name})</span>
+              )}
+            </div>
+
+            <p className="text-sm text-foreground">{alert.message}</p>
+
+            <div className="mt-2 flex items-center gap-2 flex-wrap">
+              {alert.status !== 'acknowledged' ? (
+                <>
+                  <Button
+                    size="sm" variant="outline" className="h-7 text-xs"
+                    onClick={() => handleUpdateAlerts([alert.id])}
+                    disabled={updateAlerts.isPending}
+                  >
+                    <Check className="w-3.5 h-3.5 mr-1" />
+                    Xác nhận
+                  </Button>
+                  {ALERT_SNOOZE_OPTIONS.map(option => (
+                    <Button
+                      key={option.hours}
+                      size="sm" variant="ghost" className="h-7 text-xs text-muted-foreground"
+                      onClick={() => handleUpdateAlerts([alert.id], option.hours)}
+                      disabled={updateAlerts.isPending}
+                    >
+                      <Clock className="w-3.5 h-3.5 mr-1" />
+                      {option.label}
+                    </Button>
+                  ))}
+                </>
+              ) : (
+                <span className="text-[10px] text-muted-foreground">
+                  Đã xác nhận {alert.acknowledged_at && formatRelativeTime(alert.acknowledged_at)}
+                </span>
+              )}
+              <span className="text-[10px] text-muted-foreground ml-auto">ID: {alert.item_id}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <Card className="border-0 shadow-sm flex flex-col h-[calc(100vh-73px)]">
       <CardContent className="p-0 flex flex-col h-full overflow-hidden">
@@ -510,6 +648,11 @@ export function ProductHistoryPanel({ shopId, userId: _userId }: ProductHistoryP
                   >
                     <TabIcon className="w-3.5 h-3.5" />
                     <span className="hidden md:inline">{tab.label}</span>
+                    {tab.key === 'ALERTS' && activeAlertCount > 0 && (
+                      <span className="text-[10px] px-1.5 rounded-full bg-destructive text-destructive-foreground">
+                        {activeAlertCount}
+                      </span>
+                    )}
                   </button>
                 );
               })}
@@ -528,19 +671,34 @@ export function ProductHistoryPanel({ shopId, userId: _userId }: ProductHistoryP
                 />
               </div>
 
+              {/* Alert rules */}
+              {showAlerts && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRulesOpen(true)}
+                  className="h-8 text-xs"
+                >
+                  <Settings2 className="w-3.5 h-3.5 md:mr-1" />
+                  <span className="hidden md:inline">Quy tắc</span>
+                </Button>
+              )}
+
               {/* Toggle unread only */}
-              <Button
-                variant={showUnreadOnly ? 'default' : 'outline'}
-                size="sm"
-                onClick={() => setShowUnreadOnly(!showUnreadOnly)}
-                className={cn('h-8 text-xs', showUnreadOnly && 'bg-info hover:bg-info/90')}
-              >
-                {showUnreadOnly ? <BellOff className="w-3.5 h-3.5 mr-1" /> : <Bell className="w-3.5 h-3.5 mr-1" />}
-                <span className="hidden md:inline">{showUnreadOnly ? 'Tất cả' : 'Chưa đọc'}</span>
-              </Button>
+              {!showAlerts && (
+                <Button
+                  variant={showUnreadOnly ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setShowUnreadOnly(!showUnreadOnly)}
+                  className={cn('h-8 text-xs', showUnreadOnly && 'bg-info hover:bg-info/90')}
+                >
+                  {showUnreadOnly ? <BellOff className="w-3.5 h-3.5 mr-1" /> : <Bell className="w-3.5 h-3.5 mr-1" />}
+                  <span className="hidden md:inline">{showUnreadOnly ? 'Tất cả' : 'Chưa đọc'}</span>
+                </Button>
+              )}
 
               {/* Mark all as read */}
-              {stats && stats.unread_count > 0 && (
+              {!showAlerts && stats && stats.unread_count > 0 && (
                 <Button
                   variant="outline"
                   size="sm"
@@ -557,7 +715,7 @@ export function ProductHistoryPanel({ shopId, userId: _userId }: ProductHistoryP
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => refetchHistory()}
+                onClick={() => (showAlerts ? refetchAlerts() : refetchHistory())}
                 disabled={loadingHistory}
                 className="h-8 text-xs"
               >
@@ -582,8 +740,58 @@ export function ProductHistoryPanel({ shopId, userId: _userId }: ProductHistoryP
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto">
+          {/* Alert inbox */}
+          {showAlerts && (
+            <>
+              <div className="flex items-center gap-1 px-3 py-2 border-b">
+                {ALERT_VIEWS.map(view => (
+                  <button
+                    key={view.key}
+                    onClick={() => setAlertView(view.key)}
+                    className={cn(
+                      'px-3 py-1 text-xs rounded-full cursor-pointer',
+                      alertView === view.key ? 'bg-brand/10 text-brand font-medium' : 'text-muted-foreground hover:text-foreground'
+                    )}
+                  >
+                    {view.label}
+                    {view.key === 'active' && activeAlertCount > 0 && ` (${activeAlertCount})`}
+                  </button>
+                ))}
+                {alertView === 'active' && inboxAlerts.length > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleUpdateAlerts(inboxAlerts.map(a => a.id))}
+                    disabled={updateAlerts.isPending}
+                    className="h-7 text-xs ml-auto"
+                  >
+                    <CheckCheck className="w-3.5 h-3.5 mr-1" />
+                    Xác nhận tất cả
+                  </Button>
+                )}
+              </div>
+
+              {loadingAlerts ? (
+                <div className="flex items-center justify-center py-12">
+                  <RefreshCw className="h-6 w-6 animate-spin text-brand" />
+                  <span className="ml-2 text-muted-foreground">Đang tải...</span>
+                </div>
+              ) : inboxAlerts.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+                  <ShieldAlert className="h-12 w-12 mb-3" />
+                  <p className="mb-2">Không có cảnh báo</p>
+                  <p className="text-sm text-muted-foreground">
+                    Cảnh báo được tạo khi thay đổi sản phẩm khớp quy tắc của shop
+                  </p>
+                </div>
+              ) : (
+                <div>{inboxAlerts.map(renderAlertItem)}</div>
+              )}
+            </>
+          )}
+
           {/* Loading */}
-          {loadingHistory && (
+          {!showAlerts && loadingHistory && (
             <div className="flex items-center justify-center py-12">
               <RefreshCw className="h-6 w-6 animate-spin text-brand" />
               <span className="ml-2 text-muted-foreground">Đang tải...</span>
@@ -591,7 +799,7 @@ export function ProductHistoryPanel({ shopId, userId: _userId }: ProductHistoryP
           )}
 
           {/* Empty */}
-          {!loadingHistory && filteredLogs.length === 0 && (
+          {!showAlerts && !loadingHistory && filteredLogs.length === 0 && (
             <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
               <History className="h-12 w-12 mb-3" />
               <p className="mb-2">Chưa có lịch sử thay đổi</p>
@@ -604,7 +812,7 @@ export function ProductHistoryPanel({ shopId, userId: _userId }: ProductHistoryP
           )}
 
           {/* Log list */}
-          {!loadingHistory && filteredLogs.length > 0 && (
+          {!showAlerts && !loadingHistory && filteredLogs.length > 0 && (
             <div>
               {filteredLogs.map(renderLogItem)}
             </div>
@@ -612,7 +820,7 @@ export function ProductHistoryPanel({ shopId, userId: _userId }: ProductHistoryP
         </div>
 
         {/* Pagination */}
-        {historyData && historyData.totalPages > 1 && (
+        {!showAlerts && historyData && historyData.totalPages > 1 && (
           <div className="px-3 md:px-4 py-2 md:py-3 border-t bg-muted flex items-center justify-between">
             <div className="text-xs md:text-sm text-muted-foreground">
               Trang {currentPage} / {historyData.totalPages} ({historyData.total} bản ghi)
@@ -677,6 +885,18 @@ export function ProductHistoryPanel({ shopId, userId: _userId }: ProductHistoryP
           </div>
         )}
       </CardContent>
+
+      <ProductAlertRulesDialog open={rulesOpen} onOpenChange={setRulesOpen} shopId={shopId} />
+      {timelineItem && (
+        <ProductTimelineDialog
+          key={timelineItem.itemId}
+          open
+          onOpenChange={open => !open && setTimelineItem(null)}
+          shopId={shopId}
+          itemId={timelineItem.itemId}
+          itemName={timelineItem.itemName}
+        />
+      )}
     </Card>
   );
 }
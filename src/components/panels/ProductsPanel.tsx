@@ -1,22 +1,47 @@
 /**
  * ProductsPanel - UI component cho quản lý sản phẩm Shopee
- * Đọc dữ liệu từ database, sync tự động mỗi giờ bởi cron job
+ * Đọc dữ liệu từ database, worker tự sync theo chu kỳ của shop (queue product_sync)
  * Sử dụng React Query để cache data, chỉ reload khi DB thay đổi
+ * Sửa giá / tồn kho inline và ẩn / hiện sản phẩm (ghi thẳng lên Shopee);
+ * sửa nội dung (tên, mô tả, thuộc tính, ảnh...) qua bản nháp trong ProductContentDialog
  */
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, type ReactNode } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { RefreshCw, Search, Package, ChevronDown, ChevronUp, Link2, Database, ChevronLeft, ChevronRight } from 'lucide-react';
+import { RefreshCw, Search, Package, ChevronDown, ChevronUp, Link2, Database, ChevronLeft, ChevronRight, Pencil, Eye, EyeOff, FileSpreadsheet, History, FileText } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { useProductEdit } from '@/hooks/useProductEdits';
+import {
+  enqueueProductSync,
+  productSyncStatusKey,
+  useProductSyncStatus,
+  useUpdateProductSyncInterval,
+  waitForProductSync,
+  PRODUCT_SYNC_INTERVAL_OPTIONS,
+} from '@/hooks/useProductSync';
+import { describeSyncProgress } from '@/lib/shopee/product-sync';
 import { supabase } from '@/lib/supabase';
 import { cn } from '@/lib/utils';
 import { logCompletedActivity } from '@/lib/activity-logger';
+import {
+  describeEditRequest,
+  formatEditFailures,
+  parsePriceInput,
+  parseStockInput,
+  type ProductEditRequest,
+} from '@/lib/shopee/product-edit';
 
 import { ImageWithZoom } from '@/components/ui/image-with-zoom';
+import { ProductBulkEditDialog } from '@/components/dialogs/ProductBulkEditDialog';
+import { ProductTimelineDialog } from '@/components/dialogs/ProductTimelineDialog';
+import { ProductContentDialog } from '@/components/dialogs/ProductContentDialog';
+import { usePermissionsContext } from '@/contexts/PermissionsContext';
 
 // Status tabs cho sản phẩm
 const STATUS_TABS = [
@@ -106,6 +131,77 @@ function formatRelativeTime(dateString: string | null | undefined): string {
   });
 }
 
+interface EditableNumberCellProps {
+  value: number;
+  parse: (input: string) => number | null;
+  onSave: (value: number) => Promise<boolean>;
+  title: string;
+  className?: string;
+  /** Không có quyền sửa - chỉ hiển thị giá trị */
+  disabled?: boolean;
+  children: ReactNode;
+}
+
+/**
+ * Ô sửa inline: click để sửa, Enter / blur để lưu, Esc để hủy
+ */
+function EditableNumberCell({ value, parse, onSave, title, className, disabled, children }: EditableNumberCellProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+  const invalid = editing && parse(draft) === null;
+
+  const commit = async () => {
+    if (saving) return;
+    const parsed = parse(draft);
+    if (parsed === null) return;
+    if (parsed === value) {
+      setEditing(false);
+      return;
+    }
+    setSaving(true);
+    const saved = await onSave(parsed);
+    setSaving(false);
+    if (saved) setEditing(false);
+  };
+
+  if (disabled) {
+    return <div className={className}>{children}</div>;
+  }
+
+  if (editing) {
+    return (
+      <Input
+        autoFocus
+        value={draft}
+        disabled={saving}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') setEditing(false);
+        }}
+        className={cn('h-7 w-24 text-right text-sm ml-auto', invalid && 'border-destructive', className)}
+      />
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => {
+        setDraft(String(value));
+        setEditing(true);
+      }}
+      title={title}
+      className={cn('group inline-flex items-start gap-1 cursor-pointer rounded px-1 -mx-1 hover:bg-muted', className)}
+    >
+      <div>{children}</div>
+      <Pencil className="h-3 w-3 mt-1 text-muted-foreground opacity-0 group-hover:opacity-100" />
+    </button>
+  );
+}
+
 export function ProductsPanel({ shopId, userId }: ProductsPanelProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -115,6 +211,16 @@ export function ProductsPanel({ shopId, userId }: ProductsPanelProps) {
   const [statusFilter, setStatusFilter] = useState('ALL');
   const [expandedItems, setExpandedItems] = useState<Set<number>>(new Set());
   const [syncing, setSyncing] = useState(false);
+  const [togglingItemId, setTogglingItemId] = useState<number | null>(null);
+  const [bulkEditOpen, setBulkEditOpen] = useState(false);
+  const [timelineProduct, setTimelineProduct] = useState<DBProduct | null>(null);
+  const [contentProduct, setContentProduct] = useState<DBProduct | null>(null);
+  const productEdit = useProductEdit(shopId, userId);
+  const { hasFeature } = usePermissionsContext();
+  const canEditPrice = hasFeature('products:edit-price');
+  const canEditStock = hasFeature('products:edit-stock');
+  const canUnlist = hasFeature('products:unlist');
+  const updateSyncInterval = useUpdateProductSyncInterval(shopId, userId);
 
   // Pagination state
   const [currentPage, setCurrentPage] = useState(1);
@@ -124,7 +230,7 @@ export function ProductsPanel({ shopId, userId }: ProductsPanelProps) {
   // Query keys (memoized to prevent re-renders)
   const productsQueryKey = useMemo(() => ['products', shopId], [shopId]);
   const modelsQueryKey = useMemo(() => ['product-models', shopId], [shopId]);
-  const syncStatusQueryKey = useMemo(() => ['products-sync-status', shopId], [shopId]);
+  const syncStatusQueryKey = useMemo(() => productSyncStatusKey(shopId), [shopId]);
 
   // Fetch products từ database với React Query (cache vĩnh viễn cho đến khi invalidate)
   const { data: products = [], isLoading: loadingProducts } = useQuery({
@@ -174,26 +280,12 @@ export function ProductsPanel({ shopId, userId }: ProductsPanelProps) {
     refetchOnReconnect: false,
   });
 
-  // Fetch sync status (for cache invalidation and display last sync time)
-  // Query theo shop_id, lấy record có products_synced_at mới nhất (không phụ thuộc user_id)
-  const { data: syncStatus } = useQuery({
-    queryKey: syncStatusQueryKey,
-    queryFn: async () => {
-      const { data } = await supabase
-        .from('apishopee_sync_status')
-        .select('products_synced_at')
-        .eq('shop_id', shopId)
-        .not('products_synced_at', 'is', null)
-        .order('products_synced_at', { ascending: false })
-        .limit(1)
-        .maybeSingle();
-      return data;
-    },
-    enabled: !!shopId,
-    staleTime: 60 * 1000,
-    refetchOnWindowFocus: false,
-    refetchOnMount: false,
-  });
+  // Sync status: thời gian sync, tiến độ job đang chạy (realtime bên dưới), chu kỳ tự sync
+  const { data: syncStatus } = useProductSyncStatus(shopId, userId);
+  const syncCursor = syncStatus?.products_sync_cursor ?? null;
+  const syncProgress = syncCursor ? describeSyncProgress(syncCursor) : null;
+  // Job do cron enqueue cũng hiển thị như đang đồng bộ
+  const syncActive = syncing || !!syncCursor;
 
   const loading = loadingProducts || loadingModels;
 
@@ -247,30 +339,25 @@ export function ProductsPanel({ shopId, userId }: ProductsPanelProps) {
     };
   }, [shopId, queryClient, productsQueryKey, modelsQueryKey, syncStatusQueryKey]);
 
-  // Kiểm tra và sync products nếu có thay đổi
+  // Enqueue sync incremental cho worker, chờ job xong (tiến độ hiển thị từ cursor)
   const syncProducts = async () => {
     if (syncing) return;
 
     setSyncing(true);
     const startTime = new Date();
     try {
-      const { data, error } = await supabase.functions.invoke('apishopee-product', {
-        body: {
-          action: 'check-updates',
-          shop_id: shopId,
-          user_id: userId,
-        },
-      });
-
-      if (error) throw error;
-      if (data?.error) throw new Error(data.error);
+      const jobId = await enqueueProductSync(shopId, userId, 'incremental');
+      await queryClient.invalidateQueries({ queryKey: syncStatusQueryKey });
+      const result = await waitForProductSync(jobId);
 
       // Invalidate queries để refresh data
       await queryClient.invalidateQueries({ queryKey: productsQueryKey });
       await queryClient.invalidateQueries({ queryKey: modelsQueryKey });
       await queryClient.invalidateQueries({ queryKey: syncStatusQueryKey });
 
-      if (data?.has_changes === false) {
+      const changed = (result.inserted || 0) + (result.updated || 0) + (result.deleted || 0);
+      const summary = `${result.inserted || 0} mới, ${result.updated || 0} cập nhật, ${result.deleted || 0} đã xóa`;
+      if (changed === 0) {
         toast({
           title: 'Không có thay đổi',
           description: 'Dữ liệu sản phẩm đã cập nhật mới nhất',
@@ -278,7 +365,7 @@ export function ProductsPanel({ shopId, userId }: ProductsPanelProps) {
       } else {
         toast({
           title: 'Đồng bộ thành công',
-          description: `Đã đồng bộ ${data?.synced_count || 0} sản phẩm`,
+          description: `Đã đồng bộ sản phẩm: ${summary}`,
         });
       }
 
@@ -288,17 +375,21 @@ export function ProductsPanel({ shopId, userId }: ProductsPanelProps) {
         shopId,
         actionType: 'products_sync',
         actionCategory: 'products',
-        actionDescription: data?.has_changes === false
+        actionDescription: changed === 0
           ? 'Kiểm tra sản phẩm: không có thay đổi'
-          : `Đồng bộ sản phẩm: ${data?.synced_count || 0} sản phẩm`,
+          : `Đồng bộ sản phẩm (${result.mode === 'full' ? 'toàn bộ' : 'thay đổi'}): ${summary}`,
         status: 'success',
         source: 'manual',
         startedAt: startTime,
         completedAt: new Date(),
         durationMs: Date.now() - startTime.getTime(),
         responseData: {
-          has_changes: data?.has_changes,
-          synced_count: data?.synced_count,
+          job_id: jobId,
+          mode: result.mode,
+          inserted: result.inserted,
+          updated: result.updated,
+          deleted: result.deleted,
+          history_logs: result.history_logs,
         },
       });
     } catch (err) {
@@ -327,6 +418,57 @@ export function ProductsPanel({ shopId, userId }: ProductsPanelProps) {
     }
   };
 
+  const changeSyncInterval = (value: string) => {
+    const minutes = value === 'off' ? null : Number(value);
+    updateSyncInterval.mutate(minutes, {
+      onError: (err) => toast({ title: 'Lỗi', description: (err as Error).message, variant: 'destructive' }),
+    });
+  };
+
+  // Sửa giá / tồn kho / trạng thái - trả về true nếu Shopee đã cập nhật
+  const runProductEdit = async (request: ProductEditRequest, modelNames?: Map<number, string>): Promise<boolean> => {
+    const label = describeEditRequest(request);
+    const startTime = new Date();
+    try {
+      const result = await productEdit.mutateAsync(request);
+      const errorMessage = result.error || (result.failures.length > 0 ? formatEditFailures(result.failures, modelNames) : null);
+
+      if (errorMessage) {
+        toast({ title: `${label} thất bại`, description: errorMessage, variant: 'destructive' });
+      } else {
+        toast({ title: `${label} thành công` });
+      }
+
+      logCompletedActivity({
+        userId,
+        shopId,
+        actionType: `product_${request.action.replace(/-/g, '_')}`,
+        actionCategory: 'products',
+        actionDescription: `${label}: #${request.item_id}`,
+        targetType: 'product',
+        targetId: String(request.item_id),
+        status: errorMessage && result.updated_count === 0 ? 'failed' : 'success',
+        source: 'manual',
+        startedAt: startTime,
+        completedAt: new Date(),
+        durationMs: Date.now() - startTime.getTime(),
+        requestData: request as unknown as Record<string, unknown>,
+        errorMessage: errorMessage || undefined,
+      });
+
+      return result.updated_count > 0;
+    } catch (err) {
+      toast({ title: `${label} thất bại`, description: (err as Error).message, variant: 'destructive' });
+      return false;
+    }
+  };
+
+  const toggleListing = async (product: DBProduct) => {
+    setTogglingItemId(product.item_id);
+    await runProductEdit({ action: 'unlist-item', item_id: product.item_id, unlist: product.item_status === 'NORMAL' });
+    setTogglingItemId(null);
+  };
+
   // Reset state khi shop thay đổi
   useEffect(() => {
     setExpandedItems(new Set());
@@ -446,21 +588,64 @@ export function ProductsPanel({ shopId, userId }: ProductsPanelProps) {
                 <span>Sync: {formatRelativeTime(syncStatus?.products_synced_at)}</span>
               </div>
 
+              {/* Bulk edit (CSV) */}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setBulkEditOpen(true)}
+                disabled={loading || products.length === 0 || !(canEditPrice || canEditStock)}
+                className="h-8 text-xs"
+                title="Sửa giá & tồn kho hàng loạt"
+              >
+                <FileSpreadsheet className="h-4 w-4 md:mr-1.5" />
+                <span className="hidden md:inline">Sửa hàng loạt</span>
+              </Button>
+
+              {/* Auto-sync interval */}
+              <Select
+                value={syncStatus?.products_sync_interval_minutes ? String(syncStatus.products_sync_interval_minutes) : 'off'}
+                onValueChange={changeSyncInterval}
+                disabled={updateSyncInterval.isPending}
+              >
+                <SelectTrigger className="hidden lg:flex h-8 w-28 text-xs" title="Chu kỳ tự đồng bộ">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRODUCT_SYNC_INTERVAL_OPTIONS.map(option => (
+                    <SelectItem key={option.label} value={option.value ? String(option.value) : 'off'} className="text-xs">
+                      {option.value ? `Tự động: ${option.label}` : 'Tự động: Tắt'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
               {/* Sync Button */}
               <Button
                 variant="outline"
                 size="sm"
                 onClick={syncProducts}
-                disabled={loading || syncing}
+                disabled={loading || syncActive}
                 className="h-8 text-xs"
               >
-                <RefreshCw className={cn("h-4 w-4 mr-1 md:mr-1.5", (loading || syncing) && "animate-spin")} />
-                <span className="hidden md:inline">{syncing ? 'Đang đồng bộ...' : 'Đồng bộ ngay'}</span>
+                <RefreshCw className={cn("h-4 w-4 mr-1 md:mr-1.5", (loading || syncActive) && "animate-spin")} />
+                <span className="hidden md:inline">{syncActive ? 'Đang đồng bộ...' : 'Đồng bộ ngay'}</span>
                 <span className="md:hidden">Sync</span>
               </Button>
             </div>
           </div>
 
+          {/* Sync progress (job product_sync đang chạy) / lỗi lần sync gần nhất */}
+          {syncProgress ? (
+            <div className="px-3 md:px-4 py-2 border-b bg-muted/40 flex items-center gap-3 text-xs text-muted-foreground">
+              <span className="flex-shrink-0">{syncProgress.label}</span>
+              <Progress value={syncProgress.percent ?? 0} className={cn("h-1.5", syncProgress.percent === null && "animate-pulse")} />
+            </div>
+          ) : syncStatus?.products_sync_error && (
+            <div className="px-3 md:px-4 py-2 border-b bg-red-50 text-xs text-red-600 truncate" title={syncStatus.products_sync_error}>
+              Đồng bộ lỗi: {syncStatus.products_sync_error}
+            </div>
+          )}
+
           {/* Mobile Search - Only visible on small screens */}
           <div className="md:hidden p-2 border-b bg-muted">
             <div className="relative">
@@ -496,17 +681,17 @@ export function ProductsPanel({ shopId, userId }: ProductsPanelProps) {
         {/* Scrollable Content Area */}
         <div className="flex-1 overflow-y-auto">
           {/* Loading */}
-          {(loading || syncing) && products.length === 0 && (
+          {(loading || syncActive) && products.length === 0 && (
             <div className="flex items-center justify-center py-12">
               <RefreshCw className="h-6 w-6 animate-spin text-brand" />
               <span className="ml-2 text-muted-foreground">
-                {syncing ? 'Đang đồng bộ từ Shopee...' : 'Đang tải...'}
+                {syncActive ? 'Đang đồng bộ từ Shopee...' : 'Đang tải...'}
               </span>
             </div>
           )}
 
           {/* Empty - chưa có data, cần sync */}
-          {!loading && !syncing && products.length === 0 && (
+          {!loading && !syncActive && products.length === 0 && (
             <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
               <Package className="h-12 w-12 mb-3" />
               <p className="mb-4">Chưa có dữ liệu sản phẩm</p>
@@ -524,6 +709,7 @@ export function ProductsPanel({ shopId, userId }: ProductsPanelProps) {
           const visibleModels = productModels.slice(0, isExpanded ? undefined : DEFAULT_VISIBLE_MODELS);
           const hasMoreModels = productModels.length > DEFAULT_VISIBLE_MODELS;
           const remainingModels = productModels.length - DEFAULT_VISIBLE_MODELS;
+          const modelNames = new Map(productModels.map(m => [m.model_id, m.model_name]));
 
           return (
             <div key={product.id} className="border-b last:border-b-0">
@@ -557,13 +743,46 @@ export function ProductsPanel({ shopId, userId }: ProductsPanelProps) {
                         {product.brand_name}
                       </div>
                     )}
-                    <div className="mt-1">
+                    <div className="mt-1 flex items-center gap-2">
                       <span className={cn(
                         "text-xs",
                         product.item_status === 'NORMAL' ? "text-success" : "text-muted-foreground"
                       )}>
                         {product.item_status === 'NORMAL' ? 'Hoạt động' : product.item_status}
                       </span>
+                      {canUnlist && (product.item_status === 'NORMAL' || product.item_status === 'UNLIST') && (
+                        <button
+                          type="button"
+                          onClick={() => toggleListing(product)}
+                          disabled={togglingItemId === product.item_id}
+                          className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-1 cursor-pointer disabled:opacity-50"
+                        >
+                          {togglingItemId === product.item_id ? (
+                            <RefreshCw className="h-3 w-3 animate-spin" />
+                          ) : product.item_status === 'NORMAL' ? (
+                            <EyeOff className="h-3 w-3" />
+                          ) : (
+                            <Eye className="h-3 w-3" />
+                          )}
+                          {product.item_status === 'NORMAL' ? 'Ẩn' : 'Hiển thị'}
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => setTimelineProduct(product)}
+                        className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-1 cursor-pointer"
+                      >
+                        <History className="h-3 w-3" />
+                        Lịch sử
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setContentProduct(product)}
+                        className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-1 cursor-pointer"
+                      >
+                        <FileText className="h-3 w-3" />
+                        Nội dung
+                      </button>
                     </div>
                   </div>
                 </div>
@@ -599,19 +818,41 @@ export function ProductsPanel({ shopId, userId }: ProductsPanelProps) {
                             </div>
                           </div>
                           <div className="col-span-2 text-right">
-                            <span className="text-sm font-medium text-brand">{formatPrice(model.current_price)}</span>
-                            {model.original_price > model.current_price && (
-                              <div className="text-xs text-muted-foreground line-through">{formatPrice(model.original_price)}</div>
-                            )}
+                            <EditableNumberCell
+                              value={model.original_price || model.current_price}
+                              parse={parsePriceInput}
+                              title="Sửa giá gốc"
+                              disabled={!canEditPrice}
+                              onSave={(price) => runProductEdit(
+                                { action: 'update-price', item_id: product.item_id, price_list: [{ model_id: model.model_id, original_price: price }] },
+                                modelNames
+                              )}
+                            >
+                              <span className="text-sm font-medium text-brand">{formatPrice(model.current_price)}</span>
+                              {model.original_price > model.current_price && (
+                                <div className="text-xs text-muted-foreground line-through">{formatPrice(model.original_price)}</div>
+                              )}
+                            </EditableNumberCell>
                           </div>
                           <div className="col-span-2 text-center">
-                            <span className={cn(
-                              "text-sm",
-                              model.total_available_stock === 0 ? "text-destructive" :
-                              model.total_available_stock <= 10 ? "text-warning" : "text-muted-foreground"
-                            )}>
-                              {model.total_available_stock}
-                            </span>
+                            <EditableNumberCell
+                              value={model.total_available_stock}
+                              parse={parseStockInput}
+                              title="Sửa tồn kho"
+                              disabled={!canEditStock}
+                              onSave={(stock) => runProductEdit(
+                                { action: 'update-stock', item_id: product.item_id, stock_list: [{ model_id: model.model_id, stock }] },
+                                modelNames
+                              )}
+                            >
+                              <span className={cn(
+                                "text-sm",
+                                model.total_available_stock === 0 ? "text-destructive" :
+                                model.total_available_stock <= 10 ? "text-warning" : "text-muted-foreground"
+                              )}>
+                                {model.total_available_stock}
+                              </span>
+                            </EditableNumberCell>
                           </div>
                         </div>
                       ))}
@@ -645,19 +886,35 @@ export function ProductsPanel({ shopId, userId }: ProductsPanelProps) {
                         )}
                       </div>
                       <div className="col-span-2 text-right">
-                        <span className="text-sm font-medium text-brand">{formatPrice(product.current_price)}</span>
-                        {product.original_price > product.current_price && (
-                          <div className="text-xs text-muted-foreground line-through">{formatPrice(product.original_price)}</div>
-                        )}
+                        <EditableNumberCell
+                          value={product.original_price || product.current_price}
+                          parse={parsePriceInput}
+                          title="Sửa giá gốc"
+                          disabled={!canEditPrice}
+                          onSave={(price) => runProductEdit({ action: 'update-price', item_id: product.item_id, price_list: [{ original_price: price }] })}
+                        >
+                          <span className="text-sm font-medium text-brand">{formatPrice(product.current_price)}</span>
+                          {product.original_price > product.current_price && (
+                            <div className="text-xs text-muted-foreground line-through">{formatPrice(product.original_price)}</div>
+                          )}
+                        </EditableNumberCell>
                       </div>
                       <div className="col-span-2 text-center">
-                        <span className={cn(
-                          "text-sm",
-                          product.total_available_stock === 0 ? "text-destructive" :
-                          product.total_available_stock <= 10 ? "text-warning" : "text-muted-foreground"
-                        )}>
-                          {product.total_available_stock}
-                        </span>
+                        <EditableNumberCell
+                          value={product.total_available_stock}
+                          parse={parseStockInput}
+                          title="Sửa tồn kho"
+                          disabled={!canEditStock}
+                          onSave={(stock) => runProductEdit({ action: 'update-stock', item_id: product.item_id, stock_list: [{ stock }] })}
+                        >
+                          <span className={cn(
+                            "text-sm",
+                            product.total_available_stock === 0 ? "text-destructive" :
+                            product.total_available_stock <= 10 ? "text-warning" : "text-muted-foreground"
+                          )}>
+                            {product.total_available_stock}
+                          </span>
+                        </EditableNumberCell>
                       </div>
                     </div>
                   )}
@@ -816,7 +1073,7 @@ export function ProductsPanel({ shopId, userId }: ProductsPanelProps) {
           {products.length > 0 && (
             <div className="px-3 md:px-4 py-2 md:py-3 border-t bg-muted flex items-center justify-between">
             <div className="text-xs md:text-sm text-muted-foreground">
-              {syncing && (
+              {syncActive && (
                 <span className="text-brand flex items-center gap-1 mr-2">
                   <RefreshCw className="h-3 w-3 animate-spin" />
                   <span className="hidden md:inline">Đang đồng bộ...</span>
@@ -901,6 +1158,36 @@ export function ProductsPanel({ shopId, userId }: ProductsPanelProps) {
           )}
         </div>
       </CardContent>
+
+      <ProductBulkEditDialog
+        open={bulkEditOpen}
+        onOpenChange={setBulkEditOpen}
+        shopId={shopId}
+        userId={userId}
+        products={products}
+        modelsByItem={modelsData}
+      />
+      {timelineProduct && (
+        <ProductTimelineDialog
+          key={timelineProduct.item_id}
+          open
+          onOpenChange={open => !open && setTimelineProduct(null)}
+          shopId={shopId}
+          itemId={timelineProduct.item_id}
+          itemName={timelineProduct.item_name}
+        />
+      )}
+      {contentProduct && (
+        <ProductContentDialog
+          key={contentProduct.item_id}
+          open
+          onOpenChange={open => !open && setContentProduct(null)}
+          shopId={shopId}
+          userId={userId}
+          itemId={contentProduct.item_id}
+          itemName={contentProduct.item_name}
+        />
+      )}
     </Card>
   );
 }
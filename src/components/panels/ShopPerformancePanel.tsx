@@ -3,10 +3,13 @@
  * Hiển thị Hiệu quả bán hàng từ v2.account_health.get_shop_performance
  * Tab 1: Tổng quan (overall rating + metric list theo category)
  * Tab 2: Chi tiết Metrics (affected orders/listings per metric)
+ * Nhóm Vi phạm Đăng bán kèm số case vi phạm sản phẩm chưa xác nhận (apishopee_violation_cases)
  */
 
-import { useEffect, useState } from 'react';
+import { useEffect, useState, type ReactNode } from 'react';
+import { Link } from 'react-router-dom';
 import { useShopPerformance } from '@/hooks/useShopPerformance';
+import { useViolationSummary } from '@/hooks/useViolationCases';
 import { useShopeeAuth } from '@/contexts/ShopeeAuthContext';
 import { usePermissionsContext } from '@/contexts/PermissionsContext';
 import { Progress } from '@/components/ui/progress';
@@ -17,8 +20,10 @@ import {
   BarChart3,
   ChevronDown,
   ChevronUp,
+  ShieldAlert,
 } from 'lucide-react';
 import type { ShopPerformanceMetricRow } from '@/lib/shopee/types';
+import { LISTING_VIOLATION_METRIC_IDS, type ViolationSummary } from '@/lib/shopee/violation-cases';
 
 // ─── Constants ──────────────────────────────────────────────────────────────
 
@@ -135,7 +140,12 @@ function MetricCard({ m }: { m: ShopPerformanceMetricRow }) {
 
 // ─── Category Section ────────────────────────────────────────────────────────
 
-function CategorySection({ title, metricType, metrics }: { title: string; metricType: number; metrics: ShopPerformanceMetricRow[] }) {
+function CategorySection({ title, metricType, metrics, children }: {
+  title: string;
+  metricType: number;
+  metrics: ShopPerformanceMetricRow[];
+  children?: ReactNode;
+}) {
   const [collapsed, setCollapsed] = useState(false);
   const categoryMetrics = metrics.filter(m => m.metric_type === metricType);
   if (!categoryMetrics.length) return null;
@@ -160,6 +170,7 @@ function CategorySection({ title, metricType, metrics }: { title: string; metric
         {collapsed ? <ChevronDown className="w-4 h-4 text-muted-foreground" /> : <ChevronUp className="w-4 h-4 text-muted-foreground" />}
       </button>
 
+      {!collapsed && children}
       {!collapsed && (
         <div className="p-3 grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-2.5">
           {categoryMetrics.map(m => <MetricCard key={m.id} m={m} />)}
@@ -169,17 +180,46 @@ function CategorySection({ title, metricType, metrics }: { title: string; metric
   );
 }
 
+// ─── Open Violations ─────────────────────────────────────────────────────────
+
+/** Case vi phạm chưa xác nhận - ảnh hưởng trực tiếp các metric 52-54 */
+function OpenViolationsBanner({ summary }: { summary: ViolationSummary | undefined }) {
+  if (!summary || summary.unresolved === 0) return null;
+  const metricNames = LISTING_VIOLATION_METRIC_IDS.map(id => getMetricLabel(id, null)).join(', ');
+
+  return (
+    <div className="mx-3 mt-3 p-3 rounded-lg border border-destructive/20 bg-destructive/10 flex items-start gap-3 text-sm">
+      <ShieldAlert className="w-4 h-4 mt-0.5 text-destructive flex-shrink-0" />
+      <div className="flex-1 space-y-0.5">
+        <p className="font-medium text-destructive">
+          {summary.unresolved} vi phạm sản phẩm chưa xác nhận
+          {summary.overdue > 0 && ` · ${summary.overdue} quá hạn`}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {summary.open} mới · {summary.in_progress} đang xử lý · {summary.fixed} chờ kiểm tra lại. Ảnh hưởng: {metricNames}
+        </p>
+      </div>
+      <Link to="/products?tab=violations" className="text-xs font-medium text-brand hover:underline flex-shrink-0">
+        Xử lý
+      </Link>
+    </div>
+  );
+}
+
 // ─── Tab 1: Overview ─────────────────────────────────────────────────────────
 
-function OverviewTab({ metrics }: {
+function OverviewTab({ metrics, violationSummary }: {
   metrics: ShopPerformanceMetricRow[];
+  violationSummary: ViolationSummary | undefined;
 }) {
   return (
     <div className="space-y-4">
 
       {/* Metric Categories */}
       <CategorySection title={METRIC_TYPE_LABELS[1]} metricType={1} metrics={metrics} />
-      <CategorySection title={METRIC_TYPE_LABELS[2]} metricType={2} metrics={metrics} />
+      <CategorySection title={METRIC_TYPE_LABELS[2]} metricType={2} metrics={metrics}>
+        <OpenViolationsBanner summary={violationSummary} />
+      </CategorySection>
       <CategorySection title={METRIC_TYPE_LABELS[3]} metricType={3} metrics={metrics} />
     </div>
   );
@@ -202,6 +242,7 @@ export function ShopPerformancePanel() {
     syncAllShops,
     loadLatestFromDB,
   } = useShopPerformance(shopId ?? 0);
+  const { data: violationSummary } = useViolationSummary(shopId);
 
   const shopIdNum = shopId ?? 0;
 
@@ -307,7 +348,7 @@ export function ShopPerformancePanel() {
       )}
 
       {hasSyncedData && !isLoading && (
-        <OverviewTab metrics={metrics} />
+        <OverviewTab metrics={metrics} violationSummary={violationSummary} />
       )}
     </div>
   );
@@ -0,0 +1,234 @@
+/**
+ * TeamOverviewPanel - Flash Sale đã lên lịch / thành công / lỗi theo từng thành viên trong nhóm
+ * và bàn giao toàn bộ shop của 1 thành viên cho người khác (leader / admin)
+ */
+
+import { useMemo, useState } from 'react';
+import { ArrowRightLeft, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Spinner } from '@/components/ui/spinner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useHandoverMemberShops, useTeamOverview } from '@/hooks/useTeam';
+import {
+  handoverCandidates,
+  memberLabel,
+  successRate,
+  summarizeTeam,
+  type TeamMemberOverview,
+} from '@/lib/team';
+import { cn } from '@/lib/utils';
+
+const PERIOD_OPTIONS = [
+  { value: '7', label: '7 ngày' },
+  { value: '30', label: '30 ngày' },
+  { value: '90', label: '90 ngày' },
+];
+
+interface HandoverForm {
+  from: TeamMemberOverview;
+  toId: string;
+  removeFrom: boolean;
+  reason: string;
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? '-' : `${rate}%`;
+}
+
+function formatLastRun(value: string | null): string {
+  if (!value) return '-';
+  return new Date(value).toLocaleString('vi-VN', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+}
+
+function StatCard({ label, value, className }: { label: string; value: string | number; className?: string }) {
+  return (
+    <div className="rounded-lg border bg-card px-4 py-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className={cn('text-2xl font-semibold text-foreground', className)}>{value}</p>
+    </div>
+  );
+}
+
+export function TeamOverviewPanel() {
+  const [days, setDays] = useState('7');
+  const { data: rows = [], isLoading } = useTeamOverview(Number(days));
+  const handover = useHandoverMemberShops();
+  const [form, setForm] = useState<HandoverForm | null>(null);
+
+  const totals = useMemo(() => summarizeTeam(rows), [rows]);
+  const candidates = useMemo(() => (form ? handoverCandidates(rows, form.from.profile_id) : []), [rows, form]);
+
+  const openHandover = (from: TeamMemberOverview) => {
+    const first = handoverCandidates(rows, from.profile_id)[0];
+    setForm({ from, toId: first?.profile_id ?? '', removeFrom: true, reason: '' });
+  };
+
+  const handleHandover = async () => {
+    if (!form?.toId) return;
+    try {
+      const result = await handover.mutateAsync({
+        fromProfileId: form.from.profile_id,
+        toProfileId: form.toId,
+        removeFrom: form.removeFrom,
+        reason: form.reason.trim() || null,
+      });
+      toast.success(
+        `Đã bàn giao ${result.shops} shop, ${result.jobs_reassigned} lịch Flash Sale, ${result.rules_reassigned} lịch định kỳ`
+      );
+      setForm(null);
+    } catch (error) {
+      toast.error((error as Error).message || 'Không thể bàn giao shop');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Spinner className="h-8 w-8" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <StatCard label="Thành viên" value={totals.members} />
+        <StatCard label="Shop" value={totals.shops} />
+        <StatCard label="Đang chờ chạy" value={totals.scheduled} />
+        <StatCard label="Thành công" value={totals.succeeded} className="text-success" />
+        <StatCard label="Lỗi" value={totals.failed} className={totals.failed > 0 ? 'text-destructive' : undefined} />
+      </div>
+
+      <div className="rounded-lg border bg-card">
+        <div className="flex flex-wrap items-center gap-2 px-3 md:px-4 py-3 border-b">
+          <h2 className="text-sm font-semibold">Flash Sale theo thành viên</h2>
+          <span className="text-xs text-muted-foreground">Tỉ lệ thành công nhóm: {formatRate(totals.successRate)}</span>
+          <div className="ml-auto">
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger className="h-8 w-28 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {PERIOD_OPTIONS.map(o => (
+                  <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {rows.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-sm text-muted-foreground">
+            <Users className="h-10 w-10 mb-3 text-muted-foreground/50" />
+            Chưa có thành viên nào trong nhóm
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Thành viên</TableHead>
+                <TableHead className="text-right">Shop</TableHead>
+                <TableHead className="text-right">Đang chờ</TableHead>
+                <TableHead className="text-right">Đang chạy</TableHead>
+                <TableHead className="text-right">Thành công</TableHead>
+                <TableHead className="text-right">Lỗi</TableHead>
+                <TableHead className="text-right">Tỉ lệ</TableHead>
+                <TableHead>Chạy gần nhất</TableHead>
+                <TableHead className="w-28" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.profile_id}>
+                  <TableCell>
+                    <div className="font-medium">
+                      {memberLabel(row)}
+                      {row.is_self && <span className="ml-1.5 text-xs text-muted-foreground">(bạn)</span>}
+                    </div>
+                    {row.full_name && row.email && <div className="text-xs text-muted-foreground">{row.email}</div>}
+                  </TableCell>
+                  <TableCell className="text-right">{row.shop_count}</TableCell>
+                  <TableCell className="text-right">{row.scheduled}</TableCell>
+                  <TableCell className="text-right">{row.processing}</TableCell>
+                  <TableCell className="text-right text-success">{row.succeeded}</TableCell>
+                  <TableCell className={cn('text-right', row.failed > 0 && 'text-destructive font-medium')}>{row.failed}</TableCell>
+                  <TableCell className="text-right">{formatRate(successRate(row.succeeded, row.failed))}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{formatLastRun(row.last_run_at)}</TableCell>
+                  <TableCell className="text-right">
+                    {!row.is_self && row.shop_count > 0 && (
+                      <Button variant="outline" size="sm" className="h-7 text-xs cursor-pointer" onClick={() => openHandover(row)}>
+                        <ArrowRightLeft className="h-3.5 w-3.5 mr-1" />
+                        Bàn giao
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <Dialog open={!!form} onOpenChange={open => !open && setForm(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Bàn giao shop của {form && memberLabel(form.from)}</DialogTitle>
+            <DialogDescription>
+              Người nhận được thêm vào {form?.from.shop_count} shop; lịch Flash Sale đang chờ và lịch định kỳ của các shop này chuyển sang người nhận.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Người nhận</Label>
+                <Select value={form.toId} onValueChange={toId => setForm({ ...form, toId })}>
+                  <SelectTrigger><SelectValue placeholder="Chọn người nhận" /></SelectTrigger>
+                  <SelectContent>
+                    {candidates.map(c => (
+                      <SelectItem key={c.profile_id} value={c.profile_id}>
+                        {memberLabel(c)}{c.is_self ? ' (bạn)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={form.removeFrom}
+                  onCheckedChange={checked => setForm({ ...form, removeFrom: checked === true })}
+                />
+                Gỡ {memberLabel(form.from)} khỏi các shop sau khi bàn giao
+              </label>
+              <div className="space-y-2">
+                <Label htmlFor="handover-reason">Lý do</Label>
+                <Input
+                  id="handover-reason"
+                  value={form.reason}
+                  onChange={e => setForm({ ...form, reason: e.target.value })}
+                  placeholder="VD: Nghỉ việc (ghi vào nhật ký thay đổi)"
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Hủy</Button>
+            <Button onClick={handleHandover} disabled={!form?.toId || handover.isPending}>
+              {handover.isPending ? 'Đang bàn giao...' : 'Bàn giao'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
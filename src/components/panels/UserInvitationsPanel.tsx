@@ -0,0 +1,669 @@
+/**
+ * UserInvitationsPanel - Lời mời người dùng (admin): mời 1 người hoặc hàng loạt từ CSV,
+ * theo dõi trạng thái (đang chờ / đã chấp nhận / hết hạn / đã thu hồi), gửi lại và thu hồi
+ */
+
+import { useMemo, useRef, useState } from 'react';
+import {
+  AlertCircle, Ban, CheckCircle2, Download, FileSpreadsheet, Mail, MinusCircle, Search, Send, Upload, UserPlus,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Spinner } from '@/components/ui/spinner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  useResendInvitation,
+  useRevokeInvitation,
+  useSendInvitations,
+  useUserInvitations,
+  type InviteResult,
+} from '@/hooks/useUserInvitations';
+import { CSV_MIME, downloadFile, readSpreadsheetFile, toCsv } from '@/lib/spreadsheet';
+import {
+  canResendInvitation,
+  effectiveInvitationStatus,
+  INVITATION_STATUS_LABELS,
+  INVITATION_TTL_DAYS,
+  invitationTemplateSheet,
+  isValidEmail,
+  MAX_INVITATIONS_PER_REQUEST,
+  parseInvitationSheet,
+  type InvitationImportError,
+  type InvitationImportRow,
+  type InvitationStatus,
+  type InvitationSystemRole,
+  type UserInvitation,
+} from '@/lib/user-invitations';
+import { cn } from '@/lib/utils';
+
+interface InvitationShop {
+  id: string;
+  shop_id: number;
+  shop_name: string | null;
+}
+
+interface InvitationLeader {
+  id: string;
+  email: string;
+  full_name: string | null;
+}
+
+interface UserInvitationsPanelProps {
+  shops: InvitationShop[];
+  leaders: InvitationLeader[];
+  customRoles: Array<{ id: string; name: string }>;
+  /** Phòng ban người được mời được thêm vào khi chấp nhận */
+  departmentId: string;
+}
+
+interface InviteForm {
+  email: string;
+  fullName: string;
+  phone: string;
+  systemRole: InvitationSystemRole;
+  customRoleId: string;
+  managerId: string;
+  shopIds: string[];
+}
+
+const EMPTY_FORM: InviteForm = {
+  email: '',
+  fullName: '',
+  phone: '',
+  systemRole: 'user',
+  customRoleId: 'none',
+  managerId: 'none',
+  shopIds: [],
+};
+
+const STATUS_COLORS: Record<InvitationStatus, string> = {
+  pending: 'bg-warning/10 text-warning border-warning',
+  accepted: 'bg-success/10 text-success border-success',
+  expired: 'bg-muted text-muted-foreground border-border',
+  revoked: 'bg-destructive/10 text-destructive border-destructive',
+};
+
+const RESULT_ICONS: Record<InviteResult['status'], typeof CheckCircle2> = {
+  sent: CheckCircle2,
+  skipped: MinusCircle,
+  failed: AlertCircle,
+};
+
+function formatDate(value: string | null): string {
+  if (!value) return '-';
+  return new Date(value).toLocaleString('vi-VN', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+function resultToast(results: InviteResult[]) {
+  const sent = results.filter(r => r.status === 'sent').length;
+  const skipped = results.filter(r => r.status === 'skipped').length;
+  const failed = results.filter(r => r.status === 'failed').length;
+  if (results.length === 1) {
+    const [result] = results;
+    if (result.status === 'sent') toast.success(`Đã gửi lời mời tới ${result.email}`);
+    else toast.error(result.message || 'Không thể gửi lời mời');
+    return;
+  }
+  const summary = `${sent} đã gửi · ${skipped} bỏ qua · ${failed} lỗi`;
+  if (failed > 0 || sent === 0) toast.warning(summary);
+  else toast.success(summary);
+}
+
+export function UserInvitationsPanel({ shops, leaders, customRoles, departmentId }: UserInvitationsPanelProps) {
+  const { data: invitations = [], isLoading } = useUserInvitations();
+  const sendInvitations = useSendInvitations();
+  const resendInvitation = useResendInvitation();
+  const revokeInvitation = useRevokeInvitation();
+
+  const [statusFilter, setStatusFilter] = useState<'all' | InvitationStatus>('all');
+  const [search, setSearch] = useState('');
+
+  // Invite dialog
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [form, setForm] = useState<InviteForm>(EMPTY_FORM);
+  const [shopSearch, setShopSearch] = useState('');
+
+  // CSV dialog
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [csvOpen, setCsvOpen] = useState(false);
+  const [csvFileName, setCsvFileName] = useState<string | null>(null);
+  const [csvRows, setCsvRows] = useState<InvitationImportRow[]>([]);
+  const [csvErrors, setCsvErrors] = useState<InvitationImportError[]>([]);
+  const [csvResults, setCsvResults] = useState<InviteResult[] | null>(null);
+
+  // Revoke dialog
+  const [revoking, setRevoking] = useState<UserInvitation | null>(null);
+  const [revokeReason, setRevokeReason] = useState('');
+
+  const roleNames = useMemo(() => new Map(customRoles.map(r => [r.id, r.name])), [customRoles]);
+  const leaderNames = useMemo(() => new Map(leaders.map(l => [l.id, l.full_name || l.email])), [leaders]);
+
+  const rows = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return invitations
+      .map(inv => ({ ...inv, effectiveStatus: effectiveInvitationStatus(inv) }))
+      .filter(inv => statusFilter === 'all' || inv.effectiveStatus === statusFilter)
+      .filter(inv => !q || inv.email.includes(q) || inv.full_name?.toLowerCase().includes(q));
+  }, [invitations, statusFilter, search]);
+
+  const filteredShops = useMemo(() => {
+    const q = shopSearch.trim().toLowerCase();
+    return shops.filter(s => !q || s.shop_name?.toLowerCase().includes(q) || s.shop_id.toString().includes(q));
+  }, [shops, shopSearch]);
+
+  const openInvite = () => {
+    setForm(EMPTY_FORM);
+    setShopSearch('');
+    setInviteOpen(true);
+  };
+
+  const toggleShop = (shopId: string) => {
+    setForm(prev => ({
+      ...prev,
+      shopIds: prev.shopIds.includes(shopId) ? prev.shopIds.filter(id => id !== shopId) : [...prev.shopIds, shopId],
+    }));
+  };
+
+  const handleInvite = async () => {
+    if (!isValidEmail(form.email)) {
+      toast.error('Email không hợp lệ');
+      return;
+    }
+    const isAdminRole = form.systemRole === 'admin';
+    try {
+      const results = await sendInvitations.mutateAsync({
+        departmentId,
+        invitations: [{
+          email: form.email,
+          full_name: form.fullName.trim() || null,
+          phone: form.phone.trim() || null,
+          system_role: form.systemRole,
+          custom_role_id: isAdminRole || form.customRoleId === 'none' ? null : form.customRoleId,
+          shop_ids: isAdminRole ? [] : form.shopIds,
+          manager_id: isAdminRole || form.managerId === 'none' ? null : form.managerId,
+        }],
+      });
+      resultToast(results);
+      if (results[0]?.status === 'sent') setInviteOpen(false);
+    } catch (error) {
+      toast.error((error as Error).message || 'Không thể gửi lời mời');
+    }
+  };
+
+  const resetCsv = () => {
+    setCsvFileName(null);
+    setCsvRows([]);
+    setCsvErrors([]);
+    setCsvResults(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleCsvFile = async (file: File | undefined) => {
+    if (!file) return;
+    resetCsv();
+    try {
+      const { rows: parsed, errors } = parseInvitationSheet(await readSpreadsheetFile(file), { shops, customRoles, leaders });
+      setCsvFileName(file.name);
+      setCsvRows(parsed);
+      setCsvErrors(parsed.length > MAX_INVITATIONS_PER_REQUEST
+        ? [...errors, { line: 1, message: `Tối đa ${MAX_INVITATIONS_PER_REQUEST} lời mời mỗi lần` }]
+        : errors);
+    } catch (err) {
+      toast.error(`Không đọc được file: ${(err as Error).message}`);
+    }
+  };
+
+  const handleCsvSend = async () => {
+    try {
+      const results = await sendInvitations.mutateAsync({
+        departmentId,
+        invitations: csvRows.map(({ line: _line, ...input }) => input),
+      });
+      setCsvResults(results);
+      resultToast(results);
+    } catch (error) {
+      toast.error((error as Error).message || 'Không thể gửi lời mời');
+    }
+  };
+
+  const handleResend = async (invitation: UserInvitation) => {
+    try {
+      const result = await resendInvitation.mutateAsync(invitation.id);
+      resultToast([result]);
+    } catch (error) {
+      toast.error((error as Error).message || 'Không thể gửi lại lời mời');
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revoking) return;
+    try {
+      await revokeInvitation.mutateAsync({ id: revoking.id, reason: revokeReason.trim() || null });
+      toast.success(`Đã thu hồi lời mời ${revoking.email}`);
+      setRevoking(null);
+    } catch (error) {
+      toast.error((error as Error).message || 'Không thể thu hồi lời mời');
+    }
+  };
+
+  return (
+    <div className="mt-4 pb-4 space-y-4">
+      <div className="flex flex-col sm:flex-row gap-3 items-start sm:items-center">
+        <div className="relative flex-1 w-full sm:max-w-xs">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Tìm theo email hoặc tên..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9 h-9"
+          />
+        </div>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as 'all' | InvitationStatus)}>
+          <SelectTrigger className="w-full sm:w-[160px] h-9 cursor-pointer"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Tất cả trạng thái</SelectItem>
+            {Object.entries(INVITATION_STATUS_LABELS).map(([key, label]) => (
+              <SelectItem key={key} value={key}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2 sm:ml-auto">
+          <Button variant="outline" size="sm" className="h-9 cursor-pointer" onClick={() => { resetCsv(); setCsvOpen(true); }}>
+            <FileSpreadsheet className="w-4 h-4 mr-1.5" />
+            Mời từ CSV
+          </Button>
+          <Button size="sm" className="h-9 bg-brand hover:bg-brand/90 text-white cursor-pointer" onClick={openInvite}>
+            <UserPlus className="w-4 h-4 mr-1.5" />
+            Mời người dùng
+          </Button>
+        </div>
+      </div>
+
+      <div className="border rounded-lg overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner className="h-8 w-8" />
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-sm text-muted-foreground">
+            <Mail className="h-10 w-10 mb-3 text-muted-foreground/50" />
+            {invitations.length === 0 ? 'Chưa có lời mời nào' : 'Không có lời mời phù hợp'}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Người được mời</TableHead>
+                <TableHead>Vai trò</TableHead>
+                <TableHead className="text-right">Shop</TableHead>
+                <TableHead>Trạng thái</TableHead>
+                <TableHead>Gửi lần cuối</TableHead>
+                <TableHead>Hết hạn / Chấp nhận</TableHead>
+                <TableHead className="w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(inv => (
+                <TableRow key={inv.id}>
+                  <TableCell>
+                    <div className="font-medium">{inv.full_name || inv.email}</div>
+                    {inv.full_name && <div className="text-xs text-muted-foreground">{inv.email}</div>}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {inv.system_role === 'admin' ? 'Quản trị viên' : (inv.custom_role_id && roleNames.get(inv.custom_role_id)) || 'Người dùng'}
+                    {inv.manager_id && leaderNames.has(inv.manager_id) && (
+                      <div className="text-xs text-muted-foreground">Leader: {leaderNames.get(inv.manager_id)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{inv.shop_ids.length}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={cn('text-xs', STATUS_COLORS[inv.effectiveStatus])}>
+                      {INVITATION_STATUS_LABELS[inv.effectiveStatus]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {formatDate(inv.last_sent_at)}
+                    {inv.send_count > 1 && <span className="ml-1">({inv.send_count} lần)</span>}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {inv.effectiveStatus === 'accepted' ? formatDate(inv.accepted_at)
+                      : inv.effectiveStatus === 'revoked' ? formatDate(inv.revoked_at)
+                      : formatDate(inv.expires_at)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex items-center justify-end gap-1">
+                      {canResendInvitation(inv) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-info hover:text-info hover:bg-accent h-7 w-7 p-0"
+                          onClick={() => handleResend(inv)}
+                          disabled={resendInvitation.isPending}
+                          title="Gửi lại lời mời"
+                        >
+                          <Send className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {canResendInvitation(inv) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive hover:text-destructive hover:bg-destructive/10 h-7 w-7 p-0"
+                          onClick={() => { setRevoking(inv); setRevokeReason(''); }}
+                          title="Thu hồi lời mời"
+                        >
+                          <Ban className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      {/* Invite dialog */}
+      <Dialog open={inviteOpen} onOpenChange={setInviteOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <UserPlus className="w-5 h-5 text-brand" />
+              Mời người dùng
+            </DialogTitle>
+            <DialogDescription>
+              Người được mời tự đặt mật khẩu qua link trong email (hiệu lực {INVITATION_TTL_DAYS} ngày); vai trò và shop được áp dụng khi chấp nhận.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">Email <span className="text-destructive">*</span></Label>
+              <Input
+                id="invite-email"
+                type="email"
+                placeholder="user@example.com"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="invite-name">Họ và tên</Label>
+                <Input
+                  id="invite-name"
+                  placeholder="Nguyễn Văn A"
+                  value={form.fullName}
+                  onChange={(e) => setForm({ ...form, fullName: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invite-phone">Số điện thoại</Label>
+                <Input
+                  id="invite-phone"
+                  placeholder="0901234567"
+                  value={form.phone}
+                  onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Vai trò</Label>
+                <Select
+                  value={form.systemRole}
+                  onValueChange={(value) => setForm({ ...form, systemRole: value as InvitationSystemRole })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="user">Người dùng</SelectItem>
+                    <SelectItem value="admin">Quản trị viên</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Vai trò tùy chỉnh</Label>
+                <Select
+                  value={form.customRoleId}
+                  onValueChange={(customRoleId) => setForm({ ...form, customRoleId })}
+                  disabled={form.systemRole === 'admin'}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Mặc định theo chức vụ</SelectItem>
+                    {customRoles.map(role => (
+                      <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {form.systemRole !== 'admin' && (
+              <>
+                <div className="space-y-2">
+                  <Label>Leader</Label>
+                  <Select value={form.managerId} onValueChange={(managerId) => setForm({ ...form, managerId })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Không có</SelectItem>
+                      {leaders.map(leader => (
+                        <SelectItem key={leader.id} value={leader.id}>{leader.full_name || leader.email}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Shop ({form.shopIds.length} đã chọn)</Label>
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      placeholder="Tìm shop..."
+                      value={shopSearch}
+                      onChange={(e) => setShopSearch(e.target.value)}
+                      className="pl-9 h-9"
+                    />
+                  </div>
+                  <ScrollArea className="h-40 border rounded-md">
+                    <div className="p-1">
+                      {filteredShops.map(shop => (
+                        <label
+                          key={shop.id}
+                          className="flex items-center gap-2 px-2 py-1.5 text-sm rounded hover:bg-accent cursor-pointer"
+                        >
+                          <Checkbox
+                            checked={form.shopIds.includes(shop.id)}
+                            onCheckedChange={() => toggleShop(shop.id)}
+                          />
+                          <span className="truncate">{shop.shop_name || `Shop ${shop.shop_id}`}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </div>
+              </>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setInviteOpen(false)} disabled={sendInvitations.isPending}>Hủy</Button>
+            <Button
+              onClick={handleInvite}
+              disabled={!form.email.trim() || sendInvitations.isPending}
+              className="bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 cursor-pointer"
+            >
+              <Send className="w-4 h-4 mr-2" />
+              {sendInvitations.isPending ? 'Đang gửi...' : 'Gửi lời mời'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* CSV dialog */}
+      <Dialog open={csvOpen} onOpenChange={(open) => !sendInvitations.isPending && setCsvOpen(open)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FileSpreadsheet className="w-5 h-5 text-brand" />
+              Mời người dùng từ CSV
+            </DialogTitle>
+            <DialogDescription>
+              Cột: email (bắt buộc), full_name, phone, role (admin / user), custom_role (tên), shops (shop_id hoặc tên, cách nhau bởi ";"), leader_email.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="cursor-pointer"
+                onClick={() => downloadFile(toCsv(invitationTemplateSheet()), 'user_invitations_template.csv', CSV_MIME)}
+              >
+                <Download className="w-4 h-4 mr-1.5" />
+                File mẫu
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="cursor-pointer"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={sendInvitations.isPending}
+              >
+                <Upload className="w-4 h-4 mr-1.5" />
+                Chọn file
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv"
+                className="hidden"
+                onChange={(e) => handleCsvFile(e.target.files?.[0])}
+              />
+              {csvFileName && (
+                <span className="text-sm text-muted-foreground">
+                  {csvFileName}: {csvRows.length} lời mời hợp lệ{csvErrors.length > 0 && `, ${csvErrors.length} dòng lỗi`}
+                </span>
+              )}
+            </div>
+
+            {csvErrors.length > 0 && (
+              <ScrollArea className="max-h-32 border border-destructive/40 rounded-md">
+                <ul className="p-2 space-y-1 text-xs text-destructive">
+                  {csvErrors.map((err, i) => (
+                    <li key={i}>Dòng {err.line}: {err.message}</li>
+                  ))}
+                </ul>
+              </ScrollArea>
+            )}
+
+            {csvRows.length > 0 && (
+              <ScrollArea className="h-56 border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Vai trò</TableHead>
+                      <TableHead className="text-right">Shop</TableHead>
+                      <TableHead>Kết quả</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {csvRows.map(row => {
+                      const result = csvResults?.find(r => r.email === row.email);
+                      const ResultIcon = result ? RESULT_ICONS[result.status] : null;
+                      return (
+                        <TableRow key={row.line}>
+                          <TableCell className="text-sm">
+                            {row.email}
+                            {row.full_name && <div className="text-xs text-muted-foreground">{row.full_name}</div>}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {row.system_role === 'admin' ? 'Quản trị viên' : (row.custom_role_id && roleNames.get(row.custom_role_id)) || 'Người dùng'}
+                          </TableCell>
+                          <TableCell className="text-right">{row.shop_ids.length}</TableCell>
+                          <TableCell className="text-xs">
+                            {result && ResultIcon && (
+                              <span className={cn(
+                                'inline-flex items-center gap-1',
+                                result.status === 'sent' && 'text-success',
+                                result.status === 'skipped' && 'text-muted-foreground',
+                                result.status === 'failed' && 'text-destructive'
+                              )}>
+                                <ResultIcon className="w-3.5 h-3.5" />
+                                {result.status === 'sent' ? 'Đã gửi' : result.message}
+                              </span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCsvOpen(false)} disabled={sendInvitations.isPending}>Đóng</Button>
+            <Button
+              onClick={handleCsvSend}
+              disabled={
+                csvRows.length === 0
+                || csvRows.length > MAX_INVITATIONS_PER_REQUEST
+                || csvResults !== null
+                || sendInvitations.isPending
+              }
+              className="bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 cursor-pointer"
+            >
+              <Send className="w-4 h-4 mr-2" />
+              {sendInvitations.isPending ? 'Đang gửi...' : `Gửi ${csvRows.length} lời mời`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Revoke dialog */}
+      <Dialog open={!!revoking} onOpenChange={(open) => !open && setRevoking(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Thu hồi lời mời {revoking?.email}</DialogTitle>
+            <DialogDescription>
+              Link trong email không dùng được nữa. Có thể mời lại email này sau.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="revoke-reason">Lý do</Label>
+            <Input
+              id="revoke-reason"
+              value={revokeReason}
+              onChange={(e) => setRevokeReason(e.target.value)}
+              placeholder="VD: Mời nhầm email (ghi vào nhật ký thay đổi)"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevoking(null)}>Hủy</Button>
+            <Button variant="destructive" onClick={handleRevoke} disabled={revokeInvitation.isPending}>
+              {revokeInvitation.isPending ? 'Đang thu hồi...' : 'Thu hồi'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
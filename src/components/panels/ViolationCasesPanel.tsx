@@ -0,0 +1,283 @@
+/**
+ * ViolationCasesPanel - Theo dõi xử lý sản phẩm vi phạm (violation_item_push):
+ * giao người xử lý, hạn xử lý, chuyển trạng thái open → in_progress → fixed và
+ * kiểm tra lại trên Shopee để xác nhận (verified)
+ */
+
+import { useMemo, useState } from 'react';
+import { AlertTriangle, CalendarClock, CheckCircle2, RefreshCw, ShieldAlert } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Spinner } from '@/components/ui/spinner';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useShopMemberOptions,
+  useUpdateViolationCase,
+  useVerifyViolationCase,
+  useViolationCases,
+  type ViolationCase,
+  type ViolationCasePatch,
+} from '@/hooks/useViolationCases';
+import {
+  isOverdue,
+  nextManualStatuses,
+  summarizeViolationCases,
+  VIOLATION_STATUS_LABELS,
+  type ViolationStatus,
+} from '@/lib/shopee/violation-cases';
+import { cn } from '@/lib/utils';
+
+interface ViolationCasesPanelProps {
+  shopId: number;
+  userId: string;
+}
+
+type StatusFilter = 'unresolved' | ViolationStatus;
+
+const UNASSIGNED = '__none__';
+
+const STATUS_STYLES: Record<ViolationStatus, string> = {
+  open: 'bg-red-100 text-red-700 border-red-200',
+  in_progress: 'bg-amber-100 text-amber-700 border-amber-200',
+  fixed: 'bg-blue-100 text-blue-700 border-blue-200',
+  verified: 'bg-green-100 text-green-700 border-green-200',
+};
+
+const TRANSITION_LABELS: Record<ViolationStatus, string> = {
+  open: 'Mở lại',
+  in_progress: 'Bắt đầu xử lý',
+  fixed: 'Đã sửa',
+  verified: 'Xác nhận',
+};
+
+function formatDateTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString('vi-VN', { dateStyle: 'short', timeStyle: 'short' }) : '—';
+}
+
+/** yyyy-mm-dd theo giờ máy cho input type="date" */
+function toDateInput(value: string | null): string {
+  if (!value) return '';
+  const date = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function CaseRow({
+  violation,
+  now,
+  members,
+  busy,
+  onUpdate,
+  onVerify,
+}: {
+  violation: ViolationCase;
+  now: Date;
+  members: Array<{ id: string; name: string }>;
+  busy: boolean;
+  onUpdate: (violation: ViolationCase, patch: ViolationCasePatch) => void;
+  onVerify: (violation: ViolationCase) => void;
+}) {
+  const overdue = isOverdue(violation, now);
+  const resolved = violation.status === 'verified';
+
+  return (
+    <div className={cn('px-4 py-3 space-y-2', overdue && 'bg-red-50/60')}>
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div className="min-w-0 space-y-0.5">
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className={cn('text-[11px]', STATUS_STYLES[violation.status])}>
+              {VIOLATION_STATUS_LABELS[violation.status]}
+            </Badge>
+            <span className="text-sm font-medium line-clamp-1">{violation.item_name || `Sản phẩm ${violation.item_id}`}</span>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            ID {violation.item_id} · {violation.violation_type}
+            {violation.report_count > 1 && <span> · báo {violation.report_count} lần</span>}
+            {' '}· lần cuối {formatDateTime(violation.last_reported_at)}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1.5">
+          {!resolved && nextManualStatuses(violation.status).map(status => (
+            <Button
+              key={status}
+              variant={status === 'fixed' ? 'default' : 'outline'}
+              size="sm"
+              className="h-7 text-xs"
+              disabled={busy}
+              onClick={() => onUpdate(violation, { status })}
+            >
+              {TRANSITION_LABELS[status]}
+            </Button>
+          ))}
+          {!resolved && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              disabled={busy}
+              onClick={() => onVerify(violation)}
+              title="Đọc lại trạng thái sản phẩm trên Shopee"
+            >
+              <RefreshCw className="h-3.5 w-3.5 mr-1" />
+              Kiểm tra lại
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {(violation.violation_reason || violation.suggestion) && (
+        <div className="text-xs space-y-0.5">
+          {violation.violation_reason && <p><span className="text-muted-foreground">Lý do:</span> {violation.violation_reason}</p>}
+          {violation.suggestion && <p><span className="text-muted-foreground">Gợi ý:</span> {violation.suggestion}</p>}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <Select
+          value={violation.assignee_id ?? UNASSIGNED}
+          onValueChange={v => onUpdate(violation, { assignee_id: v === UNASSIGNED ? null : v })}
+          disabled={busy || resolved}
+        >
+          <SelectTrigger className="h-7 w-44 text-xs"><SelectValue placeholder="Người xử lý" /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNASSIGNED} className="text-xs">Chưa giao</SelectItem>
+            {members.map(m => <SelectItem key={m.id} value={m.id} className="text-xs">{m.name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-1">
+          <CalendarClock className={cn('h-3.5 w-3.5', overdue ? 'text-red-600' : 'text-muted-foreground')} />
+          <Input
+            type="date"
+            value={toDateInput(violation.due_at)}
+            onChange={e => onUpdate(violation, {
+              due_at: e.target.value ? new Date(`${e.target.value}T23:59:59`).toISOString() : null,
+            })}
+            disabled={busy || resolved}
+            className={cn('h-7 w-36 text-xs', overdue && 'border-red-300 text-red-600')}
+          />
+          {overdue && <span className="text-red-600 font-medium">Quá hạn</span>}
+        </div>
+
+        {violation.last_check_at && (
+          <span className="text-muted-foreground">
+            Kiểm tra {formatDateTime(violation.last_check_at)}: {violation.last_check_message}
+            {violation.last_check_item_status && ` (${violation.last_check_item_status})`}
+          </span>
+        )}
+        {resolved && (
+          <span className="flex items-center gap-1 text-green-700">
+            <CheckCircle2 className="h-3.5 w-3.5" />
+            Xác nhận {formatDateTime(violation.verified_at)}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function ViolationCasesPanel({ shopId, userId }: ViolationCasesPanelProps) {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('unresolved');
+  const [mineOnly, setMineOnly] = useState(false);
+
+  const includeVerified = statusFilter === 'verified';
+  const { data: cases = [], isLoading, dataUpdatedAt } = useViolationCases(shopId, includeVerified);
+  const { data: members = [] } = useShopMemberOptions(shopId);
+  const updateCase = useUpdateViolationCase(shopId, userId);
+  const verifyCase = useVerifyViolationCase(shopId, userId);
+  const busy = updateCase.isPending || verifyCase.isPending;
+
+  // Mốc "bây giờ" theo lần tải gần nhất để tính quá hạn
+  const now = useMemo(() => new Date(dataUpdatedAt), [dataUpdatedAt]);
+  const summary = useMemo(() => summarizeViolationCases(cases, now), [cases, now]);
+
+  const visible = cases.filter(c => {
+    if (statusFilter === 'unresolved' ? c.status === 'verified' : c.status !== statusFilter) return false;
+    return !mineOnly || c.assignee_id === userId;
+  });
+
+  const handleUpdate = async (violation: ViolationCase, patch: ViolationCasePatch) => {
+    try {
+      await updateCase.mutateAsync({ current: violation, patch });
+    } catch (err) {
+      toast({ title: 'Lỗi', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleVerify = async (violation: ViolationCase) => {
+    try {
+      const result = await verifyCase.mutateAsync(violation.id);
+      toast({
+        title: result.outcome === 'verified' ? 'Đã xác nhận hết vi phạm' : 'Chưa xác nhận được',
+        description: result.message,
+        variant: result.outcome === 'failed' ? 'destructive' : undefined,
+      });
+    } catch (err) {
+      toast({ title: 'Lỗi', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-card">
+      <div className="flex flex-wrap items-center gap-2 px-3 md:px-4 py-2 border-b">
+        <div className="flex flex-wrap items-center gap-1.5">
+          <Badge variant="outline" className={STATUS_STYLES.open}>{summary.open} mới</Badge>
+          <Badge variant="outline" className={STATUS_STYLES.in_progress}>{summary.in_progress} đang xử lý</Badge>
+          <Badge variant="outline" className={STATUS_STYLES.fixed}>{summary.fixed} chờ xác nhận</Badge>
+          {summary.overdue > 0 && (
+            <Badge variant="destructive" className="gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              {summary.overdue} quá hạn
+            </Badge>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3 ml-auto">
+          <label className="flex items-center gap-1.5 text-xs cursor-pointer">
+            <Checkbox checked={mineOnly} onCheckedChange={checked => setMineOnly(!!checked)} />
+            Việc của tôi
+          </label>
+          <Select value={statusFilter} onValueChange={v => setStatusFilter(v as StatusFilter)}>
+            <SelectTrigger className="h-8 w-40 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unresolved" className="text-xs">Chưa xác nhận</SelectItem>
+              {(Object.keys(VIOLATION_STATUS_LABELS) as ViolationStatus[]).map(status => (
+                <SelectItem key={status} value={status} className="text-xs">{VIOLATION_STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto divide-y">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner className="h-8 w-8" />
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-sm text-muted-foreground">
+            <ShieldAlert className="h-10 w-10 mb-3 text-muted-foreground/50" />
+            Không có vi phạm nào
+          </div>
+        ) : (
+          visible.map(violation => (
+            <CaseRow
+              key={violation.id}
+              violation={violation}
+              now={now}
+              members={members}
+              busy={busy}
+              onUpdate={handleUpdate}
+              onVerify={handleVerify}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -253,6 +253,79 @@ export function ApiAnalyticsTab() {
         </Card>
       )}
 
+      {/* Adaptive limiter state — learned limits + recent throttle events */}
+      {rateData && (rateData.current_limits?.length > 0 || rateData.throttle_events?.length > 0) && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Adaptive Rate Limits</CardTitle>
+            <p className="text-xs text-muted-foreground mt-1">
+              Giới hạn đã học theo partner app + API path (dùng chung worker & edge functions)
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {rateData.current_limits?.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="pb-2 pr-3">Partner</th>
+                      <th className="pb-2 pr-3">Path</th>
+                      <th className="pb-2 pr-3">Rate</th>
+                      <th className="pb-2 pr-3">Backoff</th>
+                      <th className="pb-2">Last throttle</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rateData.current_limits.map((l) => (
+                      <tr key={`${l.partner_id}-${l.api_path}`} className="border-b last:border-0">
+                        <td className="py-2 pr-3 font-mono text-xs">{l.partner_id}</td>
+                        <td className="py-2 pr-3 font-mono text-xs">{l.api_path}</td>
+                        <td className="py-2 pr-3">{Number(l.rate_per_sec).toFixed(2)}/s</td>
+                        <td className="py-2 pr-3">
+                          {l.backoff_until
+                            ? <Badge variant="destructive">until {formatTime(l.backoff_until)}</Badge>
+                            : <span className="text-muted-foreground">-</span>}
+                        </td>
+                        <td className="py-2 font-mono text-xs">{l.last_throttle_at ? formatDateTime(l.last_throttle_at) : '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {rateData.throttle_events?.length > 0 && (
+              <div className="overflow-x-auto">
+                <div className="mb-2 text-sm font-medium">Throttle events ({rateData.throttle_events.length})</div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="pb-2 pr-3">Time</th>
+                      <th className="pb-2 pr-3">Source</th>
+                      <th className="pb-2 pr-3">Path</th>
+                      <th className="pb-2 pr-3">Error</th>
+                      <th className="pb-2 pr-3">Backoff</th>
+                      <th className="pb-2">Rate after</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rateData.throttle_events.slice(0, 20).map((e, idx) => (
+                      <tr key={`${e.created_at}-${idx}`} className="border-b last:border-0">
+                        <td className="py-2 pr-3 font-mono text-xs whitespace-nowrap">{formatTime(e.created_at)}</td>
+                        <td className="py-2 pr-3 font-mono text-xs">{e.source || '-'}</td>
+                        <td className="py-2 pr-3 font-mono text-xs">{e.api_path}</td>
+                        <td className="py-2 pr-3 text-xs">{e.shopee_error || (e.http_status ? `HTTP ${e.http_status}` : '-')}</td>
+                        <td className="py-2 pr-3">{e.backoff_ms}ms</td>
+                        <td className="py-2">{Number(e.rate_after).toFixed(2)}/s</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Calls per hour chart */}
       {chartData.length > 0 && (
         <Card>
@@ -229,22 +229,8 @@ export function AllShopsPanel() {
 
     setDeleting(true);
     try {
-      // Delete dependent records first, then the shop
-      await supabase
-        .from('apishopee_shop_members')
-        .delete()
-        .eq('shop_id', shopToDelete.id);
-
-      await supabase
-        .from('apishopee_token_refresh_logs')
-        .delete()
-        .eq('shop_id', shopToDelete.id);
-
-      // Delete the shop (cascade also handles remaining refs)
-      const { error: shopError } = await supabase
-        .from('apishopee_shops')
-        .delete()
-        .eq('id', shopToDelete.id);
+      // RPC xóa members, refresh logs, app tokens rồi tới shop (có audit log)
+      const { error: shopError } = await supabase.rpc('admin_delete_shop', { p_shop_id: shopToDelete.id });
 
       if (shopError) throw shopError;
 
@@ -448,21 +434,23 @@ export function AllShopsPanel() {
 
     setAddingMembers(true);
     try {
-      const insertData = newProfileIds.map(profileId => ({
-        shop_id: selectedShopForMembers.id,
-        profile_id: profileId,
-        role_id: selectedRoleId,
-        is_active: true,
-      }));
+      // Gán qua RPC (có audit log), sau đó đọc lại các dòng vừa thêm
+      const { error: assignError } = await supabase.rpc('admin_assign_shop_members', {
+        p_profile_ids: newProfileIds,
+        p_shop_ids: [selectedShopForMembers.id],
+        p_role_id: selectedRoleId,
+      });
+      if (assignError) throw assignError;
 
       const { data, error } = await supabase
         .from('apishopee_shop_members')
-        .insert(insertData)
         .select(`
           id, profile_id, role_id,
           sys_profiles(id, email, full_name),
           apishopee_roles(id, name, display_name)
-        `);
+        `)
+        .eq('shop_id', selectedShopForMembers.id)
+        .in('profile_id', newProfileIds);
 
       if (error) throw error;
 
@@ -494,12 +482,15 @@ export function AllShopsPanel() {
   };
 
   const handleDeleteMember = async (memberId: string) => {
+    const member = shopMembers.find(m => m.id === memberId);
+    if (!selectedShopForMembers || !member) return;
+
     setDeletingMemberId(memberId);
     try {
-      const { error } = await supabase
-        .from('apishopee_shop_members')
-        .delete()
-        .eq('id', memberId);
+      const { error } = await supabase.rpc('admin_remove_shop_members', {
+        p_shop_id: selectedShopForMembers.id,
+        p_profile_ids: [member.profile_id],
+      });
 
       if (error) throw error;
 
@@ -458,30 +458,8 @@ export function ShopManagementPanel({ readOnly = false }: ShopManagementPanelPro
 
     setDeleting(true);
     try {
-      // Delete dependent records first, then the shop
-      // 1. Delete shop members
-      await supabase
-        .from('apishopee_shop_members')
-        .delete()
-        .eq('shop_id', shopToDelete.id);
-
-      // 2. Delete token refresh logs
-      await supabase
-        .from('apishopee_token_refresh_logs')
-        .delete()
-        .eq('shop_id', shopToDelete.id);
-
-      // 3. Delete app-specific tokens (multi-partner)
-      await supabase
-        .from('apishopee_shop_app_tokens')
-        .delete()
-        .eq('shop_id', shopToDelete.shop_id);
-
-      // 4. Delete the shop (cascade also handles remaining refs)
-      const { error: shopError } = await supabase
-        .from('apishopee_shops')
-        .delete()
-        .eq('id', shopToDelete.id);
+      // RPC xóa members, refresh logs, app tokens rồi tới shop (có audit log)
+      const { error: shopError } = await supabase.rpc('admin_delete_shop', { p_shop_id: shopToDelete.id });
 
       if (shopError) throw shopError;
 
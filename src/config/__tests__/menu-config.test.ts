@@ -103,4 +103,11 @@ describe('getFeaturePermissions', () => {
     const uniqueKeys = new Set(keys);
     expect(keys.length).toBe(uniqueKeys.size);
   });
+
+  it('team page is role-based, not a per-user permission', () => {
+    const team = menuItems.find(i => i.path === '/team');
+    expect(team?.teamOnly).toBe(true);
+    expect(team?.permissionKey).toBeUndefined();
+    expect(getFeaturePermissions().some(p => p.label === team?.title)).toBe(false);
+  });
 });
@@ -11,6 +11,8 @@ import {
   Heart,
   BarChart3,
   Search,
+  History,
+  ShieldCheck,
   type LucideIcon,
 } from 'lucide-react';
 
@@ -27,6 +29,8 @@ export const adminMenuItems: AdminMenuItem[] = [
   { title: 'API Call Logs', icon: Activity, path: '/admin/api-logs' },
   { title: 'Quản lý Shop', icon: Store, path: '/admin/shops' },
   { title: 'Quản lý người dùng', icon: Users, path: '/admin/users' },
+  { title: 'Vai trò & quyền', icon: ShieldCheck, path: '/admin/roles' },
+  { title: 'Nhật ký thay đổi', icon: History, path: '/admin/audit-log' },
   {
     title: 'Monitoring', icon: Heart, path: '/admin/monitoring',
     children: [
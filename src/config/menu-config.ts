@@ -11,8 +11,10 @@ import {
   User,
   Zap,
   Package,
+  ShoppingCart,
   Clock,
   TrendingUp,
+  Users,
   type LucideIcon,
 } from 'lucide-react';
 
@@ -30,6 +32,7 @@ export interface MenuItem {
   permissionKey?: string; // Key để check permission
   description?: string; // Mô tả cho dialog phân quyền
   openInNewTab?: boolean; // Mở trong tab mới
+  teamOnly?: boolean; // Chỉ leader / admin (không phải quyền phân cho từng user)
   children?: MenuChildItem[];
 }
 
@@ -55,6 +58,13 @@ export const menuItems: MenuItem[] = [
       { title: 'Danh sách sản phẩm', icon: Package, path: '/products', permissionKey: 'products' },
     ],
   },
+  {
+    title: 'Đơn hàng',
+    icon: ShoppingCart,
+    path: '/orders',
+    permissionKey: 'orders',
+    description: 'Xem đơn hàng và doanh thu Flash Sale',
+  },
   {
     title: 'Flash Sale',
     icon: Zap,
@@ -72,6 +82,12 @@ export const menuItems: MenuItem[] = [
     permissionKey: 'shop-performance',
     description: 'Xem chỉ số hiệu quả bán hàng từ Shopee Account Health',
   },
+  {
+    title: 'Nhóm của tôi',
+    icon: Users,
+    path: '/team',
+    teamOnly: true,
+  },
   {
     title: 'Cài đặt',
     icon: Settings,
@@ -1,5 +1,5 @@
 import { createContext, useContext, ReactNode } from 'react';
-import { usePermissions, AppRole } from '@/hooks/usePermissions';
+import { usePermissions, AppRole, CustomRoleRef } from '@/hooks/usePermissions';
 
 interface PermissionsContextValue {
   systemRole: AppRole | null;
@@ -11,6 +11,7 @@ interface PermissionsContextValue {
   isLeader: boolean;
   isLoading: boolean;
   features: string[];
+  customRole: CustomRoleRef | null;
   hasFeature: (key: string) => boolean;
 }
 
@@ -217,6 +217,25 @@ describe('usePermissions', () => {
 
       expect(result.current.hasFeature('flash-sale')).toBe(false);
     });
+
+    it('checks action keys against a custom role', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: rpcData({
+          role: 'member',
+          features: ['home', 'flash-sale:view'],
+          custom_role: { id: 'role-1', name: 'Xem Flash Sale' },
+        }),
+        error: null,
+      });
+
+      const { result } = renderHook(() => usePermissions(), { wrapper });
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+      expect(result.current.customRole).toEqual({ id: 'role-1', name: 'Xem Flash Sale' });
+      expect(result.current.hasFeature('flash-sale')).toBe(true);
+      expect(result.current.hasFeature('flash-sale:view')).toBe(true);
+      expect(result.current.hasFeature('flash-sale:delete')).toBe(false);
+    });
   });
 
   describe('RPC parameters', () => {
@@ -10,6 +10,28 @@ export interface RateLimitTimeline {
   partner_id: number;
 }
 
+/** Learned limit per partner app + API path ('*' = partner-wide) */
+export interface RateLimitCurrentLimit {
+  partner_id: number;
+  api_path: string;
+  rate_per_sec: number;
+  backoff_until: string | null;
+  consecutive_throttles: number;
+  last_throttle_at: string | null;
+  updated_at: string;
+}
+
+export interface RateLimitThrottleEvent {
+  partner_id: number;
+  api_path: string;
+  source: string | null;
+  http_status: number | null;
+  shopee_error: string | null;
+  backoff_ms: number;
+  rate_after: number;
+  created_at: string;
+}
+
 export interface RateLimitAnalysis {
   timeline: RateLimitTimeline[];
   summary: {
@@ -24,6 +46,8 @@ export interface RateLimitAnalysis {
     total_calls: number;
     rate_limit_errors: number;
   }>;
+  current_limits: RateLimitCurrentLimit[];
+  throttle_events: RateLimitThrottleEvent[];
 }
 
 export function useRateLimitAnalysis(hours = 6, partnerId?: number) {
@@ -0,0 +1,87 @@
+/**
+ * Hook for Admin Audit Log - nhật ký thay đổi thành viên, vai trò, quyền, partner app và kết nối shop.
+ * Table: apishopee_admin_audit_log (migration 094, chỉ admin đọc được)
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import type { AdminAuditEntry, AuditEntityType, AuditNameLookup } from '@/lib/admin-audit';
+
+export interface AdminAuditFilters {
+  entityType?: AuditEntityType | 'all';
+  actorId?: string | 'all';
+  targetProfileId?: string | 'all';
+  shopId?: number;
+  /** Số ngày gần nhất, null = tất cả */
+  days: number | null;
+  page: number;
+  pageSize: number;
+}
+
+/** Giới hạn số dòng khi xuất CSV */
+export const AUDIT_EXPORT_LIMIT = 10000;
+const EXPORT_PAGE_SIZE = 1000;
+
+const COLUMNS = 'id, created_at, actor_id, actor_email, entity_type, operation, entity_id, target_profile_id, shop_id, before_data, after_data, changed_fields, reason, source';
+
+function buildQuery(filters: Omit<AdminAuditFilters, 'page' | 'pageSize'>, withCount = false) {
+  let query = supabase
+    .from('apishopee_admin_audit_log')
+    .select(COLUMNS, withCount ? { count: 'exact' } : undefined)
+    .order('created_at', { ascending: false });
+
+  if (filters.entityType && filters.entityType !== 'all') query = query.eq('entity_type', filters.entityType);
+  if (filters.actorId && filters.actorId !== 'all') query = query.eq('actor_id', filters.actorId);
+  if (filters.targetProfileId && filters.targetProfileId !== 'all') query = query.eq('target_profile_id', filters.targetProfileId);
+  if (filters.shopId) query = query.eq('shop_id', filters.shopId);
+  if (filters.days) {
+    query = query.gte('created_at', new Date(Date.now() - filters.days * 24 * 60 * 60 * 1000).toISOString());
+  }
+  return query;
+}
+
+export function useAdminAuditLog(filters: AdminAuditFilters) {
+  return useQuery({
+    queryKey: ['admin-audit-log', filters],
+    queryFn: async (): Promise<{ entries: AdminAuditEntry[]; totalCount: number }> => {
+      const { page, pageSize, ...rest } = filters;
+      const { data, error, count } = await buildQuery(rest, true)
+        .range(page * pageSize, (page + 1) * pageSize - 1);
+      if (error) throw error;
+      return { entries: (data || []) as AdminAuditEntry[], totalCount: count ?? 0 };
+    },
+  });
+}
+
+/** Toàn bộ bản ghi theo bộ lọc (tối đa AUDIT_EXPORT_LIMIT) để xuất CSV */
+export async function fetchAdminAuditForExport(filters: Omit<AdminAuditFilters, 'page' | 'pageSize'>): Promise<AdminAuditEntry[]> {
+  const entries: AdminAuditEntry[] = [];
+  for (let from = 0; from < AUDIT_EXPORT_LIMIT; from += EXPORT_PAGE_SIZE) {
+    const { data, error } = await buildQuery(filters).range(from, from + EXPORT_PAGE_SIZE - 1);
+    if (error) throw error;
+    entries.push(...((data || []) as AdminAuditEntry[]));
+    if (!data || data.length < EXPORT_PAGE_SIZE) break;
+  }
+  return entries;
+}
+
+/** Tên người dùng / shop cho bộ lọc và hiển thị */
+export function useAuditNameLookup() {
+  return useQuery({
+    queryKey: ['admin-audit-names'],
+    queryFn: async (): Promise<AuditNameLookup> => {
+      const [profilesRes, shopsRes] = await Promise.all([
+        supabase.from('sys_profiles').select('id, email, full_name'),
+        supabase.from('apishopee_shops').select('shop_id, shop_name'),
+      ]);
+      if (profilesRes.error) throw profilesRes.error;
+      if (shopsRes.error) throw shopsRes.error;
+
+      return {
+        profiles: new Map((profilesRes.data || []).map(p => [p.id, p.full_name || p.email])),
+        shops: new Map((shopsRes.data || []).map(s => [s.shop_id, s.shop_name || `Shop ${s.shop_id}`])),
+      };
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
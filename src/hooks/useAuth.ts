@@ -25,6 +25,7 @@ export async function saveUserShop(
 ) {
   // partnerAccountId is kept for API compatibility but not used
   void partnerAccountId;
+  // partner_key đã được apishopee-auth (get-token) lưu dạng mã hóa, không ghi lại plaintext từ client
 
   const { data: existingShop } = await supabase
     .from('apishopee_shops')
@@ -32,8 +33,6 @@ export async function saveUserShop(
     .eq('shop_id', shopeeShopId)
     .single();
 
-  let shopInternalId: string;
-
   if (existingShop) {
     const updateData: Record<string, unknown> = {
       access_token: accessToken,
@@ -46,7 +45,6 @@ export async function saveUserShop(
 
     if (partnerInfo) {
       updateData.partner_id = partnerInfo.partner_id;
-      updateData.partner_key = partnerInfo.partner_key;
       updateData.partner_name = partnerInfo.partner_name;
       updateData.partner_created_by = userId;
     }
@@ -59,8 +57,6 @@ export async function saveUserShop(
     if (updateError && updateError.code !== '42501' && updateError.code !== 'PGRST301') {
       throw updateError;
     }
-
-    shopInternalId = existingShop.id;
   } else {
     const shopData: Record<string, unknown> = {
       shop_id: shopeeShopId,
@@ -74,54 +70,19 @@ export async function saveUserShop(
 
     if (partnerInfo) {
       shopData.partner_id = partnerInfo.partner_id;
-      shopData.partner_key = partnerInfo.partner_key;
       shopData.partner_name = partnerInfo.partner_name;
       shopData.partner_created_by = userId;
     }
 
-    const { data: newShop, error: insertError } = await supabase
+    const { error: insertError } = await supabase
       .from('apishopee_shops')
-      .insert(shopData)
-      .select('id')
-      .single();
+      .insert(shopData);
 
     if (insertError) throw insertError;
-    if (!newShop?.id) throw new Error('Failed to get shop ID after insert');
-
-    shopInternalId = newShop.id;
-  }
-
-  // Always create/update shop_member for the user (regardless of whether shop existed)
-  const { data: adminRole, error: roleError } = await supabase
-    .from('apishopee_roles')
-    .select('id')
-    .eq('name', 'admin')
-    .single();
-
-  if (roleError || !adminRole) throw new Error('Admin role not found');
-
-  const memberData = {
-    shop_id: shopInternalId,
-    profile_id: userId,
-    role_id: adminRole.id,
-    is_active: true,
-  };
-
-  console.log('[AUTH] Creating/updating shop_member:', memberData);
-
-  const { error: memberError } = await supabase
-    .from('apishopee_shop_members')
-    .upsert(memberData, {
-      onConflict: 'shop_id,profile_id',
-    })
-    .single();
-
-  if (memberError) {
-    console.error('[AUTH] Error creating shop_member:', memberError);
-    throw memberError;
   }
 
-  console.log('[AUTH] Shop member created/updated successfully');
+  // shop_member (admin) của user do apishopee-auth tạo qua RPC connect_shop_member (có audit log),
+  // client không còn quyền ghi apishopee_shop_members
 }
 
 export async function getUserShops(userId: string) {
@@ -0,0 +1,101 @@
+/**
+ * Hook vai trò tùy chỉnh - danh sách vai trò + số người dùng, lưu / xóa / gán qua RPC admin
+ * (migration 095, mọi thay đổi ghi vào nhật ký thay đổi)
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+
+export interface CustomRole {
+  id: string;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  created_at: string;
+  updated_at: string;
+  /** Số người dùng đang được gán */
+  member_count: number;
+}
+
+export interface SaveCustomRoleInput {
+  /** null = tạo mới */
+  id: string | null;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  reason?: string | null;
+}
+
+const CUSTOM_ROLES_KEY = ['custom-roles'];
+
+export function useCustomRoles() {
+  return useQuery({
+    queryKey: CUSTOM_ROLES_KEY,
+    queryFn: async (): Promise<CustomRole[]> => {
+      const [rolesRes, assignmentsRes] = await Promise.all([
+        supabase
+          .from('apishopee_custom_roles')
+          .select('id, name, description, permissions, created_at, updated_at')
+          .order('name'),
+        supabase.from('apishopee_profile_custom_roles').select('role_id'),
+      ]);
+      if (rolesRes.error) throw rolesRes.error;
+      if (assignmentsRes.error) throw assignmentsRes.error;
+
+      const counts = new Map<string, number>();
+      (assignmentsRes.data || []).forEach(a => counts.set(a.role_id, (counts.get(a.role_id) ?? 0) + 1));
+
+      return (rolesRes.data || []).map(role => ({ ...role, member_count: counts.get(role.id) ?? 0 }));
+    },
+  });
+}
+
+/** Vai trò tùy chỉnh đang gán cho 1 user (null = dùng quyền mặc định của role) */
+export async function fetchUserCustomRoleId(profileId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('apishopee_profile_custom_roles')
+    .select('role_id')
+    .eq('profile_id', profileId)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.role_id ?? null;
+}
+
+export function useSaveCustomRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: SaveCustomRoleInput): Promise<string> => {
+      const name = input.name.trim();
+      if (!name) throw new Error('Tên vai trò không được để trống');
+
+      const { data, error } = await supabase.rpc('admin_save_custom_role', {
+        p_role_id: input.id,
+        p_name: name,
+        p_description: input.description,
+        p_permissions: input.permissions,
+        p_reason: input.reason || null,
+      });
+      if (error) throw error;
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CUSTOM_ROLES_KEY });
+    },
+  });
+}
+
+/** Xóa vai trò - người dùng của vai trò quay về quyền mặc định */
+export function useDeleteCustomRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason?: string | null }) => {
+      const { error } = await supabase.rpc('admin_delete_custom_role', { p_role_id: id, p_reason: reason || null });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CUSTOM_ROLES_KEY });
+    },
+  });
+}
@@ -0,0 +1,236 @@
+/**
+ * Hook for cross-shop Flash Sale batches - preview khung giờ + số sản phẩm từng shop,
+ * enqueue cả batch trong một transaction, theo dõi tiến độ và retry shop lỗi.
+ * Tables: apishopee_flash_sale_batches, _batch_shops, auto_history.batch_id (migration 084)
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { previewRecurringRule } from '@/hooks/useFlashSaleRecurringRules';
+import { fetchTemplateCatalog, resolveTemplateForShop } from '@/hooks/useFlashSaleTemplates';
+import {
+  batchRecurrenceRule,
+  buildBatchPayload,
+  buildTopSellerTemplateItems,
+  resolveFlashSaleTemplate,
+  summarizeBatchProgress,
+  RECURRENCE_MIN_START_BUFFER_SEC,
+  TOP_SELLER_CANDIDATE_MULTIPLIER,
+  type BatchHistoryRow,
+  type BatchItemSource,
+  type BatchProgress,
+  type BatchSettings,
+  type BatchShopPlan,
+  type BatchShopRow,
+  type TopSellerItemSource,
+} from '@/lib/shopee/flash-sale';
+
+export interface FlashSaleBatch {
+  id: string;
+  name: string | null;
+  shop_ids: number[];
+  start_hours: number[];
+  horizon_days: number;
+  lead_time_minutes: number;
+  timezone: string;
+  item_source: BatchItemSource;
+  created_at: string;
+  progress: BatchProgress;
+}
+
+export interface CreateFlashSaleBatchInput {
+  name?: string;
+  settings: BatchSettings;
+  source: BatchItemSource;
+  plans: BatchShopPlan[];
+}
+
+const RECENT_BATCH_LIMIT = 10;
+
+// ==================== PREVIEW ====================
+
+async function countLatestSaleItems(shopId: number): Promise<number> {
+  const { data, error } = await supabase
+    .from('apishopee_flash_sale_data')
+    .select('item_count')
+    .eq('shop_id', shopId)
+    .gt('item_count', 0)
+    .order('start_time', { ascending: false })
+    .limit(1);
+  if (error) throw error;
+  return Number(data?.[0]?.item_count || 0);
+}
+
+async function countTopSellerItems(shopId: number, source: TopSellerItemSource): Promise<number> {
+  const { data, error } = await supabase
+    .from('apishopee_products')
+    .select('item_id')
+    .eq('shop_id', shopId)
+    .eq('item_status', 'NORMAL')
+    .gt('total_available_stock', 0)
+    .order('sold', { ascending: false })
+    .limit(source.limit * TOP_SELLER_CANDIDATE_MULTIPLIER);
+  if (error) throw error;
+
+  const catalog = await fetchTemplateCatalog(shopId);
+  const items = buildTopSellerTemplateItems((data || []).map(r => r.item_id as number), catalog, source);
+  return Math.min(resolveFlashSaleTemplate(items, catalog).items.length, source.limit);
+}
+
+/**
+ * Số sản phẩm dự kiến của shop theo nguồn. "latest" chỉ là ước lượng: scheduler
+ * lấy items của Flash Sale gần nhất lúc chạy.
+ */
+async function countSourceItems(shopId: number, source: BatchItemSource): Promise<number> {
+  switch (source.type) {
+    case 'latest':
+      return countLatestSaleItems(shopId);
+    case 'template':
+      return (await resolveTemplateForShop(source.template_id, source.template_version, shopId)).items.length;
+    case 'top_sellers':
+      return countTopSellerItems(shopId, source);
+  }
+}
+
+export async function previewBatchShop(
+  shopId: number,
+  settings: BatchSettings,
+  source: BatchItemSource
+): Promise<BatchShopPlan> {
+  try {
+    const expansion = await previewRecurringRule(shopId, batchRecurrenceRule(settings));
+    const itemsCount = expansion.toSchedule.length > 0 ? await countSourceItems(shopId, source) : 0;
+    return { shopId, slots: expansion.toSchedule, skippedSlots: expansion.skipped.length, itemsCount };
+  } catch (err) {
+    return { shopId, slots: [], skippedSlots: 0, itemsCount: 0, error: (err as Error).message };
+  }
+}
+
+/** Preview tuần tự từng shop (mỗi shop 1 call get-time-slots) */
+export async function previewBatch(
+  shopIds: number[],
+  settings: BatchSettings,
+  source: BatchItemSource,
+  onProgress?: (done: number, total: number) => void
+): Promise<BatchShopPlan[]> {
+  const plans: BatchShopPlan[] = [];
+  for (const shopId of shopIds) {
+    plans.push(await previewBatchShop(shopId, settings, source));
+    onProgress?.(plans.length, shopIds.length);
+  }
+  return plans;
+}
+
+// ==================== HOOKS ====================
+
+/** Batch gần đây của user kèm tiến độ; tự refresh khi còn batch đang chạy */
+export function useFlashSaleBatches(enabled = true) {
+  return useQuery({
+    queryKey: ['flash-sale-batches'],
+    queryFn: async (): Promise<FlashSaleBatch[]> => {
+      const { data: batches, error } = await supabase
+        .from('apishopee_flash_sale_batches')
+        .select('id, name, shop_ids, start_hours, horizon_days, lead_time_minutes, timezone, item_source, created_at, shops:apishopee_flash_sale_batch_shops(shop_id, status, slots_count, items_count, error_message, attempts)')
+        .order('created_at', { ascending: false })
+        .limit(RECENT_BATCH_LIMIT);
+      if (error) throw error;
+      if (!batches?.length) return [];
+
+      const { data: rows, error: rowsError } = await supabase
+        .from('apishopee_flash_sale_auto_history')
+        .select('id, batch_id, shop_id, status, error_message, slot_start_time')
+        .in('batch_id', batches.map(b => b.id));
+      if (rowsError) throw rowsError;
+
+      return batches.map(batch => {
+        const { shops, ...rest } = batch as unknown as Omit<FlashSaleBatch, 'progress'> & { shops: BatchShopRow[] | null };
+        const batchRows = (rows || []).filter(r => r.batch_id === batch.id) as unknown as BatchHistoryRow[];
+        return { ...rest, progress: summarizeBatchProgress(shops || [], batchRows) };
+      });
+    },
+    enabled,
+    refetchInterval: query => (query.state.data?.some(b => !b.progress.isFinished) ? 15_000 : false),
+  });
+}
+
+export function useCreateFlashSaleBatch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CreateFlashSaleBatchInput): Promise<string> => {
+      const { shops, rows } = buildBatchPayload(input.plans, input.source, input.settings);
+      if (rows.length === 0) throw new Error('Không có khung giờ nào để lên lịch');
+
+      const { data, error } = await supabase.rpc('create_flash_sale_batch', {
+        p_batch: {
+          name: input.name?.trim() || null,
+          shop_ids: input.plans.map(p => p.shopId),
+          start_hours: [...input.settings.start_hours].sort((a, b) => a - b),
+          horizon_days: input.settings.horizon_days,
+          lead_time_minutes: input.settings.lead_time_minutes,
+          timezone: input.settings.timezone,
+          item_source: input.source,
+        },
+        p_shops: shops,
+        p_rows: rows,
+      });
+      if (error) throw error;
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['flash-sale-batches'] });
+      queryClient.invalidateQueries({ queryKey: ['all-shops-auto-history'] });
+    },
+  });
+}
+
+/**
+ * Retry shop lỗi của batch:
+ * - row lỗi có khung giờ chưa bắt đầu → đưa lại về 'scheduled' (giữ flash_sale_id để scheduler chạy tiếp),
+ *   trừ khung giờ đã có lịch khác
+ * - shop enqueue lỗi (không có row) → preview lại và thêm row vào batch
+ */
+export function useRetryFlashSaleBatch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ batch, shopIds }: { batch: FlashSaleBatch; shopIds: number[] }): Promise<{ requeued: number; appended: number }> => {
+      const settings: BatchSettings = {
+        start_hours: batch.start_hours,
+        horizon_days: batch.horizon_days,
+        lead_time_minutes: batch.lead_time_minutes,
+        timezone: batch.timezone,
+      };
+
+      // 1 statement cho mọi row lỗi; khung giờ đã có lịch khác được giữ nguyên (migration 103)
+      const { data: requeued, error } = await supabase.rpc('requeue_flash_sale_batch_rows', {
+        p_batch_id: batch.id,
+        p_shop_ids: shopIds,
+        p_min_start_buffer_sec: RECURRENCE_MIN_START_BUFFER_SEC,
+      });
+      if (error) throw error;
+
+      const enqueueFailed = batch.progress.shops
+        .filter(s => shopIds.includes(s.shopId) && s.total === 0)
+        .map(s => s.shopId);
+      let appended = 0;
+      if (enqueueFailed.length > 0) {
+        const plans = await previewBatch(enqueueFailed, settings, batch.item_source);
+        const { shops, rows } = buildBatchPayload(plans, batch.item_source, settings);
+        const { data, error: appendError } = await supabase.rpc('append_flash_sale_batch', {
+          p_batch_id: batch.id,
+          p_shops: shops,
+          p_rows: rows,
+        });
+        if (appendError) throw appendError;
+        appended = Number(data || 0);
+      }
+
+      return { requeued: Number(requeued || 0), appended };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['flash-sale-batches'] });
+      queryClient.invalidateQueries({ queryKey: ['all-shops-auto-history'] });
+    },
+  });
+}
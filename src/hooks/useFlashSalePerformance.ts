@@ -0,0 +1,132 @@
+/**
+ * Hook for Flash Sale Performance - kết quả bán hàng của 1 khung Flash Sale (trang chi tiết)
+ * và bảng xếp hạng các khung của mọi shop (Flash Sale Overview).
+ * Tables: apishopee_order_items (migration 091), apishopee_flash_sale_item_stock (migration 092)
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import type { RevenueWindow } from '@/lib/shopee/flash-sale-revenue';
+import {
+  baselineFrom,
+  buildFlashSaleLeaderboard,
+  computeFlashSalePerformance,
+  type CampaignStockRow,
+  type FlashSalePerformance,
+  type PerformanceOrderItem,
+  type PerformanceSlot,
+} from '@/lib/shopee/flash-sale-performance';
+
+const ITEM_COLUMNS = 'shop_id, order_sn, order_status, create_time, flash_sale_id, item_id, model_id, item_name, model_name, quantity, discounted_price';
+const STOCK_COLUMNS = 'shop_id, flash_sale_id, item_id, model_id, item_name, model_name, campaign_stock';
+/** PostgREST trả tối đa 1000 dòng / request */
+const PAGE_SIZE = 1000;
+
+async function fetchAll<T>(build: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown }>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await build(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Kết quả 1 khung: dòng Flash Sale trong khung + dòng hàng của cùng sản phẩm trong
+ * BASELINE_DAYS ngày trước đó. Chỉ bật khi khung đã bắt đầu.
+ */
+export function useFlashSalePerformance(shopId: number | null | undefined, slot: PerformanceSlot | null, enabled = true) {
+  return useQuery({
+    queryKey: ['flash-sale-performance', shopId, slot?.flash_sale_id],
+    queryFn: async (): Promise<FlashSalePerformance> => {
+      const from = baselineFrom(slot!);
+
+      const [stockRes, slotsRes, fsItems] = await Promise.all([
+        supabase
+          .from('apishopee_flash_sale_item_stock')
+          .select(STOCK_COLUMNS)
+          .eq('shop_id', shopId!)
+          .eq('flash_sale_id', slot!.flash_sale_id),
+        supabase
+          .from('apishopee_flash_sale_data')
+          .select('flash_sale_id, start_time, end_time')
+          .eq('shop_id', shopId!)
+          .lt('start_time', slot!.end_time)
+          .gt('end_time', from),
+        fetchAll<PerformanceOrderItem>((rangeFrom, rangeTo) => supabase
+          .from('apishopee_order_items')
+          .select(ITEM_COLUMNS)
+          .eq('shop_id', shopId!)
+          .not('flash_sale_id', 'is', null)
+          .gte('create_time', slot!.start_time)
+          .lt('create_time', slot!.end_time)
+          .order('id', { ascending: true })
+          .range(rangeFrom, rangeTo)),
+      ]);
+      if (stockRes.error) throw stockRes.error;
+      if (slotsRes.error) throw slotsRes.error;
+
+      const stock = (stockRes.data || []) as CampaignStockRow[];
+      const itemIds = [...new Set([...stock.map(s => s.item_id), ...fsItems.map(i => i.item_id)])];
+      const baselineItems = itemIds.length === 0 ? [] : await fetchAll<PerformanceOrderItem>((rangeFrom, rangeTo) => supabase
+        .from('apishopee_order_items')
+        .select(ITEM_COLUMNS)
+        .eq('shop_id', shopId!)
+        .in('item_id', itemIds)
+        .is('flash_sale_id', null)
+        .gte('create_time', from)
+        .lt('create_time', slot!.start_time)
+        .order('id', { ascending: true })
+        .range(rangeFrom, rangeTo));
+
+      return computeFlashSalePerformance(slot!, stock, [...fsItems, ...baselineItems], (slotsRes.data || []) as RevenueWindow[]);
+    },
+    enabled: !!shopId && !!slot && enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** Xếp hạng các khung Flash Sale (mọi shop user xem được) bắt đầu trong `days` ngày gần nhất */
+export function useFlashSaleLeaderboard(days: number) {
+  return useQuery({
+    queryKey: ['flash-sale-leaderboard', days],
+    queryFn: async (): Promise<FlashSalePerformance[]> => {
+      const nowSec = Math.floor(Date.now() / 1000);
+      const fromSec = nowSec - days * 24 * 60 * 60;
+
+      const { data: sales, error } = await supabase
+        .from('apishopee_flash_sale_data')
+        .select('shop_id, flash_sale_id, start_time, end_time, click_count')
+        .gte('start_time', fromSec)
+        .lt('start_time', nowSec);
+      if (error) throw error;
+
+      // Có thể trùng flash_sale_id giữa các user của shop
+      const slots = [...new Map((sales || []).map(s => [`${s.shop_id}:${s.flash_sale_id}`, s as PerformanceSlot])).values()];
+      if (slots.length === 0) return [];
+
+      const rangeTo = Math.max(...slots.map(s => s.end_time));
+      const [stock, items] = await Promise.all([
+        // Ảnh chụp tồn kho lấy trước khi khung bắt đầu tối đa 45 phút
+        fetchAll<CampaignStockRow>((from, to) => supabase
+          .from('apishopee_flash_sale_item_stock')
+          .select(STOCK_COLUMNS)
+          .gte('captured_at', new Date((fromSec - 24 * 60 * 60) * 1000).toISOString())
+          .order('id', { ascending: true })
+          .range(from, to)),
+        fetchAll<PerformanceOrderItem>((from, to) => supabase
+          .from('apishopee_order_items')
+          .select(ITEM_COLUMNS)
+          .not('flash_sale_id', 'is', null)
+          .gte('create_time', fromSec)
+          .lt('create_time', rangeTo)
+          .order('id', { ascending: true })
+          .range(from, to)),
+      ]);
+
+      return buildFlashSaleLeaderboard(slots, stock, items);
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
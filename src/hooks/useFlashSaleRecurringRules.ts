@@ -0,0 +1,215 @@
+/**
+ * Hook for Flash Sale Recurring Schedules - CRUD rule lặp lại của shop và preview
+ * các khung giờ worker sẽ lên lịch (cùng logic expand với worker).
+ * Table: apishopee_flash_sale_recurring_rules (migration 083)
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import {
+  expandRecurrenceRule,
+  type FlashSaleRecurrenceRule,
+  type RecurrenceExpansion,
+  type RecurrenceSlot,
+} from '@/lib/shopee/flash-sale';
+
+export interface FlashSaleRecurringRule extends FlashSaleRecurrenceRule {
+  id: string;
+  shop_id: number;
+  name: string | null;
+  template_id: string | null;
+  excluded_timeslot_ids: number[];
+  is_active: boolean;
+  created_by: string | null;
+  last_expanded_at: string | null;
+  last_expansion: { available_slots?: number; scheduled?: number[]; skipped?: { timeslot_id: number; reason: string }[] } | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RecurringRuleInput extends FlashSaleRecurrenceRule {
+  /** Có id = cập nhật rule */
+  id?: string;
+  shopId: number;
+  name?: string;
+  templateId: string | null;
+  isActive: boolean;
+}
+
+const RULE_COLUMNS = 'id, shop_id, name, days_of_week, start_hours, lead_time_minutes, timezone, horizon_days, template_id, excluded_timeslot_ids, is_active, created_by, last_expanded_at, last_expansion, last_error, created_at, updated_at';
+
+// ==================== DATA ACCESS ====================
+
+/**
+ * Khung giờ rule sẽ lên lịch ở lần expand kế tiếp. Khung đã có lịch / Flash Sale
+ * nằm trong `skipped` (worker còn kiểm tra thêm Flash Sale tạo ngoài app).
+ */
+export async function previewRecurringRule(
+  shopId: number,
+  rule: FlashSaleRecurrenceRule,
+  excludedTimeslotIds: number[] = []
+): Promise<RecurrenceExpansion> {
+  const nowSec = Math.floor(Date.now() / 1000);
+  const { data, error } = await supabase.functions.invoke('apishopee-flash-sale', {
+    body: { action: 'get-time-slots', shop_id: shopId, start_time: nowSec, end_time: nowSec + rule.horizon_days * 86400 },
+  });
+  if (error) throw error;
+  if (data?.error && data.error !== 'shop_flash_sale_param_error') throw new Error(data.message || data.error);
+
+  const slots: RecurrenceSlot[] = Array.isArray(data?.response) ? data.response : [];
+  const timeslotIds = slots.map(s => s.timeslot_id);
+  if (timeslotIds.length === 0) return { toSchedule: [], skipped: [] };
+
+  const [historyRes, flashSaleRes] = await Promise.all([
+    supabase.from('apishopee_flash_sale_auto_history').select('timeslot_id').eq('shop_id', shopId).in('timeslot_id', timeslotIds),
+    supabase.from('apishopee_flash_sale_data').select('timeslot_id').eq('shop_id', shopId).in('type', [1, 2]).in('timeslot_id', timeslotIds),
+  ]);
+  if (historyRes.error) throw historyRes.error;
+  if (flashSaleRes.error) throw flashSaleRes.error;
+
+  const booked = [
+    ...excludedTimeslotIds,
+    ...(historyRes.data || []).map(r => Number(r.timeslot_id)),
+    ...(flashSaleRes.data || []).map(r => Number(r.timeslot_id)),
+  ];
+  return expandRecurrenceRule(rule, slots, { nowSec, bookedTimeslotIds: booked });
+}
+
+/**
+ * Ghi nhận khung giờ user đã xóa khỏi lịch để worker không lên lịch lại.
+ * Gọi trước khi xóa các row auto_history sinh ra từ rule.
+ */
+export async function excludeRecurringTimeslots(
+  records: { recurring_rule_id?: string | null; timeslot_id: number }[]
+): Promise<void> {
+  const byRule = new Map<string, number[]>();
+  for (const record of records) {
+    if (!record.recurring_rule_id) continue;
+    byRule.set(record.recurring_rule_id, [...(byRule.get(record.recurring_rule_id) || []), record.timeslot_id]);
+  }
+
+  for (const [ruleId, timeslotIds] of byRule) {
+    const { data: rule, error } = await supabase
+      .from('apishopee_flash_sale_recurring_rules')
+      .select('excluded_timeslot_ids')
+      .eq('id', ruleId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!rule) continue;
+
+    const excluded = new Set<number>([...(rule.excluded_timeslot_ids || []).map(Number), ...timeslotIds]);
+    const { error: updateError } = await supabase
+      .from('apishopee_flash_sale_recurring_rules')
+      .update({ excluded_timeslot_ids: Array.from(excluded) })
+      .eq('id', ruleId);
+    if (updateError) throw updateError;
+  }
+}
+
+// ==================== HOOKS ====================
+
+export function useFlashSaleRecurringRules(shopId: number | null | undefined) {
+  return useQuery({
+    queryKey: ['flash-sale-recurring-rules', shopId],
+    queryFn: async (): Promise<FlashSaleRecurringRule[]> => {
+      const { data, error } = await supabase
+        .from('apishopee_flash_sale_recurring_rules')
+        .select(RULE_COLUMNS)
+        .eq('shop_id', shopId!)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return (data || []) as FlashSaleRecurringRule[];
+    },
+    enabled: !!shopId,
+    staleTime: 30_000,
+  });
+}
+
+/** Tạo / cập nhật rule; created_by giữ người tạo ban đầu (chủ các row auto_history) */
+export function useSaveRecurringRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: RecurringRuleInput): Promise<string> => {
+      const fields = {
+        name: input.name?.trim() || null,
+        days_of_week: [...input.days_of_week].sort((a, b) => a - b),
+        start_hours: [...input.start_hours].sort((a, b) => a - b),
+        lead_time_minutes: input.lead_time_minutes,
+        timezone: input.timezone,
+        horizon_days: input.horizon_days,
+        template_id: input.templateId,
+        is_active: input.isActive,
+      };
+
+      if (input.id) {
+        const { error } = await supabase
+          .from('apishopee_flash_sale_recurring_rules')
+          .update(fields)
+          .eq('id', input.id);
+        if (error) throw error;
+        return input.id;
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Chưa đăng nhập');
+
+      const { data, error } = await supabase
+        .from('apishopee_flash_sale_recurring_rules')
+        .insert({ ...fields, shop_id: input.shopId, created_by: user.id })
+        .select('id')
+        .single();
+      if (error) throw error;
+      return data.id as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['flash-sale-recurring-rules'] });
+    },
+  });
+}
+
+export function useToggleRecurringRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const { error } = await supabase
+        .from('apishopee_flash_sale_recurring_rules')
+        .update({ is_active: isActive })
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['flash-sale-recurring-rules'] });
+    },
+  });
+}
+
+/** Xóa rule và các khung giờ đã lên lịch nhưng chưa chạy của rule đó */
+export function useDeleteRecurringRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<number> => {
+      const { data: removed, error: historyError } = await supabase
+        .from('apishopee_flash_sale_auto_history')
+        .delete()
+        .eq('recurring_rule_id', id)
+        .eq('status', 'scheduled')
+        .select('id');
+      if (historyError) throw historyError;
+
+      const { error } = await supabase
+        .from('apishopee_flash_sale_recurring_rules')
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+
+      return removed?.length || 0;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['flash-sale-recurring-rules'] });
+    },
+  });
+}
@@ -0,0 +1,201 @@
+/**
+ * Hook for Flash Sale Templates - list templates attached to a shop, validate against
+ * get-criteria, save new templates / versions and resolve a template for a shop.
+ * Tables: apishopee_flash_sale_templates, _template_versions, _template_shops (migration 082)
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import {
+  buildTemplateCatalog,
+  resolveFlashSaleTemplate,
+  validateTemplateAgainstCriteria,
+  TEMPLATE_MODEL_COLUMNS,
+  TEMPLATE_PRODUCT_COLUMNS,
+  type FlashSaleTemplate,
+  type FlashSaleTemplateItem,
+  type FlashSaleTemplateVersion,
+  type TemplateCatalogItem,
+  type TemplateCriteriaIssue,
+  type TemplateResolution,
+} from '@/lib/shopee/flash-sale';
+import type { ShopFlashSaleGetItemCriteriaResponse } from '@/lib/shopee/endpoints';
+
+export interface TemplateShopValidation {
+  shopId: number;
+  resolution: TemplateResolution;
+  issues: TemplateCriteriaIssue[];
+  criteria: ShopFlashSaleGetItemCriteriaResponse | null;
+  /** get-criteria lỗi hoặc không có item nào resolve được */
+  error?: string;
+}
+
+export interface SaveFlashSaleTemplateInput {
+  /** Có templateId = lưu version mới cho template đó */
+  templateId?: string;
+  name: string;
+  description?: string;
+  sourceShopId: number;
+  items: FlashSaleTemplateItem[];
+  shopIds: number[];
+  criteriaSnapshot: ShopFlashSaleGetItemCriteriaResponse | null;
+  note?: string;
+}
+
+const TEMPLATE_COLUMNS = 'id, name, description, source_shop_id, current_version, is_archived, created_by, created_at, updated_at';
+
+// ==================== DATA ACCESS ====================
+
+/** Catalog sản phẩm đã sync của shop (apishopee_products + models) */
+export async function fetchTemplateCatalog(shopId: number): Promise<TemplateCatalogItem[]> {
+  const [productsRes, modelsRes] = await Promise.all([
+    supabase.from('apishopee_products').select(TEMPLATE_PRODUCT_COLUMNS).eq('shop_id', shopId),
+    supabase.from('apishopee_product_models').select(TEMPLATE_MODEL_COLUMNS).eq('shop_id', shopId),
+  ]);
+  if (productsRes.error) throw productsRes.error;
+  if (modelsRes.error) throw modelsRes.error;
+  return buildTemplateCatalog(productsRes.data || [], modelsRes.data || []);
+}
+
+async function fetchCriteria(shopId: number, itemId: number): Promise<ShopFlashSaleGetItemCriteriaResponse> {
+  const { data, error } = await supabase.functions.invoke('apishopee-flash-sale', {
+    body: { action: 'get-criteria', shop_id: shopId, item_id: itemId },
+  });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.message || data.error);
+  return data?.response as ShopFlashSaleGetItemCriteriaResponse;
+}
+
+export async function fetchTemplateVersion(templateId: string, version?: number): Promise<FlashSaleTemplateVersion> {
+  let targetVersion = version;
+  if (!targetVersion) {
+    const { data: template, error } = await supabase
+      .from('apishopee_flash_sale_templates')
+      .select('current_version')
+      .eq('id', templateId)
+      .single();
+    if (error) throw error;
+    targetVersion = template.current_version as number;
+  }
+
+  const { data, error } = await supabase
+    .from('apishopee_flash_sale_template_versions')
+    .select('*')
+    .eq('template_id', templateId)
+    .eq('version', targetVersion)
+    .single();
+  if (error) throw error;
+  return data as FlashSaleTemplateVersion;
+}
+
+/**
+ * Resolve template theo sản phẩm của từng shop rồi kiểm tra với get-criteria của shop đó.
+ * Không throw theo shop: lỗi được trả trong `error` để UI hiển thị.
+ */
+export async function validateTemplateForShops(
+  items: FlashSaleTemplateItem[],
+  shopIds: number[]
+): Promise<TemplateShopValidation[]> {
+  const results: TemplateShopValidation[] = [];
+
+  for (const shopId of shopIds) {
+    const resolution = resolveFlashSaleTemplate(items, await fetchTemplateCatalog(shopId));
+    const firstItemId = resolution.items[0]?.item_id;
+    if (!firstItemId) {
+      results.push({ shopId, resolution, issues: [], criteria: null, error: 'Không có sản phẩm nào khớp với shop' });
+      continue;
+    }
+
+    try {
+      const criteria = await fetchCriteria(shopId, firstItemId);
+      results.push({ shopId, resolution, criteria, issues: validateTemplateAgainstCriteria(resolution.lines, criteria) });
+    } catch (err) {
+      results.push({ shopId, resolution, issues: [], criteria: null, error: (err as Error).message });
+    }
+  }
+
+  return results;
+}
+
+/** Payload add-items của template cho một shop (dùng khi tạo ngay, không qua scheduler) */
+export async function resolveTemplateForShop(
+  templateId: string,
+  version: number | undefined,
+  shopId: number
+): Promise<TemplateResolution> {
+  const templateVersion = await fetchTemplateVersion(templateId, version);
+  return resolveFlashSaleTemplate(templateVersion.items, await fetchTemplateCatalog(shopId));
+}
+
+// ==================== HOOKS ====================
+
+/** Templates gắn với shop (chưa archive) */
+export function useFlashSaleTemplates(shopId: number | null | undefined) {
+  return useQuery({
+    queryKey: ['flash-sale-templates', shopId],
+    queryFn: async (): Promise<FlashSaleTemplate[]> => {
+      const { data, error } = await supabase
+        .from('apishopee_flash_sale_template_shops')
+        .select(`template:apishopee_flash_sale_templates(${TEMPLATE_COLUMNS})`)
+        .eq('shop_id', shopId!);
+
+      if (error) throw error;
+      return (data || [])
+        .map(row => row.template as unknown as FlashSaleTemplate | null)
+        .filter((t): t is FlashSaleTemplate => !!t && !t.is_archived)
+        .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+    },
+    enabled: !!shopId,
+    staleTime: 60_000,
+  });
+}
+
+/** Mọi template user truy cập được (RLS) kèm các shop đã gắn - dùng cho lên lịch nhiều shop */
+export function useAccessibleFlashSaleTemplates(enabled = true) {
+  return useQuery({
+    queryKey: ['flash-sale-templates', 'accessible'],
+    queryFn: async (): Promise<Array<FlashSaleTemplate & { shop_ids: number[] }>> => {
+      const { data, error } = await supabase
+        .from('apishopee_flash_sale_templates')
+        .select(`${TEMPLATE_COLUMNS}, shops:apishopee_flash_sale_template_shops(shop_id)`)
+        .eq('is_archived', false)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(row => {
+        const { shops, ...template } = row as unknown as FlashSaleTemplate & { shops: { shop_id: number }[] | null };
+        return { ...template, shop_ids: (shops || []).map(s => s.shop_id) };
+      });
+    },
+    enabled,
+    staleTime: 60_000,
+  });
+}
+
+/** Lưu template mới hoặc version mới, gắn template vào các shop đã chọn (RPC save_flash_sale_template) */
+export function useSaveFlashSaleTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: SaveFlashSaleTemplateInput): Promise<{ templateId: string; version: number }> => {
+      // 1 transaction: version mới tính dưới row lock, lỗi giữa chừng không để lại template dở (migration 100)
+      const { data, error } = await supabase.rpc('save_flash_sale_template', {
+        p_template_id: input.templateId || null,
+        p_name: input.name,
+        p_description: input.description || null,
+        p_source_shop_id: input.sourceShopId,
+        p_items: input.items,
+        p_criteria_snapshot: input.criteriaSnapshot,
+        p_note: input.note || null,
+        p_shop_ids: input.shopIds,
+      });
+      if (error) throw error;
+
+      const saved = data as { template_id: string; version: number };
+      return { templateId: saved.template_id, version: saved.version };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['flash-sale-templates'] });
+    },
+  });
+}
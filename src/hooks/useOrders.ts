@@ -0,0 +1,295 @@
+/**
+ * Hook for Orders - danh sách / chi tiết đơn hàng đã đồng bộ, trạng thái job order_sync
+ * (apishopee_orders_sync_status.sync_cursor, realtime) và doanh thu theo khung Flash Sale.
+ * Tables: apishopee_orders (migration 063), apishopee_order_items (migration 091)
+ */
+
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import type { OrderStatus, OrderSyncCounts, OrderSyncCursor, OrderSyncMode } from '@/lib/shopee/order-sync';
+import {
+  computeFlashSaleRevenue,
+  type FlashSaleRevenue,
+  type RevenueOrder,
+  type RevenueOrderItem,
+  type RevenueWindow,
+} from '@/lib/shopee/flash-sale-revenue';
+
+export interface OrderListRow {
+  order_sn: string;
+  order_status: OrderStatus;
+  total_amount: number | null;
+  currency: string | null;
+  create_time: number;
+  update_time: number;
+  buyer_username: string | null;
+  shipping_carrier: string | null;
+  payment_method: string | null;
+  item_list: Array<{ item_name: string; model_quantity_purchased: number }>;
+}
+
+export interface OrderDetail extends OrderListRow {
+  pay_time: number | null;
+  ship_by_date: number | null;
+  cod: boolean | null;
+  estimated_shipping_fee: number | null;
+  actual_shipping_fee: number | null;
+  recipient_address: { name?: string; phone?: string; full_address?: string } | null;
+  cancel_by: string | null;
+  cancel_reason: string | null;
+  buyer_cancel_reason: string | null;
+  message_to_seller: string | null;
+  note: string | null;
+  synced_at: string | null;
+}
+
+export interface OrderItemRow {
+  item_id: number;
+  model_id: number;
+  item_name: string | null;
+  item_sku: string | null;
+  model_name: string | null;
+  model_sku: string | null;
+  quantity: number;
+  original_price: number;
+  discounted_price: number;
+  promotion_type: string | null;
+  flash_sale_id: number | null;
+  image_url: string | null;
+}
+
+export interface OrderSyncResult extends OrderSyncCounts {
+  mode: OrderSyncMode;
+  finished_at: string;
+}
+
+export interface OrderSyncStatus {
+  last_sync_at: string | null;
+  sync_cursor: OrderSyncCursor | null;
+  last_error: string | null;
+  last_sync_result: OrderSyncResult | null;
+  sync_interval_minutes: number | null;
+  next_sync_at: string | null;
+}
+
+export interface OrderFilters {
+  status: OrderStatus | 'all';
+  search: string;
+  page: number;
+  pageSize: number;
+}
+
+/** Lựa chọn chu kỳ tự đồng bộ; null = chỉ đồng bộ thủ công */
+export const ORDER_SYNC_INTERVAL_OPTIONS: Array<{ label: string; value: number | null }> = [
+  { label: '15 phút', value: 15 },
+  { label: '30 phút', value: 30 },
+  { label: '1 giờ', value: 60 },
+  { label: '6 giờ', value: 360 },
+  { label: 'Tắt', value: null },
+];
+
+const LIST_COLUMNS = 'order_sn, order_status, total_amount, currency, create_time, update_time, buyer_username, shipping_carrier, payment_method, item_list';
+const DETAIL_COLUMNS = `${LIST_COLUMNS}, pay_time, ship_by_date, cod, estimated_shipping_fee, actual_shipping_fee, recipient_address, cancel_by, cancel_reason, buyer_cancel_reason, message_to_seller, note, synced_at`;
+const PAGE_SIZE = 1000;
+const JOB_POLL_INTERVAL_MS = 3000;
+
+function orderSyncStatusKey(shopId: number) {
+  return ['orders-sync-status', shopId];
+}
+
+/** Bỏ ký tự có nghĩa trong filter .or() của PostgREST */
+function sanitizeSearch(search: string): string {
+  return search.trim().replace(/[,()%*]/g, '');
+}
+
+/** Đọc hết các dòng theo từng trang PAGE_SIZE (vượt giới hạn 1000 dòng / request) */
+async function fetchAll<T>(build: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown }>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await build(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+export function useOrders(shopId: number | null | undefined, filters: OrderFilters) {
+  return useQuery({
+    queryKey: ['orders', shopId, filters],
+    queryFn: async (): Promise<{ rows: OrderListRow[]; total: number }> => {
+      let query = supabase
+        .from('apishopee_orders')
+        .select(LIST_COLUMNS, { count: 'exact' })
+        .eq('shop_id', shopId!);
+
+      if (filters.status !== 'all') query = query.eq('order_status', filters.status);
+      const search = sanitizeSearch(filters.search);
+      if (search) query = query.or(`order_sn.ilike.%${search}%,buyer_username.ilike.%${search}%`);
+
+      const from = (filters.page - 1) * filters.pageSize;
+      const { data, error, count } = await query
+        .order('create_time', { ascending: false })
+        .range(from, from + filters.pageSize - 1);
+      if (error) throw error;
+      return { rows: (data || []) as OrderListRow[], total: count ?? 0 };
+    },
+    enabled: !!shopId,
+    staleTime: 30_000,
+  });
+}
+
+export function useOrderDetail(shopId: number | null | undefined, orderSn: string | null) {
+  return useQuery({
+    queryKey: ['order-detail', shopId, orderSn],
+    queryFn: async (): Promise<{ order: OrderDetail | null; items: OrderItemRow[] }> => {
+      const [orderRes, itemsRes] = await Promise.all([
+        supabase
+          .from('apishopee_orders')
+          .select(DETAIL_COLUMNS)
+          .eq('shop_id', shopId!)
+          .eq('order_sn', orderSn!)
+          .maybeSingle(),
+        supabase
+          .from('apishopee_order_items')
+          .select('item_id, model_id, item_name, item_sku, model_name, model_sku, quantity, original_price, discounted_price, promotion_type, flash_sale_id, image_url')
+          .eq('shop_id', shopId!)
+          .eq('order_sn', orderSn!),
+      ]);
+      if (orderRes.error) throw orderRes.error;
+      if (itemsRes.error) throw itemsRes.error;
+      return { order: orderRes.data as OrderDetail | null, items: (itemsRes.data || []) as OrderItemRow[] };
+    },
+    enabled: !!shopId && !!orderSn,
+  });
+}
+
+/** Trạng thái sync đơn của shop; cursor đổi (mỗi trang đồng bộ xong) thì tải lại danh sách đơn */
+export function useOrderSyncStatus(shopId: number | null | undefined) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: orderSyncStatusKey(shopId!),
+    queryFn: async (): Promise<OrderSyncStatus | null> => {
+      const { data, error } = await supabase
+        .from('apishopee_orders_sync_status')
+        .select('last_sync_at, sync_cursor, last_error, last_sync_result, sync_interval_minutes, next_sync_at')
+        .eq('shop_id', shopId!)
+        .maybeSingle();
+      if (error) throw error;
+      return data as OrderSyncStatus | null;
+    },
+    enabled: !!shopId,
+    staleTime: 60_000,
+    // Realtime đã invalidate khi cursor đổi, poll thêm phòng khi mất kết nối
+    refetchInterval: q => (q.state.data?.sync_cursor ? JOB_POLL_INTERVAL_MS : false),
+  });
+
+  useEffect(() => {
+    if (!shopId) return;
+
+    const channel = supabase
+      .channel(`orders_sync_status_${shopId}_${Date.now()}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'apishopee_orders_sync_status', filter: `shop_id=eq.${shopId}` },
+        () => {
+          queryClient.invalidateQueries({ queryKey: orderSyncStatusKey(shopId) });
+          queryClient.invalidateQueries({ queryKey: ['orders', shopId] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [shopId, queryClient]);
+
+  return query;
+}
+
+/** Enqueue job order_sync qua apishopee-orders, trả về job_id */
+export function useSyncOrders(shopId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (): Promise<string> => {
+      const { data, error } = await supabase.functions.invoke('apishopee-orders', {
+        body: { action: 'sync-orders', shop_id: shopId },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return data.job_id as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: orderSyncStatusKey(shopId) });
+    },
+  });
+}
+
+export function useUpdateOrderSyncInterval(shopId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (intervalMinutes: number | null) => {
+      const { data, error } = await supabase.functions.invoke('apishopee-orders', {
+        body: { action: 'set-sync-interval', shop_id: shopId, interval_minutes: intervalMinutes },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: orderSyncStatusKey(shopId) });
+    },
+  });
+}
+
+/** Doanh thu đơn hàng theo các khung Flash Sale bắt đầu trong `days` ngày gần nhất */
+export function useFlashSaleRevenue(shopId: number | null | undefined, days: number) {
+  return useQuery({
+    queryKey: ['flash-sale-revenue', shopId, days],
+    queryFn: async (): Promise<FlashSaleRevenue[]> => {
+      const nowSec = Math.floor(Date.now() / 1000);
+      const fromSec = nowSec - days * 24 * 60 * 60;
+
+      const { data: sales, error } = await supabase
+        .from('apishopee_flash_sale_data')
+        .select('flash_sale_id, start_time, end_time')
+        .eq('shop_id', shopId!)
+        .gte('start_time', fromSec)
+        .lt('start_time', nowSec)
+        .order('start_time', { ascending: true });
+      if (error) throw error;
+
+      // Có thể trùng flash_sale_id giữa các user của shop
+      const windows = [...new Map((sales || []).map(s => [s.flash_sale_id as number, s as RevenueWindow])).values()];
+      if (windows.length === 0) return [];
+
+      const rangeFrom = Math.min(...windows.map(w => w.start_time));
+      const rangeTo = Math.max(...windows.map(w => w.end_time));
+      const [orders, items] = await Promise.all([
+        fetchAll<RevenueOrder>((from, to) => supabase
+          .from('apishopee_orders')
+          .select('order_sn, order_status, create_time, total_amount')
+          .eq('shop_id', shopId!)
+          .gte('create_time', rangeFrom)
+          .lt('create_time', rangeTo)
+          .order('create_time', { ascending: true })
+          .range(from, to)),
+        fetchAll<RevenueOrderItem>((from, to) => supabase
+          .from('apishopee_order_items')
+          .select('order_sn, order_status, create_time, flash_sale_id, quantity, discounted_price')
+          .eq('shop_id', shopId!)
+          .not('flash_sale_id', 'is', null)
+          .gte('create_time', rangeFrom)
+          .lt('create_time', rangeTo)
+          .order('id', { ascending: true })
+          .range(from, to)),
+      ]);
+
+      return computeFlashSaleRevenue(windows, orders, items);
+    },
+    enabled: !!shopId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -1,14 +1,22 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
+import { hasPermission } from '@/lib/app-permissions';
 
 export type AppRole = 'super_admin' | 'admin' | 'leader' | 'member';
 
+/** Vai trò tùy chỉnh admin gán cho user (migration 095) - thay quyền mặc định của role */
+export interface CustomRoleRef {
+  id: string;
+  name: string;
+}
+
 interface PermissionsState {
   role: AppRole | null;
   positionLevel: number | null;
   managedMemberIds: string[];
   features: string[];
+  customRole: CustomRoleRef | null;
   isLoading: boolean;
 }
 
@@ -19,12 +27,13 @@ export function usePermissions() {
     positionLevel: null,
     managedMemberIds: [],
     features: [],
+    customRole: null,
     isLoading: true,
   });
 
   useEffect(() => {
     if (!user?.id) {
-      setState(prev => ({ ...prev, role: null, features: [], isLoading: false }));
+      setState(prev => ({ ...prev, role: null, features: [], customRole: null, isLoading: false }));
       return;
     }
 
@@ -38,7 +47,7 @@ export function usePermissions() {
       if (cancelled) return;
 
       if (error || !data) {
-        setState(prev => ({ ...prev, role: null, features: [], isLoading: false }));
+        setState(prev => ({ ...prev, role: null, features: [], customRole: null, isLoading: false }));
         return;
       }
 
@@ -47,6 +56,7 @@ export function usePermissions() {
         positionLevel: data.position_level,
         managedMemberIds: data.managed_member_ids ?? [],
         features: data.features ?? [],
+        customRole: data.custom_role ?? null,
         isLoading: false,
       });
     }
@@ -55,11 +65,11 @@ export function usePermissions() {
     return () => { cancelled = true; };
   }, [user?.id]);
 
+  // key trang ('flash-sale') hoặc key thao tác ('flash-sale:delete')
   const hasFeature = useCallback(
     (key: string) => {
       if (!state.role) return false;
-      if (state.features.includes('*')) return true;
-      return state.features.includes(key);
+      return hasPermission(state.features, key);
     },
     [state.role, state.features],
   );
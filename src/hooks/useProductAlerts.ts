@@ -0,0 +1,206 @@
+/**
+ * Hook for Product Alerts - CRUD rule cảnh báo giá / tồn kho / trạng thái của shop
+ * và inbox alert (xác nhận / tạm hoãn).
+ * Tables: apishopee_product_alert_rules, apishopee_product_alerts (migration 086)
+ */
+
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import {
+  snoozeUntil,
+  type AlertRuleType,
+  type AlertSeverity,
+  type AlertStatus,
+  type ProductAlertRule,
+} from '@/lib/shopee/product-alerts';
+
+export interface ProductAlert {
+  id: string;
+  shop_id: number;
+  rule_id: string | null;
+  history_log_id: string | null;
+  item_id: number;
+  item_name: string | null;
+  model_id: number | null;
+  model_name: string | null;
+  rule_type: AlertRuleType;
+  severity: AlertSeverity;
+  message: string;
+  details: Record<string, unknown> | null;
+  status: AlertStatus;
+  snoozed_until: string | null;
+  acknowledged_by: string | null;
+  acknowledged_at: string | null;
+  created_at: string;
+}
+
+export interface AlertRuleInput {
+  /** Có id = cập nhật rule */
+  id?: string;
+  shopId: number;
+  name?: string;
+  ruleType: AlertRuleType;
+  threshold: number | null;
+  severity: AlertSeverity;
+  categoryId: number | null;
+  itemId: number | null;
+  isEnabled: boolean;
+}
+
+const RULE_COLUMNS = 'id, shop_id, category_id, item_id, name, rule_type, threshold, severity, is_enabled';
+const ALERT_COLUMNS = 'id, shop_id, rule_id, history_log_id, item_id, item_name, model_id, model_name, rule_type, severity, message, details, status, snoozed_until, acknowledged_by, acknowledged_at, created_at';
+const INBOX_LIMIT = 500;
+
+// ==================== RULES ====================
+
+export function useProductAlertRules(shopId: number | null | undefined) {
+  return useQuery({
+    queryKey: ['product-alert-rules', shopId],
+    queryFn: async (): Promise<ProductAlertRule[]> => {
+      const { data, error } = await supabase
+        .from('apishopee_product_alert_rules')
+        .select(RULE_COLUMNS)
+        .eq('shop_id', shopId!)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return (data || []).map(r => ({ ...r, threshold: r.threshold === null ? null : Number(r.threshold) })) as ProductAlertRule[];
+    },
+    enabled: !!shopId,
+    staleTime: 30_000,
+  });
+}
+
+export function useSaveProductAlertRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: AlertRuleInput): Promise<string> => {
+      const fields = {
+        name: input.name?.trim() || null,
+        rule_type: input.ruleType,
+        threshold: input.threshold,
+        severity: input.severity,
+        category_id: input.categoryId,
+        item_id: input.itemId,
+        is_enabled: input.isEnabled,
+      };
+
+      if (input.id) {
+        const { error } = await supabase
+          .from('apishopee_product_alert_rules')
+          .update(fields)
+          .eq('id', input.id);
+        if (error) throw error;
+        return input.id;
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Chưa đăng nhập');
+
+      const { data, error } = await supabase
+        .from('apishopee_product_alert_rules')
+        .insert({ ...fields, shop_id: input.shopId, created_by: user.id })
+        .select('id')
+        .single();
+      if (error) throw error;
+      return data.id as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['product-alert-rules'] });
+    },
+  });
+}
+
+export function useDeleteProductAlertRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('apishopee_product_alert_rules')
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['product-alert-rules'] });
+    },
+  });
+}
+
+// ==================== INBOX ====================
+
+/**
+ * Alert của shop, cập nhật realtime: mặc định các alert chưa xác nhận (open + snoozed, chia view
+ * bằng filterAlertInbox), acknowledged = true lấy các alert đã xác nhận gần nhất
+ */
+export function useProductAlerts(shopId: number | null | undefined, acknowledged = false) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['product-alerts', shopId, acknowledged],
+    queryFn: async (): Promise<ProductAlert[]> => {
+      let request = supabase
+        .from('apishopee_product_alerts')
+        .select(ALERT_COLUMNS)
+        .eq('shop_id', shopId!);
+      request = acknowledged
+        ? request.eq('status', 'acknowledged').order('acknowledged_at', { ascending: false })
+        : request.in('status', ['open', 'snoozed']).order('created_at', { ascending: false });
+
+      const { data, error } = await request.limit(INBOX_LIMIT);
+      if (error) throw error;
+      return (data || []) as ProductAlert[];
+    },
+    enabled: !!shopId,
+    staleTime: 30_000,
+    // Alert tạm hoãn tự quay lại inbox khi hết hạn
+    refetchInterval: acknowledged ? false : 5 * 60 * 1000,
+  });
+
+  useEffect(() => {
+    if (!shopId) return;
+
+    const channel = supabase
+      .channel(`product_alerts_${shopId}_${Date.now()}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'apishopee_product_alerts', filter: `shop_id=eq.${shopId}` },
+        () => queryClient.invalidateQueries({ queryKey: ['product-alerts', shopId] })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [shopId, queryClient]);
+
+  return query;
+}
+
+/** Xác nhận hoặc tạm hoãn (snoozeHours) các alert */
+export function useUpdateProductAlerts() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ ids, snoozeHours }: { ids: string[]; snoozeHours?: number }) => {
+      let fields: Record<string, unknown>;
+      if (snoozeHours) {
+        fields = { status: 'snoozed', snoozed_until: snoozeUntil(snoozeHours) };
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        fields = { status: 'acknowledged', acknowledged_by: user?.id ?? null, acknowledged_at: new Date().toISOString(), snoozed_until: null };
+      }
+
+      const { error } = await supabase
+        .from('apishopee_product_alerts')
+        .update(fields)
+        .in('id', ids);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['product-alerts'] });
+    },
+  });
+}
@@ -0,0 +1,135 @@
+/**
+ * Hook danh mục chung nhiều shop - đọc sản phẩm / phân loại của các shop đã chọn và
+ * ghép tay SKU (apishopee_catalog_sku_links, migration 089)
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import {
+  buildCatalogListings,
+  normalizeSku,
+  type CatalogLink,
+  type CatalogListing,
+  type CatalogSourceModel,
+  type CatalogSourceProduct,
+} from '@/lib/shopee/product-catalog';
+
+export interface SaveCatalogLinkInput {
+  shopId: number;
+  itemId: number;
+  modelId: number;
+  /** null = không ghép */
+  masterSku: string | null;
+}
+
+/** PostgREST trả tối đa 1000 dòng / request */
+const PAGE_SIZE = 1000;
+
+async function fetchAllRows<T>(
+  table: string,
+  columns: string,
+  shopIds: number[]
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .in('shop_id', shopIds)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+function catalogLinksKey(shopIds: number[]) {
+  return ['catalog-sku-links', shopIds];
+}
+
+/** Listing (sản phẩm / phân loại) của các shop */
+export function useCatalogListings(shopIds: number[]) {
+  return useQuery({
+    queryKey: ['catalog-listings', shopIds],
+    queryFn: async (): Promise<CatalogListing[]> => {
+      const [products, models] = await Promise.all([
+        fetchAllRows<CatalogSourceProduct>(
+          'apishopee_products',
+          'id, shop_id, item_id, item_name, item_sku, item_status, has_model, current_price, original_price, total_available_stock, image_url_list',
+          shopIds
+        ),
+        fetchAllRows<CatalogSourceModel>(
+          'apishopee_product_models',
+          'id, shop_id, item_id, model_id, model_sku, model_name, current_price, original_price, total_available_stock, image_url',
+          shopIds
+        ),
+      ]);
+      return buildCatalogListings(products, models);
+    },
+    enabled: shopIds.length > 0,
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useCatalogLinks(shopIds: number[]) {
+  return useQuery({
+    queryKey: catalogLinksKey(shopIds),
+    queryFn: async (): Promise<CatalogLink[]> => {
+      const { data, error } = await supabase
+        .from('apishopee_catalog_sku_links')
+        .select('shop_id, item_id, model_id, master_sku')
+        .in('shop_id', shopIds);
+      if (error) throw error;
+      return (data || []) as CatalogLink[];
+    },
+    enabled: shopIds.length > 0,
+  });
+}
+
+export function useSaveCatalogLink(userId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: SaveCatalogLinkInput) => {
+      const masterSku = input.masterSku === null ? null : normalizeSku(input.masterSku);
+      if (masterSku === '') throw new Error('SKU không được để trống');
+
+      const { error } = await supabase
+        .from('apishopee_catalog_sku_links')
+        .upsert({
+          shop_id: input.shopId,
+          item_id: input.itemId,
+          model_id: input.modelId,
+          master_sku: masterSku,
+          created_by: userId,
+          updated_by: userId,
+        }, { onConflict: 'shop_id,item_id,model_id' });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['catalog-sku-links'] });
+    },
+  });
+}
+
+/** Bỏ ghép tay - listing quay về ghép theo SKU trên Shopee */
+export function useDeleteCatalogLink() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: Omit<SaveCatalogLinkInput, 'masterSku'>) => {
+      const { error } = await supabase
+        .from('apishopee_catalog_sku_links')
+        .delete()
+        .eq('shop_id', input.shopId)
+        .eq('item_id', input.itemId)
+        .eq('model_id', input.modelId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['catalog-sku-links'] });
+    },
+  });
+}
@@ -0,0 +1,192 @@
+/**
+ * Hook sửa nội dung sản phẩm - nội dung hiện tại + yêu cầu ngành hàng (get-content),
+ * bản nháp trong apishopee_product_content_drafts (migration 088), upload ảnh lên
+ * media_space và đẩy nháp lên Shopee (push-content) qua apishopee-product
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { useInvalidateProductEdits } from '@/hooks/useProductEdits';
+import type {
+  CategoryAttribute,
+  ContentValidationError,
+  ProductBrand,
+  ProductContent,
+  ProductContentField,
+  ProductContentLimits,
+  ProductImage,
+} from '@/lib/shopee/product-content';
+
+export interface ProductContentMeta {
+  content: ProductContent;
+  category_id: number;
+  attributes: CategoryAttribute[];
+  brands: ProductBrand[];
+  limits: ProductContentLimits;
+}
+
+export interface ProductContentDraft {
+  id: string;
+  shop_id: number;
+  item_id: number;
+  category_id: number | null;
+  base_content: ProductContent;
+  content: ProductContent;
+  status: 'draft' | 'failed' | 'pushed';
+  validation_errors: ContentValidationError[];
+  last_error: string | null;
+  updated_at: string;
+}
+
+export interface ContentPushResult {
+  success: boolean;
+  changed_fields: ProductContentField[];
+  validation_errors?: ContentValidationError[];
+  conflicts?: ProductContentField[];
+  history_logs_created: number;
+  error?: string;
+}
+
+export interface SaveDraftInput {
+  /** Có id = cập nhật nháp đang mở */
+  id?: string;
+  categoryId: number;
+  baseContent: ProductContent;
+  content: ProductContent;
+  validationErrors: ContentValidationError[];
+}
+
+const DRAFT_COLUMNS = 'id, shop_id, item_id, category_id, base_content, content, status, validation_errors, last_error, updated_at';
+
+async function invokeContentAction<T>(shopId: number, userId: string, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('apishopee-product', {
+    body: { ...body, shop_id: shopId, user_id: userId },
+  });
+
+  if (error) throw error;
+  if (data?.error && data?.success === undefined) throw new Error(data.error);
+  return data as T;
+}
+
+/** Nội dung trên Shopee + thuộc tính / thương hiệu / giới hạn của ngành hàng */
+export function useProductContent(shopId: number, userId: string, itemId: number | null) {
+  return useQuery({
+    queryKey: ['product-content', shopId, itemId],
+    queryFn: async (): Promise<ProductContentMeta> => {
+      const data = await invokeContentAction<ProductContentMeta & { success: boolean; error?: string }>(
+        shopId, userId, { action: 'get-content', item_id: itemId }
+      );
+      if (!data.success) throw new Error(data.error || 'Không tải được nội dung sản phẩm');
+      return data;
+    },
+    enabled: !!shopId && !!itemId,
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/** Nháp đang mở (draft / failed) của sản phẩm */
+export function useProductContentDraft(shopId: number, itemId: number | null) {
+  return useQuery({
+    queryKey: ['product-content-draft', shopId, itemId],
+    queryFn: async (): Promise<ProductContentDraft | null> => {
+      const { data, error } = await supabase
+        .from('apishopee_product_content_drafts')
+        .select(DRAFT_COLUMNS)
+        .eq('shop_id', shopId)
+        .eq('item_id', itemId)
+        .neq('status', 'pushed')
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as ProductContentDraft | null;
+    },
+    enabled: !!shopId && !!itemId,
+  });
+}
+
+export function useSaveProductContentDraft(shopId: number, userId: string, itemId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: SaveDraftInput): Promise<ProductContentDraft> => {
+      const fields = {
+        category_id: input.categoryId,
+        content: input.content,
+        validation_errors: input.validationErrors,
+        status: 'draft',
+        updated_by: userId,
+      };
+      const query = input.id
+        ? supabase.from('apishopee_product_content_drafts').update(fields).eq('id', input.id)
+        : supabase.from('apishopee_product_content_drafts').insert({
+          ...fields,
+          shop_id: shopId,
+          item_id: itemId,
+          base_content: input.baseContent,
+          created_by: userId,
+        });
+
+      const { data, error } = await query.select(DRAFT_COLUMNS).single();
+      if (error) throw error;
+      return data as ProductContentDraft;
+    },
+    onSuccess: (draft) => {
+      queryClient.setQueryData(['product-content-draft', shopId, itemId], draft);
+    },
+  });
+}
+
+export function useDiscardProductContentDraft(shopId: number, itemId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (draftId: string) => {
+      const { error } = await supabase.from('apishopee_product_content_drafts').delete().eq('id', draftId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(['product-content-draft', shopId, itemId], null);
+    },
+  });
+}
+
+export function usePushProductContent(shopId: number, userId: string, itemId: number) {
+  const queryClient = useQueryClient();
+  const invalidateProducts = useInvalidateProductEdits(shopId);
+
+  return useMutation({
+    mutationFn: (draftId: string) =>
+      invokeContentAction<ContentPushResult>(shopId, userId, { action: 'push-content', draft_id: draftId }),
+    onSettled: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['product-content-draft', shopId, itemId] });
+      if (result?.success) {
+        queryClient.invalidateQueries({ queryKey: ['product-content', shopId, itemId] });
+        invalidateProducts();
+      }
+    },
+  });
+}
+
+function fileToBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/** Upload ảnh lên Shopee media_space, trả về image_id + url để thêm vào nháp */
+export async function uploadProductImage(shopId: number, userId: string, file: File): Promise<ProductImage> {
+  const data = await invokeContentAction<{ success: boolean; image_id?: string; image_url?: string; error?: string }>(
+    shopId, userId, {
+      action: 'upload-image',
+      image_base64: await fileToBase64(file),
+      file_name: file.name,
+      content_type: file.type || 'image/jpeg',
+    }
+  );
+  if (!data.success || !data.image_id) throw new Error(data.error || 'Upload ảnh thất bại');
+  return { image_id: data.image_id, image_url: data.image_url || '' };
+}
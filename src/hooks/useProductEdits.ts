@@ -0,0 +1,39 @@
+/**
+ * Hook sửa sản phẩm từ ProductsPanel - ghi giá / tồn kho / trạng thái lên Shopee
+ * qua apishopee-product; edge function cập nhật DB và log history (source = manual)
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import type { ProductEditRequest, ProductEditResult } from '@/lib/shopee/product-edit';
+
+/** Gọi 1 action sửa sản phẩm (không invalidate cache - dùng cho sửa hàng loạt) */
+export async function invokeProductEdit(shopId: number, userId: string, request: ProductEditRequest): Promise<ProductEditResult> {
+  const { data, error } = await supabase.functions.invoke('apishopee-product', {
+    body: { ...request, shop_id: shopId, user_id: userId },
+  });
+
+  if (error) throw error;
+  if (data?.error && !data?.failures) throw new Error(data.error);
+  return data as ProductEditResult;
+}
+
+export function useInvalidateProductEdits(shopId: number) {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['products', shopId] });
+    queryClient.invalidateQueries({ queryKey: ['product-models', shopId] });
+    queryClient.invalidateQueries({ queryKey: ['product-history', shopId] });
+    queryClient.invalidateQueries({ queryKey: ['product-history-stats', shopId] });
+  };
+}
+
+export function useProductEdit(shopId: number, userId: string) {
+  const invalidate = useInvalidateProductEdits(shopId);
+
+  return useMutation({
+    mutationFn: (request: ProductEditRequest) => invokeProductEdit(shopId, userId, request),
+    onSuccess: invalidate,
+  });
+}
@@ -0,0 +1,137 @@
+/**
+ * Hook đồng bộ sản phẩm - enqueue job product_sync của worker qua apishopee-product,
+ * theo dõi tiến độ qua apishopee_sync_status.products_sync_cursor (migration 087)
+ * và chờ job (kể cả các job chạy tiếp) hoàn thành trong worker_jobs
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import type { ProductSyncCounts, ProductSyncCursor, ProductSyncMode } from '@/lib/shopee/product-sync';
+
+export interface ProductSyncResult extends ProductSyncCounts {
+  mode: ProductSyncMode;
+  finished_at: string;
+}
+
+export interface ProductSyncStatus {
+  products_synced_at: string | null;
+  products_sync_cursor: ProductSyncCursor | null;
+  products_sync_error: string | null;
+  products_last_sync_result: ProductSyncResult | null;
+  products_sync_interval_minutes: number | null;
+  products_next_sync_at: string | null;
+}
+
+/** Lựa chọn chu kỳ tự đồng bộ; null = chỉ đồng bộ thủ công */
+export const PRODUCT_SYNC_INTERVAL_OPTIONS: Array<{ label: string; value: number | null }> = [
+  { label: '30 phút', value: 30 },
+  { label: '1 giờ', value: 60 },
+  { label: '6 giờ', value: 360 },
+  { label: '24 giờ', value: 1440 },
+  { label: 'Tắt', value: null },
+];
+
+const JOB_POLL_INTERVAL_MS = 3000;
+
+export function productSyncStatusKey(shopId: number) {
+  return ['products-sync-status', shopId];
+}
+
+/**
+ * Trạng thái sync của shop. Ưu tiên record của user hiện tại (chủ cursor khi user bấm sync),
+ * fallback record có products_synced_at mới nhất
+ */
+export function useProductSyncStatus(shopId: number, userId: string) {
+  return useQuery({
+    queryKey: productSyncStatusKey(shopId),
+    queryFn: async (): Promise<ProductSyncStatus | null> => {
+      const { data, error } = await supabase
+        .from('apishopee_sync_status')
+        .select('user_id, products_synced_at, products_sync_cursor, products_sync_error, products_last_sync_result, products_sync_interval_minutes, products_next_sync_at')
+        .eq('shop_id', shopId)
+        .order('products_synced_at', { ascending: false, nullsFirst: false });
+
+      if (error) throw error;
+      const rows = data || [];
+      return rows.find(r => r.user_id === userId) ?? rows[0] ?? null;
+    },
+    enabled: !!shopId,
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: false,
+    refetchOnMount: false,
+    // Realtime đã invalidate khi cursor đổi, poll thêm phòng khi mất kết nối
+    refetchInterval: query => (query.state.data?.products_sync_cursor ? JOB_POLL_INTERVAL_MS : false),
+  });
+}
+
+/** Enqueue 1 lần sync, trả về job_id (job đang chờ / chạy của shop nếu đã có) */
+export async function enqueueProductSync(shopId: number, userId: string, mode: ProductSyncMode): Promise<string> {
+  const { data, error } = await supabase.functions.invoke('apishopee-product', {
+    body: {
+      action: mode === 'full' ? 'sync-products' : 'check-updates',
+      shop_id: shopId,
+      user_id: userId,
+    },
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data.job_id as string;
+}
+
+/**
+ * Chờ job product_sync xong. Job hết thời gian chạy trả về next_job_id thì chờ tiếp job đó;
+ * job dead (hết số lần retry) thì throw last_error
+ */
+export async function waitForProductSync(jobId: string, signal?: AbortSignal): Promise<ProductSyncResult> {
+  let currentId = jobId;
+
+  while (!signal?.aborted) {
+    const { data: job, error } = await supabase
+      .from('worker_jobs')
+      .select('status, result, last_error')
+      .eq('id', currentId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!job) throw new Error('Không tìm thấy job đồng bộ');
+
+    if (job.status === 'dead') throw new Error(job.last_error || 'Đồng bộ sản phẩm thất bại');
+    if (job.status === 'completed') {
+      const result = (job.result || {}) as Record<string, unknown>;
+      if (typeof result.next_job_id === 'string') {
+        currentId = result.next_job_id;
+        continue;
+      }
+      return result as unknown as ProductSyncResult;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+  }
+
+  throw new Error('Đã hủy theo dõi đồng bộ');
+}
+
+export function useUpdateProductSyncInterval(shopId: number, userId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (intervalMinutes: number | null) => {
+      const { error } = await supabase
+        .from('apishopee_sync_status')
+        .upsert({
+          shop_id: shopId,
+          user_id: userId,
+          products_sync_interval_minutes: intervalMinutes,
+          // Cron enqueue ở lần chạy kế tiếp, sau đó tính lịch theo chu kỳ mới
+          products_next_sync_at: null,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'shop_id,user_id' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: productSyncStatusKey(shopId) });
+    },
+  });
+}
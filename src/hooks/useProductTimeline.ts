@@ -0,0 +1,132 @@
+/**
+ * Hook for Product Timeline - chuỗi giá / tồn kho theo phân loại của 1 sản phẩm trong khoảng thời gian,
+ * kèm các khung Flash Sale của shop để overlay.
+ * Tables: apishopee_product_history_logs, apishopee_products, apishopee_product_models,
+ * apishopee_flash_sale_data, apishopee_flash_sale_auto_history
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import {
+  buildTimelineSeries,
+  type FlashSaleWindow,
+  type TimelineLog,
+  type TimelineSeries,
+  type TimelineSnapshot,
+} from '@/lib/shopee/product-timeline';
+
+export interface ProductTimeline {
+  series: TimelineSeries[];
+  windows: FlashSaleWindow[];
+  /** Số log đã chạm giới hạn - timeline đầu khoảng có thể thiếu */
+  truncated: boolean;
+}
+
+const TIMELINE_CHANGE_TYPES = ['price_change', 'stock_change', 'product_created'];
+const TIMELINE_LOG_LIMIT = 2000;
+
+async function fetchSnapshots(shopId: number, itemId: number): Promise<TimelineSnapshot[]> {
+  const [productRes, modelsRes] = await Promise.all([
+    supabase
+      .from('apishopee_products')
+      .select('current_price, original_price, total_available_stock, synced_at')
+      .eq('shop_id', shopId)
+      .eq('item_id', itemId)
+      .maybeSingle(),
+    supabase
+      .from('apishopee_product_models')
+      .select('model_id, model_name, current_price, original_price, total_available_stock, synced_at')
+      .eq('shop_id', shopId)
+      .eq('item_id', itemId),
+  ]);
+  if (productRes.error) throw productRes.error;
+  if (modelsRes.error) throw modelsRes.error;
+
+  const snapshots: TimelineSnapshot[] = (modelsRes.data || [])
+    .filter(m => m.synced_at)
+    .map(m => ({
+      model_id: m.model_id,
+      model_name: m.model_name || '',
+      current_price: Number(m.current_price) || 0,
+      original_price: Number(m.original_price) || 0,
+      total_available_stock: m.total_available_stock || 0,
+      synced_at: m.synced_at,
+    }));
+
+  // Sản phẩm không phân loại: snapshot ở cấp sản phẩm (model_id = 0)
+  const product = productRes.data;
+  if (snapshots.length === 0 && product?.synced_at) {
+    snapshots.push({
+      model_id: 0,
+      model_name: '',
+      current_price: Number(product.current_price) || 0,
+      original_price: Number(product.original_price) || 0,
+      total_available_stock: product.total_available_stock || 0,
+      synced_at: product.synced_at,
+    });
+  }
+  return snapshots;
+}
+
+/** Khung Flash Sale giao với khoảng thời gian, đánh dấu khung có đăng ký sản phẩm (qua auto history) */
+async function fetchFlashSaleWindows(shopId: number, itemId: number, from: number, to: number): Promise<FlashSaleWindow[]> {
+  const { data, error } = await supabase
+    .from('apishopee_flash_sale_data')
+    .select('flash_sale_id, start_time, end_time')
+    .eq('shop_id', shopId)
+    .lt('start_time', to)
+    .gt('end_time', from)
+    .order('start_time', { ascending: true });
+  if (error) throw error;
+  if (!data || data.length === 0) return [];
+
+  const { data: history } = await supabase
+    .from('apishopee_flash_sale_auto_history')
+    .select('flash_sale_id')
+    .eq('shop_id', shopId)
+    .in('flash_sale_id', data.map(fs => fs.flash_sale_id))
+    .in('status', ['success', 'partial'])
+    .contains('items_data', JSON.stringify([{ item_id: itemId }]));
+  const withItem = new Set((history || []).map(h => h.flash_sale_id as number));
+
+  return data.map(fs => ({
+    flash_sale_id: fs.flash_sale_id,
+    start_time: fs.start_time,
+    end_time: fs.end_time,
+    includes_item: withItem.has(fs.flash_sale_id) ? true : undefined,
+  }));
+}
+
+export function useProductTimeline(shopId: number | null | undefined, itemId: number | null | undefined, days: number) {
+  return useQuery({
+    queryKey: ['product-timeline', shopId, itemId, days],
+    queryFn: async (): Promise<ProductTimeline> => {
+      const now = Date.now();
+      const fromMs = now - days * 24 * 60 * 60 * 1000;
+
+      const [logsRes, snapshots, windows] = await Promise.all([
+        supabase
+          .from('apishopee_product_history_logs')
+          .select('detected_at, change_type, model_id, model_name, source, old_value, new_value')
+          .eq('shop_id', shopId!)
+          .eq('item_id', itemId!)
+          .in('change_type', TIMELINE_CHANGE_TYPES)
+          .gte('detected_at', new Date(fromMs).toISOString())
+          .order('detected_at', { ascending: true })
+          .limit(TIMELINE_LOG_LIMIT),
+        fetchSnapshots(shopId!, itemId!),
+        fetchFlashSaleWindows(shopId!, itemId!, Math.floor(fromMs / 1000), Math.floor(now / 1000)),
+      ]);
+      if (logsRes.error) throw logsRes.error;
+
+      const logs = (logsRes.data || []) as TimelineLog[];
+      return {
+        series: buildTimelineSeries(logs, snapshots),
+        windows,
+        truncated: logs.length >= TIMELINE_LOG_LIMIT,
+      };
+    },
+    enabled: !!shopId && !!itemId,
+    staleTime: 60_000,
+  });
+}
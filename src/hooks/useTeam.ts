@@ -0,0 +1,57 @@
+/**
+ * Hook Nhóm của tôi - Flash Sale theo từng thành viên và bàn giao shop (migration 096)
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import type { TeamMemberOverview } from '@/lib/team';
+
+export interface HandoverInput {
+  fromProfileId: string;
+  toProfileId: string;
+  /** Gỡ người bàn giao khỏi các shop (mặc định true) */
+  removeFrom: boolean;
+  reason?: string | null;
+}
+
+export interface HandoverResult {
+  shops: number;
+  memberships_added: number;
+  memberships_removed: number;
+  jobs_reassigned: number;
+  rules_reassigned: number;
+}
+
+const TEAM_OVERVIEW_KEY = ['team-overview'];
+
+export function useTeamOverview(days: number) {
+  return useQuery({
+    queryKey: [...TEAM_OVERVIEW_KEY, days],
+    queryFn: async (): Promise<TeamMemberOverview[]> => {
+      const { data, error } = await supabase.rpc('get_team_flash_sale_overview', { p_days: days });
+      if (error) throw error;
+      return (data || []) as TeamMemberOverview[];
+    },
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useHandoverMemberShops() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: HandoverInput): Promise<HandoverResult> => {
+      const { data, error } = await supabase.rpc('handover_member_shops', {
+        p_from_profile_id: input.fromProfileId,
+        p_to_profile_id: input.toProfileId,
+        p_remove_from: input.removeFrom,
+        p_reason: input.reason || null,
+      });
+      if (error) throw error;
+      return data as HandoverResult;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TEAM_OVERVIEW_KEY });
+    },
+  });
+}
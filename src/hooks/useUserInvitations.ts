@@ -0,0 +1,133 @@
+/**
+ * Hook lời mời người dùng - danh sách, gửi / gửi lại qua admin-invite-user, thu hồi và
+ * vô hiệu hóa người dùng qua RPC admin (migration 097)
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import type { InvitationInput, UserInvitation } from '@/lib/user-invitations';
+
+export interface InviteResult {
+  email: string;
+  status: 'sent' | 'skipped' | 'failed';
+  invitation_id?: string;
+  message?: string;
+}
+
+export interface DeprovisionResult {
+  memberships_removed: number;
+  sessions_revoked: number;
+  invitations_revoked: number;
+  /** Lịch Flash Sale chưa chạy của user, chuyển sang 'error' (migration 106) */
+  flash_sale_jobs_cancelled: number;
+  /** Lịch lặp do user tạo, tạm dừng */
+  recurring_rules_paused: number;
+}
+
+const USER_INVITATIONS_KEY = ['user-invitations'];
+
+/** Trang nhận lời mời (link trong email) */
+function inviteRedirectUrl(): string {
+  return `${window.location.origin}/auth/invite`;
+}
+
+async function invokeInviteFunction<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('admin-invite-user', { body });
+  if (error) throw new Error(error.message || 'Không thể gửi lời mời');
+  if (data?.error) throw new Error(data.error);
+  return data as T;
+}
+
+export function useUserInvitations() {
+  return useQuery({
+    queryKey: USER_INVITATIONS_KEY,
+    queryFn: async (): Promise<UserInvitation[]> => {
+      const { data, error } = await supabase
+        .from('apishopee_user_invitations')
+        .select('id, email, full_name, phone, system_role, custom_role_id, shop_ids, department_id, manager_id, status, expires_at, invited_by, auth_user_id, accepted_at, revoked_by, revoked_at, last_sent_at, send_count, created_at')
+        .order('created_at', { ascending: false })
+        .limit(500);
+      if (error) throw error;
+      return (data || []) as UserInvitation[];
+    },
+    staleTime: 30 * 1000,
+  });
+}
+
+export function useSendInvitations() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ invitations, departmentId }: { invitations: InvitationInput[]; departmentId: string | null }) => {
+      const data = await invokeInviteFunction<{ results: InviteResult[] }>({
+        action: 'invite',
+        invitations,
+        department_id: departmentId,
+        redirect_url: inviteRedirectUrl(),
+      });
+      return data.results;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: USER_INVITATIONS_KEY });
+    },
+  });
+}
+
+export function useResendInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (invitationId: string) => {
+      const data = await invokeInviteFunction<{ result: InviteResult }>({
+        action: 'resend',
+        invitation_id: invitationId,
+        redirect_url: inviteRedirectUrl(),
+      });
+      return data.result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: USER_INVITATIONS_KEY });
+    },
+  });
+}
+
+export function useRevokeInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason?: string | null }) => {
+      const { error } = await supabase.rpc('admin_revoke_user_invitation', {
+        p_invitation_id: id,
+        p_reason: reason || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: USER_INVITATIONS_KEY });
+    },
+  });
+}
+
+/** Gỡ mọi shop, vai trò, nhóm, phiên đăng nhập của user trong 1 transaction; tài khoản bị khóa */
+export function useDeprovisionUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ profileId, reason }: { profileId: string; reason?: string | null }): Promise<DeprovisionResult> => {
+      const { data, error } = await supabase.rpc('admin_deprovision_user', {
+        p_profile_id: profileId,
+        p_reason: reason || null,
+      });
+      if (error) throw error;
+      return data as DeprovisionResult;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: USER_INVITATIONS_KEY });
+    },
+  });
+}
+
+/** Người được mời (đã đăng nhập qua link) nhận vai trò / shop của lời mời */
+export async function acceptInvitation(token: string): Promise<void> {
+  await invokeInviteFunction<{ success: true }>({ action: 'accept', token });
+}
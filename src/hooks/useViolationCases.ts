@@ -0,0 +1,220 @@
+/**
+ * Hook for Violation Cases - danh sách case vi phạm của shop (realtime), giao việc / hạn xử lý /
+ * chuyển trạng thái và kiểm tra lại qua apishopee-product (verify-violation).
+ * Table: apishopee_violation_cases (migration 090)
+ */
+
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import {
+  canTransition,
+  summarizeViolationCases,
+  VIOLATION_STATUS_LABELS,
+  type VerificationOutcome,
+  type ViolationStatus,
+  type ViolationSummary,
+} from '@/lib/shopee/violation-cases';
+
+export interface ViolationCase {
+  id: string;
+  shop_id: number;
+  item_id: number;
+  item_name: string | null;
+  violation_type: string;
+  violation_reason: string | null;
+  suggestion: string | null;
+  status: ViolationStatus;
+  assignee_id: string | null;
+  due_at: string | null;
+  note: string | null;
+  report_count: number;
+  first_reported_at: string;
+  last_reported_at: string;
+  fixed_at: string | null;
+  last_check_at: string | null;
+  last_check_item_status: string | null;
+  last_check_message: string | null;
+  verified_at: string | null;
+}
+
+export interface ShopMemberOption {
+  id: string;
+  name: string;
+}
+
+export interface ViolationCasePatch {
+  status?: ViolationStatus;
+  assignee_id?: string | null;
+  due_at?: string | null;
+  note?: string | null;
+}
+
+export interface ViolationCheckResult {
+  success: boolean;
+  outcome?: VerificationOutcome;
+  status?: ViolationStatus;
+  item_status?: string | null;
+  message?: string;
+  error?: string;
+}
+
+const CASE_COLUMNS = 'id, shop_id, item_id, item_name, violation_type, violation_reason, suggestion, status, assignee_id, due_at, note, report_count, first_reported_at, last_reported_at, fixed_at, last_check_at, last_check_item_status, last_check_message, verified_at';
+const VERIFIED_LIMIT = 100;
+
+/** Case chưa xác nhận + các case đã xác nhận gần nhất */
+export function useViolationCases(shopId: number | null | undefined, includeVerified: boolean) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['violation-cases', shopId, includeVerified],
+    queryFn: async (): Promise<ViolationCase[]> => {
+      const { data: unresolved, error } = await supabase
+        .from('apishopee_violation_cases')
+        .select(CASE_COLUMNS)
+        .eq('shop_id', shopId!)
+        .neq('status', 'verified')
+        .order('due_at', { ascending: true, nullsFirst: false });
+      if (error) throw error;
+      if (!includeVerified) return (unresolved || []) as ViolationCase[];
+
+      const { data: verified, error: verifiedError } = await supabase
+        .from('apishopee_violation_cases')
+        .select(CASE_COLUMNS)
+        .eq('shop_id', shopId!)
+        .eq('status', 'verified')
+        .order('verified_at', { ascending: false })
+        .limit(VERIFIED_LIMIT);
+      if (verifiedError) throw verifiedError;
+      return [...(unresolved || []), ...(verified || [])] as ViolationCase[];
+    },
+    enabled: !!shopId,
+    staleTime: 30_000,
+  });
+
+  useEffect(() => {
+    if (!shopId) return;
+
+    const channel = supabase
+      .channel(`violation_cases_${shopId}_${Date.now()}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'apishopee_violation_cases', filter: `shop_id=eq.${shopId}` },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['violation-cases', shopId] });
+          queryClient.invalidateQueries({ queryKey: ['violation-summary', shopId] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [shopId, queryClient]);
+
+  return query;
+}
+
+/** Số case chưa xác nhận / quá hạn (ShopPerformancePanel, tab Vi phạm) */
+export function useViolationSummary(shopId: number | null | undefined) {
+  return useQuery({
+    queryKey: ['violation-summary', shopId],
+    queryFn: async (): Promise<ViolationSummary> => {
+      const { data, error } = await supabase
+        .from('apishopee_violation_cases')
+        .select('status, due_at')
+        .eq('shop_id', shopId!)
+        .neq('status', 'verified');
+      if (error) throw error;
+      return summarizeViolationCases(data || [], new Date());
+    },
+    enabled: !!shopId,
+    staleTime: 60_000,
+  });
+}
+
+/** Thành viên đang hoạt động của shop để giao case */
+export function useShopMemberOptions(shopId: number | null | undefined) {
+  return useQuery({
+    queryKey: ['shop-member-options', shopId],
+    queryFn: async (): Promise<ShopMemberOption[]> => {
+      const { data: shop, error: shopError } = await supabase
+        .from('apishopee_shops')
+        .select('id')
+        .eq('shop_id', shopId!)
+        .maybeSingle();
+      if (shopError) throw shopError;
+      if (!shop) return [];
+
+      const { data: members, error: membersError } = await supabase
+        .from('apishopee_shop_members')
+        .select('profile_id')
+        .eq('shop_id', shop.id)
+        .eq('is_active', true);
+      if (membersError) throw membersError;
+
+      const profileIds = (members || []).map(m => m.profile_id as string);
+      if (profileIds.length === 0) return [];
+
+      const { data: profiles, error: profilesError } = await supabase
+        .from('sys_profiles')
+        .select('id, email, full_name')
+        .in('id', profileIds);
+      if (profilesError) throw profilesError;
+
+      return (profiles || [])
+        .map(p => ({ id: p.id as string, name: (p.full_name || p.email || p.id) as string }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+    enabled: !!shopId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useUpdateViolationCase(shopId: number, userId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ current, patch }: { current: ViolationCase; patch: ViolationCasePatch }) => {
+      if (patch.status && patch.status !== current.status && !canTransition(current.status, patch.status)) {
+        throw new Error(`Không thể chuyển từ "${VIOLATION_STATUS_LABELS[current.status]}" sang "${VIOLATION_STATUS_LABELS[patch.status]}"`);
+      }
+
+      const { error } = await supabase
+        .from('apishopee_violation_cases')
+        .update({
+          ...patch,
+          ...(patch.status === 'fixed' && current.status !== 'fixed' && {
+            fixed_at: new Date().toISOString(),
+            fixed_by: userId,
+          }),
+        })
+        .eq('id', current.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['violation-cases', shopId] });
+      queryClient.invalidateQueries({ queryKey: ['violation-summary', shopId] });
+    },
+  });
+}
+
+/** Đọc lại item_status trên Shopee để xác nhận case đã hết vi phạm */
+export function useVerifyViolationCase(shopId: number, userId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (caseId: string): Promise<ViolationCheckResult> => {
+      const { data, error } = await supabase.functions.invoke('apishopee-product', {
+        body: { action: 'verify-violation', shop_id: shopId, user_id: userId, case_id: caseId },
+      });
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Kiểm tra lại thất bại');
+      return data as ViolationCheckResult;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['violation-cases', shopId] });
+      queryClient.invalidateQueries({ queryKey: ['violation-summary', shopId] });
+    },
+  });
+}
@@ -0,0 +1,101 @@
+/**
+ * Unit Tests: Admin audit log helpers
+ * Covers: auditChanges, formatAuditChange, auditEntriesToRows
+ */
+
+import { auditChanges, auditEntriesToRows, formatAuditChange, type AdminAuditEntry } from '@/lib/admin-audit';
+
+function entry(overrides: Partial<AdminAuditEntry>): AdminAuditEntry {
+  return {
+    id: 'a1',
+    created_at: '2026-10-01T03:00:00Z',
+    actor_id: 'u-admin',
+    actor_email: 'admin@betacom.vn',
+    entity_type: 'profile',
+    operation: 'update',
+    entity_id: 'u-1',
+    target_profile_id: 'u-1',
+    shop_id: null,
+    before_data: null,
+    after_data: null,
+    changed_fields: [],
+    reason: null,
+    source: 'rpc',
+    ...overrides,
+  };
+}
+
+describe('auditChanges', () => {
+  it('update: chỉ các cột khác nhau, bỏ qua updated_at', () => {
+    const changes = auditChanges(entry({
+      before_data: { id: 'u-1', permissions: ['home'], system_role: 'member', updated_at: '1' },
+      after_data: { id: 'u-1', permissions: ['home', 'orders'], system_role: 'member', updated_at: '2' },
+      changed_fields: ['permissions', 'updated_at'],
+    }));
+
+    expect(changes).toEqual([
+      { field: 'permissions', before: ['home'], after: ['home', 'orders'], redacted: false },
+    ]);
+  });
+
+  it('insert / delete: liệt kê cột có giá trị, theo thứ tự tên cột', () => {
+    const inserted = auditChanges(entry({
+      entity_type: 'shop_member',
+      operation: 'insert',
+      after_data: { shop_id: 's-1', profile_id: 'u-1', role_id: null, is_active: true },
+    }));
+    expect(inserted.map(c => c.field)).toEqual(['is_active', 'profile_id', 'shop_id']);
+
+    const deleted = auditChanges(entry({
+      operation: 'delete',
+      before_data: { shop_id: 's-1', role_id: 'r-1' },
+    }));
+    expect(deleted.map(c => c.field)).toEqual(['role_id', 'shop_id']);
+  });
+
+  it('cột bí mật chỉ hiện khi có trong changed_fields và không có giá trị', () => {
+    const changes = auditChanges(entry({
+      entity_type: 'partner_app',
+      before_data: { name: 'App' },
+      after_data: { name: 'App' },
+      changed_fields: ['partner_key'],
+    }));
+
+    expect(changes).toEqual([{ field: 'partner_key', before: null, after: null, redacted: true }]);
+    expect(formatAuditChange(changes[0], 'update')).toBe('partner_key: (đã đổi)');
+  });
+});
+
+describe('formatAuditChange', () => {
+  it('mô tả theo thao tác', () => {
+    const change = { field: 'system_role', before: 'member', after: 'admin', redacted: false };
+    expect(formatAuditChange(change, 'update')).toBe('system_role: member → admin');
+    expect(formatAuditChange(change, 'insert')).toBe('system_role: admin');
+    expect(formatAuditChange({ ...change, after: null }, 'update')).toBe('system_role: member → —');
+  });
+});
+
+describe('auditEntriesToRows', () => {
+  it('header + 1 dòng / bản ghi, tên lấy từ lookup', () => {
+    const rows = auditEntriesToRows(
+      [entry({
+        actor_email: null,
+        actor_id: null,
+        source: 'service',
+        entity_type: 'shop_member',
+        operation: 'insert',
+        shop_id: 123,
+        after_data: { role_id: 'r-1' },
+        reason: 'Kết nối shop',
+      })],
+      { profiles: new Map([['u-1', 'Nguyễn An']]), shops: new Map([[123, 'Shop A']]) },
+    );
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0][0]).toBe('Thời gian');
+    expect(rows[1]).toEqual([
+      '2026-10-01T03:00:00Z', 'Hệ thống', 'Thành viên shop', 'Thêm', 'Nguyễn An', 'Shop A',
+      'role_id: r-1', 'Kết nối shop', 'Hệ thống',
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Unit Tests: Quyền trang / thao tác
+ * Covers: hasPermission, requiredPermission, isReadOnlyShopeePath, getPermissionMatrixGroups
+ */
+
+import { getPermissionMatrixGroups, hasPermission, isReadOnlyShopeePath, requiredPermission } from '@/lib/app-permissions';
+
+describe('hasPermission', () => {
+  it('"*" cho mọi key', () => {
+    expect(hasPermission(['*'], 'home')).toBe(true);
+    expect(hasPermission(['*'], 'flash-sale:delete')).toBe(true);
+  });
+
+  it('key trang của module cho mọi thao tác của module (role mặc định)', () => {
+    expect(hasPermission(['flash-sale'], 'flash-sale:delete')).toBe(true);
+    expect(hasPermission(['settings/profile'], 'shops:reconnect')).toBe(true);
+    expect(hasPermission(['flash-sale'], 'products:edit-price')).toBe(false);
+  });
+
+  it('vai trò tùy chỉnh: chỉ các thao tác được liệt kê, "<module>:*" cho cả module', () => {
+    const features = ['home', 'flash-sale:view', 'flash-sale:create', 'products:*'];
+    expect(hasPermission(features, 'flash-sale:create')).toBe(true);
+    expect(hasPermission(features, 'flash-sale:delete')).toBe(false);
+    expect(hasPermission(features, 'products:edit-price')).toBe(true);
+    expect(hasPermission(features, 'orders:sync')).toBe(false);
+  });
+
+  it('key trang được cho khi có thao tác bất kỳ của module', () => {
+    expect(hasPermission(['flash-sale:view'], 'flash-sale')).toBe(true);
+    expect(hasPermission(['shops:view'], 'settings/profile')).toBe(true);
+    expect(hasPermission(['flash-sale:view'], 'products')).toBe(false);
+    expect(hasPermission(['home'], 'shop-performance')).toBe(false);
+  });
+});
+
+describe('requiredPermission', () => {
+  it('map action của Edge Function sang quyền; action khác không kiểm tra', () => {
+    expect(requiredPermission('apishopee-flash-sale', 'delete-flash-sale')).toBe('flash-sale:delete');
+    expect(requiredPermission('apishopee-product', 'update-price')).toBe('products:edit-price');
+    expect(requiredPermission('apishopee-auth', 'get-token')).toBe('shops:reconnect');
+    expect(requiredPermission('apishopee-auth', 'refresh-token')).toBeNull();
+    expect(requiredPermission('shopee-shop', 'get-shop-info')).toBeNull();
+  });
+
+  it('map path ghi của apishopee-proxy sang quyền thao tác', () => {
+    expect(requiredPermission('apishopee-proxy', '/api/v2/product/update_price')).toBe('products:edit-price');
+    expect(requiredPermission('apishopee-proxy', '/api/v2/shop_flash_sale/delete_shop_flash_sale')).toBe('flash-sale:delete');
+    expect(requiredPermission('apishopee-proxy', '/api/v2/product/get_item_list')).toBeNull();
+  });
+});
+
+describe('isReadOnlyShopeePath', () => {
+  it('chỉ endpoint get_ / search_ là chỉ đọc', () => {
+    expect(isReadOnlyShopeePath('/api/v2/product/get_item_base_info')).toBe(true);
+    expect(isReadOnlyShopeePath('/api/v2/product/search_item')).toBe(true);
+    expect(isReadOnlyShopeePath('/api/v2/product/update_price')).toBe(false);
+    expect(isReadOnlyShopeePath('/api/v2/product/delete_item')).toBe(false);
+    expect(isReadOnlyShopeePath('/api/v2/shop/get_shop_info/')).toBe(false);
+  });
+});
+
+describe('getPermissionMatrixGroups', () => {
+  it('trang không có thao tác riêng + thao tác theo module, không lặp key trang của module', () => {
+    const groups = getPermissionMatrixGroups();
+    const pageKeys = groups[0].rows.map(r => r.key);
+
+    expect(pageKeys).toContain('home');
+    expect(pageKeys).not.toContain('flash-sale');
+    expect(pageKeys).not.toContain('settings/profile');
+    expect(groups.find(g => g.label === 'Flash Sale')?.rows.map(r => r.key)).toEqual([
+      'flash-sale:view', 'flash-sale:create', 'flash-sale:edit', 'flash-sale:delete',
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for docs/endpoint-codegen.ts — Shopee endpoint types sinh từ api-data.ts
+ *
+ * Drift test: file generated đã commit phải khớp với output hiện tại của generator.
+ * Fail → chạy `pnpm generate:shopee-api` rồi commit lại.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { apiEndpoints, type ApiEndpoint } from '@/lib/docs/api-data';
+import { endpointTypeName, generateEndpointCatalogue } from '@/lib/docs/endpoint-codegen';
+import committed from '../../../supabase/functions/_shared/shopee-endpoints.generated.ts?raw';
+
+function endpoint(overrides: Partial<ApiEndpoint>): ApiEndpoint {
+  return {
+    id: 'test',
+    name: 'v2.test.get_thing',
+    path: '/api/v2/test/get_thing',
+    method: 'GET',
+    module: 'test',
+    description: 'Test endpoint',
+    environments: [],
+    commonParams: [],
+    requestParams: [],
+    responseParams: [],
+    ...overrides,
+  };
+}
+
+describe('generated catalogue', () => {
+  it('matches api-data.ts (run pnpm generate:shopee-api if this fails)', () => {
+    expect(generateEndpointCatalogue(apiEndpoints)).toBe(committed);
+  });
+});
+
+describe('endpointTypeName', () => {
+  it('builds PascalCase name from path without /api/v2 prefix', () => {
+    expect(endpointTypeName('/api/v2/shop_flash_sale/get_time_slot_id')).toBe('ShopFlashSaleGetTimeSlotId');
+    expect(endpointTypeName('/api/v2/auth/access_token/get')).toBe('AuthAccessTokenGet');
+  });
+});
+
+describe('generateEndpointCatalogue', () => {
+  it('marks request params optional unless required', () => {
+    const output = generateEndpointCatalogue([
+      endpoint({
+        requestParams: [
+          { name: 'offset', type: 'int', required: true, description: 'Offset' },
+          { name: 'status', type: 'string', required: false, description: 'Status' },
+        ],
+      }),
+    ]);
+
+    expect(output).toContain('  offset: number;');
+    expect(output).toContain('  status?: string;');
+  });
+
+  it('emits nested interfaces for dotted / [] response params', () => {
+    const output = generateEndpointCatalogue([
+      endpoint({
+        responseParams: [
+          { name: 'response', type: 'object', description: '' },
+          { name: 'response.items', type: 'object[]', description: 'Items' },
+          { name: 'response.items[].item_id', type: 'int64', description: 'Item ID' },
+          { name: 'response.items[].model_ids', type: 'int64[]', description: 'Model IDs' },
+        ],
+      }),
+    ]);
+
+    expect(output).toContain('export interface TestGetThingResponseItems {\n');
+    expect(output).toContain('  model_ids: number[];');
+    expect(output).toContain('  items: TestGetThingResponseItems[];');
+    expect(output).toContain('result: ShopeeResponse<TestGetThingResponse>;');
+  });
+
+  it('drops envelope fields for root-level (auth) responses', () => {
+    const output = generateEndpointCatalogue([
+      endpoint({
+        method: 'POST',
+        responseParams: [
+          { name: 'error', type: 'string', description: '' },
+          { name: 'access_token', type: 'string', description: 'Token' },
+        ],
+      }),
+    ]);
+
+    expect(output).not.toMatch(/^ {2}error: string;$/m);
+    expect(output).toContain('result: ShopeeResponse & Partial<TestGetThingResponse>;');
+    expect(output).toContain("method: 'POST', body: request");
+  });
+
+  it('throws on duplicate paths', () => {
+    expect(() => generateEndpointCatalogue([endpoint({}), endpoint({})])).toThrow(/Duplicate endpoint path/);
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * Unit Tests: Spreadsheet helpers
+ * Covers: toCsv, parseCsv round-trip
+ */
+
+import { parseCsv, toCsv } from '@/lib/spreadsheet';
+
+describe('toCsv / parseCsv', () => {
+  it('round-trips quotes, commas and line breaks', () => {
+    const rows = [
+      ['item_id', 'name', 'price'],
+      [1, 'Áo "thun", size M', 150000],
+      [2, 'Dòng 1\nDòng 2', null],
+    ];
+
+    expect(parseCsv(toCsv(rows))).toEqual([
+      ['item_id', 'name', 'price'],
+      ['1', 'Áo "thun", size M', '150000'],
+      ['2', 'Dòng 1\nDòng 2', ''],
+    ]);
+  });
+
+  it('detects semicolon delimiter and skips blank lines', () => {
+    expect(parseCsv('item_id;price\r\n1;1.000\r\n\r\n;\r\n')).toEqual([
+      ['item_id', 'price'],
+      ['1', '1.000'],
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit Tests: Team overview helpers
+ * Covers: successRate, summarizeTeam, handoverCandidates, memberLabel
+ */
+
+import { handoverCandidates, memberLabel, successRate, summarizeTeam, type TeamMemberOverview } from '@/lib/team';
+
+function member(overrides: Partial<TeamMemberOverview>): TeamMemberOverview {
+  return {
+    profile_id: 'u-1',
+    full_name: 'Nguyễn Văn A',
+    email: 'a@betacom.vn',
+    is_self: false,
+    shop_count: 0,
+    scheduled: 0,
+    processing: 0,
+    succeeded: 0,
+    failed: 0,
+    last_run_at: null,
+    ...overrides,
+  };
+}
+
+describe('successRate', () => {
+  it('null khi chưa có job chạy xong', () => {
+    expect(successRate(0, 0)).toBeNull();
+  });
+
+  it('làm tròn 1 chữ số thập phân', () => {
+    expect(successRate(2, 1)).toBe(66.7);
+    expect(successRate(5, 0)).toBe(100);
+  });
+});
+
+describe('summarizeTeam', () => {
+  it('cộng dồn các thành viên, bỏ qua dòng của leader', () => {
+    const totals = summarizeTeam([
+      member({ profile_id: 'leader', is_self: true, shop_count: 9, succeeded: 50 }),
+      member({ profile_id: 'u-1', shop_count: 2, scheduled: 3, succeeded: 8, failed: 2 }),
+      member({ profile_id: 'u-2', shop_count: 1, scheduled: 1, succeeded: 1 }),
+    ]);
+
+    expect(totals).toEqual({
+      members: 2,
+      shops: 3,
+      scheduled: 4,
+      succeeded: 9,
+      failed: 2,
+      successRate: 81.8,
+    });
+  });
+});
+
+describe('handoverCandidates', () => {
+  it('loại người bàn giao, đưa leader lên đầu', () => {
+    const rows = [
+      member({ profile_id: 'u-1' }),
+      member({ profile_id: 'u-2' }),
+      member({ profile_id: 'leader', is_self: true }),
+    ];
+
+    expect(handoverCandidates(rows, 'u-1').map(r => r.profile_id)).toEqual(['leader', 'u-2']);
+  });
+});
+
+describe('memberLabel', () => {
+  it('tên, rồi email, rồi id rút gọn', () => {
+    expect(memberLabel(member({}))).toBe('Nguyễn Văn A');
+    expect(memberLabel(member({ full_name: null }))).toBe('a@betacom.vn');
+    expect(memberLabel(member({ full_name: null, email: null, profile_id: 'abcdef123456' }))).toBe('abcdef12');
+  });
+});
@@ -0,0 +1,115 @@
+// @vitest-environment node
+/**
+ * Unit Tests: User invitations
+ * Covers: effectiveInvitationStatus, canResendInvitation, hashInvitationToken, parseInvitationSheet
+ */
+
+import {
+  canResendInvitation,
+  effectiveInvitationStatus,
+  generateInvitationToken,
+  hashInvitationToken,
+  parseInvitationSheet,
+  type InvitationLookups,
+} from '@/lib/user-invitations';
+
+const NOW = new Date('2026-03-10T00:00:00Z');
+
+const lookups: InvitationLookups = {
+  shops: [
+    { id: 'shop-uuid-1', shop_id: 111, shop_name: 'Shop ABC' },
+    { id: 'shop-uuid-2', shop_id: 222, shop_name: 'Shop XYZ' },
+  ],
+  customRoles: [{ id: 'role-1', name: 'Vận hành Flash Sale' }],
+  leaders: [{ id: 'leader-1', email: 'Leader@Betacom.vn' }],
+};
+
+const HEADER = ['email', 'full_name', 'phone', 'role', 'custom_role', 'shops', 'leader_email'];
+
+describe('effectiveInvitationStatus', () => {
+  it('pending quá hạn là expired', () => {
+    expect(effectiveInvitationStatus({ status: 'pending', expires_at: '2026-03-09T00:00:00Z' }, NOW)).toBe('expired');
+    expect(effectiveInvitationStatus({ status: 'pending', expires_at: '2026-03-11T00:00:00Z' }, NOW)).toBe('pending');
+  });
+
+  it('giữ nguyên trạng thái đã chốt', () => {
+    expect(effectiveInvitationStatus({ status: 'accepted', expires_at: '2026-03-09T00:00:00Z' }, NOW)).toBe('accepted');
+    expect(effectiveInvitationStatus({ status: 'revoked', expires_at: '2026-03-09T00:00:00Z' }, NOW)).toBe('revoked');
+  });
+});
+
+describe('canResendInvitation', () => {
+  it('chỉ gửi lại lời mời chưa chấp nhận / thu hồi', () => {
+    expect(canResendInvitation({ status: 'expired', expires_at: '2026-03-09T00:00:00Z' })).toBe(true);
+    expect(canResendInvitation({ status: 'accepted', expires_at: '2099-01-01T00:00:00Z' })).toBe(false);
+    expect(canResendInvitation({ status: 'revoked', expires_at: '2099-01-01T00:00:00Z' })).toBe(false);
+  });
+});
+
+describe('invitation token', () => {
+  it('token 64 ký tự hex, mỗi lần khác nhau', () => {
+    const a = generateInvitationToken();
+    expect(a).toMatch(/^[0-9a-f]{64}$/);
+    expect(generateInvitationToken()).not.toBe(a);
+  });
+
+  it('hash SHA-256 dạng hex', async () => {
+    expect(await hashInvitationToken('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe('parseInvitationSheet', () => {
+  it('đổi vai trò, shop, leader sang id', () => {
+    const { rows, errors } = parseInvitationSheet([
+      HEADER,
+      [' NV1@Betacom.vn ', 'Nguyễn Văn A', '0901', '', 'vận hành flash sale', '111; shop xyz', 'leader@betacom.vn'],
+      ['boss@betacom.vn', '', '', 'admin', '', '111', ''],
+    ], lookups);
+
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      {
+        line: 2,
+        email: 'nv1@betacom.vn',
+        full_name: 'Nguyễn Văn A',
+        phone: '0901',
+        system_role: 'user',
+        custom_role_id: 'role-1',
+        shop_ids: ['shop-uuid-1', 'shop-uuid-2'],
+        manager_id: 'leader-1',
+      },
+      {
+        line: 3,
+        email: 'boss@betacom.vn',
+        full_name: null,
+        phone: null,
+        system_role: 'admin',
+        custom_role_id: null,
+        shop_ids: [],
+        manager_id: null,
+      },
+    ]);
+  });
+
+  it('báo lỗi theo dòng, bỏ qua dòng trống và email trùng', () => {
+    const { rows, errors } = parseInvitationSheet([
+      ['Email', 'Shops'],
+      ['a@betacom.vn', ''],
+      ['', ''],
+      ['A@betacom.vn', ''],
+      ['not-an-email', ''],
+      ['b@betacom.vn', '999'],
+    ], lookups);
+
+    expect(rows.map(r => r.email)).toEqual(['a@betacom.vn']);
+    expect(errors).toEqual([
+      { line: 4, message: 'Trùng email a@betacom.vn' },
+      { line: 5, message: 'Email không hợp lệ: not-an-email' },
+      { line: 6, message: 'Không tìm thấy shop: 999' },
+    ]);
+  });
+
+  it('thiếu cột email', () => {
+    expect(parseInvitationSheet([['name']], lookups).errors).toEqual([{ line: 1, message: 'Thiếu cột email' }]);
+  });
+});
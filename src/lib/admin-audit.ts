@@ -0,0 +1,134 @@
+/**
+ * Admin Audit Log - đọc bản ghi apishopee_admin_audit_log (migration 094):
+ * diff trước / sau theo từng cột, mô tả ngắn và dữ liệu xuất CSV.
+ */
+
+import type { SheetCell } from '@/lib/spreadsheet';
+
+export type AuditEntityType =
+  | 'shop_member'
+  | 'role'
+  | 'profile'
+  | 'partner_app'
+  | 'shop'
+  | 'shop_app_token'
+  | 'custom_role'
+  | 'user_role';
+export type AuditOperation = 'insert' | 'update' | 'delete';
+export type AuditSource = 'rpc' | 'direct' | 'service';
+
+export interface AdminAuditEntry {
+  id: string;
+  created_at: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  entity_type: AuditEntityType;
+  operation: AuditOperation;
+  entity_id: string | null;
+  target_profile_id: string | null;
+  shop_id: number | null;
+  before_data: Record<string, unknown> | null;
+  after_data: Record<string, unknown> | null;
+  changed_fields: string[];
+  reason: string | null;
+  source: AuditSource;
+}
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+  /** Cột bí mật (token / partner_key) không lưu giá trị trong log */
+  redacted: boolean;
+}
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  shop_member: 'Thành viên shop',
+  role: 'Vai trò',
+  profile: 'Quyền người dùng',
+  partner_app: 'Partner app',
+  shop: 'Kết nối shop',
+  shop_app_token: 'Kết nối app',
+  custom_role: 'Vai trò tùy chỉnh',
+  user_role: 'Gán vai trò',
+};
+
+export const AUDIT_OPERATION_LABELS: Record<AuditOperation, string> = {
+  insert: 'Thêm',
+  update: 'Sửa',
+  delete: 'Xóa',
+};
+
+export const AUDIT_SOURCE_LABELS: Record<AuditSource, string> = {
+  rpc: 'Quản trị',
+  direct: 'Trực tiếp',
+  service: 'Hệ thống',
+};
+
+/** Cột không đưa vào diff (khóa / thời gian ghi) */
+const IGNORED_FIELDS = new Set(['id', 'created_at', 'updated_at', 'token_updated_at']);
+
+/** Cột bị xóa khỏi before / after khi ghi log */
+const REDACTED_FIELDS = new Set(['access_token', 'refresh_token', 'partner_key']);
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/** Các cột thay đổi của 1 bản ghi; thêm / xóa liệt kê mọi cột có giá trị */
+export function auditChanges(entry: AdminAuditEntry): AuditFieldChange[] {
+  const before = entry.before_data ?? {};
+  const after = entry.after_data ?? {};
+  const fields = new Set([...Object.keys(before), ...Object.keys(after), ...entry.changed_fields]);
+
+  return [...fields]
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .filter(field => {
+      if (REDACTED_FIELDS.has(field)) return entry.changed_fields.includes(field);
+      if (entry.operation === 'update') return !sameValue(before[field], after[field]);
+      return (entry.operation === 'insert' ? after[field] : before[field]) != null;
+    })
+    .sort()
+    .map(field => ({
+      field,
+      before: before[field] ?? null,
+      after: after[field] ?? null,
+      redacted: REDACTED_FIELDS.has(field),
+    }));
+}
+
+function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/** "field: trước → sau" cho 1 thay đổi (cột bí mật chỉ ghi "đã đổi") */
+export function formatAuditChange(change: AuditFieldChange, operation: AuditOperation): string {
+  if (change.redacted) return `${change.field}: (đã đổi)`;
+  if (operation === 'insert') return `${change.field}: ${formatAuditValue(change.after)}`;
+  if (operation === 'delete') return `${change.field}: ${formatAuditValue(change.before)}`;
+  return `${change.field}: ${formatAuditValue(change.before)} → ${formatAuditValue(change.after)}`;
+}
+
+export interface AuditNameLookup {
+  profiles: Map<string, string>;
+  shops: Map<number, string>;
+}
+
+/** Dữ liệu CSV: 1 dòng / bản ghi, các thay đổi nối bằng "; " */
+export function auditEntriesToRows(entries: AdminAuditEntry[], names: AuditNameLookup): SheetCell[][] {
+  const header = ['Thời gian', 'Người thực hiện', 'Đối tượng', 'Thao tác', 'Người dùng', 'Shop', 'Thay đổi', 'Lý do', 'Nguồn'];
+  const rows = entries.map(entry => [
+    entry.created_at,
+    entry.actor_email ?? (entry.actor_id ? names.profiles.get(entry.actor_id) ?? entry.actor_id : AUDIT_SOURCE_LABELS.service),
+    AUDIT_ENTITY_LABELS[entry.entity_type],
+    AUDIT_OPERATION_LABELS[entry.operation],
+    entry.target_profile_id ? names.profiles.get(entry.target_profile_id) ?? entry.target_profile_id : '',
+    entry.shop_id ? names.shops.get(entry.shop_id) ?? String(entry.shop_id) : '',
+    auditChanges(entry).map(change => formatAuditChange(change, entry.operation)).join('; '),
+    entry.reason ?? '',
+    AUDIT_SOURCE_LABELS[entry.source],
+  ]);
+  return [header, ...rows];
+}
@@ -0,0 +1,33 @@
+/**
+ * App Permissions (FE) - catalog quyền thao tác dùng chung với Edge Functions
+ * (supabase/functions/_shared/app-permissions.ts) + các dòng của ma trận vai trò × quyền.
+ */
+
+import { getFeaturePermissions } from '@/config/menu-config';
+import { PERMISSION_ACTIONS, PERMISSION_MODULES } from '../../supabase/functions/_shared/app-permissions.ts';
+
+export * from '../../supabase/functions/_shared/app-permissions.ts';
+
+export interface PermissionMatrixGroup {
+  label: string;
+  rows: Array<{ key: string; label: string }>;
+}
+
+/**
+ * Nhóm dòng của ma trận: trang không có thao tác riêng, rồi thao tác theo module.
+ * Key trang của module không hiện (nó cho mọi thao tác của module); vào trang khi có 1 thao tác bất kỳ.
+ */
+export function getPermissionMatrixGroups(): PermissionMatrixGroup[] {
+  const modulePages = new Set(PERMISSION_MODULES.map(m => m.pageKey));
+  const pages = getFeaturePermissions()
+    .filter(f => !modulePages.has(f.key))
+    .map(f => ({ key: f.key, label: f.label }));
+
+  return [
+    { label: 'Trang', rows: pages },
+    ...PERMISSION_MODULES.map(m => ({
+      label: m.label,
+      rows: PERMISSION_ACTIONS.filter(a => a.module === m.key).map(a => ({ key: a.key, label: a.label })),
+    })),
+  ];
+}
@@ -0,0 +1,252 @@
+/**
+ * Sinh TypeScript types + typed call helpers từ catalogue trong api-data.ts
+ *
+ * Output: supabase/functions/_shared/shopee-endpoints.generated.ts (dùng chung Deno / worker / frontend)
+ * Chạy lại sau khi sửa api-data.ts: pnpm generate:shopee-api
+ * Test endpoint-codegen.test.ts fail nếu file generated lệch với api-data.ts
+ */
+
+import type { ApiEndpoint, ApiParam } from "./api-data"
+
+export const GENERATED_ENDPOINTS_PATH = "supabase/functions/_shared/shopee-endpoints.generated.ts"
+
+/** Field envelope chung của mọi response - đã có trong ShopeeResponse */
+const ENVELOPE_FIELDS = new Set(["error", "message", "request_id", "warning"])
+
+const SCALAR_TYPES: Record<string, string> = {
+  string: "string",
+  int: "number",
+  int32: "number",
+  int64: "number",
+  float: "number",
+  timestamp: "number",
+  boolean: "boolean",
+}
+
+interface FieldNode {
+  name: string
+  type: string
+  required: boolean
+  description: string
+  isArray: boolean
+  children: Map<string, FieldNode>
+}
+
+function createNode(name: string, type = "object", isArray = false): FieldNode {
+  return { name, type, required: true, description: "", isArray, children: new Map() }
+}
+
+/** "/api/v2/shop_flash_sale/get_time_slot_id" -> "ShopFlashSaleGetTimeSlotId" */
+export function endpointTypeName(path: string): string {
+  return path
+    .replace(/^\/api\/v2\//, "")
+    .split(/[/_]/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("")
+}
+
+function helperName(path: string): string {
+  const typeName = endpointTypeName(path)
+  return typeName[0].toLowerCase() + typeName.slice(1)
+}
+
+function pascal(name: string): string {
+  return name
+    .split("_")
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("")
+}
+
+/**
+ * Dựng cây field từ tên dạng "response.items[].models[].model_id".
+ * Segment có [] là mảng object; node cha chưa khai báo được tạo ngầm.
+ */
+function buildTree(params: ApiParam[], requiredByDefault: boolean): FieldNode {
+  const root = createNode("")
+
+  for (const param of params) {
+    const segments = param.name.split(".")
+    let node = root
+
+    segments.forEach((segment, index) => {
+      const isArraySegment = segment.endsWith("[]")
+      const key = isArraySegment ? segment.slice(0, -2) : segment
+      let child = node.children.get(key)
+      if (!child) {
+        child = createNode(key, "object", isArraySegment)
+        node.children.set(key, child)
+      }
+      if (isArraySegment) child.isArray = true
+
+      if (index === segments.length - 1) {
+        child.type = param.type
+        child.required = requiredByDefault || param.required === true
+        child.description = param.description
+        if (param.type === "object[]") child.isArray = true
+      }
+      node = child
+    })
+  }
+  return root
+}
+
+function isObjectNode(node: FieldNode): boolean {
+  return node.children.size > 0 || node.type === "object" || node.type === "object[]"
+}
+
+function scalarType(type: string): string {
+  if (type.endsWith("[]")) return `${scalarType(type.slice(0, -2))}[]`
+  return SCALAR_TYPES[type] ?? "unknown"
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`
+}
+
+function docComment(text: string, indent: string): string {
+  const line = text.replace(/\s+/g, " ").replace(/\*\//g, "* /").trim()
+  return line ? `${indent}/** ${line} */\n` : ""
+}
+
+/**
+ * Emit interface cho node object; object lồng nhau thành interface riêng
+ * tên = tên cha + PascalCase(field), để caller import trực tiếp.
+ */
+function emitInterface(name: string, node: FieldNode, out: string[]): void {
+  const lines: string[] = []
+
+  for (const child of node.children.values()) {
+    let type: string
+    if (isObjectNode(child)) {
+      const childName = `${name}${pascal(child.name)}`
+      if (child.children.size > 0) {
+        emitInterface(childName, child, out)
+        type = child.isArray ? `${childName}[]` : childName
+      } else {
+        type = child.isArray ? "Array<Record<string, unknown>>" : "Record<string, unknown>"
+      }
+    } else {
+      type = scalarType(child.type)
+    }
+
+    lines.push(docComment(child.description, "  ") + `  ${propertyKey(child.name)}${child.required ? "" : "?"}: ${type};`)
+  }
+
+  out.push(
+    lines.length > 0
+      ? `export interface ${name} {\n${lines.join("\n")}\n}\n`
+      : `export type ${name} = Record<string, never>;\n`
+  )
+}
+
+interface EmittedEndpoint {
+  endpoint: ApiEndpoint
+  typeName: string
+  /** true nếu payload nằm dưới key "response", false nếu nằm ở root (auth/public API) */
+  wrapped: boolean
+}
+
+function emitEndpoint(endpoint: ApiEndpoint, out: string[]): EmittedEndpoint {
+  const typeName = endpointTypeName(endpoint.path)
+
+  emitInterface(`${typeName}Request`, buildTree(endpoint.requestParams, false), out)
+
+  const responseTree = buildTree(endpoint.responseParams, true)
+  const payload = responseTree.children.get("response")
+  if (payload) {
+    if (!isObjectNode(payload)) {
+      out.push(`export type ${typeName}Response = ${scalarType(payload.type)};\n`)
+    } else if (payload.isArray && payload.children.size > 0) {
+      emitInterface(`${typeName}ResponseItem`, payload, out)
+      out.push(`export type ${typeName}Response = ${typeName}ResponseItem[];\n`)
+    } else {
+      emitInterface(`${typeName}Response`, payload, out)
+    }
+    return { endpoint, typeName, wrapped: true }
+  }
+
+  for (const field of ENVELOPE_FIELDS) responseTree.children.delete(field)
+  emitInterface(`${typeName}Response`, responseTree, out)
+  return { endpoint, typeName, wrapped: false }
+}
+
+function emitHelper({ endpoint, typeName }: EmittedEndpoint): string {
+  const requestKey = endpoint.method === "GET" ? "params" : "body"
+  return [
+    docComment(`${endpoint.name} - ${endpoint.description}`, ""),
+    `export function ${helperName(endpoint.path)}(\n`,
+    `  client: ShopeeEndpointCaller,\n`,
+    `  request: ${typeName}Request,\n`,
+    `  context: ShopeeRequestContext = {}\n`,
+    `): Promise<ShopeeEndpoints['${endpoint.path}']['result']> {\n`,
+    `  return client.call('${endpoint.path}', { ...context, method: '${endpoint.method}', ${requestKey}: request });\n`,
+    `}\n`,
+  ].join("")
+}
+
+/**
+ * Sinh toàn bộ nội dung file generated. Deterministic: sort theo path.
+ */
+export function generateEndpointCatalogue(endpoints: ApiEndpoint[]): string {
+  const seen = new Set<string>()
+  const supported = endpoints
+    .filter((endpoint) => endpoint.method === "GET" || endpoint.method === "POST")
+    .sort((a, b) => a.path.localeCompare(b.path))
+
+  const out: string[] = []
+  const emitted: EmittedEndpoint[] = []
+
+  for (const endpoint of supported) {
+    if (seen.has(endpoint.path)) {
+      throw new Error(`Duplicate endpoint path in api-data.ts: ${endpoint.path}`)
+    }
+    seen.add(endpoint.path)
+    out.push(`// ==================== ${endpoint.path} ====================\n`)
+    emitted.push(emitEndpoint(endpoint, out))
+  }
+
+  const mapEntries = emitted.map(({ endpoint, typeName, wrapped }) => {
+    const result = wrapped
+      ? `ShopeeResponse<${typeName}Response>`
+      : `ShopeeResponse & Partial<${typeName}Response>`
+    return [
+      `  '${endpoint.path}': {\n`,
+      `    method: '${endpoint.method}';\n`,
+      `    request: ${typeName}Request;\n`,
+      `    response: ${typeName}Response;\n`,
+      `    result: ${result};\n`,
+      `  };\n`,
+    ].join("")
+  })
+
+  return [
+    `/**\n`,
+    ` * AUTO-GENERATED từ src/lib/docs/api-data.ts - KHÔNG sửa tay.\n`,
+    ` * Sinh lại: pnpm generate:shopee-api (src/lib/docs/endpoint-codegen.ts)\n`,
+    ` */\n`,
+    `\n`,
+    `import type { ShopeeCallOptions, ShopeeResponse } from './shopee-client.ts';\n`,
+    `\n`,
+    `/** Shop / merchant / token cho một lần gọi (không gồm params, body, method) */\n`,
+    `export type ShopeeRequestContext = Omit<ShopeeCallOptions<never>, 'method' | 'params' | 'body'>;\n`,
+    `\n`,
+    `export interface ShopeeEndpointCaller {\n`,
+    `  call<P extends ShopeeEndpointPath>(\n`,
+    `    path: P,\n`,
+    `    options?: ShopeeCallOptions<ShopeeEndpoints[P]['request']>\n`,
+    `  ): Promise<ShopeeEndpoints[P]['result']>;\n`,
+    `}\n`,
+    `\n`,
+    out.join("\n"),
+    `\n// ==================== ENDPOINT MAP ====================\n\n`,
+    `export interface ShopeeEndpoints {\n`,
+    mapEntries.join(""),
+    `}\n`,
+    `\n`,
+    `export type ShopeeEndpointPath = keyof ShopeeEndpoints;\n`,
+    `\n// ==================== CALL HELPERS ====================\n\n`,
+    emitted.map(emitHelper).join("\n"),
+  ].join("")
+}
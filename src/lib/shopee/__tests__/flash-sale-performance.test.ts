@@ -0,0 +1,103 @@
+/**
+ * Unit Tests: Kết quả khung Flash Sale (sell-through, chuyển đổi, so với ngoài khung) và bảng xếp hạng
+ * Covers: computeFlashSalePerformance, buildFlashSaleLeaderboard
+ */
+
+import {
+  buildFlashSaleLeaderboard,
+  computeFlashSalePerformance,
+  BASELINE_DAYS,
+  type CampaignStockRow,
+  type PerformanceOrderItem,
+  type PerformanceSlot,
+} from '@/lib/shopee/flash-sale-performance';
+
+const NOW = 1_770_000_000;
+const HOUR = 3600;
+const DAY = 24 * HOUR;
+
+const slot: PerformanceSlot = { shop_id: 1, flash_sale_id: 900, start_time: NOW, end_time: NOW + 2 * HOUR, click_count: 40 };
+
+function stockRow(overrides: Partial<CampaignStockRow>): CampaignStockRow {
+  return { shop_id: 1, flash_sale_id: 900, item_id: 10, model_id: 0, item_name: 'A', model_name: null, campaign_stock: 10, ...overrides };
+}
+
+function line(overrides: Partial<PerformanceOrderItem>): PerformanceOrderItem {
+  return {
+    shop_id: 1, order_sn: 'SN', order_status: 'COMPLETED', create_time: NOW + 60, flash_sale_id: 900,
+    item_id: 10, model_id: 0, item_name: 'A', model_name: null, quantity: 1, discounted_price: 100,
+    ...overrides,
+  };
+}
+
+describe('computeFlashSalePerformance', () => {
+  it('số lượng / doanh thu theo phân loại, sell-through theo tồn kho Flash Sale, bỏ đơn hủy', () => {
+    const stock = [stockRow({ model_id: 1, campaign_stock: 10 }), stockRow({ model_id: 2, campaign_stock: 5 })];
+    const items = [
+      line({ order_sn: 'A', model_id: 1, quantity: 4 }),
+      line({ order_sn: 'B', model_id: 1, quantity: 1 }),
+      line({ order_sn: 'B', model_id: 2, quantity: 5, discounted_price: 50 }),
+      line({ order_sn: 'C', model_id: 2, quantity: 3, order_status: 'CANCELLED' }),
+    ];
+
+    const result = computeFlashSalePerformance(slot, stock, items);
+    expect(result).toMatchObject({ orders: 2, units: 10, revenue: 750, campaign_stock: 15 });
+    expect(result.sell_through).toBeCloseTo(10 / 15);
+    expect(result.conversion).toBeCloseTo(2 / 40);
+    expect(result.models.map(m => [m.model_id, m.units, m.sell_through])).toEqual([[1, 5, 0.5], [2, 5, 1]]);
+  });
+
+  it('so với tốc độ bán cùng phân loại trong BASELINE_DAYS ngày trước khung', () => {
+    const items = [
+      line({ quantity: 6 }),
+      // 7 sản phẩm / 7 ngày ngoài khung → 6 sản phẩm / 2 giờ nhanh gấp 72 lần
+      line({ flash_sale_id: null, create_time: NOW - DAY, quantity: 7 }),
+      // Quá BASELINE_DAYS, sản phẩm không có trong khung → không tính
+      line({ flash_sale_id: null, create_time: NOW - (BASELINE_DAYS + 1) * DAY, quantity: 100 }),
+      line({ flash_sale_id: null, create_time: NOW - DAY, item_id: 99, quantity: 100 }),
+    ];
+
+    const result = computeFlashSalePerformance(slot, [stockRow({})], items);
+    expect(result.baseline_units).toBe(7);
+    expect(result.uplift).toBeCloseTo((6 / (2 * HOUR)) / (7 / (BASELINE_DAYS * DAY)));
+  });
+
+  it('dòng Flash Sale của khung khác không tính vào khung này', () => {
+    const other = { flash_sale_id: 901, start_time: NOW - 4 * HOUR, end_time: NOW - 2 * HOUR };
+    const items = [
+      line({ quantity: 2 }),
+      line({ order_sn: 'X', flash_sale_id: 901, create_time: NOW - 3 * HOUR, quantity: 9 }),
+    ];
+    const result = computeFlashSalePerformance(slot, [], items, [other]);
+    expect(result.units).toBe(2);
+    expect(result.baseline_units).toBe(0);
+    expect(result.uplift).toBeNull();
+  });
+
+  it('chưa có ảnh chụp tồn kho thì sell-through = null', () => {
+    const result = computeFlashSalePerformance({ ...slot, click_count: 0 }, [], [line({})]);
+    expect(result.campaign_stock).toBeNull();
+    expect(result.sell_through).toBeNull();
+    expect(result.conversion).toBeNull();
+    expect(result.models[0].campaign_stock).toBeNull();
+  });
+});
+
+describe('buildFlashSaleLeaderboard', () => {
+  it('xếp theo doanh thu giữa các shop, bỏ khung không bán được', () => {
+    const slots: PerformanceSlot[] = [
+      slot,
+      { shop_id: 2, flash_sale_id: 900, start_time: NOW, end_time: NOW + 2 * HOUR, click_count: 10 },
+      { shop_id: 2, flash_sale_id: 905, start_time: NOW + 3 * HOUR, end_time: NOW + 4 * HOUR, click_count: 10 },
+    ];
+    const items = [
+      line({ quantity: 1 }),
+      line({ shop_id: 2, quantity: 3 }),
+    ];
+
+    const rows = buildFlashSaleLeaderboard(slots, [stockRow({ shop_id: 2, campaign_stock: 6 })], items);
+    expect(rows.map(r => [r.shop_id, r.flash_sale_id, r.revenue])).toEqual([[2, 900, 300], [1, 900, 100]]);
+    expect(rows[0].sell_through).toBeCloseTo(0.5);
+    expect(rows[1].sell_through).toBeNull();
+  });
+});
@@ -0,0 +1,180 @@
+// @vitest-environment node
+/**
+ * Unit Tests: worker job queue (worker/src/lib/job-queue.ts)
+ * Covers: getRetryDelaySeconds, enqueueJob, consumer complete / fail flow
+ *
+ * supabase + config của worker được mock (config đọc env bắt buộc khi import).
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../../../worker/src/lib/supabase', () => ({
+  supabase: { rpc: vi.fn() },
+}));
+
+vi.mock('../../../../worker/src/config', () => ({
+  config: { queueConcurrency: 1, queuePollIntervalMs: 60_000 },
+}));
+
+import { supabase } from '../../../../worker/src/lib/supabase';
+import {
+  enqueueJob,
+  getActiveJobCount,
+  getRetryDelaySeconds,
+  registerJobHandler,
+  startQueueConsumer,
+  stopQueueConsumer,
+  PRIORITY,
+  WORKER_ID,
+  type QueueJob,
+} from '../../../../worker/src/lib/job-queue';
+
+const mockRpc = supabase.rpc as unknown as ReturnType<typeof vi.fn>;
+
+function queueJob(overrides: Partial<QueueJob> = {}): QueueJob {
+  return {
+    id: 'job-1',
+    queue: 'order_sync',
+    payload: { shop_id: 1001 },
+    priority: PRIORITY.NORMAL,
+    concurrency_key: 'orders:shop:1001',
+    attempts: 1,
+    max_attempts: 3,
+    run_at: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+/** claim_worker_jobs trả về `jobs` một lần, các RPC khác trả về `{ data: null }` */
+function claimOnce(jobs: QueueJob[]) {
+  let claimed = false;
+  mockRpc.mockImplementation(async (fn: string) => {
+    if (fn === 'claim_worker_jobs') {
+      const data = claimed ? [] : jobs;
+      claimed = true;
+      return { data, error: null };
+    }
+    return { data: null, error: null };
+  });
+}
+
+function rpcCall(fn: string) {
+  return mockRpc.mock.calls.find(([name]) => name === fn);
+}
+
+beforeEach(() => {
+  mockRpc.mockReset();
+});
+
+describe('getRetryDelaySeconds', () => {
+  it('backoff gấp đôi từ 30s theo số lần chạy', () => {
+    expect(getRetryDelaySeconds(0)).toBe(30);
+    expect(getRetryDelaySeconds(1)).toBe(30);
+    expect(getRetryDelaySeconds(2)).toBe(60);
+    expect(getRetryDelaySeconds(3)).toBe(120);
+  });
+
+  it('tối đa 15 phút', () => {
+    expect(getRetryDelaySeconds(6)).toBe(900);
+    expect(getRetryDelaySeconds(20)).toBe(900);
+  });
+});
+
+describe('enqueueJob', () => {
+  it('giá trị mặc định: priority NORMAL, 3 lần thử, chạy ngay, không key', async () => {
+    mockRpc.mockResolvedValue({ data: 'job-1', error: null });
+    const before = Date.now();
+
+    expect(await enqueueJob('order_sync', { shop_id: 1001 })).toBe('job-1');
+
+    const [fn, params] = mockRpc.mock.calls[0];
+    expect(fn).toBe('enqueue_worker_job');
+    expect(params).toMatchObject({
+      p_queue: 'order_sync',
+      p_payload: { shop_id: 1001 },
+      p_priority: PRIORITY.NORMAL,
+      p_concurrency_key: null,
+      p_dedupe_key: null,
+      p_max_attempts: 3,
+    });
+    expect(Date.parse(params.p_run_at)).toBeGreaterThanOrEqual(before);
+  });
+
+  it('truyền priority / concurrencyKey / dedupeKey / runAt / maxAttempts', async () => {
+    mockRpc.mockResolvedValue({ data: 'job-2', error: null });
+    const runAt = new Date('2026-01-01T00:05:00.000Z');
+
+    await enqueueJob('product_sync', { shop_id: 1001, user_id: 'u-1' }, {
+      priority: PRIORITY.LOW,
+      concurrencyKey: 'products:shop:1001',
+      dedupeKey: 'product_sync:1001:u-1',
+      runAt,
+      maxAttempts: 5,
+    });
+
+    expect(mockRpc.mock.calls[0][1]).toMatchObject({
+      p_priority: PRIORITY.LOW,
+      p_concurrency_key: 'products:shop:1001',
+      p_dedupe_key: 'product_sync:1001:u-1',
+      p_run_at: runAt.toISOString(),
+      p_max_attempts: 5,
+    });
+  });
+
+  it('lỗi RPC → throw kèm tên queue', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'permission denied' } });
+    await expect(enqueueJob('token_refresh', {})).rejects.toThrow('Enqueue token_refresh failed: permission denied');
+  });
+});
+
+describe('queue consumer', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    stopQueueConsumer();
+    vi.restoreAllMocks();
+  });
+
+  it('handler xong → complete_worker_job với kết quả', async () => {
+    const handler = vi.fn().mockResolvedValue({ processed: 12 });
+    registerJobHandler('order_sync', handler, { leaseSeconds: 60 });
+    claimOnce([queueJob()]);
+
+    startQueueConsumer();
+
+    await vi.waitFor(() => expect(rpcCall('complete_worker_job')).toBeDefined());
+    expect(rpcCall('claim_worker_jobs')?.[1]).toMatchObject({
+      p_worker_id: WORKER_ID,
+      p_queues: ['order_sync'],
+      p_limit: 1,
+      p_lease_seconds: 60,
+    });
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: 'job-1' }), expect.any(Object));
+    expect(rpcCall('complete_worker_job')?.[1]).toEqual({
+      p_job_id: 'job-1',
+      p_worker_id: WORKER_ID,
+      p_result: { processed: 12 },
+    });
+    expect(rpcCall('fail_worker_job')).toBeUndefined();
+    expect(getActiveJobCount()).toBe(0);
+  });
+
+  it('handler throw → fail_worker_job với lỗi và backoff theo số lần chạy', async () => {
+    registerJobHandler('order_sync', vi.fn().mockRejectedValue(new Error('Shopee timeout')), { leaseSeconds: 60 });
+    claimOnce([queueJob({ attempts: 2 })]);
+
+    startQueueConsumer();
+
+    await vi.waitFor(() => expect(rpcCall('fail_worker_job')).toBeDefined());
+    expect(rpcCall('fail_worker_job')?.[1]).toEqual({
+      p_job_id: 'job-1',
+      p_worker_id: WORKER_ID,
+      p_error: 'Shopee timeout',
+      p_retry_delay_seconds: getRetryDelaySeconds(2),
+    });
+    expect(rpcCall('complete_worker_job')).toBeUndefined();
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Unit Tests: Order sync cursor (worker job order_sync) và doanh thu Flash Sale
+ * Covers: startOrderSyncCursor, advanceOrderCursor, describeOrderSyncProgress, orderItemRowsOf,
+ * flashSaleIdOf, computeFlashSaleRevenue
+ */
+
+import {
+  advanceOrderCursor,
+  describeOrderSyncProgress,
+  flashSaleIdOf,
+  orderItemRowsOf,
+  startOrderSyncCursor,
+  ORDER_INITIAL_LOOKBACK_SECONDS,
+  ORDER_WINDOW_SECONDS,
+  type ShopeeOrderDetail,
+} from '@/lib/shopee/order-sync';
+import { computeFlashSaleRevenue, summarizeFlashSaleRevenue } from '@/lib/shopee/flash-sale-revenue';
+
+const NOW = 1_770_000_000;
+const HOUR = 3600;
+
+describe('startOrderSyncCursor', () => {
+  it('lần đầu lấy 30 ngày, khung đầu tối đa 15 ngày', () => {
+    const cursor = startOrderSyncCursor(NOW, null);
+    expect(cursor.mode).toBe('initial');
+    expect(cursor.window_from).toBe(NOW - ORDER_INITIAL_LOOKBACK_SECONDS);
+    expect(cursor.window_to).toBe(NOW - ORDER_INITIAL_LOOKBACK_SECONDS + ORDER_WINDOW_SECONDS);
+  });
+
+  it('incremental bắt đầu từ last_sync_update_time', () => {
+    const cursor = startOrderSyncCursor(NOW, NOW - HOUR);
+    expect(cursor.mode).toBe('incremental');
+    expect(cursor.window_from).toBe(NOW - HOUR);
+    expect(cursor.window_to).toBe(NOW);
+  });
+});
+
+describe('advanceOrderCursor', () => {
+  it('trang tiếp theo giữ khung, lưu next_cursor và cộng dồn số đơn', () => {
+    const cursor = startOrderSyncCursor(NOW, NOW - HOUR);
+    const next = advanceOrderCursor(cursor, { orderCount: 50, more: true, nextCursor: 'abc' }, { inserted: 10, updated: 40, items: 70 });
+    expect(next.page_cursor).toBe('abc');
+    expect(next.window_from).toBe(cursor.window_from);
+    expect(next.processed).toBe(50);
+    expect(next.counts).toEqual({ inserted: 10, updated: 40, items: 70 });
+    expect(next.done).toBe(false);
+  });
+
+  it('hết trang thì sang khung kế tiếp, hết khung thì done', () => {
+    let cursor = startOrderSyncCursor(NOW, null);
+    const windows: Array<[number, number]> = [];
+    while (!cursor.done) {
+      windows.push([cursor.window_from, cursor.window_to]);
+      cursor = advanceOrderCursor(cursor, { orderCount: 0, more: false });
+    }
+    expect(windows).toEqual([
+      [NOW - ORDER_INITIAL_LOOKBACK_SECONDS, NOW - ORDER_INITIAL_LOOKBACK_SECONDS + ORDER_WINDOW_SECONDS],
+      [NOW - ORDER_INITIAL_LOOKBACK_SECONDS + ORDER_WINDOW_SECONDS, NOW],
+    ]);
+  });
+
+  it('more = true nhưng không có next_cursor thì không lặp lại trang', () => {
+    const cursor = startOrderSyncCursor(NOW, NOW - HOUR);
+    expect(advanceOrderCursor(cursor, { orderCount: 3, more: true }).done).toBe(true);
+  });
+
+  it('tiến độ theo khoảng thời gian đã quét', () => {
+    const cursor = advanceOrderCursor(startOrderSyncCursor(NOW, null), { orderCount: 0, more: false });
+    expect(describeOrderSyncProgress(cursor).percent).toBe(50);
+  });
+});
+
+describe('order items', () => {
+  const order: ShopeeOrderDetail = {
+    order_sn: 'SN1',
+    order_status: 'COMPLETED',
+    create_time: NOW,
+    update_time: NOW,
+    item_list: [
+      { item_id: 1, item_name: 'A', model_id: 11, model_quantity_purchased: 2, model_original_price: 100, model_discounted_price: 80, promotion_type: 'flash_sale', promotion_id: 900 },
+      { item_id: 2, item_name: 'B', model_id: 0, model_quantity_purchased: 1, model_original_price: 50, model_discounted_price: 50, promotion_type: 'bundle_deal', promotion_id: 7 },
+    ],
+  };
+
+  it('flash_sale_id chỉ lấy từ promotion Flash Sale', () => {
+    expect(flashSaleIdOf({ promotion_type: 'shop_flash_sale', promotion_id: 5 })).toBe(5);
+    expect(flashSaleIdOf({ promotion_type: 'bundle_deal', promotion_id: 5 })).toBeNull();
+    expect(flashSaleIdOf({})).toBeNull();
+  });
+
+  it('mỗi dòng hàng mang trạng thái / thời điểm đặt của đơn', () => {
+    const rows = orderItemRowsOf(123, order);
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({ shop_id: 123, order_sn: 'SN1', quantity: 2, flash_sale_id: 900, order_status: 'COMPLETED', create_time: NOW });
+    expect(rows[1].flash_sale_id).toBeNull();
+  });
+});
+
+describe('computeFlashSaleRevenue', () => {
+  const windows = [
+    { flash_sale_id: 900, start_time: NOW, end_time: NOW + 2 * HOUR },
+    { flash_sale_id: 901, start_time: NOW + 3 * HOUR, end_time: NOW + 5 * HOUR },
+  ];
+
+  it('GMV theo đơn trong khung, doanh thu FS theo flash_sale_id, bỏ đơn hủy', () => {
+    const orders = [
+      { order_sn: 'A', order_status: 'COMPLETED', create_time: NOW + 60, total_amount: 200 },
+      { order_sn: 'B', order_status: 'CANCELLED', create_time: NOW + 120, total_amount: 500 },
+      { order_sn: 'C', order_status: 'SHIPPED', create_time: NOW + 4 * HOUR, total_amount: 100 },
+      { order_sn: 'D', order_status: 'COMPLETED', create_time: NOW + 2.5 * HOUR, total_amount: 999 },
+    ];
+    const items = [
+      { order_sn: 'A', order_status: 'COMPLETED', create_time: NOW + 60, flash_sale_id: 900, quantity: 2, discounted_price: 80 },
+      { order_sn: 'B', order_status: 'CANCELLED', create_time: NOW + 120, flash_sale_id: 900, quantity: 5, discounted_price: 80 },
+      // promotion_id không khớp khung nào → quy theo thời điểm đặt
+      { order_sn: 'C', order_status: 'SHIPPED', create_time: NOW + 4 * HOUR, flash_sale_id: 12345, quantity: 1, discounted_price: 60 },
+    ];
+
+    const rows = computeFlashSaleRevenue(windows, orders, items);
+    expect(rows.map(r => r.flash_sale_id)).toEqual([901, 900]);
+
+    const fs900 = rows.find(r => r.flash_sale_id === 900)!;
+    expect(fs900).toMatchObject({ orders: 1, gmv: 200, fs_orders: 1, fs_quantity: 2, fs_revenue: 160 });
+    expect(fs900.fs_share).toBeCloseTo(0.8);
+
+    const fs901 = rows.find(r => r.flash_sale_id === 901)!;
+    expect(fs901).toMatchObject({ orders: 1, gmv: 100, fs_revenue: 60 });
+
+    expect(summarizeFlashSaleRevenue(rows)).toEqual({
+      windows: 2, orders: 2, gmv: 300, fs_orders: 2, fs_quantity: 3, fs_revenue: 220,
+    });
+  });
+
+  it('khung không có đơn thì fs_share = null', () => {
+    const [row] = computeFlashSaleRevenue([windows[0]], [], []);
+    expect(row.fs_share).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit Tests: Product alert rules
+ * Covers: evaluateAlertRules, ruleApplies, describeAlertRule, maxSeverity, filterAlertInbox
+ */
+
+import {
+  describeAlertRule,
+  evaluateAlertRules,
+  filterAlertInbox,
+  maxSeverity,
+  type AlertEvent,
+  type ProductAlertRule,
+} from '@/lib/shopee/product-alerts';
+
+function rule(patch: Partial<ProductAlertRule>): ProductAlertRule {
+  return {
+    id: 'r1',
+    shop_id: 1,
+    category_id: null,
+    item_id: null,
+    name: null,
+    rule_type: 'price_drop_percent',
+    threshold: 30,
+    severity: 'WARNING',
+    is_enabled: true,
+    ...patch,
+  };
+}
+
+function priceEvent(oldPrice: number, newPrice: number, extra: Partial<AlertEvent> = {}): AlertEvent {
+  return {
+    change_type: 'price_change',
+    item_id: 100,
+    old_value: { current_price: oldPrice, original_price: oldPrice },
+    new_value: { current_price: newPrice, original_price: oldPrice },
+    ...extra,
+  };
+}
+
+describe('evaluateAlertRules', () => {
+  it('fires price drop / increase rules at or above the threshold', () => {
+    const rules = [rule({ id: 'drop' }), rule({ id: 'up', rule_type: 'price_increase_percent', threshold: 50 })];
+
+    expect(evaluateAlertRules(rules, priceEvent(100000, 70000)).map(h => h.rule.id)).toEqual(['drop']);
+    expect(evaluateAlertRules(rules, priceEvent(100000, 75000))).toEqual([]);
+    expect(evaluateAlertRules(rules, priceEvent(100000, 150000)).map(h => h.rule.id)).toEqual(['up']);
+  });
+
+  it('uses original price when only the listed price changed (manual edit during promotion)', () => {
+    const event: AlertEvent = {
+      change_type: 'price_change',
+      item_id: 100,
+      old_value: { current_price: 80000, original_price: 200000 },
+      new_value: { current_price: 80000, original_price: 50000 },
+    };
+
+    const [hit] = evaluateAlertRules([rule({ rule_type: 'price_below_floor', threshold: 60000 })], event);
+    expect(hit.details).toMatchObject({ old_price: 200000, new_price: 50000, floor: 60000 });
+  });
+
+  it('requires a flash sale for stock-out rules and BANNED for status rules', () => {
+    const rules = [rule({ id: 'stock', rule_type: 'stock_out_flash_sale', threshold: null })];
+    const stockOut: AlertEvent = {
+      change_type: 'stock_change',
+      item_id: 100,
+      old_value: { total_available_stock: 3 },
+      new_value: { total_available_stock: 0 },
+    };
+
+    expect(evaluateAlertRules(rules, stockOut)).toEqual([]);
+    expect(evaluateAlertRules(rules, { ...stockOut, in_flash_sale: true })).toHaveLength(1);
+
+    const banned = [rule({ rule_type: 'status_banned', threshold: null })];
+    const status = (item_status: string): AlertEvent => ({
+      change_type: 'status_change', item_id: 100, old_value: { item_status: 'NORMAL' }, new_value: { item_status },
+    });
+    expect(evaluateAlertRules(banned, status('UNLIST'))).toEqual([]);
+    expect(evaluateAlertRules(banned, status('BANNED'))).toHaveLength(1);
+  });
+
+  it('skips disabled rules and rules scoped to another category or item', () => {
+    const rules = [
+      rule({ id: 'off', is_enabled: false }),
+      rule({ id: 'cat', category_id: 5 }),
+      rule({ id: 'item', item_id: 200 }),
+    ];
+
+    expect(evaluateAlertRules(rules, priceEvent(100, 10, { category_id: 6 }))).toEqual([]);
+    expect(evaluateAlertRules(rules, priceEvent(100, 10, { category_id: 5 })).map(h => h.rule.id)).toEqual(['cat']);
+  });
+});
+
+describe('describeAlertRule / maxSeverity', () => {
+  it('describes threshold and scope', () => {
+    expect(describeAlertRule(rule({}))).toBe('Giá giảm quá 30%');
+    expect(describeAlertRule(rule({ rule_type: 'price_below_floor', threshold: 150000, item_id: 9 })))
+      .toBe('Giá thấp hơn giá sàn 150.000đ · SP #9');
+  });
+
+  it('keeps the higher severity', () => {
+    expect(maxSeverity('INFO', 'HIGH')).toBe('HIGH');
+    expect(maxSeverity('CRITICAL', 'WARNING')).toBe('CRITICAL');
+  });
+});
+
+describe('filterAlertInbox', () => {
+  it('returns snoozed alerts to the active view once the snooze expires', () => {
+    const now = new Date('2026-10-19T10:00:00Z');
+    const alerts = [
+      { id: 'open', status: 'open' as const, snoozed_until: null },
+      { id: 'expired', status: 'snoozed' as const, snoozed_until: '2026-10-19T09:00:00Z' },
+      { id: 'later', status: 'snoozed' as const, snoozed_until: '2026-10-19T11:00:00Z' },
+      { id: 'ack', status: 'acknowledged' as const, snoozed_until: null },
+    ];
+
+    expect(filterAlertInbox(alerts, 'active', now).map(a => a.id)).toEqual(['open', 'expired']);
+    expect(filterAlertInbox(alerts, 'snoozed', now).map(a => a.id)).toEqual(['later']);
+    expect(filterAlertInbox(alerts, 'acknowledged', now).map(a => a.id)).toEqual(['ack']);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Unit Tests: Product bulk edit
+ * Covers: buildBulkCatalog, parseBulkSheet, diffBulkImport, buildBulkRequests, applyBulkRequests
+ */
+
+import {
+  applyBulkRequests,
+  buildBulkCatalog,
+  buildBulkRequests,
+  diffBulkImport,
+  parseBulkSheet,
+  summarizeRowResult,
+  type BulkSourceModel,
+  type BulkSourceProduct,
+} from '@/lib/shopee/product-bulk';
+import type { ProductEditRequest, ProductEditResult } from '@/lib/shopee/product-edit';
+
+const products: BulkSourceProduct[] = [
+  { item_id: 1, item_name: 'Áo thun', item_sku: 'AO', has_model: true, current_price: 90000, original_price: 100000, total_available_stock: 15 },
+  { item_id: 2, item_name: 'Mũ', item_sku: 'MU', has_model: false, current_price: 50000, original_price: 50000, total_available_stock: 3 },
+];
+
+const models: Record<number, BulkSourceModel[]> = {
+  1: [
+    { item_id: 1, model_id: 12, model_sku: 'AO-L', model_name: 'L', current_price: 90000, original_price: 100000, total_available_stock: 10 },
+    { item_id: 1, model_id: 11, model_sku: '', model_name: 'M', current_price: 90000, original_price: 100000, total_available_stock: 5 },
+  ],
+};
+
+const ok: ProductEditResult = { success: true, updated_count: 1, failures: [], history_logs_created: 1 };
+
+describe('buildBulkCatalog', () => {
+  it('emits one row per model, model_id 0 for items without models', () => {
+    expect(buildBulkCatalog(products, models)).toEqual([
+      { item_id: 1, model_id: 11, sku: 'AO', name: 'Áo thun - M', price: 100000, stock: 5 },
+      { item_id: 1, model_id: 12, sku: 'AO-L', name: 'Áo thun - L', price: 100000, stock: 10 },
+      { item_id: 2, model_id: 0, sku: 'MU', name: 'Mũ', price: 50000, stock: 3 },
+    ]);
+  });
+});
+
+describe('parseBulkSheet', () => {
+  it('maps columns by header and reports invalid or duplicate lines', () => {
+    const { rows, errors } = parseBulkSheet([
+      ['Stock', 'item_id', 'model_id', 'price'],
+      ['7', '1', '11', ''],
+      ['', '2', '', '55.000'],
+      ['-1', '1', '12', ''],
+      ['1', '2', '0', ''],
+      ['1', 'abc', '', ''],
+    ]);
+
+    expect(rows).toEqual([
+      { line: 2, item_id: 1, model_id: 11, stock: 7 },
+      { line: 3, item_id: 2, model_id: 0, price: 55000 },
+    ]);
+    expect(errors.map(e => e.line)).toEqual([4, 5, 6]);
+  });
+
+  it('requires item_id and a price or stock column', () => {
+    expect(parseBulkSheet([['item_id', 'sku']]).errors[0].message).toContain('Thiếu cột');
+  });
+});
+
+describe('diffBulkImport', () => {
+  it('keeps changed and unknown rows only', () => {
+    const catalog = buildBulkCatalog(products, models);
+    const diffs = diffBulkImport(catalog, [
+      { line: 2, item_id: 1, model_id: 11, price: 100000, stock: 8 },
+      { line: 3, item_id: 1, model_id: 12, price: 100000 },
+      { line: 4, item_id: 9, model_id: 0, stock: 1 },
+    ]);
+
+    expect(diffs).toHaveLength(2);
+    expect(diffs[0]).toMatchObject({ key: '1:11', old_stock: 5, new_stock: 8, new_price: undefined });
+    expect(diffs[1].error).toBeDefined();
+  });
+});
+
+describe('buildBulkRequests / applyBulkRequests', () => {
+  const catalog = buildBulkCatalog(products, models);
+  const diffs = diffBulkImport(catalog, [
+    { line: 2, item_id: 1, model_id: 11, price: 120000, stock: 8 },
+    { line: 3, item_id: 1, model_id: 12, price: 120000 },
+    { line: 4, item_id: 2, model_id: 0, stock: 0 },
+  ]);
+
+  it('groups price and stock changes per item', () => {
+    expect(buildBulkRequests(diffs).map(r => r.request)).toEqual([
+      { action: 'update-price', item_id: 1, price_list: [{ model_id: 11, original_price: 120000 }, { model_id: 12, original_price: 120000 }] },
+      { action: 'update-stock', item_id: 1, stock_list: [{ model_id: 11, stock: 8 }] },
+      { action: 'update-stock', item_id: 2, stock_list: [{ stock: 0 }] },
+    ]);
+  });
+
+  it('maps failures back to rows and keeps going after errors', async () => {
+    const send = vi.fn(async (request: ProductEditRequest): Promise<ProductEditResult> => {
+      if (request.action === 'update-price') {
+        return { ...ok, failures: [{ item_id: 1, model_id: 12, reason: 'Price out of range' }] };
+      }
+      if (request.item_id === 2) throw new Error('Network error');
+      return ok;
+    });
+    const onProgress = vi.fn();
+
+    const results = await applyBulkRequests(buildBulkRequests(diffs), send, { delayMs: 0, onProgress });
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(onProgress).toHaveBeenLastCalledWith(3, 3, results);
+    expect(summarizeRowResult(results.get('1:11'))).toEqual({ status: 'success' });
+    expect(summarizeRowResult(results.get('1:12'))).toEqual({ status: 'failed', message: 'Price out of range' });
+    expect(summarizeRowResult(results.get('2:0'))).toEqual({ status: 'failed', message: 'Network error' });
+  });
+
+  it('marks remaining requests as skipped once aborted', async () => {
+    const controller = new AbortController();
+    const send = vi.fn(async () => {
+      controller.abort();
+      return ok;
+    });
+
+    const results = await applyBulkRequests(buildBulkRequests(diffs), send, { delayMs: 0, signal: controller.signal });
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(results.get('1:11')?.stock).toEqual({ status: 'skipped' });
+    expect(summarizeRowResult(results.get('2:0'))).toEqual({ status: 'skipped' });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Unit Tests: Cross-shop product catalog (ProductCatalogPanel)
+ * Covers: normalizeSku, buildCatalogListings, buildCatalog (SKU matching, manual links,
+ * price inconsistency), summarizeCatalog, catalogToSheet
+ */
+
+import {
+  buildCatalog,
+  buildCatalogListings,
+  catalogToSheet,
+  normalizeSku,
+  summarizeCatalog,
+  type CatalogListing,
+  type CatalogSourceModel,
+  type CatalogSourceProduct,
+} from '@/lib/shopee/product-catalog';
+
+function product(overrides: Partial<CatalogSourceProduct> = {}): CatalogSourceProduct {
+  return {
+    shop_id: 1,
+    item_id: 100,
+    item_name: 'Áo thun',
+    item_sku: 'AO-01',
+    item_status: 'NORMAL',
+    has_model: false,
+    current_price: 100000,
+    original_price: 120000,
+    total_available_stock: 10,
+    image_url_list: ['img-100'],
+    ...overrides,
+  };
+}
+
+function model(overrides: Partial<CatalogSourceModel> = {}): CatalogSourceModel {
+  return {
+    shop_id: 1,
+    item_id: 100,
+    model_id: 1,
+    model_sku: 'AO-01-M',
+    model_name: 'M',
+    current_price: 100000,
+    original_price: 120000,
+    total_available_stock: 5,
+    image_url: null,
+    ...overrides,
+  };
+}
+
+function listing(overrides: Partial<CatalogListing> = {}): CatalogListing {
+  return {
+    shop_id: 1,
+    item_id: 100,
+    model_id: 0,
+    name: 'Áo thun',
+    sku: 'AO-01',
+    item_status: 'NORMAL',
+    current_price: 100000,
+    original_price: 120000,
+    stock: 10,
+    image_url: null,
+    ...overrides,
+  };
+}
+
+describe('normalizeSku', () => {
+  it('trims, collapses whitespace and uppercases', () => {
+    expect(normalizeSku('  ao-01  xl ')).toBe('AO-01 XL');
+    expect(normalizeSku(null)).toBe('');
+  });
+});
+
+describe('buildCatalogListings', () => {
+  it('uses item_sku for items without models and model_sku for models', () => {
+    const listings = buildCatalogListings(
+      [product(), product({ item_id: 200, item_name: 'Quần', item_sku: 'QUAN', has_model: true })],
+      [
+        model({ item_id: 200, model_id: 2, model_sku: 'QUAN-L', model_name: 'L', image_url: 'img-l' }),
+        model({ item_id: 200, model_id: 3, model_sku: '', model_name: 'XL' }),
+      ]
+    );
+
+    expect(listings.map(l => [l.item_id, l.model_id, l.sku, l.name, l.image_url])).toEqual([
+      [100, 0, 'AO-01', 'Áo thun', 'img-100'],
+      [200, 2, 'QUAN-L', 'Quần - L', 'img-l'],
+      [200, 3, '', 'Quần - XL', 'img-100'],
+    ]);
+  });
+
+  it('skips duplicate rows of the same shop item', () => {
+    expect(buildCatalogListings([product(), product()], [])).toHaveLength(1);
+  });
+
+  it('falls back to the item when a model item has no synced models', () => {
+    const [only] = buildCatalogListings([product({ has_model: true })], []);
+    expect(only.model_id).toBe(0);
+  });
+});
+
+describe('buildCatalog', () => {
+  it('groups listings across shops by normalized SKU', () => {
+    const { entries, unmatched } = buildCatalog([
+      listing({ shop_id: 1, sku: 'ao-01' }),
+      listing({ shop_id: 2, item_id: 900, sku: ' AO-01 ', stock: 4 }),
+      listing({ shop_id: 2, item_id: 901, sku: '' }),
+    ], []);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ master_sku: 'AO-01', total_stock: 14, price_inconsistent: false, has_manual_link: false });
+    expect(entries[0].shops.map(s => s.shop_id)).toEqual([1, 2]);
+    expect(unmatched.map(l => l.item_id)).toEqual([901]);
+  });
+
+  it('applies manual links and exclusions over the Shopee SKU', () => {
+    const { entries, unmatched } = buildCatalog([
+      listing({ shop_id: 1, sku: 'AO-01' }),
+      listing({ shop_id: 2, item_id: 900, sku: 'SHIRT-1' }),
+      listing({ shop_id: 3, item_id: 500, sku: 'AO-01' }),
+    ], [
+      { shop_id: 2, item_id: 900, model_id: 0, master_sku: 'ao-01' },
+      { shop_id: 3, item_id: 500, model_id: 0, master_sku: null },
+    ]);
+
+    expect(entries.map(e => e.master_sku)).toEqual(['AO-01']);
+    expect(entries[0].shops.map(s => s.shop_id)).toEqual([1, 2]);
+    expect(entries[0].has_manual_link).toBe(true);
+    expect(unmatched.map(l => l.shop_id)).toEqual([3]);
+  });
+
+  it('flags price differences between shops above the tolerance', () => {
+    const listings = [
+      listing({ shop_id: 1, current_price: 100000 }),
+      listing({ shop_id: 2, item_id: 900, current_price: 108000 }),
+    ];
+
+    const [strict] = buildCatalog(listings, []).entries;
+    expect(strict).toMatchObject({ min_price: 100000, max_price: 108000, price_spread_pct: 8, price_inconsistent: true });
+    expect(buildCatalog(listings, [], 10).entries[0].price_inconsistent).toBe(false);
+  });
+
+  it('ignores price differences within one shop and of inactive listings', () => {
+    const { entries } = buildCatalog([
+      listing({ shop_id: 1, current_price: 100000 }),
+      listing({ shop_id: 1, item_id: 101, current_price: 150000 }),
+      listing({ shop_id: 2, item_id: 900, current_price: 50000, item_status: 'UNLIST' }),
+    ], []);
+
+    expect(entries[0].price_inconsistent).toBe(false);
+    expect(entries[0].shops[0]).toMatchObject({ min_price: 100000, max_price: 150000, is_active: true });
+    expect(entries[0].shops[1]).toMatchObject({ min_price: 50000, is_active: false });
+  });
+});
+
+describe('summarizeCatalog', () => {
+  it('counts masters, multi-shop SKUs, inconsistencies and unmatched listings', () => {
+    const result = buildCatalog([
+      listing({ shop_id: 1, sku: 'A' }),
+      listing({ shop_id: 2, item_id: 900, sku: 'A', current_price: 90000 }),
+      listing({ shop_id: 1, item_id: 101, sku: 'B' }),
+      listing({ shop_id: 1, item_id: 102, sku: '' }),
+    ], []);
+
+    expect(summarizeCatalog(result)).toEqual({ master_count: 2, multi_shop_count: 1, inconsistent_count: 1, unmatched_count: 1 });
+  });
+});
+
+describe('catalogToSheet', () => {
+  it('writes one row per master SKU with price / stock / status per shop', () => {
+    const { entries } = buildCatalog([
+      listing({ shop_id: 1, sku: 'A' }),
+      listing({ shop_id: 1, item_id: 101, sku: 'A', current_price: 110000, stock: 2 }),
+    ], []);
+
+    expect(catalogToSheet(entries, [{ shop_id: 1, shop_name: 'Shop 1' }, { shop_id: 2, shop_name: null }])).toEqual([
+      ['master_sku', 'name', 'min_price', 'max_price', 'spread_pct', 'price_inconsistent', 'Shop 1 price', 'Shop 1 stock', 'Shop 1 status', '2 price', '2 stock', '2 status'],
+      ['A', 'Áo thun', 100000, 110000, 10, '', '100000-110000', 12, 'NORMAL', null, null, null],
+    ]);
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Unit Tests: Product content drafts (apishopee-product get-content / push-content)
+ * Covers: contentFromItem, normalizeAttributeTree, limitsFromItemLimit, diffContent,
+ * conflictingFields, validateContent, buildUpdateItemBody
+ */
+
+import {
+  buildUpdateItemBody,
+  conflictingFields,
+  contentChangeSummary,
+  contentFromItem,
+  diffContent,
+  limitsFromItemLimit,
+  normalizeAttributeTree,
+  validateContent,
+  DEFAULT_CONTENT_LIMITS,
+  type CategoryAttribute,
+  type ProductContent,
+} from '@/lib/shopee/product-content';
+
+function content(overrides: Partial<ProductContent> = {}): ProductContent {
+  return {
+    item_name: 'Áo thun cotton nam cổ tròn',
+    description: 'Mô tả '.repeat(30),
+    attribute_list: [{ attribute_id: 100, attribute_value_list: [{ value_id: 1 }] }],
+    brand: { brand_id: 0, original_brand_name: 'NoBrand' },
+    weight: 0.3,
+    dimension: { package_length: 20, package_width: 15, package_height: 3 },
+    images: [{ image_id: 'img-1', image_url: 'https://cf.shopee.vn/img-1' }],
+    ...overrides,
+  };
+}
+
+function attribute(overrides: Partial<CategoryAttribute> = {}): CategoryAttribute {
+  return {
+    attribute_id: 100,
+    name: 'Chất liệu',
+    is_mandatory: true,
+    input_type: 'single_select',
+    validation_type: 'none',
+    max_value_count: null,
+    units: [],
+    values: [{ value_id: 1, name: 'Cotton' }, { value_id: 2, name: 'Polyester' }],
+    ...overrides,
+  };
+}
+
+describe('contentFromItem', () => {
+  it('maps get_item_base_info fields', () => {
+    const result = contentFromItem({
+      item_name: 'Áo thun',
+      description: 'Mô tả',
+      attribute_list: [{ attribute_id: 100, attribute_value_list: [{ value_id: 0, original_value_name: '250', value_unit: 'g' }] }],
+      brand: { brand_id: 5, original_brand_name: 'Betacom' },
+      weight: '0.25',
+      dimension: { package_length: 10, package_width: 5, package_height: 2 },
+      image: { image_id_list: ['a', 'b'], image_url_list: ['url-a', 'url-b'] },
+    });
+
+    expect(result).toEqual({
+      item_name: 'Áo thun',
+      description: 'Mô tả',
+      attribute_list: [{ attribute_id: 100, attribute_value_list: [{ value_id: 0, original_value_name: '250', value_unit: 'g' }] }],
+      brand: { brand_id: 5, original_brand_name: 'Betacom' },
+      weight: 0.25,
+      dimension: { package_length: 10, package_width: 5, package_height: 2 },
+      images: [{ image_id: 'a', image_url: 'url-a' }, { image_id: 'b', image_url: 'url-b' }],
+    });
+  });
+
+  it('falls back to extended description text and empty values', () => {
+    const result = contentFromItem({
+      description_info: {
+        extended_description: {
+          field_list: [
+            { field_type: 'text', text: 'Dòng 1' },
+            { field_type: 'image' },
+            { field_type: 'text', text: 'Dòng 2' },
+          ],
+        },
+      },
+      dimension: { package_length: 0, package_width: 0, package_height: 0 },
+    });
+
+    expect(result.description).toBe('Dòng 1\nDòng 2');
+    expect(result.weight).toBeNull();
+    expect(result.dimension).toBeNull();
+    expect(result.brand).toBeNull();
+    expect(result.images).toEqual([]);
+  });
+});
+
+describe('normalizeAttributeTree', () => {
+  it('maps input / validation types and prefers the Vietnamese name', () => {
+    const [attr] = normalizeAttributeTree([{
+      attribute_id: 7,
+      mandatory: true,
+      name: 'Material',
+      multi_lang: [{ language: 'vi', value: 'Chất liệu' }],
+      attribute_info: { input_type: 5, input_validation_type: 1, max_value_count: 3, attribute_unit_list: ['g', 'kg'] },
+      attribute_value_list: [{ value_id: 1, name: 'Cotton' }, { value_id: 2 }],
+    }]);
+
+    expect(attr).toEqual({
+      attribute_id: 7,
+      name: 'Chất liệu',
+      is_mandatory: true,
+      input_type: 'multi_combo',
+      validation_type: 'int',
+      max_value_count: 3,
+      units: ['g', 'kg'],
+      values: [{ value_id: 1, name: 'Cotton' }, { value_id: 2, name: '2' }],
+    });
+  });
+
+  it('defaults to an optional free-text attribute', () => {
+    const [attr] = normalizeAttributeTree([{ attribute_id: 8 }]);
+    expect(attr).toMatchObject({ name: '#8', is_mandatory: false, input_type: 'text', validation_type: 'none', max_value_count: null });
+  });
+});
+
+describe('limitsFromItemLimit', () => {
+  it('uses shop limits and defaults for missing fields', () => {
+    expect(limitsFromItemLimit({ item_name_length_limit: { min_limit: 20, max_limit: 100 } }, true)).toEqual({
+      ...DEFAULT_CONTENT_LIMITS,
+      name_min: 20,
+      name_max: 100,
+      brand_mandatory: true,
+    });
+    expect(limitsFromItemLimit(undefined, false)).toEqual(DEFAULT_CONTENT_LIMITS);
+  });
+});
+
+describe('diffContent', () => {
+  it('returns no fields for equal content', () => {
+    expect(diffContent(content(), content())).toEqual([]);
+  });
+
+  it('ignores whitespace, attribute order and empty attributes', () => {
+    const base = content({
+      attribute_list: [
+        { attribute_id: 100, attribute_value_list: [{ value_id: 1 }] },
+        { attribute_id: 200, attribute_value_list: [{ value_id: 0, original_value_name: 'VN' }] },
+      ],
+    });
+    const draft = content({
+      item_name: `  ${base.item_name}  `,
+      attribute_list: [
+        { attribute_id: 300, attribute_value_list: [] },
+        { attribute_id: 200, attribute_value_list: [{ value_id: 0, original_value_name: 'VN' }] },
+        { attribute_id: 100, attribute_value_list: [{ value_id: 1 }] },
+      ],
+    });
+    expect(diffContent(base, draft)).toEqual([]);
+  });
+
+  it('detects image order and brand changes', () => {
+    const base = content({ images: [{ image_id: 'a', image_url: '' }, { image_id: 'b', image_url: '' }] });
+    const draft = content({
+      images: [{ image_id: 'b', image_url: '' }, { image_id: 'a', image_url: '' }],
+      brand: { brand_id: 5, original_brand_name: 'Betacom' },
+    });
+    expect(diffContent(base, draft)).toEqual(['brand', 'images']);
+  });
+});
+
+describe('conflictingFields', () => {
+  it('returns fields changed both on Shopee and in the draft', () => {
+    const base = content();
+    const current = content({ item_name: 'Tên đã sửa trên Shopee', weight: 0.5 });
+    expect(conflictingFields(base, current, ['item_name', 'description'])).toEqual(['item_name']);
+  });
+});
+
+describe('contentChangeSummary', () => {
+  it('lists field labels', () => {
+    expect(contentChangeSummary(['item_name', 'images'])).toBe('Cập nhật nội dung: tên, ảnh');
+  });
+});
+
+describe('validateContent', () => {
+  it('accepts valid content', () => {
+    expect(validateContent(content(), [attribute()])).toEqual([]);
+  });
+
+  it('checks name, description, images, weight and dimension', () => {
+    const errors = validateContent(content({
+      item_name: 'Ngắn',
+      description: 'Quá ngắn',
+      images: [],
+      weight: null,
+      dimension: { package_length: 10, package_width: 0, package_height: 1.5 },
+    }), []);
+    expect(errors.map(e => e.field)).toEqual(['item_name', 'description', 'images', 'weight', 'dimension']);
+  });
+
+  it('uses shop limits and mandatory brand', () => {
+    const limits = { ...DEFAULT_CONTENT_LIMITS, image_max: 1, brand_mandatory: true };
+    const errors = validateContent(content({
+      images: [{ image_id: 'a', image_url: '' }, { image_id: 'b', image_url: '' }],
+    }), [], limits);
+    expect(errors.map(e => e.field)).toEqual(['images', 'brand']);
+  });
+
+  it('requires mandatory attributes', () => {
+    const errors = validateContent(content({ attribute_list: [] }), [attribute(), attribute({ attribute_id: 101, is_mandatory: false })]);
+    expect(errors).toEqual([{ field: 'attribute_list', attribute_id: 100, message: 'Chất liệu: bắt buộc' }]);
+  });
+
+  it('rejects unknown values, free text on select and too many values', () => {
+    const select = attribute();
+    const multi = attribute({ attribute_id: 101, input_type: 'multi_select', max_value_count: 1 });
+    const errors = validateContent(content({
+      attribute_list: [
+        { attribute_id: 100, attribute_value_list: [{ value_id: 0, original_value_name: 'Lụa' }] },
+        { attribute_id: 101, attribute_value_list: [{ value_id: 1 }, { value_id: 2 }] },
+      ],
+    }), [select, multi]);
+    expect(errors.map(e => e.attribute_id)).toEqual([100, 101]);
+
+    const unknown = validateContent(content({
+      attribute_list: [{ attribute_id: 100, attribute_value_list: [{ value_id: 99 }] }],
+    }), [select]);
+    expect(unknown[0].message).toContain('không thuộc danh sách');
+  });
+
+  it('validates free text against validation type and units', () => {
+    const weightAttr = attribute({ input_type: 'text', validation_type: 'int', values: [], units: ['g', 'kg'] });
+    const check = (original_value_name: string, value_unit?: string) => validateContent(content({
+      attribute_list: [{ attribute_id: 100, attribute_value_list: [{ value_id: 0, original_value_name, value_unit }] }],
+    }), [weightAttr]);
+
+    expect(check('250', 'g')).toEqual([]);
+    expect(check('2.5', 'kg')[0].message).toContain('số nguyên');
+    expect(check('250', 'lb')[0].message).toContain('đơn vị');
+    expect(check('  ')[0].message).toContain('trống');
+  });
+});
+
+describe('buildUpdateItemBody', () => {
+  it('includes only changed fields in update_item format', () => {
+    const draft = content({
+      item_name: '  Áo thun mới  ',
+      attribute_list: [
+        { attribute_id: 100, attribute_value_list: [{ value_id: 2 }] },
+        { attribute_id: 101, attribute_value_list: [] },
+      ],
+      brand: null,
+      images: [{ image_id: 'b', image_url: '' }, { image_id: 'a', image_url: '' }],
+    });
+
+    expect(buildUpdateItemBody(123, draft, ['item_name', 'attribute_list', 'brand', 'images'])).toEqual({
+      item_id: 123,
+      item_name: 'Áo thun mới',
+      attribute_list: [{ attribute_id: 100, attribute_value_list: [{ value_id: 2 }] }],
+      brand: { brand_id: 0, original_brand_name: 'NoBrand' },
+      image: { image_id_list: ['b', 'a'] },
+    });
+    expect(buildUpdateItemBody(123, draft, [])).toEqual({ item_id: 123 });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Unit Tests: Product Edit helpers
+ * Covers: parsePriceInput, parseStockInput, formatEditFailures, describeEditRequest
+ */
+
+import {
+  describeEditRequest,
+  formatEditFailures,
+  parsePriceInput,
+  parseStockInput,
+} from '@/lib/shopee/product-edit';
+
+describe('parsePriceInput', () => {
+  it('accepts VND formatted input', () => {
+    expect(parsePriceInput('150000')).toBe(150000);
+    expect(parsePriceInput('150.000')).toBe(150000);
+    expect(parsePriceInput(' 1,250,000 đ ')).toBe(1250000);
+  });
+
+  it('rejects empty and zero prices', () => {
+    expect(parsePriceInput('')).toBeNull();
+    expect(parsePriceInput('đ')).toBeNull();
+    expect(parsePriceInput('0')).toBeNull();
+  });
+});
+
+describe('parseStockInput', () => {
+  it('accepts non-negative integers including zero', () => {
+    expect(parseStockInput('0')).toBe(0);
+    expect(parseStockInput(' 1.200 ')).toBe(1200);
+  });
+
+  it('rejects negative and non-numeric input', () => {
+    expect(parseStockInput('-5')).toBeNull();
+    expect(parseStockInput('3abc')).toBeNull();
+    expect(parseStockInput('')).toBeNull();
+  });
+});
+
+describe('formatEditFailures', () => {
+  it('prefixes model failures with the model name', () => {
+    const failures = [
+      { item_id: 1, model_id: 21, reason: 'Price out of range' },
+      { item_id: 1, model_id: 22, reason: 'Model locked' },
+      { item_id: 1, reason: 'Item under review' },
+    ];
+
+    expect(formatEditFailures(failures, new Map([[21, 'Size M']]))).toBe(
+      'Size M: Price out of range; Phân loại #22: Model locked; Item under review'
+    );
+  });
+});
+
+describe('describeEditRequest', () => {
+  it('labels each action', () => {
+    expect(describeEditRequest({ action: 'update-price', item_id: 1, price_list: [{ original_price: 1000 }] })).toBe('Cập nhật giá');
+    expect(describeEditRequest({ action: 'update-stock', item_id: 1, stock_list: [{ stock: 1 }] })).toBe('Cập nhật tồn kho');
+    expect(describeEditRequest({ action: 'unlist-item', item_id: 1, unlist: false })).toBe('Hiển thị sản phẩm');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Unit Tests: Product sync cursor (worker job product_sync)
+ * Covers: startProductSyncCursor, advanceListCursor, completeDetailBatch, itemsToRemove,
+ * describeSyncProgress, aggregateProductPricing
+ */
+
+import {
+  advanceListCursor,
+  aggregateProductPricing,
+  completeDetailBatch,
+  describeSyncProgress,
+  isSyncFinished,
+  itemsToRemove,
+  nextDetailBatch,
+  startProductSyncCursor,
+  type ProductSyncCursor,
+  type ShopeeModel,
+  type ShopeeProduct,
+} from '@/lib/shopee/product-sync';
+
+const NOW = 1_770_000_000;
+
+function items(...ids: number[]) {
+  return ids.map(item_id => ({ item_id, item_status: 'NORMAL', update_time: NOW }));
+}
+
+/** Chạy hết phase list với 1 trang mỗi status */
+function listAll(cursor: ProductSyncCursor, pages: Record<number, number[]>): ProductSyncCursor {
+  let next = cursor;
+  while (next.phase === 'list') {
+    next = advanceListCursor(next, { items: items(...(pages[next.status_index] || [])), hasNextPage: false });
+  }
+  return next;
+}
+
+function model(modelId: number, current: number, original: number, stock: number): ShopeeModel {
+  return {
+    model_id: modelId,
+    model_sku: `SKU-${modelId}`,
+    price_info: [{ current_price: current, original_price: original }],
+    stock_info_v2: { summary_info: { total_reserved_stock: 0, total_available_stock: stock } },
+    tier_index: [0],
+  };
+}
+
+describe('startProductSyncCursor', () => {
+  it('falls back to a full run when the shop has no update_time cursor yet', () => {
+    expect(startProductSyncCursor('incremental', NOW, null)).toMatchObject({ mode: 'full', update_time_from: null });
+    expect(startProductSyncCursor('incremental', NOW, NOW - 3600)).toMatchObject({
+      mode: 'incremental', update_time_from: NOW - 3600, started_at: NOW, phase: 'list',
+    });
+  });
+});
+
+describe('advanceListCursor', () => {
+  it('pages within a status before moving to the next one', () => {
+    const start = startProductSyncCursor('full', NOW, null);
+    const paged = advanceListCursor(start, { items: items(1, 2), hasNextPage: true, nextOffset: 2 });
+    expect(paged).toMatchObject({ status_index: 0, offset: 2, listed_ids: [1, 2] });
+
+    const nextStatus = advanceListCursor(paged, { items: items(3), hasNextPage: false });
+    expect(nextStatus).toMatchObject({ status_index: 1, offset: 0, listed_ids: [1, 2, 3] });
+  });
+
+  it('moves to details without the items Shopee reports as deleted', () => {
+    // incremental: NORMAL, UNLIST, BANNED, SELLER_DELETE, SHOPEE_DELETE
+    const cursor = listAll(startProductSyncCursor('incremental', NOW, NOW - 60), { 0: [1, 2], 1: [3], 3: [2, 9] });
+
+    expect(cursor).toMatchObject({ phase: 'details', deleted_ids: [2, 9], pending_ids: [1, 3], total: 2 });
+  });
+});
+
+describe('detail batches', () => {
+  it('consumes pending ids batch by batch and accumulates counts', () => {
+    let cursor = listAll(startProductSyncCursor('full', NOW, null), { 0: [1, 2, 3] });
+    const first = nextDetailBatch(cursor, 2);
+    cursor = completeDetailBatch(cursor, first, { inserted: 1, updated: 1 });
+
+    expect(first).toEqual([1, 2]);
+    expect(isSyncFinished(cursor)).toBe(false);
+    expect(describeSyncProgress(cursor)).toEqual({ percent: 67, label: 'Đang cập nhật 2/3 sản phẩm' });
+
+    cursor = completeDetailBatch(cursor, nextDetailBatch(cursor, 2), { updated: 1, models: 4 });
+    expect(isSyncFinished(cursor)).toBe(true);
+    expect(cursor.counts).toEqual({ inserted: 1, updated: 2, deleted: 0, models: 4, history_logs: 0 });
+  });
+
+  it('reports listing progress without a percentage', () => {
+    const cursor = advanceListCursor(startProductSyncCursor('full', NOW, null), { items: items(1), hasNextPage: true });
+    expect(describeSyncProgress(cursor).percent).toBeNull();
+  });
+});
+
+describe('itemsToRemove', () => {
+  it('incremental removes only reported deletions that exist in DB', () => {
+    const cursor = listAll(startProductSyncCursor('incremental', NOW, NOW - 60), { 3: [5, 6] });
+    expect(itemsToRemove(cursor, [1, 5])).toEqual([5]);
+  });
+
+  it('full removes DB items missing from the listing, but never on an empty listing', () => {
+    const full = listAll(startProductSyncCursor('full', NOW, null), { 0: [1], 2: [2] });
+    expect(itemsToRemove(full, [1, 2, 3])).toEqual([3]);
+
+    const empty = listAll(startProductSyncCursor('full', NOW, null), {});
+    expect(itemsToRemove(empty, [1, 2])).toEqual([]);
+  });
+});
+
+describe('aggregateProductPricing', () => {
+  const product = {
+    item_id: 1,
+    price_info: [{ current_price: 50000, original_price: 60000 }],
+    stock_info_v2: { summary_info: { total_reserved_stock: 0, total_available_stock: 7 } },
+  } as ShopeeProduct;
+
+  it('uses item level price and stock without models', () => {
+    expect(aggregateProductPricing(product, [])).toEqual({ current_price: 50000, original_price: 60000, total_available_stock: 7 });
+  });
+
+  it('takes the lowest model price, highest original price and total stock', () => {
+    expect(aggregateProductPricing(product, [model(1, 90000, 100000, 3), model(2, 80000, 120000, 4), model(3, 0, 0, 1)]))
+      .toEqual({ current_price: 80000, original_price: 120000, total_available_stock: 8 });
+  });
+});
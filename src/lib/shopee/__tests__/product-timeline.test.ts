@@ -0,0 +1,105 @@
+/**
+ * Unit Tests: Product price / stock timeline
+ * Covers: buildTimelineSeries, stateAt, flashSaleStartStates, timelineToSheet
+ */
+
+import {
+  buildTimelineSeries,
+  flashSaleStartStates,
+  stateAt,
+  timelineToSheet,
+  type TimelineLog,
+  type TimelineSnapshot,
+} from '@/lib/shopee/product-timeline';
+
+function log(detectedAt: string, patch: Partial<TimelineLog>): TimelineLog {
+  return {
+    detected_at: detectedAt,
+    change_type: 'price_change',
+    model_id: 11,
+    model_name: 'Đỏ',
+    source: 'webhook',
+    old_value: null,
+    new_value: null,
+    ...patch,
+  };
+}
+
+const LOGS: TimelineLog[] = [
+  log('2026-03-01T10:00:00Z', {
+    change_type: 'stock_change',
+    old_value: { total_available_stock: 50 },
+    new_value: { total_available_stock: 40 },
+  }),
+  log('2026-03-01T08:00:00Z', {
+    old_value: { current_price: 100000, original_price: 100000 },
+    new_value: { current_price: 80000, original_price: 100000, promotion_price: 80000 },
+  }),
+  log('2026-03-02T08:00:00Z', {
+    old_value: { current_price: 80000, original_price: 100000 },
+    new_value: { current_price: 100000, original_price: 100000 },
+  }),
+];
+
+const SNAPSHOT: TimelineSnapshot = {
+  model_id: 11,
+  model_name: 'Đỏ',
+  current_price: 95000,
+  original_price: 100000,
+  total_available_stock: 35,
+  synced_at: '2026-03-03T00:00:00Z',
+};
+
+describe('buildTimelineSeries', () => {
+  it('carries unchanged fields forward and starts from the first old values', () => {
+    const [series] = buildTimelineSeries(LOGS, []);
+    const [initial, priceDrop, stock] = series.points;
+
+    expect(initial).toMatchObject({ source: 'initial', price: 100000, stock: 50 });
+    expect(initial.time).toBe(Date.parse('2026-03-01T08:00:00Z') - 1);
+    expect(priceDrop).toMatchObject({ price: 80000, promotion_price: 80000, stock: 50 });
+    expect(stock).toMatchObject({ price: 80000, promotion_price: 80000, stock: 40 });
+  });
+
+  it('drops the promotion price on a price change without one and appends a newer snapshot', () => {
+    const [series] = buildTimelineSeries(LOGS, [SNAPSHOT]);
+    const points = series.points;
+
+    expect(points[3].promotion_price).toBeUndefined();
+    expect(points[4]).toMatchObject({ source: 'snapshot', price: 95000, stock: 35 });
+  });
+
+  it('keeps models apart and adds series for models with only a snapshot', () => {
+    const series = buildTimelineSeries(LOGS, [SNAPSHOT, { ...SNAPSHOT, model_id: 12, model_name: 'Xanh' }]);
+
+    expect(series.map(s => [s.model_id, s.model_name, s.points.length])).toEqual([[11, 'Đỏ', 5], [12, 'Xanh', 1]]);
+  });
+});
+
+describe('stateAt / flashSaleStartStates', () => {
+  const [series] = buildTimelineSeries(LOGS, []);
+
+  it('returns the last known state at or before the time', () => {
+    expect(stateAt(series, Date.parse('2026-03-01T12:00:00Z'))).toEqual({
+      price: 80000, original_price: 100000, promotion_price: 80000, stock: 40,
+    });
+    expect(stateAt(series, Date.parse('2026-02-28T00:00:00Z'))).toBeNull();
+  });
+
+  it('answers the price when each flash sale started, in start order', () => {
+    const noon = (day: string) => Date.parse(`2026-03-0${day}T12:00:00Z`) / 1000;
+    const states = flashSaleStartStates(series, [
+      { flash_sale_id: 2, start_time: noon('2'), end_time: noon('2') + 3600 },
+      { flash_sale_id: 1, start_time: noon('1'), end_time: noon('1') + 3600, includes_item: true },
+    ]);
+
+    expect(states.map(s => [s.window.flash_sale_id, s.state?.price])).toEqual([[1, 80000], [2, 100000]]);
+  });
+
+  it('exports one row per point with a header', () => {
+    const sheet = timelineToSheet([series]);
+    expect(sheet[0]).toContain('promotion_price');
+    expect(sheet).toHaveLength(series.points.length + 1);
+    expect(sheet[1].slice(0, 3)).toEqual(['2026-03-01T07:59:59.999Z', 11, 'Đỏ']);
+  });
+});
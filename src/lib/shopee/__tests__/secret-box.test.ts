@@ -0,0 +1,101 @@
+// @vitest-environment node
+/**
+ * Unit Tests: Envelope encryption cho partner_key / token lưu trong DB
+ * Covers: sealSecret, openSecret, needsReseal, resealSecret, sealSecretFields / openSecretFields
+ */
+
+import {
+  importSecretKeyring,
+  isSealedSecret,
+  needsReseal,
+  openSecret,
+  openSecretFields,
+  resealSecret,
+  sealSecret,
+  sealSecretFields,
+  sealedKeyId,
+  SECRET_PREFIX,
+  type SecretKeyring,
+} from '../../../../supabase/functions/_shared/secret-box.ts';
+
+const KEY_1 = Buffer.alloc(32, 1).toString('base64');
+const KEY_2 = Buffer.alloc(32, 2).toString('base64');
+
+let k1: SecretKeyring;
+let k2: SecretKeyring;
+
+beforeAll(async () => {
+  k1 = (await importSecretKeyring(`k1:${KEY_1}`))!;
+  // Key mới đứng đầu, key cũ giữ lại để mở dữ liệu chưa rotate
+  k2 = (await importSecretKeyring(`k2:${KEY_2},k1:${KEY_1}`))!;
+});
+
+describe('importSecretKeyring', () => {
+  it('chưa cấu hình → null; key active mặc định là key đầu tiên', async () => {
+    expect(await importSecretKeyring('')).toBeNull();
+    expect(k2.activeKeyId).toBe('k2');
+    expect((await importSecretKeyring(`k2:${KEY_2},k1:${KEY_1}`, 'k1'))!.activeKeyId).toBe('k1');
+  });
+
+  it('key sai độ dài hoặc key active không có trong danh sách → lỗi', async () => {
+    await expect(importSecretKeyring(`k1:${Buffer.alloc(16).toString('base64')}`)).rejects.toThrow('32 bytes');
+    await expect(importSecretKeyring(`k1:${KEY_1}`, 'k9')).rejects.toThrow('k9');
+  });
+});
+
+describe('sealSecret / openSecret', () => {
+  it('mã hóa rồi giải mã ra đúng giá trị, mỗi lần mã hóa khác nhau', async () => {
+    const sealed = await sealSecret('shpk-secret', k1);
+    expect(sealed.startsWith(SECRET_PREFIX)).toBe(true);
+    expect(sealed).not.toContain('shpk-secret');
+    expect(sealedKeyId(sealed)).toBe('k1');
+    expect(await sealSecret('shpk-secret', k1)).not.toBe(sealed);
+    expect(await openSecret(sealed, k1)).toBe('shpk-secret');
+  });
+
+  it('plaintext cũ mở nguyên; chưa có keyring thì ghi plaintext', async () => {
+    expect(await openSecret('legacy-token', k1)).toBe('legacy-token');
+    expect(await openSecret('legacy-token', null)).toBe('legacy-token');
+    expect(await sealSecret('legacy-token', null)).toBe('legacy-token');
+  });
+
+  it('không mã hóa lại giá trị đã mã hóa', async () => {
+    const sealed = await sealSecret('token', k1);
+    expect(await sealSecret(sealed, k2)).toBe(sealed);
+  });
+
+  it('key id không có trong keyring hoặc dữ liệu bị sửa → lỗi', async () => {
+    const sealed = await sealSecret('token', k2);
+    await expect(openSecret(sealed, k1)).rejects.toThrow('k2');
+    await expect(openSecret(sealed, null)).rejects.toThrow('k2');
+
+    const parts = sealed.split(':');
+    parts[4] = Buffer.from('x'.repeat(40)).toString('base64');
+    await expect(openSecret(parts.join(':'), k2)).rejects.toThrow();
+  });
+});
+
+describe('rotation', () => {
+  it('needsReseal: plaintext hoặc key cũ; resealSecret chuyển sang key active', async () => {
+    const old = await sealSecret('refresh', k1);
+    expect(needsReseal('refresh', k2)).toBe(true);
+    expect(needsReseal(old, k2)).toBe(true);
+    expect(needsReseal(null, k2)).toBe(false);
+
+    const rotated = await resealSecret(old, k2);
+    expect(sealedKeyId(rotated)).toBe('k2');
+    expect(needsReseal(rotated, k2)).toBe(false);
+    expect(await openSecret(rotated, k2)).toBe('refresh');
+  });
+});
+
+describe('sealSecretFields / openSecretFields', () => {
+  it('chỉ xử lý cột bí mật có giá trị, giữ nguyên các cột khác', async () => {
+    const row = { shop_id: 1, access_token: 'at', refresh_token: null as string | null, partner_key: '' };
+    const sealed = await sealSecretFields(row, ['access_token', 'refresh_token', 'partner_key'], k2);
+    expect(isSealedSecret(sealed.access_token)).toBe(true);
+    expect(sealed).toMatchObject({ shop_id: 1, refresh_token: null, partner_key: '' });
+
+    expect(await openSecretFields(sealed, ['access_token', 'refresh_token'], k2)).toEqual(row);
+  });
+});
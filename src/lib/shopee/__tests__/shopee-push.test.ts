@@ -0,0 +1,228 @@
+// @vitest-environment node
+/**
+ * Unit Tests: Shopee push guards (supabase/functions/_shared/shopee-push.ts)
+ * Covers: computePushSignature, verifyPushSignature, isServiceRoleRequest, checkPushTimestamp,
+ * claimDedupeKey / releaseDedupeKey
+ */
+
+import { createHmac } from 'node:crypto';
+import { vi, describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  checkPushTimestamp,
+  claimDedupeKey,
+  computePushSignature,
+  DEFAULT_PUSH_REPLAY_WINDOW_SECONDS,
+  isServiceRoleRequest,
+  MAX_PUSH_CLOCK_SKEW_SECONDS,
+  releaseDedupeKey,
+  verifyPushSignature,
+  type PushDedupeKey,
+} from '../../../../supabase/functions/_shared/shopee-push.ts';
+
+const CALLBACK_URL = 'https://example.supabase.co/functions/v1/apishopee-push';
+const RAW_BODY = JSON.stringify({ code: 1, shop_id: 1001, timestamp: 1_770_000_000, data: { success: 1 } });
+const NOW = 1_770_000_000;
+
+const APPS = [
+  { id: 'app-1', partner_id: 2001, partner_key: 'key-one', partner_name: 'App 1', app_category: 'erp' },
+  { id: 'app-2', partner_id: 2002, partner_key: 'key-two', partner_name: 'App 2', app_category: 'erp' },
+];
+
+const DEDUPE_KEY: PushDedupeKey = {
+  shop_id: 1001,
+  push_code: 1,
+  item_id: 0,
+  shopee_timestamp: NOW,
+  webhook_type: 'shop_authorization_push',
+};
+
+function sign(key: string, url = CALLBACK_URL, body = RAW_BODY) {
+  return createHmac('sha256', key).update(`${url}|${body}`).digest('hex');
+}
+
+/** Query builder giả: mọi method trả về chính nó, await trả về `result`; ghi lại các lời gọi */
+function fakeSupabase(result: { data?: unknown; error?: { code?: string; message: string } | null }) {
+  const calls: Array<[string, ...unknown[]]> = [];
+  const builder: Record<string, unknown> = {
+    then: (resolve: (value: unknown) => void) => resolve({ data: result.data ?? null, error: result.error ?? null }),
+  };
+  for (const method of ['select', 'eq', 'insert', 'delete']) {
+    builder[method] = (...args: unknown[]) => {
+      calls.push([method, ...args]);
+      return builder;
+    };
+  }
+  const client = {
+    from: (table: string) => {
+      calls.push(['from', table]);
+      return builder;
+    },
+  };
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return { client: client as any, calls };
+}
+
+describe('computePushSignature', () => {
+  it('HMAC-SHA256(partner_key, callback_url|raw_body) dạng hex', async () => {
+    expect(await computePushSignature('key-one', CALLBACK_URL, RAW_BODY)).toBe(sign('key-one'));
+  });
+
+  it('đổi body thì chữ ký khác', async () => {
+    const other = await computePushSignature('key-one', CALLBACK_URL, `${RAW_BODY} `);
+    expect(other).not.toBe(sign('key-one'));
+  });
+});
+
+describe('verifyPushSignature', () => {
+  beforeAll(() => {
+    // secrets.ts đọc keyring từ Deno.env; không cấu hình key → partner_key là plaintext
+    vi.stubGlobal('Deno', { env: { get: () => undefined } });
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('trả về app có partner key khớp chữ ký', async () => {
+    const { client } = fakeSupabase({ data: APPS });
+    const app = await verifyPushSignature(client, {
+      callbackUrl: CALLBACK_URL,
+      rawBody: RAW_BODY,
+      authorization: sign('key-two'),
+    });
+    expect(app?.id).toBe('app-2');
+  });
+
+  it('chấp nhận header viết hoa / có khoảng trắng', async () => {
+    const { client } = fakeSupabase({ data: APPS });
+    const app = await verifyPushSignature(client, {
+      callbackUrl: CALLBACK_URL,
+      rawBody: RAW_BODY,
+      authorization: ` ${sign('key-one').toUpperCase()} `,
+    });
+    expect(app?.id).toBe('app-1');
+  });
+
+  it('chữ ký sai hoặc callback URL khác → null', async () => {
+    const { client } = fakeSupabase({ data: APPS });
+    expect(await verifyPushSignature(client, {
+      callbackUrl: CALLBACK_URL,
+      rawBody: RAW_BODY,
+      authorization: sign('key-three'),
+    })).toBeNull();
+    expect(await verifyPushSignature(client, {
+      callbackUrl: 'https://evil.example.com/push',
+      rawBody: RAW_BODY,
+      authorization: sign('key-one'),
+    })).toBeNull();
+  });
+
+  it('không có header Authorization → null, không truy vấn DB', async () => {
+    const { client, calls } = fakeSupabase({ data: APPS });
+    expect(await verifyPushSignature(client, { callbackUrl: CALLBACK_URL, rawBody: RAW_BODY, authorization: null })).toBeNull();
+    expect(calls).toHaveLength(0);
+  });
+
+  it('có partner_id thì chỉ tìm app đó', async () => {
+    const { client, calls } = fakeSupabase({ data: [APPS[0]] });
+    await verifyPushSignature(client, {
+      callbackUrl: CALLBACK_URL,
+      rawBody: RAW_BODY,
+      authorization: sign('key-one'),
+      partnerId: 2001,
+    });
+    expect(calls).toContainEqual(['eq', 'is_active', true]);
+    expect(calls).toContainEqual(['eq', 'partner_id', 2001]);
+  });
+
+  it('lỗi truy vấn partner app → null', async () => {
+    const { client } = fakeSupabase({ error: { message: 'boom' } });
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await verifyPushSignature(client, {
+      callbackUrl: CALLBACK_URL,
+      rawBody: RAW_BODY,
+      authorization: sign('key-one'),
+    })).toBeNull();
+    errorSpy.mockRestore();
+  });
+});
+
+describe('isServiceRoleRequest', () => {
+  const request = (authorization?: string) =>
+    new Request(CALLBACK_URL, { method: 'POST', headers: authorization ? { Authorization: authorization } : {} });
+
+  it('Bearer <service_role_key> → true', () => {
+    expect(isServiceRoleRequest(request('Bearer service-key'), 'service-key')).toBe(true);
+  });
+
+  it('key khác, thiếu header hoặc chưa cấu hình key → false', () => {
+    expect(isServiceRoleRequest(request('Bearer anon-key'), 'service-key')).toBe(false);
+    expect(isServiceRoleRequest(request(), 'service-key')).toBe(false);
+    expect(isServiceRoleRequest(request('Bearer '), '')).toBe(false);
+  });
+});
+
+describe('checkPushTimestamp', () => {
+  it('trong replay window → null', () => {
+    expect(checkPushTimestamp(NOW, DEFAULT_PUSH_REPLAY_WINDOW_SECONDS, NOW)).toBeNull();
+    // Lần retry cuối của Shopee (10800s) vẫn nằm trong window mặc định
+    expect(checkPushTimestamp(NOW - 10_800, DEFAULT_PUSH_REPLAY_WINDOW_SECONDS, NOW)).toBeNull();
+  });
+
+  it('cũ hơn window → stale_timestamp', () => {
+    expect(checkPushTimestamp(NOW - DEFAULT_PUSH_REPLAY_WINDOW_SECONDS - 1, DEFAULT_PUSH_REPLAY_WINDOW_SECONDS, NOW))
+      .toBe('stale_timestamp');
+    expect(checkPushTimestamp(NOW - 61, 60, NOW)).toBe('stale_timestamp');
+  });
+
+  it('lệch đồng hồ trong giới hạn được chấp nhận, vượt quá → future_timestamp', () => {
+    expect(checkPushTimestamp(NOW + MAX_PUSH_CLOCK_SKEW_SECONDS, DEFAULT_PUSH_REPLAY_WINDOW_SECONDS, NOW)).toBeNull();
+    expect(checkPushTimestamp(NOW + MAX_PUSH_CLOCK_SKEW_SECONDS + 1, DEFAULT_PUSH_REPLAY_WINDOW_SECONDS, NOW))
+      .toBe('future_timestamp');
+  });
+
+  it('thiếu timestamp → stale_timestamp', () => {
+    expect(checkPushTimestamp(Number(undefined), DEFAULT_PUSH_REPLAY_WINDOW_SECONDS, NOW)).toBe('stale_timestamp');
+  });
+});
+
+describe('claimDedupeKey', () => {
+  it('insert được → true', async () => {
+    const { client, calls } = fakeSupabase({});
+    expect(await claimDedupeKey(client, DEDUPE_KEY)).toBe(true);
+    expect(calls).toEqual([['from', 'apishopee_webhook_dedupe'], ['insert', DEDUPE_KEY]]);
+  });
+
+  it('trùng unique key (23505) → false', async () => {
+    const { client } = fakeSupabase({ error: { code: '23505', message: 'duplicate key value' } });
+    expect(await claimDedupeKey(client, DEDUPE_KEY)).toBe(false);
+  });
+
+  it('lỗi khác → throw', async () => {
+    const { client } = fakeSupabase({ error: { code: '57014', message: 'statement timeout' } });
+    await expect(claimDedupeKey(client, DEDUPE_KEY)).rejects.toThrow('Dedupe insert failed: statement timeout');
+  });
+});
+
+describe('releaseDedupeKey', () => {
+  it('xóa đúng key theo unique columns', async () => {
+    const { client, calls } = fakeSupabase({});
+    await releaseDedupeKey(client, DEDUPE_KEY);
+    expect(calls).toEqual([
+      ['from', 'apishopee_webhook_dedupe'],
+      ['delete'],
+      ['eq', 'shop_id', 1001],
+      ['eq', 'push_code', 1],
+      ['eq', 'item_id', 0],
+      ['eq', 'shopee_timestamp', NOW],
+    ]);
+  });
+
+  it('lỗi xóa chỉ log, không throw', async () => {
+    const { client } = fakeSupabase({ error: { message: 'boom' } });
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await expect(releaseDedupeKey(client, DEDUPE_KEY)).resolves.toBeUndefined();
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+});
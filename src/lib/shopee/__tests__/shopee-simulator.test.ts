@@ -0,0 +1,181 @@
+// @vitest-environment node
+/**
+ * End-to-end tests: shared Shopee client (supabase/functions/_shared/shopee-client.ts)
+ * against the local simulator (worker/src/simulator) - signing, token refresh,
+ * rate limit retry and the flash sale create / add items flow.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import {
+  createShopeeClient,
+  createSignature,
+  shopFlashSaleAddShopFlashSaleItems,
+  shopFlashSaleCreateShopFlashSale,
+  shopFlashSaleGetShopFlashSaleItems,
+  shopFlashSaleGetTimeSlotId,
+  type ShopeeClientOptions,
+  type ShopeeToken,
+} from '../../../../supabase/functions/_shared/shopee-client.ts';
+import { startShopeeSimulator, type ShopeeSimulator } from '../../../../worker/src/simulator/server';
+
+const PARTNER = { partnerId: 2001, partnerKey: 'sim-partner-key' };
+const SHOP_ID = 1001;
+const PLAIN_ITEM_ID = 1001001;
+const VARIANT_ITEM_ID = 1001003;
+
+let simulator: ShopeeSimulator;
+
+function client(overrides: Partial<ShopeeClientOptions> = {}) {
+  return createShopeeClient({ credentials: PARTNER, baseUrl: simulator.url, ...overrides });
+}
+
+function shopToken(): ShopeeToken {
+  const shop = simulator.state.shops.get(SHOP_ID)!;
+  return { access_token: shop.access_token, refresh_token: shop.refresh_token };
+}
+
+beforeAll(async () => {
+  simulator = await startShopeeSimulator();
+});
+
+afterAll(async () => {
+  await simulator.close();
+});
+
+beforeEach(() => {
+  simulator.reset();
+});
+
+describe('signing', () => {
+  it('accepts calls signed by the shared client', async () => {
+    const result = await client().call('/api/v2/shop/get_shop_info', { shopId: SHOP_ID, token: shopToken() });
+
+    expect(result.error).toBe('');
+    expect(result).toMatchObject({ shop_name: 'Simulator Shop', region: 'VN' });
+  });
+
+  it('rejects a request signed with the wrong partner key', async () => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const path = '/api/v2/shop/get_shop_info';
+    const { access_token } = shopToken();
+    const sign = await createSignature('wrong-key', 'shop', PARTNER.partnerId, path, timestamp, access_token, SHOP_ID);
+
+    const res = await fetch(
+      `${simulator.url}${path}?partner_id=${PARTNER.partnerId}&timestamp=${timestamp}&sign=${sign}` +
+      `&shop_id=${SHOP_ID}&access_token=${access_token}`
+    );
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({ error: 'error_sign' });
+  });
+});
+
+describe('token refresh', () => {
+  it('refreshes an expired access token, persists it and retries the call', async () => {
+    const saved: ShopeeToken[] = [];
+    const oldToken = shopToken();
+    simulator.expireAccessToken(SHOP_ID);
+
+    const result = await client({ saveToken: async (_target, token) => { saved.push(token); } })
+      .call('/api/v2/shop/get_profile', { shopId: SHOP_ID, token: oldToken });
+
+    expect(result.error).toBe('');
+    expect(saved).toHaveLength(1);
+    expect(saved[0].access_token).toBe(simulator.state.shops.get(SHOP_ID)!.access_token);
+    expect(saved[0].refresh_token).not.toBe(oldToken.refresh_token);
+    expect(simulator.requests.map(r => r.path)).toEqual([
+      '/api/v2/shop/get_profile',
+      '/api/v2/auth/access_token/get',
+      '/api/v2/shop/get_profile',
+    ]);
+  });
+
+  it('rejects a refresh token that was already rotated', async () => {
+    const { refresh_token } = shopToken();
+    await client().refreshAccessToken({ shopId: SHOP_ID }, refresh_token);
+
+    const second = await client().refreshAccessToken({ shopId: SHOP_ID }, refresh_token);
+    expect(second.error).toBe('error_auth');
+  });
+});
+
+describe('fault injection', () => {
+  it('retries error_rate_limit until the fault is used up', async () => {
+    simulator.injectFault({ path: '/api/v2/shop/get_shop_info', error: 'error_rate_limit', times: 2 });
+    const reports: string[] = [];
+
+    const result = await client({
+      maxRateLimitRetries: 3,
+      rateLimiter: { report: async (_partnerId, _path, res) => { reports.push(res.error || 'ok'); } },
+    }).call('/api/v2/shop/get_shop_info', { shopId: SHOP_ID, token: shopToken() });
+
+    expect(result.error).toBe('');
+    expect(reports).toEqual(['error_rate_limit', 'error_rate_limit', 'ok']);
+  });
+
+  it('returns HTTP-level faults with their status', async () => {
+    simulator.injectFault({ error: 'error_rate_limit', httpStatus: 429 });
+
+    const result = await client().call('/api/v2/shop/get_shop_info', { shopId: SHOP_ID, token: shopToken() });
+
+    expect(result.error).toBe('error_rate_limit');
+    expect(simulator.requests[0].httpStatus).toBe(429);
+  });
+});
+
+describe('flash sale flow', () => {
+  it('creates a flash sale, adds items and reports rejected ones', async () => {
+    const api = client();
+    const context = { shopId: SHOP_ID, token: shopToken() };
+    const now = Math.floor(Date.now() / 1000);
+
+    const slots = await shopFlashSaleGetTimeSlotId(api, { start_time: now, end_time: now + 3 * 86400 }, context);
+    expect(slots.response?.length).toBeGreaterThan(0);
+
+    const created = await shopFlashSaleCreateShopFlashSale(api, { timeslot_id: slots.response![0].timeslot_id }, context);
+    const flashSaleId = created.response!.flash_sale_id;
+    expect(flashSaleId).toBeGreaterThan(0);
+
+    const duplicate = await shopFlashSaleCreateShopFlashSale(api, { timeslot_id: slots.response![0].timeslot_id }, context);
+    expect(duplicate.error).toBe('shop_flash_sale_already_exist');
+
+    simulator.rejectItems(SHOP_ID, [VARIANT_ITEM_ID], 'Not enough ratings');
+    const added = await shopFlashSaleAddShopFlashSaleItems(api, {
+      flash_sale_id: flashSaleId,
+      items: [
+        { item_id: PLAIN_ITEM_ID, purchase_limit: 2, item_input_promo_price: 199000, item_stock: 10 },
+        {
+          item_id: VARIANT_ITEM_ID,
+          purchase_limit: 0,
+          models: [{ model_id: VARIANT_ITEM_ID * 10 + 1, input_promo_price: 120000, stock: 5 }],
+        },
+      ],
+    }, context);
+
+    expect(added.response?.failed_items).toEqual([
+      expect.objectContaining({ item_id: VARIANT_ITEM_ID, err_msg: 'Not enough ratings' }),
+    ]);
+
+    const items = await shopFlashSaleGetShopFlashSaleItems(api, { flash_sale_id: flashSaleId, offset: 0, limit: 50 }, context);
+    expect(items.response?.item_info).toEqual([
+      expect.objectContaining({ item_id: PLAIN_ITEM_ID, input_promotion_price: 199000, campaign_stock: 10, purchase_limit: 2 }),
+    ]);
+  });
+
+  it('rejects a promotion price that is not lower than the original price', async () => {
+    const api = client();
+    const context = { shopId: SHOP_ID, token: shopToken() };
+    const slot = simulator.state.shops.get(SHOP_ID)!.time_slots.find(s => s.start_time > Date.now() / 1000)!;
+
+    const created = await shopFlashSaleCreateShopFlashSale(api, { timeslot_id: slot.timeslot_id }, context);
+    const added = await shopFlashSaleAddShopFlashSaleItems(api, {
+      flash_sale_id: created.response!.flash_sale_id,
+      items: [{ item_id: PLAIN_ITEM_ID, purchase_limit: 0, item_input_promo_price: 250000, item_stock: 1 }],
+    }, context);
+
+    expect(added.response?.failed_items[0]).toMatchObject({
+      item_id: PLAIN_ITEM_ID,
+      err_msg: 'Promotion price must be lower than original price.',
+    });
+  });
+});
@@ -7,10 +7,11 @@ import { vi } from 'vitest';
 
 const mockInvoke = vi.hoisted(() => vi.fn());
 const mockRefreshSession = vi.hoisted(() => vi.fn());
+const mockGetSession = vi.hoisted(() => vi.fn());
 
 vi.mock('@/lib/supabase', () => ({
   supabase: {
-    auth: { refreshSession: mockRefreshSession },
+    auth: { refreshSession: mockRefreshSession, getSession: mockGetSession },
     functions: { invoke: mockInvoke },
   },
   isSupabaseConfigured: true,
@@ -34,6 +35,7 @@ describe('supabase-client', () => {
     vi.clearAllMocks();
     // refreshSession is called inside authenticateWithCode
     mockRefreshSession.mockResolvedValue({ data: { session: null }, error: null });
+    mockGetSession.mockResolvedValue({ data: { session: null }, error: null });
   });
 
   // ── authenticateWithCode ─────────────────────────────────────────────────
@@ -355,6 +357,23 @@ describe('supabase-client', () => {
       expect(result).toBe('https://shopee.com/auth?partner_id=123');
     });
 
+    it('sends the signed-in user JWT instead of the anon key', async () => {
+      mockGetSession.mockResolvedValueOnce({ data: { session: { access_token: 'user-jwt' } }, error: null });
+      globalThis.fetch = vi.fn().mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ auth_url: 'https://shopee.com/auth?partner_id=123' }),
+      });
+
+      await getAuthorizationUrl('https://callback.test');
+
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        'https://test.supabase.co/functions/v1/apishopee-auth',
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: 'Bearer user-jwt', apikey: 'test-key' }),
+        })
+      );
+    });
+
     it('throws when response is not ok', async () => {
       globalThis.fetch = vi.fn().mockResolvedValueOnce({
         ok: false,
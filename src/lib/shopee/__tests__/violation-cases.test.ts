@@ -0,0 +1,78 @@
+/**
+ * Unit Tests: Violation cases (violation_item_push tracker)
+ * Covers: canTransition, verificationOutcome, statusOnRepeatReport, defaultDueAt, isOverdue,
+ * summarizeViolationCases
+ */
+
+import {
+  canTransition,
+  defaultDueAt,
+  isOverdue,
+  nextManualStatuses,
+  statusOnRepeatReport,
+  summarizeViolationCases,
+  verificationOutcome,
+} from '@/lib/shopee/violation-cases';
+
+const NOW = new Date('2026-03-10T08:00:00Z');
+
+describe('canTransition', () => {
+  it('allows the manual workflow', () => {
+    expect(canTransition('open', 'in_progress')).toBe(true);
+    expect(canTransition('open', 'fixed')).toBe(true);
+    expect(canTransition('in_progress', 'fixed')).toBe(true);
+    expect(canTransition('fixed', 'in_progress')).toBe(true);
+  });
+
+  it('only reaches verified through a re-check', () => {
+    expect(canTransition('fixed', 'verified')).toBe(false);
+    expect(canTransition('open', 'verified')).toBe(false);
+    expect(nextManualStatuses('verified')).toEqual([]);
+  });
+});
+
+describe('verificationOutcome', () => {
+  it('maps Shopee item_status to a check outcome', () => {
+    expect(verificationOutcome('NORMAL')).toBe('verified');
+    expect(verificationOutcome('UNLIST')).toBe('verified');
+    expect(verificationOutcome('SELLER_DELETE')).toBe('verified');
+    expect(verificationOutcome('REVIEWING')).toBe('pending');
+    expect(verificationOutcome('BANNED')).toBe('failed');
+    expect(verificationOutcome('SHOPEE_DELETE')).toBe('failed');
+    expect(verificationOutcome(null)).toBe('pending');
+  });
+});
+
+describe('statusOnRepeatReport', () => {
+  it('reopens fixed cases and keeps the others', () => {
+    expect(statusOnRepeatReport('fixed')).toBe('open');
+    expect(statusOnRepeatReport('in_progress')).toBe('in_progress');
+    expect(statusOnRepeatReport('open')).toBe('open');
+  });
+});
+
+describe('due dates', () => {
+  it('defaults to 3 days after the report', () => {
+    expect(defaultDueAt(NOW)).toBe('2026-03-13T08:00:00.000Z');
+    expect(defaultDueAt(NOW, 1)).toBe('2026-03-11T08:00:00.000Z');
+  });
+
+  it('flags unresolved cases past their due date', () => {
+    expect(isOverdue({ status: 'open', due_at: '2026-03-09T00:00:00Z' }, NOW)).toBe(true);
+    expect(isOverdue({ status: 'fixed', due_at: '2026-03-11T00:00:00Z' }, NOW)).toBe(false);
+    expect(isOverdue({ status: 'verified', due_at: '2026-03-09T00:00:00Z' }, NOW)).toBe(false);
+    expect(isOverdue({ status: 'open', due_at: null }, NOW)).toBe(false);
+  });
+});
+
+describe('summarizeViolationCases', () => {
+  it('counts unresolved cases by status and overdue', () => {
+    expect(summarizeViolationCases([
+      { status: 'open', due_at: '2026-03-09T00:00:00Z' },
+      { status: 'open', due_at: null },
+      { status: 'in_progress', due_at: '2026-03-12T00:00:00Z' },
+      { status: 'fixed', due_at: '2026-03-01T00:00:00Z' },
+      { status: 'verified', due_at: '2026-03-01T00:00:00Z' },
+    ], NOW)).toEqual({ open: 2, in_progress: 1, fixed: 1, overdue: 2, unresolved: 4 });
+  });
+});
@@ -0,0 +1,6 @@
+/**
+ * Types request/response theo từng Shopee endpoint, sinh từ src/lib/docs/api-data.ts.
+ * File gốc nằm ở supabase/functions/_shared để Edge Functions + worker dùng chung.
+ */
+
+export type * from '../../../supabase/functions/_shared/shopee-endpoints.generated.ts';
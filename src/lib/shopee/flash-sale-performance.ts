@@ -0,0 +1,220 @@
+/**
+ * Flash Sale Performance - kết quả của từng khung Flash Sale theo sản phẩm / phân loại:
+ * - Số lượng bán / doanh thu giá Flash Sale: dòng hàng (apishopee_order_items) quy về khung
+ *   (xem attributeFlashSaleItem)
+ * - Sell-through: số lượng bán / campaign_stock chụp lúc khung bắt đầu (apishopee_flash_sale_item_stock)
+ * - So với ngoài khung: tốc độ bán (SL / giờ) trong khung chia cho tốc độ bán cùng sản phẩm
+ *   trong BASELINE_DAYS ngày trước khung
+ * - Chuyển đổi: số đơn có hàng Flash Sale / click_count của khung
+ */
+
+import { attributeFlashSaleItem, type RevenueOrderItem, type RevenueWindow } from '@/lib/shopee/flash-sale-revenue';
+import { isRevenueOrder } from '@/lib/shopee/order-sync';
+
+// ==================== TYPES ====================
+
+export interface PerformanceSlot extends RevenueWindow {
+  shop_id: number;
+  click_count: number | null;
+}
+
+/** Tồn kho Flash Sale của 1 phân loại (model_id = 0 với sản phẩm không có phân loại) */
+export interface CampaignStockRow {
+  shop_id: number;
+  flash_sale_id: number;
+  item_id: number;
+  model_id: number;
+  item_name: string | null;
+  model_name: string | null;
+  campaign_stock: number;
+}
+
+export interface PerformanceOrderItem extends RevenueOrderItem {
+  shop_id: number;
+  item_id: number;
+  model_id: number;
+  item_name: string | null;
+  model_name: string | null;
+}
+
+export interface ModelPerformance {
+  item_id: number;
+  model_id: number;
+  item_name: string | null;
+  model_name: string | null;
+  /** null khi chưa có ảnh chụp tồn kho của khung */
+  campaign_stock: number | null;
+  units: number;
+  revenue: number;
+  /** units / campaign_stock */
+  sell_through: number | null;
+  baseline_units: number;
+  /** Tốc độ bán trong khung / tốc độ bán ngoài khung, null khi ngoài khung không bán được */
+  uplift: number | null;
+}
+
+export interface FlashSalePerformance extends PerformanceSlot {
+  models: ModelPerformance[];
+  orders: number;
+  units: number;
+  revenue: number;
+  campaign_stock: number | null;
+  sell_through: number | null;
+  /** orders / click_count */
+  conversion: number | null;
+  baseline_units: number;
+  uplift: number | null;
+}
+
+// ==================== CONSTANTS ====================
+
+/** Khoảng so sánh "ngoài khung": số ngày trước khi khung bắt đầu */
+export const BASELINE_DAYS = 7;
+
+const HOUR_SECONDS = 60 * 60;
+const BASELINE_SECONDS = BASELINE_DAYS * 24 * HOUR_SECONDS;
+
+// ==================== HELPERS ====================
+
+function modelKey(itemId: number, modelId: number): string {
+  return `${itemId}:${modelId}`;
+}
+
+function ratio(value: number, total: number | null): number | null {
+  return total ? value / total : null;
+}
+
+/** Tốc độ bán trong khung so với BASELINE_DAYS ngày trước đó */
+function upliftOf(units: number, baselineUnits: number, slotSeconds: number): number | null {
+  if (baselineUnits <= 0 || slotSeconds <= 0) return null;
+  return (units / slotSeconds) / (baselineUnits / BASELINE_SECONDS);
+}
+
+/** Mốc bắt đầu khoảng so sánh ngoài khung, dùng để lọc dòng hàng cần tải */
+export function baselineFrom(slot: RevenueWindow): number {
+  return slot.start_time - BASELINE_SECONDS;
+}
+
+/**
+ * Kết quả 1 khung. `items` là dòng hàng của shop từ baselineFrom(slot) đến end_time;
+ * `otherSlots` là các khung khác của shop trong khoảng đó để không tính nhầm dòng
+ * Flash Sale của khung khác vào khung này hay vào phần ngoài khung.
+ */
+export function computeFlashSalePerformance(
+  slot: PerformanceSlot,
+  stock: CampaignStockRow[],
+  items: PerformanceOrderItem[],
+  otherSlots: RevenueWindow[] = []
+): FlashSalePerformance {
+  const windows = [slot, ...otherSlots.filter(w => w.flash_sale_id !== slot.flash_sale_id)];
+  const models = new Map<string, ModelPerformance>();
+  const orderSns = new Set<string>();
+
+  const modelOf = (row: { item_id: number; model_id: number; item_name: string | null; model_name: string | null }) => {
+    const key = modelKey(row.item_id, row.model_id);
+    let model = models.get(key);
+    if (!model) {
+      model = {
+        item_id: row.item_id,
+        model_id: row.model_id,
+        item_name: row.item_name,
+        model_name: row.model_name,
+        campaign_stock: null,
+        units: 0, revenue: 0, sell_through: null, baseline_units: 0, uplift: null,
+      };
+      models.set(key, model);
+    }
+    return model;
+  };
+
+  for (const row of stock) {
+    modelOf(row).campaign_stock = row.campaign_stock;
+  }
+
+  const baselineItems: PerformanceOrderItem[] = [];
+  for (const item of items) {
+    if (!isRevenueOrder(item.order_status)) continue;
+    if (attributeFlashSaleItem(windows, item) === slot.flash_sale_id) {
+      const model = modelOf(item);
+      model.units += item.quantity;
+      model.revenue += item.quantity * (Number(item.discounted_price) || 0);
+      orderSns.add(item.order_sn);
+    } else if (item.flash_sale_id === null && item.create_time >= baselineFrom(slot) && item.create_time < slot.start_time) {
+      baselineItems.push(item);
+    }
+  }
+
+  // Chỉ so sánh các phân loại có trong khung
+  for (const item of baselineItems) {
+    const model = models.get(modelKey(item.item_id, item.model_id));
+    if (model) model.baseline_units += item.quantity;
+  }
+
+  const slotSeconds = slot.end_time - slot.start_time;
+  const rows = [...models.values()]
+    .map(model => ({
+      ...model,
+      sell_through: ratio(model.units, model.campaign_stock),
+      uplift: upliftOf(model.units, model.baseline_units, slotSeconds),
+    }))
+    .sort((a, b) => b.revenue - a.revenue || b.units - a.units);
+
+  const units = rows.reduce((sum, m) => sum + m.units, 0);
+  const baselineUnits = rows.reduce((sum, m) => sum + m.baseline_units, 0);
+  const campaignStock = stock.length > 0 ? stock.reduce((sum, s) => sum + s.campaign_stock, 0) : null;
+
+  return {
+    ...slot,
+    models: rows,
+    orders: orderSns.size,
+    units,
+    revenue: rows.reduce((sum, m) => sum + m.revenue, 0),
+    campaign_stock: campaignStock,
+    // Khi có ảnh chụp tồn kho, chỉ tính số bán của các phân loại có trong ảnh chụp
+    sell_through: ratio(rows.reduce((sum, m) => sum + (m.campaign_stock === null ? 0 : m.units), 0), campaignStock),
+    conversion: ratio(orderSns.size, slot.click_count),
+    baseline_units: baselineUnits,
+    uplift: upliftOf(units, baselineUnits, slotSeconds),
+  };
+}
+
+/**
+ * Bảng xếp hạng nhiều khung (nhiều shop): mỗi khung chỉ tính dòng hàng Flash Sale, không so với
+ * ngoài khung. Sắp xếp theo doanh thu giảm dần, bỏ khung không bán được.
+ */
+export function buildFlashSaleLeaderboard(
+  slots: PerformanceSlot[],
+  stock: CampaignStockRow[],
+  items: PerformanceOrderItem[]
+): FlashSalePerformance[] {
+  const group = <T extends { shop_id: number }>(rows: T[]) => {
+    const byShop = new Map<number, T[]>();
+    for (const row of rows) {
+      const list = byShop.get(row.shop_id);
+      if (list) list.push(row);
+      else byShop.set(row.shop_id, [row]);
+    }
+    return byShop;
+  };
+
+  const slotsByShop = group(slots);
+  const stockByShop = group(stock);
+  const itemsByShop = group(items);
+
+  const rows: FlashSalePerformance[] = [];
+  for (const [shopId, shopSlots] of slotsByShop) {
+    const shopStock = stockByShop.get(shopId) ?? [];
+    const shopItems = (itemsByShop.get(shopId) ?? []).filter(i => i.flash_sale_id !== null);
+    for (const slot of shopSlots) {
+      const performance = computeFlashSalePerformance(
+        slot,
+        shopStock.filter(s => s.flash_sale_id === slot.flash_sale_id),
+        shopItems,
+        shopSlots
+      );
+      if (performance.units > 0) rows.push(performance);
+    }
+  }
+
+  return rows.sort((a, b) => b.revenue - a.revenue || b.units - a.units);
+}
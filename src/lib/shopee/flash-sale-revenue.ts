@@ -0,0 +1,126 @@
+/**
+ * Flash Sale Revenue - gắn doanh thu đơn hàng (apishopee_orders / apishopee_order_items, migration 091)
+ * vào các khung Flash Sale (apishopee_flash_sale_data):
+ * - GMV của khung: tổng total_amount các đơn tạo trong khung
+ * - Doanh thu Flash Sale: dòng hàng mua với giá Flash Sale (flash_sale_id), quy về khung có cùng
+ *   flash_sale_id; promotion_id không khớp khung nào thì quy theo thời điểm đặt đơn
+ * Đơn chưa thanh toán / bị hủy không tính.
+ */
+
+import { isRevenueOrder } from '@/lib/shopee/order-sync';
+
+// ==================== TYPES ====================
+
+export interface RevenueWindow {
+  flash_sale_id: number;
+  /** Unix seconds */
+  start_time: number;
+  end_time: number;
+}
+
+export interface RevenueOrder {
+  order_sn: string;
+  order_status: string;
+  create_time: number;
+  total_amount: number | null;
+}
+
+export interface RevenueOrderItem {
+  order_sn: string;
+  order_status: string;
+  create_time: number;
+  flash_sale_id: number | null;
+  quantity: number;
+  discounted_price: number;
+}
+
+export interface FlashSaleRevenue extends RevenueWindow {
+  /** Đơn tạo trong khung */
+  orders: number;
+  gmv: number;
+  /** Đơn có ít nhất 1 dòng hàng Flash Sale của khung */
+  fs_orders: number;
+  fs_quantity: number;
+  fs_revenue: number;
+  /** fs_revenue / gmv, null khi khung không có đơn */
+  fs_share: number | null;
+}
+
+export interface FlashSaleRevenueSummary {
+  windows: number;
+  orders: number;
+  gmv: number;
+  fs_orders: number;
+  fs_quantity: number;
+  fs_revenue: number;
+}
+
+// ==================== HELPERS ====================
+
+function windowAt(windows: RevenueWindow[], time: number): RevenueWindow | undefined {
+  return windows.find(w => time >= w.start_time && time < w.end_time);
+}
+
+/** flash_sale_id của khung mà dòng hàng Flash Sale được tính vào, null nếu không thuộc khung nào */
+export function attributeFlashSaleItem(windows: RevenueWindow[], item: RevenueOrderItem): number | null {
+  if (item.flash_sale_id === null) return null;
+  if (windows.some(w => w.flash_sale_id === item.flash_sale_id)) return item.flash_sale_id;
+  return windowAt(windows, item.create_time)?.flash_sale_id ?? null;
+}
+
+/** Doanh thu theo khung, sắp xếp theo start_time giảm dần */
+export function computeFlashSaleRevenue(
+  windows: RevenueWindow[],
+  orders: RevenueOrder[],
+  items: RevenueOrderItem[]
+): FlashSaleRevenue[] {
+  const rows = new Map<number, FlashSaleRevenue>();
+  const fsOrderSns = new Map<number, Set<string>>();
+  for (const w of windows) {
+    rows.set(w.flash_sale_id, {
+      flash_sale_id: w.flash_sale_id,
+      start_time: w.start_time,
+      end_time: w.end_time,
+      orders: 0, gmv: 0, fs_orders: 0, fs_quantity: 0, fs_revenue: 0, fs_share: null,
+    });
+    fsOrderSns.set(w.flash_sale_id, new Set());
+  }
+
+  for (const order of orders) {
+    if (!isRevenueOrder(order.order_status)) continue;
+    const w = windowAt(windows, order.create_time);
+    if (!w) continue;
+    const row = rows.get(w.flash_sale_id)!;
+    row.orders++;
+    row.gmv += Number(order.total_amount) || 0;
+  }
+
+  for (const item of items) {
+    if (!isRevenueOrder(item.order_status)) continue;
+    const flashSaleId = attributeFlashSaleItem(windows, item);
+    if (flashSaleId === null) continue;
+    const row = rows.get(flashSaleId)!;
+    row.fs_quantity += item.quantity;
+    row.fs_revenue += item.quantity * (Number(item.discounted_price) || 0);
+    fsOrderSns.get(flashSaleId)!.add(item.order_sn);
+  }
+
+  return [...rows.values()]
+    .map(row => ({
+      ...row,
+      fs_orders: fsOrderSns.get(row.flash_sale_id)!.size,
+      fs_share: row.gmv > 0 ? row.fs_revenue / row.gmv : null,
+    }))
+    .sort((a, b) => b.start_time - a.start_time);
+}
+
+export function summarizeFlashSaleRevenue(rows: FlashSaleRevenue[]): FlashSaleRevenueSummary {
+  return rows.reduce<FlashSaleRevenueSummary>((sum, row) => ({
+    windows: sum.windows + 1,
+    orders: sum.orders + row.orders,
+    gmv: sum.gmv + row.gmv,
+    fs_orders: sum.fs_orders + row.fs_orders,
+    fs_quantity: sum.fs_quantity + row.fs_quantity,
+    fs_revenue: sum.fs_revenue + row.fs_revenue,
+  }), { windows: 0, orders: 0, gmv: 0, fs_orders: 0, fs_quantity: 0, fs_revenue: 0 });
+}
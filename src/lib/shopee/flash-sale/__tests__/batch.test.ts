@@ -0,0 +1,166 @@
+/**
+ * Unit Tests: Cross-shop Flash Sale Batches
+ * Covers: batchRecurrenceRule, buildBatchPayload, summarizeBatchProgress, describeBatchItemSource
+ */
+
+import {
+  batchRecurrenceRule,
+  buildBatchPayload,
+  describeBatchItemSource,
+  summarizeBatchProgress,
+  type BatchHistoryRow,
+  type BatchSettings,
+  type BatchShopPlan,
+  type BatchShopRow,
+} from '@/lib/shopee/flash-sale/batch';
+
+const SETTINGS: BatchSettings = {
+  start_hours: [12, 21],
+  horizon_days: 3,
+  lead_time_minutes: 10,
+  timezone: 'Asia/Ho_Chi_Minh',
+};
+
+const SLOT_START = 1767589200; // 2026-01-05 12:00 giờ VN
+
+function plan(shopId: number, overrides: Partial<BatchShopPlan> = {}): BatchShopPlan {
+  return {
+    shopId,
+    slots: [
+      { timeslot_id: shopId * 10 + 1, start_time: SLOT_START, end_time: SLOT_START + 3 * 3600, scheduled_at: SLOT_START - 600 },
+      { timeslot_id: shopId * 10 + 2, start_time: SLOT_START + 9 * 3600, end_time: SLOT_START + 12 * 3600, scheduled_at: SLOT_START + 9 * 3600 - 600 },
+    ],
+    skippedSlots: 0,
+    itemsCount: 5,
+    ...overrides,
+  };
+}
+
+function shopRow(shopId: number, overrides: Partial<BatchShopRow> = {}): BatchShopRow {
+  return { shop_id: shopId, status: 'scheduled', slots_count: 2, items_count: 5, error_message: null, attempts: 1, ...overrides };
+}
+
+function historyRow(shopId: number, status: string, errorMessage: string | null = null): BatchHistoryRow {
+  return { id: `${shopId}-${status}`, shop_id: shopId, status, error_message: errorMessage, slot_start_time: SLOT_START };
+}
+
+// ==================== batchRecurrenceRule ====================
+
+describe('batchRecurrenceRule', () => {
+  it('matches every weekday with the batch hours', () => {
+    expect(batchRecurrenceRule(SETTINGS)).toEqual({
+      days_of_week: [0, 1, 2, 3, 4, 5, 6],
+      start_hours: [12, 21],
+      lead_time_minutes: 10,
+      timezone: 'Asia/Ho_Chi_Minh',
+      horizon_days: 3,
+    });
+  });
+});
+
+// ==================== buildBatchPayload ====================
+
+describe('buildBatchPayload', () => {
+  it('creates one scheduled row per shop and slot', () => {
+    const { shops, rows } = buildBatchPayload([plan(1), plan(2)], { type: 'latest' }, SETTINGS);
+
+    expect(shops.map(s => [s.shop_id, s.status, s.slots_count])).toEqual([[1, 'scheduled', 2], [2, 'scheduled', 2]]);
+    expect(rows).toHaveLength(4);
+    expect(rows[0]).toEqual({
+      shop_id: 1,
+      timeslot_id: 11,
+      lead_time_minutes: 10,
+      scheduled_at: new Date((SLOT_START - 600) * 1000).toISOString(),
+      slot_start_time: SLOT_START,
+      slot_end_time: SLOT_START + 3 * 3600,
+      items_count: 5,
+      template_id: null,
+      template_version: null,
+      item_source: null,
+    });
+  });
+
+  it('marks shops without slots, items or preview errors as failed without rows', () => {
+    const { shops, rows } = buildBatchPayload(
+      [plan(1, { slots: [] }), plan(2, { itemsCount: 0 }), plan(3, { error: 'Token expired' }), plan(4)],
+      { type: 'latest' },
+      SETTINGS
+    );
+
+    expect(shops.map(s => [s.shop_id, s.status, s.error_message])).toEqual([
+      [1, 'failed', 'Không có khung giờ phù hợp'],
+      [2, 'failed', 'Không có sản phẩm'],
+      [3, 'failed', 'Token expired'],
+      [4, 'scheduled', null],
+    ]);
+    expect(rows.every(r => r.shop_id === 4)).toBe(true);
+  });
+
+  it('stores the template or top sellers source on each row', () => {
+    const template = buildBatchPayload([plan(1)], { type: 'template', template_id: 'tpl-1', template_version: 3 }, SETTINGS);
+    expect(template.rows[0]).toMatchObject({ template_id: 'tpl-1', template_version: 3, item_source: null });
+
+    const topSellers = { type: 'top_sellers' as const, limit: 10, percent_off: 15, stock: 5, purchase_limit: 0 };
+    const top = buildBatchPayload([plan(1)], topSellers, SETTINGS);
+    expect(top.rows[0]).toMatchObject({ template_id: null, item_source: topSellers });
+  });
+});
+
+// ==================== summarizeBatchProgress ====================
+
+describe('summarizeBatchProgress', () => {
+  it('derives shop states from row statuses', () => {
+    const progress = summarizeBatchProgress(
+      [shopRow(1), shopRow(2), shopRow(3), shopRow(4)],
+      [
+        historyRow(1, 'scheduled'), historyRow(1, 'scheduled'),
+        historyRow(2, 'success'), historyRow(2, 'processing'),
+        historyRow(3, 'success'), historyRow(3, 'success'),
+        historyRow(4, 'success'), historyRow(4, 'error', 'Khung giờ đã đầy'),
+      ]
+    );
+
+    expect(progress.shops.map(s => [s.shopId, s.state])).toEqual([[1, 'pending'], [2, 'running'], [3, 'done'], [4, 'failed']]);
+    expect(progress.shops[3].message).toBe('Khung giờ đã đầy');
+    expect(progress).toMatchObject({ totalSlots: 8, finishedSlots: 5, successSlots: 4, failedShopIds: [4], isFinished: false });
+  });
+
+  it('treats enqueue failures as failed shops and finishes when nothing is waiting', () => {
+    const progress = summarizeBatchProgress(
+      [shopRow(1, { status: 'failed', slots_count: 0, error_message: 'Không có sản phẩm' }), shopRow(2)],
+      [historyRow(2, 'success'), historyRow(2, 'success')]
+    );
+
+    expect(progress.shops[0]).toMatchObject({ state: 'failed', total: 0, message: 'Không có sản phẩm' });
+    expect(progress.failedShopIds).toEqual([1]);
+    expect(progress.isFinished).toBe(true);
+  });
+
+  it('reports shops whose slots were all booked elsewhere as skipped, not failed', () => {
+    const progress = summarizeBatchProgress(
+      [
+        shopRow(1, { status: 'skipped', slots_count: 0, error_message: 'Mọi khung giờ đã có lịch Flash Sale khác' }),
+        shopRow(2, { slots_count: 1, error_message: 'Bỏ qua 1 khung giờ đã có lịch Flash Sale khác' }),
+      ],
+      [historyRow(2, 'success')]
+    );
+
+    expect(progress.shops.map(s => [s.shopId, s.state, s.message])).toEqual([
+      [1, 'skipped', 'Mọi khung giờ đã có lịch Flash Sale khác'],
+      [2, 'done', 'Bỏ qua 1 khung giờ đã có lịch Flash Sale khác'],
+    ]);
+    expect(progress.failedShopIds).toEqual([]);
+    expect(progress.isFinished).toBe(true);
+  });
+});
+
+// ==================== describeBatchItemSource ====================
+
+describe('describeBatchItemSource', () => {
+  it('labels each source type', () => {
+    expect(describeBatchItemSource({ type: 'latest' })).toBe('Flash Sale gần nhất của từng shop');
+    expect(describeBatchItemSource({ type: 'template', template_id: 'tpl-1', template_version: 2 }, 'Sale 12h')).toBe('Template Sale 12h v2');
+    expect(describeBatchItemSource({ type: 'top_sellers', limit: 20, percent_off: 10, stock: 10, purchase_limit: 0 }))
+      .toBe('Top 20 bán chạy · giảm 10%');
+  });
+});
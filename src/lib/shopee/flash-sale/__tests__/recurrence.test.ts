@@ -0,0 +1,109 @@
+/**
+ * Unit Tests: Flash Sale Recurring Schedules
+ * Covers: localSlotParts, matchesRecurrenceRule, expandRecurrenceRule, describeRecurrenceRule
+ */
+
+import {
+  describeRecurrenceRule,
+  expandRecurrenceRule,
+  localSlotParts,
+  matchesRecurrenceRule,
+  type FlashSaleRecurrenceRule,
+  type RecurrenceSlot,
+} from '@/lib/shopee/flash-sale/recurrence';
+
+/** Unix seconds của giờ Việt Nam (UTC+7) */
+function vn(year: number, month: number, day: number, hour: number, minute = 0): number {
+  return Date.UTC(year, month - 1, day, hour - 7, minute) / 1000;
+}
+
+function slot(timeslotId: number, start: number, hours = 3): RecurrenceSlot {
+  return { timeslot_id: timeslotId, start_time: start, end_time: start + hours * 3600 };
+}
+
+const RULE: FlashSaleRecurrenceRule = {
+  days_of_week: [1, 3, 5], // T2, T4, T6
+  start_hours: [12, 21],
+  lead_time_minutes: 10,
+  timezone: 'Asia/Ho_Chi_Minh',
+  horizon_days: 3,
+};
+
+// 2026-01-05 là thứ Hai
+const NOW = vn(2026, 1, 5, 8);
+
+// ==================== localSlotParts ====================
+
+describe('localSlotParts', () => {
+  it('uses the rule timezone, not UTC', () => {
+    // 00:00 thứ Ba giờ VN = 17:00 thứ Hai UTC
+    expect(localSlotParts(vn(2026, 1, 6, 0), 'Asia/Ho_Chi_Minh')).toEqual({ weekday: 2, hour: 0, minute: 0 });
+    expect(localSlotParts(vn(2026, 1, 6, 0), 'UTC')).toEqual({ weekday: 1, hour: 17, minute: 0 });
+  });
+});
+
+// ==================== matchesRecurrenceRule ====================
+
+describe('matchesRecurrenceRule', () => {
+  it('matches weekday and start hour', () => {
+    expect(matchesRecurrenceRule(slot(1, vn(2026, 1, 5, 12)), RULE)).toBe(true);
+    expect(matchesRecurrenceRule(slot(2, vn(2026, 1, 7, 21)), RULE)).toBe(true);
+  });
+
+  it('rejects other weekdays, hours and slots not starting on the hour', () => {
+    expect(matchesRecurrenceRule(slot(1, vn(2026, 1, 6, 12)), RULE)).toBe(false);
+    expect(matchesRecurrenceRule(slot(2, vn(2026, 1, 5, 18)), RULE)).toBe(false);
+    expect(matchesRecurrenceRule(slot(3, vn(2026, 1, 5, 12, 30)), RULE)).toBe(false);
+  });
+});
+
+// ==================== expandRecurrenceRule ====================
+
+describe('expandRecurrenceRule', () => {
+  const slots = [
+    slot(104, vn(2026, 1, 7, 12)),
+    slot(101, vn(2026, 1, 5, 12)),
+    slot(102, vn(2026, 1, 5, 18)),
+    slot(103, vn(2026, 1, 5, 21)),
+    slot(105, vn(2026, 1, 9, 12)), // ngoài horizon 3 ngày
+  ];
+
+  it('schedules matching slots in order with the lead time applied', () => {
+    const result = expandRecurrenceRule(RULE, slots, { nowSec: NOW });
+
+    expect(result.toSchedule.map(s => s.timeslot_id)).toEqual([101, 103, 104]);
+    expect(result.toSchedule[0].scheduled_at).toBe(vn(2026, 1, 5, 11, 50));
+    expect(result.skipped).toEqual([]);
+  });
+
+  it('skips booked slots', () => {
+    const result = expandRecurrenceRule(RULE, slots, { nowSec: NOW, bookedTimeslotIds: [101, 104] });
+
+    expect(result.toSchedule.map(s => s.timeslot_id)).toEqual([103]);
+    expect(result.skipped.map(s => [s.timeslot_id, s.reason])).toEqual([
+      [101, 'already_booked'],
+      [104, 'already_booked'],
+    ]);
+  });
+
+  it('schedules immediately inside the lead time and skips slots about to start', () => {
+    const nearlyNoon = expandRecurrenceRule(RULE, slots, { nowSec: vn(2026, 1, 5, 11, 55) });
+    expect(nearlyNoon.toSchedule[0]).toMatchObject({ timeslot_id: 101, scheduled_at: vn(2026, 1, 5, 11, 55) });
+
+    const tooLate = expandRecurrenceRule(RULE, slots, { nowSec: vn(2026, 1, 5, 11, 57) });
+    expect(tooLate.skipped).toEqual([{ ...slots[1], reason: 'too_late' }]);
+    expect(tooLate.toSchedule.map(s => s.timeslot_id)).toEqual([103, 104]);
+  });
+});
+
+// ==================== describeRecurrenceRule ====================
+
+describe('describeRecurrenceRule', () => {
+  it('lists days and hours in order', () => {
+    expect(describeRecurrenceRule({ days_of_week: [5, 1, 3], start_hours: [21, 9] })).toBe('T2, T4, T6 · 09:00, 21:00');
+  });
+
+  it('collapses all seven days', () => {
+    expect(describeRecurrenceRule({ days_of_week: [0, 1, 2, 3, 4, 5, 6], start_hours: [0] })).toBe('Hằng ngày · 00:00');
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Unit Tests: Flash Sale Templates
+ * Covers: applyPriceRule, resolveFlashSaleTemplate (same shop / SKU match / skips),
+ *         validateTemplateAgainstCriteria, buildTemplateCatalog, buildTemplateItems,
+ *         buildTopSellerTemplateItems
+ */
+
+import {
+  applyPriceRule,
+  buildTemplateCatalog,
+  buildTemplateItems,
+  buildTopSellerTemplateItems,
+  resolveFlashSaleTemplate,
+  validateTemplateAgainstCriteria,
+  type FlashSaleTemplateItem,
+  type TemplateCatalogItem,
+} from '@/lib/shopee/flash-sale/templates';
+import type {
+  ShopFlashSaleGetItemCriteriaResponse,
+  ShopFlashSaleGetItemCriteriaResponseCriteria,
+} from '@/lib/shopee/endpoints';
+
+const CATALOG: TemplateCatalogItem[] = [
+  { item_id: 1, item_sku: 'BOTTLE', item_status: 'NORMAL', category_id: 10, original_price: 200000, stock: 30, models: [] },
+  {
+    item_id: 2, item_sku: 'SHIRT', item_status: 'NORMAL', category_id: 20, original_price: 0, stock: 0,
+    models: [
+      { model_id: 21, model_sku: 'SHIRT-M', original_price: 150000, stock: 5 },
+      { model_id: 22, model_sku: 'SHIRT-L', original_price: 160000, stock: 0 },
+    ],
+  },
+];
+
+function criteria(overrides: Partial<ShopFlashSaleGetItemCriteriaResponseCriteria> = {}): ShopFlashSaleGetItemCriteriaResponse {
+  return {
+    criteria: [{
+      criteria_id: 1,
+      min_product_rating: -1,
+      min_likes: -1,
+      must_not_pre_order: false,
+      min_order_total: -1,
+      max_days_to_ship: -1,
+      min_repetition_day: -1,
+      min_promo_stock: -1,
+      max_promo_stock: -1,
+      min_discount: -1,
+      max_discount: -1,
+      min_discount_price: -1,
+      max_discount_price: -1,
+      need_lowest_price: false,
+      ...overrides,
+    }],
+    pair_ids: [{ criteria_id: 1, category_list: [{ category_id: 0, name: 'All', parent_id: 0 }] }],
+    overlap_block_category_ids: [],
+  };
+}
+
+// ==================== applyPriceRule ====================
+
+describe('applyPriceRule', () => {
+  it('uses the absolute price when it is below the original price', () => {
+    expect(applyPriceRule({ type: 'absolute', price: 99000 }, 120000)).toBe(99000);
+  });
+
+  it('rejects an absolute price that is not lower than the original price', () => {
+    expect(applyPriceRule({ type: 'absolute', price: 120000 }, 120000)).toBeNull();
+  });
+
+  it('computes percent off the original price', () => {
+    expect(applyPriceRule({ type: 'percent_off', percent: 25 }, 200000)).toBe(150000);
+  });
+
+  it('never goes below the floor price', () => {
+    expect(applyPriceRule({ type: 'percent_off', percent: 50, floor_price: 120000 }, 200000)).toBe(120000);
+  });
+
+  it('returns null when the floor price reaches the original price', () => {
+    expect(applyPriceRule({ type: 'percent_off', percent: 50, floor_price: 200000 }, 200000)).toBeNull();
+  });
+
+  it('returns null for percent off without an original price', () => {
+    expect(applyPriceRule({ type: 'percent_off', percent: 10 }, 0)).toBeNull();
+  });
+});
+
+// ==================== resolveFlashSaleTemplate ====================
+
+describe('resolveFlashSaleTemplate', () => {
+  const template: FlashSaleTemplateItem[] = [
+    { item_id: 1, item_sku: 'BOTTLE', purchase_limit: 2, price_rule: { type: 'percent_off', percent: 10 }, stock: 50 },
+    {
+      item_id: 2, item_sku: 'SHIRT', purchase_limit: 0, price_rule: { type: 'percent_off', percent: 20 },
+      models: [
+        { model_id: 21, model_sku: 'SHIRT-M', stock: 3, price_rule: { type: 'absolute', price: 100000 } },
+        { model_id: 22, model_sku: 'SHIRT-L', stock: 3 },
+      ],
+    },
+  ];
+
+  it('builds the add-items payload for the source shop', () => {
+    const result = resolveFlashSaleTemplate(template, CATALOG);
+
+    expect(result.items).toEqual([
+      { item_id: 1, purchase_limit: 2, item_input_promo_price: 180000, item_stock: 30 },
+      { item_id: 2, purchase_limit: 0, models: [{ model_id: 21, input_promo_price: 100000, stock: 3 }] },
+    ]);
+    expect(result.skipped).toEqual([{ item_id: 2, model_id: 22, reason: 'Hết hàng' }]);
+  });
+
+  it('matches items and models by SKU in another shop', () => {
+    const otherShop: TemplateCatalogItem[] = [
+      { item_id: 901, item_sku: 'BOTTLE', item_status: 'NORMAL', category_id: 10, original_price: 100000, stock: 8, models: [] },
+      {
+        item_id: 902, item_sku: 'SHIRT', item_status: 'NORMAL', category_id: 20, original_price: 0, stock: 0,
+        models: [{ model_id: 9021, model_sku: 'SHIRT-L', original_price: 170000, stock: 9 }],
+      },
+    ];
+
+    const result = resolveFlashSaleTemplate(template, otherShop);
+
+    expect(result.items).toEqual([
+      { item_id: 901, purchase_limit: 2, item_input_promo_price: 90000, item_stock: 8 },
+      { item_id: 902, purchase_limit: 0, models: [{ model_id: 9021, input_promo_price: 136000, stock: 3 }] },
+    ]);
+    expect(result.skipped).toEqual([{ item_id: 2, model_id: 21, reason: 'Không tìm thấy phân loại' }]);
+  });
+
+  it('skips items that are missing or not NORMAL', () => {
+    const result = resolveFlashSaleTemplate(
+      [
+        { item_id: 3, purchase_limit: 0, price_rule: { type: 'absolute', price: 1000 } },
+        { item_id: 1, purchase_limit: 0, price_rule: { type: 'absolute', price: 1000 } },
+      ],
+      [{ ...CATALOG[0], item_status: 'UNLIST' }]
+    );
+
+    expect(result.items).toEqual([]);
+    expect(result.skipped.map(s => s.item_id)).toEqual([3, 1]);
+  });
+});
+
+// ==================== validateTemplateAgainstCriteria ====================
+
+describe('validateTemplateAgainstCriteria', () => {
+  const line = { item_id: 1, model_id: 0, category_id: 10, original_price: 200000, promo_price: 190000, stock: 5 };
+
+  it('passes when every limit is -1', () => {
+    expect(validateTemplateAgainstCriteria([line], criteria())).toEqual([]);
+  });
+
+  it('reports discount and stock limits', () => {
+    const issues = validateTemplateAgainstCriteria([line], criteria({ min_discount: 10, min_promo_stock: 10 }));
+    expect(issues.map(i => i.message)).toEqual([
+      'Giảm tối thiểu 10% (hiện 5%)',
+      'Tồn kho CT tối thiểu 10 (hiện 5)',
+    ]);
+  });
+
+  it('converts discount price limits from Shopee units', () => {
+    const issues = validateTemplateAgainstCriteria([line], criteria({ max_discount_price: 150000 * 100000 }));
+    expect(issues).toHaveLength(1);
+    expect(issues[0].message).toContain('Giá KM tối đa 150000');
+  });
+
+  it('flags categories blocked from promotions', () => {
+    const response = { ...criteria(), overlap_block_category_ids: [10] };
+    expect(validateTemplateAgainstCriteria([line], response)).toEqual([
+      { item_id: 1, model_id: 0, message: 'Danh mục bị cấm khuyến mãi' },
+    ]);
+  });
+});
+
+// ==================== buildTemplateCatalog ====================
+
+describe('buildTemplateCatalog', () => {
+  it('groups models per item and keeps one row per item / model', () => {
+    const product = {
+      item_id: 2, item_sku: 'SHIRT', item_status: 'NORMAL', category_id: 20,
+      original_price: 160000, total_available_stock: 5, has_model: true,
+    };
+    const model = { item_id: 2, model_id: 21, model_sku: 'SHIRT-M', original_price: 150000, total_available_stock: 5 };
+
+    const catalog = buildTemplateCatalog([product, { ...product, total_available_stock: 99 }], [model, model]);
+
+    expect(catalog).toEqual([{
+      item_id: 2, item_sku: 'SHIRT', item_status: 'NORMAL', category_id: 20, original_price: 160000, stock: 5,
+      models: [{ model_id: 21, model_sku: 'SHIRT-M', original_price: 150000, stock: 5 }],
+    }]);
+  });
+});
+
+// ==================== buildTemplateItems ====================
+
+describe('buildTemplateItems', () => {
+  const payload = [
+    { item_id: 1, purchase_limit: 2, item_input_promo_price: 180000, item_stock: 10 },
+    { item_id: 2, purchase_limit: 0, models: [{ model_id: 21, input_promo_price: 120000, stock: 4 }] },
+  ];
+
+  it('keeps current prices as absolute rules and copies SKUs from the catalog', () => {
+    expect(buildTemplateItems(payload, { mode: 'keep_price' }, CATALOG)).toEqual([
+      { item_id: 1, item_sku: 'BOTTLE', purchase_limit: 2, price_rule: { type: 'absolute', price: 180000 }, stock: 10 },
+      {
+        item_id: 2, item_sku: 'SHIRT', purchase_limit: 0, price_rule: { type: 'absolute', price: 120000 },
+        models: [{ model_id: 21, model_sku: 'SHIRT-M', price_rule: { type: 'absolute', price: 120000 }, stock: 4 }],
+      },
+    ]);
+  });
+
+  it('uses one percent-off rule per item', () => {
+    const items = buildTemplateItems(payload, { mode: 'percent_off', percent: 15, floor_price: 50000 });
+
+    expect(items[1].price_rule).toEqual({ type: 'percent_off', percent: 15, floor_price: 50000 });
+    expect(items[1].models?.[0].price_rule).toBeUndefined();
+  });
+
+  it('round-trips through resolveFlashSaleTemplate on the source shop', () => {
+    const items = buildTemplateItems(payload, { mode: 'keep_price' }, CATALOG);
+    expect(resolveFlashSaleTemplate(items, CATALOG).items).toEqual([
+      { item_id: 1, purchase_limit: 2, item_input_promo_price: 180000, item_stock: 10 },
+      { item_id: 2, purchase_limit: 0, models: [{ model_id: 21, input_promo_price: 120000, stock: 4 }] },
+    ]);
+  });
+});
+
+// ==================== buildTopSellerTemplateItems ====================
+
+describe('buildTopSellerTemplateItems', () => {
+  const source = { type: 'top_sellers' as const, limit: 2, percent_off: 20, stock: 8, purchase_limit: 1 };
+
+  it('keeps ranking order, in-stock models only and one percent-off rule', () => {
+    expect(buildTopSellerTemplateItems([2, 1], CATALOG, source)).toEqual([
+      {
+        item_id: 2, item_sku: 'SHIRT', purchase_limit: 1, price_rule: { type: 'percent_off', percent: 20 },
+        models: [{ model_id: 21, model_sku: 'SHIRT-M', stock: 8 }],
+      },
+      { item_id: 1, item_sku: 'BOTTLE', purchase_limit: 1, price_rule: { type: 'percent_off', percent: 20 }, stock: 8 },
+    ]);
+  });
+
+  it('skips unknown, banned and sold-out items before applying the limit', () => {
+    const catalog: TemplateCatalogItem[] = [
+      ...CATALOG,
+      { item_id: 3, item_sku: null, item_status: 'BANNED', category_id: 10, original_price: 100000, stock: 10, models: [] },
+      { item_id: 4, item_sku: null, item_status: 'NORMAL', category_id: 10, original_price: 100000, stock: 0, models: [] },
+    ];
+    const items = buildTopSellerTemplateItems([99, 3, 4, 1, 1, 2], catalog, { ...source, limit: 1 });
+
+    expect(items.map(i => i.item_id)).toEqual([1]);
+  });
+});
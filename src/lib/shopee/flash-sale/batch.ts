@@ -0,0 +1,215 @@
+/**
+ * Flash Sale Batches (FE) - lên lịch Flash Sale hàng loạt cho nhiều shop (migration 084)
+ * Khớp khung giờ dùng lại logic lịch lặp lại (mọi ngày trong tuần, chỉ lọc theo giờ).
+ */
+
+import type { FlashSaleRecurrenceRule, RecurrenceExpandedSlot } from './recurrence';
+import type { TopSellerItemSource } from './templates';
+
+// ==================== TYPES ====================
+
+/** Nguồn sản phẩm cho mọi shop trong batch */
+export type BatchItemSource =
+  | { type: 'latest' }
+  | { type: 'template'; template_id: string; template_version?: number }
+  | TopSellerItemSource;
+
+export interface BatchSettings {
+  start_hours: number[];
+  horizon_days: number;
+  lead_time_minutes: number;
+  timezone: string;
+}
+
+/** Kết quả preview của một shop */
+export interface BatchShopPlan {
+  shopId: number;
+  slots: RecurrenceExpandedSlot[];
+  /** Khung khớp giờ nhưng đã có lịch / Flash Sale hoặc quá sát giờ */
+  skippedSlots: number;
+  itemsCount: number;
+  error?: string;
+}
+
+/** Payload một shop cho create_flash_sale_batch / append_flash_sale_batch */
+export interface BatchShopPayload {
+  shop_id: number;
+  status: 'scheduled' | 'failed';
+  slots_count: number;
+  items_count: number;
+  error_message: string | null;
+}
+
+/** Payload một row auto_history (user_id / batch_id do RPC điền) */
+export interface BatchRowPayload {
+  shop_id: number;
+  timeslot_id: number;
+  lead_time_minutes: number;
+  scheduled_at: string;
+  slot_start_time: number;
+  slot_end_time: number;
+  items_count: number;
+  template_id: string | null;
+  template_version: number | null;
+  item_source: TopSellerItemSource | null;
+}
+
+export interface BatchShopRow {
+  shop_id: number;
+  /** skipped = mọi khung giờ đã có lịch khác lúc enqueue (migration 102) */
+  status: 'scheduled' | 'failed' | 'skipped';
+  slots_count: number;
+  items_count: number;
+  error_message: string | null;
+  attempts: number;
+}
+
+export interface BatchHistoryRow {
+  id: string;
+  shop_id: number;
+  status: string;
+  error_message: string | null;
+  slot_start_time: number;
+}
+
+export type BatchShopState = 'pending' | 'running' | 'done' | 'failed' | 'skipped';
+
+export interface BatchShopProgress {
+  shopId: number;
+  state: BatchShopState;
+  total: number;
+  waiting: number;
+  success: number;
+  error: number;
+  /** Lỗi enqueue, lỗi đầu tiên của row hoặc số khung giờ bị bỏ qua */
+  message: string | null;
+}
+
+export interface BatchProgress {
+  shops: BatchShopProgress[];
+  totalSlots: number;
+  finishedSlots: number;
+  successSlots: number;
+  failedShopIds: number[];
+  isFinished: boolean;
+}
+
+// ==================== PLAN ====================
+
+/** Rule tương đương của batch: mọi ngày trong tuần, lọc theo giờ bắt đầu */
+export function batchRecurrenceRule(settings: BatchSettings): FlashSaleRecurrenceRule {
+  return {
+    days_of_week: [0, 1, 2, 3, 4, 5, 6],
+    start_hours: settings.start_hours,
+    lead_time_minutes: settings.lead_time_minutes,
+    timezone: settings.timezone,
+    horizon_days: settings.horizon_days,
+  };
+}
+
+/** Shop không có khung giờ hoặc sản phẩm → failed, không tạo row */
+export function buildBatchPayload(
+  plans: BatchShopPlan[],
+  source: BatchItemSource,
+  settings: BatchSettings
+): { shops: BatchShopPayload[]; rows: BatchRowPayload[] } {
+  const shops: BatchShopPayload[] = [];
+  const rows: BatchRowPayload[] = [];
+
+  for (const plan of plans) {
+    const error = plan.error
+      || (plan.slots.length === 0 ? 'Không có khung giờ phù hợp' : null)
+      || (plan.itemsCount === 0 ? 'Không có sản phẩm' : null);
+
+    shops.push({
+      shop_id: plan.shopId,
+      status: error ? 'failed' : 'scheduled',
+      slots_count: error ? 0 : plan.slots.length,
+      items_count: plan.itemsCount,
+      error_message: error,
+    });
+    if (error) continue;
+
+    for (const slot of plan.slots) {
+      rows.push({
+        shop_id: plan.shopId,
+        timeslot_id: slot.timeslot_id,
+        lead_time_minutes: settings.lead_time_minutes,
+        scheduled_at: new Date(slot.scheduled_at * 1000).toISOString(),
+        slot_start_time: slot.start_time,
+        slot_end_time: slot.end_time,
+        items_count: plan.itemsCount,
+        template_id: source.type === 'template' ? source.template_id : null,
+        template_version: source.type === 'template' ? source.template_version ?? null : null,
+        item_source: source.type === 'top_sellers' ? source : null,
+      });
+    }
+  }
+
+  return { shops, rows };
+}
+
+// ==================== PROGRESS ====================
+
+const WAITING_STATUSES = ['pending', 'scheduled', 'retry', 'processing'];
+
+/**
+ * Tiến độ theo shop từ batch_shops + các row auto_history của batch.
+ * Shop "failed" = enqueue lỗi hoặc có row lỗi (sau khi mọi row đã chạy xong).
+ * Shop "skipped" = mọi khung giờ đã bị lịch khác chiếm, không retry.
+ */
+export function summarizeBatchProgress(batchShops: BatchShopRow[], rows: BatchHistoryRow[]): BatchProgress {
+  const rowsByShop = new Map<number, BatchHistoryRow[]>();
+  for (const row of rows) {
+    rowsByShop.set(row.shop_id, [...(rowsByShop.get(row.shop_id) || []), row]);
+  }
+
+  const shops = batchShops.map((batchShop): BatchShopProgress => {
+    const shopRows = rowsByShop.get(batchShop.shop_id) || [];
+    const waiting = shopRows.filter(r => WAITING_STATUSES.includes(r.status)).length;
+    const success = shopRows.filter(r => r.status === 'success').length;
+    const errorRows = shopRows.filter(r => r.status === 'error');
+
+    let state: BatchShopState;
+    if (batchShop.status === 'failed') state = 'failed';
+    else if (batchShop.status === 'skipped') state = 'skipped';
+    else if (waiting > 0) state = success + errorRows.length > 0 ? 'running' : 'pending';
+    else state = errorRows.length > 0 ? 'failed' : 'done';
+
+    return {
+      shopId: batchShop.shop_id,
+      state,
+      total: shopRows.length,
+      waiting,
+      success,
+      error: errorRows.length,
+      message: batchShop.status === 'scheduled'
+        ? errorRows[0]?.error_message ?? batchShop.error_message
+        : batchShop.error_message,
+    };
+  });
+
+  const totalSlots = shops.reduce((sum, s) => sum + s.total, 0);
+  const successSlots = shops.reduce((sum, s) => sum + s.success, 0);
+  const finishedSlots = shops.reduce((sum, s) => sum + s.success + s.error, 0);
+
+  return {
+    shops,
+    totalSlots,
+    finishedSlots,
+    successSlots,
+    failedShopIds: shops.filter(s => s.state === 'failed').map(s => s.shopId),
+    isFinished: shops.every(s => s.state === 'done' || s.state === 'failed' || s.state === 'skipped'),
+  };
+}
+
+export function describeBatchItemSource(source: BatchItemSource, templateName?: string): string {
+  switch (source.type) {
+    case 'latest':
+      return 'Flash Sale gần nhất của từng shop';
+    case 'template':
+      return `Template ${templateName || source.template_id}${source.template_version ? ` v${source.template_version}` : ''}`;
+    case 'top_sellers':
+      return `Top ${source.limit} bán chạy · giảm ${source.percent_off}%`;
+  }
+}
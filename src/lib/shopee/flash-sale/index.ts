@@ -5,3 +5,6 @@
 
 export * from './types';
 export * from './utils';
+export * from './templates';
+export * from './recurrence';
+export * from './batch';
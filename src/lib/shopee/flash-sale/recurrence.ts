@@ -0,0 +1,7 @@
+/**
+ * Flash Sale Recurring Schedules (FE)
+ * Dùng chung logic khớp rule với EC2 worker (supabase/functions/_shared/flash-sale-recurrence.ts)
+ * để preview các khung giờ sắp được lên lịch.
+ */
+
+export * from '../../../../supabase/functions/_shared/flash-sale-recurrence.ts';
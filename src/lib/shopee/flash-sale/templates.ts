@@ -0,0 +1,92 @@
+/**
+ * Flash Sale Templates (FE)
+ * Resolve / validate dùng chung với worker + Edge Functions (supabase/functions/_shared/flash-sale-template.ts),
+ * file này thêm phần dựng template từ danh sách sản phẩm đã chọn trên UI.
+ */
+
+import type { FlashSaleItem } from './types';
+import type {
+  FlashSaleTemplateItem,
+  FlashSaleTemplatePriceRule,
+  TemplateCatalogItem,
+} from '../../../../supabase/functions/_shared/flash-sale-template.ts';
+
+export * from '../../../../supabase/functions/_shared/flash-sale-template.ts';
+
+// ==================== TYPES ====================
+
+/**
+ * Cách lưu giá khi tạo template
+ * - keep_price: giữ giá KM hiện tại của từng phân loại (rule absolute)
+ * - percent_off: giảm % theo giá gốc lúc chạy, có thể đặt giá sàn
+ */
+export type TemplatePricing =
+  | { mode: 'keep_price' }
+  | { mode: 'percent_off'; percent: number; floor_price?: number };
+
+/** Template (apishopee_flash_sale_templates) */
+export interface FlashSaleTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  source_shop_id: number | null;
+  current_version: number;
+  is_archived: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ==================== BUILD ====================
+
+function pricingRule(pricing: TemplatePricing, price: number): FlashSaleTemplatePriceRule {
+  if (pricing.mode === 'percent_off') {
+    return { type: 'percent_off', percent: pricing.percent, floor_price: pricing.floor_price || undefined };
+  }
+  return { type: 'absolute', price };
+}
+
+/**
+ * Dựng items của template từ payload add_shop_flash_sale_items.
+ * SKU lấy từ catalog của shop nguồn để resolve được ở shop khác.
+ */
+export function buildTemplateItems(
+  payload: FlashSaleItem[],
+  pricing: TemplatePricing,
+  catalog: TemplateCatalogItem[] = []
+): FlashSaleTemplateItem[] {
+  return payload.map(item => {
+    const catalogItem = catalog.find(c => c.item_id === item.item_id);
+    const base = {
+      item_id: item.item_id,
+      item_sku: catalogItem?.item_sku || undefined,
+      purchase_limit: item.purchase_limit || 0,
+    };
+
+    if (!item.models || item.models.length === 0) {
+      return {
+        ...base,
+        price_rule: pricingRule(pricing, item.item_input_promo_price || 0),
+        stock: item.item_stock,
+      };
+    }
+
+    return {
+      ...base,
+      price_rule: pricingRule(pricing, item.models[0].input_promo_price),
+      models: item.models.map(m => ({
+        model_id: m.model_id,
+        model_sku: catalogItem?.models.find(cm => cm.model_id === m.model_id)?.model_sku || undefined,
+        price_rule: pricing.mode === 'keep_price' ? pricingRule(pricing, m.input_promo_price) : undefined,
+        stock: m.stock,
+      })),
+    };
+  });
+}
+
+/** Mô tả ngắn rule giá cho UI */
+export function describePriceRule(rule: FlashSaleTemplatePriceRule): string {
+  if (rule.type === 'absolute') return `₫${rule.price.toLocaleString('vi-VN')}`;
+  const floor = rule.floor_price ? `, sàn ₫${rule.floor_price.toLocaleString('vi-VN')}` : '';
+  return `-${rule.percent}% giá gốc${floor}`;
+}
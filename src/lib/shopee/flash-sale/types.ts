@@ -1,8 +1,17 @@
 /**
  * Flash Sale Types and Constants
  * Defines all types, interfaces, and constants for Flash Sale feature
+ * Shape của request/response Shopee lấy từ catalogue generated (@/lib/shopee/endpoints)
  */
 
+import type {
+  ShopFlashSaleAddShopFlashSaleItemsRequestItems,
+  ShopFlashSaleAddShopFlashSaleItemsRequestItemsModels,
+  ShopFlashSaleGetShopFlashSaleItemsResponseItemInfo,
+  ShopFlashSaleGetShopFlashSaleItemsResponseModels,
+  ShopFlashSaleGetTimeSlotIdResponseItem,
+} from '../endpoints';
+
 // ==================== STATUS & TYPE ENUMS ====================
 
 /**
@@ -141,35 +150,34 @@ export interface FlashSale {
 }
 
 /**
- * Flash Sale Item with variants
+ * Model trong payload add_shop_flash_sale_items
  */
-export interface FlashSaleItemModel {
-  model_id: number;
-  input_promo_price: number;     // Price before tax
-  stock: number;                 // Campaign stock
-}
+export type FlashSaleItemModel = ShopFlashSaleAddShopFlashSaleItemsRequestItemsModels;
 
 /**
- * Flash Sale Item
+ * Item trong payload add_shop_flash_sale_items
+ * - Có biến thể: models
+ * - Không biến thể: item_input_promo_price + item_stock
  */
-export interface FlashSaleItem {
-  item_id: number;
-  purchase_limit: number;        // 0 = unlimited
-  // For items with variants
-  models?: FlashSaleItemModel[];
-  // For items without variants
-  item_input_promo_price?: number;
-  item_stock?: number;
-}
+export type FlashSaleItem = ShopFlashSaleAddShopFlashSaleItemsRequestItems;
 
 /**
- * Time Slot from Shopee API
+ * Model trả về từ get_shop_flash_sale_items
  */
-export interface TimeSlot {
-  timeslot_id: number;
-  start_time: number;            // Unix timestamp
-  end_time: number;              // Unix timestamp
-}
+export type FlashSaleItemModelInfo = ShopFlashSaleGetShopFlashSaleItemsResponseModels;
+
+/**
+ * Item trả về từ get_shop_flash_sale_items, đã gắn models theo item_id.
+ * Giá/tồn kho trống khi item có biến thể nên các field đó là optional.
+ */
+export type FlashSaleItemInfo = Partial<ShopFlashSaleGetShopFlashSaleItemsResponseItemInfo>
+  & Pick<ShopFlashSaleGetShopFlashSaleItemsResponseItemInfo, 'item_id' | 'status' | 'purchase_limit'>
+  & { models?: FlashSaleItemModelInfo[] };
+
+/**
+ * Time Slot from Shopee API (get_time_slot_id)
+ */
+export type TimeSlot = ShopFlashSaleGetTimeSlotIdResponseItem;
 
 /**
  * Sync Status from database
@@ -0,0 +1,6 @@
+/**
+ * Order Sync (FE)
+ * Cursor / trạng thái đơn dùng chung với worker job order_sync (supabase/functions/_shared/order-sync.ts).
+ */
+
+export * from '../../../supabase/functions/_shared/order-sync.ts';
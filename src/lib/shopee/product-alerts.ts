@@ -0,0 +1,38 @@
+/**
+ * Product Alerts (FE)
+ * Dùng chung logic rule với apishopee-product-webhook (supabase/functions/_shared/product-alert-rules.ts)
+ * để mô tả rule và lọc inbox cảnh báo.
+ */
+
+import { isAlertActive, type AlertStatus } from '../../../supabase/functions/_shared/product-alert-rules.ts';
+
+export * from '../../../supabase/functions/_shared/product-alert-rules.ts';
+
+/** active = đang mở + hết hạn tạm hoãn; snoozed = còn trong thời gian tạm hoãn */
+export type AlertInboxView = 'active' | 'snoozed' | 'acknowledged';
+
+/** Các mức tạm hoãn trong inbox */
+export const ALERT_SNOOZE_OPTIONS = [
+  { label: '1 giờ', hours: 1 },
+  { label: '1 ngày', hours: 24 },
+  { label: '7 ngày', hours: 24 * 7 },
+] as const;
+
+export function snoozeUntil(hours: number, now: Date = new Date()): string {
+  return new Date(now.getTime() + hours * 3600 * 1000).toISOString();
+}
+
+export function filterAlertInbox<T extends { status: AlertStatus; snoozed_until: string | null }>(
+  alerts: T[],
+  view: AlertInboxView,
+  now: Date = new Date()
+): T[] {
+  switch (view) {
+    case 'active':
+      return alerts.filter(a => isAlertActive(a, now));
+    case 'snoozed':
+      return alerts.filter(a => a.status === 'snoozed' && !isAlertActive(a, now));
+    case 'acknowledged':
+      return alerts.filter(a => a.status === 'acknowledged');
+  }
+}
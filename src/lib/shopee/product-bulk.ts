@@ -0,0 +1,372 @@
+/**
+ * Product Bulk Edit - xuất catalogue (item_id, model_id, SKU, giá, tồn kho), đọc file đã sửa,
+ * diff với apishopee_products / apishopee_product_models và gom thành request
+ * update-price / update-stock theo sản phẩm để áp dụng tuần tự
+ */
+
+import type { SheetCell } from '@/lib/spreadsheet';
+import { parsePriceInput, parseStockInput, type ProductEditRequest, type ProductEditResult } from './product-edit';
+
+// ==================== TYPES ====================
+
+export interface BulkSourceProduct {
+  item_id: number;
+  item_name: string;
+  item_sku: string | null;
+  has_model: boolean;
+  current_price: number;
+  original_price: number;
+  total_available_stock: number;
+}
+
+export interface BulkSourceModel {
+  item_id: number;
+  model_id: number;
+  model_sku: string | null;
+  model_name: string;
+  current_price: number;
+  original_price: number;
+  total_available_stock: number;
+}
+
+/** 1 dòng catalogue: model_id = 0 là sản phẩm không có phân loại */
+export interface BulkCatalogRow {
+  item_id: number;
+  model_id: number;
+  sku: string;
+  name: string;
+  /** Giá gốc (original_price) - giá được sửa qua update_price */
+  price: number;
+  stock: number;
+}
+
+export interface BulkImportRow {
+  /** Số dòng trong file (tính cả header) */
+  line: number;
+  item_id: number;
+  model_id: number;
+  price?: number;
+  stock?: number;
+}
+
+export interface BulkImportError {
+  line: number;
+  message: string;
+}
+
+export interface BulkDiffRow {
+  key: string;
+  line: number;
+  item_id: number;
+  model_id: number;
+  sku: string;
+  name: string;
+  old_price: number | null;
+  new_price?: number;
+  old_stock: number | null;
+  new_stock?: number;
+  error?: string;
+}
+
+export interface BulkRequest {
+  request: ProductEditRequest;
+  /** Các dòng diff nằm trong request */
+  keys: string[];
+}
+
+export type BulkOutcomeStatus = 'success' | 'failed' | 'skipped';
+
+export interface BulkOutcome {
+  status: BulkOutcomeStatus;
+  message?: string;
+}
+
+/** Kết quả theo dòng: giá và tồn kho được ghi bằng 2 request riêng */
+export type BulkRowResult = { price?: BulkOutcome; stock?: BulkOutcome };
+
+// ==================== CONSTANTS ====================
+
+export const BULK_COLUMNS = ['item_id', 'model_id', 'sku', 'name', 'price', 'stock'] as const;
+
+/** Số phân loại tối đa trong 1 request update_price / update_stock */
+export const BULK_MODELS_PER_REQUEST = 50;
+
+/** Nghỉ giữa các request (edge function còn có rate limiter dùng chung) */
+export const BULK_REQUEST_DELAY_MS = 500;
+
+export function bulkRowKey(itemId: number, modelId: number): string {
+  return `${itemId}:${modelId}`;
+}
+
+// ==================== EXPORT ====================
+
+export function buildBulkCatalog(
+  products: BulkSourceProduct[],
+  modelsByItem: Record<number, BulkSourceModel[]>
+): BulkCatalogRow[] {
+  const rows: BulkCatalogRow[] = [];
+
+  for (const product of products) {
+    const models = product.has_model ? modelsByItem[product.item_id] || [] : [];
+    if (models.length === 0) {
+      rows.push({
+        item_id: product.item_id,
+        model_id: 0,
+        sku: product.item_sku || '',
+        name: product.item_name,
+        price: product.original_price || product.current_price,
+        stock: product.total_available_stock,
+      });
+      continue;
+    }
+
+    for (const model of [...models].sort((a, b) => a.model_id - b.model_id)) {
+      rows.push({
+        item_id: product.item_id,
+        model_id: model.model_id,
+        sku: model.model_sku || product.item_sku || '',
+        name: `${product.item_name} - ${model.model_name}`,
+        price: model.original_price || model.current_price,
+        stock: model.total_available_stock,
+      });
+    }
+  }
+
+  return rows;
+}
+
+export function catalogToSheet(rows: BulkCatalogRow[]): SheetCell[][] {
+  return [
+    [...BULK_COLUMNS],
+    ...rows.map(r => [r.item_id, r.model_id, r.sku, r.name, r.price, r.stock]),
+  ];
+}
+
+// ==================== IMPORT ====================
+
+/**
+ * Đọc bảng từ file: cần cột item_id, model_id (trống = 0) và ít nhất một cột price / stock.
+ * Ô price / stock để trống = giữ nguyên.
+ */
+export function parseBulkSheet(table: string[][]): { rows: BulkImportRow[]; errors: BulkImportError[] } {
+  const [header, ...body] = table;
+  if (!header) return { rows: [], errors: [{ line: 1, message: 'File trống' }] };
+
+  const columns = header.map(h => h.trim().toLowerCase());
+  const col = (name: string) => columns.indexOf(name);
+  const itemCol = col('item_id');
+  const modelCol = col('model_id');
+  const priceCol = col('price');
+  const stockCol = col('stock');
+
+  if (itemCol < 0 || (priceCol < 0 && stockCol < 0)) {
+    return { rows: [], errors: [{ line: 1, message: 'Thiếu cột item_id hoặc price / stock' }] };
+  }
+
+  const rows: BulkImportRow[] = [];
+  const errors: BulkImportError[] = [];
+  const seen = new Set<string>();
+
+  body.forEach((cells, index) => {
+    const line = index + 2;
+    const cell = (i: number) => (i >= 0 ? (cells[i] || '').trim() : '');
+
+    const itemId = Number(cell(itemCol));
+    const modelId = cell(modelCol) === '' ? 0 : Number(cell(modelCol));
+    if (!Number.isInteger(itemId) || itemId <= 0 || !Number.isInteger(modelId) || modelId < 0) {
+      errors.push({ line, message: 'item_id / model_id không hợp lệ' });
+      return;
+    }
+
+    const key = bulkRowKey(itemId, modelId);
+    if (seen.has(key)) {
+      errors.push({ line, message: `Trùng dòng ${itemId} / ${modelId}` });
+      return;
+    }
+    seen.add(key);
+
+    const row: BulkImportRow = { line, item_id: itemId, model_id: modelId };
+    if (cell(priceCol) !== '') {
+      const price = parsePriceInput(cell(priceCol));
+      if (price === null) {
+        errors.push({ line, message: `Giá không hợp lệ: ${cell(priceCol)}` });
+        return;
+      }
+      row.price = price;
+    }
+    if (cell(stockCol) !== '') {
+      const stock = parseStockInput(cell(stockCol));
+      if (stock === null) {
+        errors.push({ line, message: `Tồn kho không hợp lệ: ${cell(stockCol)}` });
+        return;
+      }
+      row.stock = stock;
+    }
+    rows.push(row);
+  });
+
+  return { rows, errors };
+}
+
+/** Chỉ trả về dòng có thay đổi hoặc lỗi (không có trong DB) */
+export function diffBulkImport(catalog: BulkCatalogRow[], imported: BulkImportRow[]): BulkDiffRow[] {
+  const byKey = new Map(catalog.map(r => [bulkRowKey(r.item_id, r.model_id), r]));
+  const diffs: BulkDiffRow[] = [];
+
+  for (const row of imported) {
+    const key = bulkRowKey(row.item_id, row.model_id);
+    const current = byKey.get(key);
+
+    if (!current) {
+      diffs.push({
+        key, line: row.line, item_id: row.item_id, model_id: row.model_id, sku: '', name: '',
+        old_price: null, new_price: row.price, old_stock: null, new_stock: row.stock,
+        error: 'Không tìm thấy sản phẩm / phân loại (hãy đồng bộ lại)',
+      });
+      continue;
+    }
+
+    const priceChanged = row.price !== undefined && row.price !== current.price;
+    const stockChanged = row.stock !== undefined && row.stock !== current.stock;
+    if (!priceChanged && !stockChanged) continue;
+
+    diffs.push({
+      key, line: row.line, item_id: row.item_id, model_id: row.model_id, sku: current.sku, name: current.name,
+      old_price: current.price, new_price: priceChanged ? row.price : undefined,
+      old_stock: current.stock, new_stock: stockChanged ? row.stock : undefined,
+    });
+  }
+
+  return diffs;
+}
+
+// ==================== APPLY ====================
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+/** Gom dòng hợp lệ thành request theo sản phẩm: giá trước, tồn kho sau */
+export function buildBulkRequests(diffs: BulkDiffRow[]): BulkRequest[] {
+  const byItem = new Map<number, BulkDiffRow[]>();
+  for (const diff of diffs) {
+    if (diff.error) continue;
+    byItem.set(diff.item_id, [...(byItem.get(diff.item_id) || []), diff]);
+  }
+
+  const requests: BulkRequest[] = [];
+  for (const [itemId, rows] of byItem) {
+    for (const group of chunk(rows.filter(r => r.new_price !== undefined), BULK_MODELS_PER_REQUEST)) {
+      requests.push({
+        request: {
+          action: 'update-price',
+          item_id: itemId,
+          price_list: group.map(r => (r.model_id ? { model_id: r.model_id, original_price: r.new_price! } : { original_price: r.new_price! })),
+        },
+        keys: group.map(r => r.key),
+      });
+    }
+    for (const group of chunk(rows.filter(r => r.new_stock !== undefined), BULK_MODELS_PER_REQUEST)) {
+      requests.push({
+        request: {
+          action: 'update-stock',
+          item_id: itemId,
+          stock_list: group.map(r => (r.model_id ? { model_id: r.model_id, stock: r.new_stock! } : { stock: r.new_stock! })),
+        },
+        keys: group.map(r => r.key),
+      });
+    }
+  }
+
+  return requests;
+}
+
+/** Kết quả từng dòng của 1 request: failure theo model_id (không có model_id = cả sản phẩm), còn lại là thành công */
+export function outcomesFromResult(keys: string[], result: ProductEditResult): Map<string, BulkOutcome> {
+  const outcomes = new Map<string, BulkOutcome>();
+
+  for (const key of keys) {
+    if (result.error) {
+      outcomes.set(key, { status: 'failed', message: result.error });
+      continue;
+    }
+    const modelId = Number(key.split(':')[1]);
+    const failure = result.failures.find(f => !f.model_id || f.model_id === modelId);
+    outcomes.set(key, failure ? { status: 'failed', message: failure.reason } : { status: 'success' });
+  }
+
+  return outcomes;
+}
+
+export interface ApplyBulkOptions {
+  delayMs?: number;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number, results: Map<string, BulkRowResult>) => void;
+}
+
+/**
+ * Gửi tuần tự từng request, nghỉ delayMs giữa các lần gọi.
+ * Request lỗi không dừng cả lô; dừng (signal) thì các request còn lại là 'skipped'.
+ */
+export async function applyBulkRequests(
+  requests: BulkRequest[],
+  send: (request: ProductEditRequest) => Promise<ProductEditResult>,
+  options: ApplyBulkOptions = {}
+): Promise<Map<string, BulkRowResult>> {
+  const { delayMs = BULK_REQUEST_DELAY_MS, signal, onProgress } = options;
+  const results = new Map<string, BulkRowResult>();
+
+  const record = (bulk: BulkRequest, outcomes: Map<string, BulkOutcome>) => {
+    const field = bulk.request.action === 'update-price' ? 'price' : 'stock';
+    for (const [key, outcome] of outcomes) {
+      results.set(key, { ...results.get(key), [field]: outcome });
+    }
+  };
+
+  for (let i = 0; i < requests.length; i++) {
+    const bulk = requests[i];
+    if (signal?.aborted) {
+      record(bulk, new Map(bulk.keys.map(key => [key, { status: 'skipped' }])));
+      continue;
+    }
+
+    try {
+      record(bulk, outcomesFromResult(bulk.keys, await send(bulk.request)));
+    } catch (err) {
+      record(bulk, new Map(bulk.keys.map(key => [key, { status: 'failed', message: (err as Error).message }])));
+    }
+    onProgress?.(i + 1, requests.length, results);
+
+    if (delayMs > 0 && i < requests.length - 1 && !signal?.aborted) {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+
+  return results;
+}
+
+/** Trạng thái gộp của 1 dòng (giá + tồn kho) */
+export function summarizeRowResult(result: BulkRowResult | undefined): BulkOutcome | null {
+  const outcomes = [result?.price, result?.stock].filter((o): o is BulkOutcome => !!o);
+  if (outcomes.length === 0) return null;
+  const failed = outcomes.filter(o => o.status === 'failed');
+  if (failed.length > 0) return { status: 'failed', message: failed.map(o => o.message).filter(Boolean).join('; ') };
+  if (outcomes.some(o => o.status === 'skipped')) return { status: 'skipped' };
+  return { status: 'success' };
+}
+
+export function resultsToSheet(diffs: BulkDiffRow[], results: Map<string, BulkRowResult>): SheetCell[][] {
+  return [
+    ['line', 'item_id', 'model_id', 'sku', 'name', 'old_price', 'new_price', 'old_stock', 'new_stock', 'status', 'message'],
+    ...diffs.map(d => {
+      const outcome = d.error ? { status: 'failed', message: d.error } : summarizeRowResult(results.get(d.key));
+      return [
+        d.line, d.item_id, d.model_id, d.sku, d.name,
+        d.old_price, d.new_price, d.old_stock, d.new_stock,
+        outcome?.status || 'pending', outcome?.message || '',
+      ];
+    }),
+  ];
+}
@@ -0,0 +1,301 @@
+/**
+ * Product Catalog - danh mục chung nhiều shop: ghép sản phẩm / phân loại của các shop theo
+ * SKU (item_sku / model_sku) thành 1 dòng master SKU, có ghép tay đè lên
+ * (apishopee_catalog_sku_links, migration 089), và đánh dấu giá lệch giữa các shop.
+ */
+
+import type { SheetCell } from '@/lib/spreadsheet';
+
+// ==================== TYPES ====================
+
+export interface CatalogSourceProduct {
+  shop_id: number;
+  item_id: number;
+  item_name: string;
+  item_sku: string | null;
+  item_status: string;
+  has_model: boolean;
+  current_price: number;
+  original_price: number;
+  total_available_stock: number;
+  image_url_list: string[] | null;
+}
+
+export interface CatalogSourceModel {
+  shop_id: number;
+  item_id: number;
+  model_id: number;
+  model_sku: string | null;
+  model_name: string;
+  current_price: number;
+  original_price: number;
+  total_available_stock: number;
+  image_url: string | null;
+}
+
+/** 1 sản phẩm / phân loại đang bán ở 1 shop; model_id = 0 là sản phẩm không có phân loại */
+export interface CatalogListing {
+  shop_id: number;
+  item_id: number;
+  model_id: number;
+  name: string;
+  /** SKU trên Shopee (chưa chuẩn hóa) */
+  sku: string;
+  item_status: string;
+  current_price: number;
+  original_price: number;
+  stock: number;
+  image_url: string | null;
+}
+
+/** Ghép tay: master_sku = null là không ghép listing vào master SKU nào */
+export interface CatalogLink {
+  shop_id: number;
+  item_id: number;
+  model_id: number;
+  master_sku: string | null;
+}
+
+export interface CatalogShopCell {
+  shop_id: number;
+  listings: CatalogListing[];
+  min_price: number;
+  max_price: number;
+  stock: number;
+  /** Có ít nhất 1 listing đang bán (NORMAL) */
+  is_active: boolean;
+}
+
+export interface CatalogEntry {
+  master_sku: string;
+  name: string;
+  image_url: string | null;
+  shops: CatalogShopCell[];
+  total_stock: number;
+  /** Giá thấp / cao nhất giữa các shop đang bán; null khi chưa có listing đang bán */
+  min_price: number | null;
+  max_price: number | null;
+  /** (max - min) / min, tính bằng % */
+  price_spread_pct: number;
+  price_inconsistent: boolean;
+  /** Có listing được ghép tay */
+  has_manual_link: boolean;
+}
+
+export interface CatalogResult {
+  entries: CatalogEntry[];
+  /** Listing không có SKU (hoặc bị bỏ ghép) */
+  unmatched: CatalogListing[];
+}
+
+export interface CatalogSummary {
+  master_count: number;
+  multi_shop_count: number;
+  inconsistent_count: number;
+  unmatched_count: number;
+}
+
+// ==================== CONSTANTS ====================
+
+/** Ngưỡng lệch giá mặc định giữa các shop (%) */
+export const DEFAULT_PRICE_TOLERANCE_PCT = 0;
+
+export const PRICE_TOLERANCE_OPTIONS = [0, 5, 10, 20];
+
+const ACTIVE_STATUS = 'NORMAL';
+
+// ==================== HELPERS ====================
+
+/** Chuẩn hóa SKU để so khớp: bỏ khoảng trắng thừa, không phân biệt hoa thường */
+export function normalizeSku(sku: string | null | undefined): string {
+  return (sku || '').trim().replace(/\s+/g, ' ').toUpperCase();
+}
+
+export function catalogListingKey(shopId: number, itemId: number, modelId: number): string {
+  return `${shopId}:${itemId}:${modelId}`;
+}
+
+/**
+ * Trải sản phẩm thành listing: sản phẩm có phân loại tính theo từng phân loại (model_sku),
+ * không lấy item_sku của sản phẩm cha vì các phân loại sẽ trùng nhau
+ */
+export function buildCatalogListings(
+  products: CatalogSourceProduct[],
+  models: CatalogSourceModel[]
+): CatalogListing[] {
+  const modelsByItem = new Map<string, CatalogSourceModel[]>();
+  for (const model of models) {
+    const key = `${model.shop_id}:${model.item_id}`;
+    modelsByItem.set(key, [...(modelsByItem.get(key) || []), model]);
+  }
+
+  const listings: CatalogListing[] = [];
+  const seen = new Set<string>();
+  const push = (listing: CatalogListing) => {
+    // Shop được nhiều user đồng bộ có thể trùng dòng
+    const key = catalogListingKey(listing.shop_id, listing.item_id, listing.model_id);
+    if (seen.has(key)) return;
+    seen.add(key);
+    listings.push(listing);
+  };
+
+  for (const product of products) {
+    const itemModels = product.has_model ? modelsByItem.get(`${product.shop_id}:${product.item_id}`) || [] : [];
+    if (itemModels.length === 0) {
+      push({
+        shop_id: product.shop_id,
+        item_id: product.item_id,
+        model_id: 0,
+        name: product.item_name,
+        sku: product.item_sku || '',
+        item_status: product.item_status,
+        current_price: product.current_price,
+        original_price: product.original_price,
+        stock: product.total_available_stock,
+        image_url: product.image_url_list?.[0] || null,
+      });
+      continue;
+    }
+
+    for (const model of itemModels) {
+      push({
+        shop_id: product.shop_id,
+        item_id: product.item_id,
+        model_id: model.model_id,
+        name: `${product.item_name} - ${model.model_name}`,
+        sku: model.model_sku || '',
+        item_status: product.item_status,
+        current_price: model.current_price,
+        original_price: model.original_price,
+        stock: model.total_available_stock,
+        image_url: model.image_url || product.image_url_list?.[0] || null,
+      });
+    }
+  }
+
+  return listings;
+}
+
+function shopCell(shopId: number, listings: CatalogListing[]): CatalogShopCell {
+  const active = listings.filter(l => l.item_status === ACTIVE_STATUS);
+  const priced = (active.length > 0 ? active : listings).map(l => l.current_price);
+  return {
+    shop_id: shopId,
+    listings,
+    min_price: Math.min(...priced),
+    max_price: Math.max(...priced),
+    stock: listings.reduce((sum, l) => sum + l.stock, 0),
+    is_active: active.length > 0,
+  };
+}
+
+// ==================== MATCHING ====================
+
+/**
+ * Ghép listing theo SKU chuẩn hóa; ghép tay (links) đè lên SKU của listing.
+ * Giá lệch khi chênh lệch giá hiện tại giữa các listing đang bán của >= 2 shop vượt ngưỡng
+ */
+export function buildCatalog(
+  listings: CatalogListing[],
+  links: CatalogLink[],
+  priceTolerancePct = DEFAULT_PRICE_TOLERANCE_PCT
+): CatalogResult {
+  const linkByKey = new Map(links.map(l => [catalogListingKey(l.shop_id, l.item_id, l.model_id), l]));
+  const groups = new Map<string, { listings: CatalogListing[]; manual: boolean }>();
+  const unmatched: CatalogListing[] = [];
+
+  for (const listing of listings) {
+    const link = linkByKey.get(catalogListingKey(listing.shop_id, listing.item_id, listing.model_id));
+    const masterSku = normalizeSku(link ? link.master_sku : listing.sku);
+    if (!masterSku) {
+      unmatched.push(listing);
+      continue;
+    }
+    const group = groups.get(masterSku) || { listings: [], manual: false };
+    group.listings.push(listing);
+    group.manual = group.manual || !!link;
+    groups.set(masterSku, group);
+  }
+
+  const entries: CatalogEntry[] = [...groups].map(([masterSku, group]) => {
+    const byShop = new Map<number, CatalogListing[]>();
+    for (const listing of group.listings) {
+      byShop.set(listing.shop_id, [...(byShop.get(listing.shop_id) || []), listing]);
+    }
+    const shops = [...byShop]
+      .map(([shopId, shopListings]) => shopCell(shopId, shopListings))
+      .sort((a, b) => a.shop_id - b.shop_id);
+
+    const activeShops = shops.filter(s => s.is_active);
+    const minPrice = activeShops.length > 0 ? Math.min(...activeShops.map(s => s.min_price)) : null;
+    const maxPrice = activeShops.length > 0 ? Math.max(...activeShops.map(s => s.max_price)) : null;
+    const spread = minPrice && maxPrice ? ((maxPrice - minPrice) / minPrice) * 100 : 0;
+    const first = group.listings[0];
+
+    return {
+      master_sku: masterSku,
+      name: first.name,
+      image_url: group.listings.find(l => l.image_url)?.image_url || null,
+      shops,
+      total_stock: shops.reduce((sum, s) => sum + s.stock, 0),
+      min_price: minPrice,
+      max_price: maxPrice,
+      price_spread_pct: Math.round(spread * 10) / 10,
+      price_inconsistent: activeShops.length >= 2 && spread > priceTolerancePct,
+      has_manual_link: group.manual,
+    };
+  });
+
+  entries.sort((a, b) => a.master_sku.localeCompare(b.master_sku));
+  return { entries, unmatched };
+}
+
+export function summarizeCatalog(result: CatalogResult): CatalogSummary {
+  return {
+    master_count: result.entries.length,
+    multi_shop_count: result.entries.filter(e => e.shops.length >= 2).length,
+    inconsistent_count: result.entries.filter(e => e.price_inconsistent).length,
+    unmatched_count: result.unmatched.length,
+  };
+}
+
+// ==================== EXPORT ====================
+
+/** 1 dòng / master SKU, mỗi shop 3 cột giá - tồn kho - trạng thái */
+export function catalogToSheet(
+  entries: CatalogEntry[],
+  shops: Array<{ shop_id: number; shop_name: string | null }>
+): SheetCell[][] {
+  const header: SheetCell[] = ['master_sku', 'name', 'min_price', 'max_price', 'spread_pct', 'price_inconsistent'];
+  for (const shop of shops) {
+    const label = shop.shop_name || String(shop.shop_id);
+    header.push(`${label} price`, `${label} stock`, `${label} status`);
+  }
+
+  return [
+    header,
+    ...entries.map(entry => {
+      const row: SheetCell[] = [
+        entry.master_sku,
+        entry.name,
+        entry.min_price,
+        entry.max_price,
+        entry.price_spread_pct,
+        entry.price_inconsistent ? 'yes' : '',
+      ];
+      for (const shop of shops) {
+        const cell = entry.shops.find(s => s.shop_id === shop.shop_id);
+        if (!cell) {
+          row.push(null, null, null);
+          continue;
+        }
+        row.push(
+          cell.min_price === cell.max_price ? cell.min_price : `${cell.min_price}-${cell.max_price}`,
+          cell.stock,
+          [...new Set(cell.listings.map(l => l.item_status))].join(', ')
+        );
+      }
+      return row;
+    }),
+  ];
+}
@@ -0,0 +1,7 @@
+/**
+ * Product Content (FE)
+ * Kiểm tra / so sánh nội dung dùng chung với apishopee-product (supabase/functions/_shared/product-content.ts)
+ * để ProductContentDialog báo lỗi ngay khi sửa nháp.
+ */
+
+export * from '../../../supabase/functions/_shared/product-content.ts';
@@ -0,0 +1,65 @@
+/**
+ * Product Edit - request / kết quả của các action sửa sản phẩm trong apishopee-product
+ * (update-price, update-stock, unlist-item) + parse giá trị nhập inline
+ */
+
+// ==================== TYPES ====================
+
+export type ProductEditRequest =
+  | { action: 'update-price'; item_id: number; price_list: Array<{ model_id?: number; original_price: number }> }
+  | { action: 'update-stock'; item_id: number; stock_list: Array<{ model_id?: number; stock: number }> }
+  | { action: 'unlist-item'; item_id: number; unlist: boolean };
+
+export interface ProductEditFailure {
+  item_id: number;
+  model_id?: number;
+  reason: string;
+}
+
+export interface ProductEditResult {
+  success: boolean;
+  updated_count: number;
+  failures: ProductEditFailure[];
+  history_logs_created: number;
+  error?: string;
+}
+
+// ==================== PARSE INPUT ====================
+
+/** "150.000", "150,000 đ" → 150000; null nếu trống hoặc <= 0 */
+export function parsePriceInput(value: string): number | null {
+  const digits = value.replace(/[^\d]/g, '');
+  if (!digits) return null;
+  const price = Number(digits);
+  return price > 0 ? price : null;
+}
+
+/** Tồn kho là số nguyên >= 0 */
+export function parseStockInput(value: string): number | null {
+  const trimmed = value.trim().replace(/[.,\s]/g, '');
+  if (!/^\d+$/.test(trimmed)) return null;
+  return Number(trimmed);
+}
+
+// ==================== RESULT ====================
+
+/** Lý do Shopee từ chối, kèm tên phân loại nếu có */
+export function formatEditFailures(failures: ProductEditFailure[], modelNames?: Map<number, string>): string {
+  return failures
+    .map(f => {
+      const target = f.model_id ? modelNames?.get(f.model_id) || `Phân loại #${f.model_id}` : null;
+      return target ? `${target}: ${f.reason}` : f.reason;
+    })
+    .join('; ');
+}
+
+export function describeEditRequest(request: ProductEditRequest): string {
+  switch (request.action) {
+    case 'update-price':
+      return 'Cập nhật giá';
+    case 'update-stock':
+      return 'Cập nhật tồn kho';
+    case 'unlist-item':
+      return request.unlist ? 'Ẩn sản phẩm' : 'Hiển thị sản phẩm';
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Product Sync (FE)
+ * Cursor / tiến độ dùng chung với worker job product_sync (supabase/functions/_shared/product-sync.ts).
+ */
+
+export * from '../../../supabase/functions/_shared/product-sync.ts';
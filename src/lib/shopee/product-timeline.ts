@@ -0,0 +1,204 @@
+/**
+ * Product Timeline - dựng lại chuỗi giá / giá khuyến mãi / tồn kho theo từng phân loại
+ * từ apishopee_product_history_logs + snapshot đồng bộ hiện tại, và tra giá trị tại
+ * thời điểm bắt đầu các khung Flash Sale.
+ */
+
+import type { SheetCell } from '@/lib/spreadsheet';
+
+// ==================== TYPES ====================
+
+/** Các field của history log cần cho timeline */
+export interface TimelineLog {
+  detected_at: string;
+  change_type: string;
+  model_id: number | null;
+  model_name: string | null;
+  source: string;
+  old_value: Record<string, unknown> | null;
+  new_value: Record<string, unknown> | null;
+}
+
+/** Giá / tồn kho đang lưu trong DB (lần đồng bộ / sửa gần nhất) */
+export interface TimelineSnapshot {
+  model_id: number;
+  model_name: string;
+  current_price: number;
+  original_price: number;
+  total_available_stock: number;
+  /** ISO time của snapshot */
+  synced_at: string;
+}
+
+export interface TimelineState {
+  price?: number;
+  original_price?: number;
+  promotion_price?: number;
+  stock?: number;
+}
+
+export interface TimelinePoint extends TimelineState {
+  /** Unix ms */
+  time: number;
+  source: string;
+}
+
+/** model_id = 0 là cấp sản phẩm (sản phẩm không phân loại hoặc log tổng từ sync) */
+export interface TimelineSeries {
+  model_id: number;
+  model_name: string;
+  points: TimelinePoint[];
+}
+
+export interface FlashSaleWindow {
+  flash_sale_id: number;
+  /** Unix seconds như apishopee_flash_sale_data */
+  start_time: number;
+  end_time: number;
+  /** Sản phẩm có trong Flash Sale (theo items_data đã đăng ký); undefined = không rõ */
+  includes_item?: boolean;
+}
+
+// ==================== HELPERS ====================
+
+const STATE_FIELDS: Record<keyof TimelineState, string> = {
+  price: 'current_price',
+  original_price: 'original_price',
+  promotion_price: 'promotion_price',
+  stock: 'total_available_stock',
+};
+
+function numberOf(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function stateOf(value: Record<string, unknown> | null): TimelineState {
+  const state: TimelineState = {};
+  if (!value) return state;
+  for (const [key, field] of Object.entries(STATE_FIELDS) as [keyof TimelineState, string][]) {
+    const n = numberOf(value[field]);
+    if (n !== undefined) state[key] = n;
+  }
+  return state;
+}
+
+function defined(state: TimelineState): TimelineState {
+  return Object.fromEntries(Object.entries(state).filter(([, v]) => v !== undefined)) as TimelineState;
+}
+
+// ==================== BUILD ====================
+
+/**
+ * Mỗi log là 1 điểm mang trạng thái đầy đủ (giá trị không đổi được kéo theo từ điểm trước).
+ * Trạng thái ban đầu lấy từ old_value của log đầu tiên chạm tới từng field;
+ * snapshot hiện tại là điểm cuối nếu mới hơn log cuối.
+ */
+export function buildTimelineSeries(logs: TimelineLog[], snapshots: TimelineSnapshot[]): TimelineSeries[] {
+  const sorted = [...logs].sort((a, b) => Date.parse(a.detected_at) - Date.parse(b.detected_at));
+  const byModel = new Map<number, { name: string; logs: TimelineLog[] }>();
+
+  for (const log of sorted) {
+    const modelId = log.model_id || 0;
+    const entry = byModel.get(modelId) || { name: log.model_name || '', logs: [] };
+    entry.logs.push(log);
+    if (log.model_name) entry.name = log.model_name;
+    byModel.set(modelId, entry);
+  }
+  for (const snapshot of snapshots) {
+    if (!byModel.has(snapshot.model_id)) byModel.set(snapshot.model_id, { name: snapshot.model_name, logs: [] });
+  }
+
+  const series: TimelineSeries[] = [];
+  for (const [modelId, entry] of byModel) {
+    const snapshot = snapshots.find(s => s.model_id === modelId);
+
+    // Trạng thái trước log đầu tiên: old_value đầu tiên của từng field
+    const initial: TimelineState = {};
+    for (const log of entry.logs) {
+      const old = stateOf(log.old_value);
+      for (const key of Object.keys(STATE_FIELDS) as (keyof TimelineState)[]) {
+        if (initial[key] === undefined && old[key] !== undefined) initial[key] = old[key];
+      }
+    }
+
+    const points: TimelinePoint[] = [];
+    let state: TimelineState = { ...initial };
+    if (entry.logs.length > 0 && Object.keys(defined(initial)).length > 0) {
+      points.push({ time: Date.parse(entry.logs[0].detected_at) - 1, source: 'initial', ...state });
+    }
+
+    for (const log of entry.logs) {
+      const next = stateOf(log.new_value);
+      state = { ...state, ...defined(next) };
+      // Giá khuyến mãi chỉ có trong push giá - đổi giá mà không kèm thì coi như không còn khuyến mãi
+      if (log.change_type === 'price_change' && next.promotion_price === undefined) delete state.promotion_price;
+      points.push({ time: Date.parse(log.detected_at), source: log.source, ...state });
+    }
+
+    const lastTime = points.length > 0 ? points[points.length - 1].time : -Infinity;
+    if (snapshot && Date.parse(snapshot.synced_at) > lastTime) {
+      points.push({
+        time: Date.parse(snapshot.synced_at),
+        source: 'snapshot',
+        ...state,
+        price: snapshot.current_price,
+        original_price: snapshot.original_price,
+        stock: snapshot.total_available_stock,
+      });
+    }
+
+    if (points.length > 0) {
+      series.push({ model_id: modelId, model_name: entry.name || snapshot?.model_name || '', points });
+    }
+  }
+
+  return series.sort((a, b) => a.model_id - b.model_id);
+}
+
+/** Trạng thái tại thời điểm (unix ms): điểm cuối cùng <= time; trước điểm đầu thì không rõ */
+export function stateAt(series: TimelineSeries, time: number): TimelineState | null {
+  let found: TimelinePoint | null = null;
+  for (const point of series.points) {
+    if (point.time > time) break;
+    found = point;
+  }
+  if (!found) return null;
+  const { time: _time, source: _source, ...state } = found;
+  return state;
+}
+
+/** Giá trị của 1 phân loại lúc mỗi khung Flash Sale bắt đầu */
+export function flashSaleStartStates(
+  series: TimelineSeries,
+  windows: FlashSaleWindow[]
+): Array<{ window: FlashSaleWindow; state: TimelineState | null }> {
+  return [...windows]
+    .sort((a, b) => a.start_time - b.start_time)
+    .map(window => ({ window, state: stateAt(series, window.start_time * 1000) }));
+}
+
+// ==================== EXPORT ====================
+
+export function timelineToSheet(series: TimelineSeries[]): SheetCell[][] {
+  return [
+    ['time', 'model_id', 'model_name', 'price', 'original_price', 'promotion_price', 'stock', 'source'],
+    ...series.flatMap(s => s.points.map(p => [
+      new Date(p.time).toISOString(), s.model_id, s.model_name,
+      p.price, p.original_price, p.promotion_price, p.stock, p.source,
+    ])),
+  ];
+}
+
+export function flashSaleStatesToSheet(series: TimelineSeries[], windows: FlashSaleWindow[]): SheetCell[][] {
+  return [
+    ['flash_sale_id', 'start_time', 'end_time', 'includes_item', 'model_id', 'model_name', 'price', 'promotion_price', 'stock'],
+    ...series.flatMap(s => flashSaleStartStates(s, windows).map(({ window, state }) => [
+      window.flash_sale_id,
+      new Date(window.start_time * 1000).toISOString(),
+      new Date(window.end_time * 1000).toISOString(),
+      window.includes_item === undefined ? '' : window.includes_item ? 'yes' : 'no',
+      s.model_id, s.model_name,
+      state?.price, state?.promotion_price, state?.stock,
+    ])),
+  ];
+}
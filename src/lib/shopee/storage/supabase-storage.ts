@@ -118,17 +118,8 @@ export class SupabaseTokenStorage implements TokenStorage {
     }
 
     try {
-      // Xóa token fields, không xóa shop record
-      const { error } = await supabase
-        .from('apishopee_shops')
-        .update({
-          access_token: null,
-          refresh_token: null,
-          expired_at: null,
-          access_token_expired_at: null,
-          token_updated_at: new Date().toISOString(),
-        })
-        .eq('shop_id', shopId);
+      // Xóa token fields, không xóa shop record (RPC ghi audit log, migration 105)
+      const { error } = await supabase.rpc('disconnect_shop', { p_shop_id: shopId });
 
       if (error) {
         console.error('[SupabaseStorage] Failed to clear token:', error);
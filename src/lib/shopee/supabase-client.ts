@@ -44,11 +44,14 @@ export async function getAuthorizationUrl(
     const functionUrl = `${supabaseUrl}/functions/v1/apishopee-auth`;
     console.log('[Shopee] Calling Edge Function directly:', functionUrl);
 
+    // get-auth-url cần quyền shops:reconnect: gửi JWT của user, anon key bị từ chối (401)
+    const { data: { session } } = await supabase.auth.getSession();
+
     const response = await fetch(functionUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${supabaseAnonKey}`,
+        'Authorization': `Bearer ${session?.access_token ?? supabaseAnonKey}`,
         'apikey': supabaseAnonKey,
         'x-request-id': crypto.randomUUID(),
       },
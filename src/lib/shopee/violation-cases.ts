@@ -0,0 +1,7 @@
+/**
+ * Violation Cases (FE)
+ * Trạng thái / hạn xử lý case vi phạm dùng chung với apishopee-product-webhook và
+ * apishopee-product (supabase/functions/_shared/violation-cases.ts).
+ */
+
+export * from '../../../supabase/functions/_shared/violation-cases.ts';
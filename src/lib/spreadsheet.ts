@@ -0,0 +1,83 @@
+/**
+ * Spreadsheet helpers - CSV (RFC 4180), mở được bằng Excel / Google Sheets.
+ */
+
+export type SheetCell = string | number | null | undefined;
+
+// ==================== CSV ====================
+
+function escapeCsvCell(cell: SheetCell): string {
+  const value = cell === null || cell === undefined ? '' : String(cell);
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** CSV kèm BOM để Excel mở đúng tiếng Việt */
+export function toCsv(rows: SheetCell[][]): string {
+  return '\uFEFF' + rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+}
+
+/** Parse CSV (dấu phẩy hoặc chấm phẩy, ô trong ngoặc kép, xuống dòng trong ô) */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+// ==================== DOWNLOAD ====================
+
+export const CSV_MIME = 'text/csv;charset=utf-8';
+
+export function downloadFile(content: BlobPart, filename: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Đọc file CSV người dùng chọn (file Excel: lưu lại dạng CSV UTF-8 trước khi nhập) */
+export async function readSpreadsheetFile(file: File): Promise<string[][]> {
+  if (!/\.csv$/i.test(file.name)) {
+    throw new Error('Chỉ hỗ trợ file CSV - hãy lưu file dưới dạng CSV UTF-8 rồi nhập lại');
+  }
+  return parseCsv(await file.text());
+}
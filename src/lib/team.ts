@@ -0,0 +1,67 @@
+/**
+ * Team - số liệu trang Nhóm của tôi (get_team_flash_sale_overview, migration 096):
+ * tổng theo nhóm, tỉ lệ thành công và danh sách người nhận bàn giao shop.
+ */
+
+export interface TeamMemberOverview {
+  profile_id: string;
+  full_name: string | null;
+  email: string | null;
+  /** Dòng của chính user đang xem */
+  is_self: boolean;
+  shop_count: number;
+  /** scheduled + retry + pending */
+  scheduled: number;
+  processing: number;
+  succeeded: number;
+  /** error + partial */
+  failed: number;
+  last_run_at: string | null;
+}
+
+export interface TeamTotals {
+  members: number;
+  shops: number;
+  scheduled: number;
+  succeeded: number;
+  failed: number;
+  successRate: number | null;
+}
+
+/** Tỉ lệ thành công (%) trên các job đã chạy xong, null khi chưa có job nào */
+export function successRate(succeeded: number, failed: number): number | null {
+  const done = succeeded + failed;
+  if (done === 0) return null;
+  return Math.round((succeeded / done) * 1000) / 10;
+}
+
+/** Tổng của nhóm - không tính dòng của chính leader */
+export function summarizeTeam(rows: readonly TeamMemberOverview[]): TeamTotals {
+  const members = rows.filter(r => !r.is_self);
+  const sum = (pick: (r: TeamMemberOverview) => number) => members.reduce((acc, r) => acc + pick(r), 0);
+  const succeeded = sum(r => r.succeeded);
+  const failed = sum(r => r.failed);
+
+  return {
+    members: members.length,
+    shops: sum(r => r.shop_count),
+    scheduled: sum(r => r.scheduled),
+    succeeded,
+    failed,
+    successRate: successRate(succeeded, failed),
+  };
+}
+
+/** Người có thể nhận bàn giao từ fromId: mọi người khác trong danh sách, leader đứng đầu */
+export function handoverCandidates(
+  rows: readonly TeamMemberOverview[],
+  fromId: string,
+): TeamMemberOverview[] {
+  return rows
+    .filter(r => r.profile_id !== fromId)
+    .sort((a, b) => Number(b.is_self) - Number(a.is_self));
+}
+
+export function memberLabel(row: Pick<TeamMemberOverview, 'full_name' | 'email' | 'profile_id'>): string {
+  return row.full_name || row.email || row.profile_id.slice(0, 8);
+}
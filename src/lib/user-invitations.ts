@@ -0,0 +1,140 @@
+/**
+ * User Invitations (FE) - dùng chung với admin-invite-user
+ * (supabase/functions/_shared/user-invitations.ts) + đọc file CSV mời hàng loạt.
+ */
+
+import type { SheetCell } from '@/lib/spreadsheet';
+import { isValidEmail, normalizeEmail, type InvitationInput } from '../../supabase/functions/_shared/user-invitations.ts';
+
+export * from '../../supabase/functions/_shared/user-invitations.ts';
+
+// ==================== TYPES ====================
+
+export interface InvitationImportRow extends InvitationInput {
+  line: number;
+}
+
+export interface InvitationImportError {
+  line: number;
+  message: string;
+}
+
+/** Dữ liệu để đổi tên trong file sang id */
+export interface InvitationLookups {
+  shops: Array<{ id: string; shop_id: number; shop_name: string | null }>;
+  customRoles: Array<{ id: string; name: string }>;
+  leaders: Array<{ id: string; email: string }>;
+}
+
+// ==================== TEMPLATE ====================
+
+export const INVITATION_COLUMNS = ['email', 'full_name', 'phone', 'role', 'custom_role', 'shops', 'leader_email'] as const;
+
+/** File mẫu: role = admin | user (trống = user), shops = shop_id hoặc tên shop, cách nhau bởi ";" */
+export function invitationTemplateSheet(): SheetCell[][] {
+  return [
+    [...INVITATION_COLUMNS],
+    ['nhanvien@betacom.vn', 'Nguyễn Văn A', '0901234567', 'user', '', '123456789;Shop ABC', 'leader@betacom.vn'],
+  ];
+}
+
+// ==================== IMPORT ====================
+
+/**
+ * Đọc bảng từ file: cần cột email, các cột còn lại tùy chọn.
+ * Vai trò tùy chỉnh theo tên, shop theo shop_id hoặc tên, leader theo email (không phân biệt hoa thường).
+ */
+export function parseInvitationSheet(
+  table: string[][],
+  lookups: InvitationLookups
+): { rows: InvitationImportRow[]; errors: InvitationImportError[] } {
+  const [header, ...body] = table;
+  if (!header) return { rows: [], errors: [{ line: 1, message: 'File trống' }] };
+
+  const columns = header.map(h => h.trim().toLowerCase());
+  const col = (name: (typeof INVITATION_COLUMNS)[number]) => columns.indexOf(name);
+  if (col('email') < 0) {
+    return { rows: [], errors: [{ line: 1, message: 'Thiếu cột email' }] };
+  }
+
+  const roleByName = new Map(lookups.customRoles.map(r => [r.name.trim().toLowerCase(), r.id]));
+  const leaderByEmail = new Map(lookups.leaders.map(l => [normalizeEmail(l.email), l.id]));
+  const shopByKey = new Map<string, string>();
+  lookups.shops.forEach(s => {
+    shopByKey.set(String(s.shop_id), s.id);
+    if (s.shop_name) shopByKey.set(s.shop_name.trim().toLowerCase(), s.id);
+  });
+
+  const rows: InvitationImportRow[] = [];
+  const errors: InvitationImportError[] = [];
+  const seen = new Set<string>();
+
+  body.forEach((cells, index) => {
+    const line = index + 2;
+    const cell = (name: (typeof INVITATION_COLUMNS)[number]) => {
+      const i = col(name);
+      return i >= 0 ? (cells[i] || '').trim() : '';
+    };
+    if (cells.every(c => c.trim() === '')) return;
+
+    const email = normalizeEmail(cell('email'));
+    if (!isValidEmail(email)) {
+      errors.push({ line, message: `Email không hợp lệ: ${cell('email') || '(trống)'}` });
+      return;
+    }
+    if (seen.has(email)) {
+      errors.push({ line, message: `Trùng email ${email}` });
+      return;
+    }
+
+    const role = cell('role').toLowerCase() || 'user';
+    if (role !== 'admin' && role !== 'user') {
+      errors.push({ line, message: `Vai trò không hợp lệ: ${cell('role')} (admin / user)` });
+      return;
+    }
+
+    let customRoleId: string | null = null;
+    if (cell('custom_role') !== '') {
+      customRoleId = roleByName.get(cell('custom_role').toLowerCase()) ?? null;
+      if (!customRoleId) {
+        errors.push({ line, message: `Không tìm thấy vai trò tùy chỉnh: ${cell('custom_role')}` });
+        return;
+      }
+    }
+
+    const shopIds: string[] = [];
+    const shopKeys = cell('shops').split(/[;|]/).map(s => s.trim()).filter(Boolean);
+    const missingShop = shopKeys.find(key => !shopByKey.has(key.toLowerCase()));
+    if (missingShop) {
+      errors.push({ line, message: `Không tìm thấy shop: ${missingShop}` });
+      return;
+    }
+    shopKeys.forEach(key => {
+      const id = shopByKey.get(key.toLowerCase())!;
+      if (!shopIds.includes(id)) shopIds.push(id);
+    });
+
+    let managerId: string | null = null;
+    if (cell('leader_email') !== '') {
+      managerId = leaderByEmail.get(normalizeEmail(cell('leader_email'))) ?? null;
+      if (!managerId) {
+        errors.push({ line, message: `Không tìm thấy leader: ${cell('leader_email')}` });
+        return;
+      }
+    }
+
+    seen.add(email);
+    rows.push({
+      line,
+      email,
+      full_name: cell('full_name') || null,
+      phone: cell('phone') || null,
+      system_role: role,
+      custom_role_id: role === 'admin' ? null : customRoleId,
+      shop_ids: role === 'admin' ? [] : shopIds,
+      manager_id: role === 'admin' ? null : managerId,
+    });
+  });
+
+  return { rows, errors };
+}
@@ -0,0 +1,142 @@
+/**
+ * Accept Invite Page - Nhận lời mời (link trong email mời, migration 097)
+ * Supabase Auth đăng nhập người được mời qua link; người dùng đặt mật khẩu rồi nhận
+ * vai trò / shop của lời mời (admin-invite-user action accept)
+ */
+
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { acceptInvitation } from '@/hooks/useUserInvitations';
+import { supabase } from '@/lib/supabase';
+import { Spinner } from '@/components/ui/spinner';
+
+const MIN_PASSWORD_LENGTH = 6;
+
+/** Lỗi Supabase gắn vào link khi link mời hết hạn / đã dùng (#error_description=...) */
+function linkError(): string | null {
+  const params = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+  const description = params.get('error_description');
+  return description ? description.replace(/[<>"'&]/g, '') : null;
+}
+
+export default function AcceptInvitePage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Mật khẩu phải có ít nhất ${MIN_PASSWORD_LENGTH} ký tự`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Mật khẩu nhập lại không khớp');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { error: updateError } = await supabase.auth.updateUser({ password });
+      if (updateError) throw updateError;
+
+      await acceptInvitation(token!);
+      // Tải lại toàn bộ để profile / quyền mới được đọc lại
+      window.location.replace('/dashboard');
+    } catch (err) {
+      setError((err as Error).message || 'Không thể nhận lời mời');
+      setIsSubmitting(false);
+    }
+  };
+
+  const invalidReason = !token
+    ? 'Link mời không hợp lệ'
+    : !isLoading && !isAuthenticated
+      ? linkError() || 'Link mời đã hết hạn hoặc đã được sử dụng. Vui lòng liên hệ quản trị viên để được gửi lại.'
+      : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-orange-50 via-white to-red-50 flex items-center justify-center p-4">
+      <div className="relative w-full max-w-md">
+        <div className="text-center mb-8">
+          <img src="/logo_betacom.png" alt="BETACOM" className="w-20 h-20 rounded-2xl shadow-xl shadow-orange-500/30 mb-4 object-contain mx-auto" />
+          <h1 className="text-3xl font-bold text-destructive">BETACOM</h1>
+        </div>
+
+        <div className="bg-card rounded-3xl shadow-xl shadow-slate-200/50 p-8 border border-border">
+          <h2 className="text-xl font-semibold text-foreground mb-2 text-center">Nhận lời mời</h2>
+
+          {isLoading && token ? (
+            <div className="flex items-center justify-center py-8">
+              <Spinner className="h-8 w-8" />
+            </div>
+          ) : invalidReason ? (
+            <div className="space-y-4">
+              <div className="p-3 rounded-xl bg-destructive/10 border border-destructive text-destructive text-sm">
+                {invalidReason}
+              </div>
+              <Link to="/auth" className="block text-center text-sm font-medium text-brand hover:underline">
+                Về trang đăng nhập
+              </Link>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground mb-6 text-center">
+                Đặt mật khẩu cho <span className="font-medium text-foreground">{user?.email}</span>
+              </p>
+
+              {error && (
+                <div className="mb-4 p-3 rounded-xl bg-destructive/10 border border-destructive text-destructive text-sm">
+                  {error}
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-1.5">Mật khẩu</label>
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder={`Tối thiểu ${MIN_PASSWORD_LENGTH} ký tự`}
+                    autoComplete="new-password"
+                    className="w-full px-4 py-3 rounded-xl border border-border focus:border-brand focus:ring-2 focus:ring-brand/20 outline-none transition-all"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-1.5">Nhập lại mật khẩu</label>
+                  <input
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    placeholder="••••••••"
+                    autoComplete="new-password"
+                    className="w-full px-4 py-3 rounded-xl border border-border focus:border-brand focus:ring-2 focus:ring-brand/20 outline-none transition-all"
+                    required
+                  />
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="w-full py-3.5 bg-gradient-to-r from-orange-500 to-red-500 text-white font-semibold rounded-xl hover:from-orange-600 hover:to-red-600 disabled:from-muted disabled:to-muted disabled:cursor-not-allowed transition-all shadow-lg shadow-orange-500/30 hover:shadow-orange-500/40 flex items-center justify-center gap-2"
+                >
+                  {isSubmitting ? <span>Đang xử lý...</span> : <span>Đặt mật khẩu và bắt đầu</span>}
+                </button>
+              </form>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
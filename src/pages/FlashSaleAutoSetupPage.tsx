@@ -17,6 +17,7 @@ import {
   Play,
   AlertCircle,
   Trash2,
+  Repeat,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -54,6 +55,8 @@ import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { useShopeeAuth } from '@/hooks/useShopeeAuth';
 import { useSyncData } from '@/hooks/useSyncData';
+import { excludeRecurringTimeslots } from '@/hooks/useFlashSaleRecurringRules';
+import { RecurringScheduleDialog } from '@/components/dialogs/RecurringScheduleDialog';
 import { supabase } from '@/lib/supabase';
 import { cn } from '@/lib/utils';
 
@@ -111,6 +114,7 @@ interface AutoHistoryRecord {
   slot_end_time: number;
   items_count: number;
   error_message: string | null;
+  recurring_rule_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -199,6 +203,8 @@ export default function FlashSaleAutoSetupPage() {
   const [showBulkDeleteConfirm, setShowBulkDeleteConfirm] = useState(false);
   const [bulkDeleting, setBulkDeleting] = useState(false);
 
+  const [showRecurringDialog, setShowRecurringDialog] = useState(false);
+
   const isAllPageSelected = pagedHistory.length > 0 && pagedHistory.every(r => selectedRecords.has(r.id));
   const isSomeSelected = selectedRecords.size > 0;
 
@@ -252,6 +258,9 @@ export default function FlashSaleAutoSetupPage() {
         if (uniqueFlashSaleIds.length > 1) await new Promise(r => setTimeout(r, 300));
       }
 
+      // Khung giờ sinh từ lịch lặp lại: ghi nhận để worker không lên lịch lại
+      await excludeRecurringTimeslots(recordsToDelete);
+
       // Delete records from database
       const { error } = await supabase
         .from('apishopee_flash_sale_auto_history')
@@ -495,6 +504,8 @@ export default function FlashSaleAutoSetupPage() {
         }
       }
 
+      await excludeRecurringTimeslots([record]);
+
       // Xóa bản ghi trong database
       const { error } = await supabase
         .from('apishopee_flash_sale_auto_history')
@@ -551,6 +562,8 @@ export default function FlashSaleAutoSetupPage() {
         }
       }
 
+      await excludeRecurringTimeslots(history.filter(h => h.status === 'scheduled'));
+
       // Xóa tất cả bản ghi trong database theo shop_id
       const { error } = await supabase
         .from('apishopee_flash_sale_auto_history')
@@ -1031,6 +1044,17 @@ export default function FlashSaleAutoSetupPage() {
                 {/* Spacer */}
                 <div className="flex-1" />
 
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowRecurringDialog(true)}
+                  disabled={!selectedShopId}
+                  className="cursor-pointer"
+                >
+                  <Repeat className="h-3.5 w-3.5 mr-1" />
+                  Lịch lặp lại
+                </Button>
+
                 {/* Bulk actions */}
                 {isSomeSelected && (
                   <Button
@@ -1151,6 +1175,12 @@ export default function FlashSaleAutoSetupPage() {
                           {startTimeStr} {dateStr} – {dateStr === endDateStr ? endTimeStr : `${endTimeStr} ${endDateStr}`}
                         </span>
                         <div className="flex items-center gap-1 shrink-0">
+                          {record.recurring_rule_id && (
+                            <Badge variant="outline" className="flex items-center gap-1 text-[10px] px-1.5 py-0">
+                              <Repeat className="h-3 w-3" />
+                              Lặp lại
+                            </Badge>
+                          )}
                           <Badge variant="outline" className={cn("flex items-center gap-1 text-[10px] px-1.5 py-0", statusConfig.color)}>
                             {statusConfig.icon}
                             {statusConfig.label}
@@ -1261,6 +1291,12 @@ export default function FlashSaleAutoSetupPage() {
                                   ? formatTime(record.slot_end_time)
                                   : `${formatTime(record.slot_end_time)} ${formatDate(record.slot_end_time)}`}
                               </span>
+                              {record.recurring_rule_id && (
+                                <Badge variant="outline" className="flex items-center gap-1 text-[10px] px-1.5 py-0" title="Tạo từ lịch lặp lại">
+                                  <Repeat className="h-3 w-3" />
+                                  Lặp lại
+                                </Badge>
+                              )}
                             </div>
                             <p className="text-sm text-muted-foreground ml-10 truncate">
                               {record.status === 'success' && record.flash_sale_id ? (
@@ -1585,6 +1621,15 @@ export default function FlashSaleAutoSetupPage() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {selectedShopId && (
+        <RecurringScheduleDialog
+          open={showRecurringDialog}
+          onOpenChange={setShowRecurringDialog}
+          shopId={selectedShopId}
+          onChanged={fetchHistory}
+        />
+      )}
     </div>
   );
 }
@@ -17,6 +17,7 @@ import {
   Store,
   AlertCircle,
   Calendar as CalendarIcon,
+  Save,
 } from 'lucide-react';
 import { ImageWithZoom } from '@/components/ui/image-with-zoom';
 import { Button } from '@/components/ui/button';
@@ -32,20 +33,17 @@ import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { useShopeeAuth } from '@/hooks/useShopeeAuth';
 import { useSyncData } from '@/hooks/useSyncData';
+import { fetchTemplateVersion, resolveTemplateForShop, useFlashSaleTemplates } from '@/hooks/useFlashSaleTemplates';
+import { SaveFlashSaleTemplateDialog } from '@/components/dialogs/SaveFlashSaleTemplateDialog';
 import { supabase } from '@/lib/supabase';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 // Badge available for future use
 // import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
+import type { FlashSaleItem as FlashSaleItemPayload, FlashSaleItemInfo, FlashSaleItemModelInfo, TimeSlot } from '@/lib/shopee/flash-sale';
 
 // ==================== INTERFACES ====================
 
-interface TimeSlot {
-  timeslot_id: number;
-  start_time: number;
-  end_time: number;
-}
-
 interface CriteriaData {
   min_discount?: number;
   max_discount?: number;
@@ -72,34 +70,11 @@ const DEFAULT_CRITERIA: CriteriaData = {
   must_not_pre_order: true,
 };
 
-interface FlashSaleItem {
-  item_id: number;
-  item_name?: string;
-  image?: string;
+/** Item từ get_shop_flash_sale_items + các key ảnh thay thế mà getItemImage có fallback */
+type FlashSaleItem = FlashSaleItemInfo & {
   image_url?: string;
   item_image?: string;
-  status: number;
-  purchase_limit: number;
-  campaign_stock?: number;
-  original_price?: number;
-  input_promotion_price?: number;
-  promotion_price_with_tax?: number;
-  stock?: number;
-  models?: FlashSaleModel[];
-}
-
-interface FlashSaleModel {
-  model_id: number;
-  model_name?: string;
-  item_id: number;
-  original_price?: number;
-  input_promotion_price: number;
-  promotion_price_with_tax?: number;
-  campaign_stock: number;
-  stock?: number;
-  purchase_limit?: number;
-  status?: number;
-}
+};
 
 // ==================== HELPERS ====================
 
@@ -178,6 +153,12 @@ export default function FlashSaleCopyPage() {
   // Inline edits: key = "itemId:modelId", value = edited promo price / campaign stock
   const [itemEdits, setItemEdits] = useState<Map<string, { promoPrice?: number; campaignStock?: number }>>(new Map());
 
+  // Template: '' = sao chép danh sách sản phẩm bên dưới
+  const { data: templates = [] } = useFlashSaleTemplates(selectedShopId);
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+  const selectedTemplate = templates.find(t => t.id === selectedTemplateId);
+
   // Fetch data on mount
   useEffect(() => {
     if (selectedShopId && flashSaleId) {
@@ -228,7 +209,7 @@ export default function FlashSaleCopyPage() {
       const modelsList = data?.response?.models || [];
 
       const itemsWithModels = itemInfoList.map((item: FlashSaleItem) => {
-        const itemModels = modelsList.filter((m: FlashSaleModel) => m.item_id === item.item_id);
+        const itemModels = modelsList.filter((m: FlashSaleItemModelInfo) => m.item_id === item.item_id);
         return { ...item, models: itemModels.length > 0 ? itemModels : undefined };
       });
 
@@ -551,10 +532,10 @@ export default function FlashSaleCopyPage() {
 
   // ==================== RUN SETUP ====================
 
-  const prepareItems = () => {
+  const prepareItems = (): FlashSaleItemPayload[] => {
     return templateItems
       .filter(item => !excludedItems.has(item.item_id))
-      .map(item => {
+      .map((item): FlashSaleItemPayload | null => {
         const enabledModels = (item.models?.filter(m => m.status === 1) || [])
           .filter(m => !isModelExcluded(item.item_id, m.model_id));
         const isNonVariantWithModel = enabledModels.length === 1 && enabledModels[0].model_id === 0;
@@ -595,23 +576,44 @@ export default function FlashSaleCopyPage() {
             };
           }),
         };
-      }).filter(item => {
+      }).filter((item): item is FlashSaleItemPayload => {
         if (!item) return false;
         if ('models' in item && item.models) return item.models.length > 0 && item.models.every(m => m.input_promo_price > 0);
-        if ('item_input_promo_price' in item) return item.item_input_promo_price > 0;
+        if ('item_input_promo_price' in item) return (item.item_input_promo_price ?? 0) > 0;
         return false;
       });
   };
 
   const runSetup = async () => {
-    if (selectedSlots.size === 0 || templateItems.length === 0 || !selectedShopId || !user?.id) return;
+    if (selectedSlots.size === 0 || (!selectedTemplate && templateItems.length === 0) || !selectedShopId || !user?.id) return;
 
     setIsRunning(true);
     setProgressResults([]);
     setProgressCurrent(0);
 
     const slotsToProcess = timeSlots.filter(s => selectedSlots.has(s.timeslot_id));
-    const itemsToAdd = prepareItems();
+    // Có template: job chỉ tham chiếu template_id + version, scheduler resolve lúc chạy
+    const templateRef = selectedTemplate
+      ? { template_id: selectedTemplate.id, template_version: selectedTemplate.current_version }
+      : {};
+    let itemsToAdd: FlashSaleItemPayload[] = [];
+    let scheduledItemsCount = 0;
+
+    try {
+      if (!selectedTemplate) {
+        itemsToAdd = prepareItems();
+        scheduledItemsCount = itemsToAdd.length;
+      } else if (leadTimeMinutes > 0) {
+        scheduledItemsCount = (await fetchTemplateVersion(selectedTemplate.id, selectedTemplate.current_version)).items.length;
+      } else {
+        itemsToAdd = (await resolveTemplateForShop(selectedTemplate.id, selectedTemplate.current_version, selectedShopId)).items;
+        if (itemsToAdd.length === 0) throw new Error('Template không có sản phẩm nào khớp với shop');
+      }
+    } catch (err) {
+      setIsRunning(false);
+      toast({ title: 'Lỗi template', description: (err as Error).message, variant: 'destructive' });
+      return;
+    }
 
     if (leadTimeMinutes > 0) {
       // Scheduled mode
@@ -634,8 +636,9 @@ export default function FlashSaleCopyPage() {
             scheduled_at: new Date((slot.start_time - leadTimeMinutes * 60) * 1000).toISOString(),
             slot_start_time: slot.start_time,
             slot_end_time: slot.end_time,
-            items_data: itemsToAdd,
-            items_count: itemsToAdd.length,
+            items_data: selectedTemplate ? null : itemsToAdd,
+            items_count: scheduledItemsCount,
+            ...templateRef,
           });
 
         setProgressResults(prev => [...prev, {
@@ -672,6 +675,7 @@ export default function FlashSaleCopyPage() {
           slot_start_time: slot.start_time,
           slot_end_time: slot.end_time,
           items_count: itemsToAdd.length,
+          ...templateRef,
         })
         .select()
         .single();
@@ -831,6 +835,38 @@ export default function FlashSaleCopyPage() {
                   </Select>
                 </div>
 
+                {/* Template */}
+                <div className="space-y-1 md:col-span-2">
+                  <Label className="text-muted-foreground text-xs">Template sản phẩm</Label>
+                  <div className="flex items-center gap-2">
+                    <Select value={selectedTemplateId || 'none'} onValueChange={v => setSelectedTemplateId(v === 'none' ? '' : v)}>
+                      <SelectTrigger className="h-9 flex-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Không dùng - sao chép danh sách bên dưới</SelectItem>
+                        {templates.map(t => (
+                          <SelectItem key={t.id} value={t.id}>{t.name} · v{t.current_version}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline" size="sm"
+                      onClick={() => setShowSaveTemplate(true)}
+                      disabled={activeItemCount === 0 || loadingTemplate}
+                      className="cursor-pointer text-xs h-9"
+                    >
+                      <Save className="h-3.5 w-3.5 mr-1" />
+                      Lưu thành template
+                    </Button>
+                  </div>
+                  {selectedTemplate && (
+                    <p className="text-xs text-muted-foreground">
+                      Lên lịch theo template {selectedTemplate.name} (version {selectedTemplate.current_version}) - giá và tồn kho được tính lại theo sản phẩm của shop khi chạy.
+                    </p>
+                  )}
+                </div>
+
                 {/* Khung giờ */}
                 <div className="space-y-1 md:col-span-2">
                   <Label className="text-muted-foreground text-xs">Khung giờ <span className="text-destructive">*</span></Label>
@@ -1037,6 +1073,16 @@ export default function FlashSaleCopyPage() {
         </div>
       </div>
 
+      <SaveFlashSaleTemplateDialog
+        open={showSaveTemplate}
+        onOpenChange={setShowSaveTemplate}
+        sourceShopId={selectedShopId}
+        shops={shops}
+        items={showSaveTemplate ? prepareItems() : []}
+        templates={templates}
+        onSaved={templateId => setSelectedTemplateId(templateId)}
+      />
+
       {/* Sticky Footer */}
       <div className="flex-shrink-0 border-t bg-card px-6 py-3 flex items-center justify-between">
         <Button variant="outline" onClick={() => navigate('/flash-sale')} disabled={isRunning} className="cursor-pointer">
@@ -1044,7 +1090,7 @@ export default function FlashSaleCopyPage() {
         </Button>
         <Button
           onClick={runSetup}
-          disabled={selectedSlots.size === 0 || activeItemCount === 0 || isRunning}
+          disabled={selectedSlots.size === 0 || (!selectedTemplate && activeItemCount === 0) || isRunning}
           className="bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 cursor-pointer"
         >
           {isRunning ? (
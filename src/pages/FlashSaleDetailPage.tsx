@@ -7,6 +7,7 @@ import { useEffect, useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useShopeeAuth } from '@/hooks/useShopeeAuth';
 import { FlashSaleDetailPanel } from '@/components/panels/FlashSaleDetailPanel';
+import { FlashSalePerformancePanel } from '@/components/panels/FlashSalePerformancePanel';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Spinner } from '@/components/ui/spinner';
 import { AlertCircle, Store } from 'lucide-react';
@@ -106,12 +107,15 @@ export default function FlashSaleDetailPage() {
   return (
     <div className="space-y-6">
       {selectedShopId ? (
-        <FlashSaleDetailPanel
-          key={`${selectedShopId}-${flashSaleId}`}
-          shopId={selectedShopId}
-          flashSale={flashSale}
-          onBack={handleBack}
-        />
+        <>
+          <FlashSalePerformancePanel shopId={selectedShopId} flashSale={flashSale} />
+          <FlashSaleDetailPanel
+            key={`${selectedShopId}-${flashSaleId}`}
+            shopId={selectedShopId}
+            flashSale={flashSale}
+            onBack={handleBack}
+          />
+        </>
       ) : (
         <Alert>
           <Store className="h-4 w-4" />
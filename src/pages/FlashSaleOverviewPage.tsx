@@ -1,14 +1,26 @@
 /**
  * Flash Sale Overview Page - Admin only
- * Xem tổng quan Flash Sale của tất cả shop
+ * Xem tổng quan Flash Sale của tất cả shop và bảng xếp hạng kết quả các khung
  */
 
+import { useState } from 'react';
+import { Layers, Trophy } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { AllShopsFlashSalePanel } from '@/components/panels/AllShopsFlashSalePanel';
+import { FlashSaleLeaderboardPanel } from '@/components/panels/FlashSaleLeaderboardPanel';
 import { Spinner } from '@/components/ui/spinner';
+import { cn } from '@/lib/utils';
+
+type OverviewTab = 'flash-sales' | 'leaderboard';
+
+const OVERVIEW_TABS: { key: OverviewTab; label: string; icon: typeof Layers }[] = [
+  { key: 'flash-sales', label: 'Tất cả Flash Sale', icon: Layers },
+  { key: 'leaderboard', label: 'Xếp hạng kết quả', icon: Trophy },
+];
 
 export default function FlashSaleOverviewPage() {
   const { user, isLoading } = useAuth();
+  const [activeTab, setActiveTab] = useState<OverviewTab>('flash-sales');
 
   if (isLoading) {
     return (
@@ -22,5 +34,37 @@ export default function FlashSaleOverviewPage() {
     return null;
   }
 
-  return <AllShopsFlashSalePanel userId={user.id} />;
+  return (
+    <div className="flex flex-col h-full">
+      {/* Tab Navigation */}
+      <div className="flex-shrink-0 bg-card border-b px-4">
+        <div className="flex items-center gap-1">
+          {OVERVIEW_TABS.map(tab => {
+            const TabIcon = tab.icon;
+            return (
+              <button
+                key={tab.key}
+                onClick={() => setActiveTab(tab.key)}
+                className={cn(
+                  'flex items-center gap-2 px-4 py-3 text-sm font-medium border-b-2 -mb-px transition-colors cursor-pointer',
+                  activeTab === tab.key
+                    ? 'border-brand text-brand'
+                    : 'border-transparent text-muted-foreground hover:text-foreground hover:border-border'
+                )}
+              >
+                <TabIcon className="w-4 h-4" />
+                {tab.label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Tab Content */}
+      <div className="flex-1 overflow-hidden">
+        {activeTab === 'flash-sales' && <AllShopsFlashSalePanel userId={user.id} />}
+        {activeTab === 'leaderboard' && <FlashSaleLeaderboardPanel />}
+      </div>
+    </div>
+  );
 }
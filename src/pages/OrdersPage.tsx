@@ -0,0 +1,97 @@
+/**
+ * Orders Page - Trang đơn hàng Shopee
+ * Bao gồm: Danh sách đơn hàng (đồng bộ qua worker) và Doanh thu theo khung Flash Sale
+ */
+
+import { useState } from 'react';
+import { useShopeeAuth } from '@/hooks/useShopeeAuth';
+import { OrdersPanel } from '@/components/panels/OrdersPanel';
+import { FlashSaleRevenuePanel } from '@/components/panels/FlashSaleRevenuePanel';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Spinner } from '@/components/ui/spinner';
+import { AlertCircle, Store, ShoppingCart, Zap } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+type OrderTab = 'orders' | 'flash-sale-revenue';
+
+const ORDER_TABS: { key: OrderTab; label: string; icon: typeof ShoppingCart }[] = [
+  { key: 'orders', label: 'Danh sách đơn hàng', icon: ShoppingCart },
+  { key: 'flash-sale-revenue', label: 'Doanh thu Flash Sale', icon: Zap },
+];
+
+export default function OrdersPage() {
+  const { shops, selectedShopId, isLoading } = useShopeeAuth();
+  const [activeTab, setActiveTab] = useState<OrderTab>('orders');
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Spinner className="h-8 w-8" />
+      </div>
+    );
+  }
+
+  if (shops.length === 0) {
+    return (
+      <Alert>
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>
+          Bạn chưa kết nối shop nào. Vui lòng vào{' '}
+          <a href="/settings/shops" className="text-brand hover:underline font-medium">
+            Cài đặt → Quản lý Shop
+          </a>{' '}
+          để kết nối shop Shopee.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Tab Navigation */}
+      <div className="flex-shrink-0 bg-card border-b px-4">
+        <div className="flex items-center gap-1">
+          {ORDER_TABS.map(tab => {
+            const TabIcon = tab.icon;
+            return (
+              <button
+                key={tab.key}
+                onClick={() => setActiveTab(tab.key)}
+                className={cn(
+                  'flex items-center gap-2 px-4 py-3 text-sm font-medium border-b-2 -mb-px transition-colors cursor-pointer',
+                  activeTab === tab.key
+                    ? 'border-brand text-brand'
+                    : 'border-transparent text-muted-foreground hover:text-foreground hover:border-border'
+                )}
+              >
+                <TabIcon className="w-4 h-4" />
+                {tab.label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Tab Content */}
+      <div className="flex-1 overflow-hidden">
+        {selectedShopId ? (
+          <>
+            {activeTab === 'orders' && <OrdersPanel key={`orders-${selectedShopId}`} shopId={selectedShopId} />}
+            {activeTab === 'flash-sale-revenue' && (
+              <FlashSaleRevenuePanel key={`fs-revenue-${selectedShopId}`} shopId={selectedShopId} />
+            )}
+          </>
+        ) : (
+          <div className="p-6">
+            <Alert>
+              <Store className="h-4 w-4" />
+              <AlertDescription>
+                Vui lòng chọn shop để xem đơn hàng.
+              </AlertDescription>
+            </Alert>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,30 +1,40 @@
 /**
  * Products Page - Trang quản lý sản phẩm Shopee
- * Bao gồm: Danh sách sản phẩm và Lịch sử thay đổi
+ * Bao gồm: Danh sách sản phẩm, Lịch sử thay đổi, Vi phạm và Danh mục chung (ghép SKU nhiều shop)
+ * Mở thẳng 1 tab qua ?tab=<key> (vd. /products?tab=violations từ Hiệu quả bán hàng)
  */
 
 import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { useShopeeAuth } from '@/hooks/useShopeeAuth';
 import { ProductsPanel } from '@/components/panels/ProductsPanel';
 import { ProductHistoryPanel } from '@/components/panels/ProductHistoryPanel';
+import { ProductCatalogPanel } from '@/components/panels/ProductCatalogPanel';
+import { ViolationCasesPanel } from '@/components/panels/ViolationCasesPanel';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Spinner } from '@/components/ui/spinner';
-import { AlertCircle, Store, Package, History } from 'lucide-react';
+import { AlertCircle, Store, Package, History, Layers, ShieldAlert } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 // Tab types
-type ProductTab = 'products' | 'history';
+type ProductTab = 'products' | 'history' | 'violations' | 'catalog';
 
 const PRODUCT_TABS: { key: ProductTab; label: string; icon: typeof Package }[] = [
   { key: 'products', label: 'Danh sách sản phẩm', icon: Package },
   { key: 'history', label: 'Lịch sử thay đổi', icon: History },
+  { key: 'violations', label: 'Vi phạm', icon: ShieldAlert },
+  { key: 'catalog', label: 'Danh mục chung', icon: Layers },
 ];
 
 export default function ProductsPage() {
   const { user } = useAuth();
   const { shops, selectedShopId, isLoading } = useShopeeAuth();
-  const [activeTab, setActiveTab] = useState<ProductTab>('products');
+  const [searchParams] = useSearchParams();
+  const [activeTab, setActiveTab] = useState<ProductTab>(() => {
+    const tab = searchParams.get('tab');
+    return PRODUCT_TABS.some(t => t.key === tab) ? tab as ProductTab : 'products';
+  });
 
   if (isLoading) {
     return (
@@ -77,7 +87,10 @@ export default function ProductsPage() {
 
       {/* Tab Content */}
       <div className="flex-1 overflow-hidden">
-        {selectedShopId && user?.id ? (
+        {/* Danh mục chung không phụ thuộc shop đang chọn */}
+        {activeTab === 'catalog' && user?.id ? (
+          <ProductCatalogPanel userId={user.id} shops={shops} />
+        ) : selectedShopId && user?.id ? (
           <>
             {activeTab === 'products' && (
               <ProductsPanel key={`products-${selectedShopId}`} shopId={selectedShopId} userId={user.id} />
@@ -85,6 +98,9 @@ export default function ProductsPage() {
             {activeTab === 'history' && (
               <ProductHistoryPanel key={`history-${selectedShopId}`} shopId={selectedShopId} userId={user.id} />
             )}
+            {activeTab === 'violations' && (
+              <ViolationCasesPanel key={`violations-${selectedShopId}`} shopId={selectedShopId} userId={user.id} />
+            )}
           </>
         ) : (
           <div className="p-6">
@@ -0,0 +1,78 @@
+/**
+ * Team Page - Nhóm của tôi (leader / admin)
+ * Bao gồm: Flash Sale theo thành viên + bàn giao shop, API logs và hoạt động của các shop trong nhóm
+ * (dữ liệu đã được giới hạn theo nhóm bởi RLS / RPC, migration 096)
+ */
+
+import { useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Activity, FileText, Users } from 'lucide-react';
+import { usePermissionsContext } from '@/contexts/PermissionsContext';
+import { TeamOverviewPanel } from '@/components/panels/TeamOverviewPanel';
+import { ApiCallLogsPanel } from '@/components/panels/ApiCallLogsPanel';
+import { ActivityTab } from '@/components/panels/monitoring/activity-tab';
+import { Spinner } from '@/components/ui/spinner';
+import { cn } from '@/lib/utils';
+
+type TeamTab = 'overview' | 'api-logs' | 'activity';
+
+const TEAM_TABS: { key: TeamTab; label: string; icon: typeof Users }[] = [
+  { key: 'overview', label: 'Thành viên', icon: Users },
+  { key: 'api-logs', label: 'API Logs', icon: FileText },
+  { key: 'activity', label: 'Hoạt động', icon: Activity },
+];
+
+export default function TeamPage() {
+  const { isAdmin, isLeader, isLoading } = usePermissionsContext();
+  const [activeTab, setActiveTab] = useState<TeamTab>('overview');
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Spinner className="h-8 w-8" />
+      </div>
+    );
+  }
+
+  if (!isAdmin && !isLeader) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Nhóm của tôi</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          {isAdmin ? 'Toàn bộ người dùng và shop' : 'Bạn và các thành viên bạn quản lý'}
+        </p>
+      </div>
+
+      <div className="border-b">
+        <div className="flex items-center gap-1">
+          {TEAM_TABS.map(tab => {
+            const TabIcon = tab.icon;
+            return (
+              <button
+                key={tab.key}
+                onClick={() => setActiveTab(tab.key)}
+                className={cn(
+                  'flex items-center gap-2 px-4 py-3 text-sm font-medium border-b-2 -mb-px transition-colors cursor-pointer',
+                  activeTab === tab.key
+                    ? 'border-brand text-brand'
+                    : 'border-transparent text-muted-foreground hover:text-foreground hover:border-border'
+                )}
+              >
+                <TabIcon className="w-4 h-4" />
+                {tab.label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {activeTab === 'overview' && <TeamOverviewPanel />}
+      {activeTab === 'api-logs' && <ApiCallLogsPanel />}
+      {activeTab === 'activity' && <ActivityTab />}
+    </div>
+  );
+}
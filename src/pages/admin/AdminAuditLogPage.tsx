@@ -0,0 +1,15 @@
+import { AdminAuditLogPanel } from '@/components/panels/AdminAuditLogPanel';
+
+export default function AdminAuditLogPage() {
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Nhật ký thay đổi</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Thay đổi thành viên shop, vai trò, quyền người dùng, partner app và kết nối shop
+        </p>
+      </div>
+      <AdminAuditLogPanel />
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import { CustomRolesPanel } from '@/components/panels/CustomRolesPanel';
+
+export default function CustomRolesPage() {
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Vai trò & quyền</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Vai trò tùy chỉnh với quyền theo từng thao tác, gán cho người dùng trong Quản lý người dùng
+        </p>
+      </div>
+      <CustomRolesPanel />
+    </div>
+  );
+}
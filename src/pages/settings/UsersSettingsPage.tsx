@@ -4,7 +4,9 @@
  * Features:
  * - Tab "Nhân sự": Bảng user + gán shop nhanh inline + bulk assign
  * - Tab "Tổng quan": Bảng ma trận shop × user
+ * - Tab "Lời mời": Mời người dùng qua email / CSV (migration 097)
  * - Dialog phân quyền cải thiện
+ * - Vô hiệu hóa người dùng: gỡ shop, vai trò, phiên đăng nhập trong 1 lần (admin_deprovision_user)
  */
 
 import { useState, useEffect, useMemo, useCallback } from 'react';
@@ -32,13 +34,16 @@ import { SimpleDataTable, CellText, CellActions } from '@/components/ui/data-tab
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { toast } from 'sonner';
 import {
-  Plus, UserPlus, Mail, User, Phone, Shield, RefreshCw, Trash2,
+  Plus, Mail, User, Shield, RefreshCw, Trash2,
   Store, Search, Save, X, Check, Users, Grid3X3,
 } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { getFeaturePermissions } from '@/config/menu-config';
 import { AppRole } from '@/hooks/usePermissions';
+import { fetchUserCustomRoleId, useCustomRoles } from '@/hooks/useCustomRoles';
+import { useDeprovisionUser } from '@/hooks/useUserInvitations';
+import { UserInvitationsPanel } from '@/components/panels/UserInvitationsPanel';
 
 const ALL_FEATURES = getFeaturePermissions();
 
@@ -65,11 +70,6 @@ interface UserProfile {
   leaderName?: string | null;
 }
 
-const SYSTEM_ROLES = [
-  { value: 'admin', label: 'Quản trị viên', description: 'Toàn quyền quản lý hệ thống' },
-  { value: 'user', label: 'Người dùng', description: 'Quyền sử dụng cơ bản' },
-];
-
 const ROLE_LABELS: Record<AppRole, string> = {
   super_admin: 'Super Admin',
   admin: 'Quản trị viên',
@@ -89,14 +89,13 @@ export default function UsersSettingsPage() {
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [allShopsList, setAllShopsList] = useState<ShopInfo[]>([]);
   const [loading, setLoading] = useState(true);
-  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
-  const [creating, setCreating] = useState(false);
   const [activeTab, setActiveTab] = useState('users');
 
   // Permission dialog state
   const [isPermissionDialogOpen, setIsPermissionDialogOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<UserProfile | null>(null);
   const [savingPermissions, setSavingPermissions] = useState(false);
+  const [permissionReason, setPermissionReason] = useState('');
 
   // Shop permission state
   const [allShops, setAllShops] = useState<ShopInfo[]>([]);
@@ -110,6 +109,11 @@ export default function UsersSettingsPage() {
   const [featureAdds, setFeatureAdds] = useState<string[]>([]);
   const [featureRemoves, setFeatureRemoves] = useState<string[]>([]);
 
+  // Vai trò tùy chỉnh (migration 095): 'none' = quyền mặc định theo chức vụ
+  const { data: customRoles = [] } = useCustomRoles();
+  const [customRoleId, setCustomRoleId] = useState('none');
+  const [initialCustomRoleId, setInitialCustomRoleId] = useState('none');
+
   // Filter state
   const [searchQuery, setSearchQuery] = useState('');
   const [filterRole, setFilterRole] = useState<string>('all');
@@ -122,20 +126,17 @@ export default function UsersSettingsPage() {
   const [bulkShopIds, setBulkShopIds] = useState<string[]>([]);
   const [bulkSearchQuery, setBulkSearchQuery] = useState('');
   const [savingBulk, setSavingBulk] = useState(false);
+  const [bulkReason, setBulkReason] = useState('');
 
   // Inline shop popover
   const [_inlinePopoverUserId, _setInlinePopoverUserId] = useState<string | null>(null);
   const [inlineShopSearch, _setInlineShopSearch] = useState('');
   const [_savingInline, setSavingInline] = useState(false);
 
-  // Form state
-  const [formData, setFormData] = useState({
-    email: '',
-    password: '',
-    fullName: '',
-    phone: '',
-    systemRole: 'user' as 'admin' | 'user',
-  });
+  // Deprovision dialog state
+  const deprovisionUser = useDeprovisionUser();
+  const [deprovisioning, setDeprovisioning] = useState<UserProfile | null>(null);
+  const [deprovisionReason, setDeprovisionReason] = useState('');
 
   // Overview tab state
   const [overviewSearch, setOverviewSearch] = useState('');
@@ -270,77 +271,22 @@ export default function UsersSettingsPage() {
     fetchUsers();
   }, []);
 
-  const handleCreateUser = async () => {
-    if (!formData.email || !formData.password) {
-      toast.error('Vui lòng nhập email và mật khẩu');
-      return;
-    }
-
-    if (formData.password.length < 6) {
-      toast.error('Mật khẩu phải có ít nhất 6 ký tự');
-      return;
-    }
-
-    setCreating(true);
-    try {
-      const { data: { session } } = await supabase.auth.getSession();
-
-      if (session && session.expires_at && (session.expires_at * 1000 - Date.now()) < 60000) {
-        const { error: refreshError } = await supabase.auth.refreshSession();
-        if (refreshError) {
-          throw new Error('Không thể refresh session. Vui lòng đăng nhập lại.');
-        }
-      }
-
-      const { data, error } = await supabase.functions.invoke('admin-create-user', {
-        body: {
-          email: formData.email,
-          password: formData.password,
-          fullName: formData.fullName,
-          phone: formData.phone,
-          systemRole: formData.systemRole,
-        },
-      });
-
-      if (error) throw new Error(error.message || 'Không thể tạo tài khoản');
-      if (data?.error) throw new Error(data.error);
-
-      const newUser: UserProfile = {
-        id: data.user.id,
-        email: formData.email,
-        full_name: formData.fullName || null,
-        phone: formData.phone || null,
-        system_role: formData.systemRole,
-        join_date: null,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      };
-      setUsers(prev => [newUser, ...prev]);
-
-      toast.success('Tạo tài khoản thành công');
-      setIsCreateDialogOpen(false);
-      setFormData({ email: '', password: '', fullName: '', phone: '', systemRole: 'user' });
-    } catch (error) {
-      console.error('Error creating user:', error);
-      toast.error(error instanceof Error ? error.message : 'Không thể tạo tài khoản');
-    } finally {
-      setCreating(false);
-    }
-  };
-
   // Open permission dialog
   const openPermissionDialog = async (user: UserProfile) => {
     setSelectedUser(user);
     setIsPermissionDialogOpen(true);
     setShopSearchQuery('');
+    setPermissionReason('');
     setLoadingPermissionData(true);
     setUserAppRole(null);
     setUserRoleFeatures([]);
     setFeatureAdds([]);
     setFeatureRemoves([]);
+    setCustomRoleId('none');
+    setInitialCustomRoleId('none');
 
     try {
-      const [shopsRes, memberRes, permRes] = await Promise.all([
+      const [shopsRes, memberRes, permRes, assignedRoleId] = await Promise.all([
         supabase
           .from('apishopee_shops')
           .select('id, shop_id, shop_name, shop_logo')
@@ -352,6 +298,7 @@ export default function UsersSettingsPage() {
           .eq('profile_id', user.id)
           .eq('is_active', true),
         supabase.rpc('get_shopee_app_permissions', { p_user_id: user.id }),
+        fetchUserCustomRoleId(user.id),
       ]);
 
       if (shopsRes.error) throw shopsRes.error;
@@ -359,6 +306,8 @@ export default function UsersSettingsPage() {
 
       setAllShops(shopsRes.data || []);
       setSelectedShopIds((memberRes.data || []).map(m => m.shop_id));
+      setCustomRoleId(assignedRoleId ?? 'none');
+      setInitialCustomRoleId(assignedRoleId ?? 'none');
 
       if (permRes.data?.role) {
         setUserAppRole(permRes.data.role as AppRole);
@@ -398,48 +347,6 @@ export default function UsersSettingsPage() {
 
     setSavingPermissions(true);
     try {
-      const { data: rolesData } = await supabase
-        .from('apishopee_roles')
-        .select('id')
-        .eq('name', 'member')
-        .single();
-
-      const memberRoleId = rolesData?.id;
-
-      const { data: currentMembers } = await supabase
-        .from('apishopee_shop_members')
-        .select('id, shop_id')
-        .eq('profile_id', selectedUser.id)
-        .eq('is_active', true);
-
-      const currentShopIds = (currentMembers || []).map(m => m.shop_id);
-
-      const shopsToAdd = selectedShopIds.filter(id => !currentShopIds.includes(id));
-      const memberIdsToDelete = (currentMembers || [])
-        .filter(m => !selectedShopIds.includes(m.shop_id))
-        .map(m => m.id);
-
-      if (shopsToAdd.length > 0 && memberRoleId) {
-        const insertData = shopsToAdd.map(shopId => ({
-          shop_id: shopId,
-          profile_id: selectedUser.id,
-          role_id: memberRoleId,
-          is_active: true,
-        }));
-        const { error: insertError } = await supabase
-          .from('apishopee_shop_members')
-          .insert(insertData);
-        if (insertError) throw insertError;
-      }
-
-      if (memberIdsToDelete.length > 0) {
-        const { error: deleteError } = await supabase
-          .from('apishopee_shop_members')
-          .delete()
-          .in('id', memberIdsToDelete);
-        if (deleteError) throw deleteError;
-      }
-
       const hasOverrides = featureAdds.length > 0 || featureRemoves.length > 0;
       const permissions = hasOverrides
         ? {
@@ -450,12 +357,23 @@ export default function UsersSettingsPage() {
           }
         : null;
 
-      const { error: permError } = await supabase
-        .from('sys_profiles')
-        .update({ permissions })
-        .eq('id', selectedUser.id);
+      // RPC ghi audit log (ai đổi, trước / sau, lý do) cho cả shop lẫn quyền chức năng
+      const { error } = await supabase.rpc('admin_set_user_access', {
+        p_profile_id: selectedUser.id,
+        p_shop_ids: selectedShopIds,
+        p_permissions: permissions,
+        p_reason: permissionReason.trim() || null,
+      });
+      if (error) throw error;
 
-      if (permError) throw permError;
+      if (customRoleId !== initialCustomRoleId) {
+        const { error: roleError } = await supabase.rpc('admin_set_user_custom_role', {
+          p_profile_id: selectedUser.id,
+          p_role_id: customRoleId === 'none' ? null : customRoleId,
+          p_reason: permissionReason.trim() || null,
+        });
+        if (roleError) throw roleError;
+      }
 
       const updatedShops = allShops.filter(s => selectedShopIds.includes(s.id));
       setUsers(prev => prev.map(u =>
@@ -505,11 +423,10 @@ export default function UsersSettingsPage() {
     try {
       if (isCurrentlyAssigned) {
         // Remove assignment
-        const { error } = await supabase
-          .from('apishopee_shop_members')
-          .delete()
-          .eq('profile_id', userId)
-          .eq('shop_id', shopId);
+        const { error } = await supabase.rpc('admin_remove_shop_members', {
+          p_shop_id: shopId,
+          p_profile_ids: [userId],
+        });
         if (error) throw error;
 
         setUsers(prev => prev.map(u =>
@@ -523,23 +440,11 @@ export default function UsersSettingsPage() {
         ));
         toast.success('Đã bỏ gán shop');
       } else {
-        // Add assignment
-        const { data: rolesData } = await supabase
-          .from('apishopee_roles')
-          .select('id')
-          .eq('name', 'member')
-          .single();
-
-        if (!rolesData?.id) throw new Error('Không tìm thấy role member');
-
-        const { error } = await supabase
-          .from('apishopee_shop_members')
-          .insert({
-            shop_id: shopId,
-            profile_id: userId,
-            role_id: rolesData.id,
-            is_active: true,
-          });
+        // Add assignment (role member)
+        const { error } = await supabase.rpc('admin_assign_shop_members', {
+          p_profile_ids: [userId],
+          p_shop_ids: [shopId],
+        });
         if (error) throw error;
 
         const shop = allShopsList.find(s => s.id === shopId);
@@ -573,46 +478,13 @@ export default function UsersSettingsPage() {
 
     setSavingBulk(true);
     try {
-      const { data: rolesData } = await supabase
-        .from('apishopee_roles')
-        .select('id')
-        .eq('name', 'member')
-        .single();
-
-      if (!rolesData?.id) throw new Error('Không tìm thấy role member');
-
-      // Get existing assignments to avoid duplicates
-      const { data: existing } = await supabase
-        .from('apishopee_shop_members')
-        .select('profile_id, shop_id')
-        .eq('is_active', true)
-        .in('profile_id', selectedUserIds)
-        .in('shop_id', bulkShopIds);
-
-      const existingSet = new Set(
-        (existing || []).map(e => `${e.profile_id}:${e.shop_id}`)
-      );
-
-      const insertData: { shop_id: string; profile_id: string; role_id: string; is_active: boolean }[] = [];
-      selectedUserIds.forEach(userId => {
-        bulkShopIds.forEach(shopId => {
-          if (!existingSet.has(`${userId}:${shopId}`)) {
-            insertData.push({
-              shop_id: shopId,
-              profile_id: userId,
-              role_id: rolesData.id,
-              is_active: true,
-            });
-          }
-        });
+      // Shop đã gán sẵn được bỏ qua trong RPC
+      const { error } = await supabase.rpc('admin_assign_shop_members', {
+        p_profile_ids: selectedUserIds,
+        p_shop_ids: bulkShopIds,
+        p_reason: bulkReason.trim() || null,
       });
-
-      if (insertData.length > 0) {
-        const { error } = await supabase
-          .from('apishopee_shop_members')
-          .insert(insertData);
-        if (error) throw error;
-      }
+      if (error) throw error;
 
       // Update local state
       const newShops = allShopsList.filter(s => bulkShopIds.includes(s.id));
@@ -642,6 +514,24 @@ export default function UsersSettingsPage() {
     }
   };
 
+  const handleDeprovision = async () => {
+    if (!deprovisioning) return;
+    try {
+      const result = await deprovisionUser.mutateAsync({
+        profileId: deprovisioning.id,
+        reason: deprovisionReason.trim() || null,
+      });
+      setUsers(prev => prev.filter(u => u.id !== deprovisioning.id));
+      setSelectedUserIds(prev => prev.filter(id => id !== deprovisioning.id));
+      toast.success(
+        `Đã vô hiệu hóa ${deprovisioning.full_name || deprovisioning.email}: gỡ ${result.memberships_removed} shop, thu hồi ${result.sessions_revoked} phiên đăng nhập, hủy ${result.flash_sale_jobs_cancelled} lịch Flash Sale, tạm dừng ${result.recurring_rules_paused} lịch lặp`
+      );
+      setDeprovisioning(null);
+    } catch (error) {
+      toast.error((error as Error).message || 'Không thể vô hiệu hóa người dùng');
+    }
+  };
+
   // Toggle user selection for bulk
   const _toggleUserSelection = (userId: string) => {
     setSelectedUserIds(prev =>
@@ -730,6 +620,9 @@ export default function UsersSettingsPage() {
     );
   }, [allShopsList, bulkSearchQuery]);
 
+  // Leader có thể chọn khi mời người dùng
+  const leaderProfiles = useMemo(() => users.filter(u => u.appRole === 'leader'), [users]);
+
   // Overview data — show all non-admin users (member, leader, null role)
   const overviewUsers = useMemo(() => {
     return users.filter(u => u.appRole !== 'admin' && u.appRole !== 'super_admin');
@@ -847,9 +740,10 @@ export default function UsersSettingsPage() {
             size="sm"
             className="text-destructive hover:text-destructive hover:bg-destructive/10 h-7 w-7 p-0"
             onClick={() => {
-              toast.info('Chức năng đang phát triển');
+              setDeprovisioning(user);
+              setDeprovisionReason('');
             }}
-            title="Xóa người dùng"
+            title="Vô hiệu hóa người dùng"
             disabled={user.id === currentUser?.id}
           >
             <Trash2 className="w-4 h-4" />
@@ -882,6 +776,10 @@ export default function UsersSettingsPage() {
                 <Grid3X3 className="w-4 h-4" />
                 Tổng quan
               </TabsTrigger>
+              <TabsTrigger value="invitations" className="gap-1.5 cursor-pointer">
+                <Mail className="w-4 h-4" />
+                Lời mời
+              </TabsTrigger>
             </TabsList>
 
             {/* Bulk actions bar */}
@@ -902,6 +800,7 @@ export default function UsersSettingsPage() {
                   onClick={() => {
                     setBulkShopIds([]);
                     setBulkSearchQuery('');
+                    setBulkReason('');
                     setIsBulkAssignOpen(true);
                   }}
                 >
@@ -1010,7 +909,7 @@ export default function UsersSettingsPage() {
                   loading={loading}
                   loadingMessage="Đang tải danh sách người dùng..."
                   emptyMessage={activeFilterCount > 0 ? 'Không tìm thấy người dùng phù hợp' : 'Chưa có người dùng nào'}
-                  emptyDescription={activeFilterCount > 0 ? 'Thử thay đổi bộ lọc để xem kết quả khác' : 'Tạo tài khoản mới để bắt đầu'}
+                  emptyDescription={activeFilterCount > 0 ? 'Thử thay đổi bộ lọc để xem kết quả khác' : 'Mời người dùng ở tab Lời mời để bắt đầu'}
                 />
               </div>
               {!loading && users.length > 0 && (
@@ -1128,136 +1027,19 @@ export default function UsersSettingsPage() {
               )}
             </div>
           </TabsContent>
+
+          {/* Tab: Lời mời */}
+          <TabsContent value="invitations">
+            <UserInvitationsPanel
+              shops={allShopsList}
+              leaders={leaderProfiles}
+              customRoles={customRoles}
+              departmentId={SHOPEE_DEPT_ID}
+            />
+          </TabsContent>
         </Tabs>
       </div>
 
-      {/* Create User Dialog */}
-      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-        <DialogContent className="sm:max-w-md">
-          <DialogHeader>
-            <DialogTitle className="flex items-center gap-2">
-              <UserPlus className="w-5 h-5 text-brand" />
-              Tạo tài khoản mới
-            </DialogTitle>
-            <DialogDescription>
-              Nhập thông tin để tạo tài khoản cho người dùng mới
-            </DialogDescription>
-          </DialogHeader>
-
-          <div className="space-y-4 py-4">
-            <div className="space-y-2">
-              <Label htmlFor="email" className="flex items-center gap-2">
-                <Mail className="w-4 h-4 text-muted-foreground" />
-                Email <span className="text-destructive">*</span>
-              </Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="user@example.com"
-                value={formData.email}
-                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="password" className="flex items-center gap-2">
-                <svg className="w-4 h-4 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
-                </svg>
-                Mật khẩu <span className="text-destructive">*</span>
-              </Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder="Tối thiểu 6 ký tự"
-                value={formData.password}
-                onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="fullName" className="flex items-center gap-2">
-                <User className="w-4 h-4 text-muted-foreground" />
-                Họ và tên
-              </Label>
-              <Input
-                id="fullName"
-                placeholder="Nguyễn Văn A"
-                value={formData.fullName}
-                onChange={(e) => setFormData({ ...formData, fullName: e.target.value })}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="phone" className="flex items-center gap-2">
-                <Phone className="w-4 h-4 text-muted-foreground" />
-                Số điện thoại
-              </Label>
-              <Input
-                id="phone"
-                placeholder="0901234567"
-                value={formData.phone}
-                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="systemRole" className="flex items-center gap-2">
-                <Shield className="w-4 h-4 text-muted-foreground" />
-                Vai trò <span className="text-destructive">*</span>
-              </Label>
-              <Select
-                value={formData.systemRole}
-                onValueChange={(value: 'admin' | 'user') =>
-                  setFormData({ ...formData, systemRole: value })
-                }
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Chọn vai trò" />
-                </SelectTrigger>
-                <SelectContent>
-                  {SYSTEM_ROLES.map((role) => (
-                    <SelectItem key={role.value} value={role.value}>
-                      <div className="flex flex-col">
-                        <span>{role.label}</span>
-                        <span className="text-xs text-muted-foreground">{role.description}</span>
-                      </div>
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
-
-          <DialogFooter>
-            <Button
-              variant="outline"
-              onClick={() => setIsCreateDialogOpen(false)}
-              disabled={creating}
-            >
-              Hủy
-            </Button>
-            <Button
-              onClick={handleCreateUser}
-              disabled={creating}
-              className="bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 cursor-pointer"
-            >
-              {creating ? (
-                <>
-                  <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
-                  Đang tạo...
-                </>
-              ) : (
-                <>
-                  <Plus className="w-4 h-4 mr-2" />
-                  Tạo tài khoản
-                </>
-              )}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
-
       {/* Permission Dialog — Shop Assignment + Per-User Feature Overrides */}
       <Dialog open={isPermissionDialogOpen} onOpenChange={setIsPermissionDialogOpen}>
         <DialogContent className="sm:max-w-2xl max-h-[90vh]">
@@ -1305,6 +1087,32 @@ export default function UsersSettingsPage() {
                   </div>
                 )}
 
+                {/* Section: Custom role (leader / member) */}
+                {(userAppRole === 'leader' || userAppRole === 'member') && (
+                  <div className="space-y-3">
+                    <h3 className="text-sm font-semibold text-foreground uppercase tracking-wide flex items-center gap-2">
+                      <Shield className="w-4 h-4 text-muted-foreground" />
+                      Vai trò tùy chỉnh
+                    </h3>
+                    <Select value={customRoleId} onValueChange={setCustomRoleId}>
+                      <SelectTrigger className="h-10">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Mặc định theo chức vụ ({ROLE_LABELS[userAppRole]})</SelectItem>
+                        {customRoles.map(role => (
+                          <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {customRoleId !== initialCustomRoleId && (
+                      <p className="text-xs text-muted-foreground">
+                        Quyền chức năng bên dưới cập nhật sau khi lưu
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 {/* Section: Per-user feature overrides */}
                 {userAppRole && userAppRole !== 'super_admin' && (
                   <div className="space-y-4">
@@ -1446,6 +1254,17 @@ export default function UsersSettingsPage() {
             </ScrollArea>
           )}
 
+          <div className="space-y-1.5">
+            <Label htmlFor="permission-reason" className="text-sm">Lý do thay đổi</Label>
+            <Input
+              id="permission-reason"
+              value={permissionReason}
+              onChange={e => setPermissionReason(e.target.value)}
+              placeholder="Ghi vào nhật ký thay đổi (không bắt buộc)"
+              disabled={savingPermissions}
+            />
+          </div>
+
           <DialogFooter className="border-t pt-5 gap-3">
             <Button
               variant="outline"
@@ -1568,6 +1387,14 @@ export default function UsersSettingsPage() {
                 Sẽ gán <strong>{bulkShopIds.length}</strong> shop cho <strong>{selectedUserIds.length}</strong> nhân sự
               </p>
             )}
+
+            <Input
+              value={bulkReason}
+              onChange={e => setBulkReason(e.target.value)}
+              placeholder="Lý do (ghi vào nhật ký thay đổi)"
+              className="h-9"
+              disabled={savingBulk}
+            />
           </div>
 
           <DialogFooter>
@@ -1599,6 +1426,47 @@ export default function UsersSettingsPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Deprovision Dialog */}
+      <Dialog open={!!deprovisioning} onOpenChange={(open) => !open && setDeprovisioning(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Trash2 className="w-5 h-5 text-destructive" />
+              Vô hiệu hóa {deprovisioning?.full_name || deprovisioning?.email}
+            </DialogTitle>
+            <DialogDescription>
+              Gỡ khỏi mọi shop, vai trò tùy chỉnh và nhóm, thu hồi lời mời đang chờ, hủy lịch Flash Sale chưa chạy, tạm dừng lịch lặp, đăng xuất mọi phiên và khóa đăng nhập.
+              Lịch sử hoạt động được giữ lại; muốn dùng lại cần mời bằng email khác.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            value={deprovisionReason}
+            onChange={e => setDeprovisionReason(e.target.value)}
+            placeholder="Lý do (ghi vào nhật ký thay đổi)"
+            className="h-9"
+            disabled={deprovisionUser.isPending}
+          />
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeprovisioning(null)}
+              disabled={deprovisionUser.isPending}
+              className="cursor-pointer"
+            >
+              Hủy
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDeprovision}
+              disabled={deprovisionUser.isPending}
+              className="cursor-pointer"
+            >
+              {deprovisionUser.isPending ? 'Đang vô hiệu hóa...' : 'Vô hiệu hóa'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
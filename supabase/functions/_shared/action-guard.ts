@@ -0,0 +1,51 @@
+/**
+ * Action Guard - kiểm tra quyền thao tác của user gọi Edge Function (catalog: app-permissions.ts)
+ *
+ * Quyền lấy từ get_shopee_app_permissions (role mặc định + vai trò tùy chỉnh + override của user).
+ * Action không có trong EDGE_ACTION_PERMISSIONS được cho qua. Action có trong catalog mà request
+ * không có user chỉ được cho qua với JWT service_role (cron / worker); anon key → 401.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { hasPermission, requiredPermission } from './app-permissions.ts';
+
+/** Người gọi: sub + role của JWT (extractUserFromJwt), đã được gateway verify */
+export interface ActionCaller {
+  userId?: string | null;
+  role?: string;
+}
+
+export type ActionGuardResult =
+  | { allowed: true }
+  | { allowed: false; status: 401 | 403; error: string };
+
+export async function checkActionPermission(
+  supabase: SupabaseClient,
+  functionName: string,
+  action: string,
+  caller: ActionCaller
+): Promise<ActionGuardResult> {
+  const permission = requiredPermission(functionName, action);
+  if (!permission) return { allowed: true };
+
+  const userId = caller.userId;
+  if (!userId) {
+    return caller.role === 'service_role'
+      ? { allowed: true }
+      : { allowed: false, status: 401, error: 'Authentication required' };
+  }
+
+  const { data, error } = await supabase.rpc('get_shopee_app_permissions', { p_user_id: userId });
+  if (error) {
+    console.error(`[ACTION-GUARD] get_shopee_app_permissions failed for ${userId}:`, error.message);
+    return denied(permission);
+  }
+
+  const features: string[] = data?.role ? (data.features ?? []) : [];
+  return hasPermission(features, permission) ? { allowed: true } : denied(permission);
+}
+
+/** Thông báo lỗi thống nhất khi thiếu quyền */
+function denied(permission: string): ActionGuardResult {
+  return { allowed: false, status: 403, error: `Bạn không có quyền thực hiện thao tác này (${permission})` };
+}
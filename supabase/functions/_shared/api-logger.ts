@@ -160,9 +160,10 @@ export function createResponseSummary(result: Record<string, unknown>): Record<s
 
 /**
  * Extract user info from JWT token (decode only, no verification)
- * JWT đã được Supabase gateway verify rồi nên an toàn để decode
+ * JWT đã được Supabase gateway verify rồi nên an toàn để decode.
+ * role: claim 'role' của JWT ('authenticated' / 'anon' / 'service_role')
  */
-export function extractUserFromJwt(authHeader: string | null): { userId?: string; userEmail?: string } {
+export function extractUserFromJwt(authHeader: string | null): { userId?: string; userEmail?: string; role?: string } {
   if (!authHeader) return {};
   try {
     const token = authHeader.replace('Bearer ', '');
@@ -174,10 +175,11 @@ export function extractUserFromJwt(authHeader: string | null): { userId?: string
     // Supabase user JWT has 'sub' (user_id) and usually 'email'
     // Anon key JWT has role='anon' but no 'sub'
     // Only require 'sub' to identify as user-triggered; email is optional
+    const role = typeof payload.role === 'string' ? payload.role : undefined;
     if (payload.sub) {
-      return { userId: payload.sub, userEmail: payload.email || undefined };
+      return { userId: payload.sub, userEmail: payload.email || undefined, role };
     }
-    return {};
+    return { role };
   } catch {
     return {};
   }
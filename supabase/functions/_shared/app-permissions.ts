@@ -0,0 +1,140 @@
+/**
+ * App Permissions - danh mục quyền thao tác (action) và logic kiểm tra quyền, dùng chung cho
+ * FE (usePermissions().hasFeature, ma trận vai trò) và Edge Functions (_shared/action-guard.ts).
+ *
+ * Quyền của user là danh sách key `features` từ get_shopee_app_permissions:
+ * - key trang (permissionKey trong menu-config.ts): 'home', 'products', 'flash-sale', ...
+ * - key thao tác dạng '<module>:<action>': 'flash-sale:create', 'products:edit-price', ...
+ * - '*' = toàn quyền, '<module>:*' = mọi thao tác của module
+ *
+ * Role mặc định chỉ có key trang, nên key trang của module cho phép mọi thao tác của module đó
+ * (giữ nguyên quyền cũ); vai trò tùy chỉnh (migration 095) liệt kê từng thao tác.
+ */
+
+// ==================== CATALOG ====================
+
+export interface PermissionModule {
+  key: string;
+  label: string;
+  /** Key trang cũ (menu-config permissionKey) - có key này = có mọi thao tác của module */
+  pageKey: string;
+}
+
+export interface PermissionAction {
+  key: string;
+  module: string;
+  label: string;
+}
+
+export const PERMISSION_MODULES: PermissionModule[] = [
+  { key: 'products', label: 'Sản phẩm', pageKey: 'products' },
+  { key: 'orders', label: 'Đơn hàng', pageKey: 'orders' },
+  { key: 'flash-sale', label: 'Flash Sale', pageKey: 'flash-sale' },
+  { key: 'shops', label: 'Kết nối shop', pageKey: 'settings/profile' },
+];
+
+export const PERMISSION_ACTIONS: PermissionAction[] = [
+  { key: 'products:view', module: 'products', label: 'Xem sản phẩm' },
+  { key: 'products:edit-price', module: 'products', label: 'Sửa giá' },
+  { key: 'products:edit-stock', module: 'products', label: 'Sửa tồn kho' },
+  { key: 'products:unlist', module: 'products', label: 'Ẩn / hiện sản phẩm' },
+  { key: 'products:edit-content', module: 'products', label: 'Sửa nội dung' },
+  { key: 'orders:view', module: 'orders', label: 'Xem đơn hàng' },
+  { key: 'orders:sync', module: 'orders', label: 'Đồng bộ đơn hàng' },
+  { key: 'flash-sale:view', module: 'flash-sale', label: 'Xem Flash Sale' },
+  { key: 'flash-sale:create', module: 'flash-sale', label: 'Tạo Flash Sale' },
+  { key: 'flash-sale:edit', module: 'flash-sale', label: 'Sửa / bật tắt Flash Sale' },
+  { key: 'flash-sale:delete', module: 'flash-sale', label: 'Xóa Flash Sale' },
+  { key: 'shops:view', module: 'shops', label: 'Xem shop đã kết nối' },
+  { key: 'shops:reconnect', module: 'shops', label: 'Kết nối / ủy quyền lại shop' },
+];
+
+/**
+ * Thao tác cần quyền theo Edge Function + action.
+ * Action không có trong bảng (đọc dữ liệu nền, refresh token, cron) không kiểm tra quyền thao tác.
+ */
+export const EDGE_ACTION_PERMISSIONS: Record<string, Record<string, string>> = {
+  'apishopee-flash-sale': {
+    'get-time-slots': 'flash-sale:view',
+    'get-flash-sale': 'flash-sale:view',
+    'get-flash-sale-list': 'flash-sale:view',
+    'get-items': 'flash-sale:view',
+    'get-criteria': 'flash-sale:view',
+    'create-flash-sale': 'flash-sale:create',
+    'add-items': 'flash-sale:create',
+    'update-flash-sale': 'flash-sale:edit',
+    'update-items': 'flash-sale:edit',
+    'delete-flash-sale': 'flash-sale:delete',
+    'delete-items': 'flash-sale:delete',
+  },
+  'apishopee-product': {
+    'get-item-list': 'products:view',
+    'get-item-base-info': 'products:view',
+    'get-model-list': 'products:view',
+    'sync-products': 'products:view',
+    'check-updates': 'products:view',
+    'get-content': 'products:view',
+    'upload-image': 'products:edit-content',
+    'push-content': 'products:edit-content',
+    'update-price': 'products:edit-price',
+    'update-stock': 'products:edit-stock',
+    'unlist-item': 'products:unlist',
+  },
+  'apishopee-orders': {
+    'sync-orders': 'orders:sync',
+    'set-sync-interval': 'orders:sync',
+  },
+  'apishopee-auth': {
+    'get-auth-url': 'shops:reconnect',
+    'get-token': 'shops:reconnect',
+    'get-app-auth-url': 'shops:reconnect',
+    'get-app-token': 'shops:reconnect',
+    'get-token-by-resend-code': 'shops:reconnect',
+  },
+  // apishopee-proxy (tab API Response): action = Shopee API path. Path ghi không có ở đây bị
+  // proxy từ chối; path đọc (isReadOnlyShopeePath) chỉ cần quyền truy cập shop.
+  'apishopee-proxy': {
+    '/api/v2/product/update_price': 'products:edit-price',
+    '/api/v2/product/update_stock': 'products:edit-stock',
+    '/api/v2/product/unlist_item': 'products:unlist',
+    '/api/v2/product/update_item': 'products:edit-content',
+    '/api/v2/media_space/upload_image': 'products:edit-content',
+    '/api/v2/shop_flash_sale/create_shop_flash_sale': 'flash-sale:create',
+    '/api/v2/shop_flash_sale/add_shop_flash_sale_items': 'flash-sale:create',
+    '/api/v2/shop_flash_sale/update_shop_flash_sale': 'flash-sale:edit',
+    '/api/v2/shop_flash_sale/update_shop_flash_sale_items': 'flash-sale:edit',
+    '/api/v2/shop_flash_sale/delete_shop_flash_sale': 'flash-sale:delete',
+    '/api/v2/shop_flash_sale/delete_shop_flash_sale_items': 'flash-sale:delete',
+  },
+};
+
+// ==================== CHECKS ====================
+
+/** Shopee API chỉ đọc: tên endpoint bắt đầu bằng get_ / search_ */
+export function isReadOnlyShopeePath(apiPath: string): boolean {
+  return /^(get|search)_/.test(apiPath.split('/').pop() || '');
+}
+
+/** Quyền thao tác cần cho 1 action của Edge Function (null = không kiểm tra) */
+export function requiredPermission(functionName: string, action: string): string | null {
+  return EDGE_ACTION_PERMISSIONS[functionName]?.[action] ?? null;
+}
+
+/**
+ * features có cho phép key không:
+ * - key thao tác: có chính key, '<module>:*' hoặc key trang của module
+ * - key trang: có chính key hoặc bất kỳ thao tác nào của module dùng trang đó
+ */
+export function hasPermission(features: readonly string[], key: string): boolean {
+  if (features.includes('*') || features.includes(key)) return true;
+
+  const [moduleKey, action] = key.split(':');
+  if (action !== undefined) {
+    const module = PERMISSION_MODULES.find(m => m.key === moduleKey);
+    return features.includes(`${moduleKey}:*`) || (!!module && features.includes(module.pageKey));
+  }
+
+  return PERMISSION_MODULES
+    .filter(m => m.pageKey === key)
+    .some(m => features.some(f => f.startsWith(`${m.key}:`)));
+}
@@ -0,0 +1,141 @@
+/**
+ * Flash Sale Recurring Schedules - logic dùng chung cho FE (preview) và EC2 worker (expand)
+ *
+ * Rule = ngày trong tuần + giờ bắt đầu khung giờ + lead time (migration 083).
+ * Worker lấy time slot Shopee đã công bố (get_time_slot_id), lọc theo rule rồi tạo
+ * các row apishopee_flash_sale_auto_history tương ứng; UI dùng cùng hàm để hiển thị
+ * các khung giờ sắp được lên lịch.
+ *
+ * Giờ / thứ tính theo timezone của rule (mặc định Asia/Ho_Chi_Minh), không theo máy chạy.
+ */
+
+// ==================== TYPES ====================
+
+export interface FlashSaleRecurrenceRule {
+  /** 0 = Chủ nhật ... 6 = Thứ 7 */
+  days_of_week: number[];
+  /** Giờ bắt đầu khung giờ (0-23), VD [12, 21] */
+  start_hours: number[];
+  lead_time_minutes: number;
+  timezone: string;
+  /** Chỉ lên lịch các khung giờ bắt đầu trong N ngày tới */
+  horizon_days: number;
+}
+
+export interface RecurrenceSlot {
+  timeslot_id: number;
+  start_time: number;
+  end_time: number;
+}
+
+export interface RecurrenceExpandedSlot extends RecurrenceSlot {
+  /** Unix seconds - thời điểm worker tạo Flash Sale */
+  scheduled_at: number;
+}
+
+export type RecurrenceSkipReason = 'already_booked' | 'too_late';
+
+export interface RecurrenceExpansion {
+  toSchedule: RecurrenceExpandedSlot[];
+  skipped: Array<RecurrenceSlot & { reason: RecurrenceSkipReason }>;
+}
+
+export interface RecurrenceExpandOptions {
+  nowSec: number;
+  /** timeslot_id đã có row auto_history hoặc Flash Sale */
+  bookedTimeslotIds?: Iterable<number>;
+}
+
+// ==================== CONSTANTS ====================
+
+export const DEFAULT_RECURRENCE_TIMEZONE = 'Asia/Ho_Chi_Minh';
+
+/** Không lên lịch khung giờ bắt đầu trong vòng 5 phút tới (giống buffer của get-time-slots) */
+export const RECURRENCE_MIN_START_BUFFER_SEC = 5 * 60;
+
+export const WEEKDAY_LABELS = ['CN', 'T2', 'T3', 'T4', 'T5', 'T6', 'T7'] as const;
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+// ==================== MATCHING ====================
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/** Thứ / giờ / phút của một unix timestamp theo timezone */
+export function localSlotParts(unixSec: number, timezone: string): { weekday: number; hour: number; minute: number } {
+  const parts = formatterFor(timezone).formatToParts(new Date(unixSec * 1000));
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return {
+    weekday: WEEKDAY_INDEX[get('weekday')] ?? 0,
+    hour: Number(get('hour')) % 24,
+    minute: Number(get('minute')),
+  };
+}
+
+export function matchesRecurrenceRule(slot: RecurrenceSlot, rule: FlashSaleRecurrenceRule): boolean {
+  const { weekday, hour, minute } = localSlotParts(slot.start_time, rule.timezone || DEFAULT_RECURRENCE_TIMEZONE);
+  return minute === 0 && rule.days_of_week.includes(weekday) && rule.start_hours.includes(hour);
+}
+
+// ==================== EXPANSION ====================
+
+/**
+ * Các khung giờ cần lên lịch cho rule. Khung đã book bị bỏ qua; khung đã quá lead time
+ * nhưng chưa bắt đầu vẫn được lên lịch với scheduled_at = now.
+ */
+export function expandRecurrenceRule(
+  rule: FlashSaleRecurrenceRule,
+  slots: RecurrenceSlot[],
+  options: RecurrenceExpandOptions
+): RecurrenceExpansion {
+  const booked = new Set(options.bookedTimeslotIds || []);
+  const horizonEnd = options.nowSec + rule.horizon_days * 86400;
+  const expansion: RecurrenceExpansion = { toSchedule: [], skipped: [] };
+
+  const candidates = slots
+    .filter(slot => slot.start_time <= horizonEnd && matchesRecurrenceRule(slot, rule))
+    .sort((a, b) => a.start_time - b.start_time);
+
+  for (const slot of candidates) {
+    if (booked.has(slot.timeslot_id)) {
+      expansion.skipped.push({ ...slot, reason: 'already_booked' });
+      continue;
+    }
+    if (slot.start_time - options.nowSec < RECURRENCE_MIN_START_BUFFER_SEC) {
+      expansion.skipped.push({ ...slot, reason: 'too_late' });
+      continue;
+    }
+    expansion.toSchedule.push({
+      ...slot,
+      scheduled_at: Math.max(options.nowSec, slot.start_time - rule.lead_time_minutes * 60),
+    });
+  }
+
+  return expansion;
+}
+
+/** VD "T2, T4, T6 · 12:00, 21:00" (mọi ngày → "Hằng ngày") */
+export function describeRecurrenceRule(rule: Pick<FlashSaleRecurrenceRule, 'days_of_week' | 'start_hours'>): string {
+  const days = [...rule.days_of_week].sort((a, b) => a - b);
+  const dayLabel = days.length === 7 ? 'Hằng ngày' : days.map(d => WEEKDAY_LABELS[d]).join(', ');
+  const hours = [...rule.start_hours]
+    .sort((a, b) => a - b)
+    .map(h => `${String(h).padStart(2, '0')}:00`)
+    .join(', ');
+  return `${dayLabel} · ${hours}`;
+}
@@ -0,0 +1,425 @@
+/**
+ * Flash Sale Templates - logic dùng chung cho FE, Edge Functions (Deno) và EC2 worker (Node 20)
+ *
+ * Template lưu danh sách item/model + rule giá + giới hạn tồn kho / lượt mua (migration 082).
+ * Lúc chạy, template được "resolve" theo dữ liệu sản phẩm của shop đích
+ * (apishopee_products / apishopee_product_models) thành payload add_shop_flash_sale_items.
+ * - Cùng shop: khớp theo item_id / model_id
+ * - Shop khác: khớp theo item_sku / model_sku
+ *
+ * Không phụ thuộc package nào, worker compile trực tiếp file này (xem worker/tsconfig.json).
+ */
+
+import type {
+  ShopFlashSaleAddShopFlashSaleItemsRequestItems,
+  ShopFlashSaleGetItemCriteriaResponse,
+  ShopFlashSaleGetItemCriteriaResponseCriteria,
+} from './shopee-endpoints.generated.ts';
+
+// ==================== TYPES ====================
+
+/**
+ * Rule giá khuyến mãi
+ * - absolute: giá cố định
+ * - percent_off: giảm % theo giá gốc hiện tại, không thấp hơn floor_price (nếu có)
+ */
+export type FlashSaleTemplatePriceRule =
+  | { type: 'absolute'; price: number }
+  | { type: 'percent_off'; percent: number; floor_price?: number };
+
+export interface FlashSaleTemplateModel {
+  /** 0 cho sản phẩm không có phân loại */
+  model_id: number;
+  model_sku?: string;
+  model_name?: string;
+  /** Ghi đè rule của item */
+  price_rule?: FlashSaleTemplatePriceRule;
+  /** Giới hạn tồn kho chiến dịch (bị cắt theo tồn kho thực tế) */
+  stock: number;
+}
+
+export interface FlashSaleTemplateItem {
+  item_id: number;
+  item_sku?: string;
+  item_name?: string;
+  /** 0 = không giới hạn */
+  purchase_limit: number;
+  price_rule: FlashSaleTemplatePriceRule;
+  /** Giới hạn tồn kho chiến dịch cho item không có phân loại */
+  stock?: number;
+  /** Bỏ trống = item không có phân loại */
+  models?: FlashSaleTemplateModel[];
+}
+
+/** Một version của template (apishopee_flash_sale_template_versions) */
+export interface FlashSaleTemplateVersion {
+  id: string;
+  template_id: string;
+  version: number;
+  items: FlashSaleTemplateItem[];
+  criteria_snapshot: ShopFlashSaleGetItemCriteriaResponse | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+/** Sản phẩm của shop đích dùng để resolve template */
+export interface TemplateCatalogModel {
+  model_id: number;
+  model_sku?: string | null;
+  original_price: number;
+  stock: number;
+}
+
+export interface TemplateCatalogItem {
+  item_id: number;
+  item_sku?: string | null;
+  item_status?: string | null;
+  category_id?: number | null;
+  original_price: number;
+  stock: number;
+  models: TemplateCatalogModel[];
+}
+
+/** Một dòng (item hoặc model) sau khi resolve - dùng để kiểm tra criteria */
+export interface TemplateResolvedLine {
+  item_id: number;
+  /** 0 cho sản phẩm không có phân loại */
+  model_id: number;
+  category_id: number | null;
+  original_price: number;
+  promo_price: number;
+  stock: number;
+}
+
+export interface TemplateSkippedLine {
+  /** item_id trong template (có thể là của shop nguồn) */
+  item_id: number;
+  model_id?: number;
+  reason: string;
+}
+
+export interface TemplateResolution {
+  items: ShopFlashSaleAddShopFlashSaleItemsRequestItems[];
+  lines: TemplateResolvedLine[];
+  skipped: TemplateSkippedLine[];
+}
+
+export interface TemplateCriteriaIssue {
+  item_id: number;
+  model_id: number;
+  message: string;
+}
+
+// ==================== PRICE / STOCK ====================
+
+/**
+ * Tính giá khuyến mãi theo rule. Trả về null nếu không có giá hợp lệ
+ * (giá gốc trống hoặc giá KM không thấp hơn giá gốc).
+ */
+export function applyPriceRule(rule: FlashSaleTemplatePriceRule, originalPrice: number): number | null {
+  let price: number;
+  if (rule.type === 'absolute') {
+    price = rule.price;
+  } else {
+    if (!originalPrice || originalPrice <= 0) return null;
+    price = Math.round(originalPrice * (100 - rule.percent) / 100);
+    if (rule.floor_price && price < rule.floor_price) price = rule.floor_price;
+  }
+
+  if (!price || price <= 0) return null;
+  if (originalPrice > 0 && price >= originalPrice) return null;
+  return price;
+}
+
+/** Tồn kho chiến dịch = min(giới hạn template, tồn kho thực tế), tối thiểu 1 */
+function resolveStock(limit: number | undefined, available: number): number | null {
+  if (available <= 0) return null;
+  const wanted = limit && limit > 0 ? limit : available;
+  return Math.max(1, Math.min(wanted, available));
+}
+
+function findCatalogItem(catalog: TemplateCatalogItem[], item: FlashSaleTemplateItem): TemplateCatalogItem | undefined {
+  const byId = catalog.find(c => c.item_id === item.item_id);
+  if (byId) return byId;
+  if (!item.item_sku) return undefined;
+  return catalog.find(c => c.item_sku === item.item_sku);
+}
+
+function findCatalogModel(
+  catalogItem: TemplateCatalogItem,
+  model: FlashSaleTemplateModel,
+  sameItem: boolean
+): TemplateCatalogModel | undefined {
+  if (sameItem) {
+    const byId = catalogItem.models.find(m => m.model_id === model.model_id);
+    if (byId) return byId;
+  }
+  if (!model.model_sku) return undefined;
+  return catalogItem.models.find(m => m.model_sku === model.model_sku);
+}
+
+// ==================== RESOLVE ====================
+
+/**
+ * Resolve template thành payload add_shop_flash_sale_items cho một shop.
+ * Dòng không khớp / hết hàng / không có giá hợp lệ bị bỏ qua và ghi vào `skipped`.
+ */
+export function resolveFlashSaleTemplate(
+  templateItems: FlashSaleTemplateItem[],
+  catalog: TemplateCatalogItem[]
+): TemplateResolution {
+  const resolution: TemplateResolution = { items: [], lines: [], skipped: [] };
+
+  for (const item of templateItems) {
+    const catalogItem = findCatalogItem(catalog, item);
+    if (!catalogItem) {
+      resolution.skipped.push({ item_id: item.item_id, reason: 'Không tìm thấy sản phẩm trong shop' });
+      continue;
+    }
+    if (catalogItem.item_status && catalogItem.item_status !== 'NORMAL') {
+      resolution.skipped.push({ item_id: item.item_id, reason: `Sản phẩm đang ở trạng thái ${catalogItem.item_status}` });
+      continue;
+    }
+
+    const categoryId = catalogItem.category_id ?? null;
+    const templateModels = (item.models || []).filter(m => m.model_id !== 0);
+
+    // Không có phân loại (kể cả model_id = 0)
+    if (templateModels.length === 0) {
+      const limit = item.stock ?? item.models?.[0]?.stock;
+      const rule = item.models?.[0]?.price_rule || item.price_rule;
+      const price = applyPriceRule(rule, catalogItem.original_price);
+      const stock = resolveStock(limit, catalogItem.stock);
+      if (price === null || stock === null) {
+        resolution.skipped.push({ item_id: item.item_id, reason: price === null ? 'Không có giá khuyến mãi hợp lệ' : 'Hết hàng' });
+        continue;
+      }
+      resolution.items.push({
+        item_id: catalogItem.item_id,
+        purchase_limit: item.purchase_limit || 0,
+        item_input_promo_price: price,
+        item_stock: stock,
+      });
+      resolution.lines.push({
+        item_id: catalogItem.item_id, model_id: 0, category_id: categoryId,
+        original_price: catalogItem.original_price, promo_price: price, stock,
+      });
+      continue;
+    }
+
+    const sameItem = catalogItem.item_id === item.item_id;
+    const models: NonNullable<ShopFlashSaleAddShopFlashSaleItemsRequestItems['models']> = [];
+    for (const model of templateModels) {
+      const catalogModel = findCatalogModel(catalogItem, model, sameItem);
+      if (!catalogModel) {
+        resolution.skipped.push({ item_id: item.item_id, model_id: model.model_id, reason: 'Không tìm thấy phân loại' });
+        continue;
+      }
+      const price = applyPriceRule(model.price_rule || item.price_rule, catalogModel.original_price);
+      const stock = resolveStock(model.stock, catalogModel.stock);
+      if (price === null || stock === null) {
+        resolution.skipped.push({
+          item_id: item.item_id,
+          model_id: model.model_id,
+          reason: price === null ? 'Không có giá khuyến mãi hợp lệ' : 'Hết hàng',
+        });
+        continue;
+      }
+      models.push({ model_id: catalogModel.model_id, input_promo_price: price, stock });
+      resolution.lines.push({
+        item_id: catalogItem.item_id, model_id: catalogModel.model_id, category_id: categoryId,
+        original_price: catalogModel.original_price, promo_price: price, stock,
+      });
+    }
+
+    if (models.length > 0) {
+      resolution.items.push({ item_id: catalogItem.item_id, purchase_limit: item.purchase_limit || 0, models });
+    }
+  }
+
+  return resolution;
+}
+
+// ==================== CRITERIA ====================
+
+/** Criteria áp dụng cho category (pair_ids), category_id = 0 nghĩa là mọi danh mục */
+export function pickCriteriaForCategory(
+  response: ShopFlashSaleGetItemCriteriaResponse | null | undefined,
+  categoryId: number | null
+): ShopFlashSaleGetItemCriteriaResponseCriteria | undefined {
+  const list = response?.criteria || [];
+  if (list.length === 0) return undefined;
+
+  const pair = (response?.pair_ids || []).find(p =>
+    p.category_list.some(c => c.category_id === 0 || (categoryId !== null && c.category_id === categoryId))
+  );
+  return list.find(c => c.criteria_id === pair?.criteria_id) || list[0];
+}
+
+/** Giới hạn -1 (hoặc trống) = không giới hạn */
+function isLimited(value: number | undefined | null): value is number {
+  return typeof value === 'number' && value > 0;
+}
+
+/** Kiểm tra các dòng đã resolve theo get_item_criteria (giảm giá, giá KM, tồn kho chiến dịch) */
+export function validateTemplateAgainstCriteria(
+  lines: TemplateResolvedLine[],
+  response: ShopFlashSaleGetItemCriteriaResponse | null | undefined
+): TemplateCriteriaIssue[] {
+  const issues: TemplateCriteriaIssue[] = [];
+
+  for (const line of lines) {
+    if (line.category_id !== null && response?.overlap_block_category_ids?.includes(line.category_id)) {
+      issues.push({ item_id: line.item_id, model_id: line.model_id, message: 'Danh mục bị cấm khuyến mãi' });
+      continue;
+    }
+
+    const criteria = pickCriteriaForCategory(response, line.category_id);
+    if (!criteria) continue;
+
+    const push = (message: string) => issues.push({ item_id: line.item_id, model_id: line.model_id, message });
+    const discount = line.original_price > 0
+      ? Math.round(((line.original_price - line.promo_price) / line.original_price) * 100)
+      : 0;
+
+    if (isLimited(criteria.min_discount) && discount < criteria.min_discount) {
+      push(`Giảm tối thiểu ${criteria.min_discount}% (hiện ${discount}%)`);
+    }
+    if (isLimited(criteria.max_discount) && discount > criteria.max_discount) {
+      push(`Giảm tối đa ${criteria.max_discount}% (hiện ${discount}%)`);
+    }
+    if (isLimited(criteria.min_discount_price) && line.promo_price < criteria.min_discount_price / 100000) {
+      push(`Giá KM tối thiểu ${criteria.min_discount_price / 100000} (hiện ${line.promo_price})`);
+    }
+    if (isLimited(criteria.max_discount_price) && line.promo_price > criteria.max_discount_price / 100000) {
+      push(`Giá KM tối đa ${criteria.max_discount_price / 100000} (hiện ${line.promo_price})`);
+    }
+    if (isLimited(criteria.min_promo_stock) && line.stock < criteria.min_promo_stock) {
+      push(`Tồn kho CT tối thiểu ${criteria.min_promo_stock} (hiện ${line.stock})`);
+    }
+    if (isLimited(criteria.max_promo_stock) && line.stock > criteria.max_promo_stock) {
+      push(`Tồn kho CT tối đa ${criteria.max_promo_stock} (hiện ${line.stock})`);
+    }
+  }
+
+  return issues;
+}
+
+// ==================== CATALOG ====================
+
+/** Row của apishopee_products / apishopee_product_models (các cột cần cho template) */
+export interface TemplateProductRow {
+  item_id: number;
+  item_sku: string | null;
+  item_status: string | null;
+  category_id: number | null;
+  original_price: number | null;
+  total_available_stock: number | null;
+  has_model: boolean | null;
+}
+
+export interface TemplateProductModelRow {
+  item_id: number;
+  model_id: number;
+  model_sku: string | null;
+  original_price: number | null;
+  total_available_stock: number | null;
+}
+
+export const TEMPLATE_PRODUCT_COLUMNS = 'item_id, item_sku, item_status, category_id, original_price, total_available_stock, has_model';
+export const TEMPLATE_MODEL_COLUMNS = 'item_id, model_id, model_sku, original_price, total_available_stock';
+
+/**
+ * Ghép products + models thành catalog. Bảng products có thể có nhiều row / item
+ * (mỗi user sync một bản) nên chỉ giữ row đầu tiên theo item_id / model_id.
+ */
+export function buildTemplateCatalog(
+  products: TemplateProductRow[],
+  models: TemplateProductModelRow[]
+): TemplateCatalogItem[] {
+  const modelsByItem = new Map<number, TemplateCatalogModel[]>();
+  for (const m of models) {
+    const list = modelsByItem.get(m.item_id) || [];
+    if (list.some(existing => existing.model_id === m.model_id)) continue;
+    list.push({
+      model_id: m.model_id,
+      model_sku: m.model_sku,
+      original_price: m.original_price || 0,
+      stock: m.total_available_stock || 0,
+    });
+    modelsByItem.set(m.item_id, list);
+  }
+
+  const catalog = new Map<number, TemplateCatalogItem>();
+  for (const p of products) {
+    if (catalog.has(p.item_id)) continue;
+    catalog.set(p.item_id, {
+      item_id: p.item_id,
+      item_sku: p.item_sku,
+      item_status: p.item_status,
+      category_id: p.category_id,
+      original_price: p.original_price || 0,
+      stock: p.total_available_stock || 0,
+      models: p.has_model === false ? [] : modelsByItem.get(p.item_id) || [],
+    });
+  }
+  return Array.from(catalog.values());
+}
+
+// ==================== TOP SELLERS ====================
+
+/** Nguồn sản phẩm "bán chạy nhất" - resolve lúc chạy (auto_history.item_source, migration 084) */
+export interface TopSellerItemSource {
+  type: 'top_sellers';
+  /** Số sản phẩm tối đa */
+  limit: number;
+  percent_off: number;
+  /** Tồn kho CT mỗi sản phẩm / phân loại (cắt theo tồn kho thực tế) */
+  stock: number;
+  purchase_limit: number;
+}
+
+export const TOP_SELLER_DEFAULTS: Omit<TopSellerItemSource, 'type'> = {
+  limit: 20,
+  percent_off: 10,
+  stock: 10,
+  purchase_limit: 0,
+};
+
+/** Query dư ứng viên theo `sold` vì một phần bị loại (hết hàng, phân loại hết hàng) */
+export const TOP_SELLER_CANDIDATE_MULTIPLIER = 3;
+
+/**
+ * Template items từ danh sách item_id xếp theo `sold` giảm dần. Bỏ qua sản phẩm
+ * không NORMAL / hết hàng; sản phẩm có phân loại lấy các phân loại còn hàng.
+ */
+export function buildTopSellerTemplateItems(
+  rankedItemIds: number[],
+  catalog: TemplateCatalogItem[],
+  source: TopSellerItemSource
+): FlashSaleTemplateItem[] {
+  const byId = new Map(catalog.map(item => [item.item_id, item]));
+  const priceRule: FlashSaleTemplatePriceRule = { type: 'percent_off', percent: source.percent_off };
+  const items: FlashSaleTemplateItem[] = [];
+  const seen = new Set<number>();
+
+  for (const itemId of rankedItemIds) {
+    if (items.length >= source.limit) break;
+    const item = byId.get(itemId);
+    if (!item || seen.has(itemId) || item.item_status !== 'NORMAL') continue;
+    seen.add(itemId);
+
+    if (item.models.length > 0) {
+      const models = item.models
+        .filter(m => m.stock > 0)
+        .map(m => ({ model_id: m.model_id, model_sku: m.model_sku || undefined, stock: source.stock }));
+      if (models.length === 0) continue;
+      items.push({ item_id: item.item_id, item_sku: item.item_sku || undefined, purchase_limit: source.purchase_limit, price_rule: priceRule, models });
+    } else if (item.stock > 0) {
+      items.push({ item_id: item.item_id, item_sku: item.item_sku || undefined, purchase_limit: source.purchase_limit, price_rule: priceRule, stock: source.stock });
+    }
+  }
+
+  return items;
+}
@@ -0,0 +1,260 @@
+/**
+ * Order Sync - logic dùng chung cho worker job order_sync (worker/src/jobs/order-sync.ts)
+ * và FE (OrdersPanel, doanh thu Flash Sale).
+ *
+ * get_order_list chỉ cho lọc theo update_time trong khung tối đa 15 ngày, nên một lần sync
+ * đi qua các khung [window_from, window_to] từ last_sync_update_time (lần đầu: 30 ngày trước)
+ * tới started_at. Mỗi trang list (≤ 50 order_sn) lấy chi tiết ngay bằng get_order_detail;
+ * cursor lưu trong apishopee_orders_sync_status.sync_cursor (migration 091) sau mỗi trang.
+ */
+
+// ==================== TYPES ====================
+
+export type OrderSyncMode = 'initial' | 'incremental';
+
+export type OrderStatus =
+  | 'UNPAID'
+  | 'READY_TO_SHIP'
+  | 'PROCESSED'
+  | 'RETRY_SHIP'
+  | 'SHIPPED'
+  | 'TO_CONFIRM_RECEIVE'
+  | 'IN_CANCEL'
+  | 'CANCELLED'
+  | 'TO_RETURN'
+  | 'COMPLETED';
+
+export interface OrderSyncCounts {
+  inserted: number;
+  updated: number;
+  items: number;
+}
+
+export interface OrderSyncCursor {
+  mode: OrderSyncMode;
+  /** Unix seconds lúc bắt đầu - thành last_sync_update_time khi xong */
+  started_at: number;
+  /** Mốc đầu của cả lần sync (để tính tiến độ) */
+  sync_from: number;
+  window_from: number;
+  window_to: number;
+  /** next_cursor của get_order_list trong khung hiện tại, '' = trang đầu */
+  page_cursor: string;
+  done: boolean;
+  processed: number;
+  /** Cộng dồn qua các lần chạy tiếp */
+  counts: OrderSyncCounts;
+  job_id?: string;
+}
+
+export interface ShopeeOrderItem {
+  item_id: number;
+  item_name: string;
+  item_sku?: string;
+  model_id: number;
+  model_name?: string;
+  model_sku?: string;
+  model_quantity_purchased: number;
+  model_original_price: number;
+  model_discounted_price: number;
+  promotion_type?: string;
+  promotion_id?: number;
+  image_info?: { image_url?: string };
+}
+
+export interface ShopeeOrderDetail {
+  order_sn: string;
+  order_status: string;
+  currency?: string;
+  cod?: boolean;
+  total_amount?: number;
+  estimated_shipping_fee?: number;
+  actual_shipping_fee?: number;
+  create_time: number;
+  update_time: number;
+  pay_time?: number;
+  ship_by_date?: number;
+  days_to_ship?: number;
+  buyer_user_id?: number;
+  buyer_username?: string;
+  region?: string;
+  recipient_address?: Record<string, unknown>;
+  shipping_carrier?: string;
+  payment_method?: string;
+  item_list?: ShopeeOrderItem[];
+  package_list?: Array<Record<string, unknown>>;
+  cancel_by?: string;
+  cancel_reason?: string;
+  buyer_cancel_reason?: string;
+  message_to_seller?: string;
+  note?: string;
+}
+
+// ==================== CONSTANTS ====================
+
+/** Giới hạn khung update_time của get_order_list */
+export const ORDER_WINDOW_SECONDS = 15 * 24 * 60 * 60;
+/** Lần sync đầu lấy đơn cập nhật trong 30 ngày */
+export const ORDER_INITIAL_LOOKBACK_SECONDS = 30 * 24 * 60 * 60;
+/** get_order_detail nhận tối đa 50 order_sn nên list cũng lấy 50/trang */
+export const ORDER_LIST_PAGE_SIZE = 50;
+
+export const ORDER_DETAIL_OPTIONAL_FIELDS = [
+  'buyer_user_id', 'buyer_username', 'estimated_shipping_fee', 'recipient_address', 'actual_shipping_fee',
+  'note', 'item_list', 'pay_time', 'cancel_by', 'cancel_reason', 'buyer_cancel_reason',
+  'package_list', 'shipping_carrier', 'payment_method', 'total_amount',
+].join(',');
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  'UNPAID', 'READY_TO_SHIP', 'PROCESSED', 'RETRY_SHIP', 'SHIPPED',
+  'TO_CONFIRM_RECEIVE', 'IN_CANCEL', 'CANCELLED', 'TO_RETURN', 'COMPLETED',
+];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  UNPAID: 'Chờ thanh toán',
+  READY_TO_SHIP: 'Chờ lấy hàng',
+  PROCESSED: 'Đã xử lý',
+  RETRY_SHIP: 'Giao lại',
+  SHIPPED: 'Đang giao',
+  TO_CONFIRM_RECEIVE: 'Chờ xác nhận nhận hàng',
+  IN_CANCEL: 'Đang hủy',
+  CANCELLED: 'Đã hủy',
+  TO_RETURN: 'Trả hàng',
+  COMPLETED: 'Hoàn thành',
+};
+
+/** Đơn chưa thanh toán / bị hủy không tính doanh thu */
+const NON_REVENUE_STATUSES = ['UNPAID', 'IN_CANCEL', 'CANCELLED'];
+
+/** promotion_type của item mua trong Flash Sale (promotion_id = flash_sale_id) */
+export const FLASH_SALE_PROMOTION_TYPES = ['flash_sale', 'shop_flash_sale'];
+
+// ==================== CURSOR ====================
+
+/** Cursor cho lần sync mới. Chưa có last_sync_update_time thì chạy initial (30 ngày) */
+export function startOrderSyncCursor(nowSec: number, updateTimeCursor: number | null): OrderSyncCursor {
+  const mode: OrderSyncMode = updateTimeCursor ? 'incremental' : 'initial';
+  const from = updateTimeCursor ?? nowSec - ORDER_INITIAL_LOOKBACK_SECONDS;
+  return {
+    mode,
+    started_at: nowSec,
+    sync_from: from,
+    window_from: from,
+    window_to: Math.min(from + ORDER_WINDOW_SECONDS, nowSec),
+    page_cursor: '',
+    done: false,
+    processed: 0,
+    counts: { inserted: 0, updated: 0, items: 0 },
+  };
+}
+
+/** Ghi nhận 1 trang (list + detail) và chuyển sang trang / khung kế tiếp */
+export function advanceOrderCursor(
+  cursor: OrderSyncCursor,
+  page: { orderCount: number; more: boolean; nextCursor?: string },
+  counts: Partial<OrderSyncCounts> = {}
+): OrderSyncCursor {
+  const next: OrderSyncCursor = {
+    ...cursor,
+    processed: cursor.processed + page.orderCount,
+    counts: addOrderSyncCounts(cursor.counts, counts),
+  };
+
+  if (page.more && page.nextCursor) {
+    return { ...next, page_cursor: page.nextCursor };
+  }
+  if (cursor.window_to < cursor.started_at) {
+    return {
+      ...next,
+      window_from: cursor.window_to,
+      window_to: Math.min(cursor.window_to + ORDER_WINDOW_SECONDS, cursor.started_at),
+      page_cursor: '',
+    };
+  }
+  return { ...next, page_cursor: '', done: true };
+}
+
+export function addOrderSyncCounts(a: OrderSyncCounts, b: Partial<OrderSyncCounts>): OrderSyncCounts {
+  return {
+    inserted: a.inserted + (b.inserted || 0),
+    updated: a.updated + (b.updated || 0),
+    items: a.items + (b.items || 0),
+  };
+}
+
+/** Tiến độ theo khoảng thời gian đã quét */
+export function describeOrderSyncProgress(cursor: OrderSyncCursor): { percent: number; label: string } {
+  const span = cursor.started_at - cursor.sync_from;
+  const percent = span > 0 ? Math.round(((cursor.window_from - cursor.sync_from) / span) * 100) : 100;
+  const date = new Date(cursor.window_from * 1000).toLocaleDateString('vi-VN');
+  return { percent, label: `Đang đồng bộ đơn cập nhật từ ${date} (${cursor.processed} đơn)` };
+}
+
+// ==================== MAPPING ====================
+
+export function isRevenueOrder(status: string): boolean {
+  return !NON_REVENUE_STATUSES.includes(status);
+}
+
+/** flash_sale_id của item mua trong Flash Sale, null nếu không */
+export function flashSaleIdOf(item: Pick<ShopeeOrderItem, 'promotion_type' | 'promotion_id'>): number | null {
+  if (!item.promotion_type || !FLASH_SALE_PROMOTION_TYPES.includes(item.promotion_type)) return null;
+  return item.promotion_id ? item.promotion_id : null;
+}
+
+/** Dòng apishopee_orders (migration 063) */
+export function orderRowOf(shopId: number, order: ShopeeOrderDetail, syncedAt: string): Record<string, unknown> {
+  return {
+    shop_id: shopId,
+    order_sn: order.order_sn,
+    order_status: order.order_status,
+    currency: order.currency ?? null,
+    cod: order.cod ?? false,
+    total_amount: order.total_amount ?? null,
+    estimated_shipping_fee: order.estimated_shipping_fee ?? null,
+    actual_shipping_fee: order.actual_shipping_fee ?? null,
+    create_time: order.create_time,
+    update_time: order.update_time,
+    pay_time: order.pay_time || null,
+    ship_by_date: order.ship_by_date || null,
+    days_to_ship: order.days_to_ship ?? null,
+    buyer_user_id: order.buyer_user_id ?? null,
+    buyer_username: order.buyer_username ?? null,
+    region: order.region ?? null,
+    recipient_address: order.recipient_address ?? null,
+    shipping_carrier: order.shipping_carrier ?? null,
+    payment_method: order.payment_method ?? null,
+    item_list: order.item_list ?? [],
+    package_list: order.package_list ?? [],
+    cancel_by: order.cancel_by || null,
+    cancel_reason: order.cancel_reason || null,
+    buyer_cancel_reason: order.buyer_cancel_reason || null,
+    message_to_seller: order.message_to_seller || null,
+    note: order.note || null,
+    raw_response: order,
+    synced_at: syncedAt,
+  };
+}
+
+/** Dòng apishopee_order_items (migration 091) - 1 dòng / item + phân loại của đơn */
+export function orderItemRowsOf(shopId: number, order: ShopeeOrderDetail): Array<Record<string, unknown>> {
+  return (order.item_list || []).map(item => ({
+    shop_id: shopId,
+    order_sn: order.order_sn,
+    item_id: item.item_id,
+    model_id: item.model_id || 0,
+    item_name: item.item_name,
+    item_sku: item.item_sku || null,
+    model_name: item.model_name || null,
+    model_sku: item.model_sku || null,
+    quantity: item.model_quantity_purchased || 0,
+    original_price: item.model_original_price || 0,
+    discounted_price: item.model_discounted_price || 0,
+    promotion_type: item.promotion_type || null,
+    promotion_id: item.promotion_id || null,
+    flash_sale_id: flashSaleIdOf(item),
+    image_url: item.image_info?.image_url || null,
+    order_status: order.order_status,
+    create_time: order.create_time,
+  }));
+}
@@ -0,0 +1,187 @@
+/**
+ * Product Alert Rules - logic dùng chung cho apishopee-product-webhook (đánh giá rule khi ghi
+ * history log) và FE (mô tả rule, trạng thái inbox).
+ *
+ * Rule theo shop, có thể giới hạn theo category_id hoặc item_id (migration 086).
+ * Mỗi rule khớp sinh 1 alert; severity của history log được nâng lên mức cao nhất của các rule khớp.
+ */
+
+// ==================== TYPES ====================
+
+export type AlertSeverity = 'INFO' | 'WARNING' | 'HIGH' | 'CRITICAL';
+
+export type AlertRuleType =
+  | 'price_drop_percent'
+  | 'price_increase_percent'
+  | 'price_below_floor'
+  | 'stock_out_flash_sale'
+  | 'status_banned';
+
+export type AlertStatus = 'open' | 'acknowledged' | 'snoozed';
+
+export interface ProductAlertRule {
+  id: string;
+  shop_id: number;
+  /** NULL = mọi category */
+  category_id: number | null;
+  /** NULL = mọi sản phẩm (dùng cho giá sàn theo từng sản phẩm) */
+  item_id: number | null;
+  name: string | null;
+  rule_type: AlertRuleType;
+  /** % với price_*_percent, VND với price_below_floor; không dùng cho rule còn lại */
+  threshold: number | null;
+  severity: AlertSeverity;
+  is_enabled: boolean;
+}
+
+/** Thay đổi cần đánh giá - cùng dạng old_value / new_value của history log */
+export interface AlertEvent {
+  change_type: string;
+  item_id: number;
+  category_id?: number | null;
+  old_value?: Record<string, unknown> | null;
+  new_value?: Record<string, unknown> | null;
+  /** Sản phẩm đang / sắp chạy Flash Sale (chỉ cần khi stock về 0) */
+  in_flash_sale?: boolean;
+}
+
+export interface AlertRuleHit {
+  rule: ProductAlertRule;
+  message: string;
+  details: Record<string, unknown>;
+}
+
+// ==================== CONSTANTS ====================
+
+export const ALERT_RULE_TYPES: Record<AlertRuleType, { label: string; unit?: '%' | 'đ' }> = {
+  price_drop_percent: { label: 'Giá giảm quá', unit: '%' },
+  price_increase_percent: { label: 'Giá tăng quá', unit: '%' },
+  price_below_floor: { label: 'Giá thấp hơn giá sàn', unit: 'đ' },
+  stock_out_flash_sale: { label: 'Hết hàng khi đang Flash Sale' },
+  status_banned: { label: 'Sản phẩm bị khóa (BANNED)' },
+};
+
+const SEVERITY_ORDER: AlertSeverity[] = ['INFO', 'WARNING', 'HIGH', 'CRITICAL'];
+
+// ==================== HELPERS ====================
+
+export function maxSeverity(a: AlertSeverity, b: AlertSeverity): AlertSeverity {
+  return SEVERITY_ORDER.indexOf(a) >= SEVERITY_ORDER.indexOf(b) ? a : b;
+}
+
+function numberOf(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function formatVnd(value: number): string {
+  return new Intl.NumberFormat('vi-VN').format(value) + 'đ';
+}
+
+/** Giá bán nếu đổi, ngược lại giá gốc (sửa thủ công khi đang khuyến mãi chỉ đổi giá gốc) */
+export function priceChangeOf(event: AlertEvent): { oldPrice: number; newPrice: number } | null {
+  if (event.change_type !== 'price_change') return null;
+
+  const oldCurrent = numberOf(event.old_value?.current_price);
+  const newCurrent = numberOf(event.new_value?.current_price);
+  if (oldCurrent !== undefined && newCurrent !== undefined && oldCurrent !== newCurrent) {
+    return { oldPrice: oldCurrent, newPrice: newCurrent };
+  }
+
+  const oldOriginal = numberOf(event.old_value?.original_price);
+  const newOriginal = numberOf(event.new_value?.original_price);
+  if (oldOriginal !== undefined && newOriginal !== undefined && oldOriginal !== newOriginal) {
+    return { oldPrice: oldOriginal, newPrice: newOriginal };
+  }
+
+  return null;
+}
+
+/** Tồn kho từ > 0 về 0 */
+export function isStockOut(event: AlertEvent): boolean {
+  if (event.change_type !== 'stock_change') return false;
+  const oldStock = numberOf(event.old_value?.total_available_stock);
+  return numberOf(event.new_value?.total_available_stock) === 0 && (oldStock === undefined || oldStock > 0);
+}
+
+export function ruleApplies(rule: ProductAlertRule, event: AlertEvent): boolean {
+  if (!rule.is_enabled) return false;
+  if (rule.item_id !== null && rule.item_id !== event.item_id) return false;
+  if (rule.category_id !== null && rule.category_id !== event.category_id) return false;
+  return true;
+}
+
+export function describeAlertRule(rule: Pick<ProductAlertRule, 'rule_type' | 'threshold' | 'category_id' | 'item_id'>): string {
+  const meta = ALERT_RULE_TYPES[rule.rule_type];
+  const threshold = rule.threshold === null || !meta.unit
+    ? ''
+    : meta.unit === '%' ? ` ${rule.threshold}%` : ` ${formatVnd(rule.threshold)}`;
+  const scope = rule.item_id !== null
+    ? ` · SP #${rule.item_id}`
+    : rule.category_id !== null ? ` · Danh mục #${rule.category_id}` : '';
+  return `${meta.label}${threshold}${scope}`;
+}
+
+// ==================== EVALUATE ====================
+
+function evaluateRule(rule: ProductAlertRule, event: AlertEvent): AlertRuleHit | null {
+  const threshold = rule.threshold ?? 0;
+
+  switch (rule.rule_type) {
+    case 'price_drop_percent':
+    case 'price_increase_percent': {
+      const change = priceChangeOf(event);
+      if (!change || change.oldPrice <= 0) return null;
+      const percent = ((change.newPrice - change.oldPrice) / change.oldPrice) * 100;
+      const hit = rule.rule_type === 'price_drop_percent' ? -percent >= threshold : percent >= threshold;
+      if (!hit) return null;
+      const rounded = Math.round(percent * 10) / 10;
+      return {
+        rule,
+        message: `Giá ${rounded < 0 ? 'giảm' : 'tăng'} ${Math.abs(rounded)}% (${formatVnd(change.oldPrice)} → ${formatVnd(change.newPrice)}), ngưỡng ${threshold}%`,
+        details: { old_price: change.oldPrice, new_price: change.newPrice, change_percent: rounded, threshold },
+      };
+    }
+
+    case 'price_below_floor': {
+      const change = priceChangeOf(event);
+      if (!change || change.newPrice >= threshold) return null;
+      return {
+        rule,
+        message: `Giá ${formatVnd(change.newPrice)} thấp hơn giá sàn ${formatVnd(threshold)}`,
+        details: { old_price: change.oldPrice, new_price: change.newPrice, floor: threshold },
+      };
+    }
+
+    case 'stock_out_flash_sale':
+      if (!isStockOut(event) || !event.in_flash_sale) return null;
+      return {
+        rule,
+        message: 'Hết hàng trong khi sản phẩm đang có Flash Sale',
+        details: { old_stock: event.old_value?.total_available_stock, new_stock: 0 },
+      };
+
+    case 'status_banned':
+      if (event.change_type !== 'status_change' || event.new_value?.item_status !== 'BANNED') return null;
+      return {
+        rule,
+        message: 'Sản phẩm chuyển sang trạng thái BANNED',
+        details: { old_status: event.old_value?.item_status, new_status: 'BANNED' },
+      };
+  }
+}
+
+export function evaluateAlertRules(rules: ProductAlertRule[], event: AlertEvent): AlertRuleHit[] {
+  return rules
+    .filter(rule => ruleApplies(rule, event))
+    .map(rule => evaluateRule(rule, event))
+    .filter((hit): hit is AlertRuleHit => hit !== null);
+}
+
+// ==================== INBOX ====================
+
+/** Alert cần xử lý: đang mở hoặc đã hết hạn tạm hoãn */
+export function isAlertActive(alert: { status: AlertStatus; snoozed_until: string | null }, now: Date = new Date()): boolean {
+  if (alert.status === 'open') return true;
+  if (alert.status === 'snoozed') return !alert.snoozed_until || new Date(alert.snoozed_until) <= now;
+  return false;
+}
@@ -0,0 +1,399 @@
+/**
+ * Product Content - logic dùng chung cho sửa nội dung sản phẩm (tên, mô tả, thuộc tính,
+ * thương hiệu, cân nặng / kích thước, ảnh): apishopee-product (get-content / push-content)
+ * và FE (ProductContentDialog).
+ *
+ * Nội dung được sửa trong bản nháp (apishopee_product_content_drafts, migration 088),
+ * kiểm tra theo yêu cầu thuộc tính của ngành hàng + giới hạn của shop rồi mới đẩy lên
+ * Shopee bằng update_item; chỉ các field khác bản gốc được gửi đi.
+ */
+
+// ==================== TYPES ====================
+
+export interface ProductAttributeValue {
+  /** 0 = giá trị tự nhập (original_value_name) */
+  value_id: number;
+  original_value_name?: string;
+  value_unit?: string;
+}
+
+export interface ProductAttribute {
+  attribute_id: number;
+  attribute_value_list: ProductAttributeValue[];
+}
+
+export interface ProductBrand {
+  /** 0 = No brand */
+  brand_id: number;
+  original_brand_name: string;
+}
+
+/** Kích thước đóng gói (cm) */
+export interface ProductDimension {
+  package_length: number;
+  package_width: number;
+  package_height: number;
+}
+
+export interface ProductImage {
+  image_id: string;
+  image_url: string;
+}
+
+export interface ProductContent {
+  item_name: string;
+  description: string;
+  attribute_list: ProductAttribute[];
+  brand: ProductBrand | null;
+  /** kg */
+  weight: number | null;
+  dimension: ProductDimension | null;
+  images: ProductImage[];
+}
+
+export type ProductContentField = keyof ProductContent;
+
+export type AttributeInputType = 'single_select' | 'single_combo' | 'text' | 'multi_select' | 'multi_combo';
+export type AttributeValidationType = 'none' | 'int' | 'string' | 'float' | 'date';
+
+/** Yêu cầu thuộc tính của ngành hàng (chuẩn hóa từ get_attribute_tree) */
+export interface CategoryAttribute {
+  attribute_id: number;
+  name: string;
+  is_mandatory: boolean;
+  input_type: AttributeInputType;
+  validation_type: AttributeValidationType;
+  /** Số giá trị tối đa cho thuộc tính chọn nhiều */
+  max_value_count: number | null;
+  units: string[];
+  values: Array<{ value_id: number; name: string }>;
+}
+
+export interface ProductContentLimits {
+  name_min: number;
+  name_max: number;
+  description_min: number;
+  description_max: number;
+  image_max: number;
+  brand_mandatory: boolean;
+}
+
+export interface ContentValidationError {
+  field: ProductContentField;
+  attribute_id?: number;
+  message: string;
+}
+
+// ==================== CONSTANTS ====================
+
+export const PRODUCT_CONTENT_FIELDS: ProductContentField[] = [
+  'item_name', 'description', 'attribute_list', 'brand', 'weight', 'dimension', 'images',
+];
+
+export const CONTENT_FIELD_LABELS: Record<ProductContentField, string> = {
+  item_name: 'tên',
+  description: 'mô tả',
+  attribute_list: 'thuộc tính',
+  brand: 'thương hiệu',
+  weight: 'cân nặng',
+  dimension: 'kích thước',
+  images: 'ảnh',
+};
+
+/** Giới hạn mặc định khi get_item_limit không trả về */
+export const DEFAULT_CONTENT_LIMITS: ProductContentLimits = {
+  name_min: 10,
+  name_max: 120,
+  description_min: 100,
+  description_max: 3000,
+  image_max: 9,
+  brand_mandatory: false,
+};
+
+/** input_type của get_attribute_tree */
+const INPUT_TYPES: Record<number, AttributeInputType> = {
+  1: 'single_select',
+  2: 'single_combo',
+  3: 'text',
+  4: 'multi_select',
+  5: 'multi_combo',
+};
+
+/** input_validation_type của get_attribute_tree */
+const VALIDATION_TYPES: Record<number, AttributeValidationType> = {
+  0: 'none',
+  1: 'int',
+  2: 'string',
+  3: 'float',
+  4: 'date',
+};
+
+// ==================== MAPPING ====================
+
+interface ShopeeBaseInfoContent {
+  item_name?: string;
+  description?: string;
+  description_info?: {
+    extended_description?: { field_list?: Array<{ field_type: string; text?: string }> };
+  };
+  attribute_list?: Array<{
+    attribute_id: number;
+    attribute_value_list?: Array<{ value_id: number; original_value_name?: string; value_unit?: string }>;
+  }>;
+  brand?: { brand_id: number; original_brand_name: string };
+  weight?: string | number;
+  dimension?: { package_length: number; package_width: number; package_height: number };
+  image?: { image_id_list?: string[]; image_url_list?: string[] };
+}
+
+/** Nội dung hiện tại của sản phẩm từ get_item_base_info */
+export function contentFromItem(item: ShopeeBaseInfoContent): ProductContent {
+  const extendedText = (item.description_info?.extended_description?.field_list || [])
+    .filter(f => f.field_type === 'text')
+    .map(f => f.text || '')
+    .join('\n');
+  const imageIds = item.image?.image_id_list || [];
+  const imageUrls = item.image?.image_url_list || [];
+  const weight = Number(item.weight);
+  const dimension = item.dimension;
+
+  return {
+    item_name: item.item_name || '',
+    description: item.description ?? extendedText,
+    attribute_list: (item.attribute_list || []).map(a => ({
+      attribute_id: a.attribute_id,
+      attribute_value_list: (a.attribute_value_list || []).map(v => ({
+        value_id: v.value_id,
+        ...(v.original_value_name ? { original_value_name: v.original_value_name } : {}),
+        ...(v.value_unit ? { value_unit: v.value_unit } : {}),
+      })),
+    })),
+    brand: item.brand ? { brand_id: item.brand.brand_id, original_brand_name: item.brand.original_brand_name } : null,
+    weight: weight > 0 ? weight : null,
+    dimension: dimension && dimension.package_length > 0
+      ? { package_length: dimension.package_length, package_width: dimension.package_width, package_height: dimension.package_height }
+      : null,
+    images: imageIds.map((id, i) => ({ image_id: id, image_url: imageUrls[i] || '' })),
+  };
+}
+
+interface ShopeeAttributeTreeNode {
+  attribute_id: number;
+  mandatory?: boolean;
+  name?: string;
+  attribute_info?: {
+    input_type?: number;
+    input_validation_type?: number;
+    max_value_count?: number;
+    attribute_unit_list?: string[];
+  };
+  attribute_value_list?: Array<{ value_id: number; name?: string }>;
+  multi_lang?: Array<{ language: string; value: string }>;
+}
+
+/** Chuẩn hóa attribute_tree của 1 ngành hàng (get_attribute_tree) */
+export function normalizeAttributeTree(tree: ShopeeAttributeTreeNode[]): CategoryAttribute[] {
+  return tree.map(node => ({
+    attribute_id: node.attribute_id,
+    name: node.multi_lang?.find(l => l.language === 'vi')?.value || node.name || `#${node.attribute_id}`,
+    is_mandatory: !!node.mandatory,
+    input_type: INPUT_TYPES[node.attribute_info?.input_type ?? 3] || 'text',
+    validation_type: VALIDATION_TYPES[node.attribute_info?.input_validation_type ?? 0] || 'none',
+    max_value_count: node.attribute_info?.max_value_count || null,
+    units: node.attribute_info?.attribute_unit_list || [],
+    values: (node.attribute_value_list || []).map(v => ({ value_id: v.value_id, name: v.name || String(v.value_id) })),
+  }));
+}
+
+interface ShopeeItemLimit {
+  item_name_length_limit?: { min_limit?: number; max_limit?: number };
+  item_description_length_limit?: { min_limit?: number; max_limit?: number };
+  item_image_count_limit?: { max_limit?: number };
+}
+
+/** Giới hạn của shop từ get_item_limit; thiếu field nào thì dùng mặc định */
+export function limitsFromItemLimit(limit: ShopeeItemLimit | undefined, brandMandatory: boolean): ProductContentLimits {
+  return {
+    name_min: limit?.item_name_length_limit?.min_limit ?? DEFAULT_CONTENT_LIMITS.name_min,
+    name_max: limit?.item_name_length_limit?.max_limit ?? DEFAULT_CONTENT_LIMITS.name_max,
+    description_min: limit?.item_description_length_limit?.min_limit ?? DEFAULT_CONTENT_LIMITS.description_min,
+    description_max: limit?.item_description_length_limit?.max_limit ?? DEFAULT_CONTENT_LIMITS.description_max,
+    image_max: limit?.item_image_count_limit?.max_limit ?? DEFAULT_CONTENT_LIMITS.image_max,
+    brand_mandatory: brandMandatory,
+  };
+}
+
+// ==================== DIFF ====================
+
+/** So sánh không phụ thuộc thứ tự thuộc tính (thứ tự ảnh thì có ý nghĩa - ảnh đầu là ảnh bìa) */
+function comparable(content: ProductContent, field: ProductContentField): string {
+  if (field === 'attribute_list') {
+    return JSON.stringify(
+      content.attribute_list
+        .filter(a => a.attribute_value_list.length > 0)
+        .slice()
+        .sort((a, b) => a.attribute_id - b.attribute_id)
+    );
+  }
+  if (field === 'images') return JSON.stringify(content.images.map(i => i.image_id));
+  if (field === 'brand') return JSON.stringify(content.brand?.brand_id ?? null);
+  if (field === 'item_name' || field === 'description') return content[field].trim();
+  return JSON.stringify(content[field]);
+}
+
+/** Các field của bản nháp khác bản gốc */
+export function diffContent(base: ProductContent, draft: ProductContent): ProductContentField[] {
+  return PRODUCT_CONTENT_FIELDS.filter(field => comparable(base, field) !== comparable(draft, field));
+}
+
+/**
+ * Field đã bị đổi trên Shopee kể từ lúc tạo bản nháp và bản nháp cũng sửa -
+ * đẩy lên sẽ ghi đè thay đổi đó
+ */
+export function conflictingFields(
+  base: ProductContent,
+  current: ProductContent,
+  changed: ProductContentField[]
+): ProductContentField[] {
+  const changedOnShopee = new Set(diffContent(base, current));
+  return changed.filter(field => changedOnShopee.has(field));
+}
+
+export function contentChangeSummary(fields: ProductContentField[]): string {
+  return `Cập nhật nội dung: ${fields.map(f => CONTENT_FIELD_LABELS[f]).join(', ')}`;
+}
+
+/** Giá trị cũ / mới của các field đã đổi để ghi history (ảnh chỉ lưu image_id) */
+export function contentChangeValues(
+  content: ProductContent,
+  fields: ProductContentField[]
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const field of fields) {
+    values[field] = field === 'images' ? content.images.map(i => i.image_id) : content[field];
+  }
+  return values;
+}
+
+// ==================== VALIDATION ====================
+
+function attributeValueError(attribute: CategoryAttribute, value: ProductAttributeValue): string | null {
+  const isSelect = attribute.input_type === 'single_select' || attribute.input_type === 'multi_select';
+  if (value.value_id) {
+    if (attribute.values.length > 0 && !attribute.values.some(v => v.value_id === value.value_id)) {
+      return `${attribute.name}: giá trị không thuộc danh sách của ngành hàng`;
+    }
+    return null;
+  }
+  if (isSelect) return `${attribute.name}: phải chọn giá trị trong danh sách`;
+
+  const text = (value.original_value_name || '').trim();
+  if (!text) return `${attribute.name}: giá trị trống`;
+  if (attribute.validation_type === 'int' && !/^-?\d+$/.test(text)) return `${attribute.name}: phải là số nguyên`;
+  if (attribute.validation_type === 'float' && !Number.isFinite(Number(text))) return `${attribute.name}: phải là số`;
+  if (attribute.units.length > 0 && value.value_unit && !attribute.units.includes(value.value_unit)) {
+    return `${attribute.name}: đơn vị không hợp lệ`;
+  }
+  return null;
+}
+
+/**
+ * Kiểm tra nội dung trước khi đẩy lên Shopee: giới hạn tên / mô tả / ảnh của shop,
+ * cân nặng / kích thước, thương hiệu bắt buộc và thuộc tính theo yêu cầu của ngành hàng
+ */
+export function validateContent(
+  content: ProductContent,
+  attributes: CategoryAttribute[],
+  limits: ProductContentLimits = DEFAULT_CONTENT_LIMITS
+): ContentValidationError[] {
+  const errors: ContentValidationError[] = [];
+
+  const nameLength = content.item_name.trim().length;
+  if (nameLength < limits.name_min || nameLength > limits.name_max) {
+    errors.push({ field: 'item_name', message: `Tên sản phẩm phải từ ${limits.name_min} đến ${limits.name_max} ký tự` });
+  }
+
+  const descriptionLength = content.description.trim().length;
+  if (descriptionLength < limits.description_min || descriptionLength > limits.description_max) {
+    errors.push({ field: 'description', message: `Mô tả phải từ ${limits.description_min} đến ${limits.description_max} ký tự` });
+  }
+
+  if (content.images.length === 0 || content.images.length > limits.image_max) {
+    errors.push({ field: 'images', message: `Cần từ 1 đến ${limits.image_max} ảnh` });
+  }
+
+  if (!content.weight || content.weight <= 0) {
+    errors.push({ field: 'weight', message: 'Cân nặng phải lớn hơn 0' });
+  }
+
+  if (content.dimension) {
+    const { package_length, package_width, package_height } = content.dimension;
+    if (![package_length, package_width, package_height].every(v => Number.isInteger(v) && v > 0)) {
+      errors.push({ field: 'dimension', message: 'Kích thước phải là số nguyên dương (cm) cho cả dài, rộng, cao' });
+    }
+  }
+
+  if (limits.brand_mandatory && !content.brand?.brand_id) {
+    errors.push({ field: 'brand', message: 'Ngành hàng này bắt buộc chọn thương hiệu' });
+  }
+
+  const valuesById = new Map(content.attribute_list.map(a => [a.attribute_id, a.attribute_value_list]));
+  for (const attribute of attributes) {
+    const values = valuesById.get(attribute.attribute_id) || [];
+    if (values.length === 0) {
+      if (attribute.is_mandatory) {
+        errors.push({ field: 'attribute_list', attribute_id: attribute.attribute_id, message: `${attribute.name}: bắt buộc` });
+      }
+      continue;
+    }
+
+    const isMulti = attribute.input_type === 'multi_select' || attribute.input_type === 'multi_combo';
+    const maxCount = isMulti ? attribute.max_value_count : 1;
+    if (maxCount && values.length > maxCount) {
+      errors.push({ field: 'attribute_list', attribute_id: attribute.attribute_id, message: `${attribute.name}: tối đa ${maxCount} giá trị` });
+      continue;
+    }
+
+    const valueError = values.map(v => attributeValueError(attribute, v)).find(Boolean);
+    if (valueError) errors.push({ field: 'attribute_list', attribute_id: attribute.attribute_id, message: valueError });
+  }
+
+  return errors;
+}
+
+// ==================== PUSH ====================
+
+/** Body update_item chỉ gồm các field đã đổi */
+export function buildUpdateItemBody(
+  itemId: number,
+  content: ProductContent,
+  fields: ProductContentField[]
+): Record<string, unknown> {
+  const body: Record<string, unknown> = { item_id: itemId };
+  for (const field of fields) {
+    switch (field) {
+      case 'item_name':
+        body.item_name = content.item_name.trim();
+        break;
+      case 'description':
+        body.description = content.description.trim();
+        break;
+      case 'attribute_list':
+        body.attribute_list = content.attribute_list.filter(a => a.attribute_value_list.length > 0);
+        break;
+      case 'brand':
+        body.brand = content.brand ?? { brand_id: 0, original_brand_name: 'NoBrand' };
+        break;
+      case 'weight':
+        body.weight = content.weight;
+        break;
+      case 'dimension':
+        if (content.dimension) body.dimension = content.dimension;
+        break;
+      case 'images':
+        body.image = { image_id_list: content.images.map(i => i.image_id) };
+        break;
+    }
+  }
+  return body;
+}
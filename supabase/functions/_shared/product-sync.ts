@@ -0,0 +1,305 @@
+/**
+ * Product Sync - logic dùng chung cho worker job product_sync (worker/src/jobs/product-sync.ts)
+ * và FE (hiển thị tiến độ).
+ *
+ * Một lần sync đi qua 2 phase, trạng thái lưu trong apishopee_sync_status.products_sync_cursor
+ * (migration 087) sau mỗi trang / batch nên job bị ngắt giữa chừng chạy tiếp được từ cursor:
+ * - list: phân trang get_item_list theo từng item_status
+ * - details: get_item_base_info + get_model_list theo batch, upsert DB, ghi history
+ *
+ * incremental: chỉ item có update_time trong [products_update_time_cursor, started_at],
+ *   kể cả SELLER_DELETE / SHOPEE_DELETE để bắt sản phẩm bị xóa
+ * full: liệt kê toàn bộ shop, item có trong DB mà không còn trên Shopee bị xóa (reconciliation)
+ */
+
+// ==================== TYPES ====================
+
+export type ProductSyncMode = 'incremental' | 'full';
+export type ProductSyncPhase = 'list' | 'details';
+
+export interface ProductSyncCursor {
+  mode: ProductSyncMode;
+  phase: ProductSyncPhase;
+  /** Unix seconds lúc bắt đầu - thành products_update_time_cursor khi xong */
+  started_at: number;
+  /** incremental: update_time_from của lần list này */
+  update_time_from: number | null;
+  /** Vị trí phân trang trong phase list */
+  status_index: number;
+  offset: number;
+  /** Item còn trên Shopee đã liệt kê (full: toàn bộ, incremental: đã thay đổi) */
+  listed_ids: number[];
+  /** Item Shopee báo đã xóa (chỉ incremental) */
+  deleted_ids: number[];
+  /** Item chưa lấy chi tiết trong phase details */
+  pending_ids: number[];
+  processed: number;
+  total: number;
+  /** Cộng dồn qua các lần chạy tiếp */
+  counts: ProductSyncCounts;
+  job_id?: string;
+}
+
+export interface ProductSyncCounts {
+  inserted: number;
+  updated: number;
+  deleted: number;
+  models: number;
+  history_logs: number;
+}
+
+export interface ShopeeItemBasic {
+  item_id: number;
+  item_status: string;
+  update_time: number;
+}
+
+export interface ShopeeProduct {
+  item_id: number;
+  item_name: string;
+  item_sku: string;
+  item_status: string;
+  create_time: number;
+  update_time: number;
+  category_id: number;
+  has_model: boolean;
+  image?: { image_url_list?: string[]; image_id_list?: string[] };
+  price_info?: Array<{ current_price: number; original_price: number; currency?: string }>;
+  stock_info_v2?: {
+    summary_info?: { total_reserved_stock: number; total_available_stock: number };
+  };
+  brand?: { brand_id: number; original_brand_name: string };
+}
+
+export interface ShopeeModel {
+  model_id: number;
+  model_sku: string;
+  price_info?: Array<{ current_price: number; original_price: number; currency?: string }>;
+  stock_info_v2?: {
+    summary_info?: { total_reserved_stock: number; total_available_stock: number };
+  };
+  /** Fallback từ API cũ */
+  stock_info?: Array<{ stock_type: number; current_stock: number; normal_stock: number; reserved_stock: number }>;
+  tier_index: number[];
+}
+
+export interface TierVariation {
+  name: string;
+  option_list: Array<{ option: string; image?: { image_id?: string; image_url: string } }>;
+}
+
+/** Giá / tồn kho / trạng thái dùng để so sánh với DB và ghi history */
+export interface ProductSnapshot {
+  item_id: number;
+  item_name: string;
+  current_price: number;
+  original_price: number;
+  total_available_stock: number;
+  item_status: string;
+}
+
+// ==================== CONSTANTS ====================
+
+export const PRODUCT_LIST_STATUSES = ['NORMAL', 'UNLIST', 'BANNED'];
+export const PRODUCT_DELETED_STATUSES = ['SELLER_DELETE', 'SHOPEE_DELETE'];
+export const PRODUCT_LIST_PAGE_SIZE = 100;
+export const PRODUCT_DETAIL_BATCH_SIZE = 50;
+
+// ==================== CURSOR ====================
+
+export function listStatusesFor(mode: ProductSyncMode): string[] {
+  return mode === 'incremental' ? [...PRODUCT_LIST_STATUSES, ...PRODUCT_DELETED_STATUSES] : PRODUCT_LIST_STATUSES;
+}
+
+/**
+ * Cursor cho lần sync mới. Chưa có products_update_time_cursor (shop chưa sync lần nào) thì
+ * incremental không có mốc để so - chạy full.
+ */
+export function startProductSyncCursor(
+  mode: ProductSyncMode,
+  nowSec: number,
+  updateTimeCursor: number | null
+): ProductSyncCursor {
+  const effectiveMode = mode === 'incremental' && !updateTimeCursor ? 'full' : mode;
+  return {
+    mode: effectiveMode,
+    phase: 'list',
+    started_at: nowSec,
+    update_time_from: effectiveMode === 'incremental' ? updateTimeCursor : null,
+    status_index: 0,
+    offset: 0,
+    listed_ids: [],
+    deleted_ids: [],
+    pending_ids: [],
+    processed: 0,
+    total: 0,
+    counts: { inserted: 0, updated: 0, deleted: 0, models: 0, history_logs: 0 },
+  };
+}
+
+/** Ghi nhận 1 trang get_item_list và chuyển sang trang / status kế tiếp, hết list thì sang details */
+export function advanceListCursor(
+  cursor: ProductSyncCursor,
+  page: { items: ShopeeItemBasic[]; hasNextPage: boolean; nextOffset?: number }
+): ProductSyncCursor {
+  const statuses = listStatusesFor(cursor.mode);
+  const status = statuses[cursor.status_index];
+  const ids = page.items.map(i => i.item_id);
+  const isDeleted = PRODUCT_DELETED_STATUSES.includes(status);
+
+  const next: ProductSyncCursor = {
+    ...cursor,
+    listed_ids: isDeleted ? cursor.listed_ids : unique([...cursor.listed_ids, ...ids]),
+    deleted_ids: isDeleted ? unique([...cursor.deleted_ids, ...ids]) : cursor.deleted_ids,
+  };
+
+  if (page.hasNextPage && ids.length > 0) {
+    return { ...next, offset: page.nextOffset || cursor.offset + PRODUCT_LIST_PAGE_SIZE };
+  }
+  if (cursor.status_index + 1 < statuses.length) {
+    return { ...next, status_index: cursor.status_index + 1, offset: 0 };
+  }
+
+  // Item vừa bị xóa thì không lấy chi tiết nữa
+  const deleted = new Set(next.deleted_ids);
+  const pending = next.listed_ids.filter(id => !deleted.has(id));
+  return { ...next, phase: 'details', pending_ids: pending, processed: 0, total: pending.length };
+}
+
+/** Batch item tiếp theo cần lấy chi tiết */
+export function nextDetailBatch(cursor: ProductSyncCursor, size = PRODUCT_DETAIL_BATCH_SIZE): number[] {
+  return cursor.pending_ids.slice(0, size);
+}
+
+export function completeDetailBatch(
+  cursor: ProductSyncCursor,
+  ids: number[],
+  counts: Partial<ProductSyncCounts> = {}
+): ProductSyncCursor {
+  const done = new Set(ids);
+  return {
+    ...cursor,
+    pending_ids: cursor.pending_ids.filter(id => !done.has(id)),
+    processed: cursor.processed + ids.length,
+    counts: addSyncCounts(cursor.counts, counts),
+  };
+}
+
+export function addSyncCounts(a: ProductSyncCounts, b: Partial<ProductSyncCounts>): ProductSyncCounts {
+  return {
+    inserted: a.inserted + (b.inserted || 0),
+    updated: a.updated + (b.updated || 0),
+    deleted: a.deleted + (b.deleted || 0),
+    models: a.models + (b.models || 0),
+    history_logs: a.history_logs + (b.history_logs || 0),
+  };
+}
+
+export function isSyncFinished(cursor: ProductSyncCursor): boolean {
+  return cursor.phase === 'details' && cursor.pending_ids.length === 0;
+}
+
+/**
+ * Item cần xóa khỏi DB: incremental = item Shopee báo đã xóa,
+ * full = item trong DB không còn trong danh sách đầy đủ
+ */
+export function itemsToRemove(cursor: ProductSyncCursor, dbItemIds: number[]): number[] {
+  if (cursor.mode === 'incremental') {
+    const db = new Set(dbItemIds);
+    return cursor.deleted_ids.filter(id => db.has(id));
+  }
+  // Danh sách rỗng nhiều khả năng là lỗi phía Shopee - không xóa cả shop
+  if (cursor.listed_ids.length === 0) return [];
+  const listed = new Set(cursor.listed_ids);
+  return dbItemIds.filter(id => !listed.has(id));
+}
+
+/** Tiến độ để hiển thị: phase list không biết tổng nên chỉ báo số item đã liệt kê */
+export function describeSyncProgress(cursor: ProductSyncCursor): { percent: number | null; label: string } {
+  if (cursor.phase === 'list') {
+    const status = listStatusesFor(cursor.mode)[cursor.status_index] ?? '';
+    return { percent: null, label: `Đang liệt kê sản phẩm ${status} (${cursor.listed_ids.length})` };
+  }
+  const percent = cursor.total > 0 ? Math.round((cursor.processed / cursor.total) * 100) : 100;
+  return { percent, label: `Đang cập nhật ${cursor.processed}/${cursor.total} sản phẩm` };
+}
+
+function unique(ids: number[]): number[] {
+  return [...new Set(ids)];
+}
+
+// ==================== MAPPING ====================
+
+export function getModelStock(model: ShopeeModel): number {
+  if (model.stock_info_v2?.summary_info?.total_available_stock !== undefined) {
+    return model.stock_info_v2.summary_info.total_available_stock;
+  }
+  if (model.stock_info && model.stock_info.length > 0) {
+    return model.stock_info.reduce((sum, s) => sum + (s.current_stock || s.normal_stock || 0), 0);
+  }
+  return 0;
+}
+
+export function getModelPrice(model: ShopeeModel): { current: number; original: number } {
+  const price = model.price_info?.[0];
+  return { current: price?.current_price || 0, original: price?.original_price || 0 };
+}
+
+/** Tên phân loại từ tier variations ("Đỏ - XL"), fallback model_sku */
+export function modelNameOf(model: ShopeeModel, tiers: TierVariation[]): string {
+  const parts = (model.tier_index || [])
+    .map((idx, i) => tiers[i]?.option_list?.[idx]?.option || '')
+    .filter(Boolean);
+  return parts.length > 0 ? parts.join(' - ') : model.model_sku || '';
+}
+
+/** Ảnh phân loại lấy từ tier đầu tiên */
+export function modelImageOf(model: ShopeeModel, tiers: TierVariation[]): string | null {
+  const firstIdx = model.tier_index?.[0];
+  if (firstIdx === undefined) return null;
+  return tiers[0]?.option_list?.[firstIdx]?.image?.image_url || null;
+}
+
+/**
+ * Giá / tồn kho cấp sản phẩm: có phân loại thì giá thấp nhất, giá gốc cao nhất, tổng tồn kho
+ */
+export function aggregateProductPricing(
+  product: ShopeeProduct,
+  models: ShopeeModel[]
+): { current_price: number; original_price: number; total_available_stock: number } {
+  if (models.length === 0) {
+    return {
+      current_price: product.price_info?.[0]?.current_price || 0,
+      original_price: product.price_info?.[0]?.original_price || 0,
+      total_available_stock: product.stock_info_v2?.summary_info?.total_available_stock || 0,
+    };
+  }
+
+  let totalStock = 0;
+  let minPrice = Infinity;
+  let maxPrice = 0;
+  let maxOriginal = 0;
+  for (const model of models) {
+    const price = getModelPrice(model);
+    totalStock += getModelStock(model);
+    if (price.current > 0) {
+      minPrice = Math.min(minPrice, price.current);
+      maxPrice = Math.max(maxPrice, price.current);
+    }
+    maxOriginal = Math.max(maxOriginal, price.original);
+  }
+
+  return {
+    current_price: minPrice === Infinity ? 0 : minPrice,
+    original_price: maxOriginal > 0 ? maxOriginal : maxPrice,
+    total_available_stock: totalStock,
+  };
+}
+
+/** Khác biệt cần ghi history (giá, tồn kho, trạng thái, tên) */
+export function hasProductChanges(oldProduct: ProductSnapshot, newProduct: ProductSnapshot): boolean {
+  return oldProduct.current_price !== newProduct.current_price ||
+    oldProduct.total_available_stock !== newProduct.total_available_stock ||
+    oldProduct.item_status !== newProduct.item_status ||
+    oldProduct.item_name !== newProduct.item_name;
+}
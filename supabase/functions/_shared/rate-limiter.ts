@@ -0,0 +1,133 @@
+/**
+ * Adaptive Rate Limiter - Shared utility for Edge Functions
+ * Dùng chung state với EC2 worker qua bảng shopee_rate_limit_state (migration 081)
+ *
+ * - waitForRateLimit(): chờ hết backoff đã học cho (partner app, API path)
+ * - reportRateLimitResult(): báo error_rate_limit / HTTP 429 (giảm rate + backoff)
+ *   hoặc success (gom nhiều lần mới gọi RPC)
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+interface RateLimitState {
+  rate_per_sec: number;
+  backoff_until: string | null;
+}
+
+// Edge function không nên giữ request quá lâu — backoff dài hơn thì trả lỗi luôn
+const MAX_WAIT_MS = 10_000;
+const STATE_CACHE_TTL_MS = 5_000;
+const SUCCESS_FLUSH_THRESHOLD = 20;
+
+const stateCache = new Map<string, { state: RateLimitState; fetchedAt: number }>();
+const pendingSuccesses = new Map<string, number>();
+
+function cacheKey(partnerId: number, path: string): string {
+  return `${partnerId}|${path}`;
+}
+
+async function getState(
+  supabase: SupabaseClient,
+  partnerId: number,
+  path: string
+): Promise<RateLimitState | null> {
+  const key = cacheKey(partnerId, path);
+  const cached = stateCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < STATE_CACHE_TTL_MS) {
+    return cached.state;
+  }
+
+  const { data, error } = await supabase.rpc('get_rate_limit_state', {
+    p_partner_id: partnerId,
+    p_api_path: path,
+  });
+
+  // Limiter không được chặn API call khi DB lỗi
+  if (error) {
+    console.error('[RATE-LIMIT] State lookup error:', error.message);
+    return null;
+  }
+
+  stateCache.set(key, { state: data as RateLimitState, fetchedAt: Date.now() });
+  return data as RateLimitState;
+}
+
+/**
+ * Kiểm tra response có phải bị Shopee rate limit không
+ */
+export function isRateLimitResponse(result: unknown, httpStatus?: number): boolean {
+  if (httpStatus === 429) return true;
+  return (result as { error?: string } | null)?.error === 'error_rate_limit';
+}
+
+/**
+ * Chờ hết backoff của (partner, path).
+ * @returns 0 nếu có thể gọi, hoặc số ms còn lại nếu backoff dài hơn MAX_WAIT_MS (caller nên trả 429)
+ */
+export async function waitForRateLimit(
+  supabase: SupabaseClient,
+  partnerId: number,
+  path: string
+): Promise<number> {
+  const state = await getState(supabase, partnerId, path);
+  if (!state?.backoff_until) return 0;
+
+  const waitMs = new Date(state.backoff_until).getTime() - Date.now();
+  if (waitMs <= 0) return 0;
+  if (waitMs > MAX_WAIT_MS) return waitMs;
+
+  console.log(`[RATE-LIMIT] Backoff ${waitMs}ms for partner ${partnerId} ${path}`);
+  await new Promise(resolve => setTimeout(resolve, waitMs));
+  return 0;
+}
+
+/**
+ * Báo kết quả API call cho limiter dùng chung.
+ * Throttle được báo ngay (await), success được gom theo SUCCESS_FLUSH_THRESHOLD (fire-and-forget).
+ */
+export async function reportRateLimitResult(
+  supabase: SupabaseClient,
+  params: {
+    partnerId: number;
+    path: string;
+    source: string;
+    result: unknown;
+    httpStatus?: number;
+  }
+): Promise<void> {
+  const { partnerId, path, source, result, httpStatus } = params;
+  if (!partnerId) return;
+  const key = cacheKey(partnerId, path);
+
+  if (isRateLimitResponse(result, httpStatus)) {
+    const { data, error } = await supabase.rpc('report_rate_limit_throttle', {
+      p_partner_id: partnerId,
+      p_api_path: path,
+      p_source: source,
+      p_http_status: httpStatus ?? null,
+      p_shopee_error: (result as { error?: string } | null)?.error || null,
+    });
+    if (error) {
+      console.error('[RATE-LIMIT] Throttle report error:', error.message);
+      return;
+    }
+    stateCache.set(key, { state: data as RateLimitState, fetchedAt: Date.now() });
+    console.warn(`[RATE-LIMIT] Throttled partner ${partnerId} ${path}, backoff until ${(data as RateLimitState).backoff_until}`);
+    return;
+  }
+
+  const count = (pendingSuccesses.get(key) || 0) + 1;
+  if (count < SUCCESS_FLUSH_THRESHOLD) {
+    pendingSuccesses.set(key, count);
+    return;
+  }
+
+  pendingSuccesses.delete(key);
+  supabase.rpc('report_rate_limit_success', {
+    p_partner_id: partnerId,
+    p_api_path: path,
+    p_count: count,
+  }).then(({ error }) => {
+    if (error) console.error('[RATE-LIMIT] Success report error:', error.message);
+  });
+}
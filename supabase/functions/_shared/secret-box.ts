@@ -0,0 +1,162 @@
+/**
+ * Secret Box - envelope encryption cho partner_key / access_token / refresh_token lưu trong DB
+ * (apishopee_shops, apishopee_partner_apps, apishopee_shop_app_tokens).
+ *
+ * Mỗi giá trị được mã hóa AES-256-GCM bằng 1 data key ngẫu nhiên; data key được mã hóa bằng
+ * key-encryption key (KEK) có version lấy từ env:
+ *   SHOPEE_SECRET_KEYS          "k2:<base64 32 bytes>,k1:<base64 32 bytes>"
+ *   SHOPEE_SECRET_ACTIVE_KEY_ID key dùng để mã hóa mới (mặc định key đầu tiên)
+ * Giá trị lưu dạng `enc:v1:<kid>:<data key đã mã hóa>:<ciphertext>` (base64, IV đứng đầu).
+ *
+ * Chỉ dùng ở Edge Functions và worker (Web Crypto có sẵn trên Deno và Node 20).
+ * Giá trị chưa mã hóa (dữ liệu cũ) được trả nguyên khi mở để shop đang chạy không bị gián đoạn;
+ * lệnh rotate trong worker (npm run rotate:secrets) mã hóa lại mọi dòng bằng key đang active.
+ */
+
+export const SECRET_PREFIX = 'enc:v1:';
+
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+
+export interface SecretKeyring {
+  activeKeyId: string;
+  keys: Map<string, CryptoKey>;
+}
+
+// ==================== ENCODING ====================
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function encryptBytes(key: CryptoKey, plain: Uint8Array<ArrayBuffer>): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const cipher = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plain));
+  const out = new Uint8Array(IV_BYTES + cipher.length);
+  out.set(iv);
+  out.set(cipher, IV_BYTES);
+  return toBase64(out);
+}
+
+async function decryptBytes(key: CryptoKey, encoded: string): Promise<Uint8Array<ArrayBuffer>> {
+  const bytes = fromBase64(encoded);
+  const iv = bytes.slice(0, IV_BYTES);
+  return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, bytes.slice(IV_BYTES)));
+}
+
+function importAesKey(raw: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+// ==================== KEYRING ====================
+
+/**
+ * Đọc keyring từ chuỗi env SHOPEE_SECRET_KEYS. Trả null khi chưa cấu hình
+ * (giai đoạn chuyển đổi: ghi plaintext như trước).
+ */
+export async function importSecretKeyring(spec: string | undefined, activeKeyId?: string): Promise<SecretKeyring | null> {
+  const entries = (spec || '').split(',').map(s => s.trim()).filter(Boolean);
+  if (entries.length === 0) return null;
+
+  const keys = new Map<string, CryptoKey>();
+  for (const entry of entries) {
+    const separator = entry.indexOf(':');
+    const keyId = entry.slice(0, separator);
+    if (separator <= 0 || keyId.includes(':')) throw new Error(`Invalid secret key entry "${keyId || entry.slice(0, 8)}"`);
+    const raw = fromBase64(entry.slice(separator + 1));
+    if (raw.length !== KEY_BYTES) throw new Error(`Secret key ${keyId} must be ${KEY_BYTES} bytes`);
+    keys.set(keyId, await importAesKey(raw));
+  }
+
+  const active = activeKeyId || entries[0].slice(0, entries[0].indexOf(':'));
+  if (!keys.has(active)) throw new Error(`Active secret key ${active} is not in SHOPEE_SECRET_KEYS`);
+  return { activeKeyId: active, keys };
+}
+
+/** Keyring theo env của runtime, import 1 lần cho mỗi instance */
+export function createKeyringLoader(getEnv: (name: string) => string | undefined): () => Promise<SecretKeyring | null> {
+  let keyring: Promise<SecretKeyring | null> | null = null;
+  return () => {
+    keyring ??= importSecretKeyring(getEnv('SHOPEE_SECRET_KEYS'), getEnv('SHOPEE_SECRET_ACTIVE_KEY_ID') || undefined);
+    return keyring;
+  };
+}
+
+// ==================== SEAL / OPEN ====================
+
+export function isSealedSecret(value: string | null | undefined): value is string {
+  return typeof value === 'string' && value.startsWith(SECRET_PREFIX);
+}
+
+/** kid của giá trị đã mã hóa, null nếu là plaintext */
+export function sealedKeyId(value: string | null | undefined): string | null {
+  if (!isSealedSecret(value)) return null;
+  return value.slice(SECRET_PREFIX.length).split(':')[0] || null;
+}
+
+/** Mã hóa bằng key active; chưa có keyring thì giữ nguyên. Giá trị đã mã hóa không mã hóa lần nữa. */
+export async function sealSecret(plaintext: string, keyring: SecretKeyring | null): Promise<string> {
+  if (!keyring || isSealedSecret(plaintext)) return plaintext;
+
+  const dataKeyRaw = crypto.getRandomValues(new Uint8Array(KEY_BYTES));
+  const dataKey = await importAesKey(dataKeyRaw);
+  const wrappedKey = await encryptBytes(keyring.keys.get(keyring.activeKeyId)!, dataKeyRaw);
+  const cipher = await encryptBytes(dataKey, new TextEncoder().encode(plaintext));
+  return `${SECRET_PREFIX}${keyring.activeKeyId}:${wrappedKey}:${cipher}`;
+}
+
+/** Giải mã; plaintext (dữ liệu chưa chuyển đổi) trả nguyên */
+export async function openSecret(value: string, keyring: SecretKeyring | null): Promise<string> {
+  if (!isSealedSecret(value)) return value;
+
+  const [keyId, wrappedKey, cipher] = value.slice(SECRET_PREFIX.length).split(':');
+  const kek = keyring?.keys.get(keyId);
+  if (!kek) throw new Error(`Secret key ${keyId} is not configured (SHOPEE_SECRET_KEYS)`);
+  if (!wrappedKey || !cipher) throw new Error('Malformed sealed secret');
+
+  const dataKey = await importAesKey(await decryptBytes(kek, wrappedKey));
+  return new TextDecoder().decode(await decryptBytes(dataKey, cipher));
+}
+
+/** Cần mã hóa lại: còn plaintext hoặc mã hóa bằng key khác key active */
+export function needsReseal(value: string | null | undefined, keyring: SecretKeyring): boolean {
+  if (!value) return false;
+  return sealedKeyId(value) !== keyring.activeKeyId;
+}
+
+export async function resealSecret(value: string, keyring: SecretKeyring): Promise<string> {
+  return sealSecret(await openSecret(value, keyring), keyring);
+}
+
+/** Giải mã các cột bí mật của 1 dòng (bỏ qua cột null / rỗng) */
+export async function openSecretFields<T extends object>(row: T, fields: Array<keyof T>, keyring: SecretKeyring | null): Promise<T> {
+  const opened = { ...row };
+  for (const field of fields) {
+    const value = row[field];
+    if (typeof value === 'string' && value) {
+      (opened as Record<keyof T, unknown>)[field] = await openSecret(value, keyring);
+    }
+  }
+  return opened;
+}
+
+/** Mã hóa các cột bí mật trước khi ghi DB (bỏ qua cột null / rỗng) */
+export async function sealSecretFields<T extends object>(row: T, fields: Array<keyof T>, keyring: SecretKeyring | null): Promise<T> {
+  const sealed = { ...row };
+  for (const field of fields) {
+    const value = row[field];
+    if (typeof value === 'string' && value) {
+      (sealed as Record<keyof T, unknown>)[field] = await sealSecret(value, keyring);
+    }
+  }
+  return sealed;
+}
@@ -0,0 +1,11 @@
+/**
+ * Secrets - keyring của Edge Functions (env SHOPEE_SECRET_KEYS / SHOPEE_SECRET_ACTIVE_KEY_ID)
+ * cho secret-box.ts. Worker có bản tương đương ở worker/src/lib/secrets.ts.
+ */
+
+import { createKeyringLoader } from './secret-box.ts';
+
+export * from './secret-box.ts';
+
+export const getSecretKeyring = createKeyringLoader(name => Deno.env.get(name));
+
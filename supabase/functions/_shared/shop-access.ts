@@ -0,0 +1,21 @@
+/**
+ * Shop Access - user gọi Edge Function có được thao tác trên shop không (migration 096)
+ *
+ * Admin: mọi shop. Leader: shop của mình và của thành viên mình quản lý. Member: shop của mình.
+ * Cùng định nghĩa với RLS "Team can view shop rows" (can_access_shop / user_visible_shop_ids).
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export async function canAccessShop(
+  supabase: SupabaseClient,
+  shopId: number,
+  userId: string
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc('can_access_shop', { p_user_id: userId, p_shop_id: shopId });
+  if (error) {
+    console.error(`[SHOP-ACCESS] can_access_shop failed for ${userId} / ${shopId}:`, error.message);
+    return false;
+  }
+  return data === true;
+}
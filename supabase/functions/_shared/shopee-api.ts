@@ -0,0 +1,148 @@
+/**
+ * Shopee API - Shared wiring cho Edge Functions
+ * Gắn client dùng chung (shopee-client.ts) với DB, VPS proxy, adaptive rate limiter và api_call_logs.
+ * Worker có bản tương đương ở worker/src/lib/shopee-api.ts.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { logApiCall, createResponseSummary, type ApiCategory, type TriggeredBy } from './api-logger.ts';
+import { waitForRateLimit, reportRateLimitResult } from './rate-limiter.ts';
+import { getSecretKeyring, openSecret, openSecretFields, sealSecretFields } from './secrets.ts';
+import {
+  createShopeeClient,
+  createTransport,
+  SHOPEE_DEFAULT_BASE_URL,
+  type PartnerCredentials,
+  type ShopeeApiCallLog,
+  type ShopeeClient,
+  type ShopeeToken,
+} from './shopee-client.ts';
+
+export * from './shopee-client.ts';
+
+const DEFAULT_PARTNER_ID = Number(Deno.env.get('SHOPEE_PARTNER_ID'));
+const DEFAULT_PARTNER_KEY = Deno.env.get('SHOPEE_PARTNER_KEY') || '';
+const SHOPEE_BASE_URL = Deno.env.get('SHOPEE_BASE_URL') || SHOPEE_DEFAULT_BASE_URL;
+const PROXY_URL = Deno.env.get('SHOPEE_PROXY_URL') || '';
+
+export interface EdgeShopeeClientOptions {
+  edgeFunction: string;
+  apiCategory: ApiCategory;
+  userId?: string;
+  userEmail?: string;
+  triggeredBy?: TriggeredBy;
+  requestId?: string;
+  timeoutMs?: number;
+  /** Gọi sau khi đã ghi api_call_logs - cho caller cần HTTP status / duration */
+  onCall?(log: ShopeeApiCallLog): void;
+}
+
+/**
+ * Lấy partner credentials của shop, fallback env nếu shop chưa có
+ */
+export async function getPartnerCredentials(
+  supabase: SupabaseClient,
+  shopId: number
+): Promise<PartnerCredentials> {
+  const { data, error } = await supabase
+    .from('apishopee_shops')
+    .select('partner_id, partner_key')
+    .eq('shop_id', shopId)
+    .single();
+
+  if (data?.partner_id && data?.partner_key && !error) {
+    return { partnerId: data.partner_id, partnerKey: await openSecret(data.partner_key, await getSecretKeyring()) };
+  }
+  return { partnerId: DEFAULT_PARTNER_ID, partnerKey: DEFAULT_PARTNER_KEY };
+}
+
+/**
+ * Lấy token của shop từ apishopee_shops (nơi frontend/auth lưu token), đã giải mã
+ */
+export async function getShopToken(
+  supabase: SupabaseClient,
+  shopId: number
+): Promise<ShopeeToken & { shop_id: number; expired_at: number | null; merchant_id: number | null }> {
+  const { data, error } = await supabase
+    .from('apishopee_shops')
+    .select('shop_id, access_token, refresh_token, expired_at, merchant_id')
+    .eq('shop_id', shopId)
+    .single();
+
+  if (!error && data?.access_token) return openSecretFields(data, ['access_token', 'refresh_token'], await getSecretKeyring());
+  throw new Error('Token not found. Please authenticate first.');
+}
+
+export async function saveShopToken(
+  supabase: SupabaseClient,
+  shopId: number,
+  token: ShopeeToken
+): Promise<void> {
+  const expireIn = token.expire_in ?? 0;
+  const sealed = await sealSecretFields(
+    { access_token: token.access_token, refresh_token: token.refresh_token },
+    ['access_token', 'refresh_token'],
+    await getSecretKeyring()
+  );
+  const { error } = await supabase.from('apishopee_shops').upsert(
+    {
+      shop_id: shopId,
+      ...sealed,
+      expire_in: expireIn,
+      expired_at: Date.now() + expireIn * 1000,
+      token_updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'shop_id' }
+  );
+  if (error) throw error;
+}
+
+/**
+ * Client cho một partner app: proxy (nếu có SHOPEE_PROXY_URL), chờ backoff dùng chung
+ * (không retry trong edge function), lưu token khi auto-refresh, ghi api_call_logs.
+ */
+export function createEdgeShopeeClient(
+  supabase: SupabaseClient,
+  credentials: PartnerCredentials,
+  options: EdgeShopeeClientOptions
+): ShopeeClient {
+  return createShopeeClient({
+    credentials,
+    baseUrl: SHOPEE_BASE_URL,
+    transport: createTransport(PROXY_URL),
+    timeoutMs: options.timeoutMs,
+    rateLimiter: {
+      acquire: (partnerId, path) => waitForRateLimit(supabase, partnerId, path),
+      report: (partnerId, path, result, httpStatus) => reportRateLimitResult(supabase, {
+        partnerId, path, source: options.edgeFunction, result, httpStatus,
+      }),
+    },
+    saveToken: async (target, token) => {
+      if (target.shopId) await saveShopToken(supabase, target.shopId, token);
+    },
+    onApiCall: (log) => {
+      logApiCall(supabase, {
+        shopId: log.shopId,
+        partnerId: log.partnerId,
+        edgeFunction: options.edgeFunction,
+        apiEndpoint: log.apiEndpoint,
+        httpMethod: log.httpMethod,
+        apiCategory: options.apiCategory,
+        status: log.status,
+        shopeeError: log.shopeeError,
+        shopeeMessage: log.shopeeMessage,
+        httpStatusCode: log.httpStatusCode,
+        durationMs: log.durationMs,
+        requestParams: log.requestParams,
+        responseSummary: log.response ? createResponseSummary(log.response) : undefined,
+        retryCount: log.retryCount,
+        wasTokenRefreshed: log.wasTokenRefreshed,
+        userId: options.userId,
+        userEmail: options.userEmail,
+        triggeredBy: options.triggeredBy,
+        requestId: options.requestId,
+      });
+      options.onCall?.(log);
+    },
+  });
+}
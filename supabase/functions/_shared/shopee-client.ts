@@ -0,0 +1,410 @@
+/**
+ * Shopee Partner API client - dùng chung cho Edge Functions (Deno) và EC2 worker (Node 20)
+ *
+ * Không phụ thuộc package nào: chỉ dùng fetch + Web Crypto có sẵn ở cả hai runtime,
+ * worker compile trực tiếp file này (xem worker/tsconfig.json).
+ * Types theo endpoint sinh từ src/lib/docs/api-data.ts (shopee-endpoints.generated.ts).
+ * Những phần phụ thuộc runtime được inject qua ShopeeClientOptions:
+ * - transport: gọi thẳng hoặc qua VPS proxy (x-target-url)
+ * - saveToken: lưu token mới sau khi auto-refresh
+ * - rateLimiter: adaptive limiter dùng chung (migration 081)
+ * - onApiCall: ghi api_call_logs (logApiCall)
+ */
+
+import type { ShopeeEndpointPath, ShopeeEndpoints } from './shopee-endpoints.generated.ts';
+
+export * from './shopee-endpoints.generated.ts';
+
+// ==================== TYPES ====================
+
+/** public = partner-level, shop / merchant = có access_token */
+export type SigningLevel = 'public' | 'shop' | 'merchant';
+export type HttpMethod = 'GET' | 'POST';
+export type QueryValue = string | number | boolean | number[] | null | undefined;
+
+export interface PartnerCredentials {
+  partnerId: number;
+  partnerKey: string;
+}
+
+export interface ShopeeToken {
+  access_token: string;
+  refresh_token: string;
+  expire_in?: number;
+}
+
+export interface ShopeeResponse<T = Record<string, unknown>> {
+  /** Shopee trả về error = "" khi thành công */
+  error?: string;
+  message?: string;
+  request_id?: string;
+  warning?: unknown;
+  response?: T;
+  [key: string]: unknown;
+}
+
+export interface ShopeeTarget {
+  shopId?: number;
+  merchantId?: number;
+}
+
+export type ShopeeTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+/** Payload cho onApiCall - cùng shape với LogApiCallParams (thiếu phần caller tự điền) */
+export interface ShopeeApiCallLog {
+  shopId?: number;
+  partnerId: number;
+  apiEndpoint: string;
+  httpMethod: HttpMethod;
+  status: 'success' | 'failed' | 'timeout';
+  shopeeError?: string;
+  shopeeMessage?: string;
+  httpStatusCode?: number;
+  durationMs: number;
+  requestParams?: Record<string, unknown>;
+  response?: ShopeeResponse;
+  retryCount: number;
+  wasTokenRefreshed: boolean;
+}
+
+export interface ShopeeRateLimiter {
+  /** Trả về 0 nếu được gọi, hoặc số ms còn phải chờ (client trả error_rate_limit không gọi Shopee) */
+  acquire?(partnerId: number, path: string): Promise<number>;
+  /** Bọc request trong hàng đợi của runtime (Bottleneck ở worker) */
+  schedule?<T>(partnerId: number, path: string, fn: () => Promise<T>): Promise<T>;
+  report(partnerId: number, path: string, result: ShopeeResponse, httpStatus?: number): Promise<void>;
+}
+
+export interface ShopeeClientOptions {
+  credentials: PartnerCredentials;
+  baseUrl?: string;
+  transport?: ShopeeTransport;
+  timeoutMs?: number;
+  rateLimiter?: ShopeeRateLimiter;
+  /** Số lần gọi lại sau error_rate_limit / 429 (edge function để 0, worker chờ backoff rồi gọi lại) */
+  maxRateLimitRetries?: number;
+  /** Gọi sau khi auto-refresh thành công; lỗi khi lưu chỉ log, không chặn request */
+  saveToken?(target: ShopeeTarget, token: ShopeeToken): Promise<void>;
+  onApiCall?(log: ShopeeApiCallLog): void;
+}
+
+export interface ShopeeCallOptions<Req = Record<string, QueryValue>> extends ShopeeTarget {
+  method?: HttpMethod;
+  /** Mặc định: merchant nếu có merchantId, shop nếu có shopId, còn lại public */
+  level?: SigningLevel;
+  token?: ShopeeToken;
+  /** Query string (GET) */
+  params?: Req;
+  /** JSON body (POST) */
+  body?: Req;
+  /** Multipart body (POST) cho media_space upload, dùng thay body */
+  formData?: FormData;
+}
+
+export interface ShopeeClient {
+  readonly credentials: PartnerCredentials;
+  /** Path có trong catalogue (shopee-endpoints.generated.ts) được type params + response */
+  call<P extends ShopeeEndpointPath>(
+    path: P,
+    options?: ShopeeCallOptions<ShopeeEndpoints[P]['request']>
+  ): Promise<ShopeeEndpoints[P]['result']>;
+  call(path: string, options?: ShopeeCallOptions<Record<string, unknown>>): Promise<ShopeeResponse>;
+  refreshAccessToken(
+    target: ShopeeTarget,
+    refreshToken: string
+  ): Promise<ShopeeEndpoints['/api/v2/auth/access_token/get']['result']>;
+}
+
+// ==================== CONSTANTS ====================
+
+export const SHOPEE_DEFAULT_BASE_URL = 'https://partner.shopeemobile.com';
+export const SHOPEE_AUTH_TOKEN_PATH = '/api/v2/auth/access_token/get' as const;
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+// ==================== SIGNING ====================
+
+async function hmacSha256Hex(key: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Base string:
+ * - public:   partnerId + path + timestamp
+ * - shop:     partnerId + path + timestamp + accessToken + shopId
+ * - merchant: partnerId + path + timestamp + accessToken + merchantId
+ */
+export function buildSignBaseString(
+  level: SigningLevel,
+  partnerId: number,
+  path: string,
+  timestamp: number,
+  accessToken = '',
+  targetId = 0
+): string {
+  const base = `${partnerId}${path}${timestamp}`;
+  return level === 'public' ? base : `${base}${accessToken}${targetId}`;
+}
+
+export function createSignature(
+  partnerKey: string,
+  level: SigningLevel,
+  partnerId: number,
+  path: string,
+  timestamp: number,
+  accessToken = '',
+  targetId = 0
+): Promise<string> {
+  return hmacSha256Hex(partnerKey, buildSignBaseString(level, partnerId, path, timestamp, accessToken, targetId));
+}
+
+// ==================== TRANSPORT ====================
+
+export const directTransport: ShopeeTransport = (url, init) => fetch(url, init);
+
+/** VPS proxy có IP cố định đã whitelist với Shopee, nhận URL đích qua header x-target-url */
+export function createProxyTransport(proxyUrl: string): ShopeeTransport {
+  return (url, init) => fetch(proxyUrl, {
+    ...init,
+    headers: { ...(init.headers as Record<string, string> || {}), 'x-target-url': url },
+  });
+}
+
+/** Proxy nếu có SHOPEE_PROXY_URL, ngược lại gọi thẳng */
+export function createTransport(proxyUrl?: string): ShopeeTransport {
+  return proxyUrl ? createProxyTransport(proxyUrl) : directTransport;
+}
+
+// ==================== RESPONSE HELPERS ====================
+
+export function isRateLimitResponse(result: unknown, httpStatus?: number): boolean {
+  if (httpStatus === 429) return true;
+  return (result as { error?: string } | null)?.error === 'error_rate_limit';
+}
+
+/** Shopee trả error_auth hoặc invalid_access_token khi access_token hết hạn / bị thu hồi */
+export function isInvalidTokenResponse(result: ShopeeResponse): boolean {
+  return result.error === 'error_auth'
+    || result.error === 'invalid_access_token'
+    || (typeof result.message === 'string' && result.message.includes('Invalid access_token'));
+}
+
+function getCallStatus(result: ShopeeResponse): Pick<ShopeeApiCallLog, 'status' | 'shopeeError' | 'shopeeMessage'> {
+  if (!result.error) return { status: 'success' };
+  return {
+    status: result.error === 'timeout' ? 'timeout' : 'failed',
+    shopeeError: result.error,
+    shopeeMessage: result.message || undefined,
+  };
+}
+
+function resolveLevel(options: ShopeeCallOptions<unknown>): SigningLevel {
+  if (options.level) return options.level;
+  if (options.merchantId) return 'merchant';
+  if (options.shopId) return 'shop';
+  return 'public';
+}
+
+function appendQuery(query: URLSearchParams, params?: object): void {
+  if (!params) return;
+  for (const [key, value] of Object.entries(params) as Array<[string, QueryValue]>) {
+    if (value === undefined || value === null) continue;
+    query.append(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+}
+
+// ==================== CLIENT ====================
+
+export function createShopeeClient(options: ShopeeClientOptions): ShopeeClient {
+  const {
+    credentials,
+    baseUrl = SHOPEE_DEFAULT_BASE_URL,
+    transport = directTransport,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    rateLimiter,
+    maxRateLimitRetries = 0,
+  } = options;
+
+  /** Một lần gọi HTTP - không bao giờ throw, lỗi mạng/timeout trả về dạng ShopeeResponse */
+  const send = async (
+    url: string,
+    method: HttpMethod,
+    body: unknown
+  ): Promise<{ data: ShopeeResponse; httpStatus?: number }> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      // FormData: fetch tự đặt Content-Type kèm boundary
+      const isMultipart = body instanceof FormData;
+      const response = await transport(url, {
+        method,
+        headers: isMultipart ? {} : { 'Content-Type': 'application/json' },
+        body: method === 'POST' && body ? (isMultipart ? body : JSON.stringify(body)) : undefined,
+        signal: controller.signal,
+      });
+      // 429 từ gateway có thể không có JSON body
+      const data = await response.json().catch(() => ({
+        error: response.status === 429 ? 'error_rate_limit' : 'invalid_response',
+        message: `HTTP ${response.status} ${response.statusText}`,
+      })) as ShopeeResponse;
+      return { data, httpStatus: response.status };
+    } catch (fetchError) {
+      const err = fetchError as Error;
+      if (err.name === 'AbortError') {
+        return { data: { error: 'timeout', message: `Request timeout after ${timeoutMs}ms` } };
+      }
+      return { data: { error: 'network_error', message: err.message || 'Network request failed' } };
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const sendSigned = async (
+    path: string,
+    level: SigningLevel,
+    method: HttpMethod,
+    target: ShopeeTarget,
+    accessToken: string,
+    params: object | undefined,
+    body: unknown
+  ): Promise<{ data: ShopeeResponse; httpStatus?: number }> => {
+    const request = async () => {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const targetId = level === 'merchant' ? target.merchantId : target.shopId;
+      const sign = await createSignature(
+        credentials.partnerKey, level, credentials.partnerId, path, timestamp, accessToken, targetId
+      );
+
+      const query = new URLSearchParams({
+        partner_id: credentials.partnerId.toString(),
+        timestamp: timestamp.toString(),
+        sign,
+      });
+      if (level !== 'public') query.set('access_token', accessToken);
+      if (level === 'shop') query.set('shop_id', String(target.shopId));
+      if (level === 'merchant') query.set('merchant_id', String(target.merchantId));
+      appendQuery(query, params);
+
+      return send(`${baseUrl}${path}?${query.toString()}`, method, body);
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      const retryAfterMs = rateLimiter?.acquire ? await rateLimiter.acquire(credentials.partnerId, path) : 0;
+      if (retryAfterMs > 0) {
+        return {
+          data: { error: 'error_rate_limit', message: `Rate limit backoff, retry after ${Math.ceil(retryAfterMs / 1000)}s` },
+        };
+      }
+
+      const result = rateLimiter?.schedule
+        ? await rateLimiter.schedule(credentials.partnerId, path, request)
+        : await request();
+
+      // Lỗi mạng không nói gì về rate limit
+      if (rateLimiter && result.data.error !== 'network_error' && result.data.error !== 'timeout') {
+        await rateLimiter.report(credentials.partnerId, path, result.data, result.httpStatus);
+      }
+
+      if (!isRateLimitResponse(result.data, result.httpStatus) || attempt >= maxRateLimitRetries) {
+        return result;
+      }
+      console.warn(`[SHOPEE-CLIENT] Rate limited on ${path}, retry ${attempt + 1}/${maxRateLimitRetries}`);
+    }
+  };
+
+  const refreshAccessToken = async (target: ShopeeTarget, refreshToken: string) => {
+    const body: Record<string, unknown> = {
+      refresh_token: refreshToken,
+      partner_id: credentials.partnerId,
+    };
+    if (target.shopId) body.shop_id = target.shopId;
+    if (target.merchantId) body.merchant_id = target.merchantId;
+
+    const { data } = await sendSigned(SHOPEE_AUTH_TOKEN_PATH, 'public', 'POST', {}, '', undefined, body);
+    return data as ShopeeEndpoints[typeof SHOPEE_AUTH_TOKEN_PATH]['result'];
+  };
+
+  const call = async (path: string, callOptions: ShopeeCallOptions<unknown> = {}): Promise<ShopeeResponse> => {
+    const method = callOptions.method || 'GET';
+    const level = resolveLevel(callOptions);
+    const target: ShopeeTarget = { shopId: callOptions.shopId, merchantId: callOptions.merchantId };
+    const params = callOptions.params as Record<string, unknown> | undefined;
+    const body = callOptions.formData ?? callOptions.body;
+
+    if (level !== 'public' && !callOptions.token?.access_token) {
+      throw new Error(`Access token is required for ${level}-level call ${path}`);
+    }
+
+    let retryCount = 0;
+    let wasTokenRefreshed = false;
+
+    const log = (data: ShopeeResponse, httpStatus: number | undefined, startedAt: number) => {
+      options.onApiCall?.({
+        shopId: target.shopId,
+        partnerId: credentials.partnerId,
+        apiEndpoint: path,
+        httpMethod: method,
+        ...getCallStatus(data),
+        httpStatusCode: httpStatus,
+        durationMs: Date.now() - startedAt,
+        requestParams: params,
+        response: data,
+        retryCount,
+        wasTokenRefreshed,
+      });
+    };
+
+    const startedAt = Date.now();
+    let { data, httpStatus } = await sendSigned(
+      path, level, method, target, callOptions.token?.access_token || '', params, body
+    );
+
+    if (level === 'public' || !isInvalidTokenResponse(data) || !callOptions.token?.refresh_token) {
+      log(data, httpStatus, startedAt);
+      return data;
+    }
+
+    // Log lần gọi lỗi token trước khi refresh + gọi lại
+    log(data, httpStatus, startedAt);
+    console.log(`[SHOPEE-CLIENT] Token invalid for ${level} ${target.shopId || target.merchantId}, refreshing...`);
+
+    const retryStartedAt = Date.now();
+    retryCount = 1;
+    const newToken = await refreshAccessToken(target, callOptions.token.refresh_token);
+    if (!newToken.error && newToken.access_token) {
+      wasTokenRefreshed = true;
+      if (options.saveToken) {
+        try {
+          await options.saveToken(target, newToken as ShopeeToken);
+        } catch (saveError) {
+          console.error('[SHOPEE-CLIENT] Token refreshed but failed to persist:', (saveError as Error).message);
+        }
+      }
+      ({ data, httpStatus } = await sendSigned(
+        path, level, method, target, newToken.access_token, params, body
+      ));
+    } else {
+      console.error(`[SHOPEE-CLIENT] Token refresh failed: ${newToken.error} ${newToken.message || ''}`);
+    }
+
+    log(data, httpStatus, retryStartedAt);
+    return data;
+  };
+
+  return {
+    credentials,
+    call: call as ShopeeClient['call'],
+    refreshAccessToken,
+  };
+}
@@ -0,0 +1,2407 @@
+/**
+ * AUTO-GENERATED từ src/lib/docs/api-data.ts - KHÔNG sửa tay.
+ * Sinh lại: pnpm generate:shopee-api (src/lib/docs/endpoint-codegen.ts)
+ */
+
+import type { ShopeeCallOptions, ShopeeResponse } from './shopee-client.ts';
+
+/** Shop / merchant / token cho một lần gọi (không gồm params, body, method) */
+export type ShopeeRequestContext = Omit<ShopeeCallOptions<never>, 'method' | 'params' | 'body'>;
+
+export interface ShopeeEndpointCaller {
+  call<P extends ShopeeEndpointPath>(
+    path: P,
+    options?: ShopeeCallOptions<ShopeeEndpoints[P]['request']>
+  ): Promise<ShopeeEndpoints[P]['result']>;
+}
+
+// ==================== /api/v2/account_health/get_late_orders ====================
+
+export interface AccountHealthGetLateOrdersRequest {
+  /** Chỉ định số trang dữ liệu cần trả về trong lần gọi hiện tại. Bắt đầu từ 1. Nếu dữ liệu nhiều hơn một trang, page_no có thể là giá trị để bắt đầu lần gọi tiếp theo. Mặc định là 1. */
+  page_no?: number;
+  /** Mỗi tập kết quả được trả về dưới dạng một trang entries. Sử dụng page_size để kiểm soát số lượng entries tối đa cần lấy mỗi trang (mỗi lần gọi), và page_no để bắt đầu lần gọi tiếp theo. Giá trị này dùng để chỉ định số lượng entries tối đa trả về trong một trang dữ liệu. Giới hạn page_size từ 1 đến 100. Mặc định là 10. */
+  page_size?: number;
+}
+
+export interface AccountHealthGetLateOrdersResponseLateOrderList {
+  /** Mã đơn hàng (Order SN). */
+  order_sn: string;
+  /** Hạn giao hàng của đơn hàng này. */
+  shipping_deadline: number;
+  /** Số ngày giao trễ của đơn hàng này. */
+  late_by_days: number;
+}
+
+export interface AccountHealthGetLateOrdersResponse {
+  /** Danh sách đơn hàng giao trễ. */
+  late_order_list: AccountHealthGetLateOrdersResponseLateOrderList[];
+  /** Tổng số đơn hàng giao trễ. */
+  total_count: number;
+}
+
+// ==================== /api/v2/account_health/get_listings_with_issues ====================
+
+export interface AccountHealthGetListingsWithIssuesRequest {
+  /** Chỉ định số trang dữ liệu cần trả về trong lần gọi hiện tại. Bắt đầu từ 1. Nếu dữ liệu nhiều hơn một trang, page_no có thể là giá trị để bắt đầu lần gọi tiếp theo. Mặc định là 1. */
+  page_no?: number;
+  /** Mỗi tập kết quả được trả về dưới dạng một trang entries. Sử dụng page_size để kiểm soát số lượng entries tối đa cần lấy mỗi trang (mỗi lần gọi), và page_no để bắt đầu lần gọi tiếp theo. Giá trị này dùng để chỉ định số lượng entries tối đa trả về trong một trang dữ liệu. Giới hạn page_size từ 1 đến 100. Mặc định là 10. */
+  page_size?: number;
+}
+
+export interface AccountHealthGetListingsWithIssuesResponseListingList {
+  /** ID của item. */
+  item_id: number;
+  /** Lý do của item này. Giá trị: • 1: Prohibited (Bị cấm) • 2: Counterfeit (Hàng giả) • 3: Spam • 4: Inappropriate Image (Hình ảnh không phù hợp) • 5: Insufficient Info (Thông tin không đầy đủ) • 6: Mall Listing Improvement (Cải thiện Listing Mall) • 7: Other Listing Improvement (Cải thiện Listing khác) */
+  reason: number;
+}
+
+export interface AccountHealthGetListingsWithIssuesResponse {
+  /** Danh sách listing có vấn đề. */
+  listing_list: AccountHealthGetListingsWithIssuesResponseListingList[];
+  /** Tổng số listing có vấn đề. */
+  total_count: number;
+}
+
+// ==================== /api/v2/account_health/get_metric_source_detail ====================
+
+export interface AccountHealthGetMetricSourceDetailRequest {
+  /** ID của metric. Các giá trị được hỗ trợ: • 1: Tỷ lệ Giao hàng Trễ (Tất cả Kênh) • 3: Tỷ lệ Không hoàn thành Đơn (Tất cả Kênh) • 4: Thời gian Chuẩn bị • 12: % Listing Đặt trước • 15: Số ngày Vi phạm Listing Đặt trước • 25: Tỷ lệ Bàn giao Nhanh • 28: Giá trị Vi phạm Tỷ lệ Lấy hàng Đúng giờ • 42: Tỷ lệ Hủy đơn (Tất cả Kênh) • 43: Tỷ lệ Hoàn-Trả (Tất cả Kênh) • 52: Vi phạm Listing Nghiêm trọng • 53: Vi phạm Listing Khác • 85: Tỷ lệ Giao hàng Trễ (NDD) • 88: Tỷ lệ Không hoàn thành (NDD) • 91: Tỷ lệ Hủy đơn (NDD) • 92: Tỷ lệ Hoàn-Trả (NDD) • 96: % SDD Listings • 97: % NDD Listings • 2001: Tỷ lệ Bàn giao Nhanh - SLS • 2002: Tỷ lệ Bàn giao Nhanh - FBS • 2003: Tỷ lệ Bàn giao Nhanh - 3PF • 2030: % HD Listings • 2031: % HD Freeship được Bật • 2032: Giao hàng thứ Bảy • 2033: Thời gian Chuẩn bị PS */
+  metric_id: number;
+  /** Chỉ định số trang dữ liệu cần trả về trong lần gọi hiện tại. Bắt đầu từ 1. Nếu dữ liệu nhiều hơn một trang, page_no có thể là giá trị để bắt đầu lần gọi tiếp theo. Mặc định là 1. */
+  page_no?: number;
+  /** Mỗi tập kết quả được trả về dưới dạng một trang entries. Sử dụng page_size để kiểm soát số lượng entries tối đa cần lấy mỗi trang (mỗi lần gọi), và page_no để bắt đầu lần gọi tiếp theo. Giá trị này dùng để chỉ định số lượng entries tối đa trả về trong một trang dữ liệu. Giới hạn page_size từ 1 đến 100. Mặc định là 10. */
+  page_size?: number;
+}
+
+export interface AccountHealthGetMetricSourceDetailResponseNfrOrderList {
+  /** Mã đơn hàng. */
+  order_sn: string;
+  /** Loại không hoàn thành. Giá trị: • 1: Hủy bởi Hệ thống • 2: Hủy bởi Người bán • 3: Hoàn trả */
+  non_fulfillment_type: number;
+  /** Lý do. Giá trị: • 1001: Hoàn trả • 1002: Hủy do Chia kiện • 1003: Lấy hàng Mile Đầu thất bại • 1004: Gộp đơn hàng • 10005: Hết hàng • 10006: Khu vực không giao được • 10007: Không hỗ trợ COD • 10008: Yêu cầu vận chuyển bị hủy • 10009: Lấy hàng thất bại • 10010: Vận chuyển chưa sẵn sàng • 10011: Người bán không hoạt động • 10012: Người bán không giao hàng • 10013: Đơn không đến kho • 10014: Người bán yêu cầu hủy • 10015: Không nhận được hàng • 10016: Sai sản phẩm • 10017: Sản phẩm bị hư • 10018: Sản phẩm không đầy đủ • 10019: Hàng giả • 10020: Hỏng chức năng • 10021: Hoàn trả */
+  detailed_reason: number;
+}
+
+export interface AccountHealthGetMetricSourceDetailResponseCancellationOrderList {
+  /** Mã đơn hàng. */
+  order_sn: string;
+  /** Loại hủy đơn. Giá trị: • 1: Hủy bởi Hệ thống • 2: Hủy bởi Người bán */
+  cancellation_type: number;
+  /** Reason. Applicable values: • 1001: Return Refund • 1002: Parcel Split Cancellation • 1003: First Mile Pick up fail • 1004: Order inclusion • 10005: Out of Stock • 10006: Undeliverable area • 10007: Cannot support COD • 10008: Logistics request cancelled • 10009: Logistics pickup failed • 10010: Logistics not ready • 10011: Inactive seller • 10012: Seller did not ship order • 10013: Order did not reach warehouse • 10014: Seller asked to cancel • 10015: Non-receipt • 10016: Wrong item • 10017: Damaged item • 10018: Incomplete product • 10019: Fake item • 10020: Functional Damage • 10021: Return Refund */
+  detailed_reason: number;
+}
+
+export interface AccountHealthGetMetricSourceDetailResponseReturnRefundOrderList {
+  /** Mã đơn hàng. */
+  order_sn: string;
+  /** Reason. Applicable values: • 1001: Return Refund • 1002: Parcel Split Cancellation • 1003: First Mile Pick up fail • 1004: Order inclusion • 10005: Out of Stock • 10006: Undeliverable area • 10007: Cannot support COD • 10008: Logistics request cancelled • 10009: Logistics pickup failed • 10010: Logistics not ready • 10011: Inactive seller • 10012: Seller did not ship order • 10013: Order did not reach warehouse • 10014: Seller asked to cancel • 10015: Non-receipt • 10016: Wrong item • 10017: Damaged item • 10018: Incomplete product • 10019: Fake item • 10020: Functional Damage • 10021: Return Refund */
+  detailed_reason: number;
+}
+
+export interface AccountHealthGetMetricSourceDetailResponseLsrOrderList {
+  /** Mã đơn hàng. */
+  order_sn: string;
+  /** Hạn giao hàng. */
+  shipping_deadline: number;
+  /** Thời gian người bán sắp xếp giao hàng. */
+  actual_shipping_time: number;
+  /** Số ngày trễ. */
+  late_by_days: number;
+  /** Thời gian shipper thực tế lấy hàng. */
+  actual_pick_up_time: number;
+  /** Đơn vị vận chuyển. */
+  shipping_channel: string;
+  /** Loại giao hàng Mile Đầu. Giá trị: • Pickup (Lấy hàng) • Drop off (Gửi hàng) */
+  first_mile_type: string;
+  /** Chẩn đoán vấn đề. */
+  diagnosis_scenario: string[];
+}
+
+export interface AccountHealthGetMetricSourceDetailResponseFhrOrderList {
+  /** Mã đơn hàng. */
+  order_sn: string;
+  /** ID Kiện hàng. */
+  parcel_id: number;
+  /** ID Kiện hàng hiển thị. */
+  parcel_display_id: string;
+  /** Ngày xác nhận. */
+  confirm_time: number;
+  /** Hạn bàn giao. */
+  handover_deadline: number;
+  /** Ngày đến hạn Bàn giao Nhanh. */
+  fast_handover_due_date: number;
+  /** Thời gian người bán sắp xếp lấy hàng. */
+  arrange_pick_up_time: number;
+  /** Thời gian gửi/lấy kiện hàng. */
+  handover_time: number;
+  /** Đơn vị vận chuyển. */
+  shipping_channel: string;
+  /** First mile shipping type. Applicable values: • Pickup • Drop off */
+  first_mile_type: string;
+  /** Mã Tracking Mile Đầu. */
+  first_mile_tracking_no: string;
+  /** Chẩn đoán vấn đề. */
+  diagnosis_scenario: string[];
+}
+
+export interface AccountHealthGetMetricSourceDetailResponseOpfrDayDetailDataList {
+  /** Ngày. */
+  date: string;
+  /** Số lần lấy hàng đã lên lịch. */
+  scheduled_pickup_num: number;
+  /** Số lần lấy hàng thất bại. */
+  failed_pickup_num: number;
+  /** OPFR. */
+  opfr: number;
+  /** Mục tiêu. */
+  target: string;
+}
+
+export interface AccountHealthGetMetricSourceDetailResponseViolationListingList {
+  /** ID Sản phẩm. */
+  item_id: number;
+  /** Lý do. Giá trị: • 1: Cấm • 2: Hàng giả • 3: Spam • 4: Hình ảnh Không phù hợp • 5: Thông tin Không đủ • 6: Cải thiện Listing Mall • 7: Cải thiện Listing Khác • 8: Sản phẩm PQR */
+  detailed_reason: number;
+  /** Cập nhật lúc. */
+  update_time: number;
+}
+
+export interface AccountHealthGetMetricSourceDetailResponsePreOrderListingViolationDataList {
+  /** Ngày. */
+  date: string;
+  /** Số lượng Live Listings. */
+  live_listing_count: number;
+  /** Số lượng listing đặt trước. */
+  pre_order_listing_count: number;
+  /** % Listing Đặt trước. */
+  pre_order_listing_rate: number;
+  /** Mục tiêu. */
+  target: string;
+}
+
+export interface AccountHealthGetMetricSourceDetailResponsePreOrderListingList {
+  /** ID Sản phẩm. */
+  item_id: number;
+  /** Trạng thái Đặt trước Hiện tại. Giá trị: • 1: Có • 2: Không */
+  current_pre_order_status: number;
+}
+
+export interface AccountHealthGetMetricSourceDetailResponseSddListingList {
+  /** ID Sản phẩm. */
+  item_id: number;
+  /** Trạng thái SDD Hiện tại. Giá trị: • 1: Có • 0: Không */
+  current_sdd_status: number;
+}
+
+export interface AccountHealthGetMetricSourceDetailResponseNddListingList {
+  /** ID Sản phẩm. */
+  item_id: number;
+  /** Trạng thái NDD Hiện tại. Giá trị: • 1: Có • 0: Không */
+  current_ndd_status: number;
+}
+
+export interface AccountHealthGetMetricSourceDetailResponseAptOrderList {
+  /** Mã đơn hàng. */
+  order_sn: string;
+  /** Thời gian Thanh toán Đơn. */
+  order_create_time: number;
+  /** Thời gian người bán sắp xếp lấy hàng. */
+  arrange_pick_up_time: number;
+  /** Thời gian shipper thực tế lấy hàng. */
+  actual_pick_up_time: number;
+  /** Số ngày Chuẩn bị. */
+  preparation_days: number;
+  /** Đơn vị vận chuyển. */
+  shipping_channel: string;
+  /** First mile shipping type. Applicable values: • Pickup • Drop off */
+  first_mile_type: string;
+  /** Mã Tracking Mile Đầu. */
+  first_mile_tracking_no: string;
+}
+
+export interface AccountHealthGetMetricSourceDetailResponseHdListingList {
+  /** ID Sản phẩm. */
+  item_id: number;
+  /** Đối với 2030: % HD Listings, trỏ đến Trạng thái HD Hiện tại. Đối với 2031: % HD Free Shipping Enabled, trỏ đến Trạng thái Freeship được Bật. Giá trị: • 1: Có • 2: Không */
+  current_status: number;
+}
+
+export interface AccountHealthGetMetricSourceDetailResponseSaturdayShipmentList {
+  /** Mã đơn hàng. */
+  order_sn: string;
+  /** Thời gian Thanh toán Đơn. */
+  order_create_time: number;
+  /** Thời gian người bán sắp xếp lấy hàng. */
+  arrange_pick_up_time: number;
+  /** Thời gian shipper thực tế lấy hàng. */
+  actual_pick_up_time: number;
+  /** Số ngày Chuẩn bị. */
+  preparation_days: number;
+  /** Đơn vị vận chuyển. */
+  shipping_channel: string;
+  /** First mile shipping type. Applicable values: • Pickup • Drop off */
+  first_mile_type: string;
+  /** Mã Tracking Mile Đầu. */
+  first_mile_tracking_no: string;
+}
+
+export interface AccountHealthGetMetricSourceDetailResponse {
+  /** ID của metric. */
+  metric_id: number;
+  /** Đơn hàng Bị ảnh hưởng cho Tỷ lệ Không hoàn thành. Hỗ trợ metric_id: 3 (Non-Fulfilment Rate Tất cả Kênh), 88 (Non-fulfilment Rate NDD). */
+  nfr_order_list: AccountHealthGetMetricSourceDetailResponseNfrOrderList[];
+  /** Đơn hàng Bị ảnh hưởng cho Tỷ lệ Hủy đơn. Hỗ trợ metric_id: 42 (Cancellation Rate Tất cả Kênh), 91 (Cancellation Rate NDD). */
+  cancellation_order_list: AccountHealthGetMetricSourceDetailResponseCancellationOrderList[];
+  /** Đơn hàng Bị ảnh hưởng cho Tỷ lệ Hoàn-Trả. Hỗ trợ metric_id: 43 (Return-refund Rate Tất cả Kênh), 92 (Return-refund Rate NDD). */
+  return_refund_order_list: AccountHealthGetMetricSourceDetailResponseReturnRefundOrderList[];
+  /** Đơn hàng Bị ảnh hưởng cho Tỷ lệ Giao hàng Trễ. Hỗ trợ metric_id: 1 (Late Shipment Rate Tất cả Kênh), 85 (Late Shipment Rate NDD). */
+  lsr_order_list: AccountHealthGetMetricSourceDetailResponseLsrOrderList[];
+  /** Đơn hàng Bị ảnh hưởng cho Tỷ lệ Bàn giao Nhanh. Hỗ trợ metric_id: 25 (Fast Handover Rate), 2001 (Fast Handover Rate - SLS), 2002 (Fast Handover Rate - FBS), 2003 (Fast Handover Rate - 3PF). */
+  fhr_order_list: AccountHealthGetMetricSourceDetailResponseFhrOrderList[];
+  /** Vi phạm Liên quan cho Giá trị Vi phạm OPFR. Hỗ trợ metric_id: 28 (On-time Pickup Failure Rate Violation Value). */
+  opfr_day_detail_data_list: AccountHealthGetMetricSourceDetailResponseOpfrDayDetailDataList[];
+  /** Listings Liên quan cho Vi phạm Listing Nghiêm trọng và Vi phạm Listing Khác. Hỗ trợ metric_id: 52 (Severe Listing Violations), 53 (Other Listing Violations). */
+  violation_listing_list: AccountHealthGetMetricSourceDetailResponseViolationListingList[];
+  /** Listings Liên quan cho Số ngày Vi phạm Listing Đặt trước. Hỗ trợ metric_id: 15: Days of Pre-order Listing Violation */
+  pre_order_listing_violation_data_list: AccountHealthGetMetricSourceDetailResponsePreOrderListingViolationDataList[];
+  /** Listings Liên quan cho Listing Đặt trước. Hỗ trợ metric_id: 12: Pre-order Listing % */
+  pre_order_listing_list: AccountHealthGetMetricSourceDetailResponsePreOrderListingList[];
+  /** Listings Liên quan cho % SDD Listings. Hỗ trợ metric_id: 96 (% SDD Listings). */
+  sdd_listing_list: AccountHealthGetMetricSourceDetailResponseSddListingList[];
+  /** Listings Liên quan cho % NDD Listings. Hỗ trợ metric_id: 97 (% NDD Listings). */
+  ndd_listing_list: AccountHealthGetMetricSourceDetailResponseNddListingList[];
+  /** Kiện hàng Bị ảnh hưởng cho Thời gian Chuẩn bị. Hỗ trợ metric_id: 4 (Preparation Time). */
+  apt_order_list: AccountHealthGetMetricSourceDetailResponseAptOrderList[];
+  /** Listings Liên quan cho % HD Listings và % HD Free Shipping Enabled. Hỗ trợ metric_id: 2030 (% HD Listings), 2031 (% HD Free Shipping Enabled). */
+  hd_listing_list: AccountHealthGetMetricSourceDetailResponseHdListingList;
+  /** Kiện hàng Bị ảnh hưởng cho Giao hàng thứ Bảy. Hỗ trợ metric_id: 2032 (Saturday Shipment). */
+  saturday_shipment_list: AccountHealthGetMetricSourceDetailResponseSaturdayShipmentList[];
+  /** Tổng số Đơn hàng Bị ảnh hưởng hoặc Listings Liên quan. */
+  total_count: number;
+}
+
+// ==================== /api/v2/account_health/get_penalty_point_history ====================
+
+export interface AccountHealthGetPenaltyPointHistoryRequest {
+  /** Chỉ định số trang dữ liệu cần trả về trong lần gọi hiện tại. Bắt đầu từ 1. Nếu dữ liệu nhiều hơn một trang, page_no có thể là giá trị để bắt đầu lần gọi tiếp theo. Mặc định là 1. */
+  page_no?: number;
+  /** Mỗi tập kết quả được trả về dưới dạng một trang entries. Sử dụng page_size để kiểm soát số lượng entries tối đa cần lấy mỗi trang (mỗi lần gọi), và page_no để bắt đầu lần gọi tiếp theo. Giá trị này dùng để chỉ định số lượng entries tối đa trả về trong một trang dữ liệu. Giới hạn page_size từ 1 đến 100. Mặc định là 10. */
+  page_size?: number;
+  /** Loại vi phạm. Giá trị: • 5: Tỷ lệ Giao hàng Trễ Cao • 6: Tỷ lệ Không hoàn thành Cao • 7: Số lượng đơn không hoàn thành Cao • 8: Số lượng đơn giao trễ Cao • 9: Listing Cấm • 10: Hàng giả / Vi phạm Sở hữu Trí tuệ • 11: Spam • 12: Sao chép/Đánh cắp hình ảnh • 13: Đăng lại listing đã xóa không thay đổi • 14: Mua hàng giả từ Mall • 15: Hàng giả bị Shopee phát hiện • 16: Phần trăm listing đặt trước Cao • 17: Xác nhận Lừa đảo (tổng) • 18: Xác nhận Lừa đảo mỗi tuần (Tất cả chỉ với voucher) • 19: Địa chỉ hoàn trả Giả • 20: Gian lận/lạm dụng Giao hàng • 21: Số lượng Chat không trả lời Cao • 22: Trả lời chat Thô lỗ • 23: Yêu cầu người mua hủy đơn • 24: Trả lời đánh giá của người mua Thô lỗ • 25: Vi phạm chính sách Hoàn trả/Hoàn tiền • 101: Lý do Tier • 3026: Lạm dụng Sở hữu Trí tuệ của Shopee • 3028: Vi phạm Quy định Tên Shop • 3030: Giao dịch trực tiếp ngoài nền tảng Shopee • 3032: Giao kiện hàng rỗng / không đầy đủ • 3034: Vi phạm Nghiêm trọng trên Shopee Feed • 3036: Vi phạm Nghiêm trọng trên Shopee LIVE • 3038: Lạm dụng Tag Nhà cung cấp Địa phương • 3040: Sử dụng tag shop gây hiểu lầm trong hình listing • 3042: Test Hàng giả / Vi phạm Sở hữu Trí tuệ • 3044: Tái phạm - Vi phạm Sở hữu Trí tuệ và listing Hàng giả • 3046: Vi phạm Chính sách Bán Động vật Sống • 3048: Spam Chat • 3050: Tỷ lệ Hoàn trả Quốc tế Cao • 3052: Vi phạm Quyền riêng tư trong trả lời đánh giá của người mua • 3054: Order Brushing • 3056: Hình ảnh khiêu dâm • 3058: Danh mục Sản phẩm Không chính xác • 3060: Tỷ lệ Không hoàn thành Cực cao • 3062: Phạt Thanh toán Hóa đơn Quá hạn AMS • 3064: Listing liên quan đến Chính phủ • 3066: Listing quà tặng không hợp lệ • 3068: Tỷ lệ không hoàn thành Cao (Đơn Giao Ngày mai) • 3070: Tỷ lệ Giao hàng Trễ Cao (Đơn Giao Ngày mai) • 3072: Giá trị Vi phạm OPFR • 3074: Giao dịch trực tiếp ngoài Shopee qua chat • 3090: Listing Cấm - Vi phạm Cực độ • 3091: Listing Cấm - Vi phạm Cao • 3092: Listing Cấm - Vi phạm Trung bình • 3093: Listing Cấm - Vi phạm Thấp • 3094: Listing Hàng giả - Vi phạm Cực độ • 3095: Listing Hàng giả - Vi phạm Cao • 3096: Listing Hàng giả - Vi phạm Trung bình • 3097: Listing Hàng giả - Vi phạm Thấp • 3098: Listing Spam - Vi phạm Cực độ • 3099: Listing Spam - Vi phạm Cao • 3100: Listing Spam - Vi phạm Trung bình • 3101: Listing Spam - Vi phạm Thấp • 3145: Tỷ lệ Hoàn trả/Hoàn tiền (Kênh Không tích hợp) • 4130: Chất lượng Sản phẩm Kém */
+  violation_type?: number;
+}
+
+export interface AccountHealthGetPenaltyPointHistoryResponsePenaltyPointList {
+  /** Thời gian điểm phạt được tạo. */
+  issue_time: number;
+  /** Điểm phạt mới nhất được tạo cho bản ghi điểm phạt hiện tại. Nếu người bán kháng cáo cho bản ghi điểm phạt này và kháng cáo được chấp nhận và Shopee điều chỉnh điểm phạt, thì original_point_num trả về điểm phạt trước khi điều chỉnh, và latest_point_num trả về điểm phạt sau khi điều chỉnh. */
+  latest_point_num: number;
+  /** Điểm phạt ban đầu được tạo cho bản ghi điểm phạt hiện tại. Nếu người bán kháng cáo cho bản ghi điểm phạt này và kháng cáo được chấp nhận và Shopee điều chỉnh điểm phạt, thì original_point_num trả về điểm phạt trước khi điều chỉnh, và latest_point_num trả về điểm phạt sau khi điều chỉnh. */
+  original_point_num: number;
+  /** ID tham chiếu cho bản ghi điểm phạt này. */
+  reference_id: number;
+  /** Loại vi phạm. Giá trị: • 5: Tỷ lệ Giao hàng Trễ Cao • 6: Tỷ lệ Không hoàn thành Cao • 7: Số lượng đơn không hoàn thành Cao • 8: Số lượng đơn giao trễ Cao • 9: Listing Cấm • 10: Hàng giả / Vi phạm Sở hữu Trí tuệ • 11: Spam • 12: Sao chép/Đánh cắp hình ảnh • 13: Đăng lại listing đã xóa không thay đổi • 14: Mua hàng giả từ Mall • 15: Hàng giả bị Shopee phát hiện • 16: Phần trăm listing đặt trước Cao • 17: Xác nhận Lừa đảo (tổng) • 18: Xác nhận Lừa đảo mỗi tuần (Tất cả chỉ với voucher) • 19: Địa chỉ hoàn trả Giả • 20: Gian lận/lạm dụng Giao hàng • 21: Số lượng Chat không trả lời Cao • 22: Trả lời chat Thô lỗ • 23: Yêu cầu người mua hủy đơn • 24: Trả lời đánh giá của người mua Thô lỗ • 25: Vi phạm chính sách Hoàn trả/Hoàn tiền • 101: Lý do Tier • 3026: Lạm dụng Sở hữu Trí tuệ của Shopee • 3028: Vi phạm Quy định Tên Shop • 3030: Giao dịch trực tiếp ngoài nền tảng Shopee • 3032: Giao kiện hàng rỗng / không đầy đủ • 3034: Vi phạm Nghiêm trọng trên Shopee Feed • 3036: Vi phạm Nghiêm trọng trên Shopee LIVE • 3038: Lạm dụng Tag Nhà cung cấp Địa phương • 3040: Sử dụng tag shop gây hiểu lầm trong hình listing • 3042: Test Hàng giả / Vi phạm Sở hữu Trí tuệ • 3044: Tái phạm - Vi phạm Sở hữu Trí tuệ và listing Hàng giả • 3046: Vi phạm Chính sách Bán Động vật Sống • 3048: Spam Chat • 3050: Tỷ lệ Hoàn trả Quốc tế Cao • 3052: Vi phạm Quyền riêng tư trong trả lời đánh giá của người mua • 3054: Order Brushing • 3056: Hình ảnh khiêu dâm • 3058: Danh mục Sản phẩm Không chính xác • 3060: Tỷ lệ Không hoàn thành Cực cao • 3062: Phạt Thanh toán Hóa đơn Quá hạn AMS • 3064: Listing liên quan đến Chính phủ • 3066: Listing quà tặng không hợp lệ • 3068: Tỷ lệ không hoàn thành Cao (Đơn Giao Ngày mai) • 3070: Tỷ lệ Giao hàng Trễ Cao (Đơn Giao Ngày mai) • 3072: Giá trị Vi phạm OPFR • 3074: Giao dịch trực tiếp ngoài Shopee qua chat • 3090: Listing Cấm - Vi phạm Cực độ • 3091: Listing Cấm - Vi phạm Cao • 3092: Listing Cấm - Vi phạm Trung bình • 3093: Listing Cấm - Vi phạm Thấp • 3094: Listing Hàng giả - Vi phạm Cực độ • 3095: Listing Hàng giả - Vi phạm Cao • 3096: Listing Hàng giả - Vi phạm Trung bình • 3097: Listing Hàng giả - Vi phạm Thấp • 3098: Listing Spam - Vi phạm Cực độ • 3099: Listing Spam - Vi phạm Cao • 3100: Listing Spam - Vi phạm Trung bình • 3101: Listing Spam - Vi phạm Thấp • 3145: Tỷ lệ Hoàn trả/Hoàn tiền (Kênh Không tích hợp) • 4130: Chất lượng Sản phẩm Kém */
+  violation_type: number;
+}
+
+export interface AccountHealthGetPenaltyPointHistoryResponse {
+  /** Danh sách điểm phạt được tạo trong quý hiện tại. */
+  penalty_point_list: AccountHealthGetPenaltyPointHistoryResponsePenaltyPointList[];
+  /** Tổng số bản ghi điểm phạt. */
+  total_count: number;
+}
+
+// ==================== /api/v2/account_health/get_punishment_history ====================
+
+export interface AccountHealthGetPunishmentHistoryRequest {
+  /** Chỉ định số trang dữ liệu cần trả về trong lần gọi hiện tại. Bắt đầu từ 1. Nếu dữ liệu nhiều hơn một trang, page_no có thể là giá trị để bắt đầu lần gọi tiếp theo. Mặc định là 1. */
+  page_no?: number;
+  /** Mỗi tập kết quả được trả về dưới dạng một trang entries. Sử dụng page_size để kiểm soát số lượng entries tối đa cần lấy mỗi trang (mỗi lần gọi), và page_no để bắt đầu lần gọi tiếp theo. Giá trị này dùng để chỉ định số lượng entries tối đa trả về trong một trang dữ liệu. Giới hạn page_size từ 1 đến 100. Mặc định là 10. */
+  page_size?: number;
+  /** Trạng thái của hình phạt. Giá trị: • 1: Ongoing (Đang diễn ra) • 2: Ended (Đã kết thúc) */
+  punishment_status: number;
+}
+
+export interface AccountHealthGetPunishmentHistoryResponsePunishmentList {
+  /** Thời gian hình phạt được tạo. */
+  issue_time: number;
+  /** Thời gian bắt đầu của bản ghi hình phạt này. */
+  start_time: number;
+  /** Thời gian kết thúc của bản ghi hình phạt này. */
+  end_time: number;
+  /** Loại hình phạt của bản ghi này. Giá trị: • 103: Listing không hiển thị trong duyệt danh mục • 104: Listing không hiển thị trong tìm kiếm • 105: Không thể tạo listing mới • 106: Không thể chỉnh sửa listing • 107: Không thể tham gia chiến dịch marketing • 108: Không có trợ giá vận chuyển • 109: Tài khoản bị đình chỉ • 600: Listing không hiển thị trong tìm kiếm • 601: Shop listing ẩn khỏi đề xuất • 602: Listing không hiển thị trong duyệt danh mục • 1100: Listing Limit is reduced • 1110: Listing Limit is reduced • 1111: Listing Limit is reduced • 1112: Listing Limit is reduced • 2008: Order Limit */
+  punishment_type: number;
+  /** Lý do của bản ghi hình phạt này. Giá trị: • 1: Tier 1 • 2: Tier 2 • 3: Tier 3 • 4: Tier 4 • 5: Tier 5 • 1100: Listing Limit Tier 1 • 1110: Listing Limit Tier 2 • 1111: Listing Limit PDL */
+  reason: number;
+  /** ID tham chiếu cho bản ghi hình phạt này. */
+  reference_id: number;
+  /** Trả về giá trị cụ thể của listing limit khi punishment_type là: • 1100: Listing Limit is reduced • 1110: Listing Limit is reduced • 1111: Listing Limit is reduced • 1112: Listing Limit is reduced */
+  listing_limit: number;
+  /** Trả về phần trăm cụ thể của order limit khi punishment_type là: • 2008: Order Limit Daily Order Limit = X % * L28D ADO (Average Daily Order of this Shop in Past 28 Days) */
+  order_limit: string;
+}
+
+export interface AccountHealthGetPunishmentHistoryResponse {
+  /** Các bản ghi hình phạt được tạo trong quý hiện tại. */
+  punishment_list: AccountHealthGetPunishmentHistoryResponsePunishmentList[];
+  /** Tổng số bản ghi hình phạt. */
+  total_count: number;
+}
+
+// ==================== /api/v2/account_health/get_shop_performance ====================
+
+export type AccountHealthGetShopPerformanceRequest = Record<string, never>;
+
+export interface AccountHealthGetShopPerformanceResponseOverallPerformance {
+  /** Đánh giá tổng thể: • Poor = 1 • Improvement/Needed = 2 • Good = 3 • Excellent = 4 */
+  rating: number;
+  /** Số lượng metrics không đạt mục tiêu trong Fulfillment Performance. */
+  fulfillment_failed: number;
+  /** Số lượng metrics không đạt mục tiêu trong Listing Performance. */
+  listing_failed: number;
+  /** Số lượng metrics không đạt mục tiêu trong Customer Service Performance. */
+  custom_service_failed: number;
+}
+
+export interface AccountHealthGetShopPerformanceResponseMetricListTarget {
+  /** Giá trị mục tiêu. */
+  value: number;
+  /** Toán tử so sánh mục tiêu: <, <=, >, >=, =. */
+  comparator: string;
+}
+
+export interface AccountHealthGetShopPerformanceResponseMetricList {
+  /** Loại metric: • Fulfillment Performance = 1 • Listing Performance = 2 • Customer Service Performance = 3 */
+  metric_type: number;
+  /** ID của metric. Nếu metric_id < 0 có nghĩa là đây không phải là metric thực, mà là một nhóm metrics. Danh sách đầy đủ các metric IDs: • Non-Responded Chats = -1 • Late Shipment Rate (All Channels) = 1 • Non-Fulfilment Rate (All Channels) = 3 • Preparation Time = 4 • Chat Response Rate = 11 • Pre-order Listing % = 12 • Days of Pre-order Listing Violation = 15 • Response Time = 21 • Shop Rating = 22 • No. of Non-Responded Chats = 23 • Fast Handover Rate = 25 • On-time Pickup Failure Rate = 27 • On-time Pickup Failure Rate Violation Value = 28 • Average Response Time = 29 • Cancellation Rate (All Channels) = 42 • Return-refund Rate (All Channels) = 43 • Severe Listing Violations = 52 • Other Listing Violations = 53 • Prohibited Listings = 54 • Counterfeit/IP infringement = 55 • Spam Listings = 56 • Late Shipment Rate (NDD) = 85 • Non-fulfilment Rate (NDD) = 88 • Cancellation Rate (NDD) = 91 • Return-refund Rate (NDD) = 92 • Customer Satisfaction = 95 • % SDD Listings = 96 • % NDD Listings = 97 • Fast Handover Rate - SLS = 2001 • Fast Handover Rate - FBS = 2002 • Fast Handover Rate - 3PF = 2003 • Poor Quality Products = 2011 • % HD Listings = 2030 • % HD Free Shipping Enabled = 2031 • Saturday Shipment = 2032 • Preparation Time PS = 2033 */
+  metric_id: number;
+  /** ID của parent metric. */
+  parent_metric_id: number;
+  /** Tên mặc định của metric. */
+  metric_name: string;
+  /** Hiệu suất của metric tại kỳ hiện tại. */
+  current_period: number;
+  /** Hiệu suất của metric tại kỳ trước. */
+  last_period: number;
+  /** Đơn vị của metric: • Number = 1 • Percentage = 2 • Second = 3 • Day = 4 • Hour = 5 */
+  unit: number;
+  /** Mục tiêu của metric. */
+  target: AccountHealthGetShopPerformanceResponseMetricListTarget;
+  /** (Chỉ dành cho whitelist TW sellers) Giá trị exemption_end_date sẽ không rỗng nếu TẤT CẢ các điều kiện được đáp ứng: - Shop nằm trong 'POL Shop Whitelist' - Trong 'Exemption Period' - metric_id là 12 (Pre-order Listing %) hoặc 15 (Days of Pre-order Listing Violation) */
+  exemption_end_date: string;
+}
+
+export interface AccountHealthGetShopPerformanceResponse {
+  /** Tổng quan hiệu suất shop. */
+  overall_performance: AccountHealthGetShopPerformanceResponseOverallPerformance;
+  /** Danh sách các metrics chi tiết. */
+  metric_list: AccountHealthGetShopPerformanceResponseMetricList[];
+}
+
+// ==================== /api/v2/ads/check_create_gms_product_campaign_eligibility ====================
+
+export type AdsCheckCreateGmsProductCampaignEligibilityRequest = Record<string, never>;
+
+export type AdsCheckCreateGmsProductCampaignEligibilityResponse = Record<string, never>;
+
+// ==================== /api/v2/ads/create_auto_product_ads ====================
+
+export interface AdsCreateAutoProductAdsRequest {
+  /** Danh sách ID sản phẩm muốn chạy quảng cáo tự động (tối đa 5 sản phẩm). */
+  item_id_list: number[];
+  /** Một chuỗi ngẫu nhiên được sử dụng để ngăn chặn việc tạo quảng cáo trùng lặp. Nếu một quảng cáo được tạo thành công, yêu cầu tiếp theo sử dụng cùng một reference_id sẽ thất bại. */
+  reference_id: string;
+  /** Ngân sách được thiết lập cho Quảng cáo Sản phẩm Tự động. */
+  budget: number;
+  /** Ngày bắt đầu cho mỗi chiến dịch. Lưu ý rằng nếu bạn muốn đặt ngày không giới hạn, bạn chỉ cần gửi ngày hôm nay là ngày bắt đầu. */
+  start_date: string;
+  /** Ngày kết thúc của mỗi chiến dịch. Lưu ý rằng nếu bạn muốn thiết lập chiến dịch không giới hạn, bạn có thể để trống trường ngày kết thúc. */
+  end_date?: string;
+}
+
+export interface AdsCreateAutoProductAdsResponseItem {
+  /** Định danh duy nhất cho một chiến dịch. */
+  campaign_id: number;
+}
+
+export type AdsCreateAutoProductAdsResponse = AdsCreateAutoProductAdsResponseItem[];
+
+// ==================== /api/v2/ads/create_gms_product_campaign ====================
+
+export interface AdsCreateGmsProductCampaignRequest {
+  /** Tên chiến dịch. */
+  campaign_name: string;
+  /** Thời gian bắt đầu. */
+  start_time: number;
+  /** Thời gian kết thúc. */
+  end_time?: number;
+}
+
+export type AdsCreateGmsProductCampaignResponse = Record<string, never>;
+
+// ==================== /api/v2/ads/create_manual_product_ads ====================
+
+export interface AdsCreateManualProductAdsRequest {
+  /** ID sản phẩm. */
+  item_id: number;
+  /** Giá thầu mặc định. */
+  bid_price: number;
+  /** Ngân sách (0 cho không giới hạn). */
+  budget: number;
+}
+
+export type AdsCreateManualProductAdsResponse = Record<string, never>;
+
+// ==================== /api/v2/ads/edit_auto_product_ads ====================
+
+export interface AdsEditAutoProductAdsRequest {
+  /** ID quảng cáo cần chỉnh sửa. */
+  ad_id: number;
+  /** Trạng thái mới: active hoặc paused. */
+  status?: string;
+}
+
+export type AdsEditAutoProductAdsResponse = Record<string, never>;
+
+// ==================== /api/v2/ads/edit_gms_item_product_campaign ====================
+
+export interface AdsEditGmsItemProductCampaignRequest {
+  /** ID chiến dịch. */
+  campaign_id: number;
+  /** Danh sách sản phẩm và cài đặt. */
+  item_list: Array<Record<string, unknown>>;
+}
+
+export type AdsEditGmsItemProductCampaignResponse = Record<string, never>;
+
+// ==================== /api/v2/ads/edit_gms_product_campaign ====================
+
+export interface AdsEditGmsProductCampaignRequest {
+  /** ID chiến dịch. */
+  campaign_id: number;
+  /** Tên mới. */
+  campaign_name?: string;
+}
+
+export type AdsEditGmsProductCampaignResponse = Record<string, never>;
+
+// ==================== /api/v2/ads/edit_manual_product_ad_keywords ====================
+
+export interface AdsEditManualProductAdKeywordsRequest {
+  /** ID quảng cáo. */
+  ad_id: number;
+  /** Danh sách từ khóa cần chỉnh sửa. */
+  keyword_list: Array<Record<string, unknown>>;
+}
+
+export type AdsEditManualProductAdKeywordsResponse = Record<string, never>;
+
+// ==================== /api/v2/ads/edit_manual_product_ads ====================
+
+export interface AdsEditManualProductAdsRequest {
+  /** ID quảng cáo. */
+  ad_id: number;
+  /** Ngân sách mới. */
+  budget?: number;
+  /** Trạng thái mới: active hoặc paused. */
+  status?: string;
+}
+
+export type AdsEditManualProductAdsResponse = Record<string, never>;
+
+// ==================== /api/v2/ads/get_ads_fácil_shop_rate ====================
+
+export type AdsGetAdsFácilShopRateRequest = Record<string, never>;
+
+export type AdsGetAdsFácilShopRateResponse = Record<string, never>;
+
+// ==================== /api/v2/ads/get_all_cpc_ads_daily_performance ====================
+
+export interface AdsGetAllCpcAdsDailyPerformanceRequest {
+  /** Tham số để chỉ định ngày bắt đầu của khoảng thời gian hiệu suất. Định dạng DD-MM-YYYY. */
+  start_date: string;
+  /** Tham số để chỉ định ngày kết thúc của khoảng thời gian hiệu suất. Định dạng DD-MM-YYYY. */
+  end_date: string;
+}
+
+export interface AdsGetAllCpcAdsDailyPerformanceResponseItem {
+  /** Thông số để cho biết ngày bản ghi hiệu suất thuộc về. Định dạng DD-MM-YYYY. */
+  date: string;
+  /** Số lần người mua xem quảng cáo. */
+  impression: number;
+  /** Tổng số lần nhấp vào Quảng cáo. */
+  clicks: number;
+  /** Tỷ lệ nhấp qua (Click-through rate) đo lường tần suất người mua hàng xem quảng cáo kết thúc bằng việc nhấp vào quảng cáo. CTR = Clicks / Impressions. */
+  ctr: number;
+  /** Người mua đặt hàng trong vòng 7 ngày sau khi nhấp vào quảng cáo (đặt mua chính mặt hàng từ quảng cáo đã nhấp). Ghi chú: direct_order phản ánh trong Shopee Ads Module ở Seller Center là mục 'Direct Conversions'. */
+  direct_order: number;
+  /** Người mua đặt hàng trong vòng 7 ngày sau khi nhấp vào quảng cáo (mặt hàng được mua miễn là có mặt hàng khác từ cùng shop vừa nhấp chuột). Ghi chú: broad_order phản ánh trong Shopee Ads Module ở Seller Center là 'Conversions'. */
+  broad_order: number;
+  /** Số đơn hàng trực tiếp / Tổng số lượt click vào Quảng cáo. (Mặt hàng được mua từ quảng cáo đã nhấp). Phản ánh trong Seller Center là 'Direct Conversion Rate'. */
+  direct_conversions: number;
+  /** Số đơn hàng Ads / Tổng số lượt nhấp chuột vào Quảng cáo. (Gồm cả hàng khác cùng shop). Ghi chú: Phản ánh trong Seller Center là 'Conversion Rate'. */
+  broad_conversions: number;
+  /** Số lượng mặt hàng được bán trong vòng 7 ngày sau khi nhấp chuột (Mặt hàng mua từ quảng cáo đang nhấp). */
+  direct_item_sold: number;
+  /** Số lượng mặt hàng được bán trong vòng 7 ngày sau khi nhấp chuột (Miễn là từ cùng một cửa hàng). Ghi chú: Phản ánh trong Advertiser Platform là 'Conversion Rate'. */
+  broad_item_sold: number;
+  /** Tổng doanh thu tạo ra từ Quảng cáo trực tiếp (Mặt hàng từ quảng cáo trên) trong thường là 7 ngày. */
+  direct_gmv: number;
+  /** Tổng doanh thu tạo ra từ Quảng cáo (Cả mua hàng từ cùng một shop). */
+  broad_gmv: number;
+  /** Tổng cước phí/Chi phí đã chi tiêu cho Quảng cáo. */
+  expense: number;
+  /** (Chi phí mỗi lượt chuyển đổi) Chi phí trung bình của Quảng cáo trên mỗi chuyển đổi bán hàng. */
+  cost_per_conversion: number;
+  /** Quảng cáo Trực tiếp GMV/Chi phí quảng cáo (Mặt hàng từ quảng cáo đã nhấp). */
+  direct_roas: number;
+  /** Quảng cáo Mở rộng GMV/Chi phí quảng cáo (bao gồm các sản phẩm khác thuộc cửa hàng). */
+  broad_roas: number;
+}
+
+export type AdsGetAllCpcAdsDailyPerformanceResponse = AdsGetAllCpcAdsDailyPerformanceResponseItem[];
+
+// ==================== /api/v2/ads/get_all_cpc_ads_hourly_performance ====================
+
+export interface AdsGetAllCpcAdsHourlyPerformanceRequest {
+  /** Đây là thông số ngày duy nhất mà người yêu cầu muốn kiểm tra hiệu suất hàng giờ. Ngày có định dạng DD-MM-YYYY. */
+  performance_date: string;
+}
+
+export interface AdsGetAllCpcAdsHourlyPerformanceResponseItem {
+  /** Thông số để cho biết giờ mỗi bản ghi hiệu suất thuộc về. */
+  hour: number;
+  /** Thông số để cho biết ngày bản ghi hiệu suất thuộc về. */
+  date: string;
+  /** Số lần người mua xem quảng cáo. */
+  impression: number;
+  /** Tổng số lần nhấp vào Quảng cáo. */
+  clicks: number;
+  /** Tỷ lệ nhấp qua (Click-through rate) đo lường tần suất người mua hàng xem quảng cáo kết thúc bằng việc nhấp vào quảng cáo. CTR = Clicks / Impressions. */
+  ctr: number;
+  /** Người mua đặt hàng trong vòng 7 ngày sau khi nhấp vào quảng cáo (đặt mua chính mặt hàng từ quảng cáo đã nhấp). Ghi chú: direct_order phản ánh trong Shopee Ads Module ở Seller Center là mục 'Direct Conversions'. */
+  direct_order: number;
+  /** Người mua đặt hàng trong vòng 7 ngày sau khi nhấp vào quảng cáo (mặt hàng được mua miễn là có mặt hàng khác từ cùng shop vừa nhấp chuột). Ghi chú: broad_order phản ánh trong Shopee Ads Module ở Seller Center là 'Conversions'. */
+  broad_order: number;
+  /** Số đơn hàng trực tiếp / Tổng số lượt click vào Quảng cáo. (Mặt hàng được mua từ quảng cáo đã nhấp). Phản ánh trong Seller Center là 'Direct Conversion Rate'. */
+  direct_conversions: number;
+  /** Số đơn hàng Ads / Tổng số lượt nhấp chuột vào Quảng cáo. (Gồm cả hàng khác cùng shop). Ghi chú: Phản ánh trong Seller Center là 'Conversion Rate'. */
+  broad_conversions: number;
+  /** Số lượng mặt hàng được bán trong vòng 7 ngày sau khi nhấp chuột (Mặt hàng mua từ quảng cáo đang nhấp). */
+  direct_item_sold: number;
+  /** Số lượng mặt hàng được bán trong vòng 7 ngày sau khi nhấp chuột (Miễn là từ cùng một cửa hàng). */
+  broad_item_sold: number;
+  /** Tổng doanh thu tạo ra từ Quảng cáo trực tiếp (Mặt hàng từ quảng cáo trên) trong thường là 7 ngày. */
+  direct_gmv: number;
+  /** Tổng doanh thu tạo ra từ Quảng cáo (Cả mua hàng từ cùng một shop) trong 7 ngày. */
+  broad_gmv: number;
+  /** Tổng cước phí/Chi phí đã chi tiêu cho Quảng cáo. */
+  expense: number;
+  /** (Chi phí mỗi lượt chuyển đổi) Chi phí trung bình của Quảng cáo trên mỗi chuyển đổi bán hàng. */
+  cost_per_conversion: number;
+  /** Quảng cáo Trực tiếp GMV/Chi phí quảng cáo. */
+  direct_roas: number;
+  /** Quảng cáo Mở rộng GMV/Chi phí quảng cáo (bao gồm các sản phẩm khác thuộc cửa hàng). */
+  broad_roas: number;
+}
+
+export type AdsGetAllCpcAdsHourlyPerformanceResponse = AdsGetAllCpcAdsHourlyPerformanceResponseItem[];
+
+// ==================== /api/v2/ads/get_create_product_ad_budget_suggestion ====================
+
+export interface AdsGetCreateProductAdBudgetSuggestionRequest {
+  /** Danh sách ID sản phẩm. */
+  item_id_list: number[];
+}
+
+export type AdsGetCreateProductAdBudgetSuggestionResponse = Record<string, never>;
+
+// ==================== /api/v2/ads/get_gms_campaign_performance ====================
+
+export interface AdsGetGmsCampaignPerformanceRequest {
+  /** ID chiến dịch. */
+  campaign_id: number;
+  /** Ngày bắt đầu. */
+  start_date: string;
+  /** Ngày kết thúc. */
+  end_date: string;
+}
+
+export type AdsGetGmsCampaignPerformanceResponse = Record<string, never>;
+
+// ==================== /api/v2/ads/get_gms_item_performance ====================
+
+export interface AdsGetGmsItemPerformanceRequest {
+  /** ID chiến dịch. */
+  campaign_id: number;
+  /** Danh sách ID sản phẩm. */
+  item_id_list: number[];
+}
+
+export type AdsGetGmsItemPerformanceResponse = Record<string, never>;
+
+// ==================== /api/v2/ads/get_product_campaign_daily_performance ====================
+
+export interface AdsGetProductCampaignDailyPerformanceRequest {
+  /** ID chiến dịch. */
+  campaign_id: number;
+  /** Ngày bắt đầu (DD-MM-YYYY). */
+  start_date: string;
+  /** Ngày kết thúc (DD-MM-YYYY). */
+  end_date: string;
+}
+
+export interface AdsGetProductCampaignDailyPerformanceResponseItem {
+  /** Lượt hiển thị. */
+  impression: number;
+  /** Lượt click. */
+  clicks: number;
+  /** Tỷ lệ click. */
+  ctr: number;
+  /** Chi phí. */
+  expense: number;
+  /** Doanh thu. */
+  gmv: number;
+  /** Tỷ suất lợi nhuận (ROAS). */
+  roas: number;
+}
+
+export type AdsGetProductCampaignDailyPerformanceResponse = AdsGetProductCampaignDailyPerformanceResponseItem[];
+
+// ==================== /api/v2/ads/get_product_campaign_hourly_performance ====================
+
+export interface AdsGetProductCampaignHourlyPerformanceRequest {
+  /** ID chiến dịch. */
+  campaign_id: number;
+  /** Ngày kiểm tra (DD-MM-YYYY). */
+  performance_date: string;
+}
+
+export interface AdsGetProductCampaignHourlyPerformanceResponseItem {
+  /** Giờ ghi nhận. */
+  hour: number;
+  /** Lượt hiển thị. */
+  impression: number;
+  /** Lượt click. */
+  clicks: number;
+}
+
+export type AdsGetProductCampaignHourlyPerformanceResponse = AdsGetProductCampaignHourlyPerformanceResponseItem[];
+
+// ==================== /api/v2/ads/get_product_level_campaign_id_list ====================
+
+export type AdsGetProductLevelCampaignIdListRequest = Record<string, never>;
+
+export type AdsGetProductLevelCampaignIdListResponse = number[];
+
+// ==================== /api/v2/ads/get_product_level_campaign_setting_info ====================
+
+export interface AdsGetProductLevelCampaignSettingInfoRequest {
+  /** Danh sách ID chiến dịch. */
+  campaign_id_list: number[];
+}
+
+export type AdsGetProductLevelCampaignSettingInfoResponse = Record<string, never>;
+
+// ==================== /api/v2/ads/get_product_recommended_roi_target ====================
+
+export interface AdsGetProductRecommendedRoiTargetRequest {
+  /** Danh sách ID sản phẩm. */
+  item_id_list: number[];
+}
+
+export type AdsGetProductRecommendedRoiTargetResponse = Record<string, never>;
+
+// ==================== /api/v2/ads/get_recommended_item_list ====================
+
+export type AdsGetRecommendedItemListRequest = Record<string, never>;
+
+export interface AdsGetRecommendedItemListResponseItem {
+  /** ID của mặt hàng SKU được đề xuất. */
+  item_id: number;
+  /** Thông số để cho biết trạng thái của các mặt hàng, nhờ đó người bán có thể biết mặt hàng có đủ điều kiện để chạy quảng cáo hay không. */
+  item_status_list: string[];
+  /** Các thẻ tương ứng thuộc về item_id. Chuỗi thứ tự tuân theo best selling > best ROI > top search. */
+  sku_tag_list: string[];
+  /** Trạng thái hiện tại của quảng cáo trên mặt hàng này. Ví dụ: no ongoing promotion (không có khuyến mại nào đang diễn ra), search ads, discovery ads, boost ads. */
+  ongoing_ad_type_list: string[];
+}
+
+export type AdsGetRecommendedItemListResponse = AdsGetRecommendedItemListResponseItem[];
+
+// ==================== /api/v2/ads/get_recommended_keyword_list ====================
+
+export interface AdsGetRecommendedKeywordListRequest {
+  /** Mã định danh duy nhất của Shopee cho một mặt hàng (sản phẩm). */
+  item_id: number;
+  /** Từ khoá mà người bán gõ vào trong cửa sổ thêm từ khoá thủ công. */
+  input_keyword?: string;
+}
+
+export interface AdsGetRecommendedKeywordListResponseSuggestedKeywords {
+  /** Giá trị của từ khoá (Chỉ trả về các từ khoá được đề xuất cao, sẽ hơi khác so với Seller Center). */
+  keyword: string;
+  /** Đây là thước đo mức độ hấp dẫn của quảng cáo của bạn và mức độ liên quan của nó với từ khoá. Điểm chất lượng càng cao, thứ hạng quảng cáo càng cao. Thứ hạng quảng cáo dựa trên điểm số này và giá thầu của bạn. */
+  quality_score: number;
+  /** Số lần từ khoá được tìm kiếm trên Shopee trong 30 ngày qua. Khối lượng tìm kiếm càng lớn, quảng cáo của bạn sẽ nhận được càng nhiều lượt hiển thị. */
+  search_volume: number;
+  /** Giá thầu dự kiến được đề xuất bởi thuật toán Shopee cho từ khoá này theo đơn vị tiền tệ địa phương. */
+  suggested_bid: number;
+}
+
+export interface AdsGetRecommendedKeywordListResponse {
+  /** Mã định danh duy nhất của Shopee cho một mặt hàng. */
+  item_id: number;
+  /** Từ khoá mà người bán đã gõ để tìm kiếm thủ công. */
+  input_keyword: string;
+  /** Danh sách các từ khoá được đề xuất dựa trên sản phẩm. */
+  suggested_keywords: AdsGetRecommendedKeywordListResponseSuggestedKeywords[];
+}
+
+// ==================== /api/v2/ads/get_shop_toggle_info ====================
+
+export type AdsGetShopToggleInfoRequest = Record<string, never>;
+
+export interface AdsGetShopToggleInfoResponse {
+  /** Thời gian (Timestamp) của dữ liệu trong phản hồi. */
+  data_timestamp: number;
+  /** Công tắc tự động nạp tiền (auto_top_up) đang bật hay tắt. */
+  auto_top_up: boolean;
+  /** Công tắc chiến dịch tăng đột biến (campaign_surge) đang bật hay tắt. */
+  campaign_surge: boolean;
+}
+
+// ==================== /api/v2/ads/get_total_balance ====================
+
+export type AdsGetTotalBalanceRequest = Record<string, never>;
+
+export interface AdsGetTotalBalanceResponse {
+  /** Thông số để chỉ ra thời gian của ảnh chụp (snapshot) tổng số dư. */
+  data_timestamp: number;
+  /** Đây là số dư tín dụng quảng cáo của người bán, bao gồm tín dụng trả phí và tín dụng miễn phí. */
+  total_balance: number;
+}
+
+// ==================== /api/v2/ads/list_gms_user_deleted_item ====================
+
+export type AdsListGmsUserDeletedItemRequest = Record<string, never>;
+
+export type AdsListGmsUserDeletedItemResponse = number[];
+
+// ==================== /api/v2/auth/access_token/get ====================
+
+export interface AuthAccessTokenGetRequest {
+  /** Dùng refresh_token để lấy access_token mới. Mỗi refresh_token có hiệu lực 30 ngày, chỉ dùng được một lần bởi một shop_id hoặc merchant_id hoặc supplier_id hoặc user_id. */
+  refresh_token: string;
+  /** ID đối tác lấy từ App. partner_id này được đưa vào body request. */
+  partner_id: number;
+  /** shop_id đã uỷ quyền cho App. Chỉ được chọn một trong shop_id, merchant_id, supplier_id hoặc user_id làm tham số đầu vào, và phải làm mới riêng biệt. */
+  shop_id?: number;
+  /** merchant_id đã uỷ quyền cho App. Chỉ được chọn một trong shop_id, merchant_id, supplier_id hoặc user_id, và phải làm mới riêng biệt. */
+  merchant_id?: number;
+  /** supplier_id đã uỷ quyền cho App. Chỉ được chọn một trong shop_id, merchant_id, supplier_id hoặc user_id, và phải làm mới riêng biệt. */
+  supplier_id?: number;
+  /** user_id đã uỷ quyền cho App. Chỉ được chọn một trong shop_id, merchant_id, supplier_id hoặc user_id, và phải làm mới riêng biệt. */
+  user_id?: number;
+}
+
+export interface AuthAccessTokenGetResponse {
+  /** Trả về khi gọi API thành công. partner_id bạn đã dùng cho lần làm mới này. */
+  partner_id: number;
+  /** Trả về khi gọi API thành công. shop_id cho lần làm mới này. */
+  shop_id: number;
+  /** Trả về khi gọi API thành công. merchant_id cho lần làm mới này. */
+  merchant_id: number;
+  /** Trả về khi gọi API thành công. supplier_id cho lần làm mới này. */
+  supplier_id: number;
+  /** Trả về khi gọi API thành công. user_id cho lần làm mới này. */
+  user_id: number;
+  /** Trả về khi gọi API thành công. Mỗi access_token mới là token động, có thể dùng nhiều lần. Hết hạn sau 4 giờ. */
+  access_token: string;
+  /** refresh_token mới. Trả về khi gọi API thành công. Dùng refresh_token để lấy access_token mới. Mỗi refresh_token có hiệu lực 30 ngày, chỉ dùng được một lần bởi một shop_id hoặc merchant_id hoặc supplier_id hoặc user_id. */
+  refresh_token: string;
+  /** Trả về khi gọi API thành công. Thời gian hiệu lực của access_token, tính bằng giây. */
+  expire_in: number;
+}
+
+// ==================== /api/v2/auth/token/get ====================
+
+export interface AuthTokenGetRequest {
+  /** Mã code trong redirect URL sau khi xác thực. Dùng một lần, hết hạn sau 10 phút. */
+  code: string;
+  /** ID đối tác. Bắt buộc cho mỗi request. */
+  partner_id: number;
+  /** ID định danh duy nhất của shop trên Shopee. */
+  shop_id?: number;
+  /** ID tài khoản chính của người bán đã uỷ quyền cho developer. */
+  main_account_id?: number;
+}
+
+export interface AuthTokenGetResponse {
+  /** Danh sách tất cả shop_id được uỷ quyền trong lần này. */
+  shop_id_list: number[];
+  /** Danh sách tất cả merchant_id được uỷ quyền trong lần này. */
+  merchant_id_list: number[];
+  /** Danh sách tất cả supplier_id được uỷ quyền trong lần này. */
+  supplier_id_list: number[];
+  /** Danh sách tất cả user_id được uỷ quyền trong lần này. */
+  user_id_list: number[];
+  /** Token truy cập. Trả về khi thành công. Có thể dùng nhiều lần, hết hạn sau 4 giờ. */
+  access_token: string;
+  /** Token làm mới. Dùng để lấy access_token mới. Có hiệu lực 30 ngày cho mỗi shop_id/merchant_id/supplier_id/user_id. */
+  refresh_token: string;
+  /** Thời gian hiệu lực của access_token, tính bằng giây. */
+  expire_in: number;
+}
+
+// ==================== /api/v2/public/get_merchants_by_partner ====================
+
+export interface PublicGetMerchantsByPartnerRequest {
+  /** Mỗi tập kết quả được trả về dưới dạng phân trang. Dùng "page_size" để chỉ định số lượng mục tối đa trả về mỗi trang (mỗi lần gọi), và "page_no" để bắt đầu lần gọi tiếp theo. Giá trị này dùng để xác định số mục tối đa trả về trong một "trang" dữ liệu. */
+  page_size?: number;
+  /** Chỉ định số trang dữ liệu cần trả về trong lần gọi hiện tại. Bắt đầu từ 1. Nếu dữ liệu có nhiều hơn một trang, page_no có thể là giá trị bất kỳ để bắt đầu lần gọi tiếp theo. */
+  page_no?: number;
+}
+
+export interface PublicGetMerchantsByPartnerResponseAuthedMerchantList {
+  /** Khu vực của merchant. */
+  region: string;
+  /** ID định danh duy nhất của merchant trên Shopee. */
+  merchant_id: number;
+  /** Thời điểm merchant uỷ quyền cho đối tác (Unix timestamp). */
+  auth_time: number;
+  /** Thời điểm hết hạn uỷ quyền của merchant. */
+  expire_time: number;
+}
+
+export interface PublicGetMerchantsByPartnerResponse {
+  /** Danh sách các merchant đã uỷ quyền cho đối tác. */
+  authed_merchant_list: PublicGetMerchantsByPartnerResponseAuthedMerchantList[];
+  /** Cho biết danh sách có nhiều hơn một trang hay không. Nếu giá trị là true, bạn nên tiếp tục gọi trang tiếp theo để lấy phần dữ liệu còn lại. */
+  more: boolean;
+}
+
+// ==================== /api/v2/public/get_shopee_ip_ranges ====================
+
+export type PublicGetShopeeIpRangesRequest = Record<string, never>;
+
+export interface PublicGetShopeeIpRangesResponse {
+  /** Danh sách dải địa chỉ IP của Shopee. */
+  ip_list: string[];
+}
+
+// ==================== /api/v2/public/get_shops_by_partner ====================
+
+export interface PublicGetShopsByPartnerRequest {
+  /** Mỗi tập kết quả được trả về dưới dạng phân trang. Dùng "page_size" để chỉ định số lượng mục tối đa trả về mỗi trang (mỗi lần gọi), và "page_no" để bắt đầu lần gọi tiếp theo. Giá trị này dùng để xác định số mục tối đa trả về trong một "trang" dữ liệu. */
+  page_size?: number;
+  /** Chỉ định số trang dữ liệu cần trả về trong lần gọi hiện tại. Bắt đầu từ 1. Nếu dữ liệu có nhiều hơn một trang, page_no có thể là giá trị bất kỳ để bắt đầu lần gọi tiếp theo. */
+  page_no?: number;
+}
+
+export interface PublicGetShopsByPartnerResponseAuthedShopList {
+  /** Khu vực của shop. */
+  region: string;
+  /** ID của shop. */
+  shop_id: number;
+  /** Thời điểm shop uỷ quyền cho đối tác (Unix timestamp). */
+  auth_time: number;
+  /** Thời điểm hết hạn uỷ quyền của shop. */
+  expire_time: number;
+}
+
+export interface PublicGetShopsByPartnerResponseSipAffiShopList {
+  /** Khu vực của shop liên kết. */
+  region: string;
+  /** ID của shop liên kết. */
+  affi_shop_id: number;
+}
+
+export interface PublicGetShopsByPartnerResponse {
+  /** Danh sách các shop đã uỷ quyền cho đối tác. */
+  authed_shop_list: PublicGetShopsByPartnerResponseAuthedShopList[];
+  /** Danh sách thông tin shop liên kết SIP. */
+  sip_affi_shop_list: PublicGetShopsByPartnerResponseSipAffiShopList[];
+  /** Cho biết danh sách có nhiều hơn một trang hay không. Nếu giá trị là true, bạn nên tiếp tục gọi trang tiếp theo để lấy phần dữ liệu còn lại. */
+  more: boolean;
+}
+
+// ==================== /api/v2/public/get_token_by_resend_code ====================
+
+export interface PublicGetTokenByResendCodeRequest {
+  /** Mã code trong redirect URL sau khi bạn gửi lại code (resend code) trên trang quản lý uỷ quyền shop. Chỉ dùng một lần, hết hạn sau 10 phút. */
+  resend_code: string;
+}
+
+export interface PublicGetTokenByResendCodeResponse {
+  /** Trả về khi resend code ở module shop. */
+  shop_id_list: number[];
+  /** Trả về khi resend code ở module merchant. */
+  merchant_id_list: number[];
+  /** Dùng refresh_token để lấy access_token mới. Có hiệu lực cho mỗi shop_id và merchant_id, chỉ dùng một lần, hết hạn sau 30 ngày. */
+  refresh_token: string;
+  /** Token truy cập API, dùng để xác định quyền truy cập. Có thể dùng nhiều lần, hết hạn sau 4 giờ. */
+  access_token: string;
+  /** Thời gian hiệu lực của access_token, tính bằng giây. */
+  expire_in: number;
+}
+
+// ==================== /api/v2/shop_flash_sale/add_shop_flash_sale_items ====================
+
+export interface ShopFlashSaleAddShopFlashSaleItemsRequestItemsModels {
+  /** ID phân loại sản phẩm. Bắt buộc nếu sản phẩm có phân loại. */
+  model_id: number;
+  /** Giá khuyến mãi của phân loại (chưa bao gồm thuế). */
+  input_promo_price: number;
+  /** Số lượng hàng trong chiến dịch. min = 1. Có thể lấy từ kho Shopee hoặc kho người bán. */
+  stock: number;
+}
+
+export interface ShopFlashSaleAddShopFlashSaleItemsRequestItems {
+  /** ID sản phẩm. */
+  item_id: number;
+  /** Giới hạn số lượng mua tối đa. min = 0, giá trị 0 nghĩa là không giới hạn. */
+  purchase_limit: number;
+  /** Danh sách phân loại (variation) của sản phẩm. Bắt buộc nếu sản phẩm có phân loại. */
+  models?: ShopFlashSaleAddShopFlashSaleItemsRequestItemsModels[];
+  /** Giá khuyến mãi của sản phẩm (chưa bao gồm thuế). Bắt buộc nếu sản phẩm không có phân loại. Không dùng nếu sản phẩm có phân loại. */
+  item_input_promo_price?: number;
+  /** Số lượng hàng trong chiến dịch của sản phẩm. min = 1. Bắt buộc nếu sản phẩm không có phân loại. Không dùng nếu sản phẩm có phân loại. */
+  item_stock?: number;
+}
+
+export interface ShopFlashSaleAddShopFlashSaleItemsRequest {
+  /** ID của Flash Sale cần thêm sản phẩm vào. */
+  flash_sale_id: number;
+  /** Danh sách sản phẩm cần thêm vào Flash Sale. */
+  items: ShopFlashSaleAddShopFlashSaleItemsRequestItems[];
+}
+
+export interface ShopFlashSaleAddShopFlashSaleItemsResponseFailedItemsUnqualifiedConditions {
+  /** Mã lỗi cho sản phẩm không đủ tiêu chuẩn. */
+  unqualified_code: number;
+  /** Thông báo lỗi cho sản phẩm không đủ tiêu chuẩn. */
+  unqualified_msg: string;
+}
+
+export interface ShopFlashSaleAddShopFlashSaleItemsResponseFailedItems {
+  /** ID sản phẩm thất bại. */
+  item_id: number;
+  /** ID phân loại thất bại. Nếu sản phẩm không có phân loại, trường này sẽ rỗng. */
+  model_id: number;
+  /** Mã lỗi. */
+  err_code: number;
+  /** Lý do tại sao sản phẩm/phân loại không thể được thêm vào. */
+  err_msg: string;
+  /** Chi tiết các tiêu chí không đạt nếu sản phẩm/phân loại không đáp ứng yêu cầu. */
+  unqualified_conditions: ShopFlashSaleAddShopFlashSaleItemsResponseFailedItemsUnqualifiedConditions[];
+}
+
+export interface ShopFlashSaleAddShopFlashSaleItemsResponse {
+  /** Danh sách sản phẩm thêm thất bại. */
+  failed_items: ShopFlashSaleAddShopFlashSaleItemsResponseFailedItems[];
+}
+
+// ==================== /api/v2/shop_flash_sale/create_shop_flash_sale ====================
+
+export interface ShopFlashSaleCreateShopFlashSaleRequest {
+  /** ID của time slot Flash Sale. Lấy từ API v2.shop_flash_sale.get_time_slot_id. Chỉ được dùng timeslot có start_time > now (hiện tại). */
+  timeslot_id: number;
+}
+
+export interface ShopFlashSaleCreateShopFlashSaleResponse {
+  /** ID của time slot được gán cho Flash Sale. */
+  timeslot_id: number;
+  /** ID định danh duy nhất của Flash Sale vừa tạo. */
+  flash_sale_id: number;
+  /** Trạng thái của Flash Sale: 0 = deleted (đã xoá), 1 = enabled (đang hoạt động), 2 = disabled (bị tắt), 3 = system_rejected (bị hệ thống từ chối). */
+  status: number;
+}
+
+// ==================== /api/v2/shop_flash_sale/delete_shop_flash_sale ====================
+
+export interface ShopFlashSaleDeleteShopFlashSaleRequest {
+  /** ID của Flash Sale cần xoá. Không thể xoá Flash Sale đang diễn ra hoặc đã kết thúc. */
+  flash_sale_id: number;
+}
+
+export interface ShopFlashSaleDeleteShopFlashSaleResponse {
+  /** ID của time slot. */
+  timeslot_id: number;
+  /** ID của Flash Sale đã xoá. */
+  flash_sale_id: number;
+  /** Trạng thái Flash Sale sau khi xoá: 0 = deleted, 1 = enabled, 2 = disabled, 3 = system_rejected. */
+  status: number;
+}
+
+// ==================== /api/v2/shop_flash_sale/delete_shop_flash_sale_items ====================
+
+export interface ShopFlashSaleDeleteShopFlashSaleItemsRequest {
+  /** ID của Flash Sale cần xoá sản phẩm. */
+  flash_sale_id: number;
+  /** Danh sách ID sản phẩm cần xoá. Xoá một sản phẩm sẽ xoá tất cả biến thể của sản phẩm đó. */
+  item_ids: number[];
+}
+
+export interface ShopFlashSaleDeleteShopFlashSaleItemsResponseFailedItemsUnqualifiedConditions {
+  /** Mã lý do không đủ tiêu chuẩn. */
+  unqualified_code: number;
+  /** Mô tả lý do không đủ tiêu chuẩn. */
+  unqualified_msg: string;
+}
+
+export interface ShopFlashSaleDeleteShopFlashSaleItemsResponseFailedItems {
+  /** ID của sản phẩm thất bại. */
+  item_id: number;
+  /** ID biến thể thất bại. Trống nếu sản phẩm không có biến thể. */
+  model_id: number;
+  /** Mã lỗi. */
+  err_code: number;
+  /** Lý do không thể xoá model/sản phẩm. */
+  err_msg: string;
+  /** Chi tiết điều kiện không đạt tiêu chí (nếu có). */
+  unqualified_conditions: ShopFlashSaleDeleteShopFlashSaleItemsResponseFailedItemsUnqualifiedConditions[];
+}
+
+export interface ShopFlashSaleDeleteShopFlashSaleItemsResponse {
+  /** Danh sách sản phẩm/biến thể xoá thất bại. */
+  failed_items: ShopFlashSaleDeleteShopFlashSaleItemsResponseFailedItems[];
+}
+
+// ==================== /api/v2/shop_flash_sale/get_item_criteria ====================
+
+export type ShopFlashSaleGetItemCriteriaRequest = Record<string, never>;
+
+export interface ShopFlashSaleGetItemCriteriaResponseCriteria {
+  /** ID định danh của tiêu chí. */
+  criteria_id: number;
+  /** Điểm đánh giá sản phẩm tối thiểu (0.0–5.0). -1 nghĩa là không giới hạn. */
+  min_product_rating: number;
+  /** Số lượt thích tối thiểu. -1 nghĩa là không giới hạn. */
+  min_likes: number;
+  /** Sản phẩm không được là Pre-Order (đặt trước). */
+  must_not_pre_order: boolean;
+  /** Số đơn hàng tối thiểu trong 30 ngày gần nhất. -1 nghĩa là không giới hạn. */
+  min_order_total: number;
+  /** Số ngày giao hàng tối đa. -1 nghĩa là không giới hạn. */
+  max_days_to_ship: number;
+  /** Kiểm soát lặp lại: cùng một sản phẩm không được tham gia ISFS trong vòng N ngày. -1 nghĩa là không giới hạn. */
+  min_repetition_day: number;
+  /** Số lượng hàng khuyến mãi tối thiểu. -1 nghĩa là không giới hạn. */
+  min_promo_stock: number;
+  /** Số lượng hàng khuyến mãi tối đa. -1 nghĩa là không giới hạn. */
+  max_promo_stock: number;
+  /** Mức giảm giá tối thiểu. Ví dụ: 10 = 10%. -1 nghĩa là không giới hạn. */
+  min_discount: number;
+  /** Mức giảm giá tối đa. Ví dụ: 100 = 100%. -1 nghĩa là không giới hạn. */
+  max_discount: number;
+  /** Giá giảm tối thiểu. -1 nghĩa là không giới hạn. Giá thực = min_discount_price / 100000. */
+  min_discount_price: number;
+  /** Giá giảm tối đa. -1 nghĩa là không giới hạn. Giá thực = max_discount_price / 100000. */
+  max_discount_price: number;
+  /** Giá phải thấp hơn giá thấp nhất trong 7 ngày qua (không tính Shopee Flash Deals). */
+  need_lowest_price: boolean;
+}
+
+export interface ShopFlashSaleGetItemCriteriaResponsePairIdsCategoryList {
+  /** ID danh mục. 0 nghĩa là tất cả danh mục. */
+  category_id: number;
+  /** Tên danh mục. */
+  name: string;
+  /** ID danh mục cha. 0 nghĩa là danh mục cấp L1. */
+  parent_id: number;
+}
+
+export interface ShopFlashSaleGetItemCriteriaResponsePairIds {
+  /** ID tiêu chí tương ứng. */
+  criteria_id: number;
+  /** Các danh mục của shop có sản phẩm, tiêu chí sẽ áp dụng cho các danh mục này. */
+  category_list: ShopFlashSaleGetItemCriteriaResponsePairIdsCategoryList[];
+}
+
+export interface ShopFlashSaleGetItemCriteriaResponse {
+  /** Danh sách tiêu chí chi tiết áp dụng cho sản phẩm tham gia Flash Sale. */
+  criteria: ShopFlashSaleGetItemCriteriaResponseCriteria[];
+  /** Quan hệ mapping giữa tiêu chí và danh mục sản phẩm. */
+  pair_ids: ShopFlashSaleGetItemCriteriaResponsePairIds[];
+  /** Do quy định, một số danh mục này bị cấm khuyến mãi tại khu vực tương ứng. */
+  overlap_block_category_ids: number[];
+}
+
+// ==================== /api/v2/shop_flash_sale/get_shop_flash_sale ====================
+
+export interface ShopFlashSaleGetShopFlashSaleRequest {
+  /** ID của Flash Sale cần lấy chi tiết. */
+  flash_sale_id: number;
+}
+
+export interface ShopFlashSaleGetShopFlashSaleResponse {
+  /** ID của time slot. */
+  timeslot_id: number;
+  /** ID của Flash Sale. */
+  flash_sale_id: number;
+  /** Trạng thái: 0 = deleted, 1 = enabled, 2 = disabled. */
+  status: number;
+  /** Thời điểm bắt đầu Flash Sale. */
+  start_time: number;
+  /** Thời điểm kết thúc Flash Sale. */
+  end_time: number;
+  /** Số lượng sản phẩm đang được kích hoạt trong Flash Sale. */
+  enabled_item_count: number;
+  /** Tổng số sản phẩm trong Flash Sale. */
+  item_count: number;
+  /** Trạng thái thời gian: 1 = upcoming (sắp tới), 2 = ongoing (đang diễn ra), 3 = expired (đã kết thúc). */
+  type: number;
+}
+
+// ==================== /api/v2/shop_flash_sale/get_shop_flash_sale_items ====================
+
+export interface ShopFlashSaleGetShopFlashSaleItemsRequest {
+  /** ID của Flash Sale cần lấy danh sách sản phẩm. */
+  flash_sale_id: number;
+  /** Vị trí bắt đầu của trang kết quả. min=0, max=1000. */
+  offset: number;
+  /** Số lượng kết quả trả về mỗi trang. min=1, max=100. */
+  limit: number;
+}
+
+export interface ShopFlashSaleGetShopFlashSaleItemsResponseModelsUnqualifiedConditions {
+  /** Mã lý do không đủ tiêu chuẩn. */
+  unqualified_code: number;
+  /** Mô tả lý do không đủ tiêu chuẩn. */
+  unqualified_msg: string;
+}
+
+export interface ShopFlashSaleGetShopFlashSaleItemsResponseModels {
+  /** ID của sản phẩm. */
+  item_id: number;
+  /** ID của biến thể (variation). */
+  model_id: number;
+  /** Tên biến thể. */
+  model_name: string;
+  /** Trạng thái biến thể trong Flash Sale: 0 = disable, 1 = enable, 2 = delete, 4 = system_rejected, 5 = manual_rejected. */
+  status: number;
+  /** Giá gốc của biến thể. */
+  original_price: number;
+  /** Giá khuyến mãi chưa bao gồm thuế. */
+  input_promotion_price: number;
+  /** Giá khuyến mãi đã bao gồm thuế. */
+  promotion_price_with_tax: number;
+  /** Giới hạn số lượng mua. 0 = không giới hạn. */
+  purchase_limit: number;
+  /** Tồn kho dành riêng cho Flash Sale. */
+  campaign_stock: number;
+  /** Tồn kho hiện hoạt (active inventory). */
+  stock: number;
+  /** Lý do từ chối, có giá trị khi status là 4 hoặc 5. */
+  reject_reason: string;
+  /** Điều kiện không đủ tiêu chuẩn (nếu sản phẩm không đáp ứng tiêu chí). */
+  unqualified_conditions: ShopFlashSaleGetShopFlashSaleItemsResponseModelsUnqualifiedConditions;
+}
+
+export interface ShopFlashSaleGetShopFlashSaleItemsResponseItemInfoUnqualifiedConditions {
+  /** Mã lý do không đủ tiêu chuẩn. */
+  unqualified_code: number;
+  /** Mô tả lý do không đủ tiêu chuẩn. */
+  unqualified_msg: string;
+}
+
+export interface ShopFlashSaleGetShopFlashSaleItemsResponseItemInfo {
+  /** ID của sản phẩm. */
+  item_id: number;
+  /** Tên sản phẩm. */
+  item_name: string;
+  /** Trạng thái sản phẩm trên Shopee: 0 = Deleted, 1 = Normal, 2 = reviewing, 3 = banned, 4 = invalid, 5 = invalid hide, 6 = offensive hide, 7 = auditing, 8 = normal unlist. */
+  status: number;
+  /** URL ảnh đại diện sản phẩm. */
+  image: string;
+  /** Trạng thái sản phẩm trong Flash Sale. Trống nếu sản phẩm có biến thể: 0 = disable, 1 = enable, 2 = delete, 4 = system_rejected, 5 = manual_rejected. */
+  item_status: number;
+  /** Giá gốc sản phẩm. Trống nếu sản phẩm có biến thể. */
+  original_price: number;
+  /** Giá khuyến mãi chưa bao gồm thuế. Trống nếu sản phẩm có biến thể. */
+  input_promotion_price: number;
+  /** Giá khuyến mãi đã bao gồm thuế. Có giá trị nếu sản phẩm không có biến thể. */
+  promotion_price_with_tax: number;
+  /** Giới hạn số lượng mua. 0 = không giới hạn. Trống nếu sản phẩm có biến thể. */
+  purchase_limit: number;
+  /** Tồn kho dành riêng cho Flash Sale. Có giá trị nếu sản phẩm không có biến thể. */
+  campaign_stock: number;
+  /** Tồn kho hiện hoạt. Có giá trị nếu sản phẩm không có biến thể. */
+  stock: number;
+  /** Lý do từ chối. Có giá trị khi item_status là 4 hoặc 5, và sản phẩm không có biến thể. */
+  reject_reason: string;
+  /** Điều kiện không đủ tiêu chuẩn. Trống nếu sản phẩm có biến thể. */
+  unqualified_conditions: ShopFlashSaleGetShopFlashSaleItemsResponseItemInfoUnqualifiedConditions;
+}
+
+export interface ShopFlashSaleGetShopFlashSaleItemsResponse {
+  /** Tổng số sản phẩm trong Flash Sale. */
+  total_count: number;
+  /** Thông tin variation của sản phẩm. Chỉ có giá trị khi sản phẩm có biến thể. */
+  models: ShopFlashSaleGetShopFlashSaleItemsResponseModels[];
+  /** Thông tin sản phẩm trong Flash Sale. Nếu sản phẩm có biến thể, các trường về giá/tồn kho sẽ trống. */
+  item_info: ShopFlashSaleGetShopFlashSaleItemsResponseItemInfo[];
+}
+
+// ==================== /api/v2/shop_flash_sale/get_shop_flash_sale_list ====================
+
+export interface ShopFlashSaleGetShopFlashSaleListRequest {
+  /** Lọc theo trạng thái Flash Sale: 0 = tất cả, 1 = sắp diễn ra (upcoming), 2 = đang diễn ra (ongoing), 3 = đã kết thúc (expired). */
+  type: number;
+  /** Thời điểm bắt đầu lọc. Phải dùng cùng với end_time và phải nhỏ hơn end_time. */
+  start_time?: number;
+  /** Thời điểm kết thúc lọc. Phải dùng cùng với start_time và phải lớn hơn start_time. */
+  end_time?: number;
+  /** Vị trí bắt đầu lấy dữ liệu. min = 0, max = 1000. */
+  offset: number;
+  /** Số lượng kết quả tối đa mỗi lần gọi. min = 1, max = 100. */
+  limit: number;
+}
+
+export interface ShopFlashSaleGetShopFlashSaleListResponseFlashSaleList {
+  /** ID của time slot. */
+  timeslot_id: number;
+  /** ID của Flash Sale. */
+  flash_sale_id: number;
+  /** Trạng thái: 0 = deleted, 1 = enabled, 2 = disabled, 3 = system_rejected (không thể chỉnh sửa khi ở trạng thái này). */
+  status: number;
+  /** Thời điểm bắt đầu Flash Sale. */
+  start_time: number;
+  /** Thời điểm kết thúc Flash Sale. */
+  end_time: number;
+  /** Số lượng sản phẩm đang được kích hoạt trong Flash Sale. */
+  enabled_item_count: number;
+  /** Tổng số sản phẩm trong Flash Sale. */
+  item_count: number;
+  /** Trạng thái thời gian: 1 = upcoming (sắp tới), 2 = ongoing (đang diễn ra), 3 = expired (đã kết thúc). */
+  type: number;
+  /** Số lượt đặt nhắc nhở (reminders). */
+  remindme_count: number;
+  /** Số lượt click vào sản phẩm. */
+  click_count: number;
+}
+
+export interface ShopFlashSaleGetShopFlashSaleListResponse {
+  /** Tổng số chương trình Flash Sale mà shop có. */
+  total_count: number;
+  /** Danh sách các chương trình Flash Sale. */
+  flash_sale_list: ShopFlashSaleGetShopFlashSaleListResponseFlashSaleList[];
+}
+
+// ==================== /api/v2/shop_flash_sale/get_time_slot_id ====================
+
+export interface ShopFlashSaleGetTimeSlotIdRequest {
+  /** Thời điểm bắt đầu tìm kiếm time slot. min = now (hiện tại), max = 2145887999. Phải nhỏ hơn end_time. */
+  start_time: number;
+  /** Thời điểm kết thúc tìm kiếm time slot. Phải lớn hơn start_time. max = 2145887999. */
+  end_time: number;
+}
+
+export interface ShopFlashSaleGetTimeSlotIdResponseItem {
+  /** ID định danh của time slot Flash Sale. */
+  timeslot_id: number;
+  /** Thời điểm bắt đầu của time slot. */
+  start_time: number;
+  /** Thời điểm kết thúc của time slot. */
+  end_time: number;
+}
+
+export type ShopFlashSaleGetTimeSlotIdResponse = ShopFlashSaleGetTimeSlotIdResponseItem[];
+
+// ==================== /api/v2/shop_flash_sale/update_shop_flash_sale ====================
+
+export interface ShopFlashSaleUpdateShopFlashSaleRequest {
+  /** ID của Flash Sale cần cập nhật. */
+  flash_sale_id: number;
+  /** Trạng thái muốn đặt cho Flash Sale. Không thể chỉnh sửa khi ở trạng thái system_rejected. Tắt Flash Sale sẽ tắt tất cả sản phẩm trong session đó. 1 = enable, 2 = disabled. */
+  status: number;
+}
+
+export interface ShopFlashSaleUpdateShopFlashSaleResponse {
+  /** ID của time slot. */
+  timeslot_id: number;
+  /** ID của Flash Sale. */
+  flash_sale_id: number;
+  /** Trạng thái hiện tại của Flash Sale: 0 = deleted, 1 = enabled, 2 = disabled, 3 = system_rejected (không thể chỉnh sửa khi ở trạng thái này). */
+  status: number;
+}
+
+// ==================== /api/v2/shop_flash_sale/update_shop_flash_sale_items ====================
+
+export interface ShopFlashSaleUpdateShopFlashSaleItemsRequestItemsModels {
+  /** ID biến thể. Bắt buộc nếu sản phẩm có biến thể. */
+  model_id: number;
+  /** Trạng thái biến thể: 0 = disable, 1 = enable. */
+  status: number;
+  /** Giá khuyến mãi chưa bao gồm thuế. Không thể đặt khi model đang enabled (status=1). Nếu model đang disabled và muốn đặt giá, cần đặt status=1 cùng lúc. */
+  input_promo_price?: number;
+  /** Tồn kho Flash Sale của biến thể. min=1. Không thể đặt khi model đang enabled (status=1). Nếu model đang disabled và muốn đặt, cần đặt status=1 cùng lúc. */
+  stock?: number;
+}
+
+export interface ShopFlashSaleUpdateShopFlashSaleItemsRequestItems {
+  /** ID của sản phẩm. */
+  item_id: number;
+  /** Giới hạn số lượng mua. min=0, 0 = không giới hạn. Không thể đặt nếu sản phẩm đang enabled hoặc có model đang enabled. */
+  purchase_limit?: number;
+  /** Danh sách biến thể. Bắt buộc nếu sản phẩm có biến thể, không dùng nếu sản phẩm không có biến thể. */
+  models?: ShopFlashSaleUpdateShopFlashSaleItemsRequestItemsModels[];
+  /** Trạng thái sản phẩm. Bắt buộc nếu sản phẩm không có biến thể, không dùng nếu có biến thể. 0 = disable, 1 = enable. */
+  item_status?: number;
+  /** Giá khuyến mãi sản phẩm (không có biến thể). Không dùng nếu có biến thể. Không thể đặt khi item_status=1. Nếu item_status=0 và muốn đặt giá, cần đặt item_status=1 cùng lúc. */
+  item_input_promo_price?: number;
+  /** Tồn kho Flash Sale của sản phẩm (không có biến thể). min=1. Không dùng nếu có biến thể. Không thể đặt khi item_status=1. Nếu item_status=0 và muốn đặt, cần đặt item_status=1 cùng lúc. */
+  item_stock?: number;
+}
+
+export interface ShopFlashSaleUpdateShopFlashSaleItemsRequest {
+  /** ID của Flash Sale cần cập nhật sản phẩm. */
+  flash_sale_id: number;
+  /** Danh sách sản phẩm cần cập nhật. */
+  items: ShopFlashSaleUpdateShopFlashSaleItemsRequestItems[];
+}
+
+export interface ShopFlashSaleUpdateShopFlashSaleItemsResponseFailedItemsUnqualifiedConditions {
+  /** Mã lý do không đủ tiêu chuẩn. */
+  unqualified_code: number;
+  /** Mô tả lý do không đủ tiêu chuẩn. */
+  unqualified_msg: string;
+}
+
+export interface ShopFlashSaleUpdateShopFlashSaleItemsResponseFailedItems {
+  /** ID của sản phẩm thất bại. */
+  item_id: number;
+  /** ID biến thể thất bại. Trống nếu sản phẩm không có biến thể. */
+  model_id: number;
+  /** Mã lỗi. */
+  err_code: number;
+  /** Lý do không thể cập nhật model/sản phẩm. */
+  err_msg: string;
+  /** Chi tiết điều kiện không đạt tiêu chí (nếu có). */
+  unqualified_conditions: ShopFlashSaleUpdateShopFlashSaleItemsResponseFailedItemsUnqualifiedConditions[];
+}
+
+export interface ShopFlashSaleUpdateShopFlashSaleItemsResponse {
+  /** Danh sách sản phẩm/biến thể cập nhật thất bại. */
+  failed_items: ShopFlashSaleUpdateShopFlashSaleItemsResponseFailedItems[];
+}
+
+// ==================== /api/v2/voucher/add_voucher ====================
+
+export interface VoucherAddVoucherRequest {
+  /** Tên của voucher. */
+  voucher_name: string;
+  /** Mã của voucher. */
+  voucher_code: string;
+  /** Thời gian từ khi voucher có hiệu lực; người mua được phép thu thập và sử dụng. */
+  start_time: number;
+  /** Thời gian cho đến khi voucher hết hiệu lực. Sau khoảng thời gian này, người mua không được thu thập hay sử dụng. */
+  end_time: number;
+  /** Loại voucher. Các giá trị có sẵn là: 1: shop voucher, 2: product voucher. */
+  voucher_type: number;
+  /** Loại phần thưởng của voucher. Các giá trị có sẵn là: 1: fix_amount voucher, 2: discount_percentage voucher, 3: coin_cashback voucher. */
+  reward_type: number;
+  /** Số lần chứng từ này có thể được sử dụng. */
+  usage_quantity: number;
+  /** Mức chi tiêu tối thiểu bắt buộc để sử dụng voucher này. */
+  min_basket_price: number;
+  /** Số tiền giảm giá được thiết lập cho voucher này. Chỉ điền khi bạn đang tạo voucher fix amount. */
+  discount_amount?: number;
+  /** Tỷ lệ phần trăm giảm giá được đặt cho voucher này. Chỉ điền khi bạn đang tạo voucher discount percentage hoặc coin cashback. */
+  percentage?: number;
+  /** Số tiền giảm giá/giá trị tối đa mà người dùng có thể nhận được bằng cách sử dụng voucher này. Chỉ điền vào khi bạn đang tạo voucher discount percentage hoặc coin cashback. Nếu không có giới hạn giới hạn, có thể thiết lập là 0. */
+  max_price?: number;
+  /** Kênh FE nơi voucher sẽ được hiển thị. Các giá trị khả dụng là: 1: display_all, 3: feed, 4: live streaming, [] (trống - bị ẩn). */
+  display_channel_list?: number[];
+  /** Danh sách sản phẩm áp dụng được voucher này. Chỉ điền khi bạn tạo product voucher. */
+  item_id_list?: number[];
+  /** Thời gian voucher được hiển thị trên trang cửa hàng để người mua có thể lấy. Nếu display_channel_list trống thì để display_start_time rỗng. */
+  display_start_time?: number;
+}
+
+export interface VoucherAddVoucherResponse {
+  /** ID định danh duy nhất của voucher vừa được tạo. */
+  voucher_id: number;
+}
+
+// ==================== /api/v2/voucher/delete_voucher ====================
+
+export interface VoucherDeleteVoucherRequest {
+  /** ID định danh duy nhất của voucher mà bạn muốn xoá. */
+  voucher_id: number;
+}
+
+export interface VoucherDeleteVoucherResponse {
+  /** ID duy nhất của voucher đang được xoá. */
+  voucher_id: number;
+}
+
+// ==================== /api/v2/voucher/end_voucher ====================
+
+export interface VoucherEndVoucherRequest {
+  /** ID định danh duy nhất của voucher mà bạn muốn kết thúc ngay bây giờ. */
+  voucher_id: number;
+}
+
+export interface VoucherEndVoucherResponse {
+  /** ID duy nhất của voucher đang được kết thúc. */
+  voucher_id: number;
+}
+
+// ==================== /api/v2/voucher/get_voucher ====================
+
+export interface VoucherGetVoucherRequest {
+  /** ID định danh duy nhất của voucher, dùng để truy vấn chi tiết voucher. */
+  voucher_id: number;
+}
+
+export interface VoucherGetVoucherResponse {
+  /** ID duy nhất của voucher có thông tin chi tiết được trả về. */
+  voucher_id: number;
+  /** Mã voucher */
+  voucher_code: string;
+  /** Tên voucher */
+  voucher_name: string;
+  /** Loại voucher. Có thể là: 1: shop voucher, 2: product voucher. */
+  voucher_type: number;
+  /** Loại phần thưởng. Có thể là: 1: fix_amount, 2: discount_percentage, 3: coin_cashback. */
+  reward_type: number;
+  /** Số lần voucher này có thể được sử dụng. */
+  usage_quantity: number;
+  /** Cho đến nay, số lần voucher này đã được sử dụng. */
+  current_usage: number;
+  /** Thời gian khi voucher có hiệu lực; người mua được phép thu thập và sử dụng. */
+  start_time: number;
+  /** Thời gian voucher hết hiệu lực. Bất kỳ lúc nào sau end_time người mua không được thu thập hay sử dụng. */
+  end_time: number;
+  /** Có phải voucher tạo bởi Shopee hay không. */
+  is_admin: boolean;
+  /** Trường hợp sử dụng voucher. Giá trị có thể: 0: normal, 1: welcome, 2: referral, 3: shop_follow, 4: shop_game, 5: free_gift, 6: membership, 7: Ads. */
+  voucher_purpose: number;
+  /** Kênh front-end nơi voucher sẽ xuất hiện. 1: display_all, 2: seller page, 3: feed, 4: live streaming, []: trống = bị ẩn (hidden). */
+  display_channel_list: number[];
+  /** Mức chi tiêu tối thiểu yêu cầu để sử dụng voucher này. */
+  min_basket_price: number;
+  /** Phần trăm giảm. Chỉ trả về giá trị nếu là voucher discount_percentage hoặc coin_cashback. */
+  percentage: number;
+  /** Số tiền giảm/nhận tối đa người dùng được hưởng thông qua sử dụng voucher. */
+  max_price: number;
+  /** Số tiền giảm giá. Chỉ trả về giá trị nếu đây là voucher số tiền cố định (fix_amount). */
+  discount_amount: number;
+  /** Trạng thái voucher CMT: 1: review, 2: approved, 3: reject. Chỉ trả về khi đang đợi CMT campaign và không bị loại. */
+  cmt_voucher_status: number;
+  /** Danh sách sản phẩm áp dụng được voucher. Chỉ trả về nếu đây là product type voucher. */
+  item_id_list: number[];
+  /** Thời gian voucher xuất hiện trên trang của shop cho người mua thu thập. */
+  display_start_time: number;
+  /** Đánh dấu voucher cho người dùng mới / khách lặp lại. 1: new user voucher, 2: repeat buyer voucher with 1 orders, 3: repeat buyer voucher with 2 orders. */
+  target_voucher: number;
+  /** Mục đích sử dụng voucher. Có thể: 1: shop, 2: product, 3: new buyer, 4: repeat buyer, 5: private, 6: live, 7: video, 8: campaign, 9: follow prize, 10: membership, 11: game prize, 12: sample voucher. */
+  usecase: number;
+}
+
+// ==================== /api/v2/voucher/get_voucher_list ====================
+
+export interface VoucherGetVoucherListRequest {
+  /** Chỉ định số trang dữ liệu cần trả về trong lần gọi hiện tại. Mặc định là 1 và đầu vào cho phép là từ 1 - 5000. */
+  page_no?: number;
+  /** Chỉ định số lượng mục tối đa trả về mỗi trang (mỗi lần gọi). Mặc định là 20 và đầu vào cho phép là từ 1 - 100. */
+  page_size?: number;
+  /** Lọc trạng thái để lấy danh sách voucher. Giá trị có thể: upcoming/ongoing/expired/all. */
+  status: string;
+}
+
+export interface VoucherGetVoucherListResponseVoucherList {
+  /** ID duy nhất cho một voucher. */
+  voucher_id: number;
+  /** Mã voucher. */
+  voucher_code: string;
+  /** Tên voucher. */
+  voucher_name: string;
+  /** Loại voucher. Có thể là: 1: shop voucher, 2: product voucher. */
+  voucher_type: number;
+  /** Loại phần thưởng. Có thể là: 1: fix_amount, 2: discount_percentage, 3: coin_cashback. */
+  reward_type: number;
+  /** Số lần voucher này có thể được sử dụng. */
+  usage_quantity: number;
+  /** Cho đến nay, số lần voucher này đã được sử dụng. */
+  current_usage: number;
+  /** Thời gian khi voucher có hiệu lực; người mua được phép thu thập và sử dụng. */
+  start_time: number;
+  /** Thời gian voucher hết hiệu lực. Sau end_time, không thể sử dụng hay thu thập. */
+  end_time: number;
+  /** Có phải voucher tạo bởi Shopee hay không. */
+  is_admin: boolean;
+  /** Trường hợp sử dụng voucher. 0: normal, 1: welcome, 2: referral, 3: shop_follow, 4: shop_game, 5: free_gift, 6: membership. */
+  voucher_purpose: number;
+  /** Số tiền giảm giá. Chỉ trả về giá trị nếu đây là voucher số tiền cố định (fix_amount). */
+  discount_amount: number;
+  /** Phần trăm giảm. Chỉ trả về giá trị nếu là voucher discount_percentage hoặc coin_cashback. */
+  percentage: number;
+  /** Trạng thái voucher CMT: 1: review, 2: approved, 3: reject. Chỉ trả về khi đang đợi CMT campaign và không bị loại. */
+  cmt_voucher_status: number;
+  /** Thời gian voucher được hiển thị để user lấy trên trang shop. */
+  display_start_time: number;
+}
+
+export interface VoucherGetVoucherListResponse {
+  /** Cho biết danh sách phân trang còn không. Nếu 'true', có thể gọi trang kế tiếp. */
+  more: boolean;
+  /** Danh sách voucher. */
+  voucher_list: VoucherGetVoucherListResponseVoucherList[];
+}
+
+// ==================== /api/v2/voucher/update_voucher ====================
+
+export interface VoucherUpdateVoucherRequest {
+  /** ID định danh duy nhất của voucher cần cập nhật. */
+  voucher_id: number;
+  /** Tên của voucher. */
+  voucher_name?: string;
+  /** Thời gian từ khi voucher có hiệu lực; người mua được phép thu thập và sử dụng. Trường này chỉ có thể được cập nhật nếu voucher chưa bắt đầu. */
+  start_time?: number;
+  /** Thời gian cho đến khi voucher hết hiệu lực. Sau thời gian này, người mua không được thu thập hay sử dụng. */
+  end_time?: number;
+  /** Số lần chứng từ này có thể được sử dụng. */
+  usage_quantity?: number;
+  /** Số tiền chi tiêu tối thiểu bắt buộc để sử dụng voucher này. */
+  min_basket_price?: number;
+  /** Số tiền giảm giá được thiết lập cho voucher này. Chỉ điền vào khi bạn đang cập nhật voucher có số tiền cố định. */
+  discount_amount?: number;
+  /** Tỷ lệ phần trăm giảm giá được đặt cho voucher này. Chỉ điền khi bạn cập nhật voucher phần trăm giảm giá hoặc voucher hoàn tiền(coin cashback). */
+  percentage?: number;
+  /** Số tiền giảm giá/giá trị tối đa mà người dùng có thể nhận được bằng cách sử dụng voucher này. Chỉ điền khi bạn cập nhật voucher phần trăm giảm giá hoặc voucher hoàn tiền(coin cashback). */
+  max_price?: number;
+  /** Kênh FE nơi voucher sẽ được hiển thị. Các giá trị khả dụng là: 1: display_all, 2: order page, 3: feed, 4: live streaming, [] (trống - bị ẩn). */
+  display_channel_list?: number[];
+  /** Danh sách sản phẩm áp dụng được voucher này. Chỉ điền khi bạn đang cập nhật voucher loại product. */
+  item_id_list?: number[];
+  /** Thời gian voucher được hiển thị trên trang cửa hàng để người mua có thể lấy. */
+  display_start_time?: number;
+}
+
+export interface VoucherUpdateVoucherResponse {
+  /** ID duy nhất của voucher đang được cập nhật. */
+  voucher_id: number;
+}
+
+// ==================== ENDPOINT MAP ====================
+
+export interface ShopeeEndpoints {
+  '/api/v2/account_health/get_late_orders': {
+    method: 'GET';
+    request: AccountHealthGetLateOrdersRequest;
+    response: AccountHealthGetLateOrdersResponse;
+    result: ShopeeResponse<AccountHealthGetLateOrdersResponse>;
+  };
+  '/api/v2/account_health/get_listings_with_issues': {
+    method: 'GET';
+    request: AccountHealthGetListingsWithIssuesRequest;
+    response: AccountHealthGetListingsWithIssuesResponse;
+    result: ShopeeResponse<AccountHealthGetListingsWithIssuesResponse>;
+  };
+  '/api/v2/account_health/get_metric_source_detail': {
+    method: 'GET';
+    request: AccountHealthGetMetricSourceDetailRequest;
+    response: AccountHealthGetMetricSourceDetailResponse;
+    result: ShopeeResponse<AccountHealthGetMetricSourceDetailResponse>;
+  };
+  '/api/v2/account_health/get_penalty_point_history': {
+    method: 'GET';
+    request: AccountHealthGetPenaltyPointHistoryRequest;
+    response: AccountHealthGetPenaltyPointHistoryResponse;
+    result: ShopeeResponse<AccountHealthGetPenaltyPointHistoryResponse>;
+  };
+  '/api/v2/account_health/get_punishment_history': {
+    method: 'GET';
+    request: AccountHealthGetPunishmentHistoryRequest;
+    response: AccountHealthGetPunishmentHistoryResponse;
+    result: ShopeeResponse<AccountHealthGetPunishmentHistoryResponse>;
+  };
+  '/api/v2/account_health/get_shop_performance': {
+    method: 'GET';
+    request: AccountHealthGetShopPerformanceRequest;
+    response: AccountHealthGetShopPerformanceResponse;
+    result: ShopeeResponse<AccountHealthGetShopPerformanceResponse>;
+  };
+  '/api/v2/ads/check_create_gms_product_campaign_eligibility': {
+    method: 'GET';
+    request: AdsCheckCreateGmsProductCampaignEligibilityRequest;
+    response: AdsCheckCreateGmsProductCampaignEligibilityResponse;
+    result: ShopeeResponse<AdsCheckCreateGmsProductCampaignEligibilityResponse>;
+  };
+  '/api/v2/ads/create_auto_product_ads': {
+    method: 'POST';
+    request: AdsCreateAutoProductAdsRequest;
+    response: AdsCreateAutoProductAdsResponse;
+    result: ShopeeResponse<AdsCreateAutoProductAdsResponse>;
+  };
+  '/api/v2/ads/create_gms_product_campaign': {
+    method: 'POST';
+    request: AdsCreateGmsProductCampaignRequest;
+    response: AdsCreateGmsProductCampaignResponse;
+    result: ShopeeResponse & Partial<AdsCreateGmsProductCampaignResponse>;
+  };
+  '/api/v2/ads/create_manual_product_ads': {
+    method: 'POST';
+    request: AdsCreateManualProductAdsRequest;
+    response: AdsCreateManualProductAdsResponse;
+    result: ShopeeResponse<AdsCreateManualProductAdsResponse>;
+  };
+  '/api/v2/ads/edit_auto_product_ads': {
+    method: 'POST';
+    request: AdsEditAutoProductAdsRequest;
+    response: AdsEditAutoProductAdsResponse;
+    result: ShopeeResponse & Partial<AdsEditAutoProductAdsResponse>;
+  };
+  '/api/v2/ads/edit_gms_item_product_campaign': {
+    method: 'POST';
+    request: AdsEditGmsItemProductCampaignRequest;
+    response: AdsEditGmsItemProductCampaignResponse;
+    result: ShopeeResponse & Partial<AdsEditGmsItemProductCampaignResponse>;
+  };
+  '/api/v2/ads/edit_gms_product_campaign': {
+    method: 'POST';
+    request: AdsEditGmsProductCampaignRequest;
+    response: AdsEditGmsProductCampaignResponse;
+    result: ShopeeResponse & Partial<AdsEditGmsProductCampaignResponse>;
+  };
+  '/api/v2/ads/edit_manual_product_ad_keywords': {
+    method: 'POST';
+    request: AdsEditManualProductAdKeywordsRequest;
+    response: AdsEditManualProductAdKeywordsResponse;
+    result: ShopeeResponse & Partial<AdsEditManualProductAdKeywordsResponse>;
+  };
+  '/api/v2/ads/edit_manual_product_ads': {
+    method: 'POST';
+    request: AdsEditManualProductAdsRequest;
+    response: AdsEditManualProductAdsResponse;
+    result: ShopeeResponse & Partial<AdsEditManualProductAdsResponse>;
+  };
+  '/api/v2/ads/get_ads_fácil_shop_rate': {
+    method: 'GET';
+    request: AdsGetAdsFácilShopRateRequest;
+    response: AdsGetAdsFácilShopRateResponse;
+    result: ShopeeResponse<AdsGetAdsFácilShopRateResponse>;
+  };
+  '/api/v2/ads/get_all_cpc_ads_daily_performance': {
+    method: 'GET';
+    request: AdsGetAllCpcAdsDailyPerformanceRequest;
+    response: AdsGetAllCpcAdsDailyPerformanceResponse;
+    result: ShopeeResponse<AdsGetAllCpcAdsDailyPerformanceResponse>;
+  };
+  '/api/v2/ads/get_all_cpc_ads_hourly_performance': {
+    method: 'GET';
+    request: AdsGetAllCpcAdsHourlyPerformanceRequest;
+    response: AdsGetAllCpcAdsHourlyPerformanceResponse;
+    result: ShopeeResponse<AdsGetAllCpcAdsHourlyPerformanceResponse>;
+  };
+  '/api/v2/ads/get_create_product_ad_budget_suggestion': {
+    method: 'GET';
+    request: AdsGetCreateProductAdBudgetSuggestionRequest;
+    response: AdsGetCreateProductAdBudgetSuggestionResponse;
+    result: ShopeeResponse<AdsGetCreateProductAdBudgetSuggestionResponse>;
+  };
+  '/api/v2/ads/get_gms_campaign_performance': {
+    method: 'GET';
+    request: AdsGetGmsCampaignPerformanceRequest;
+    response: AdsGetGmsCampaignPerformanceResponse;
+    result: ShopeeResponse<AdsGetGmsCampaignPerformanceResponse>;
+  };
+  '/api/v2/ads/get_gms_item_performance': {
+    method: 'GET';
+    request: AdsGetGmsItemPerformanceRequest;
+    response: AdsGetGmsItemPerformanceResponse;
+    result: ShopeeResponse<AdsGetGmsItemPerformanceResponse>;
+  };
+  '/api/v2/ads/get_product_campaign_daily_performance': {
+    method: 'GET';
+    request: AdsGetProductCampaignDailyPerformanceRequest;
+    response: AdsGetProductCampaignDailyPerformanceResponse;
+    result: ShopeeResponse<AdsGetProductCampaignDailyPerformanceResponse>;
+  };
+  '/api/v2/ads/get_product_campaign_hourly_performance': {
+    method: 'GET';
+    request: AdsGetProductCampaignHourlyPerformanceRequest;
+    response: AdsGetProductCampaignHourlyPerformanceResponse;
+    result: ShopeeResponse<AdsGetProductCampaignHourlyPerformanceResponse>;
+  };
+  '/api/v2/ads/get_product_level_campaign_id_list': {
+    method: 'GET';
+    request: AdsGetProductLevelCampaignIdListRequest;
+    response: AdsGetProductLevelCampaignIdListResponse;
+    result: ShopeeResponse<AdsGetProductLevelCampaignIdListResponse>;
+  };
+  '/api/v2/ads/get_product_level_campaign_setting_info': {
+    method: 'GET';
+    request: AdsGetProductLevelCampaignSettingInfoRequest;
+    response: AdsGetProductLevelCampaignSettingInfoResponse;
+    result: ShopeeResponse<AdsGetProductLevelCampaignSettingInfoResponse>;
+  };
+  '/api/v2/ads/get_product_recommended_roi_target': {
+    method: 'GET';
+    request: AdsGetProductRecommendedRoiTargetRequest;
+    response: AdsGetProductRecommendedRoiTargetResponse;
+    result: ShopeeResponse<AdsGetProductRecommendedRoiTargetResponse>;
+  };
+  '/api/v2/ads/get_recommended_item_list': {
+    method: 'GET';
+    request: AdsGetRecommendedItemListRequest;
+    response: AdsGetRecommendedItemListResponse;
+    result: ShopeeResponse<AdsGetRecommendedItemListResponse>;
+  };
+  '/api/v2/ads/get_recommended_keyword_list': {
+    method: 'GET';
+    request: AdsGetRecommendedKeywordListRequest;
+    response: AdsGetRecommendedKeywordListResponse;
+    result: ShopeeResponse<AdsGetRecommendedKeywordListResponse>;
+  };
+  '/api/v2/ads/get_shop_toggle_info': {
+    method: 'GET';
+    request: AdsGetShopToggleInfoRequest;
+    response: AdsGetShopToggleInfoResponse;
+    result: ShopeeResponse<AdsGetShopToggleInfoResponse>;
+  };
+  '/api/v2/ads/get_total_balance': {
+    method: 'GET';
+    request: AdsGetTotalBalanceRequest;
+    response: AdsGetTotalBalanceResponse;
+    result: ShopeeResponse<AdsGetTotalBalanceResponse>;
+  };
+  '/api/v2/ads/list_gms_user_deleted_item': {
+    method: 'GET';
+    request: AdsListGmsUserDeletedItemRequest;
+    response: AdsListGmsUserDeletedItemResponse;
+    result: ShopeeResponse<AdsListGmsUserDeletedItemResponse>;
+  };
+  '/api/v2/auth/access_token/get': {
+    method: 'POST';
+    request: AuthAccessTokenGetRequest;
+    response: AuthAccessTokenGetResponse;
+    result: ShopeeResponse & Partial<AuthAccessTokenGetResponse>;
+  };
+  '/api/v2/auth/token/get': {
+    method: 'POST';
+    request: AuthTokenGetRequest;
+    response: AuthTokenGetResponse;
+    result: ShopeeResponse & Partial<AuthTokenGetResponse>;
+  };
+  '/api/v2/public/get_merchants_by_partner': {
+    method: 'GET';
+    request: PublicGetMerchantsByPartnerRequest;
+    response: PublicGetMerchantsByPartnerResponse;
+    result: ShopeeResponse & Partial<PublicGetMerchantsByPartnerResponse>;
+  };
+  '/api/v2/public/get_shopee_ip_ranges': {
+    method: 'GET';
+    request: PublicGetShopeeIpRangesRequest;
+    response: PublicGetShopeeIpRangesResponse;
+    result: ShopeeResponse & Partial<PublicGetShopeeIpRangesResponse>;
+  };
+  '/api/v2/public/get_shops_by_partner': {
+    method: 'GET';
+    request: PublicGetShopsByPartnerRequest;
+    response: PublicGetShopsByPartnerResponse;
+    result: ShopeeResponse & Partial<PublicGetShopsByPartnerResponse>;
+  };
+  '/api/v2/public/get_token_by_resend_code': {
+    method: 'POST';
+    request: PublicGetTokenByResendCodeRequest;
+    response: PublicGetTokenByResendCodeResponse;
+    result: ShopeeResponse & Partial<PublicGetTokenByResendCodeResponse>;
+  };
+  '/api/v2/shop_flash_sale/add_shop_flash_sale_items': {
+    method: 'POST';
+    request: ShopFlashSaleAddShopFlashSaleItemsRequest;
+    response: ShopFlashSaleAddShopFlashSaleItemsResponse;
+    result: ShopeeResponse<ShopFlashSaleAddShopFlashSaleItemsResponse>;
+  };
+  '/api/v2/shop_flash_sale/create_shop_flash_sale': {
+    method: 'POST';
+    request: ShopFlashSaleCreateShopFlashSaleRequest;
+    response: ShopFlashSaleCreateShopFlashSaleResponse;
+    result: ShopeeResponse<ShopFlashSaleCreateShopFlashSaleResponse>;
+  };
+  '/api/v2/shop_flash_sale/delete_shop_flash_sale': {
+    method: 'POST';
+    request: ShopFlashSaleDeleteShopFlashSaleRequest;
+    response: ShopFlashSaleDeleteShopFlashSaleResponse;
+    result: ShopeeResponse<ShopFlashSaleDeleteShopFlashSaleResponse>;
+  };
+  '/api/v2/shop_flash_sale/delete_shop_flash_sale_items': {
+    method: 'POST';
+    request: ShopFlashSaleDeleteShopFlashSaleItemsRequest;
+    response: ShopFlashSaleDeleteShopFlashSaleItemsResponse;
+    result: ShopeeResponse<ShopFlashSaleDeleteShopFlashSaleItemsResponse>;
+  };
+  '/api/v2/shop_flash_sale/get_item_criteria': {
+    method: 'GET';
+    request: ShopFlashSaleGetItemCriteriaRequest;
+    response: ShopFlashSaleGetItemCriteriaResponse;
+    result: ShopeeResponse<ShopFlashSaleGetItemCriteriaResponse>;
+  };
+  '/api/v2/shop_flash_sale/get_shop_flash_sale': {
+    method: 'GET';
+    request: ShopFlashSaleGetShopFlashSaleRequest;
+    response: ShopFlashSaleGetShopFlashSaleResponse;
+    result: ShopeeResponse<ShopFlashSaleGetShopFlashSaleResponse>;
+  };
+  '/api/v2/shop_flash_sale/get_shop_flash_sale_items': {
+    method: 'GET';
+    request: ShopFlashSaleGetShopFlashSaleItemsRequest;
+    response: ShopFlashSaleGetShopFlashSaleItemsResponse;
+    result: ShopeeResponse<ShopFlashSaleGetShopFlashSaleItemsResponse>;
+  };
+  '/api/v2/shop_flash_sale/get_shop_flash_sale_list': {
+    method: 'GET';
+    request: ShopFlashSaleGetShopFlashSaleListRequest;
+    response: ShopFlashSaleGetShopFlashSaleListResponse;
+    result: ShopeeResponse<ShopFlashSaleGetShopFlashSaleListResponse>;
+  };
+  '/api/v2/shop_flash_sale/get_time_slot_id': {
+    method: 'GET';
+    request: ShopFlashSaleGetTimeSlotIdRequest;
+    response: ShopFlashSaleGetTimeSlotIdResponse;
+    result: ShopeeResponse<ShopFlashSaleGetTimeSlotIdResponse>;
+  };
+  '/api/v2/shop_flash_sale/update_shop_flash_sale': {
+    method: 'POST';
+    request: ShopFlashSaleUpdateShopFlashSaleRequest;
+    response: ShopFlashSaleUpdateShopFlashSaleResponse;
+    result: ShopeeResponse<ShopFlashSaleUpdateShopFlashSaleResponse>;
+  };
+  '/api/v2/shop_flash_sale/update_shop_flash_sale_items': {
+    method: 'POST';
+    request: ShopFlashSaleUpdateShopFlashSaleItemsRequest;
+    response: ShopFlashSaleUpdateShopFlashSaleItemsResponse;
+    result: ShopeeResponse<ShopFlashSaleUpdateShopFlashSaleItemsResponse>;
+  };
+  '/api/v2/voucher/add_voucher': {
+    method: 'POST';
+    request: VoucherAddVoucherRequest;
+    response: VoucherAddVoucherResponse;
+    result: ShopeeResponse<VoucherAddVoucherResponse>;
+  };
+  '/api/v2/voucher/delete_voucher': {
+    method: 'POST';
+    request: VoucherDeleteVoucherRequest;
+    response: VoucherDeleteVoucherResponse;
+    result: ShopeeResponse<VoucherDeleteVoucherResponse>;
+  };
+  '/api/v2/voucher/end_voucher': {
+    method: 'POST';
+    request: VoucherEndVoucherRequest;
+    response: VoucherEndVoucherResponse;
+    result: ShopeeResponse<VoucherEndVoucherResponse>;
+  };
+  '/api/v2/voucher/get_voucher': {
+    method: 'GET';
+    request: VoucherGetVoucherRequest;
+    response: VoucherGetVoucherResponse;
+    result: ShopeeResponse<VoucherGetVoucherResponse>;
+  };
+  '/api/v2/voucher/get_voucher_list': {
+    method: 'GET';
+    request: VoucherGetVoucherListRequest;
+    response: VoucherGetVoucherListResponse;
+    result: ShopeeResponse<VoucherGetVoucherListResponse>;
+  };
+  '/api/v2/voucher/update_voucher': {
+    method: 'POST';
+    request: VoucherUpdateVoucherRequest;
+    response: VoucherUpdateVoucherResponse;
+    result: ShopeeResponse<VoucherUpdateVoucherResponse>;
+  };
+}
+
+export type ShopeeEndpointPath = keyof ShopeeEndpoints;
+
+// ==================== CALL HELPERS ====================
+
+/** v2.account_health.get_late_orders - Lấy danh sách các đơn hàng giao trễ (Late Orders) để xử lý kịp thời nhằm tránh bị hủy đơn và tính điểm phạt. */
+export function accountHealthGetLateOrders(
+  client: ShopeeEndpointCaller,
+  request: AccountHealthGetLateOrdersRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/account_health/get_late_orders']['result']> {
+  return client.call('/api/v2/account_health/get_late_orders', { ...context, method: 'GET', params: request });
+}
+
+/** v2.account_health.get_listings_with_issues - Lấy danh sách các Listing có vấn đề (Problematic Listings) để cải thiện listing nhằm tránh bị tính điểm phạt. */
+export function accountHealthGetListingsWithIssues(
+  client: ShopeeEndpointCaller,
+  request: AccountHealthGetListingsWithIssuesRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/account_health/get_listings_with_issues']['result']> {
+  return client.call('/api/v2/account_health/get_listings_with_issues', { ...context, method: 'GET', params: request });
+}
+
+/** v2.account_health.get_metric_source_detail - Lấy chi tiết về Affected Orders / Relevant Listings / Relevant Violations của các metrics. */
+export function accountHealthGetMetricSourceDetail(
+  client: ShopeeEndpointCaller,
+  request: AccountHealthGetMetricSourceDetailRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/account_health/get_metric_source_detail']['result']> {
+  return client.call('/api/v2/account_health/get_metric_source_detail', { ...context, method: 'GET', params: request });
+}
+
+/** v2.account_health.get_penalty_point_history - Lấy lịch sử điểm phạt được tạo trong quý hiện tại. */
+export function accountHealthGetPenaltyPointHistory(
+  client: ShopeeEndpointCaller,
+  request: AccountHealthGetPenaltyPointHistoryRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/account_health/get_penalty_point_history']['result']> {
+  return client.call('/api/v2/account_health/get_penalty_point_history', { ...context, method: 'GET', params: request });
+}
+
+/** v2.account_health.get_punishment_history - Lấy các bản ghi hình phạt (punishment) được tạo trong quý hiện tại. */
+export function accountHealthGetPunishmentHistory(
+  client: ShopeeEndpointCaller,
+  request: AccountHealthGetPunishmentHistoryRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/account_health/get_punishment_history']['result']> {
+  return client.call('/api/v2/account_health/get_punishment_history', { ...context, method: 'GET', params: request });
+}
+
+/** v2.account_health.get_shop_performance - Lấy dữ liệu hiệu suất của shop, bao gồm các chỉ số về fulfillment, listing, customer service và các metrics chi tiết. */
+export function accountHealthGetShopPerformance(
+  client: ShopeeEndpointCaller,
+  request: AccountHealthGetShopPerformanceRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/account_health/get_shop_performance']['result']> {
+  return client.call('/api/v2/account_health/get_shop_performance', { ...context, method: 'GET', params: request });
+}
+
+/** v2.ads.check_create_gms_product_campaign_eligibility - Kiểm tra điều kiện để tạo chiến dịch sản phẩm GMS (Global Marketing Solutions). */
+export function adsCheckCreateGmsProductCampaignEligibility(
+  client: ShopeeEndpointCaller,
+  request: AdsCheckCreateGmsProductCampaignEligibilityRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/check_create_gms_product_campaign_eligibility']['result']> {
+  return client.call('/api/v2/ads/check_create_gms_product_campaign_eligibility', { ...context, method: 'GET', params: request });
+}
+
+/** v2.ads.create_auto_product_ads - (Coming offline soon) Sử dụng API này để tạo quảng cáo sản phẩm tự động. Shopee sẽ tự động tối ưu hóa từ khóa và giá thầu cho các sản phẩm được chọn. */
+export function adsCreateAutoProductAds(
+  client: ShopeeEndpointCaller,
+  request: AdsCreateAutoProductAdsRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/create_auto_product_ads']['result']> {
+  return client.call('/api/v2/ads/create_auto_product_ads', { ...context, method: 'POST', body: request });
+}
+
+/** v2.ads.create_gms_product_campaign - Tạo chiến dịch sản phẩm GMS mới. */
+export function adsCreateGmsProductCampaign(
+  client: ShopeeEndpointCaller,
+  request: AdsCreateGmsProductCampaignRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/create_gms_product_campaign']['result']> {
+  return client.call('/api/v2/ads/create_gms_product_campaign', { ...context, method: 'POST', body: request });
+}
+
+/** v2.ads.create_manual_product_ads - Tạo quảng cáo sản phẩm thủ công, cho phép người bán tự chọn từ khóa và giá thầu. */
+export function adsCreateManualProductAds(
+  client: ShopeeEndpointCaller,
+  request: AdsCreateManualProductAdsRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/create_manual_product_ads']['result']> {
+  return client.call('/api/v2/ads/create_manual_product_ads', { ...context, method: 'POST', body: request });
+}
+
+/** v2.ads.edit_auto_product_ads - (Coming offline soon) Sử dụng API này để chỉnh sửa cài đặt quảng cáo sản phẩm tự động. */
+export function adsEditAutoProductAds(
+  client: ShopeeEndpointCaller,
+  request: AdsEditAutoProductAdsRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/edit_auto_product_ads']['result']> {
+  return client.call('/api/v2/ads/edit_auto_product_ads', { ...context, method: 'POST', body: request });
+}
+
+/** v2.ads.edit_gms_item_product_campaign - Chỉnh sửa cài đặt sản phẩm trong chiến dịch GMS. */
+export function adsEditGmsItemProductCampaign(
+  client: ShopeeEndpointCaller,
+  request: AdsEditGmsItemProductCampaignRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/edit_gms_item_product_campaign']['result']> {
+  return client.call('/api/v2/ads/edit_gms_item_product_campaign', { ...context, method: 'POST', body: request });
+}
+
+/** v2.ads.edit_gms_product_campaign - Chỉnh sửa chiến dịch sản phẩm GMS. */
+export function adsEditGmsProductCampaign(
+  client: ShopeeEndpointCaller,
+  request: AdsEditGmsProductCampaignRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/edit_gms_product_campaign']['result']> {
+  return client.call('/api/v2/ads/edit_gms_product_campaign', { ...context, method: 'POST', body: request });
+}
+
+/** v2.ads.edit_manual_product_ad_keywords - Chỉnh sửa, thêm hoặc xóa từ khóa cho quảng cáo sản phẩm thủ công. */
+export function adsEditManualProductAdKeywords(
+  client: ShopeeEndpointCaller,
+  request: AdsEditManualProductAdKeywordsRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/edit_manual_product_ad_keywords']['result']> {
+  return client.call('/api/v2/ads/edit_manual_product_ad_keywords', { ...context, method: 'POST', body: request });
+}
+
+/** v2.ads.edit_manual_product_ads - Chỉnh sửa thông tin chung (ngân sách, thời gian) của quảng cáo sản phẩm thủ công. */
+export function adsEditManualProductAds(
+  client: ShopeeEndpointCaller,
+  request: AdsEditManualProductAdsRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/edit_manual_product_ads']['result']> {
+  return client.call('/api/v2/ads/edit_manual_product_ads', { ...context, method: 'POST', body: request });
+}
+
+/** v2.ads.get_ads_fácil_shop_rate - Lấy tỷ lệ phí dịch vụ Ads Fácil cho cửa hàng. */
+export function adsGetAdsFácilShopRate(
+  client: ShopeeEndpointCaller,
+  request: AdsGetAdsFácilShopRateRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/get_ads_fácil_shop_rate']['result']> {
+  return client.call('/api/v2/ads/get_ads_fácil_shop_rate', { ...context, method: 'GET', params: request });
+}
+
+/** v2.ads.get_all_cpc_ads_daily_performance - Sử dụng API này để lấy hiệu suất quảng cáo CPC (Cost-Per-Click) ở cấp độ Shop cho nhiều ngày. */
+export function adsGetAllCpcAdsDailyPerformance(
+  client: ShopeeEndpointCaller,
+  request: AdsGetAllCpcAdsDailyPerformanceRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/get_all_cpc_ads_daily_performance']['result']> {
+  return client.call('/api/v2/ads/get_all_cpc_ads_daily_performance', { ...context, method: 'GET', params: request });
+}
+
+/** v2.ads.get_all_cpc_ads_hourly_performance - Sử dụng API này để lấy hiệu suất đo lường theo từng giờ trong một ngày cho quảng cáo CPC (Cost-Per-Click) cấp độ Shop. */
+export function adsGetAllCpcAdsHourlyPerformance(
+  client: ShopeeEndpointCaller,
+  request: AdsGetAllCpcAdsHourlyPerformanceRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/get_all_cpc_ads_hourly_performance']['result']> {
+  return client.call('/api/v2/ads/get_all_cpc_ads_hourly_performance', { ...context, method: 'GET', params: request });
+}
+
+/** v2.ads.get_create_product_ad_budget_suggestion - Lấy gợi ý ngân sách khi tạo quảng cáo sản phẩm mới. */
+export function adsGetCreateProductAdBudgetSuggestion(
+  client: ShopeeEndpointCaller,
+  request: AdsGetCreateProductAdBudgetSuggestionRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/get_create_product_ad_budget_suggestion']['result']> {
+  return client.call('/api/v2/ads/get_create_product_ad_budget_suggestion', { ...context, method: 'GET', params: request });
+}
+
+/** v2.ads.get_gms_campaign_performance - Lấy hiệu suất của chiến dịch GMS. */
+export function adsGetGmsCampaignPerformance(
+  client: ShopeeEndpointCaller,
+  request: AdsGetGmsCampaignPerformanceRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/get_gms_campaign_performance']['result']> {
+  return client.call('/api/v2/ads/get_gms_campaign_performance', { ...context, method: 'GET', params: request });
+}
+
+/** v2.ads.get_gms_item_performance - Lấy hiệu suất của từng sản phẩm trong chiến dịch GMS. */
+export function adsGetGmsItemPerformance(
+  client: ShopeeEndpointCaller,
+  request: AdsGetGmsItemPerformanceRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/get_gms_item_performance']['result']> {
+  return client.call('/api/v2/ads/get_gms_item_performance', { ...context, method: 'GET', params: request });
+}
+
+/** v2.ads.get_product_campaign_daily_performance - Lấy hiệu suất hàng ngày của chiến dịch quảng cáo sản phẩm. */
+export function adsGetProductCampaignDailyPerformance(
+  client: ShopeeEndpointCaller,
+  request: AdsGetProductCampaignDailyPerformanceRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/get_product_campaign_daily_performance']['result']> {
+  return client.call('/api/v2/ads/get_product_campaign_daily_performance', { ...context, method: 'GET', params: request });
+}
+
+/** v2.ads.get_product_campaign_hourly_performance - Lấy hiệu suất hàng giờ của chiến dịch quảng cáo sản phẩm trong một ngày cụ thể. */
+export function adsGetProductCampaignHourlyPerformance(
+  client: ShopeeEndpointCaller,
+  request: AdsGetProductCampaignHourlyPerformanceRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/get_product_campaign_hourly_performance']['result']> {
+  return client.call('/api/v2/ads/get_product_campaign_hourly_performance', { ...context, method: 'GET', params: request });
+}
+
+/** v2.ads.get_product_level_campaign_id_list - Lấy danh sách ID chiến dịch ở cấp độ sản phẩm. */
+export function adsGetProductLevelCampaignIdList(
+  client: ShopeeEndpointCaller,
+  request: AdsGetProductLevelCampaignIdListRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/get_product_level_campaign_id_list']['result']> {
+  return client.call('/api/v2/ads/get_product_level_campaign_id_list', { ...context, method: 'GET', params: request });
+}
+
+/** v2.ads.get_product_level_campaign_setting_info - Lấy thông tin cài đặt của chiến dịch quảng cáo sản phẩm. */
+export function adsGetProductLevelCampaignSettingInfo(
+  client: ShopeeEndpointCaller,
+  request: AdsGetProductLevelCampaignSettingInfoRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/get_product_level_campaign_setting_info']['result']> {
+  return client.call('/api/v2/ads/get_product_level_campaign_setting_info', { ...context, method: 'GET', params: request });
+}
+
+/** v2.ads.get_product_recommended_roi_target - Lấy mục tiêu ROI khuyến nghị cho quảng cáo sản phẩm. */
+export function adsGetProductRecommendedRoiTarget(
+  client: ShopeeEndpointCaller,
+  request: AdsGetProductRecommendedRoiTargetRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/get_product_recommended_roi_target']['result']> {
+  return client.call('/api/v2/ads/get_product_recommended_roi_target', { ...context, method: 'GET', params: request });
+}
+
+/** v2.ads.get_recommended_item_list - Sử dụng API này để lấy danh sách các SKU được đề xuất (cấp cửa hàng) với thẻ hiển thị như tìm kiếm hàng đầu/bán chạy nhất/ROI tốt nhất (top search/best selling/best ROI tag). */
+export function adsGetRecommendedItemList(
+  client: ShopeeEndpointCaller,
+  request: AdsGetRecommendedItemListRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/get_recommended_item_list']['result']> {
+  return client.call('/api/v2/ads/get_recommended_item_list', { ...context, method: 'GET', params: request });
+}
+
+/** v2.ads.get_recommended_keyword_list - Sử dụng API này để nhận danh sách các từ khoá được đề xuất cho từng sản phẩm và (tuỳ chọn) theo cả từ khoá tìm kiếm. */
+export function adsGetRecommendedKeywordList(
+  client: ShopeeEndpointCaller,
+  request: AdsGetRecommendedKeywordListRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/get_recommended_keyword_list']['result']> {
+  return client.call('/api/v2/ads/get_recommended_keyword_list', { ...context, method: 'GET', params: request });
+}
+
+/** v2.ads.get_shop_toggle_info - Sử dụng API này để lấy thông tin cấp cửa hàng - ví dụ: trạng thái công tắc (toggle) của người bán đang bật hoặc tắt. */
+export function adsGetShopToggleInfo(
+  client: ShopeeEndpointCaller,
+  request: AdsGetShopToggleInfoRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/get_shop_toggle_info']['result']> {
+  return client.call('/api/v2/ads/get_shop_toggle_info', { ...context, method: 'GET', params: request });
+}
+
+/** v2.ads.get_total_balance - Sử dụng API này để trả về tổng số dư tín dụng quảng cáo theo thời gian thực của người bán, bao gồm tín dụng trả phí và tín dụng miễn phí. */
+export function adsGetTotalBalance(
+  client: ShopeeEndpointCaller,
+  request: AdsGetTotalBalanceRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/get_total_balance']['result']> {
+  return client.call('/api/v2/ads/get_total_balance', { ...context, method: 'GET', params: request });
+}
+
+/** v2.ads.list_gms_user_deleted_item - Lấy danh sách các sản phẩm đã bị người dùng xóa khỏi chiến dịch GMS. */
+export function adsListGmsUserDeletedItem(
+  client: ShopeeEndpointCaller,
+  request: AdsListGmsUserDeletedItemRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/ads/list_gms_user_deleted_item']['result']> {
+  return client.call('/api/v2/ads/list_gms_user_deleted_item', { ...context, method: 'GET', params: request });
+}
+
+/** v2.public.refresh_access_token - Dùng để làm mới access_token sau khi hết hạn. refresh_token chỉ dùng được một lần, API này cũng sẽ trả về refresh_token mới. Hãy dùng refresh_token mới cho lần gọi RefreshAccessToken tiếp theo. */
+export function authAccessTokenGet(
+  client: ShopeeEndpointCaller,
+  request: AuthAccessTokenGetRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/auth/access_token/get']['result']> {
+  return client.call('/api/v2/auth/access_token/get', { ...context, method: 'POST', body: request });
+}
+
+/** v2.public.get_access_token - Dùng mã code từ bước xác thực (authorization) để lấy shop_id, merchant_id, supplier_id hoặc user_id đã được uỷ quyền, cùng với access_token và refresh_token tương ứng. */
+export function authTokenGet(
+  client: ShopeeEndpointCaller,
+  request: AuthTokenGetRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/auth/token/get']['result']> {
+  return client.call('/api/v2/auth/token/get', { ...context, method: 'POST', body: request });
+}
+
+/** v2.public.get_merchants_by_partner - Lấy thông tin cơ bản của các merchant đã uỷ quyền cho đối tác (partner). */
+export function publicGetMerchantsByPartner(
+  client: ShopeeEndpointCaller,
+  request: PublicGetMerchantsByPartnerRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/public/get_merchants_by_partner']['result']> {
+  return client.call('/api/v2/public/get_merchants_by_partner', { ...context, method: 'GET', params: request });
+}
+
+/** v2.public.get_shopee_ip_ranges - Lấy danh sách dải địa chỉ IP của Shopee thông qua API này. */
+export function publicGetShopeeIpRanges(
+  client: ShopeeEndpointCaller,
+  request: PublicGetShopeeIpRangesRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/public/get_shopee_ip_ranges']['result']> {
+  return client.call('/api/v2/public/get_shopee_ip_ranges', { ...context, method: 'GET', params: request });
+}
+
+/** v2.public.get_shops_by_partner - Lấy thông tin cơ bản của các shop đã uỷ quyền cho đối tác (partner). */
+export function publicGetShopsByPartner(
+  client: ShopeeEndpointCaller,
+  request: PublicGetShopsByPartnerRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/public/get_shops_by_partner']['result']> {
+  return client.call('/api/v2/public/get_shops_by_partner', { ...context, method: 'GET', params: request });
+}
+
+/** v2.public.get_token_by_resend_code - Dùng resend code để lấy access token và refresh token. Khi bạn bị mất access_token hoặc refresh_token, có thể vào trang quản lý uỷ quyền (authorization management) để gửi lại code. Chỉ dùng được trên môi trường thật (live), không hỗ trợ trên môi trường test-stable. */
+export function publicGetTokenByResendCode(
+  client: ShopeeEndpointCaller,
+  request: PublicGetTokenByResendCodeRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/public/get_token_by_resend_code']['result']> {
+  return client.call('/api/v2/public/get_token_by_resend_code', { ...context, method: 'POST', body: request });
+}
+
+/** v2.shop_flash_sale.add_shop_flash_sale_items - Thêm sản phẩm vào chương trình Flash Sale của shop. */
+export function shopFlashSaleAddShopFlashSaleItems(
+  client: ShopeeEndpointCaller,
+  request: ShopFlashSaleAddShopFlashSaleItemsRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/shop_flash_sale/add_shop_flash_sale_items']['result']> {
+  return client.call('/api/v2/shop_flash_sale/add_shop_flash_sale_items', { ...context, method: 'POST', body: request });
+}
+
+/** v2.shop_flash_sale.create_shop_flash_sale - Tạo một chương trình Flash Sale cho shop. */
+export function shopFlashSaleCreateShopFlashSale(
+  client: ShopeeEndpointCaller,
+  request: ShopFlashSaleCreateShopFlashSaleRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/shop_flash_sale/create_shop_flash_sale']['result']> {
+  return client.call('/api/v2/shop_flash_sale/create_shop_flash_sale', { ...context, method: 'POST', body: request });
+}
+
+/** v2.shop_flash_sale.delete_shop_flash_sale - Xoá chương trình Flash Sale của shop. Không thể xoá Flash Sale đang diễn ra (ongoing) hoặc đã kết thúc (expired). */
+export function shopFlashSaleDeleteShopFlashSale(
+  client: ShopeeEndpointCaller,
+  request: ShopFlashSaleDeleteShopFlashSaleRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/shop_flash_sale/delete_shop_flash_sale']['result']> {
+  return client.call('/api/v2/shop_flash_sale/delete_shop_flash_sale', { ...context, method: 'POST', body: request });
+}
+
+/** v2.shop_flash_sale.delete_shop_flash_sale_items - Xoá sản phẩm khỏi chương trình Flash Sale của shop. Xoá một sản phẩm sẽ xoá tất cả các biến thể của sản phẩm đó. */
+export function shopFlashSaleDeleteShopFlashSaleItems(
+  client: ShopeeEndpointCaller,
+  request: ShopFlashSaleDeleteShopFlashSaleItemsRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/shop_flash_sale/delete_shop_flash_sale_items']['result']> {
+  return client.call('/api/v2/shop_flash_sale/delete_shop_flash_sale_items', { ...context, method: 'POST', body: request });
+}
+
+/** v2.shop_flash_sale.get_item_criteria - Lấy tiêu chí sản phẩm (item criteria) cho chương trình Flash Sale của shop. */
+export function shopFlashSaleGetItemCriteria(
+  client: ShopeeEndpointCaller,
+  request: ShopFlashSaleGetItemCriteriaRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/shop_flash_sale/get_item_criteria']['result']> {
+  return client.call('/api/v2/shop_flash_sale/get_item_criteria', { ...context, method: 'GET', params: request });
+}
+
+/** v2.shop_flash_sale.get_shop_flash_sale - Lấy chi tiết một chương trình Flash Sale của shop. */
+export function shopFlashSaleGetShopFlashSale(
+  client: ShopeeEndpointCaller,
+  request: ShopFlashSaleGetShopFlashSaleRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/shop_flash_sale/get_shop_flash_sale']['result']> {
+  return client.call('/api/v2/shop_flash_sale/get_shop_flash_sale', { ...context, method: 'GET', params: request });
+}
+
+/** v2.shop_flash_sale.get_shop_flash_sale_items - Lấy danh sách sản phẩm trong một chương trình Flash Sale của shop. */
+export function shopFlashSaleGetShopFlashSaleItems(
+  client: ShopeeEndpointCaller,
+  request: ShopFlashSaleGetShopFlashSaleItemsRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/shop_flash_sale/get_shop_flash_sale_items']['result']> {
+  return client.call('/api/v2/shop_flash_sale/get_shop_flash_sale_items', { ...context, method: 'GET', params: request });
+}
+
+/** v2.shop_flash_sale.get_shop_flash_sale_list - Lấy danh sách các chương trình Flash Sale của shop. */
+export function shopFlashSaleGetShopFlashSaleList(
+  client: ShopeeEndpointCaller,
+  request: ShopFlashSaleGetShopFlashSaleListRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/shop_flash_sale/get_shop_flash_sale_list']['result']> {
+  return client.call('/api/v2/shop_flash_sale/get_shop_flash_sale_list', { ...context, method: 'GET', params: request });
+}
+
+/** v2.shop_flash_sale.get_time_slot_id - Lấy danh sách time slot ID khả dụng cho Flash Sale trong khoảng thời gian chỉ định. */
+export function shopFlashSaleGetTimeSlotId(
+  client: ShopeeEndpointCaller,
+  request: ShopFlashSaleGetTimeSlotIdRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/shop_flash_sale/get_time_slot_id']['result']> {
+  return client.call('/api/v2/shop_flash_sale/get_time_slot_id', { ...context, method: 'GET', params: request });
+}
+
+/** v2.shop_flash_sale.update_shop_flash_sale - Chỉnh sửa trạng thái chương trình Flash Sale của shop (bật/tắt). */
+export function shopFlashSaleUpdateShopFlashSale(
+  client: ShopeeEndpointCaller,
+  request: ShopFlashSaleUpdateShopFlashSaleRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/shop_flash_sale/update_shop_flash_sale']['result']> {
+  return client.call('/api/v2/shop_flash_sale/update_shop_flash_sale', { ...context, method: 'POST', body: request });
+}
+
+/** v2.shop_flash_sale.update_shop_flash_sale_items - Chỉnh sửa sản phẩm trong Flash Sale. Chỉ có thể chỉnh sửa các model đang ở trạng thái disabled hoặc enabled. */
+export function shopFlashSaleUpdateShopFlashSaleItems(
+  client: ShopeeEndpointCaller,
+  request: ShopFlashSaleUpdateShopFlashSaleItemsRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/shop_flash_sale/update_shop_flash_sale_items']['result']> {
+  return client.call('/api/v2/shop_flash_sale/update_shop_flash_sale_items', { ...context, method: 'POST', body: request });
+}
+
+/** v2.voucher.add_voucher - Thêm một voucher mới. */
+export function voucherAddVoucher(
+  client: ShopeeEndpointCaller,
+  request: VoucherAddVoucherRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/voucher/add_voucher']['result']> {
+  return client.call('/api/v2/voucher/add_voucher', { ...context, method: 'POST', body: request });
+}
+
+/** v2.voucher.delete_voucher - Xoá vourcher. */
+export function voucherDeleteVoucher(
+  client: ShopeeEndpointCaller,
+  request: VoucherDeleteVoucherRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/voucher/delete_voucher']['result']> {
+  return client.call('/api/v2/voucher/delete_voucher', { ...context, method: 'POST', body: request });
+}
+
+/** v2.voucher.end_voucher - Kết thúc voucher ngay lập tức. */
+export function voucherEndVoucher(
+  client: ShopeeEndpointCaller,
+  request: VoucherEndVoucherRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/voucher/end_voucher']['result']> {
+  return client.call('/api/v2/voucher/end_voucher', { ...context, method: 'POST', body: request });
+}
+
+/** v2.voucher.get_voucher - Lấy chi tiết voucher. */
+export function voucherGetVoucher(
+  client: ShopeeEndpointCaller,
+  request: VoucherGetVoucherRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/voucher/get_voucher']['result']> {
+  return client.call('/api/v2/voucher/get_voucher', { ...context, method: 'GET', params: request });
+}
+
+/** v2.voucher.get_voucher_list - Dùng để lấy danh sách voucher theo điều kiện phân trang và trạng thái. */
+export function voucherGetVoucherList(
+  client: ShopeeEndpointCaller,
+  request: VoucherGetVoucherListRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/voucher/get_voucher_list']['result']> {
+  return client.call('/api/v2/voucher/get_voucher_list', { ...context, method: 'GET', params: request });
+}
+
+/** v2.voucher.update_voucher - Cập nhật thông tin voucher. */
+export function voucherUpdateVoucher(
+  client: ShopeeEndpointCaller,
+  request: VoucherUpdateVoucherRequest,
+  context: ShopeeRequestContext = {}
+): Promise<ShopeeEndpoints['/api/v2/voucher/update_voucher']['result']> {
+  return client.call('/api/v2/voucher/update_voucher', { ...context, method: 'POST', body: request });
+}
@@ -0,0 +1,188 @@
+/**
+ * Shopee Push - Shared utility for push receivers
+ * Xác thực chữ ký Authorization của Shopee push callbacks
+ *
+ * Shopee ký mỗi push bằng partner key của app:
+ *   Authorization = HMAC-SHA256(partner_key, callback_url + '|' + raw_body) (hex)
+ *
+ * Chống replay: timestamp nằm trong replay window + dedupe key (apishopee_webhook_dedupe, migration 079)
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getSecretKeyring, openSecretFields } from './secrets.ts';
+
+export interface PushPartnerApp {
+  id: string;
+  partner_id: number;
+  partner_key: string;
+  partner_name: string;
+  app_category: string;
+}
+
+// Shopee retry push sau 300s, 1800s, 10800s với timestamp gốc, nên window phải dài hơn
+// lần retry cuối. Trùng lặp trong window do dedupe xử lý.
+export const DEFAULT_PUSH_REPLAY_WINDOW_SECONDS = 4 * 60 * 60;
+export const MAX_PUSH_CLOCK_SKEW_SECONDS = 5 * 60;
+
+export type PushTimestampRejectReason = 'stale_timestamp' | 'future_timestamp';
+
+/** Unique theo (shop_id, push_code, item_id, shopee_timestamp) */
+export interface PushDedupeKey {
+  shop_id: number;
+  push_code: number;
+  item_id: number;
+  shopee_timestamp: number;
+  webhook_type: string;
+}
+
+/**
+ * HMAC-SHA256 using Web Crypto API
+ */
+async function hmacSha256(key: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  const signature = await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * So sánh 2 chuỗi với thời gian không đổi (tránh timing attack)
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Tính chữ ký push theo công thức của Shopee
+ */
+export async function computePushSignature(
+  partnerKey: string,
+  callbackUrl: string,
+  rawBody: string
+): Promise<string> {
+  return await hmacSha256(partnerKey, `${callbackUrl}|${rawBody}`);
+}
+
+/**
+ * Xác thực chữ ký push với partner key trong apishopee_partner_apps.
+ * Nếu payload có partner_id thì chỉ thử app đó, ngược lại thử tất cả app đang active
+ * (push cấp shop như code 28 không kèm partner_id).
+ *
+ * @returns Partner app khớp chữ ký, hoặc null nếu không khớp
+ */
+export async function verifyPushSignature(
+  supabase: SupabaseClient,
+  params: {
+    callbackUrl: string;
+    rawBody: string;
+    authorization: string | null;
+    partnerId?: number;
+  }
+): Promise<PushPartnerApp | null> {
+  const received = (params.authorization || '').trim().toLowerCase();
+  if (!received) return null;
+
+  let query = supabase
+    .from('apishopee_partner_apps')
+    .select('id, partner_id, partner_key, partner_name, app_category')
+    .eq('is_active', true);
+
+  if (params.partnerId) {
+    query = query.eq('partner_id', params.partnerId);
+  }
+
+  const { data: apps, error } = await query;
+  if (error) {
+    console.error('[PUSH-SIGNATURE] Partner app lookup error:', error.message);
+    return null;
+  }
+
+  const keyring = await getSecretKeyring();
+  for (const row of (apps || []) as PushPartnerApp[]) {
+    if (!row.partner_key) continue;
+    const app = await openSecretFields(row, ['partner_key'], keyring);
+    const expected = await computePushSignature(app.partner_key, params.callbackUrl, params.rawBody);
+    if (timingSafeEqual(expected, received)) {
+      return app;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Kiểm tra request nội bộ từ edge function khác (gọi bằng service role key).
+ * supabase.functions.invoke() với service client gửi `Authorization: Bearer <service_role_key>`.
+ */
+export function isServiceRoleRequest(req: Request, serviceRoleKey: string): boolean {
+  if (!serviceRoleKey) return false;
+  const authorization = req.headers.get('Authorization') || '';
+  return timingSafeEqual(authorization, `Bearer ${serviceRoleKey}`);
+}
+
+/**
+ * Kiểm tra timestamp (giây) của push nằm trong replay window
+ * @returns Lý do từ chối, hoặc null nếu hợp lệ
+ */
+export function checkPushTimestamp(
+  timestamp: number,
+  windowSeconds: number = DEFAULT_PUSH_REPLAY_WINDOW_SECONDS,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): PushTimestampRejectReason | null {
+  if (timestamp > nowSeconds + MAX_PUSH_CLOCK_SKEW_SECONDS) return 'future_timestamp';
+  if (!Number.isFinite(timestamp) || timestamp < nowSeconds - windowSeconds) return 'stale_timestamp';
+  return null;
+}
+
+/**
+ * Giữ chỗ dedupe key (unique constraint đảm bảo atomic giữa các request đồng thời)
+ * @returns false nếu push đã được xử lý trước đó
+ */
+export async function claimDedupeKey(
+  supabase: SupabaseClient,
+  key: PushDedupeKey
+): Promise<boolean> {
+  const { error } = await supabase.from('apishopee_webhook_dedupe').insert(key);
+
+  if (error) {
+    // 23505 = unique_violation
+    if (error.code === '23505') return false;
+    throw new Error(`Dedupe insert failed: ${error.message}`);
+  }
+
+  return true;
+}
+
+/**
+ * Nhả dedupe key khi xử lý thất bại để lần retry của Shopee vẫn được xử lý (không throw)
+ */
+export async function releaseDedupeKey(
+  supabase: SupabaseClient,
+  key: PushDedupeKey
+): Promise<void> {
+  const { error } = await supabase
+    .from('apishopee_webhook_dedupe')
+    .delete()
+    .eq('shop_id', key.shop_id)
+    .eq('push_code', key.push_code)
+    .eq('item_id', key.item_id)
+    .eq('shopee_timestamp', key.shopee_timestamp);
+
+  if (error) {
+    console.error('[PUSH-DEDUPE] Failed to release dedupe key:', error.message);
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * User Invitations - logic dùng chung cho admin-invite-user (gửi / gửi lại / chấp nhận lời mời)
+ * và FE (danh sách lời mời, import CSV).
+ *
+ * Link mời chứa token ngẫu nhiên; DB chỉ lưu SHA-256 của token (migration 097).
+ */
+
+// ==================== TYPES ====================
+
+export type InvitationStatus = 'pending' | 'accepted' | 'expired' | 'revoked';
+
+export type InvitationSystemRole = 'admin' | 'user';
+
+/** Thông tin của 1 lời mời do admin nhập (form hoặc 1 dòng CSV) */
+export interface InvitationInput {
+  email: string;
+  full_name?: string | null;
+  phone?: string | null;
+  system_role: InvitationSystemRole;
+  custom_role_id?: string | null;
+  /** apishopee_shops.id */
+  shop_ids: string[];
+  manager_id?: string | null;
+}
+
+export interface UserInvitation {
+  id: string;
+  email: string;
+  full_name: string | null;
+  phone: string | null;
+  system_role: InvitationSystemRole;
+  custom_role_id: string | null;
+  shop_ids: string[];
+  department_id: string | null;
+  manager_id: string | null;
+  status: InvitationStatus;
+  expires_at: string;
+  invited_by: string | null;
+  auth_user_id: string | null;
+  accepted_at: string | null;
+  revoked_by: string | null;
+  revoked_at: string | null;
+  last_sent_at: string;
+  send_count: number;
+  created_at: string;
+}
+
+// ==================== CONSTANTS ====================
+
+/** Thời hạn của lời mời, tính từ lần gửi gần nhất */
+export const INVITATION_TTL_DAYS = 7;
+
+/** Số lời mời tối đa trong 1 lần gửi (import CSV) */
+export const MAX_INVITATIONS_PER_REQUEST = 100;
+
+export const INVITATION_STATUS_LABELS: Record<InvitationStatus, string> = {
+  pending: 'Đang chờ',
+  accepted: 'Đã chấp nhận',
+  expired: 'Hết hạn',
+  revoked: 'Đã thu hồi',
+};
+
+// ==================== HELPERS ====================
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(normalizeEmail(email));
+}
+
+export function invitationExpiresAt(from: Date = new Date()): string {
+  return new Date(from.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/** Trạng thái hiển thị: lời mời pending đã quá hạn là 'expired' trước khi cron kịp cập nhật */
+export function effectiveInvitationStatus(
+  invitation: Pick<UserInvitation, 'status' | 'expires_at'>,
+  now: Date = new Date()
+): InvitationStatus {
+  if (invitation.status === 'pending' && new Date(invitation.expires_at).getTime() < now.getTime()) {
+    return 'expired';
+  }
+  return invitation.status;
+}
+
+/** Gửi lại được khi lời mời chưa được chấp nhận / thu hồi */
+export function canResendInvitation(invitation: Pick<UserInvitation, 'status' | 'expires_at'>): boolean {
+  const status = effectiveInvitationStatus(invitation);
+  return status === 'pending' || status === 'expired';
+}
+
+/** Token 32 byte, dạng hex (đặt trong link mời) */
+export function generateInvitationToken(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function hashInvitationToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,105 @@
+/**
+ * Violation Cases - logic dùng chung cho hồ sơ vi phạm sản phẩm (violation_item_push):
+ * apishopee-product-webhook (mở / mở lại case), apishopee-product (verify-violation)
+ * và FE (ViolationCasesPanel, ShopPerformancePanel).
+ *
+ * Trạng thái: open → in_progress → fixed → verified. verified chỉ đạt được qua kiểm tra
+ * lại item_status bằng get_item_base_info (apishopee_violation_cases, migration 090).
+ */
+
+// ==================== TYPES ====================
+
+export type ViolationStatus = 'open' | 'in_progress' | 'fixed' | 'verified';
+
+/** Kết quả kiểm tra lại: verified = đã hết vi phạm, pending = Shopee đang duyệt, failed = còn vi phạm */
+export type VerificationOutcome = 'verified' | 'pending' | 'failed';
+
+export interface ViolationCaseSummaryRow {
+  status: ViolationStatus;
+  due_at: string | null;
+}
+
+export interface ViolationSummary {
+  open: number;
+  in_progress: number;
+  fixed: number;
+  overdue: number;
+  /** open + in_progress + fixed */
+  unresolved: number;
+}
+
+// ==================== CONSTANTS ====================
+
+export const VIOLATION_STATUSES: ViolationStatus[] = ['open', 'in_progress', 'fixed', 'verified'];
+
+export const VIOLATION_STATUS_LABELS: Record<ViolationStatus, string> = {
+  open: 'Mới',
+  in_progress: 'Đang xử lý',
+  fixed: 'Đã sửa',
+  verified: 'Đã xác nhận',
+};
+
+/** Hạn xử lý mặc định kể từ lúc nhận vi phạm */
+export const DEFAULT_VIOLATION_DUE_DAYS = 3;
+
+/** Các metric account_health bị ảnh hưởng bởi vi phạm đăng bán */
+export const LISTING_VIOLATION_METRIC_IDS = [52, 53, 54];
+
+/** Chuyển trạng thái thủ công; fixed → verified chỉ qua kiểm tra lại */
+const MANUAL_TRANSITIONS: Record<ViolationStatus, ViolationStatus[]> = {
+  open: ['in_progress', 'fixed'],
+  in_progress: ['open', 'fixed'],
+  fixed: ['in_progress'],
+  verified: [],
+};
+
+const VERIFIED_ITEM_STATUSES = ['NORMAL', 'UNLIST', 'SELLER_DELETE'];
+const PENDING_ITEM_STATUSES = ['REVIEWING'];
+
+// ==================== HELPERS ====================
+
+export function canTransition(from: ViolationStatus, to: ViolationStatus): boolean {
+  return MANUAL_TRANSITIONS[from].includes(to);
+}
+
+export function nextManualStatuses(status: ViolationStatus): ViolationStatus[] {
+  return MANUAL_TRANSITIONS[status];
+}
+
+export function defaultDueAt(reportedAt: Date, days = DEFAULT_VIOLATION_DUE_DAYS): string {
+  return new Date(reportedAt.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export function isOverdue(row: ViolationCaseSummaryRow, now: Date): boolean {
+  return row.status !== 'verified' && !!row.due_at && new Date(row.due_at).getTime() < now.getTime();
+}
+
+/**
+ * Đánh giá item_status sau khi sửa: NORMAL / UNLIST / SELLER_DELETE là hết vi phạm,
+ * REVIEWING là chờ Shopee duyệt, còn lại (BANNED, SHOPEE_DELETE...) là chưa xử lý được
+ */
+export function verificationOutcome(itemStatus: string | null | undefined): VerificationOutcome {
+  if (!itemStatus) return 'pending';
+  if (VERIFIED_ITEM_STATUSES.includes(itemStatus)) return 'verified';
+  if (PENDING_ITEM_STATUSES.includes(itemStatus)) return 'pending';
+  return 'failed';
+}
+
+/**
+ * Trạng thái khi nhận thêm 1 violation_item_push cho case đang mở:
+ * case đã sửa mà Shopee báo lại thì mở lại, còn lại giữ nguyên
+ */
+export function statusOnRepeatReport(status: ViolationStatus): ViolationStatus {
+  return status === 'fixed' ? 'open' : status;
+}
+
+export function summarizeViolationCases(rows: ViolationCaseSummaryRow[], now: Date): ViolationSummary {
+  const summary: ViolationSummary = { open: 0, in_progress: 0, fixed: 0, overdue: 0, unresolved: 0 };
+  for (const row of rows) {
+    if (row.status === 'verified') continue;
+    summary[row.status]++;
+    summary.unresolved++;
+    if (isOverdue(row, now)) summary.overdue++;
+  }
+  return summary;
+}
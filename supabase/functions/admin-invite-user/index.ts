@@ -0,0 +1,331 @@
+/**
+ * Edge Function: admin-invite-user
+ * Mời người dùng qua email thay cho tạo tài khoản bằng mật khẩu (migration 097)
+ *
+ * Actions:
+ * - invite (admin): tạo lời mời (1 hoặc nhiều dòng từ CSV) và gửi email mời của Supabase Auth
+ * - resend (admin): token mới + gia hạn, gửi lại email
+ * - accept (người được mời, đã đăng nhập qua link): áp dụng vai trò / shop / leader của lời mời
+ *
+ * Security: caller xác thực bằng auth.getUser(JWT); quyền admin kiểm tra bằng is_shopee_admin.
+ * Link chứa token ngẫu nhiên, DB chỉ lưu SHA-256 của token.
+ */
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, type SupabaseClient, type User } from "jsr:@supabase/supabase-js@2";
+import { logActivity } from "../_shared/activity-logger.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  generateInvitationToken,
+  hashInvitationToken,
+  invitationExpiresAt,
+  isValidEmail,
+  MAX_INVITATIONS_PER_REQUEST,
+  normalizeEmail,
+  type InvitationInput,
+} from "../_shared/user-invitations.ts";
+
+type InviteOutcome = "sent" | "skipped" | "failed";
+
+interface InviteResult {
+  email: string;
+  status: InviteOutcome;
+  invitation_id?: string;
+  message?: string;
+}
+
+const ACCEPT_ERRORS: Record<string, string> = {
+  expired: "Lời mời đã hết hạn, vui lòng liên hệ quản trị viên để được gửi lại",
+  revoked: "Lời mời đã bị thu hồi",
+  already_accepted: "Lời mời đã được sử dụng",
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function inviteLink(redirectUrl: string, token: string): string {
+  const url = new URL(redirectUrl);
+  url.searchParams.set("token", token);
+  return url.toString();
+}
+
+function isAlreadyRegistered(message: string): boolean {
+  return /already (been )?registered|email_exists/i.test(message);
+}
+
+/**
+ * Gửi email mời; email đã có tài khoản Auth nhưng chưa nhận lời mời (đã bấm link, chưa đặt mật khẩu)
+ * nhận magic link thay vì email mời.
+ */
+async function sendInviteEmail(
+  supabase: SupabaseClient,
+  email: string,
+  fullName: string | null,
+  redirectTo: string,
+  allowMagicLink: boolean
+): Promise<{ userId: string | null; error: string | null }> {
+  const { data, error } = await supabase.auth.admin.inviteUserByEmail(email, {
+    redirectTo,
+    data: { full_name: fullName || "" },
+  });
+  if (!error) return { userId: data.user?.id ?? null, error: null };
+
+  if (allowMagicLink && isAlreadyRegistered(error.message)) {
+    const { error: otpError } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: redirectTo, shouldCreateUser: false },
+    });
+    return { userId: null, error: otpError?.message ?? null };
+  }
+  return { userId: null, error: error.message };
+}
+
+// ==================== INVITE ====================
+
+async function inviteOne(
+  supabase: SupabaseClient,
+  caller: User,
+  input: InvitationInput,
+  departmentId: string | null,
+  redirectUrl: string
+): Promise<InviteResult> {
+  const email = normalizeEmail(input.email || "");
+  if (!isValidEmail(email)) {
+    return { email, status: "failed", message: "Email không hợp lệ" };
+  }
+
+  // Tài khoản đã vô hiệu hóa không được mời lại (accept_user_invitation từ chối, migration 107)
+  const { data: existing } = await supabase
+    .from("sys_profiles")
+    .select("id, deactivated_at")
+    .eq("email", email)
+    .limit(1);
+  if (existing && existing.length > 0) {
+    const message = existing[0].deactivated_at ? "Email thuộc tài khoản đã bị vô hiệu hóa" : "Email đã có tài khoản";
+    return { email, status: "skipped", message };
+  }
+
+  const token = generateInvitationToken();
+  const { data: invitation, error: insertError } = await supabase
+    .from("apishopee_user_invitations")
+    .insert({
+      email,
+      full_name: input.full_name?.trim() || null,
+      phone: input.phone?.trim() || null,
+      system_role: input.system_role === "admin" ? "admin" : "user",
+      custom_role_id: input.system_role === "admin" ? null : input.custom_role_id || null,
+      shop_ids: input.shop_ids || [],
+      department_id: departmentId,
+      manager_id: input.manager_id || null,
+      token_hash: await hashInvitationToken(token),
+      expires_at: invitationExpiresAt(),
+      invited_by: caller.id,
+    })
+    .select("id")
+    .single();
+
+  if (insertError) {
+    if (insertError.code === "23505") {
+      return { email, status: "skipped", message: "Đã có lời mời đang chờ" };
+    }
+    console.error("[admin-invite-user] Insert invitation error:", insertError.message);
+    return { email, status: "failed", message: "Không thể tạo lời mời" };
+  }
+
+  const sent = await sendInviteEmail(supabase, email, input.full_name || null, inviteLink(redirectUrl, token), false);
+  if (sent.error) {
+    await supabase.from("apishopee_user_invitations").delete().eq("id", invitation.id);
+    if (isAlreadyRegistered(sent.error)) {
+      return { email, status: "skipped", message: "Email đã có tài khoản" };
+    }
+    console.error("[admin-invite-user] Send invite error:", sent.error);
+    return { email, status: "failed", message: "Không thể gửi email mời" };
+  }
+
+  if (sent.userId) {
+    await supabase.from("apishopee_user_invitations").update({ auth_user_id: sent.userId }).eq("id", invitation.id);
+  }
+  return { email, status: "sent", invitation_id: invitation.id };
+}
+
+// ==================== RESEND ====================
+
+async function resendInvitation(
+  supabase: SupabaseClient,
+  invitationId: string,
+  redirectUrl: string
+): Promise<InviteResult> {
+  const { data: invitation, error } = await supabase
+    .from("apishopee_user_invitations")
+    .select("id, email, full_name, status, auth_user_id, send_count")
+    .eq("id", invitationId)
+    .single();
+
+  if (error || !invitation) {
+    throw new Error("Không tìm thấy lời mời");
+  }
+  if (!["pending", "expired"].includes(invitation.status)) {
+    return { email: invitation.email, status: "skipped", message: "Lời mời đã được chấp nhận hoặc thu hồi" };
+  }
+
+  const token = generateInvitationToken();
+  const { error: updateError } = await supabase
+    .from("apishopee_user_invitations")
+    .update({
+      token_hash: await hashInvitationToken(token),
+      status: "pending",
+      expires_at: invitationExpiresAt(),
+      last_sent_at: new Date().toISOString(),
+      send_count: invitation.send_count + 1,
+    })
+    .eq("id", invitation.id);
+
+  if (updateError) {
+    if (updateError.code === "23505") {
+      return { email: invitation.email, status: "skipped", message: "Email này đã có lời mời khác đang chờ" };
+    }
+    throw new Error(`Update invitation failed: ${updateError.message}`);
+  }
+
+  const sent = await sendInviteEmail(
+    supabase,
+    invitation.email,
+    invitation.full_name,
+    inviteLink(redirectUrl, token),
+    !!invitation.auth_user_id
+  );
+  if (sent.error) {
+    console.error("[admin-invite-user] Resend error:", sent.error);
+    return { email: invitation.email, status: "failed", invitation_id: invitation.id, message: "Không thể gửi email mời" };
+  }
+
+  if (sent.userId && sent.userId !== invitation.auth_user_id) {
+    await supabase.from("apishopee_user_invitations").update({ auth_user_id: sent.userId }).eq("id", invitation.id);
+  }
+  return { email: invitation.email, status: "sent", invitation_id: invitation.id };
+}
+
+// ==================== MAIN HANDLER ====================
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+
+    // === SECURITY: Verify caller identity from JWT, NOT from request body ===
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Authorization header is required" }, 401);
+    }
+
+    const { data: { user: caller }, error: authError } = await supabaseAdmin.auth.getUser(
+      authHeader.replace("Bearer ", "")
+    );
+    if (authError || !caller) {
+      return jsonResponse({ error: "Token không hợp lệ hoặc đã hết hạn" }, 401);
+    }
+
+    const body = await req.json();
+    const { action } = body;
+
+    // Người được mời chấp nhận lời mời: không cần quyền admin
+    if (action === "accept") {
+      if (!body.token || !caller.email) {
+        return jsonResponse({ error: "token is required" }, 400);
+      }
+
+      const { data: status, error } = await supabaseAdmin.rpc("accept_user_invitation", {
+        p_token_hash: await hashInvitationToken(String(body.token)),
+        p_user_id: caller.id,
+        p_email: caller.email,
+      });
+      // Lỗi nghiệp vụ trả 200 + error để trang chấp nhận lời mời hiện đúng thông báo
+      if (error) {
+        return jsonResponse({ success: false, error: error.message });
+      }
+      if (status !== "accepted") {
+        return jsonResponse({ success: false, error: ACCEPT_ERRORS[status] || "Không thể chấp nhận lời mời", status });
+      }
+
+      await logActivity(supabaseAdmin, {
+        userId: caller.id,
+        userEmail: caller.email,
+        actionType: "user_invite_accept",
+        actionCategory: "auth",
+        actionDescription: `Chấp nhận lời mời: ${caller.email}`,
+        targetType: "user",
+        targetId: caller.id,
+        targetName: caller.email,
+        status: "success",
+        source: "manual",
+      });
+
+      return jsonResponse({ success: true });
+    }
+
+    const { data: isAdmin, error: adminError } = await supabaseAdmin.rpc("is_shopee_admin", { p_user_id: caller.id });
+    if (adminError || !isAdmin) {
+      return jsonResponse({ error: "Bạn không có quyền thực hiện thao tác này" }, 403);
+    }
+
+    if (!body.redirect_url || !URL.canParse(body.redirect_url)) {
+      return jsonResponse({ error: "redirect_url is required" }, 400);
+    }
+
+    switch (action) {
+      case "invite": {
+        const invitations: InvitationInput[] = Array.isArray(body.invitations) ? body.invitations : [];
+        if (invitations.length === 0 || invitations.length > MAX_INVITATIONS_PER_REQUEST) {
+          return jsonResponse({ error: `invitations must have 1-${MAX_INVITATIONS_PER_REQUEST} rows` }, 400);
+        }
+
+        // Tuần tự: giới hạn gửi email của Supabase Auth
+        const results: InviteResult[] = [];
+        for (const input of invitations) {
+          results.push(await inviteOne(supabaseAdmin, caller, input, body.department_id || null, body.redirect_url));
+        }
+
+        const sent = results.filter(r => r.status === "sent").length;
+        await logActivity(supabaseAdmin, {
+          userId: caller.id,
+          userEmail: caller.email,
+          actionType: "user_invite",
+          actionCategory: "system",
+          actionDescription: `Gửi ${sent}/${results.length} lời mời`,
+          targetType: "user",
+          targetName: results.map(r => r.email).join(", ").slice(0, 500),
+          responseData: { results },
+          status: sent > 0 ? "success" : "failed",
+          source: "manual",
+        });
+
+        return jsonResponse({ success: true, results });
+      }
+
+      case "resend": {
+        if (!body.invitation_id) {
+          return jsonResponse({ error: "invitation_id is required" }, 400);
+        }
+        const result = await resendInvitation(supabaseAdmin, body.invitation_id, body.redirect_url);
+        return jsonResponse({ success: result.status === "sent", result });
+      }
+
+      default:
+        return jsonResponse({ error: "Invalid action" }, 400);
+    }
+  } catch (error) {
+    console.error("[admin-invite-user] Unexpected error:", error instanceof Error ? error.message : error);
+    return jsonResponse({ error: "Đã xảy ra lỗi không mong muốn" }, 500);
+  }
+});
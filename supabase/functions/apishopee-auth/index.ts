@@ -7,14 +7,22 @@
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { createHmac } from 'https://deno.land/std@0.168.0/node/crypto.ts';
 import { logApiCall, getApiCallStatus, createResponseSummary, extractUserFromJwt } from '../_shared/api-logger.ts';
 import { corsHeaders } from '../_shared/cors.ts';
+import { getSecretKeyring, openSecret, sealSecretFields } from '../_shared/secrets.ts';
+import { checkActionPermission } from '../_shared/action-guard.ts';
+import {
+  createShopeeClient,
+  createSignature,
+  createTransport,
+  SHOPEE_DEFAULT_BASE_URL,
+  type ShopeeClient,
+} from '../_shared/shopee-client.ts';
 
 // Shopee API config (fallback nếu không có partner_info)
 const DEFAULT_PARTNER_ID = Number(Deno.env.get('SHOPEE_PARTNER_ID'));
 const DEFAULT_PARTNER_KEY = Deno.env.get('SHOPEE_PARTNER_KEY') || '';
-const SHOPEE_BASE_URL = Deno.env.get('SHOPEE_BASE_URL') || 'https://partner.shopeemobile.com';
+const SHOPEE_BASE_URL = Deno.env.get('SHOPEE_BASE_URL') || SHOPEE_DEFAULT_BASE_URL;
 const PROXY_URL = Deno.env.get('SHOPEE_PROXY_URL') || ''; // VPS Proxy URL
 
 // Supabase config
@@ -71,7 +79,7 @@ async function getPartnerCredentials(
       console.log('[PARTNER] Using partner from DB lookup:', app.partner_id);
       return {
         partnerId: app.partner_id,
-        partnerKey: app.partner_key,
+        partnerKey: await openSecret(app.partner_key, await getSecretKeyring()),
         partnerName: app.partner_name,
       };
     }
@@ -89,7 +97,7 @@ async function getPartnerCredentials(
       console.log('[PARTNER] Using partner from shop:', data.partner_id);
       return {
         partnerId: data.partner_id,
-        partnerKey: data.partner_key,
+        partnerKey: await openSecret(data.partner_key, await getSecretKeyring()),
         partnerName: data.partner_name,
       };
     }
@@ -104,52 +112,24 @@ async function getPartnerCredentials(
 }
 
 /**
- * Helper function để gọi API qua proxy hoặc trực tiếp
+ * Client dùng chung cho các API auth (ký public-level, qua proxy nếu có).
+ * Không gắn rate limiter / onApiCall: caller tự ghi api_call_logs kèm user thực hiện.
  */
-async function fetchWithProxy(targetUrl: string, options: RequestInit): Promise<Response> {
-  if (PROXY_URL) {
-    console.log('[PROXY] Calling via proxy:', PROXY_URL);
-    const proxyOptions = {
-      ...options,
-      headers: { ...(options.headers || {}), 'x-target-url': targetUrl },
-    };
-    return await fetch(PROXY_URL, proxyOptions);
-  }
-  return await fetch(targetUrl, options);
-}
-
-/**
- * Tạo signature cho Shopee API
- */
-function createSignature(
-  partnerId: number,
-  partnerKey: string,
-  path: string,
-  timestamp: number,
-  accessToken = '',
-  shopId = 0
-): string {
-  let baseString = `${partnerId}${path}${timestamp}`;
-
-  if (accessToken) {
-    baseString += accessToken;
-  }
-  if (shopId) {
-    baseString += shopId;
-  }
-
-  const hmac = createHmac('sha256', partnerKey);
-  hmac.update(baseString);
-  return hmac.digest('hex');
+function createAuthClient(credentials: PartnerCredentials): ShopeeClient {
+  return createShopeeClient({
+    credentials,
+    baseUrl: SHOPEE_BASE_URL,
+    transport: createTransport(PROXY_URL),
+  });
 }
 
 /**
  * Tạo URL xác thực OAuth
  */
-function getAuthUrl(credentials: PartnerCredentials, redirectUri: string): string {
+async function getAuthUrl(credentials: PartnerCredentials, redirectUri: string): Promise<string> {
   const timestamp = Math.floor(Date.now() / 1000);
   const path = '/api/v2/shop/auth_partner';
-  const sign = createSignature(credentials.partnerId, credentials.partnerKey, path, timestamp);
+  const sign = await createSignature(credentials.partnerKey, 'public', credentials.partnerId, path, timestamp);
 
   const params = new URLSearchParams({
     partner_id: credentials.partnerId.toString(),
@@ -164,16 +144,12 @@ function getAuthUrl(credentials: PartnerCredentials, redirectUri: string): strin
 /**
  * Đổi code lấy access token
  */
-async function getAccessToken(
+function getAccessToken(
   credentials: PartnerCredentials,
   code: string,
   shopId?: number,
   mainAccountId?: number
 ) {
-  const timestamp = Math.floor(Date.now() / 1000);
-  const path = '/api/v2/auth/token/get';
-  const sign = createSignature(credentials.partnerId, credentials.partnerKey, path, timestamp);
-
   const body: Record<string, unknown> = {
     code,
     partner_id: credentials.partnerId,
@@ -186,48 +162,28 @@ async function getAccessToken(
     body.main_account_id = mainAccountId;
   }
 
-  const url = `${SHOPEE_BASE_URL}${path}?partner_id=${credentials.partnerId}&timestamp=${timestamp}&sign=${sign}`;
-
-  const response = await fetchWithProxy(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body),
-  });
-
-  return await response.json();
+  return createAuthClient(credentials).call('/api/v2/auth/token/get', { method: 'POST', level: 'public', body });
 }
 
 /**
  * Lấy token bằng resend code (khôi phục khi mất token)
  * Dùng khi refresh_token hết hạn hoặc bị mất
  */
-async function getTokenByResendCode(
+function getTokenByResendCode(
   credentials: PartnerCredentials,
   resendCode: string
 ) {
-  const timestamp = Math.floor(Date.now() / 1000);
-  const path = '/api/v2/public/get_token_by_resend_code';
-  const sign = createSignature(credentials.partnerId, credentials.partnerKey, path, timestamp);
-
-  const body = {
-    resend_code: resendCode,
-  };
-
-  const url = `${SHOPEE_BASE_URL}${path}?partner_id=${credentials.partnerId}&timestamp=${timestamp}&sign=${sign}`;
-
-  const response = await fetchWithProxy(url, {
+  return createAuthClient(credentials).call('/api/v2/public/get_token_by_resend_code', {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body),
+    level: 'public',
+    body: { resend_code: resendCode },
   });
-
-  return await response.json();
 }
 
 /**
  * Refresh access token
  */
-async function refreshAccessToken(
+function refreshAccessToken(
   credentials: PartnerCredentials,
   refreshToken: string,
   shopId?: number,
@@ -235,10 +191,6 @@ async function refreshAccessToken(
   supplierId?: number,
   userId?: number
 ) {
-  const timestamp = Math.floor(Date.now() / 1000);
-  const path = '/api/v2/auth/access_token/get';
-  const sign = createSignature(credentials.partnerId, credentials.partnerKey, path, timestamp);
-
   const body: Record<string, unknown> = {
     refresh_token: refreshToken,
     partner_id: credentials.partnerId,
@@ -258,15 +210,7 @@ async function refreshAccessToken(
     body.user_id = userId;
   }
 
-  const url = `${SHOPEE_BASE_URL}${path}?partner_id=${credentials.partnerId}&timestamp=${timestamp}&sign=${sign}`;
-
-  const response = await fetchWithProxy(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body),
-  });
-
-  return await response.json();
+  return createAuthClient(credentials).call('/api/v2/auth/access_token/get', { method: 'POST', level: 'public', body });
 }
 
 /**
@@ -314,7 +258,8 @@ async function saveToken(
     }
   }
 
-  const { error } = await supabase.from('apishopee_shops').upsert(shopData, {
+  const sealed = await sealSecretFields(shopData, ['access_token', 'refresh_token', 'partner_key'], await getSecretKeyring());
+  const { error } = await supabase.from('apishopee_shops').upsert(sealed, {
     onConflict: 'shop_id',
   });
 
@@ -367,9 +312,11 @@ async function saveTokenForMerchant(
     if (partnerInfo.partnerCreatedBy) baseData.partner_created_by = partnerInfo.partnerCreatedBy;
   }
 
+  const sealedBase = await sealSecretFields(baseData, ['access_token', 'refresh_token', 'partner_key'], await getSecretKeyring());
+
   // Upsert từng shop_id
   for (const shopId of shopIdList) {
-    const shopData = { ...baseData, shop_id: shopId };
+    const shopData = { ...sealedBase, shop_id: shopId };
     const { error } = await supabase.from('apishopee_shops').upsert(shopData, {
       onConflict: 'shop_id',
     });
@@ -383,6 +330,30 @@ async function saveTokenForMerchant(
   return { shop_id_list: shopIdList, merchant_id: merchantId };
 }
 
+/**
+ * User ủy quyền shop thành admin member của shop (RPC connect_shop_member ghi audit log)
+ */
+async function connectShopMembers(
+  supabase: ReturnType<typeof createClient>,
+  shopIds: number[],
+  userId: string
+) {
+  for (const shopId of shopIds) {
+    const { error } = await supabase.rpc('connect_shop_member', { p_shop_id: shopId, p_profile_id: userId });
+    if (error) {
+      console.error(`[AUTH] Failed to add member for shop ${shopId}:`, error.message);
+    }
+  }
+}
+
+/**
+ * Token trả về frontend: access_token / refresh_token đã mã hóa như trong DB,
+ * frontend chỉ giữ và gửi lại refresh_token cho action refresh-token
+ */
+async function sealTokenForClient(token: Record<string, unknown>): Promise<Record<string, unknown>> {
+  return sealSecretFields(token, ['access_token', 'refresh_token'], await getSecretKeyring());
+}
+
 /**
  * Lấy token từ Supabase (bảng shops) - chỉ select các fields an toàn cho frontend
  */
@@ -423,7 +394,7 @@ async function getPartnerAppCredentials(
   return {
     credentials: {
       partnerId: app.partner_id,
-      partnerKey: app.partner_key,
+      partnerKey: await openSecret(app.partner_key, await getSecretKeyring()),
       partnerName: app.partner_name,
     },
     appCategory: app.app_category,
@@ -466,9 +437,10 @@ async function saveAppToken(
     if (token.expire_time) tokenData.expire_time = token.expire_time;
     if (token.merchant_id) tokenData.merchant_id = token.merchant_id;
 
+    const sealed = await sealSecretFields(tokenData, ['access_token', 'refresh_token'], await getSecretKeyring());
     const { error } = await supabase
       .from('apishopee_shop_app_tokens')
-      .upsert(tokenData, { onConflict: 'shop_id,partner_app_id' });
+      .upsert(sealed, { onConflict: 'shop_id,partner_app_id' });
 
     if (error) {
       console.error(`[APP-AUTH] Failed to save app token for shop ${shopId}:`, error);
@@ -497,7 +469,7 @@ serve(async (req) => {
     // Get user from auth header (optional)
     const authHeader = req.headers.get('Authorization');
     let userId: string | undefined;
-    const { userId: jwtUserId, userEmail: jwtUserEmail } = extractUserFromJwt(authHeader);
+    const { userId: jwtUserId, userEmail: jwtUserEmail, role: jwtRole } = extractUserFromJwt(authHeader);
 
     if (authHeader) {
       const {
@@ -513,6 +485,14 @@ serve(async (req) => {
       }
     }
 
+    const guard = await checkActionPermission(supabase, 'apishopee-auth', action, { userId, role: jwtRole });
+    if (!guard.allowed) {
+      return new Response(JSON.stringify({ error: guard.error, success: false }), {
+        status: guard.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     switch (action) {
       case 'get-auth-url': {
         const redirectUri = body.redirect_uri || '';
@@ -520,7 +500,7 @@ serve(async (req) => {
 
         // Lấy partner credentials (OK to use request credentials for URL generation only)
         const credentials = await getPartnerCredentials(supabase, partnerInfo, undefined, true);
-        const authUrl = getAuthUrl(credentials, redirectUri);
+        const authUrl = await getAuthUrl(credentials, redirectUri);
 
         return new Response(JSON.stringify({
           auth_url: authUrl,
@@ -555,7 +535,7 @@ serve(async (req) => {
         // Log API call
         const tokenStatus = getApiCallStatus(token);
         logApiCall(supabase, {
-          shopId: shopId || token.shop_id,
+          shopId: shopId || (token.shop_id as number | undefined),
           edgeFunction: 'apishopee-auth',
           apiEndpoint: '/api/v2/auth/token/get',
           httpMethod: 'POST',
@@ -594,10 +574,11 @@ serve(async (req) => {
         // Main account auth: response có shop_id_list
         if (token.shop_id_list && token.shop_id_list.length > 0) {
           const result = await saveTokenForMerchant(supabase, token, userId, credentials);
+          await connectShopMembers(supabase, result.shop_id_list, userId);
           console.log('[AUTH] Main account tokens saved for shops:', result.shop_id_list);
 
           return new Response(JSON.stringify({
-            ...token,
+            ...(await sealTokenForClient(token)),
             merchant_id: result.merchant_id,
             shop_id_list: result.shop_id_list,
           }), {
@@ -612,9 +593,10 @@ serve(async (req) => {
         };
 
         await saveToken(supabase, tokenWithShopId, userId, credentials);
+        await connectShopMembers(supabase, [tokenWithShopId.shop_id as number], userId);
         console.log('[AUTH] Token saved to database for shop:', tokenWithShopId.shop_id);
 
-        return new Response(JSON.stringify(tokenWithShopId), {
+        return new Response(JSON.stringify(await sealTokenForClient(tokenWithShopId)), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
@@ -633,7 +615,8 @@ serve(async (req) => {
         // Lấy partner credentials (không dùng partner_key từ request - phải lấy từ DB/env)
         const credentials = await getPartnerCredentials(supabase, partnerInfo, shop_id, false);
         const refreshStart = Date.now();
-        const token = await refreshAccessToken(credentials, refresh_token, shop_id, merchant_id, supplier_id, user_id);
+        // Frontend gửi lại refresh_token đã mã hóa (xem sealTokenForClient)
+        const token = await refreshAccessToken(credentials, await openSecret(refresh_token, await getSecretKeyring()), shop_id, merchant_id, supplier_id, user_id);
 
         // Log API call
         const refreshStatus = getApiCallStatus(token);
@@ -664,7 +647,7 @@ serve(async (req) => {
         // Save new token to database
         await saveToken(supabase, { ...token, shop_id }, userId, credentials);
 
-        return new Response(JSON.stringify(token), {
+        return new Response(JSON.stringify(await sealTokenForClient(token)), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
@@ -717,7 +700,7 @@ serve(async (req) => {
           });
         }
 
-        const authUrl = getAuthUrl(appResult.credentials, redirectUri);
+        const authUrl = await getAuthUrl(appResult.credentials, redirectUri);
 
         return new Response(JSON.stringify({
           auth_url: authUrl,
@@ -758,7 +741,7 @@ serve(async (req) => {
         // Log API call
         const tokenStatus = getApiCallStatus(token);
         logApiCall(supabase, {
-          shopId: shopId || token.shop_id,
+          shopId: shopId || (token.shop_id as number | undefined),
           edgeFunction: 'apishopee-auth',
           apiEndpoint: '/api/v2/auth/token/get',
           httpMethod: 'POST',
@@ -785,7 +768,7 @@ serve(async (req) => {
         await saveAppToken(supabase, token, partnerAppId);
 
         return new Response(JSON.stringify({
-          ...token,
+          ...(await sealTokenForClient(token)),
           partner_app_id: partnerAppId,
           app_category: appResult.appCategory,
         }), {
@@ -812,7 +795,7 @@ serve(async (req) => {
         }
 
         const refreshStart = Date.now();
-        const token = await refreshAccessToken(appResult.credentials, refresh_token, shop_id, merchant_id);
+        const token = await refreshAccessToken(appResult.credentials, await openSecret(refresh_token, await getSecretKeyring()), shop_id, merchant_id);
 
         // Log API call
         const refreshStatus = getApiCallStatus(token);
@@ -843,7 +826,7 @@ serve(async (req) => {
         // Save to shop_app_tokens
         await saveAppToken(supabase, { ...token, shop_id }, partner_app_id);
 
-        return new Response(JSON.stringify(token), {
+        return new Response(JSON.stringify(await sealTokenForClient(token)), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
@@ -907,7 +890,7 @@ serve(async (req) => {
           console.log('[AUTH] Resend code: tokens saved for shops:', result.shop_id_list);
 
           return new Response(JSON.stringify({
-            ...token,
+            ...(await sealTokenForClient(token)),
             merchant_id: result.merchant_id,
             shop_id_list: result.shop_id_list,
             success: true,
@@ -922,7 +905,7 @@ serve(async (req) => {
           console.log('[AUTH] Resend code: token saved for shop:', token.shop_id);
         }
 
-        return new Response(JSON.stringify({ ...token, success: true }), {
+        return new Response(JSON.stringify({ ...(await sealTokenForClient(token)), success: true }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
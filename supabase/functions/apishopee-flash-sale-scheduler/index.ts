@@ -5,6 +5,8 @@
  * 1. Tìm các jobs có status='scheduled' và scheduled_at <= now
  * 2. Kiểm tra xem timeslot đã có Flash Sale chưa (tạo thủ công trên Shopee)
  * 3. Nếu chưa có -> tạo FS và thêm sản phẩm
+ *    (items_data → template_id của job (migration 082) → item_source top sellers (migration 084)
+ *    → FS gần nhất / history)
  * 4. Nếu đã có -> cập nhật status='error' với message phù hợp
  * 
  * Trigger: Supabase cron job hoặc external scheduler (mỗi 1-2 phút)
@@ -12,22 +14,36 @@
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { createHmac } from 'https://deno.land/std@0.168.0/node/crypto.ts';
-import { logApiCall, getApiCallStatus, createResponseSummary, extractUserFromJwt, determineTriggeredBy } from '../_shared/api-logger.ts';
+import { extractUserFromJwt, determineTriggeredBy, type TriggeredBy } from '../_shared/api-logger.ts';
 import { corsHeaders } from '../_shared/cors.ts';
+import {
+  createEdgeShopeeClient,
+  getPartnerCredentials,
+  getShopToken,
+  type PartnerCredentials,
+  type QueryValue,
+  type ShopeeEndpoints,
+  type ShopeeToken,
+  type ShopFlashSaleGetShopFlashSaleItemsResponseItemInfo as FlashSaleItem,
+  type ShopFlashSaleGetShopFlashSaleItemsResponseModels as FlashSaleModel,
+} from '../_shared/shopee-api.ts';
+import {
+  buildTemplateCatalog,
+  buildTopSellerTemplateItems,
+  resolveFlashSaleTemplate,
+  TEMPLATE_MODEL_COLUMNS,
+  TEMPLATE_PRODUCT_COLUMNS,
+  TOP_SELLER_CANDIDATE_MULTIPLIER,
+  type FlashSaleTemplateItem,
+  type TemplateCatalogItem,
+  type TemplateProductModelRow,
+  type TemplateProductRow,
+  type TopSellerItemSource,
+} from '../_shared/flash-sale-template.ts';
 
-const DEFAULT_PARTNER_ID = Number(Deno.env.get('SHOPEE_PARTNER_ID'));
-const DEFAULT_PARTNER_KEY = Deno.env.get('SHOPEE_PARTNER_KEY') || '';
-const SHOPEE_BASE_URL = Deno.env.get('SHOPEE_BASE_URL') || 'https://partner.shopeemobile.com';
-const PROXY_URL = Deno.env.get('SHOPEE_PROXY_URL') || '';
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
 const SUPABASE_SERVICE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
 
-interface PartnerCredentials {
-  partnerId: number;
-  partnerKey: string;
-}
-
 interface ScheduledJob {
   id: string;
   shop_id: number;
@@ -39,6 +55,9 @@ interface ScheduledJob {
   scheduled_at: string;
   retry_count?: number;
   items_data?: Array<Record<string, unknown>>;
+  template_id?: string | null;
+  template_version?: number | null;
+  item_source?: TopSellerItemSource | null;
 }
 
 // Retry configuration
@@ -101,244 +120,34 @@ async function sendFailureAlert(job: ScheduledJob, errorMsg: string): Promise<vo
   }
 }
 
-interface FlashSaleItem {
-  item_id: number;
-  item_name?: string;
-  status: number;
-  purchase_limit: number;
-  campaign_stock?: number;
-  input_promotion_price?: number;
-  models?: FlashSaleModel[];
-}
-
-interface FlashSaleModel {
-  model_id: number;
-  item_id: number;
-  input_promotion_price: number;
-  campaign_stock: number;
-  status?: number;
-}
+/** Response get_shop_flash_sale_items (types sinh từ api-data.ts) */
+type FlashSaleItemsResult = ShopeeEndpoints['/api/v2/shop_flash_sale/get_shop_flash_sale_items']['result'];
 
 // ==================== HELPER FUNCTIONS ====================
 
-async function getPartnerCredentials(
-  supabase: ReturnType<typeof createClient>,
-  shopId: number
-): Promise<PartnerCredentials> {
-  const { data } = await supabase
-    .from('apishopee_shops')
-    .select('partner_id, partner_key')
-    .eq('shop_id', shopId)
-    .single();
-
-  if (data?.partner_id && data?.partner_key) {
-    return { partnerId: data.partner_id, partnerKey: data.partner_key };
-  }
-  return { partnerId: DEFAULT_PARTNER_ID, partnerKey: DEFAULT_PARTNER_KEY };
-}
-
-async function fetchWithProxy(targetUrl: string, options: RequestInit): Promise<Response> {
-  if (PROXY_URL) {
-    const proxyOptions = {
-      ...options,
-      headers: { ...(options.headers || {}), 'x-target-url': targetUrl },
-    };
-    return await fetch(PROXY_URL, proxyOptions);
-  }
-  return await fetch(targetUrl, options);
-}
-
-function createSignature(
-  partnerKey: string,
-  partnerId: number,
-  path: string,
-  timestamp: number,
-  accessToken = '',
-  shopId = 0
-): string {
-  let baseString = `${partnerId}${path}${timestamp}`;
-  if (accessToken) baseString += accessToken;
-  if (shopId) baseString += shopId;
-  const hmac = createHmac('sha256', partnerKey);
-  hmac.update(baseString);
-  return hmac.digest('hex');
-}
-
-async function refreshAccessToken(
-  credentials: PartnerCredentials,
-  refreshToken: string,
-  shopId: number
-) {
-  const timestamp = Math.floor(Date.now() / 1000);
-  const path = '/api/v2/auth/access_token/get';
-  const sign = createSignature(credentials.partnerKey, credentials.partnerId, path, timestamp);
-  const url = `${SHOPEE_BASE_URL}${path}?partner_id=${credentials.partnerId}&timestamp=${timestamp}&sign=${sign}`;
-
-  const response = await fetchWithProxy(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      refresh_token: refreshToken,
-      partner_id: credentials.partnerId,
-      shop_id: shopId,
-    }),
-  });
-  return await response.json();
-}
-
-async function saveToken(
-  supabase: ReturnType<typeof createClient>,
-  shopId: number,
-  token: Record<string, unknown>
-) {
-  await supabase.from('apishopee_shops').upsert({
-    shop_id: shopId,
-    access_token: token.access_token,
-    refresh_token: token.refresh_token,
-    expire_in: token.expire_in,
-    expired_at: Date.now() + (token.expire_in as number) * 1000,
-    token_updated_at: new Date().toISOString(),
-  }, { onConflict: 'shop_id' });
-}
-
-async function getTokenWithAutoRefresh(
-  supabase: ReturnType<typeof createClient>,
-  shopId: number
-) {
-  const { data } = await supabase
-    .from('apishopee_shops')
-    .select('shop_id, access_token, refresh_token, expired_at')
-    .eq('shop_id', shopId)
-    .single();
-
-  if (data?.access_token) return data;
-  throw new Error('Token not found');
-}
-
-async function callShopeeAPI(
+/**
+ * Gọi Shopee API qua client dùng chung (ký, auto-refresh token, rate limit, log)
+ */
+function callShopeeAPI(
   supabase: ReturnType<typeof createClient>,
   credentials: PartnerCredentials,
   path: string,
   method: 'GET' | 'POST',
   shopId: number,
-  token: { access_token: string; refresh_token: string },
+  token: ShopeeToken,
   body?: Record<string, unknown>,
-  extraParams?: Record<string, string | number | boolean>,
+  extraParams?: Record<string, QueryValue>,
   callerUserId?: string,
   callerUserEmail?: string,
   triggeredBy?: string
 ): Promise<unknown> {
-  const startTime = Date.now();
-  let wasTokenRefreshed = false;
-
-  const logCall = (status: 'success' | 'failed' | 'timeout', duration: number, opts?: {
-    shopeeError?: string; shopeeMessage?: string; responseSummary?: Record<string, unknown>;
-    tokenRefreshed?: boolean;
-  }) => {
-    logApiCall(supabase, {
-      shopId,
-      partnerId: credentials.partnerId,
-      edgeFunction: 'apishopee-flash-sale-scheduler',
-      apiEndpoint: path,
-      httpMethod: method,
-      apiCategory: 'flash_sale',
-      status,
-      shopeeError: opts?.shopeeError,
-      shopeeMessage: opts?.shopeeMessage,
-      durationMs: duration,
-      responseSummary: opts?.responseSummary,
-      wasTokenRefreshed: opts?.tokenRefreshed ?? wasTokenRefreshed,
-      userId: callerUserId,
-      userEmail: callerUserEmail,
-      triggeredBy: triggeredBy as 'user' | 'cron' | 'scheduler' | 'webhook' | 'system' | undefined,
-    });
-  };
-
-  const makeRequest = async (accessToken: string) => {
-    const timestamp = Math.floor(Date.now() / 1000);
-    const sign = createSignature(credentials.partnerKey, credentials.partnerId, path, timestamp, accessToken, shopId);
-
-    const params = new URLSearchParams({
-      partner_id: credentials.partnerId.toString(),
-      timestamp: timestamp.toString(),
-      access_token: accessToken,
-      shop_id: shopId.toString(),
-      sign: sign,
-    });
-
-    if (extraParams) {
-      Object.entries(extraParams).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          params.append(key, value.toString());
-        }
-      });
-    }
-
-    const url = `${SHOPEE_BASE_URL}${path}?${params.toString()}`;
-    const options: RequestInit = {
-      method,
-      headers: { 'Content-Type': 'application/json' },
-    };
-    if (method === 'POST' && body) {
-      options.body = JSON.stringify(body);
-    }
-
-    try {
-      const response = await fetchWithProxy(url, options);
-      return await response.json();
-    } catch (fetchError) {
-      const err = fetchError as Error;
-      return { error: 'network_error', message: err.message || 'Network request failed' };
-    }
-  };
-
-  try {
-    let result = await makeRequest(token.access_token);
-
-    if (result.error === 'error_auth' || result.message?.includes('Invalid access_token')) {
-      const firstCallStatus = getApiCallStatus(result as Record<string, unknown>);
-      logCall(firstCallStatus.status, Date.now() - startTime, {
-        shopeeError: firstCallStatus.shopeeError,
-        shopeeMessage: firstCallStatus.shopeeMessage,
-        responseSummary: createResponseSummary(result as Record<string, unknown>),
-      });
-
-      console.log('[SCHEDULER] Token invalid, refreshing...');
-      const retryStartTime = Date.now();
-      const newToken = await refreshAccessToken(credentials, token.refresh_token, shopId);
-      if (!newToken.error) {
-        await saveToken(supabase, shopId, newToken);
-        wasTokenRefreshed = true;
-        result = await makeRequest(newToken.access_token);
-      }
-
-      const retryStatus = getApiCallStatus(result as Record<string, unknown>);
-      logCall(retryStatus.status, Date.now() - retryStartTime, {
-        shopeeError: retryStatus.shopeeError,
-        shopeeMessage: retryStatus.shopeeMessage,
-        responseSummary: createResponseSummary(result as Record<string, unknown>),
-        tokenRefreshed: true,
-      });
-
-      return result;
-    }
-
-    // Log API call
-    const apiStatus = getApiCallStatus(result as Record<string, unknown>);
-    logCall(apiStatus.status, Date.now() - startTime, {
-      shopeeError: apiStatus.shopeeError,
-      shopeeMessage: apiStatus.shopeeMessage,
-      responseSummary: createResponseSummary(result as Record<string, unknown>),
-    });
-
-    return result;
-  } catch (err) {
-    logCall('failed', Date.now() - startTime, {
-      shopeeError: 'edge_function_error',
-      shopeeMessage: (err as Error).message || 'Unexpected error in callShopeeAPI',
-    });
-    throw err;
-  }
+  return createEdgeShopeeClient(supabase, credentials, {
+    edgeFunction: 'apishopee-flash-sale-scheduler',
+    apiCategory: 'flash_sale',
+    userId: callerUserId,
+    userEmail: callerUserEmail,
+    triggeredBy: triggeredBy as TriggeredBy | undefined,
+  }).call(path, { method, shopId, token, params: extraParams, body });
 }
 
 // ==================== MAIN LOGIC ====================
@@ -391,9 +200,7 @@ async function checkTimeslotHasFlashSale(
 /**
  * Parse items từ Shopee API response thành format để add vào FS mới
  */
-function parseFlashSaleItems(
-  result: { response?: { item_info?: FlashSaleItem[]; models?: FlashSaleModel[] }; error?: string; message?: string }
-): Array<Record<string, unknown>> {
+function parseFlashSaleItems(result: FlashSaleItemsResult): Array<Record<string, unknown>> {
   // Kiểm tra lỗi từ Shopee (VD: flash_sale_not_exist)
   if (result.error) {
     console.log(`[SCHEDULER][parseItems] Shopee API error: ${result.error} - ${result.message}`);
@@ -412,13 +219,13 @@ function parseFlashSaleItems(
   });
 
   // Chỉ lấy items enabled
-  const enabledItems = itemsWithModels.filter((item: FlashSaleItem) => item.status === 1);
+  const enabledItems = itemsWithModels.filter(item => item.status === 1);
   console.log(`[SCHEDULER][parseItems] Enabled items: ${enabledItems.length}/${itemInfoList.length}`);
 
   // Convert sang format để add vào FS mới
   const items: Array<Record<string, unknown>> = [];
   for (const item of enabledItems) {
-    const enabledModels = (item as FlashSaleItem).models?.filter(m => m.status === 1) || [];
+    const enabledModels = item.models?.filter(m => m.status === 1) || [];
     const isNonVariantWithModel = enabledModels.length === 1 && enabledModels[0].model_id === 0;
 
     if (isNonVariantWithModel) {
@@ -508,7 +315,7 @@ async function getTemplateItems(
       callerUserId,
       callerUserEmail,
       triggeredBy
-    ) as { response?: { item_info?: FlashSaleItem[]; models?: FlashSaleModel[] }; error?: string; message?: string };
+    ) as FlashSaleItemsResult;
 
     // FS không còn tồn tại trên Shopee → skip candidate này, thử tiếp
     if (result.error === 'shop_flash_sale_not_exist' || result.error === 'shop_flash_sale_is_not_enabled_or_upcoming') {
@@ -555,7 +362,7 @@ async function getTemplateItems(
       'GET', shopId, token, undefined,
       { flash_sale_id: fs.flash_sale_id, offset: 0, limit: 100 },
       callerUserId, callerUserEmail, triggeredBy
-    ) as { response?: { item_info?: FlashSaleItem[]; models?: FlashSaleModel[] }; error?: string; message?: string };
+    ) as FlashSaleItemsResult;
 
     if (itemResult.error) {
       console.log(`[SCHEDULER] Live fallback: FS ${fs.flash_sale_id} error: ${itemResult.error}, trying next`);
@@ -602,6 +409,89 @@ async function getItemsFromSuccessfulHistory(
   return [];
 }
 
+/** Sản phẩm đã sync của shop (products + models) để resolve template */
+async function loadTemplateCatalog(
+  supabase: ReturnType<typeof createClient>,
+  shopId: number
+): Promise<TemplateCatalogItem[]> {
+  // Mỗi request PostgREST tối đa 1000 rows
+  const fetchAll = async <T>(table: string, columns: string): Promise<T[]> => {
+    const rows: T[] = [];
+    for (let from = 0; ; from += 1000) {
+      const { data, error } = await supabase
+        .from(table)
+        .select(columns)
+        .eq('shop_id', shopId)
+        .order('item_id')
+        .range(from, from + 999);
+      if (error) throw new Error(`Load ${table} failed: ${error.message}`);
+      rows.push(...((data || []) as unknown as T[]));
+      if (!data || data.length < 1000) return rows;
+    }
+  };
+
+  return buildTemplateCatalog(
+    await fetchAll<TemplateProductRow>('apishopee_products', TEMPLATE_PRODUCT_COLUMNS),
+    await fetchAll<TemplateProductModelRow>('apishopee_product_models', TEMPLATE_MODEL_COLUMNS)
+  );
+}
+
+/**
+ * Resolve template của job (version đã ghim hoặc current_version) theo sản phẩm đã sync của shop.
+ * Template / version không còn → throw để job báo lỗi rõ ràng.
+ */
+async function getItemsFromJobTemplate(
+  supabase: ReturnType<typeof createClient>,
+  job: ScheduledJob
+): Promise<Array<Record<string, unknown>>> {
+  let version = job.template_version;
+  if (!version) {
+    const { data: template } = await supabase
+      .from('apishopee_flash_sale_templates')
+      .select('current_version')
+      .eq('id', job.template_id)
+      .single();
+    if (!template) throw new Error(`Không tìm thấy template ${job.template_id}`);
+    version = template.current_version as number;
+  }
+
+  const { data: templateVersion } = await supabase
+    .from('apishopee_flash_sale_template_versions')
+    .select('items')
+    .eq('template_id', job.template_id)
+    .eq('version', version)
+    .single();
+  if (!templateVersion) throw new Error(`Không tìm thấy template ${job.template_id} version ${version}`);
+
+  const catalog = await loadTemplateCatalog(supabase, job.shop_id);
+  const resolution = resolveFlashSaleTemplate((templateVersion.items || []) as FlashSaleTemplateItem[], catalog);
+  console.log(`[SCHEDULER] Template ${job.template_id} v${version}: ${resolution.items.length} items, ${resolution.skipped.length} skipped`);
+  return resolution.items as unknown as Array<Record<string, unknown>>;
+}
+
+/** Sản phẩm bán chạy nhất (theo `sold`) của shop, giảm % theo giá gốc lúc chạy */
+async function getItemsFromTopSellers(
+  supabase: ReturnType<typeof createClient>,
+  job: ScheduledJob,
+  source: TopSellerItemSource
+): Promise<Array<Record<string, unknown>>> {
+  const { data: ranked, error } = await supabase
+    .from('apishopee_products')
+    .select('item_id')
+    .eq('shop_id', job.shop_id)
+    .eq('item_status', 'NORMAL')
+    .gt('total_available_stock', 0)
+    .order('sold', { ascending: false })
+    .limit(source.limit * TOP_SELLER_CANDIDATE_MULTIPLIER);
+  if (error) throw new Error(`Load top sellers failed: ${error.message}`);
+
+  const catalog = await loadTemplateCatalog(supabase, job.shop_id);
+  const items = buildTopSellerTemplateItems((ranked || []).map(r => r.item_id as number), catalog, source);
+  const resolution = resolveFlashSaleTemplate(items, catalog);
+  console.log(`[SCHEDULER] Top sellers: ${resolution.items.length} items, ${resolution.skipped.length} skipped`);
+  return resolution.items.slice(0, source.limit) as unknown as Array<Record<string, unknown>>;
+}
+
 /**
  * Xử lý một scheduled job
  */
@@ -642,7 +532,7 @@ async function processJob(
       .eq('id', job.id);
 
     const credentials = await getPartnerCredentials(supabase, job.shop_id);
-    const token = await getTokenWithAutoRefresh(supabase, job.shop_id);
+    const token = await getShopToken(supabase, job.shop_id);
 
     // 1. Kiểm tra xem timeslot đã có Flash Sale chưa
     const { exists, flashSaleId: existingFsId } = await checkTimeslotHasFlashSale(
@@ -674,13 +564,21 @@ async function processJob(
     if (job.items_data && Array.isArray(job.items_data) && job.items_data.length > 0) {
       console.log(`[SCHEDULER] Using ${job.items_data.length} items from job.items_data`);
       itemsToAdd = job.items_data as Array<Record<string, unknown>>;
+    } else if (job.template_id) {
+      itemsToAdd = await getItemsFromJobTemplate(supabase, job);
+    } else if (job.item_source?.type === 'top_sellers') {
+      itemsToAdd = await getItemsFromTopSellers(supabase, job, job.item_source);
     } else {
       console.log('[SCHEDULER] No items_data in job, fetching from template sources...');
       itemsToAdd = await getTemplateItems(supabase, credentials, job.shop_id, token, callerUserId, callerUserEmail, triggeredBy);
     }
 
     if (itemsToAdd.length === 0) {
-      const errorMsg = 'Không có sản phẩm mẫu để thêm vào Flash Sale';
+      const errorMsg = job.template_id
+        ? `Template ${job.template_id} không có sản phẩm nào khớp với shop`
+        : job.item_source?.type === 'top_sellers'
+          ? 'Không có sản phẩm bán chạy còn hàng để thêm vào Flash Sale'
+          : 'Không có sản phẩm mẫu để thêm vào Flash Sale';
       await supabase
         .from('apishopee_flash_sale_auto_history')
         .update({
@@ -991,7 +889,7 @@ serve(async (req) => {
     // Tìm các scheduled + retry jobs đến hạn
     const { data: pendingJobs, error: queryError } = await supabase
       .from('apishopee_flash_sale_auto_history')
-      .select('id, shop_id, user_id, timeslot_id, slot_start_time, slot_end_time, items_count, scheduled_at, retry_count, items_data')
+      .select('id, shop_id, user_id, timeslot_id, slot_start_time, slot_end_time, items_count, scheduled_at, retry_count, items_data, template_id, template_version, item_source')
       .in('status', ['scheduled', 'retry'])
       .lte('scheduled_at', now)
       .order('scheduled_at', { ascending: true })
@@ -1092,7 +990,7 @@ serve(async (req) => {
       for (const shopId of successShopIds) {
         try {
           const credentials = await getPartnerCredentials(supabase, shopId);
-          const token = await getTokenWithAutoRefresh(supabase, shopId);
+          const token = await getShopToken(supabase, shopId);
           const job = pendingJobs.find(j => j.shop_id === shopId);
           const userId = (job?.user_id as string) || '';
           await syncFlashSaleData(supabase, credentials, shopId, token, userId, callerUserId, callerUserEmail, triggeredBy);
@@ -6,15 +6,19 @@
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { createHmac } from 'https://deno.land/std@0.168.0/node/crypto.ts';
-import { logApiCall, getApiCallStatus, createResponseSummary, extractUserFromJwt, determineTriggeredBy } from '../_shared/api-logger.ts';
+import { extractUserFromJwt, determineTriggeredBy, type TriggeredBy } from '../_shared/api-logger.ts';
 import { corsHeaders } from '../_shared/cors.ts';
+import { checkActionPermission } from '../_shared/action-guard.ts';
+import { canAccessShop } from '../_shared/shop-access.ts';
+import {
+  createEdgeShopeeClient,
+  getPartnerCredentials,
+  getShopToken,
+  type PartnerCredentials,
+  type QueryValue,
+  type ShopeeToken,
+} from '../_shared/shopee-api.ts';
 
-// Shopee API config - HARDCODE URL to avoid env var issues
-const DEFAULT_PARTNER_ID = Number(Deno.env.get('SHOPEE_PARTNER_ID'));
-const DEFAULT_PARTNER_KEY = Deno.env.get('SHOPEE_PARTNER_KEY') || '';
-const SHOPEE_BASE_URL = 'https://partner.shopeemobile.com';
-const PROXY_URL = Deno.env.get('SHOPEE_PROXY_URL') || '';
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
 const SUPABASE_SERVICE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
 
@@ -22,292 +26,34 @@ const SUPABASE_SERVICE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
 const recentlyDeletedCache = new Map<string, number>(); // key: "shopId:flashSaleId" -> timestamp
 const DELETE_CACHE_TTL = 60_000; // 60 giây
 
-// Interface cho partner credentials
-interface PartnerCredentials {
-  partnerId: number;
-  partnerKey: string;
-}
-
 // ==================== HELPER FUNCTIONS ====================
 
 /**
- * Lấy partner credentials từ database hoặc fallback env
- */
-async function getPartnerCredentials(
-  supabase: ReturnType<typeof createClient>,
-  shopId: number
-): Promise<PartnerCredentials> {
-  const { data, error } = await supabase
-    .from('apishopee_shops')
-    .select('partner_id, partner_key')
-    .eq('shop_id', shopId)
-    .single();
-
-  if (data?.partner_id && data?.partner_key && !error) {
-    console.log('[PARTNER] Using partner from shop:', data.partner_id);
-    return {
-      partnerId: data.partner_id,
-      partnerKey: data.partner_key,
-    };
-  }
-
-  console.log('[PARTNER] Using default partner from env:', DEFAULT_PARTNER_ID);
-  return {
-    partnerId: DEFAULT_PARTNER_ID,
-    partnerKey: DEFAULT_PARTNER_KEY,
-  };
-}
-
-/**
- * Helper function để gọi API qua proxy hoặc trực tiếp
- */
-async function fetchWithProxy(targetUrl: string, options: RequestInit): Promise<Response> {
-  if (PROXY_URL) {
-    console.log('[PROXY] Calling via proxy:', PROXY_URL);
-    // Use x-target-url header for proxy
-    const proxyOptions = {
-      ...options,
-      headers: {
-        ...(options.headers || {}),
-        'x-target-url': targetUrl,
-      },
-    };
-    return await fetch(PROXY_URL, proxyOptions);
-  }
-  return await fetch(targetUrl, options);
-}
-
-/**
- * Tạo signature cho Shopee API
- */
-function createSignature(
-  partnerKey: string,
-  partnerId: number,
-  path: string,
-  timestamp: number,
-  accessToken = '',
-  shopId = 0
-): string {
-  let baseString = `${partnerId}${path}${timestamp}`;
-  if (accessToken) baseString += accessToken;
-  if (shopId) baseString += shopId;
-
-  const hmac = createHmac('sha256', partnerKey);
-  hmac.update(baseString);
-  return hmac.digest('hex');
-}
-
-/**
- * Refresh access token
- */
-async function refreshAccessToken(
-  credentials: PartnerCredentials,
-  refreshToken: string,
-  shopId: number
-) {
-  const timestamp = Math.floor(Date.now() / 1000);
-  const path = '/api/v2/auth/access_token/get';
-  const sign = createSignature(credentials.partnerKey, credentials.partnerId, path, timestamp);
-
-  const url = `${SHOPEE_BASE_URL}${path}?partner_id=${credentials.partnerId}&timestamp=${timestamp}&sign=${sign}`;
-
-  const response = await fetchWithProxy(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      refresh_token: refreshToken,
-      partner_id: credentials.partnerId,
-      shop_id: shopId,
-    }),
-  });
-
-  return await response.json();
-}
-
-/**
- * Lưu token mới vào database
- */
-async function saveToken(
-  supabase: ReturnType<typeof createClient>,
-  shopId: number,
-  token: Record<string, unknown>
-) {
-  const { error } = await supabase.from('apishopee_shops').upsert(
-    {
-      shop_id: shopId,
-      access_token: token.access_token,
-      refresh_token: token.refresh_token,
-      expire_in: token.expire_in,
-      expired_at: Date.now() + (token.expire_in as number) * 1000,
-      token_updated_at: new Date().toISOString(),
-    },
-    { onConflict: 'shop_id' }
-  );
-
-  if (error) {
-    console.error('Failed to save token:', error);
-    throw error;
-  }
-}
-
-/**
- * Lấy token với auto refresh nếu hết hạn
- */
-async function getTokenWithAutoRefresh(
-  supabase: ReturnType<typeof createClient>,
-  shopId: number
-) {
-  const { data: shopData, error: shopError } = await supabase
-    .from('apishopee_shops')
-    .select('shop_id, access_token, refresh_token, expired_at, merchant_id')
-    .eq('shop_id', shopId)
-    .single();
-
-  if (!shopError && shopData?.access_token) {
-    return shopData;
-  }
-
-  throw new Error('Token not found. Please authenticate first.');
-}
-
-/**
- * Gọi Shopee API với auto retry khi token invalid
+ * Gọi Shopee API qua client dùng chung (ký, auto-refresh token, rate limit, log)
  */
-async function callShopeeAPIWithRetry(
+function callShopeeAPIWithRetry(
   supabase: ReturnType<typeof createClient>,
   credentials: PartnerCredentials,
   path: string,
   method: 'GET' | 'POST',
   shopId: number,
-  token: { access_token: string; refresh_token: string },
+  token: ShopeeToken,
   body?: Record<string, unknown>,
-  extraParams?: Record<string, string | number | boolean>,
+  extraParams?: Record<string, QueryValue>,
   callerUserId?: string,
   callerUserEmail?: string,
   triggeredBy?: string,
   requestId?: string
 ): Promise<unknown> {
-  const startTime = Date.now();
-  let wasTokenRefreshed = false;
-  let retryCount = 0;
-
-  const logCall = (status: 'success' | 'failed' | 'timeout', duration: number, opts?: {
-    shopeeError?: string; shopeeMessage?: string; responseSummary?: Record<string, unknown>;
-    retry?: number; tokenRefreshed?: boolean;
-  }) => {
-    logApiCall(supabase, {
-      shopId,
-      partnerId: credentials.partnerId,
-      edgeFunction: 'apishopee-flash-sale',
-      apiEndpoint: path,
-      httpMethod: method,
-      apiCategory: 'flash_sale',
-      status,
-      shopeeError: opts?.shopeeError,
-      shopeeMessage: opts?.shopeeMessage,
-      durationMs: duration,
-      responseSummary: opts?.responseSummary,
-      retryCount: opts?.retry ?? retryCount,
-      wasTokenRefreshed: opts?.tokenRefreshed ?? wasTokenRefreshed,
-      userId: callerUserId,
-      userEmail: callerUserEmail,
-      triggeredBy: triggeredBy as 'user' | 'cron' | 'scheduler' | 'webhook' | 'system' | undefined,
-      requestId,
-    });
-  };
-
-  const makeRequest = async (accessToken: string) => {
-    const timestamp = Math.floor(Date.now() / 1000);
-    const sign = createSignature(credentials.partnerKey, credentials.partnerId, path, timestamp, accessToken, shopId);
-
-    const params = new URLSearchParams({
-      partner_id: credentials.partnerId.toString(),
-      timestamp: timestamp.toString(),
-      access_token: accessToken,
-      shop_id: shopId.toString(),
-      sign: sign,
-    });
-
-    if (extraParams) {
-      Object.entries(extraParams).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          params.append(key, value.toString());
-        }
-      });
-    }
-
-    const url = `${SHOPEE_BASE_URL}${path}?${params.toString()}`;
-    console.log('[FLASH-SALE] Calling Shopee API:', path);
-
-    const options: RequestInit = {
-      method,
-      headers: { 'Content-Type': 'application/json' },
-    };
-
-    if (method === 'POST' && body) {
-      options.body = JSON.stringify(body);
-    }
-
-    try {
-      const response = await fetchWithProxy(url, options);
-      return await response.json();
-    } catch (fetchError) {
-      const err = fetchError as Error;
-      return { error: 'network_error', message: err.message || 'Network request failed' };
-    }
-  };
-
-  try {
-    let result = await makeRequest(token.access_token);
-
-    // Auto retry if token invalid
-    if (result.error === 'error_auth' || result.message?.includes('Invalid access_token')) {
-      const firstCallStatus = getApiCallStatus(result as Record<string, unknown>);
-      logCall(firstCallStatus.status, Date.now() - startTime, {
-        shopeeError: firstCallStatus.shopeeError,
-        shopeeMessage: firstCallStatus.shopeeMessage,
-        responseSummary: createResponseSummary(result as Record<string, unknown>),
-      });
-
-      console.log('[AUTO-RETRY] Invalid token detected, refreshing...');
-      const retryStartTime = Date.now();
-      const newToken = await refreshAccessToken(credentials, token.refresh_token, shopId);
-
-      if (!newToken.error) {
-        await saveToken(supabase, shopId, newToken);
-        wasTokenRefreshed = true;
-        retryCount = 1;
-        result = await makeRequest(newToken.access_token);
-      }
-
-      const retryStatus = getApiCallStatus(result as Record<string, unknown>);
-      logCall(retryStatus.status, Date.now() - retryStartTime, {
-        shopeeError: retryStatus.shopeeError,
-        shopeeMessage: retryStatus.shopeeMessage,
-        responseSummary: createResponseSummary(result as Record<string, unknown>),
-        retry: retryCount,
-        tokenRefreshed: true,
-      });
-
-      return result;
-    }
-
-    // Log API call (non-blocking)
-    const apiStatus = getApiCallStatus(result as Record<string, unknown>);
-    logCall(apiStatus.status, Date.now() - startTime, {
-      shopeeError: apiStatus.shopeeError,
-      shopeeMessage: apiStatus.shopeeMessage,
-      responseSummary: createResponseSummary(result as Record<string, unknown>),
-    });
-
-    return result;
-  } catch (err) {
-    logCall('failed', Date.now() - startTime, {
-      shopeeError: 'edge_function_error',
-      shopeeMessage: (err as Error).message || 'Unexpected error in callShopeeAPIWithRetry',
-    });
-    throw err;
-  }
+  console.log('[FLASH-SALE] Calling Shopee API:', path);
+  return createEdgeShopeeClient(supabase, credentials, {
+    edgeFunction: 'apishopee-flash-sale',
+    apiCategory: 'flash_sale',
+    userId: callerUserId,
+    userEmail: callerUserEmail,
+    triggeredBy: triggeredBy as TriggeredBy | undefined,
+    requestId,
+  }).call(path, { method, shopId, token, params: extraParams, body });
 }
 
 
@@ -351,11 +97,26 @@ serve(async (req) => {
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
 
     // Extract calling user from JWT (decode only, already verified by gateway)
-    const { userId: callerUserId, userEmail: callerUserEmail } = extractUserFromJwt(req.headers.get('Authorization'));
+    const { userId: callerUserId, userEmail: callerUserEmail, role: callerRole } = extractUserFromJwt(req.headers.get('Authorization'));
     const triggeredBy = determineTriggeredBy({ userId: callerUserId, userEmail: callerUserEmail }, 'cron');
 
+    const guard = await checkActionPermission(supabase, 'apishopee-flash-sale', action, { userId: callerUserId, role: callerRole });
+    if (!guard.allowed) {
+      return new Response(JSON.stringify({ error: guard.error }), {
+        status: guard.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json', 'x-request-id': requestId },
+      });
+    }
+    // Request không có user đã qua guard bằng JWT service_role (cron / worker)
+    if (callerUserId && !(await canAccessShop(supabase, shop_id, callerUserId))) {
+      return new Response(JSON.stringify({ error: 'No access to this shop' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json', 'x-request-id': requestId },
+      });
+    }
+
     const credentials = await getPartnerCredentials(supabase, shop_id);
-    const token = await getTokenWithAutoRefresh(supabase, shop_id);
+    const token = await getShopToken(supabase, shop_id);
 
     let result;
 
@@ -0,0 +1,132 @@
+/**
+ * Supabase Edge Function: Shopee Orders
+ *
+ * Sync đơn hàng chạy trong worker (queue order_sync, worker/src/jobs/order-sync.ts):
+ * sync-orders chỉ enqueue job và trả về job_id, tiến độ đọc từ
+ * apishopee_orders_sync_status.sync_cursor (migration 091)
+ *
+ * set-sync-interval: đổi chu kỳ tự đồng bộ của shop (null = chỉ thủ công)
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { extractUserFromJwt } from '../_shared/api-logger.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { checkActionPermission } from '../_shared/action-guard.ts';
+import { canAccessShop } from '../_shared/shop-access.ts';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
+const SUPABASE_SERVICE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+
+const MIN_SYNC_INTERVAL_MINUTES = 15;
+
+// ==================== HELPER FUNCTIONS ====================
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// ==================== SYNC (worker queue) ====================
+
+/**
+ * Đưa 1 lần sync vào queue order_sync của worker. Dedupe theo shop:
+ * bấm sync khi job trước chưa chạy xong thì trả lại job đang có.
+ */
+async function enqueueOrderSync(
+  supabase: ReturnType<typeof createClient>,
+  shopId: number
+): Promise<{ success: boolean; queued: boolean; job_id: string }> {
+  const { data: jobId, error } = await supabase.rpc('enqueue_worker_job', {
+    p_queue: 'order_sync',
+    p_payload: { shop_id: shopId },
+    p_priority: 100,
+    p_concurrency_key: `orders:shop:${shopId}`,
+    p_dedupe_key: `order_sync:${shopId}`,
+    p_run_at: new Date().toISOString(),
+    p_max_attempts: 3,
+  });
+  if (error) throw new Error(`Enqueue order sync failed: ${error.message}`);
+
+  return { success: true, queued: true, job_id: jobId as string };
+}
+
+async function setSyncInterval(
+  supabase: ReturnType<typeof createClient>,
+  shopId: number,
+  intervalMinutes: number | null
+): Promise<{ success: boolean; sync_interval_minutes: number | null }> {
+  const { error } = await supabase
+    .from('apishopee_orders_sync_status')
+    .upsert({
+      shop_id: shopId,
+      sync_interval_minutes: intervalMinutes,
+      // Cron enqueue ở lần chạy kế tiếp, sau đó tính lịch theo chu kỳ mới
+      next_sync_at: null,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'shop_id' });
+  if (error) throw new Error(`Update sync interval failed: ${error.message}`);
+
+  return { success: true, sync_interval_minutes: intervalMinutes };
+}
+
+// ==================== MAIN HANDLER ====================
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const { action, shop_id } = body;
+
+    if (!shop_id) {
+      return jsonResponse({ error: 'shop_id is required' }, 400);
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+    const { userId: callerUserId } = extractUserFromJwt(req.headers.get('Authorization'));
+    if (!callerUserId) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+    if (!(await canAccessShop(supabase, shop_id, callerUserId))) {
+      return jsonResponse({ error: 'No access to this shop' }, 403);
+    }
+    const guard = await checkActionPermission(supabase, 'apishopee-orders', action, { userId: callerUserId });
+    if (!guard.allowed) {
+      return jsonResponse({ error: guard.error }, guard.status);
+    }
+
+    let result;
+
+    switch (action) {
+      // ==================== SYNC ORDERS (worker queue) ====================
+      case 'sync-orders': {
+        result = await enqueueOrderSync(supabase, shop_id);
+        break;
+      }
+
+      // ==================== AUTO-SYNC INTERVAL ====================
+      case 'set-sync-interval': {
+        const { interval_minutes } = body;
+        if (interval_minutes !== null && !(Number.isInteger(interval_minutes) && interval_minutes >= MIN_SYNC_INTERVAL_MINUTES)) {
+          return jsonResponse({ error: `interval_minutes must be null or an integer >= ${MIN_SYNC_INTERVAL_MINUTES}` }, 400);
+        }
+        result = await setSyncInterval(supabase, shop_id, interval_minutes);
+        break;
+      }
+
+      default:
+        return jsonResponse({ error: 'Invalid action' }, 400);
+    }
+
+    return jsonResponse(result);
+  } catch (error) {
+    console.error('[ORDERS] Error:', error);
+    return jsonResponse({ error: (error as Error).message, success: false });
+  }
+});
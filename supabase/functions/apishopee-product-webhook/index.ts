@@ -11,14 +11,59 @@
  * - item_price_update_push: Thay đổi giá sản phẩm
  * - item_stock_update_push: Thay đổi tồn kho
  * - item_status_change_push: Thay đổi trạng thái (NORMAL, UNLIST, BANNED)
+ *
+ * Action `webhook` chỉ nhận request:
+ * - Nội bộ từ apishopee-push (service role key, chữ ký Shopee đã được xác thực ở đó), hoặc
+ * - Ký bằng chữ ký Shopee (Authorization = HMAC(partner_key, callback_url|body))
+ * Push ngoài replay window hoặc trùng (shop_id + code + item_id + timestamp) bị từ chối
+ * và ghi vào apishopee_webhook_rejected_logs.
+ *
+ * Mỗi history log được đánh giá theo rule cảnh báo của shop (apishopee_product_alert_rules);
+ * rule khớp tạo alert trong apishopee_product_alerts và nâng severity của log.
+ *
+ * violation_item_push còn mở / mở lại case trong apishopee_violation_cases để theo dõi xử lý.
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { corsHeaders } from '../_shared/cors.ts';
+import {
+  checkPushTimestamp,
+  claimDedupeKey,
+  DEFAULT_PUSH_REPLAY_WINDOW_SECONDS,
+  isServiceRoleRequest,
+  releaseDedupeKey,
+  verifyPushSignature,
+  type PushDedupeKey,
+} from '../_shared/shopee-push.ts';
+import {
+  evaluateAlertRules,
+  isStockOut,
+  maxSeverity,
+  type AlertEvent,
+  type AlertRuleHit,
+  type AlertSeverity,
+  type ProductAlertRule,
+} from '../_shared/product-alert-rules.ts';
+import { contentChangeSummary, type ProductContentField } from '../_shared/product-content.ts';
+import { defaultDueAt, statusOnRepeatReport, type ViolationStatus } from '../_shared/violation-cases.ts';
 
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
 const SUPABASE_SERVICE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+// URL đã đăng ký với Shopee nếu function này nhận push trực tiếp
+const WEBHOOK_CALLBACK_URL = Deno.env.get('SHOPEE_PRODUCT_WEBHOOK_CALLBACK_URL') || '';
+
+// Replay window (dài hơn lần retry cuối của Shopee), dùng chung với apishopee-push
+const REPLAY_WINDOW_SECONDS = Number(Deno.env.get('WEBHOOK_REPLAY_WINDOW_SECONDS')) || DEFAULT_PUSH_REPLAY_WINDOW_SECONDS;
+
+// Cache rule cảnh báo theo shop trong instance - rule mới / sửa có hiệu lực sau tối đa 60s
+const ALERT_RULES_CACHE_MS = 60 * 1000;
+
+// Push code → webhook_type (khi Shopee gọi thẳng không qua apishopee-push)
+const PUSH_CODE_WEBHOOK_TYPES: Record<number, string> = {
+  16: 'violation_item_push',
+  22: 'item_price_update_push',
+};
 
 // ==================== INTERFACES ====================
 
@@ -58,6 +103,8 @@ interface StatusChangePush {
   reason?: string;
 }
 
+type RejectReason = 'invalid_signature' | 'invalid_payload' | 'stale_timestamp' | 'future_timestamp' | 'duplicate';
+
 interface HistoryLogInput {
   shop_id: number;
   user_id: string;
@@ -66,8 +113,10 @@ interface HistoryLogInput {
   model_id?: number;
   model_name?: string;
   change_type: 'price_change' | 'stock_change' | 'status_change' | 'content_change' | 'violation' | 'product_created' | 'product_deleted' | 'model_change';
-  severity?: 'INFO' | 'WARNING' | 'HIGH' | 'CRITICAL';
-  source: 'webhook' | 'api_sync' | 'manual_check';
+  severity?: AlertSeverity;
+  source: 'webhook' | 'api_sync' | 'manual_check' | 'manual';
+  /** User sửa thủ công từ app (source = manual) */
+  actor_user_id?: string;
   old_value?: Record<string, unknown>;
   new_value?: Record<string, unknown>;
   change_summary: string;
@@ -145,13 +194,136 @@ async function getModelInfo(
   return data;
 }
 
+// ==================== ALERT RULES ====================
+
+const alertRulesCache = new Map<number, { rules: ProductAlertRule[]; loadedAt: number }>();
+
+/**
+ * Rule cảnh báo đang bật của shop
+ */
+async function getAlertRules(
+  supabase: ReturnType<typeof createClient>,
+  shopId: number
+): Promise<ProductAlertRule[]> {
+  const cached = alertRulesCache.get(shopId);
+  if (cached && Date.now() - cached.loadedAt < ALERT_RULES_CACHE_MS) return cached.rules;
+
+  const { data, error } = await supabase
+    .from('apishopee_product_alert_rules')
+    .select('id, shop_id, category_id, item_id, name, rule_type, threshold, severity, is_enabled')
+    .eq('shop_id', shopId)
+    .eq('is_enabled', true);
+
+  if (error) {
+    console.error('[ALERT] Load rules error:', error);
+    return [];
+  }
+
+  const rules = (data || []).map(r => ({
+    ...r,
+    threshold: r.threshold === null ? null : Number(r.threshold),
+    category_id: r.category_id === null ? null : Number(r.category_id),
+    item_id: r.item_id === null ? null : Number(r.item_id),
+  })) as ProductAlertRule[];
+  alertRulesCache.set(shopId, { rules, loadedAt: Date.now() });
+  return rules;
+}
+
+/**
+ * Sản phẩm nằm trong Flash Sale đã đăng ký thành công và chưa kết thúc
+ */
+async function isItemInFlashSale(
+  supabase: ReturnType<typeof createClient>,
+  shopId: number,
+  itemId: number
+): Promise<boolean> {
+  const { data } = await supabase
+    .from('apishopee_flash_sale_auto_history')
+    .select('id')
+    .eq('shop_id', shopId)
+    .in('status', ['success', 'partial'])
+    .gt('slot_end_time', Math.floor(Date.now() / 1000))
+    .contains('items_data', JSON.stringify([{ item_id: itemId }]))
+    .limit(1);
+
+  return (data?.length || 0) > 0;
+}
+
+/**
+ * Đánh giá rule cảnh báo cho 1 history log (chỉ query thêm category / Flash Sale khi rule cần)
+ */
+async function matchAlertRules(
+  supabase: ReturnType<typeof createClient>,
+  input: HistoryLogInput
+): Promise<AlertRuleHit[]> {
+  const rules = await getAlertRules(supabase, input.shop_id);
+  if (rules.length === 0) return [];
+
+  const event: AlertEvent = {
+    change_type: input.change_type,
+    item_id: input.item_id,
+    old_value: input.old_value,
+    new_value: input.new_value,
+  };
+
+  if (rules.some(r => r.category_id !== null)) {
+    const { data } = await supabase
+      .from('apishopee_products')
+      .select('category_id')
+      .eq('shop_id', input.shop_id)
+      .eq('item_id', input.item_id)
+      .limit(1)
+      .maybeSingle();
+    event.category_id = data?.category_id ?? null;
+  }
+
+  if (isStockOut(event) && rules.some(r => r.rule_type === 'stock_out_flash_sale')) {
+    event.in_flash_sale = await isItemInFlashSale(supabase, input.shop_id, input.item_id);
+  }
+
+  return evaluateAlertRules(rules, event);
+}
+
+/**
+ * Ghi alert cho các rule khớp - lỗi chỉ log, không làm hỏng history log
+ */
+async function createAlerts(
+  supabase: ReturnType<typeof createClient>,
+  input: HistoryLogInput,
+  historyLogId: string | undefined,
+  hits: AlertRuleHit[]
+): Promise<void> {
+  const { error } = await supabase.from('apishopee_product_alerts').insert(
+    hits.map(hit => ({
+      shop_id: input.shop_id,
+      rule_id: hit.rule.id,
+      history_log_id: historyLogId,
+      item_id: input.item_id,
+      item_name: input.item_name,
+      model_id: input.model_id,
+      model_name: input.model_name,
+      rule_type: hit.rule.rule_type,
+      severity: hit.rule.severity,
+      message: hit.message,
+      details: { ...hit.details, rule_name: hit.rule.name, source: input.source },
+    }))
+  );
+
+  if (error) {
+    console.error('[ALERT] Insert error:', error);
+  }
+}
+
 /**
- * Tạo log lịch sử
+ * Tạo log lịch sử (kèm đánh giá rule cảnh báo)
  */
 async function createHistoryLog(
   supabase: ReturnType<typeof createClient>,
   input: HistoryLogInput
 ): Promise<{ success: boolean; id?: string; error?: string }> {
+  const hits = await matchAlertRules(supabase, input);
+  const severity = hits.reduce<AlertSeverity>((current, hit) => maxSeverity(current, hit.rule.severity), input.severity || 'INFO');
+
   const { data, error } = await supabase
     .from('apishopee_product_history_logs')
     .insert({
@@ -162,8 +334,9 @@ async function createHistoryLog(
       model_id: input.model_id,
       model_name: input.model_name,
       change_type: input.change_type,
-      severity: input.severity || 'INFO',
+      severity,
       source: input.source,
+      actor_user_id: input.actor_user_id,
       old_value: input.old_value,
       new_value: input.new_value,
       change_summary: input.change_summary,
@@ -174,6 +347,10 @@ async function createHistoryLog(
       shopee_timestamp: input.shopee_timestamp,
       raw_webhook_payload: input.raw_webhook_payload,
       raw_api_response: input.raw_api_response,
+      ...(hits.length > 0 && {
+        is_anomaly: true,
+        anomaly_reason: hits.map(hit => hit.message).join('; '),
+      }),
     })
     .select('id')
     .single();
@@ -183,6 +360,10 @@ async function createHistoryLog(
     return { success: false, error: error.message };
   }
 
+  if (hits.length > 0) {
+    await createAlerts(supabase, input, data?.id, hits);
+  }
+
   return { success: true, id: data?.id };
 }
 
@@ -241,9 +422,72 @@ async function handleViolationPush(
     raw_webhook_payload: rawPayload,
   });
 
+  if (result.success) {
+    await upsertViolationCase(supabase, shopId, data, productInfo?.item_name, result.id, timestamp);
+  }
+
   return result;
 }
 
+/**
+ * Mở case vi phạm cho item + violation_type, hoặc cập nhật case chưa xác nhận
+ * (tăng report_count, mở lại nếu đã đánh dấu sửa). Lỗi không chặn ghi history
+ */
+async function upsertViolationCase(
+  supabase: ReturnType<typeof createClient>,
+  shopId: number,
+  data: ViolationItemPush,
+  itemName: string | undefined,
+  historyLogId: string | undefined,
+  timestamp: number
+): Promise<void> {
+  const reportedAt = timestamp ? new Date(timestamp * 1000) : new Date();
+
+  const { data: existing, error: selectError } = await supabase
+    .from('apishopee_violation_cases')
+    .select('id, status, report_count')
+    .eq('shop_id', shopId)
+    .eq('item_id', data.item_id)
+    .eq('violation_type', data.violation_type)
+    .neq('status', 'verified')
+    .maybeSingle();
+
+  if (selectError) {
+    console.error('[WEBHOOK] Violation case lookup error:', selectError.message);
+    return;
+  }
+
+  const details = {
+    item_name: itemName ?? null,
+    violation_reason: data.violation_reason ?? null,
+    suggestion: data.suggestion ?? null,
+    history_log_id: historyLogId ?? null,
+    last_reported_at: reportedAt.toISOString(),
+  };
+
+  const { error } = existing
+    ? await supabase
+      .from('apishopee_violation_cases')
+      .update({
+        ...details,
+        status: statusOnRepeatReport(existing.status as ViolationStatus),
+        report_count: (existing.report_count as number) + 1,
+      })
+      .eq('id', existing.id)
+    : await supabase
+      .from('apishopee_violation_cases')
+      .insert({
+        ...details,
+        shop_id: shopId,
+        item_id: data.item_id,
+        violation_type: data.violation_type,
+        first_reported_at: reportedAt.toISOString(),
+        due_at: defaultDueAt(reportedAt),
+      });
+
+  if (error) console.error('[WEBHOOK] Violation case upsert error:', error.message);
+}
+
 /**
  * Xử lý webhook thay đổi giá
  */
@@ -421,13 +665,19 @@ async function handleStatusChangePush(
 
 /**
  * So sánh và tạo log cho sự thay đổi từ API sync
- * Được gọi từ apishopee-product khi phát hiện sự khác biệt
+ * Được gọi từ apishopee-product khi phát hiện sự khác biệt, hoặc sau khi user sửa giá / kho / trạng thái (source = manual)
  */
 interface DiffInput {
   shop_id: number;
   user_id: string;
   item_id: number;
   item_name: string;
+  /** Diff của một phân loại (sửa giá / kho theo model) */
+  model_id?: number;
+  model_name?: string;
+  /** Mặc định api_sync; 'manual' cho thao tác sửa từ ProductsPanel */
+  source?: 'api_sync' | 'manual';
+  actor_user_id?: string;
   old_data: {
     current_price?: number;
     original_price?: number;
@@ -454,20 +704,31 @@ async function processProductDiff(
   const errors: string[] = [];
 
   const { shop_id, user_id, item_id, item_name, old_data, new_data, shopee_timestamp, raw_response } = input;
+  const base: Pick<HistoryLogInput, 'model_id' | 'model_name' | 'source' | 'actor_user_id'> = {
+    model_id: input.model_id,
+    model_name: input.model_name,
+    source: input.source || 'api_sync',
+    actor_user_id: input.actor_user_id,
+  };
 
-  // Check giá thay đổi
-  if (old_data.current_price !== new_data.current_price && new_data.current_price !== undefined) {
-    const changePercent = calculateChangePercent(old_data.current_price || 0, new_data.current_price);
+  // Check giá thay đổi (sửa thủ công đổi giá gốc - giá bán giữ nguyên khi đang có khuyến mãi)
+  const currentPriceChanged = old_data.current_price !== new_data.current_price && new_data.current_price !== undefined;
+  const originalPriceChanged = base.source === 'manual'
+    && old_data.original_price !== new_data.original_price && new_data.original_price !== undefined;
+  if (currentPriceChanged || originalPriceChanged) {
+    const oldPrice = (currentPriceChanged ? old_data.current_price : old_data.original_price) || 0;
+    const newPrice = (currentPriceChanged ? new_data.current_price : new_data.original_price) || 0;
+    const changePercent = calculateChangePercent(oldPrice, newPrice);
     logs.push({
       shop_id,
       user_id,
       item_id,
       item_name,
       change_type: 'price_change',
-      source: 'api_sync',
+      ...base,
       old_value: { current_price: old_data.current_price, original_price: old_data.original_price },
       new_value: { current_price: new_data.current_price, original_price: new_data.original_price },
-      change_summary: `Giá: ${formatPrice(old_data.current_price || 0)} → ${formatPrice(new_data.current_price)} (${changePercent > 0 ? '+' : ''}${changePercent}%)`,
+      change_summary: `${currentPriceChanged ? 'Giá' : 'Giá gốc'}: ${formatPrice(oldPrice)} → ${formatPrice(newPrice)} (${changePercent > 0 ? '+' : ''}${changePercent}%)`,
       change_details: { change_percent: changePercent },
       shopee_timestamp,
       raw_api_response: raw_response,
@@ -483,7 +744,7 @@ async function processProductDiff(
       item_id,
       item_name,
       change_type: 'stock_change',
-      source: 'api_sync',
+      ...base,
       old_value: { total_available_stock: old_data.total_available_stock },
       new_value: { total_available_stock: new_data.total_available_stock },
       change_summary: `Kho: ${old_data.total_available_stock || 0} → ${new_data.total_available_stock} (${stockDiff > 0 ? '+' : ''}${stockDiff})`,
@@ -507,7 +768,7 @@ async function processProductDiff(
       item_name,
       change_type: 'status_change',
       severity: new_data.item_status === 'BANNED' ? 'HIGH' : 'INFO',
-      source: 'api_sync',
+      ...base,
       old_value: { item_status: old_data.item_status },
       new_value: { item_status: new_data.item_status },
       change_summary: `Trạng thái: ${statusLabels[old_data.item_status || ''] || old_data.item_status} → ${statusLabels[new_data.item_status] || new_data.item_status}`,
@@ -524,7 +785,7 @@ async function processProductDiff(
       item_id,
       item_name: new_data.item_name,
       change_type: 'content_change',
-      source: 'api_sync',
+      ...base,
       old_value: { item_name: old_data.item_name },
       new_value: { item_name: new_data.item_name },
       change_summary: `Đổi tên sản phẩm`,
@@ -603,6 +864,102 @@ async function logProductDeleted(
   });
 }
 
+/**
+ * Tạo log khi user sửa nội dung sản phẩm từ app (push-content của apishopee-product)
+ */
+async function logContentChange(
+  supabase: ReturnType<typeof createClient>,
+  input: {
+    shop_id: number;
+    user_id: string;
+    item_id: number;
+    item_name?: string;
+    actor_user_id?: string;
+    fields: ProductContentField[];
+    old_value: Record<string, unknown>;
+    new_value: Record<string, unknown>;
+    raw_response?: unknown;
+  }
+): Promise<{ success: boolean; error?: string }> {
+  return await createHistoryLog(supabase, {
+    shop_id: input.shop_id,
+    user_id: input.user_id,
+    item_id: input.item_id,
+    item_name: input.item_name,
+    change_type: 'content_change',
+    source: 'manual',
+    actor_user_id: input.actor_user_id,
+    old_value: input.old_value,
+    new_value: input.new_value,
+    change_summary: contentChangeSummary(input.fields),
+    change_details: { fields: input.fields },
+    raw_api_response: input.raw_response,
+  });
+}
+
+// ==================== WEBHOOK GUARDS ====================
+
+/**
+ * Xác thực request webhook: service role nội bộ hoặc chữ ký Shopee hợp lệ
+ */
+async function authenticateWebhookRequest(
+  supabase: ReturnType<typeof createClient>,
+  req: Request,
+  rawBody: string
+): Promise<boolean> {
+  if (isServiceRoleRequest(req, SUPABASE_SERVICE_KEY)) {
+    return true;
+  }
+
+  const partnerApp = await verifyPushSignature(supabase, {
+    callbackUrl: WEBHOOK_CALLBACK_URL || req.url,
+    rawBody,
+    authorization: req.headers.get('Authorization'),
+  });
+
+  return partnerApp !== null;
+}
+
+function getDedupeKey(payload: WebhookPayload, webhookType: string): PushDedupeKey {
+  const data = (payload.data || {}) as { item_id?: number };
+  return {
+    shop_id: payload.shop_id,
+    push_code: payload.code,
+    item_id: Number(data.item_id) || 0,
+    shopee_timestamp: Number(payload.timestamp),
+    webhook_type: webhookType,
+  };
+}
+
+/**
+ * Ghi audit request bị từ chối (không throw để không che lỗi gốc)
+ */
+async function logRejectedRequest(
+  supabase: ReturnType<typeof createClient>,
+  req: Request,
+  reason: RejectReason,
+  context: { webhook_type?: string; payload?: WebhookPayload }
+): Promise<void> {
+  const payload = context.payload;
+  const data = (payload?.data || {}) as { item_id?: number };
+
+  const { error } = await supabase.from('apishopee_webhook_rejected_logs').insert({
+    reason,
+    webhook_type: context.webhook_type || null,
+    push_code: Number(payload?.code) || null,
+    shop_id: Number(payload?.shop_id) || null,
+    item_id: Number(data.item_id) || null,
+    shopee_timestamp: Number(payload?.timestamp) || null,
+    client_ip: req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+    user_agent: req.headers.get('user-agent'),
+    payload: payload ?? null,
+  });
+
+  if (error) {
+    console.error('[WEBHOOK] Failed to log rejected request:', error.message);
+  }
+}
+
 // ==================== MAIN HANDLER ====================
 
 serve(async (req) => {
@@ -611,17 +968,47 @@ serve(async (req) => {
   }
 
   try {
-    const body = await req.json();
-    const { action } = body;
+    // Đọc raw body để xác thực chữ ký Shopee trên đúng chuỗi bytes đã ký
+    const rawBody = await req.text();
+    const body = JSON.parse(rawBody);
 
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
 
+    // Push gửi thẳng từ Shopee không có action wrapper
+    const isRawShopeePush = !body.action && typeof body.code === 'number';
+    const action = isRawShopeePush ? 'webhook' : body.action;
+
     // ==================== WEBHOOK HANDLERS ====================
     if (action === 'webhook') {
-      const { webhook_type, payload } = body as { webhook_type: string; payload: WebhookPayload };
+      const { webhook_type, payload } = isRawShopeePush
+        ? { webhook_type: PUSH_CODE_WEBHOOK_TYPES[body.code], payload: body as WebhookPayload }
+        : body as { webhook_type: string; payload: WebhookPayload };
+
+      const rejectContext = { webhook_type, payload };
+
+      const authenticated = await authenticateWebhookRequest(supabase, req, rawBody);
+      if (!authenticated) {
+        console.warn('[WEBHOOK] Rejected: invalid signature');
+        await logRejectedRequest(supabase, req, 'invalid_signature', rejectContext);
+        return new Response(JSON.stringify({ success: false, error: 'Invalid signature' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (!payload?.shop_id || !webhook_type || !Number.isFinite(Number(payload.timestamp))) {
+        await logRejectedRequest(supabase, req, 'invalid_payload', rejectContext);
+        return new Response(JSON.stringify({ success: false, error: 'Invalid webhook payload' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
 
-      if (!payload?.shop_id) {
-        return new Response(JSON.stringify({ error: 'Invalid webhook payload' }), {
+      const replayReason = checkPushTimestamp(Number(payload.timestamp), REPLAY_WINDOW_SECONDS);
+      if (replayReason) {
+        console.warn('[WEBHOOK] Rejected:', replayReason, 'timestamp:', payload.timestamp);
+        await logRejectedRequest(supabase, req, replayReason, rejectContext);
+        return new Response(JSON.stringify({ success: false, error: `Push timestamp outside replay window (${replayReason})` }), {
           status: 400,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
@@ -636,44 +1023,62 @@ serve(async (req) => {
         });
       }
 
-      let result;
-
-      switch (webhook_type) {
-        case 'violation_item_push':
-          result = await handleViolationPush(
-            supabase, payload.shop_id, userId,
-            payload.data as ViolationItemPush,
-            payload.timestamp, payload
-          );
-          break;
-
-        case 'item_price_update_push':
-          result = await handlePriceUpdatePush(
-            supabase, payload.shop_id, userId,
-            payload.data as PriceUpdatePush,
-            payload.timestamp, payload
-          );
-          break;
-
-        case 'item_stock_update_push':
-          result = await handleStockUpdatePush(
-            supabase, payload.shop_id, userId,
-            payload.data as StockUpdatePush,
-            payload.timestamp, payload
-          );
-          break;
-
-        case 'item_status_change_push':
-          result = await handleStatusChangePush(
-            supabase, payload.shop_id, userId,
-            payload.data as StatusChangePush,
-            payload.timestamp, payload
-          );
-          break;
-
-        default:
-          console.log('[WEBHOOK] Unknown webhook type:', webhook_type);
-          result = { success: false, error: `Unknown webhook type: ${webhook_type}` };
+      const dedupeKey = getDedupeKey(payload, webhook_type);
+      const claimed = await claimDedupeKey(supabase, dedupeKey);
+      if (!claimed) {
+        console.log('[WEBHOOK] Duplicate push ignored:', JSON.stringify(dedupeKey));
+        await logRejectedRequest(supabase, req, 'duplicate', rejectContext);
+        // Trả success để Shopee / apishopee-push không retry
+        return new Response(JSON.stringify({ success: true, duplicate: true }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      let result: { success: boolean; error?: string } | undefined;
+
+      // Handler lỗi hoặc throw → nhả key để lần retry của Shopee vẫn được xử lý
+      try {
+        switch (webhook_type) {
+          case 'violation_item_push':
+            result = await handleViolationPush(
+              supabase, payload.shop_id, userId,
+              payload.data as ViolationItemPush,
+              payload.timestamp, payload
+            );
+            break;
+
+          case 'item_price_update_push':
+            result = await handlePriceUpdatePush(
+              supabase, payload.shop_id, userId,
+              payload.data as PriceUpdatePush,
+              payload.timestamp, payload
+            );
+            break;
+
+          case 'item_stock_update_push':
+            result = await handleStockUpdatePush(
+              supabase, payload.shop_id, userId,
+              payload.data as StockUpdatePush,
+              payload.timestamp, payload
+            );
+            break;
+
+          case 'item_status_change_push':
+            result = await handleStatusChangePush(
+              supabase, payload.shop_id, userId,
+              payload.data as StatusChangePush,
+              payload.timestamp, payload
+            );
+            break;
+
+          default:
+            console.log('[WEBHOOK] Unknown webhook type:', webhook_type);
+            result = { success: false, error: `Unknown webhook type: ${webhook_type}` };
+        }
+      } finally {
+        if (!result?.success) {
+          await releaseDedupeKey(supabase, dedupeKey);
+        }
       }
 
       return new Response(JSON.stringify(result), {
@@ -734,6 +1139,22 @@ serve(async (req) => {
       });
     }
 
+    if (action === 'log-content-change') {
+      const { shop_id, user_id, item_id, fields } = body;
+      if (!shop_id || !user_id || !item_id || !Array.isArray(fields) || fields.length === 0) {
+        return new Response(JSON.stringify({ error: 'shop_id, user_id, item_id and fields are required' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const result = await logContentChange(supabase, body);
+
+      return new Response(JSON.stringify(result), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // ==================== GET HISTORY LOGS ====================
     if (action === 'get-history') {
       const { shop_id, item_id, change_type, severity, is_read, page = 1, page_size = 50 } = body;
@@ -1,301 +1,92 @@
 /**
  * Supabase Edge Function: Shopee Product
  * Quản lý Product API với Auto-Refresh Token
- * Hỗ trợ sync products và models vào database
- * 
- * UPDATED: Lấy đầy đủ chi tiết sản phẩm bao gồm:
- * - Hình ảnh (image_url_list)
- * - Giá (current_price, original_price) - từ model nếu có
- * - Tồn kho (total_available_stock) - từ model nếu có
- * - Models/Variants với tier variations
+ *
+ * Sync products / models vào database chạy trong worker (queue product_sync):
+ * sync-products (full) và check-updates (incremental) chỉ enqueue job và trả về job_id,
+ * tiến độ đọc từ apishopee_sync_status.products_sync_cursor
+ *
+ * Sửa sản phẩm từ ProductsPanel (update-price, update-stock, unlist-item):
+ * ghi lên Shopee, cập nhật DB và log history với source = manual + user thực hiện
+ *
+ * Sửa nội dung (get-content, upload-image, push-content): bản nháp trong
+ * apishopee_product_content_drafts được kiểm tra theo ngành hàng rồi đẩy bằng update_item
+ *
+ * Kiểm tra lại case vi phạm (verify-violation): đọc item_status qua get_item_base_info
+ * để xác nhận đã hết vi phạm (apishopee_violation_cases)
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { createHmac } from 'https://deno.land/std@0.168.0/node/crypto.ts';
-import { logApiCall, getApiCallStatus, createResponseSummary, extractUserFromJwt, determineTriggeredBy } from '../_shared/api-logger.ts';
+import { extractUserFromJwt, determineTriggeredBy, type TriggeredBy } from '../_shared/api-logger.ts';
 import { corsHeaders } from '../_shared/cors.ts';
+import { checkActionPermission } from '../_shared/action-guard.ts';
+import { canAccessShop } from '../_shared/shop-access.ts';
+import {
+  createEdgeShopeeClient,
+  getPartnerCredentials,
+  getShopToken,
+  type PartnerCredentials,
+  type QueryValue,
+  type ShopeeToken,
+} from '../_shared/shopee-api.ts';
+import type { ProductSyncMode } from '../_shared/product-sync.ts';
+import {
+  buildUpdateItemBody,
+  conflictingFields,
+  contentChangeValues,
+  contentFromItem,
+  diffContent,
+  limitsFromItemLimit,
+  normalizeAttributeTree,
+  validateContent,
+  CONTENT_FIELD_LABELS,
+  type CategoryAttribute,
+  type ContentValidationError,
+  type ProductBrand,
+  type ProductContent,
+  type ProductContentField,
+  type ProductContentLimits,
+} from '../_shared/product-content.ts';
+import { verificationOutcome, type VerificationOutcome, type ViolationStatus } from '../_shared/violation-cases.ts';
 
-// Shopee API config
-const DEFAULT_PARTNER_ID = Number(Deno.env.get('SHOPEE_PARTNER_ID'));
-const DEFAULT_PARTNER_KEY = Deno.env.get('SHOPEE_PARTNER_KEY') || '';
-const SHOPEE_BASE_URL = Deno.env.get('SHOPEE_BASE_URL') || 'https://partner.shopeemobile.com';
-const PROXY_URL = Deno.env.get('SHOPEE_PROXY_URL') || '';
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
 const SUPABASE_SERVICE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
 
-// Batch size for API calls
-const BATCH_SIZE_ITEM_INFO = 50;
-const DELAY_BETWEEN_CALLS_MS = 100; // Delay để tránh rate limit
 const REQUEST_TIMEOUT_MS = 15000; // 15s timeout cho mỗi request Shopee
-const MODEL_PARALLEL_BATCH = 10; // Fetch 10 models song song để tránh timeout
-
-interface PartnerCredentials {
-  partnerId: number;
-  partnerKey: string;
-}
-
-// Helper function để delay
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const BRAND_PAGE_SIZE = 100;
+const BRAND_MAX_PAGES = 10;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
 
 // ==================== HELPER FUNCTIONS ====================
 
-async function getPartnerCredentials(
-  supabase: ReturnType<typeof createClient>,
-  shopId: number
-): Promise<PartnerCredentials> {
-  const { data, error } = await supabase
-    .from('apishopee_shops')
-    .select('partner_id, partner_key')
-    .eq('shop_id', shopId)
-    .single();
-
-  if (data?.partner_id && data?.partner_key && !error) {
-    return { partnerId: data.partner_id, partnerKey: data.partner_key };
-  }
-  return { partnerId: DEFAULT_PARTNER_ID, partnerKey: DEFAULT_PARTNER_KEY };
-}
-
-async function fetchWithProxy(targetUrl: string, options: RequestInit, timeoutMs = REQUEST_TIMEOUT_MS): Promise<Response> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-  try {
-    const fetchOptions = {
-      ...options,
-      signal: controller.signal,
-    };
-
-    if (PROXY_URL) {
-      const proxyOptions = {
-        ...fetchOptions,
-        headers: { ...(fetchOptions.headers || {}), 'x-target-url': targetUrl },
-      };
-      return await fetch(PROXY_URL, proxyOptions);
-    }
-    return await fetch(targetUrl, fetchOptions);
-  } finally {
-    clearTimeout(timeoutId);
-  }
-}
-
-function createSignature(
-  partnerKey: string,
-  partnerId: number,
-  path: string,
-  timestamp: number,
-  accessToken = '',
-  shopId = 0
-): string {
-  let baseString = `${partnerId}${path}${timestamp}`;
-  if (accessToken) baseString += accessToken;
-  if (shopId) baseString += shopId;
-
-  const hmac = createHmac('sha256', partnerKey);
-  hmac.update(baseString);
-  return hmac.digest('hex');
-}
-
-async function refreshAccessToken(
-  credentials: PartnerCredentials,
-  refreshToken: string,
-  shopId: number
-) {
-  const timestamp = Math.floor(Date.now() / 1000);
-  const path = '/api/v2/auth/access_token/get';
-  const sign = createSignature(credentials.partnerKey, credentials.partnerId, path, timestamp);
-
-  const url = `${SHOPEE_BASE_URL}${path}?partner_id=${credentials.partnerId}&timestamp=${timestamp}&sign=${sign}`;
-
-  const response = await fetchWithProxy(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      refresh_token: refreshToken,
-      partner_id: credentials.partnerId,
-      shop_id: shopId,
-    }),
-  });
-
-  return await response.json();
-}
-
-async function saveToken(
-  supabase: ReturnType<typeof createClient>,
-  shopId: number,
-  token: Record<string, unknown>
-) {
-  await supabase.from('apishopee_shops').upsert(
-    {
-      shop_id: shopId,
-      access_token: token.access_token,
-      refresh_token: token.refresh_token,
-      expire_in: token.expire_in,
-      expired_at: Date.now() + (token.expire_in as number) * 1000,
-      token_updated_at: new Date().toISOString(),
-    },
-    { onConflict: 'shop_id' }
-  );
-}
-
-async function getTokenWithAutoRefresh(
-  supabase: ReturnType<typeof createClient>,
-  shopId: number
-) {
-  const { data: shopData, error: shopError } = await supabase
-    .from('apishopee_shops')
-    .select('shop_id, access_token, refresh_token, expired_at')
-    .eq('shop_id', shopId)
-    .single();
-
-  if (!shopError && shopData?.access_token) {
-    return shopData;
-  }
-  throw new Error('Token not found. Please authenticate first.');
-}
-
-async function callShopeeAPI(
+/**
+ * Gọi Shopee API qua client dùng chung (ký, auto-refresh token, rate limit, log)
+ */
+function callShopeeAPI(
   supabase: ReturnType<typeof createClient>,
   credentials: PartnerCredentials,
   path: string,
   method: 'GET' | 'POST',
   shopId: number,
-  token: { access_token: string; refresh_token: string },
+  token: ShopeeToken,
   body?: Record<string, unknown>,
-  extraParams?: Record<string, string | number | boolean | number[]>,
+  extraParams?: Record<string, QueryValue>,
   callerUserId?: string,
   callerUserEmail?: string,
   triggeredBy?: string,
   requestId?: string
 ): Promise<unknown> {
-  const startTime = Date.now();
-  let wasTokenRefreshed = false;
-  let retryCount = 0;
-
-  const logCall = (status: 'success' | 'failed' | 'timeout', duration: number, opts?: {
-    shopeeError?: string; shopeeMessage?: string; responseSummary?: Record<string, unknown>;
-    retry?: number; tokenRefreshed?: boolean;
-  }) => {
-    logApiCall(supabase, {
-      shopId,
-      partnerId: credentials.partnerId,
-      edgeFunction: 'apishopee-product',
-      apiEndpoint: path,
-      httpMethod: method,
-      apiCategory: 'product',
-      status,
-      shopeeError: opts?.shopeeError,
-      shopeeMessage: opts?.shopeeMessage,
-      durationMs: duration,
-      responseSummary: opts?.responseSummary,
-      retryCount: opts?.retry ?? retryCount,
-      wasTokenRefreshed: opts?.tokenRefreshed ?? wasTokenRefreshed,
-      userId: callerUserId,
-      userEmail: callerUserEmail,
-      triggeredBy: triggeredBy as 'user' | 'cron' | 'scheduler' | 'webhook' | 'system' | undefined,
-      requestId,
-    });
-  };
-
-  const makeRequest = async (accessToken: string) => {
-    const timestamp = Math.floor(Date.now() / 1000);
-    const sign = createSignature(credentials.partnerKey, credentials.partnerId, path, timestamp, accessToken, shopId);
-
-    const params = new URLSearchParams({
-      partner_id: credentials.partnerId.toString(),
-      timestamp: timestamp.toString(),
-      access_token: accessToken,
-      shop_id: shopId.toString(),
-      sign: sign,
-    });
-
-    if (extraParams) {
-      Object.entries(extraParams).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          if (Array.isArray(value)) {
-            params.append(key, value.join(','));
-          } else {
-            params.append(key, value.toString());
-          }
-        }
-      });
-    }
-
-    const url = `${SHOPEE_BASE_URL}${path}?${params.toString()}`;
-    console.log('[PRODUCT] Calling:', path);
-
-    const options: RequestInit = {
-      method,
-      headers: { 'Content-Type': 'application/json' },
-    };
-
-    if (method === 'POST' && body) {
-      options.body = JSON.stringify(body);
-    }
-
-    try {
-      const response = await fetchWithProxy(url, options);
-      return await response.json();
-    } catch (fetchError) {
-      const err = fetchError as Error;
-      if (err.name === 'AbortError') {
-        console.error(`[PRODUCT] Request timeout for ${path} after ${REQUEST_TIMEOUT_MS}ms`);
-        return { error: 'timeout', message: `Request timeout after ${REQUEST_TIMEOUT_MS}ms` };
-      }
-      return { error: 'network_error', message: err.message || 'Network request failed' };
-    }
-  };
-
-  try {
-    let result = await makeRequest(token.access_token);
-
-    if (result.error === 'error_auth' || result.message?.includes('Invalid access_token')) {
-      // Log the initial failed call before retrying
-      const firstCallStatus = getApiCallStatus(result as Record<string, unknown>);
-      logCall(firstCallStatus.status, Date.now() - startTime, {
-        shopeeError: firstCallStatus.shopeeError,
-        shopeeMessage: firstCallStatus.shopeeMessage,
-        responseSummary: createResponseSummary(result as Record<string, unknown>),
-      });
-
-      console.log('[AUTO-RETRY] Refreshing token...');
-      wasTokenRefreshed = true;
-      retryCount++;
-      const retryStartTime = Date.now();
-      const newToken = await refreshAccessToken(credentials, token.refresh_token, shopId);
-      if (!newToken.error) {
-        await saveToken(supabase, shopId, newToken);
-        result = await makeRequest(newToken.access_token);
-      }
-      const retryStatus = getApiCallStatus(result as Record<string, unknown>);
-      logCall(retryStatus.status, Date.now() - retryStartTime, {
-        shopeeError: retryStatus.shopeeError,
-        shopeeMessage: retryStatus.shopeeMessage,
-        responseSummary: createResponseSummary(result as Record<string, unknown>),
-        retry: retryCount,
-        tokenRefreshed: true,
-      });
-
-      return result;
-    }
-
-    // Log API call (non-blocking)
-    const apiStatus = getApiCallStatus(result as Record<string, unknown>);
-    logCall(apiStatus.status, Date.now() - startTime, {
-      shopeeError: apiStatus.shopeeError,
-      shopeeMessage: apiStatus.shopeeMessage,
-      responseSummary: createResponseSummary(result as Record<string, unknown>),
-    });
-
-    return result;
-  } catch (err) {
-    // Log crash/unexpected errors so no call is ever missed
-    logCall('failed', Date.now() - startTime, {
-      shopeeError: 'edge_function_error',
-      shopeeMessage: (err as Error).message || 'Unexpected error in callShopeeAPI',
-    });
-    throw err;
-  }
+  console.log('[PRODUCT] Calling:', path);
+  return createEdgeShopeeClient(supabase, credentials, {
+    edgeFunction: 'apishopee-product',
+    apiCategory: 'product',
+    userId: callerUserId,
+    userEmail: callerUserEmail,
+    triggeredBy: triggeredBy as TriggeredBy | undefined,
+    requestId,
+    timeoutMs: REQUEST_TIMEOUT_MS,
+  }).call(path, { method, shopId, token, params: extraParams, body });
 }
 
 
@@ -305,559 +96,40 @@ const PRODUCT_PATHS = {
   GET_ITEM_LIST: '/api/v2/product/get_item_list',
   GET_ITEM_BASE_INFO: '/api/v2/product/get_item_base_info',
   GET_MODEL_LIST: '/api/v2/product/get_model_list',
+  UPDATE_PRICE: '/api/v2/product/update_price',
+  UPDATE_STOCK: '/api/v2/product/update_stock',
+  UNLIST_ITEM: '/api/v2/product/unlist_item',
+  UPDATE_ITEM: '/api/v2/product/update_item',
+  GET_ATTRIBUTE_TREE: '/api/v2/product/get_attribute_tree',
+  GET_BRAND_LIST: '/api/v2/product/get_brand_list',
+  GET_ITEM_LIMIT: '/api/v2/product/get_item_limit',
+  UPLOAD_IMAGE: '/api/v2/media_space/upload_image',
 };
 
-// ==================== INTERFACES ====================
-
-interface ShopeeItemBasic {
-  item_id: number;
-  item_status: string;
-  update_time: number;
-}
-
-interface ShopeeProduct {
-  item_id: number;
-  item_name: string;
-  item_sku: string;
-  item_status: string;
-  create_time: number;
-  update_time: number;
-  category_id: number;
-  has_model: boolean;
-  image: { 
-    image_url_list: string[]; 
-    image_id_list: string[];
-    image_ratio?: string;
-  };
-  price_info?: Array<{ 
-    current_price: number; 
-    original_price: number; 
-    currency: string 
-  }>;
-  stock_info_v2?: { 
-    summary_info: { 
-      total_reserved_stock: number; 
-      total_available_stock: number 
-    };
-    seller_stock?: Array<{ stock: number }>;
-  };
-  brand?: { 
-    brand_id: number; 
-    original_brand_name: string 
-  };
-  description_info?: {
-    extended_description?: {
-      field_list?: Array<{
-        field_type: string;
-        text?: string;
-        image_info?: { image_url: string };
-      }>;
-    };
-  };
-  logistic_info?: Array<{
-    logistic_id: number;
-    logistic_name: string;
-    enabled: boolean;
-  }>;
-  pre_order?: {
-    is_pre_order: boolean;
-    days_to_ship: number;
-  };
-  condition?: string;
-  weight?: string;
-  dimension?: {
-    package_length: number;
-    package_width: number;
-    package_height: number;
-  };
-}
-
-interface ShopeeModel {
-  model_id: number;
-  model_sku: string;
-  price_info: Array<{ 
-    current_price: number; 
-    original_price: number;
-    currency?: string;
-  }>;
-  stock_info_v2?: { 
-    summary_info: { 
-      total_reserved_stock: number; 
-      total_available_stock: number 
-    };
-    seller_stock?: Array<{ stock: number }>;
-  };
-  // Fallback fields từ API cũ
-  stock_info?: Array<{
-    stock_type: number;
-    current_stock: number;
-    normal_stock: number;
-    reserved_stock: number;
-  }>;
-  tier_index: number[];
-}
-
-interface TierVariation {
-  name: string;
-  option_list: Array<{ 
-    option: string; 
-    image?: { 
-      image_id?: string;
-      image_url: string 
-    } 
-  }>;
-}
-
-interface ModelResponse {
-  tier_variation: TierVariation[];
-  model: ShopeeModel[];
-}
-
-// ==================== SYNC FUNCTIONS ====================
-
-/**
- * Sync tất cả products từ Shopee vào database
- * Bao gồm: base info + models/variants với giá và tồn kho chính xác
- */
-interface SyncResult {
-  success: boolean;
-  synced_count: number;
-  models_count?: number;
-  error?: string;
-  api_responses?: {
-    item_list_responses: unknown[];
-    item_base_info_responses: unknown[];
-    model_responses: unknown[];
-  };
-}
-
-/**
- * Lấy tồn kho từ model response
- */
-function getModelStock(model: ShopeeModel): number {
-  // Ưu tiên stock_info_v2
-  if (model.stock_info_v2?.summary_info?.total_available_stock !== undefined) {
-    return model.stock_info_v2.summary_info.total_available_stock;
-  }
-  // Fallback to stock_info (API cũ)
-  if (model.stock_info && model.stock_info.length > 0) {
-    return model.stock_info.reduce((sum, s) => sum + (s.current_stock || s.normal_stock || 0), 0);
-  }
-  return 0;
-}
+// ==================== SYNC (worker queue) ====================
 
 /**
- * Lấy giá từ model response
+ * Đưa 1 lần sync vào queue product_sync của worker (worker/src/jobs/product-sync.ts).
+ * Dedupe theo shop + user: bấm sync khi job trước chưa chạy xong thì trả lại job đang có.
  */
-function getModelPrice(model: ShopeeModel): { current: number; original: number } {
-  if (model.price_info && model.price_info.length > 0) {
-    return {
-      current: model.price_info[0].current_price || 0,
-      original: model.price_info[0].original_price || 0,
-    };
-  }
-  return { current: 0, original: 0 };
-}
-
-async function syncAllProducts(
+async function enqueueProductSync(
   supabase: ReturnType<typeof createClient>,
-  credentials: PartnerCredentials,
   shopId: number,
   userId: string,
-  token: { access_token: string; refresh_token: string },
-  callerUserId?: string,
-  callerUserEmail?: string,
-  triggeredBy?: string,
-  requestId?: string
-): Promise<SyncResult> {
-  // Lưu trữ tất cả API responses
-  const apiResponses = {
-    item_list_responses: [] as unknown[],
-    item_base_info_responses: [] as unknown[],
-    model_responses: [] as unknown[],
-  };
-
-  try {
-    console.log('[SYNC] Starting product sync for shop:', shopId);
-
-    // ========== STEP 1: Lấy danh sách item IDs theo từng status ==========
-    const statuses = ['NORMAL', 'UNLIST', 'BANNED'];
-    const allItemIds: number[] = [];
-
-    for (const status of statuses) {
-      let offset = 0;
-      let hasMore = true;
-
-      while (hasMore) {
-        const result = await callShopeeAPI(
-          supabase, credentials, PRODUCT_PATHS.GET_ITEM_LIST, 'GET',
-          shopId, token, undefined,
-          { offset, page_size: 100, item_status: status },
-          callerUserId, callerUserEmail, triggeredBy, requestId
-        ) as {
-          error?: string;
-          response?: {
-            item?: ShopeeItemBasic[];
-            total_count?: number;
-            has_next_page?: boolean;
-            next_offset?: number;
-          }
-        };
-
-        // Lưu raw response
-        apiResponses.item_list_responses.push({
-          status,
-          api_path: PRODUCT_PATHS.GET_ITEM_LIST,
-          response: result,
-        });
-
-        if (result.error) {
-          console.error(`[SYNC] Error fetching items (status=${status}):`, result.error);
-          break;
-        }
-
-        const items = result?.response?.item || [];
-        const ids = items.map(i => i.item_id);
-        allItemIds.push(...ids);
-        
-        console.log(`[SYNC] Found ${ids.length} items with status ${status} (offset=${offset})`);
-
-        // Check pagination
-        hasMore = result?.response?.has_next_page || false;
-        offset = result?.response?.next_offset || offset + 100;
-
-        if (hasMore) await delay(DELAY_BETWEEN_CALLS_MS);
-      }
-    }
-
-    if (allItemIds.length === 0) {
-      console.log('[SYNC] No products found');
-      await updateSyncStatus(supabase, shopId, userId);
-      return { success: true, synced_count: 0, models_count: 0, api_responses: apiResponses };
-    }
-
-    console.log(`[SYNC] Total items found: ${allItemIds.length}`);
-
-    // ========== STEP 2: Lấy chi tiết products theo batch ==========
-    const allProducts: ShopeeProduct[] = [];
-
-    for (let i = 0; i < allItemIds.length; i += BATCH_SIZE_ITEM_INFO) {
-      const batchIds = allItemIds.slice(i, i + BATCH_SIZE_ITEM_INFO);
-      
-      const result = await callShopeeAPI(
-        supabase, credentials, PRODUCT_PATHS.GET_ITEM_BASE_INFO, 'GET',
-        shopId, token, undefined,
-        { item_id_list: batchIds },
-        callerUserId, callerUserEmail, triggeredBy, requestId
-      ) as {
-        error?: string;
-        warning?: string;
-        response?: { item_list?: ShopeeProduct[] }
-      };
-
-      // Lưu raw response
-      apiResponses.item_base_info_responses.push({
-        batch_index: Math.floor(i / BATCH_SIZE_ITEM_INFO),
-        item_ids: batchIds,
-        api_path: PRODUCT_PATHS.GET_ITEM_BASE_INFO,
-        response: result,
-      });
-
-      if (result.error) {
-        console.error(`[SYNC] Error fetching item details (batch ${i}):`, result.error);
-        continue;
-      }
-
-      const items = result?.response?.item_list || [];
-      allProducts.push(...items);
-
-      if (i + BATCH_SIZE_ITEM_INFO < allItemIds.length) {
-        await delay(DELAY_BETWEEN_CALLS_MS);
-      }
-    }
-
-    console.log(`[SYNC] Fetched ${allProducts.length} product details`);
-
-    // ========== STEP 3: Xóa dữ liệu cũ ==========
-    console.log('[SYNC] Deleting old data...');
-    await supabase.from('apishopee_product_models').delete().eq('shop_id', shopId).eq('user_id', userId);
-    await supabase.from('apishopee_product_tier_variations').delete().eq('shop_id', shopId).eq('user_id', userId);
-    await supabase.from('apishopee_products').delete().eq('shop_id', shopId).eq('user_id', userId);
-
-    // ========== STEP 4: Lấy models cho TẤT CẢ products có has_model = true ==========
-    const productsWithModels = allProducts.filter(p => p.has_model);
-    console.log(`[SYNC] *** FETCHING MODELS for ${productsWithModels.length} products with variants ***`);
-
-    // Map để lưu models và tính tổng giá/tồn kho
-    const productModelsMap: Map<number, {
-      models: ShopeeModel[];
-      tierVariations: TierVariation[];
-      totalStock: number;
-      minPrice: number;
-      maxPrice: number;
-      minOriginalPrice: number;
-      maxOriginalPrice: number;
-    }> = new Map();
-
-    let totalModelsCount = 0;
-
-    // Gọi API get_model_list SONG SONG theo batch để tránh timeout
-    const totalBatches = Math.ceil(productsWithModels.length / MODEL_PARALLEL_BATCH);
-    console.log(`[SYNC] Fetching models in ${totalBatches} parallel batches (batch size=${MODEL_PARALLEL_BATCH})`);
-
-    for (let batchStart = 0; batchStart < productsWithModels.length; batchStart += MODEL_PARALLEL_BATCH) {
-      const batch = productsWithModels.slice(batchStart, batchStart + MODEL_PARALLEL_BATCH);
-      const batchIndex = Math.floor(batchStart / MODEL_PARALLEL_BATCH) + 1;
-      console.log(`[SYNC] Model batch ${batchIndex}/${totalBatches} (${batch.length} items)`);
-
-      const batchResults = await Promise.all(
-        batch.map(async (product) => {
-          try {
-            const modelResult = await callShopeeAPI(
-              supabase, credentials, PRODUCT_PATHS.GET_MODEL_LIST, 'GET',
-              shopId, token, undefined,
-              { item_id: product.item_id },
-              callerUserId, callerUserEmail, triggeredBy, requestId
-            ) as {
-              error?: string;
-              message?: string;
-              response?: ModelResponse
-            };
-
-            apiResponses.model_responses.push({
-              item_id: product.item_id,
-              item_name: product.item_name,
-              api_path: PRODUCT_PATHS.GET_MODEL_LIST,
-              response: modelResult,
-            });
-
-            return { product, modelResult };
-          } catch (err) {
-            console.error(`[SYNC] Exception fetching models for item ${product.item_id}:`, err);
-            return { product, modelResult: null };
-          }
-        })
-      );
-
-      // Process batch results
-      for (const { product, modelResult } of batchResults) {
-        if (!modelResult || modelResult.error) {
-          if (modelResult?.error) {
-            console.error(`[SYNC] Error fetching models for item ${product.item_id}:`, modelResult.error, modelResult.message);
-          }
-          continue;
-        }
-
-        const modelResponse = modelResult?.response;
-        if (!modelResponse?.model || modelResponse.model.length === 0) {
-          continue;
-        }
-
-        let totalStock = 0;
-        let minPrice = Infinity;
-        let maxPrice = 0;
-        let minOriginalPrice = Infinity;
-        let maxOriginalPrice = 0;
-
-        for (const model of modelResponse.model) {
-          const stock = getModelStock(model);
-          const price = getModelPrice(model);
-
-          totalStock += stock;
-          if (price.current > 0) {
-            minPrice = Math.min(minPrice, price.current);
-            maxPrice = Math.max(maxPrice, price.current);
-          }
-          if (price.original > 0) {
-            minOriginalPrice = Math.min(minOriginalPrice, price.original);
-            maxOriginalPrice = Math.max(maxOriginalPrice, price.original);
-          }
-        }
-
-        productModelsMap.set(product.item_id, {
-          models: modelResponse.model,
-          tierVariations: modelResponse.tier_variation || [],
-          totalStock,
-          minPrice: minPrice === Infinity ? 0 : minPrice,
-          maxPrice,
-          minOriginalPrice: minOriginalPrice === Infinity ? 0 : minOriginalPrice,
-          maxOriginalPrice,
-        });
-
-        totalModelsCount += modelResponse.model.length;
-      }
-
-      // Delay giữa các batch để tránh rate limit
-      if (batchStart + MODEL_PARALLEL_BATCH < productsWithModels.length) {
-        await delay(DELAY_BETWEEN_CALLS_MS);
-      }
-    }
-
-    console.log(`[SYNC] *** TOTAL MODELS FETCHED: ${totalModelsCount} ***`);
-
-    // ========== STEP 5: Insert products với giá/tồn kho chính xác ==========
-    console.log('[SYNC] Inserting products...');
-    
-    const productData = allProducts.map(p => {
-      const modelInfo = productModelsMap.get(p.item_id);
-      
-      // Nếu có models, lấy giá và tồn kho từ models
-      let currentPrice = p.price_info?.[0]?.current_price || 0;
-      let originalPrice = p.price_info?.[0]?.original_price || 0;
-      let totalAvailableStock = p.stock_info_v2?.summary_info?.total_available_stock || 0;
-      let totalReservedStock = p.stock_info_v2?.summary_info?.total_reserved_stock || 0;
-
-      if (modelInfo && modelInfo.models.length > 0) {
-        // Sử dụng giá thấp nhất từ models làm current_price
-        currentPrice = modelInfo.minPrice;
-        // Sử dụng giá gốc cao nhất từ models làm original_price
-        originalPrice = modelInfo.maxOriginalPrice > 0 ? modelInfo.maxOriginalPrice : modelInfo.maxPrice;
-        // Tổng tồn kho từ tất cả models
-        totalAvailableStock = modelInfo.totalStock;
-      }
-
-      return {
-        shop_id: shopId,
-        user_id: userId,
-        item_id: p.item_id,
-        item_name: p.item_name,
-        item_sku: p.item_sku || '',
-        item_status: p.item_status,
-        category_id: p.category_id,
-        image_url_list: p.image?.image_url_list || [],
-        image_id_list: p.image?.image_id_list || [],
-        current_price: currentPrice,
-        original_price: originalPrice,
-        currency: p.price_info?.[0]?.currency || 'VND',
-        total_available_stock: totalAvailableStock,
-        total_reserved_stock: totalReservedStock,
-        brand_id: p.brand?.brand_id || null,
-        brand_name: p.brand?.original_brand_name || null,
-        has_model: p.has_model,
-        create_time: p.create_time,
-        update_time: p.update_time,
-        raw_response: p,
-        synced_at: new Date().toISOString(),
-      };
-    });
-
-    // Sử dụng upsert thay vì insert để tránh lỗi 409 Conflict khi sync lại
-    const { error: insertError } = await supabase.from('apishopee_products').upsert(productData, {
-      onConflict: 'shop_id,user_id,item_id', // Unique constraint
-      ignoreDuplicates: false, // Update nếu đã tồn tại
-    });
-    if (insertError) {
-      console.error('[SYNC] Upsert products error:', insertError);
-      throw new Error(`Upsert products failed: ${insertError.message}`);
-    }
-
-    // ========== STEP 6: Insert tier variations và models ==========
-    console.log('[SYNC] Inserting models and tier variations...');
-
-    for (const [itemId, modelInfo] of productModelsMap) {
-      const product = allProducts.find(p => p.item_id === itemId);
-      if (!product) continue;
-
-      // Upsert tier variations
-      if (modelInfo.tierVariations.length > 0) {
-        const { error: tierError } = await supabase.from('apishopee_product_tier_variations').upsert({
-          shop_id: shopId,
-          user_id: userId,
-          item_id: itemId,
-          tier_variations: modelInfo.tierVariations,
-          synced_at: new Date().toISOString(),
-        }, {
-          onConflict: 'shop_id,user_id,item_id',
-          ignoreDuplicates: false,
-        });
-        if (tierError) {
-          console.error(`[SYNC] Upsert tier variations error for item ${itemId}:`, tierError);
-        }
-      }
-
-      // Insert models
-      if (modelInfo.models.length > 0) {
-        const modelData = modelInfo.models.map(m => {
-          // Tạo model name từ tier variations
-          let modelName = m.model_sku || '';
-          if (modelInfo.tierVariations.length > 0 && m.tier_index) {
-            const parts = m.tier_index.map((idx, i) => {
-              const tier = modelInfo.tierVariations[i];
-              return tier?.option_list?.[idx]?.option || '';
-            }).filter(Boolean);
-            if (parts.length > 0) modelName = parts.join(' - ');
-          }
-
-          // Lấy image từ tier variation (thường là tier đầu tiên)
-          let imageUrl: string | null = null;
-          if (modelInfo.tierVariations.length > 0 && m.tier_index && m.tier_index.length > 0) {
-            const firstTier = modelInfo.tierVariations[0];
-            const firstIdx = m.tier_index[0];
-            imageUrl = firstTier?.option_list?.[firstIdx]?.image?.image_url || null;
-          }
-
-          const price = getModelPrice(m);
-          const stock = getModelStock(m);
-
-          return {
-            shop_id: shopId,
-            user_id: userId,
-            item_id: itemId,
-            model_id: m.model_id,
-            model_sku: m.model_sku || '',
-            model_name: modelName,
-            current_price: price.current,
-            original_price: price.original,
-            total_available_stock: stock,
-            total_reserved_stock: m.stock_info_v2?.summary_info?.total_reserved_stock || 0,
-            tier_index: m.tier_index,
-            image_url: imageUrl,
-            raw_response: m,
-            synced_at: new Date().toISOString(),
-          };
-        });
-
-        const { error: modelInsertError } = await supabase.from('apishopee_product_models').upsert(modelData, {
-          onConflict: 'shop_id,user_id,item_id,model_id',
-          ignoreDuplicates: false,
-        });
-        if (modelInsertError) {
-          console.error(`[SYNC] Upsert models error for item ${itemId}:`, modelInsertError);
-        } else {
-          console.log(`[SYNC] Upserted ${modelData.length} models for item ${itemId}`);
-        }
-      }
-    }
-
-    // ========== STEP 7: Update sync status ==========
-    await updateSyncStatus(supabase, shopId, userId);
-
-    console.log(`[SYNC] *** SYNC COMPLETED: ${allProducts.length} products, ${totalModelsCount} models ***`);
-    return { 
-      success: true, 
-      synced_count: allProducts.length, 
-      models_count: totalModelsCount,
-      api_responses: apiResponses 
-    };
+  mode: ProductSyncMode
+): Promise<{ success: boolean; queued: boolean; job_id: string; mode: ProductSyncMode }> {
+  const { data: jobId, error } = await supabase.rpc('enqueue_worker_job', {
+    p_queue: 'product_sync',
+    p_payload: { shop_id: shopId, user_id: userId, mode },
+    p_priority: 100,
+    p_concurrency_key: `products:shop:${shopId}`,
+    p_dedupe_key: `product_sync:${shopId}:${userId}`,
+    p_run_at: new Date().toISOString(),
+    p_max_attempts: 3,
+  });
+  if (error) throw new Error(`Enqueue product sync failed: ${error.message}`);
 
-  } catch (error) {
-    const errorMessage = (error as Error).message;
-    console.error('[SYNC] Error:', errorMessage);
-    return { success: false, synced_count: 0, error: errorMessage, api_responses: apiResponses };
-  }
-}
-
-async function updateSyncStatus(
-  supabase: ReturnType<typeof createClient>,
-  shopId: number,
-  userId: string
-) {
-  await supabase.from('apishopee_sync_status').upsert({
-    shop_id: shopId,
-    user_id: userId,
-    products_synced_at: new Date().toISOString(),
-    updated_at: new Date().toISOString(),
-  }, { onConflict: 'shop_id,user_id' });
+  return { success: true, queued: true, job_id: jobId as string, mode };
 }
 
 /**
@@ -870,6 +142,10 @@ async function createHistoryLogs(
     user_id: string;
     item_id: number;
     item_name: string;
+    model_id?: number;
+    model_name?: string;
+    source?: 'api_sync' | 'manual';
+    actor_user_id?: string;
     old_data: Record<string, unknown>;
     new_data: Record<string, unknown>;
     shopee_timestamp?: number;
@@ -895,477 +171,621 @@ async function createHistoryLogs(
   }
 }
 
-/**
- * Log sản phẩm mới được tạo
- */
-async function logProductCreated(
+// ==================== MANUAL EDIT FUNCTIONS ====================
+
+interface ManualEditContext {
+  supabase: ReturnType<typeof createClient>;
+  credentials: PartnerCredentials;
+  shopId: number;
+  token: ShopeeToken;
+  /** user_id ghi vào history log (owner của dữ liệu sản phẩm) */
+  userId: string;
+  /** User thực hiện thao tác (từ JWT) */
+  actorUserId: string;
+  actorEmail?: string;
+  triggeredBy?: string;
+  requestId?: string;
+}
+
+/** update_price / update_stock / unlist_item trả về success_list + failure_list */
+interface ShopeeEditResponse {
+  error?: string;
+  message?: string;
+  response?: {
+    success_list?: Array<{ item_id?: number; model_id?: number; original_price?: number; stock?: number; unlist?: boolean }>;
+    failure_list?: Array<{ item_id?: number; model_id?: number; failed_reason?: string }>;
+  };
+}
+
+interface EditFailure {
+  item_id: number;
+  model_id?: number;
+  reason: string;
+}
+
+interface ManualEditResult {
+  success: boolean;
+  updated_count: number;
+  failures: EditFailure[];
+  history_logs_created: number;
+  error?: string;
+}
+
+interface EditTarget {
+  item_id: number;
+  item_name: string;
+  current_price: number;
+  original_price: number;
+  total_available_stock: number;
+  item_status: string;
+  models: Array<{ model_id: number; model_name: string; current_price: number; original_price: number; total_available_stock: number }>;
+}
+
+type EditValues = { current_price?: number; original_price?: number; total_available_stock?: number; item_status?: string };
+
+/** Thay đổi của 1 dòng: model_id = 0 là sản phẩm không có phân loại */
+interface EditChange {
+  model_id: number;
+  old_data: EditValues;
+  new_data: EditValues;
+}
+
+async function loadEditTarget(
   supabase: ReturnType<typeof createClient>,
   shopId: number,
-  userId: string,
-  product: { item_id: number; item_name: string; current_price: number; total_available_stock: number; update_time?: number },
-  rawResponse?: unknown
-): Promise<void> {
-  try {
-    await supabase.functions.invoke('apishopee-product-webhook', {
-      body: {
-        action: 'log-product-created',
-        shop_id: shopId,
-        user_id: userId,
-        item_id: product.item_id,
-        item_name: product.item_name,
-        current_price: product.current_price,
-        total_stock: product.total_available_stock,
-        shopee_timestamp: product.update_time,
-        raw_response: rawResponse,
-      },
-    });
-  } catch (err) {
-    console.error('[HISTORY] Error logging product created:', err);
-  }
+  itemId: number
+): Promise<EditTarget | null> {
+  const { data: product } = await supabase
+    .from('apishopee_products')
+    .select('item_id, item_name, current_price, original_price, total_available_stock, item_status')
+    .eq('shop_id', shopId)
+    .eq('item_id', itemId)
+    .limit(1)
+    .maybeSingle();
+
+  if (!product) return null;
+
+  const { data: models } = await supabase
+    .from('apishopee_product_models')
+    .select('model_id, model_name, current_price, original_price, total_available_stock')
+    .eq('shop_id', shopId)
+    .eq('item_id', itemId);
+
+  return { ...(product as Omit<EditTarget, 'models'>), models: (models || []) as EditTarget['models'] };
 }
 
 /**
- * Log sản phẩm bị xóa
+ * Tính lại giá / tồn kho của sản phẩm từ models (cùng quy tắc với sync)
  */
-async function logProductDeleted(
+async function refreshProductAggregates(
   supabase: ReturnType<typeof createClient>,
   shopId: number,
-  userId: string,
-  itemId: number,
-  itemName?: string
+  itemId: number
 ): Promise<void> {
-  try {
-    await supabase.functions.invoke('apishopee-product-webhook', {
-      body: {
-        action: 'log-product-deleted',
-        shop_id: shopId,
-        user_id: userId,
-        item_id: itemId,
-        item_name: itemName,
-      },
-    });
-  } catch (err) {
-    console.error('[HISTORY] Error logging product deleted:', err);
+  const { data: models } = await supabase
+    .from('apishopee_product_models')
+    .select('current_price, original_price, total_available_stock')
+    .eq('shop_id', shopId)
+    .eq('item_id', itemId);
+
+  if (!models || models.length === 0) return;
+
+  const prices = models.map(m => m.current_price as number).filter(p => p > 0);
+  const originalPrices = models.map(m => m.original_price as number).filter(p => p > 0);
+  const maxPrice = prices.length > 0 ? Math.max(...prices) : 0;
+
+  await supabase
+    .from('apishopee_products')
+    .update({
+      current_price: prices.length > 0 ? Math.min(...prices) : 0,
+      original_price: originalPrices.length > 0 ? Math.max(...originalPrices) : maxPrice,
+      total_available_stock: models.reduce((sum, m) => sum + ((m.total_available_stock as number) || 0), 0),
+      synced_at: new Date().toISOString(),
+    })
+    .eq('shop_id', shopId)
+    .eq('item_id', itemId);
+}
+
+/**
+ * Ghi các thay đổi đã thành công trên Shopee vào DB + history log (source = manual)
+ */
+async function applyEditChanges(
+  ctx: ManualEditContext,
+  target: EditTarget,
+  changes: EditChange[]
+): Promise<number> {
+  if (changes.length === 0) return 0;
+  const { supabase, shopId } = ctx;
+
+  for (const change of changes) {
+    const query = change.model_id
+      ? supabase.from('apishopee_product_models').update({ ...change.new_data, synced_at: new Date().toISOString() }).eq('model_id', change.model_id)
+      : supabase.from('apishopee_products').update({ ...change.new_data, synced_at: new Date().toISOString() });
+    const { error } = await query.eq('shop_id', shopId).eq('item_id', target.item_id);
+    if (error) console.error('[EDIT] DB update error:', error.message);
+  }
+
+  if (changes.some(c => c.model_id)) {
+    await refreshProductAggregates(supabase, shopId, target.item_id);
+  }
+
+  const historyResult = await createHistoryLogs(supabase, changes.map(change => ({
+    shop_id: shopId,
+    user_id: ctx.userId,
+    item_id: target.item_id,
+    item_name: target.item_name,
+    model_id: change.model_id || undefined,
+    model_name: target.models.find(m => m.model_id === change.model_id)?.model_name,
+    source: 'manual' as const,
+    actor_user_id: ctx.actorUserId,
+    old_data: change.old_data,
+    new_data: change.new_data,
+  })));
+  if (historyResult.errors.length > 0) {
+    console.warn('[EDIT] History logging errors:', historyResult.errors);
   }
+  return historyResult.logs_created;
 }
 
 /**
- * Incremental sync - chỉ update những products thay đổi
- * Không xóa toàn bộ, chỉ UPDATE/INSERT/DELETE theo item_id
- * Tích hợp History Logging để theo dõi thay đổi
+ * Kiểm tra body của update-price / update-stock / unlist-item, trả về lỗi hoặc null
  */
-async function incrementalSyncProducts(
-  supabase: ReturnType<typeof createClient>,
-  credentials: PartnerCredentials,
-  shopId: number,
-  userId: string,
-  token: { access_token: string; refresh_token: string },
-  changedItemIds: number[],
-  callerUserId?: string,
-  callerUserEmail?: string,
-  triggeredBy?: string,
-  requestId?: string
-): Promise<{ success: boolean; updated_count: number; inserted_count: number; deleted_count: number; history_logs_created?: number; error?: string }> {
-  try {
-    console.log(`[INCREMENTAL] Starting incremental sync for ${changedItemIds.length} changed items`);
+function validateEditRequest(
+  action: string,
+  body: { item_id?: number; price_list?: Array<{ original_price?: number }>; stock_list?: Array<{ stock?: number }>; unlist?: unknown }
+): string | null {
+  if (!body.item_id) return 'item_id is required';
+
+  if (action === 'update-price') {
+    const list = body.price_list;
+    if (!Array.isArray(list) || list.length === 0 || list.some(p => !(Number(p.original_price) > 0))) {
+      return 'price_list with original_price > 0 is required';
+    }
+  }
+  if (action === 'update-stock') {
+    const list = body.stock_list;
+    if (!Array.isArray(list) || list.length === 0 || list.some(s => !Number.isInteger(s.stock) || (s.stock as number) < 0)) {
+      return 'stock_list with integer stock >= 0 is required';
+    }
+  }
+  if (action === 'unlist-item' && typeof body.unlist !== 'boolean') {
+    return 'unlist (boolean) is required';
+  }
+  return null;
+}
 
-    // Biến để track history logs
-    let historyLogsCreated = 0;
+function failuresFrom(itemId: number, result: ShopeeEditResponse): EditFailure[] {
+  return (result.response?.failure_list || []).map(f => ({
+    item_id: f.item_id || itemId,
+    model_id: f.model_id || undefined,
+    reason: f.failed_reason || 'Unknown error',
+  }));
+}
 
-    // ========== STEP 1: Lấy tất cả item_ids hiện tại từ Shopee ==========
-    const statuses = ['NORMAL', 'UNLIST', 'BANNED'];
-    const allShopeeItemIds: number[] = [];
+function oldValuesOf(target: EditTarget, modelId: number): EditValues | null {
+  if (!modelId) return target;
+  return target.models.find(m => m.model_id === modelId) || null;
+}
 
-    for (const status of statuses) {
-      let offset = 0;
-      let hasMore = true;
+/**
+ * Sửa giá gốc (original_price) của sản phẩm / phân loại.
+ * Giá bán chỉ đổi theo khi không có khuyến mãi (current_price = original_price).
+ */
+async function updateItemPrice(
+  ctx: ManualEditContext,
+  itemId: number,
+  priceList: Array<{ model_id?: number; original_price: number }>
+): Promise<ManualEditResult> {
+  const target = await loadEditTarget(ctx.supabase, ctx.shopId, itemId);
+  if (!target) return { success: false, updated_count: 0, failures: [], history_logs_created: 0, error: 'Product not found' };
+
+  const result = await callShopeeAPI(
+    ctx.supabase, ctx.credentials, PRODUCT_PATHS.UPDATE_PRICE, 'POST', ctx.shopId, ctx.token,
+    { item_id: itemId, price_list: priceList.map(p => ({ model_id: p.model_id || 0, original_price: p.original_price })) },
+    undefined, ctx.actorUserId, ctx.actorEmail, ctx.triggeredBy, ctx.requestId
+  ) as ShopeeEditResponse;
+
+  if (result.error) {
+    return { success: false, updated_count: 0, failures: [], history_logs_created: 0, error: result.message || result.error };
+  }
 
-      while (hasMore) {
-        const result = await callShopeeAPI(
-          supabase, credentials, PRODUCT_PATHS.GET_ITEM_LIST, 'GET',
-          shopId, token, undefined,
-          { offset, page_size: 100, item_status: status },
-          callerUserId, callerUserEmail, triggeredBy, requestId
-        ) as {
-          error?: string;
-          response?: {
-            item?: ShopeeItemBasic[];
-            has_next_page?: boolean;
-            next_offset?: number;
-          }
-        };
+  const changes: EditChange[] = [];
+  for (const entry of result.response?.success_list || []) {
+    const modelId = entry.model_id || 0;
+    const old = oldValuesOf(target, modelId);
+    const newPrice = entry.original_price ?? priceList.find(p => (p.model_id || 0) === modelId)?.original_price;
+    if (!old || newPrice === undefined) continue;
+
+    const hasDiscount = (old.current_price || 0) < (old.original_price || 0);
+    changes.push({
+      model_id: modelId,
+      old_data: { current_price: old.current_price, original_price: old.original_price },
+      new_data: { current_price: hasDiscount ? old.current_price : newPrice, original_price: newPrice },
+    });
+  }
 
-        if (result.error) break;
+  const logsCreated = await applyEditChanges(ctx, target, changes);
+  const failures = failuresFrom(itemId, result);
+  return { success: failures.length === 0, updated_count: changes.length, failures, history_logs_created: logsCreated };
+}
 
-        const items = result?.response?.item || [];
-        allShopeeItemIds.push(...items.map(i => i.item_id));
+/**
+ * Sửa tồn kho người bán (seller_stock) của sản phẩm / phân loại
+ */
+async function updateItemStock(
+  ctx: ManualEditContext,
+  itemId: number,
+  stockList: Array<{ model_id?: number; stock: number }>
+): Promise<ManualEditResult> {
+  const target = await loadEditTarget(ctx.supabase, ctx.shopId, itemId);
+  if (!target) return { success: false, updated_count: 0, failures: [], history_logs_created: 0, error: 'Product not found' };
+
+  const result = await callShopeeAPI(
+    ctx.supabase, ctx.credentials, PRODUCT_PATHS.UPDATE_STOCK, 'POST', ctx.shopId, ctx.token,
+    { item_id: itemId, stock_list: stockList.map(s => ({ model_id: s.model_id || 0, seller_stock: [{ stock: s.stock }] })) },
+    undefined, ctx.actorUserId, ctx.actorEmail, ctx.triggeredBy, ctx.requestId
+  ) as ShopeeEditResponse;
+
+  if (result.error) {
+    return { success: false, updated_count: 0, failures: [], history_logs_created: 0, error: result.message || result.error };
+  }
 
-        hasMore = result?.response?.has_next_page || false;
-        offset = result?.response?.next_offset || offset + 100;
+  const changes: EditChange[] = [];
+  for (const entry of result.response?.success_list || []) {
+    const modelId = entry.model_id || 0;
+    const old = oldValuesOf(target, modelId);
+    const newStock = entry.stock ?? stockList.find(s => (s.model_id || 0) === modelId)?.stock;
+    if (!old || newStock === undefined) continue;
+
+    changes.push({
+      model_id: modelId,
+      old_data: { total_available_stock: old.total_available_stock },
+      new_data: { total_available_stock: newStock },
+    });
+  }
 
-        if (hasMore) await delay(DELAY_BETWEEN_CALLS_MS);
-      }
-    }
+  const logsCreated = await applyEditChanges(ctx, target, changes);
+  const failures = failuresFrom(itemId, result);
+  return { success: failures.length === 0, updated_count: changes.length, failures, history_logs_created: logsCreated };
+}
 
-    // ========== STEP 2: Lấy item_ids hiện có trong DB (với thông tin để so sánh và log) ==========
-    const { data: dbProducts } = await supabase
-      .from('apishopee_products')
-      .select('item_id, item_name, current_price, original_price, total_available_stock, item_status')
-      .eq('shop_id', shopId)
-      .eq('user_id', userId);
+/**
+ * Ẩn (unlist = true) hoặc hiển thị lại sản phẩm
+ */
+async function unlistItem(
+  ctx: ManualEditContext,
+  itemId: number,
+  unlist: boolean
+): Promise<ManualEditResult> {
+  const target = await loadEditTarget(ctx.supabase, ctx.shopId, itemId);
+  if (!target) return { success: false, updated_count: 0, failures: [], history_logs_created: 0, error: 'Product not found' };
+
+  const result = await callShopeeAPI(
+    ctx.supabase, ctx.credentials, PRODUCT_PATHS.UNLIST_ITEM, 'POST', ctx.shopId, ctx.token,
+    { item_list: [{ item_id: itemId, unlist }] },
+    undefined, ctx.actorUserId, ctx.actorEmail, ctx.triggeredBy, ctx.requestId
+  ) as ShopeeEditResponse;
+
+  if (result.error) {
+    return { success: false, updated_count: 0, failures: [], history_logs_created: 0, error: result.message || result.error };
+  }
 
-    const dbProductsMap = new Map((dbProducts || []).map(p => [p.item_id, p]));
-    const dbItemIds = new Set((dbProducts || []).map(p => p.item_id));
-    const shopeeItemIds = new Set(allShopeeItemIds);
+  const succeeded = (result.response?.success_list || []).some(entry => entry.item_id === itemId);
+  const changes: EditChange[] = succeeded
+    ? [{ model_id: 0, old_data: { item_status: target.item_status }, new_data: { item_status: unlist ? 'UNLIST' : 'NORMAL' } }]
+    : [];
 
-    // ========== STEP 3: Xác định items cần DELETE (có trong DB nhưng không còn trên Shopee) ==========
-    const itemsToDelete = [...dbItemIds].filter(id => !shopeeItemIds.has(id));
-    let deletedCount = 0;
+  const logsCreated = await applyEditChanges(ctx, target, changes);
+  const failures = failuresFrom(itemId, result);
+  return { success: succeeded && failures.length === 0, updated_count: changes.length, failures, history_logs_created: logsCreated };
+}
 
-    if (itemsToDelete.length > 0) {
-      console.log(`[INCREMENTAL] Deleting ${itemsToDelete.length} removed items`);
 
-      // Log sản phẩm bị xóa vào history
-      for (const itemId of itemsToDelete) {
-        const oldProduct = dbProductsMap.get(itemId);
-        await logProductDeleted(supabase, shopId, userId, itemId, oldProduct?.item_name);
-        historyLogsCreated++;
-      }
+// ==================== CONTENT FUNCTIONS ====================
 
-      // Xóa models và tier variations trước
-      await supabase.from('apishopee_product_models')
-        .delete()
-        .eq('shop_id', shopId)
-        .eq('user_id', userId)
-        .in('item_id', itemsToDelete);
-
-      await supabase.from('apishopee_product_tier_variations')
-        .delete()
-        .eq('shop_id', shopId)
-        .eq('user_id', userId)
-        .in('item_id', itemsToDelete);
-
-      // Xóa products
-      const { count } = await supabase.from('apishopee_products')
-        .delete()
-        .eq('shop_id', shopId)
-        .eq('user_id', userId)
-        .in('item_id', itemsToDelete);
-
-      deletedCount = count || itemsToDelete.length;
-    }
+interface ContentMeta {
+  category_id: number;
+  attributes: CategoryAttribute[];
+  brands: ProductBrand[];
+  limits: ProductContentLimits;
+}
 
-    // ========== STEP 4: Xác định items cần INSERT (mới trên Shopee) ==========
-    const itemsToInsert = [...shopeeItemIds].filter(id => !dbItemIds.has(id));
+interface ContentPushResult {
+  success: boolean;
+  changed_fields: ProductContentField[];
+  validation_errors?: ContentValidationError[];
+  conflicts?: ProductContentField[];
+  history_logs_created: number;
+  error?: string;
+}
 
-    // ========== STEP 5: Tổng hợp items cần fetch chi tiết (changed + new) ==========
-    const itemsToFetch = [...new Set([...changedItemIds, ...itemsToInsert])];
+/** Nội dung hiện tại trên Shopee + category_id */
+async function fetchItemContent(
+  ctx: ManualEditContext,
+  itemId: number
+): Promise<{ content: ProductContent; category_id: number; item_name: string } | null> {
+  const result = await callShopeeAPI(
+    ctx.supabase, ctx.credentials, PRODUCT_PATHS.GET_ITEM_BASE_INFO, 'GET', ctx.shopId, ctx.token,
+    undefined, { item_id_list: [itemId] },
+    ctx.actorUserId, ctx.actorEmail, ctx.triggeredBy, ctx.requestId
+  ) as { error?: string; message?: string; response?: { item_list?: Array<Record<string, unknown>> } };
+
+  if (result.error) throw new Error(result.message || result.error);
+  const item = result.response?.item_list?.[0];
+  if (!item) return null;
+  return {
+    content: contentFromItem(item as Parameters<typeof contentFromItem>[0]),
+    category_id: item.category_id as number,
+    item_name: item.item_name as string,
+  };
+}
 
-    if (itemsToFetch.length === 0) {
-      console.log('[INCREMENTAL] No items to update');
-      await updateSyncStatus(supabase, shopId, userId);
-      return { success: true, updated_count: 0, inserted_count: 0, deleted_count: deletedCount };
-    }
+/**
+ * Yêu cầu thuộc tính, thương hiệu và giới hạn của ngành hàng. Lỗi get_item_limit không chặn
+ * (dùng giới hạn mặc định); lỗi thuộc tính / thương hiệu thì throw vì không kiểm tra được
+ */
+async function loadContentMeta(ctx: ManualEditContext, categoryId: number): Promise<ContentMeta> {
+  const call = (path: string, params: Record<string, QueryValue>) => callShopeeAPI(
+    ctx.supabase, ctx.credentials, path, 'GET', ctx.shopId, ctx.token, undefined, params,
+    ctx.actorUserId, ctx.actorEmail, ctx.triggeredBy, ctx.requestId
+  ) as Promise<{ error?: string; message?: string; response?: Record<string, unknown> }>;
+
+  const attributeResult = await call(PRODUCT_PATHS.GET_ATTRIBUTE_TREE, { category_id_list: [categoryId], language: 'vi' });
+  if (attributeResult.error) throw new Error(`get_attribute_tree: ${attributeResult.message || attributeResult.error}`);
+  const trees = (attributeResult.response?.list || []) as Array<{ category_id: number; attribute_tree?: Parameters<typeof normalizeAttributeTree>[0] }>;
+  const attributes = normalizeAttributeTree(trees.find(t => t.category_id === categoryId)?.attribute_tree || []);
+
+  const brands: ProductBrand[] = [];
+  let brandMandatory = false;
+  for (let page = 0, offset = 0; page < BRAND_MAX_PAGES; page++) {
+    const brandResult = await call(PRODUCT_PATHS.GET_BRAND_LIST, {
+      category_id: categoryId, status: 1, offset, page_size: BRAND_PAGE_SIZE, language: 'vi',
+    });
+    if (brandResult.error) throw new Error(`get_brand_list: ${brandResult.message || brandResult.error}`);
+    const response = brandResult.response as {
+      brand_list?: Array<{ brand_id: number; original_brand_name: string }>;
+      has_next_page?: boolean;
+      next_offset?: number;
+      is_mandatory?: boolean;
+    } | undefined;
+    brandMandatory = !!response?.is_mandatory;
+    brands.push(...(response?.brand_list || []).map(b => ({ brand_id: b.brand_id, original_brand_name: b.original_brand_name })));
+    if (!response?.has_next_page) break;
+    offset = response.next_offset || offset + BRAND_PAGE_SIZE;
+  }
 
-    console.log(`[INCREMENTAL] Fetching details for ${itemsToFetch.length} items (${changedItemIds.length} changed, ${itemsToInsert.length} new)`);
+  const limitResult = await call(PRODUCT_PATHS.GET_ITEM_LIMIT, { category_id: categoryId });
+  if (limitResult.error) console.warn('[CONTENT] get_item_limit failed, using defaults:', limitResult.message || limitResult.error);
 
-    // ========== STEP 6: Lấy chi tiết products ==========
-    const allProducts: ShopeeProduct[] = [];
+  return {
+    category_id: categoryId,
+    attributes,
+    brands,
+    limits: limitsFromItemLimit(limitResult.error ? undefined : limitResult.response, brandMandatory),
+  };
+}
 
-    for (let i = 0; i < itemsToFetch.length; i += BATCH_SIZE_ITEM_INFO) {
-      const batchIds = itemsToFetch.slice(i, i + BATCH_SIZE_ITEM_INFO);
+/** Nội dung hiện tại + yêu cầu của ngành hàng để mở trình sửa nội dung */
+async function getItemContent(ctx: ManualEditContext, itemId: number) {
+  const current = await fetchItemContent(ctx, itemId);
+  if (!current) return { success: false, error: 'Product not found on Shopee' };
 
-      const result = await callShopeeAPI(
-        supabase, credentials, PRODUCT_PATHS.GET_ITEM_BASE_INFO, 'GET',
-        shopId, token, undefined,
-        { item_id_list: batchIds },
-        callerUserId, callerUserEmail, triggeredBy, requestId
-      ) as { error?: string; response?: { item_list?: ShopeeProduct[] } };
+  const meta = await loadContentMeta(ctx, current.category_id);
+  return { success: true, content: current.content, ...meta };
+}
 
-      if (!result.error) {
-        allProducts.push(...(result?.response?.item_list || []));
-      }
+/**
+ * Upload ảnh lên media_space (public API, multipart) - trả về image_id dùng cho update_item
+ */
+async function uploadImage(ctx: ManualEditContext, imageBase64: string, fileName: string, contentType: string) {
+  const bytes = Uint8Array.from(atob(imageBase64), c => c.charCodeAt(0));
+  if (bytes.length === 0 || bytes.length > MAX_IMAGE_BYTES) {
+    return { success: false, error: `Ảnh phải nhỏ hơn ${MAX_IMAGE_BYTES / 1024 / 1024}MB` };
+  }
 
-      if (i + BATCH_SIZE_ITEM_INFO < itemsToFetch.length) {
-        await delay(DELAY_BETWEEN_CALLS_MS);
-      }
-    }
+  const form = new FormData();
+  form.append('image', new Blob([bytes], { type: contentType }), fileName);
+
+  const result = await createEdgeShopeeClient(ctx.supabase, ctx.credentials, {
+    edgeFunction: 'apishopee-product',
+    apiCategory: 'product',
+    userId: ctx.actorUserId,
+    userEmail: ctx.actorEmail,
+    triggeredBy: ctx.triggeredBy as TriggeredBy | undefined,
+    requestId: ctx.requestId,
+    timeoutMs: REQUEST_TIMEOUT_MS,
+  }).call(PRODUCT_PATHS.UPLOAD_IMAGE, { method: 'POST', level: 'public', formData: form }) as {
+    error?: string;
+    message?: string;
+    response?: {
+      image_info?: { image_id: string; image_url_list?: Array<{ image_url: string }> };
+      image_info_list?: Array<{ image_info?: { image_id: string; image_url_list?: Array<{ image_url: string }> } }>;
+    };
+  };
 
-    // ========== STEP 7: Lấy models cho products có has_model = true ==========
-    const productsWithModels = allProducts.filter(p => p.has_model);
-    const productModelsMap: Map<number, {
-      models: ShopeeModel[];
-      tierVariations: TierVariation[];
-      totalStock: number;
-      minPrice: number;
-      maxPrice: number;
-      minOriginalPrice: number;
-      maxOriginalPrice: number;
-    }> = new Map();
-
-    // Fetch models SONG SONG theo batch
-    for (let batchStart = 0; batchStart < productsWithModels.length; batchStart += MODEL_PARALLEL_BATCH) {
-      const batch = productsWithModels.slice(batchStart, batchStart + MODEL_PARALLEL_BATCH);
-
-      const batchResults = await Promise.all(
-        batch.map(async (product) => {
-          try {
-            const modelResult = await callShopeeAPI(
-              supabase, credentials, PRODUCT_PATHS.GET_MODEL_LIST, 'GET',
-              shopId, token, undefined,
-              { item_id: product.item_id },
-              callerUserId, callerUserEmail, triggeredBy, requestId
-            ) as { error?: string; response?: ModelResponse };
-            return { product, modelResult };
-          } catch (err) {
-            console.error(`[INCREMENTAL] Error fetching models for item ${product.item_id}:`, err);
-            return { product, modelResult: null };
-          }
-        })
-      );
-
-      for (const { product, modelResult } of batchResults) {
-        if (!modelResult || modelResult.error || !modelResult?.response?.model) continue;
-
-        const modelResponse = modelResult.response;
-        let totalStock = 0;
-        let minPrice = Infinity;
-        let maxPrice = 0;
-        let minOriginalPrice = Infinity;
-        let maxOriginalPrice = 0;
-
-        for (const model of modelResponse.model) {
-          const stock = getModelStock(model);
-          const price = getModelPrice(model);
-
-          totalStock += stock;
-          if (price.current > 0) {
-            minPrice = Math.min(minPrice, price.current);
-            maxPrice = Math.max(maxPrice, price.current);
-          }
-          if (price.original > 0) {
-            minOriginalPrice = Math.min(minOriginalPrice, price.original);
-            maxOriginalPrice = Math.max(maxOriginalPrice, price.original);
-          }
-        }
+  if (result.error) return { success: false, error: result.message || result.error };
+  const info = result.response?.image_info ?? result.response?.image_info_list?.[0]?.image_info;
+  if (!info?.image_id) return { success: false, error: 'Shopee did not return an image_id' };
+  return { success: true, image_id: info.image_id, image_url: info.image_url_list?.[0]?.image_url || '' };
+}
 
-        productModelsMap.set(product.item_id, {
-          models: modelResponse.model,
-          tierVariations: modelResponse.tier_variation || [],
-          totalStock,
-          minPrice: minPrice === Infinity ? 0 : minPrice,
-          maxPrice,
-          minOriginalPrice: minOriginalPrice === Infinity ? 0 : minOriginalPrice,
-          maxOriginalPrice,
-        });
-      }
+/**
+ * Đẩy bản nháp nội dung lên Shopee: kiểm tra theo ngành hàng, chặn khi field đã bị sửa trên
+ * Shopee từ lúc tạo nháp, gửi update_item với các field đã đổi, cập nhật DB + history (content_change)
+ */
+async function pushContentDraft(ctx: ManualEditContext, draftId: string): Promise<ContentPushResult> {
+  const { supabase, shopId } = ctx;
+  const fail = (error: string, extra: Partial<ContentPushResult> = {}): ContentPushResult =>
+    ({ success: false, changed_fields: [], history_logs_created: 0, error, ...extra });
+
+  const { data: draft } = await supabase
+    .from('apishopee_product_content_drafts')
+    .select('id, item_id, base_content, content, status')
+    .eq('id', draftId)
+    .eq('shop_id', shopId)
+    .maybeSingle();
+  if (!draft) return fail('Draft not found');
+  if (draft.status === 'pushed') return fail('Draft was already pushed');
+
+  const itemId = draft.item_id as number;
+  const base = draft.base_content as ProductContent;
+  const content = draft.content as ProductContent;
+  const updateDraft = (fields: Record<string, unknown>) => supabase
+    .from('apishopee_product_content_drafts')
+    .update({ ...fields, updated_by: ctx.actorUserId })
+    .eq('id', draftId);
+
+  const current = await fetchItemContent(ctx, itemId);
+  if (!current) return fail('Product not found on Shopee');
+
+  const meta = await loadContentMeta(ctx, current.category_id);
+  const validationErrors = validateContent(content, meta.attributes, meta.limits);
+  await updateDraft({ validation_errors: validationErrors, category_id: current.category_id });
+  if (validationErrors.length > 0) {
+    return fail('Nội dung chưa hợp lệ', { validation_errors: validationErrors });
+  }
 
-      if (batchStart + MODEL_PARALLEL_BATCH < productsWithModels.length) {
-        await delay(DELAY_BETWEEN_CALLS_MS);
-      }
-    }
+  const conflicts = conflictingFields(base, current.content, diffContent(base, content));
+  if (conflicts.length > 0) {
+    const error = `Nội dung trên Shopee đã thay đổi từ lúc tạo nháp: ${conflicts.map(f => CONTENT_FIELD_LABELS[f]).join(', ')}`;
+    await updateDraft({ last_error: error });
+    return fail(error, { conflicts });
+  }
 
-    // ========== STEP 8: UPSERT products (insert or update) + HISTORY LOGGING ==========
-    let insertedCount = 0;
-    let updatedCount = 0;
-    const diffsToLog: Array<{
-      shop_id: number;
-      user_id: string;
-      item_id: number;
-      item_name: string;
-      old_data: Record<string, unknown>;
-      new_data: Record<string, unknown>;
-      shopee_timestamp?: number;
-      raw_response?: unknown;
-    }> = [];
-
-    for (const p of allProducts) {
-      const modelInfo = productModelsMap.get(p.item_id);
-
-      let currentPrice = p.price_info?.[0]?.current_price || 0;
-      let originalPrice = p.price_info?.[0]?.original_price || 0;
-      let totalAvailableStock = p.stock_info_v2?.summary_info?.total_available_stock || 0;
-      const totalReservedStock = p.stock_info_v2?.summary_info?.total_reserved_stock || 0;
-
-      if (modelInfo && modelInfo.models.length > 0) {
-        currentPrice = modelInfo.minPrice;
-        originalPrice = modelInfo.maxOriginalPrice > 0 ? modelInfo.maxOriginalPrice : modelInfo.maxPrice;
-        totalAvailableStock = modelInfo.totalStock;
-      }
+  const changed = diffContent(current.content, content);
+  if (changed.length > 0) {
+    const result = await callShopeeAPI(
+      supabase, ctx.credentials, PRODUCT_PATHS.UPDATE_ITEM, 'POST', shopId, ctx.token,
+      buildUpdateItemBody(itemId, content, changed), undefined,
+      ctx.actorUserId, ctx.actorEmail, ctx.triggeredBy, ctx.requestId
+    ) as { error?: string; message?: string; response?: unknown };
+
+    if (result.error) {
+      const error = result.message || result.error;
+      await updateDraft({ status: 'failed', last_error: error });
+      return fail(error, { changed_fields: changed });
+    }
 
-      const productData = {
-        shop_id: shopId,
-        user_id: userId,
-        item_id: p.item_id,
-        item_name: p.item_name,
-        item_sku: p.item_sku || '',
-        item_status: p.item_status,
-        category_id: p.category_id,
-        image_url_list: p.image?.image_url_list || [],
-        image_id_list: p.image?.image_id_list || [],
-        current_price: currentPrice,
-        original_price: originalPrice,
-        currency: p.price_info?.[0]?.currency || 'VND',
-        total_available_stock: totalAvailableStock,
-        total_reserved_stock: totalReservedStock,
-        brand_id: p.brand?.brand_id || null,
-        brand_name: p.brand?.original_brand_name || null,
-        has_model: p.has_model,
-        create_time: p.create_time,
-        update_time: p.update_time,
-        raw_response: p,
+    const { error: dbError } = await supabase
+      .from('apishopee_products')
+      .update({
+        item_name: content.item_name.trim(),
+        brand_id: content.brand?.brand_id || null,
+        brand_name: content.brand?.original_brand_name || null,
+        image_id_list: content.images.map(i => i.image_id),
+        image_url_list: content.images.map(i => i.image_url),
         synced_at: new Date().toISOString(),
-      };
-
-      const isNew = itemsToInsert.includes(p.item_id);
-      const oldProduct = dbProductsMap.get(p.item_id);
-
-      // So sánh và tạo diff cho history logging (chỉ cho sản phẩm cập nhật)
-      if (!isNew && oldProduct) {
-        const hasChanges =
-          oldProduct.current_price !== currentPrice ||
-          oldProduct.total_available_stock !== totalAvailableStock ||
-          oldProduct.item_status !== p.item_status ||
-          oldProduct.item_name !== p.item_name;
-
-        if (hasChanges) {
-          diffsToLog.push({
-            shop_id: shopId,
-            user_id: userId,
-            item_id: p.item_id,
-            item_name: p.item_name,
-            old_data: {
-              current_price: oldProduct.current_price,
-              original_price: oldProduct.original_price,
-              total_available_stock: oldProduct.total_available_stock,
-              item_status: oldProduct.item_status,
-              item_name: oldProduct.item_name,
-            },
-            new_data: {
-              current_price: currentPrice,
-              original_price: originalPrice,
-              total_available_stock: totalAvailableStock,
-              item_status: p.item_status,
-              item_name: p.item_name,
-            },
-            shopee_timestamp: p.update_time,
-            raw_response: p,
-          });
-        }
-      }
+      })
+      .eq('shop_id', shopId)
+      .eq('item_id', itemId);
+    if (dbError) console.error('[CONTENT] DB update error:', dbError.message);
+  }
 
-      // Upsert product
-      await supabase.from('apishopee_products').upsert(productData, {
-        onConflict: 'shop_id,user_id,item_id',
-      });
+  await updateDraft({
+    status: 'pushed',
+    last_error: null,
+    pushed_by: ctx.actorUserId,
+    pushed_at: new Date().toISOString(),
+  });
 
-      if (isNew) {
-        insertedCount++;
-        // Log sản phẩm mới
-        await logProductCreated(supabase, shopId, userId, {
-          item_id: p.item_id,
-          item_name: p.item_name,
-          current_price: currentPrice,
-          total_available_stock: totalAvailableStock,
-          update_time: p.update_time,
-        }, p);
-        historyLogsCreated++;
-      } else {
-        updatedCount++;
-      }
+  let logsCreated = 0;
+  if (changed.length > 0) {
+    const { data, error } = await supabase.functions.invoke('apishopee-product-webhook', {
+      body: {
+        action: 'log-content-change',
+        shop_id: shopId,
+        user_id: ctx.userId,
+        item_id: itemId,
+        item_name: content.item_name.trim(),
+        actor_user_id: ctx.actorUserId,
+        fields: changed,
+        old_value: contentChangeValues(current.content, changed),
+        new_value: contentChangeValues(content, changed),
+      },
+    });
+    if (error) console.warn('[CONTENT] History logging error:', error.message);
+    logsCreated = data?.success ? 1 : 0;
+  }
 
-      // Update models nếu có
-      if (modelInfo) {
-        // Xóa models cũ
-        await supabase.from('apishopee_product_models')
-          .delete()
-          .eq('shop_id', shopId)
-          .eq('user_id', userId)
-          .eq('item_id', p.item_id);
-
-        await supabase.from('apishopee_product_tier_variations')
-          .delete()
-          .eq('shop_id', shopId)
-          .eq('user_id', userId)
-          .eq('item_id', p.item_id);
-
-        // Insert tier variations mới
-        if (modelInfo.tierVariations.length > 0) {
-          await supabase.from('apishopee_product_tier_variations').insert({
-            shop_id: shopId,
-            user_id: userId,
-            item_id: p.item_id,
-            tier_variations: modelInfo.tierVariations,
-            synced_at: new Date().toISOString(),
-          });
-        }
+  return { success: true, changed_fields: changed, history_logs_created: logsCreated };
+}
 
-        // Insert models mới
-        if (modelInfo.models.length > 0) {
-          const modelData = modelInfo.models.map(m => {
-            let modelName = m.model_sku || '';
-            if (modelInfo.tierVariations.length > 0 && m.tier_index) {
-              const parts = m.tier_index.map((idx, i) => {
-                const tier = modelInfo.tierVariations[i];
-                return tier?.option_list?.[idx]?.option || '';
-              }).filter(Boolean);
-              if (parts.length > 0) modelName = parts.join(' - ');
-            }
-
-            let imageUrl: string | null = null;
-            if (modelInfo.tierVariations.length > 0 && m.tier_index && m.tier_index.length > 0) {
-              const firstTier = modelInfo.tierVariations[0];
-              const firstIdx = m.tier_index[0];
-              imageUrl = firstTier?.option_list?.[firstIdx]?.image?.image_url || null;
-            }
-
-            const price = getModelPrice(m);
-            const stock = getModelStock(m);
-
-            return {
-              shop_id: shopId,
-              user_id: userId,
-              item_id: p.item_id,
-              model_id: m.model_id,
-              model_sku: m.model_sku || '',
-              model_name: modelName,
-              current_price: price.current,
-              original_price: price.original,
-              total_available_stock: stock,
-              total_reserved_stock: m.stock_info_v2?.summary_info?.total_reserved_stock || 0,
-              tier_index: m.tier_index,
-              image_url: imageUrl,
-              raw_response: m,
-              synced_at: new Date().toISOString(),
-            };
-          });
 
-          await supabase.from('apishopee_product_models').insert(modelData);
-        }
-      }
-    }
+// ==================== VIOLATION CASES ====================
 
-    // ========== STEP 9: Tạo history logs cho các thay đổi đã phát hiện ==========
-    if (diffsToLog.length > 0) {
-      console.log(`[INCREMENTAL] Creating history logs for ${diffsToLog.length} changed products`);
-      const historyResult = await createHistoryLogs(supabase, diffsToLog);
-      historyLogsCreated += historyResult.logs_created;
-      if (historyResult.errors.length > 0) {
-        console.warn('[INCREMENTAL] History logging errors:', historyResult.errors);
-      }
-    }
+interface ViolationCheckResult {
+  success: boolean;
+  outcome?: VerificationOutcome;
+  status?: ViolationStatus;
+  item_status?: string | null;
+  message?: string;
+  error?: string;
+}
 
-    // ========== STEP 10: Update sync status ==========
-    await updateSyncStatus(supabase, shopId, userId);
+const CHECK_MESSAGES: Record<VerificationOutcome, string> = {
+  verified: 'Sản phẩm đã hết vi phạm',
+  pending: 'Shopee đang duyệt lại sản phẩm',
+  failed: 'Sản phẩm vẫn bị vi phạm',
+};
 
-    console.log(`[INCREMENTAL] Completed: ${insertedCount} inserted, ${updatedCount} updated, ${deletedCount} deleted, ${historyLogsCreated} history logs`);
-    return { success: true, updated_count: updatedCount, inserted_count: insertedCount, deleted_count: deletedCount, history_logs_created: historyLogsCreated };
+/**
+ * Kiểm tra lại case vi phạm: hết vi phạm thì chuyển verified; vẫn vi phạm thì case đã
+ * đánh dấu sửa quay về in_progress; đang duyệt thì giữ nguyên trạng thái
+ */
+async function verifyViolationCase(ctx: ManualEditContext, caseId: string): Promise<ViolationCheckResult> {
+  const { supabase, shopId } = ctx;
 
-  } catch (error) {
-    const errorMessage = (error as Error).message;
-    console.error('[INCREMENTAL] Error:', errorMessage);
-    return { success: false, updated_count: 0, inserted_count: 0, deleted_count: 0, history_logs_created: 0, error: errorMessage };
+  const { data: violation } = await supabase
+    .from('apishopee_violation_cases')
+    .select('id, item_id, status, fixed_at')
+    .eq('id', caseId)
+    .eq('shop_id', shopId)
+    .maybeSingle();
+  if (!violation) return { success: false, error: 'Violation case not found' };
+  if (violation.status === 'verified') return { success: false, error: 'Violation case was already verified' };
+
+  const itemId = violation.item_id as number;
+  const result = await callShopeeAPI(
+    supabase, ctx.credentials, PRODUCT_PATHS.GET_ITEM_BASE_INFO, 'GET', shopId, ctx.token,
+    undefined, { item_id_list: [itemId] },
+    ctx.actorUserId, ctx.actorEmail, ctx.triggeredBy, ctx.requestId
+  ) as { error?: string; message?: string; response?: { item_list?: Array<{ item_status?: string }> } };
+  if (result.error) return { success: false, error: result.message || result.error };
+
+  const itemStatus = result.response?.item_list?.[0]?.item_status ?? null;
+  const outcome = verificationOutcome(itemStatus);
+  const currentStatus = violation.status as ViolationStatus;
+  const status: ViolationStatus = outcome === 'verified' ? 'verified'
+    : outcome === 'failed' && currentStatus === 'fixed' ? 'in_progress'
+    : currentStatus;
+  const message = itemStatus ? CHECK_MESSAGES[outcome] : 'Không tìm thấy sản phẩm trên Shopee';
+  const now = new Date().toISOString();
+
+  const { error: updateError } = await supabase
+    .from('apishopee_violation_cases')
+    .update({
+      status,
+      last_check_at: now,
+      last_check_item_status: itemStatus,
+      last_check_message: message,
+      ...(outcome === 'verified' && {
+        verified_at: now,
+        verified_by: ctx.actorUserId,
+        fixed_at: violation.fixed_at || now,
+      }),
+    })
+    .eq('id', caseId);
+  if (updateError) return { success: false, error: updateError.message };
+
+  if (itemStatus) {
+    await supabase
+      .from('apishopee_products')
+      .update({ item_status: itemStatus })
+      .eq('shop_id', shopId)
+      .eq('item_id', itemId);
   }
+
+  return { success: true, outcome, status, item_status: itemStatus, message };
 }
 
 
@@ -1393,7 +813,7 @@ serve(async (req) => {
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
 
     // Extract calling user from JWT (decode only, already verified by gateway)
-    const { userId: callerUserId, userEmail: callerUserEmail } = extractUserFromJwt(req.headers.get('Authorization'));
+    const { userId: callerUserId, userEmail: callerUserEmail, role: callerRole } = extractUserFromJwt(req.headers.get('Authorization'));
     // If JWT didn't include email, look it up from auth.users using the verified userId
     let effectiveEmail = callerUserEmail;
     if (callerUserId && !effectiveEmail) {
@@ -1402,8 +822,32 @@ serve(async (req) => {
     }
     const triggeredBy = determineTriggeredBy({ userId: callerUserId, userEmail: effectiveEmail }, 'cron');
 
+    const guard = await checkActionPermission(supabase, 'apishopee-product', action, { userId: callerUserId, role: callerRole });
+    if (!guard.allowed) {
+      return new Response(JSON.stringify({ error: guard.error }), {
+        status: guard.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json', 'x-request-id': requestId },
+      });
+    }
+
+    // Mọi action: user phải truy cập được shop; request không có user chỉ nhận từ service_role (cron / worker)
+    if (!callerUserId && callerRole !== 'service_role') {
+      return new Response(JSON.stringify({ error: 'Authentication required' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json', 'x-request-id': requestId },
+      });
+    }
+    if (callerUserId && !(await canAccessShop(supabase, shop_id, callerUserId))) {
+      return new Response(JSON.stringify({ error: 'No access to this shop' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json', 'x-request-id': requestId },
+      });
+    }
+    // Owner dữ liệu sản phẩm: user gọi từ JWT; body.user_id chỉ dùng cho request service_role
+    const ownerUserId: string | undefined = callerUserId || user_id;
+
     const credentials = await getPartnerCredentials(supabase, shop_id);
-    const token = await getTokenWithAutoRefresh(supabase, shop_id);
+    const token = await getShopToken(supabase, shop_id);
 
     let result;
 
@@ -1456,109 +900,114 @@ serve(async (req) => {
         break;
       }
 
-      // ==================== SYNC ALL PRODUCTS ====================
-      case 'sync-products': {
-        if (!user_id) {
+      // ==================== SYNC PRODUCTS (worker queue) ====================
+      case 'sync-products':
+      case 'check-updates': {
+        if (!ownerUserId) {
           return new Response(JSON.stringify({ error: 'user_id is required for sync' }), {
             status: 400,
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           });
         }
-        result = await syncAllProducts(supabase, credentials, shop_id, user_id, token, callerUserId, effectiveEmail, triggeredBy, requestId);
+        result = await enqueueProductSync(supabase, shop_id, ownerUserId, action === 'sync-products' ? 'full' : 'incremental');
         break;
       }
 
-      // ==================== CHECK FOR UPDATES (Incremental Sync) ====================
-      case 'check-updates': {
-        if (!user_id) {
-          return new Response(JSON.stringify({ error: 'user_id is required' }), {
+      // ==================== CONTENT EDITS (ProductContentDialog) ====================
+      case 'get-content':
+      case 'upload-image':
+      case 'push-content': {
+        if (!callerUserId) {
+          return new Response(JSON.stringify({ error: 'Authentication required' }), {
+            status: 401,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        const { item_id, draft_id, image_base64, file_name = 'image.jpg', content_type = 'image/jpeg' } = body;
+        const missing = action === 'get-content' ? (!item_id && 'item_id')
+          : action === 'upload-image' ? (!image_base64 && 'image_base64')
+          : (!draft_id && 'draft_id');
+        if (missing) {
+          return new Response(JSON.stringify({ error: `${missing} is required` }), {
             status: 400,
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           });
         }
 
-        // Kiểm tra xem DB đã có data chưa
-        const { count: existingCount, error: countError } = await supabase
-          .from('apishopee_products')
-          .select('*', { count: 'exact', head: true })
-          .eq('shop_id', shop_id)
-          .eq('user_id', user_id);
+        const ctx: ManualEditContext = {
+          supabase, credentials, shopId: shop_id, token,
+          userId: callerUserId,
+          actorUserId: callerUserId,
+          actorEmail: effectiveEmail,
+          triggeredBy,
+          requestId,
+        };
+        result = action === 'get-content' ? await getItemContent(ctx, item_id)
+          : action === 'upload-image' ? await uploadImage(ctx, image_base64, file_name, content_type)
+          : await pushContentDraft(ctx, draft_id);
+        break;
+      }
 
-        console.log('[CHECK] Existing products count:', existingCount, 'Count error:', countError?.message);
+      // ==================== VIOLATION CASES (ViolationCasesPanel) ====================
+      case 'verify-violation': {
+        if (!callerUserId) {
+          return new Response(JSON.stringify({ error: 'Authentication required' }), {
+            status: 401,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
 
-        // Nếu chưa có data hoặc count error -> full sync lần đầu
-        if (countError || existingCount === null || existingCount === undefined || existingCount === 0) {
-          console.log('[CHECK] No existing data (count:', existingCount, '), running full sync...');
-          result = await syncAllProducts(supabase, credentials, shop_id, user_id, token, callerUserId, effectiveEmail, triggeredBy, requestId);
-          break;
+        const { case_id } = body;
+        if (!case_id) {
+          return new Response(JSON.stringify({ error: 'case_id is required' }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
         }
 
-        // Lấy update_time mới nhất từ database
-        const { data: latestProduct } = await supabase
-          .from('apishopee_products')
-          .select('update_time')
-          .eq('shop_id', shop_id)
-          .eq('user_id', user_id)
-          .order('update_time', { ascending: false })
-          .limit(1)
-          .single();
-
-        const lastUpdateTime = latestProduct?.update_time || 0;
-
-        // Lấy danh sách products đã thay đổi từ Shopee (có update_time > lastUpdateTime)
-        const statuses = ['NORMAL', 'UNLIST', 'BANNED'];
-        const changedItemIds: number[] = [];
-
-        for (const status of statuses) {
-          let offset = 0;
-          let hasMore = true;
-
-          while (hasMore) {
-            const apiResult = await callShopeeAPI(
-              supabase, credentials, PRODUCT_PATHS.GET_ITEM_LIST, 'GET',
-              shop_id, token, undefined,
-              { offset, page_size: 100, item_status: status, update_time_from: lastUpdateTime + 1 },
-              callerUserId, effectiveEmail, triggeredBy, requestId
-            ) as { response?: { item?: Array<{ item_id: number; update_time: number }>; has_next_page?: boolean; next_offset?: number } };
-
-            const items = apiResult?.response?.item || [];
-            changedItemIds.push(...items.map(i => i.item_id));
-
-            hasMore = apiResult?.response?.has_next_page || false;
-            offset = apiResult?.response?.next_offset || offset + 100;
-
-            if (hasMore) await delay(DELAY_BETWEEN_CALLS_MS);
-          }
+        result = await verifyViolationCase({
+          supabase, credentials, shopId: shop_id, token,
+          userId: callerUserId,
+          actorUserId: callerUserId,
+          actorEmail: effectiveEmail,
+          triggeredBy,
+          requestId,
+        }, case_id);
+        break;
+      }
+
+      // ==================== MANUAL EDITS (ProductsPanel) ====================
+      case 'update-price':
+      case 'update-stock':
+      case 'unlist-item': {
+        if (!callerUserId) {
+          return new Response(JSON.stringify({ error: 'Authentication required' }), {
+            status: 401,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
         }
 
-        if (changedItemIds.length > 0) {
-          // Có thay đổi -> incremental sync
-          console.log(`[CHECK] Found ${changedItemIds.length} changed items, running incremental sync...`);
-          const incrementalResult = await incrementalSyncProducts(supabase, credentials, shop_id, user_id, token, changedItemIds, callerUserId, effectiveEmail, triggeredBy, requestId);
-          result = {
-            success: incrementalResult.success,
-            has_changes: true,
-            synced_count: incrementalResult.updated_count + incrementalResult.inserted_count,
-            updated_count: incrementalResult.updated_count,
-            inserted_count: incrementalResult.inserted_count,
-            deleted_count: incrementalResult.deleted_count,
-            error: incrementalResult.error,
-          };
-        } else {
-          // Không có thay đổi từ update_time, nhưng vẫn check xem có products bị xóa không
-          const incrementalResult = await incrementalSyncProducts(supabase, credentials, shop_id, user_id, token, [], callerUserId, effectiveEmail, triggeredBy, requestId);
-          if (incrementalResult.deleted_count > 0) {
-            result = {
-              success: true,
-              has_changes: true,
-              synced_count: 0,
-              deleted_count: incrementalResult.deleted_count,
-              message: `Đã xóa ${incrementalResult.deleted_count} sản phẩm không còn tồn tại`,
-            };
-          } else {
-            result = { success: true, has_changes: false, message: 'No changes detected' };
-          }
+        const { item_id, price_list, stock_list, unlist } = body;
+        const invalid = validateEditRequest(action, body);
+        if (invalid) {
+          return new Response(JSON.stringify({ error: invalid }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
         }
+
+        const ctx: ManualEditContext = {
+          supabase, credentials, shopId: shop_id, token,
+          userId: callerUserId,
+          actorUserId: callerUserId,
+          actorEmail: effectiveEmail,
+          triggeredBy,
+          requestId,
+        };
+        result = action === 'update-price' ? await updateItemPrice(ctx, item_id, price_list)
+          : action === 'update-stock' ? await updateItemStock(ctx, item_id, stock_list)
+          : await unlistItem(ctx, item_id, unlist);
         break;
       }
 
@@ -5,12 +5,17 @@
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { logApiCall, getApiCallStatus, createResponseSummary, extractUserFromJwt, determineTriggeredBy, type ApiCategory } from '../_shared/api-logger.ts';
+import { extractUserFromJwt, determineTriggeredBy, type ApiCategory } from '../_shared/api-logger.ts';
+import { checkActionPermission } from '../_shared/action-guard.ts';
 import { resolveAppCategory } from '../_shared/api-route-map.ts';
+import { isReadOnlyShopeePath, requiredPermission } from '../_shared/app-permissions.ts';
 import { corsHeaders } from '../_shared/cors.ts';
+import { canAccessShop } from '../_shared/shop-access.ts';
+import { waitForRateLimit } from '../_shared/rate-limiter.ts';
+import { createEdgeShopeeClient, SHOPEE_DEFAULT_BASE_URL, type ShopeeApiCallLog } from '../_shared/shopee-api.ts';
+import { getSecretKeyring, openSecret } from '../_shared/secrets.ts';
 
-const SHOPEE_HOST = 'https://partner.shopeemobile.com';
-const PROXY_URL = Deno.env.get('SHOPEE_PROXY_URL') || '';
+const SHOPEE_HOST = Deno.env.get('SHOPEE_BASE_URL') || SHOPEE_DEFAULT_BASE_URL;
 const ADMIN_ROLES = (Deno.env.get('ADMIN_ROLES') || 'super_admin,admin').split(',');
 
 // Partner-level API chỉ cho phép các endpoint này
@@ -20,41 +25,6 @@ const PARTNER_LEVEL_ALLOWED_PATHS = [
   '/api/v2/public/get_shopee_ip_ranges',
 ];
 
-/**
- * Gọi API qua VPS proxy hoặc trực tiếp
- */
-async function fetchWithProxy(targetUrl: string, options: RequestInit): Promise<Response> {
-  if (PROXY_URL) {
-    console.log('[API Proxy] Calling via proxy:', PROXY_URL);
-    const proxyOptions = {
-      ...options,
-      headers: { ...(options.headers || {}), 'x-target-url': targetUrl },
-    };
-    return await fetch(PROXY_URL, proxyOptions);
-  }
-  return await fetch(targetUrl, options);
-}
-
-// HMAC-SHA256 using Web Crypto API
-async function hmacSha256(key: string, message: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const keyData = encoder.encode(key);
-  const messageData = encoder.encode(message);
-
-  const cryptoKey = await crypto.subtle.importKey(
-    'raw',
-    keyData,
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['sign']
-  );
-
-  const signature = await crypto.subtle.sign('HMAC', cryptoKey, messageData);
-  return Array.from(new Uint8Array(signature))
-    .map(b => b.toString(16).padStart(2, '0'))
-    .join('');
-}
-
 /**
  * Detect API category from endpoint path
  */
@@ -102,7 +72,7 @@ serve(async (req) => {
     const supabase = createClient(supabaseUrl, supabaseKey);
 
     // Extract calling user from JWT (decode only, already verified by gateway)
-    const { userId: callerUserId, userEmail: callerUserEmail } = extractUserFromJwt(req.headers.get('Authorization'));
+    const { userId: callerUserId, userEmail: callerUserEmail, role: callerRole } = extractUserFromJwt(req.headers.get('Authorization'));
     const triggeredBy = determineTriggeredBy({ userId: callerUserId, userEmail: callerUserEmail }, 'user');
 
     // Determine if this is a partner-level API call (no shop_id/access_token needed)
@@ -186,6 +156,34 @@ serve(async (req) => {
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     } else {
+      // Shop-level: path ghi phải có trong catalog quyền (EDGE_ACTION_PERMISSIONS['apishopee-proxy']),
+      // user cần quyền thao tác đó và quyền truy cập shop như các Edge Function nghiệp vụ
+      if (!callerUserId) {
+        return new Response(
+          JSON.stringify({ error: 'Authentication required' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json', 'x-request-id': requestId } }
+        );
+      }
+      if (!isReadOnlyShopeePath(api_path) && !requiredPermission('apishopee-proxy', api_path)) {
+        return new Response(
+          JSON.stringify({ error: `API path "${api_path}" is not allowed through the proxy` }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json', 'x-request-id': requestId } }
+        );
+      }
+      const guard = await checkActionPermission(supabase, 'apishopee-proxy', api_path, { userId: callerUserId, role: callerRole });
+      if (!guard.allowed) {
+        return new Response(
+          JSON.stringify({ error: guard.error }),
+          { status: guard.status, headers: { ...corsHeaders, 'Content-Type': 'application/json', 'x-request-id': requestId } }
+        );
+      }
+      if (!(await canAccessShop(supabase, shop_id, callerUserId))) {
+        return new Response(
+          JSON.stringify({ error: 'No access to this shop' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json', 'x-request-id': requestId } }
+        );
+      }
+
       // Auto-detect app_category from API path if not provided
       const resolvedCategory = app_category || resolveAppCategory(api_path);
 
@@ -249,116 +247,54 @@ serve(async (req) => {
       }
     }
 
-    // Build timestamp
-    const timestamp = Math.floor(Date.now() / 1000);
-
-    // Build base string for signature
-    // Partner-level: partnerId + apiPath + timestamp
-    // Shop-level: partnerId + apiPath + timestamp + accessToken + shopId
-    const baseString = isPartnerLevel
-      ? `${partner_id}${api_path}${timestamp}`
-      : `${partner_id}${api_path}${timestamp}${access_token}${shop_id}`;
-    const sign = await hmacSha256(partner_key, baseString);
-
-    // Build query params
-    const queryParams = new URLSearchParams();
-    queryParams.set('partner_id', partner_id.toString());
-    queryParams.set('timestamp', timestamp.toString());
-    queryParams.set('sign', sign);
-
-    if (!isPartnerLevel) {
-      queryParams.set('access_token', access_token);
-      queryParams.set('shop_id', shop_id.toString());
-    }
-
-    // Add custom params
-    if (params && typeof params === 'object') {
-      for (const [key, value] of Object.entries(params)) {
-        if (value !== undefined && value !== null) {
-          queryParams.set(key, String(value));
-        }
-      }
-    }
-
-    const url = `${SHOPEE_HOST}${api_path}?${queryParams.toString()}`;
+    // Credentials trong DB có thể đã mã hóa (enc:v1:...), giải mã trước khi ký request
+    const keyring = await getSecretKeyring();
+    partner_key = await openSecret(partner_key, keyring);
+    if (access_token) access_token = await openSecret(access_token, keyring);
 
     console.log(`[API Proxy] ${method} ${api_path} ${isPartnerLevel ? '(partner-level)' : `(shop: ${shop_id})`}`);
     console.log(`[API Proxy] Request body:`, body ? JSON.stringify(body) : 'null');
 
-    // Make request to Shopee
-    const fetchOptions: RequestInit = {
-      method,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    };
-
-    if (body && ['POST', 'PUT', 'PATCH'].includes(method.toUpperCase())) {
-      fetchOptions.body = JSON.stringify(body);
-    }
-
-    const startTime = Date.now();
-    let responseData: Record<string, unknown>;
-    let httpStatus = 0;
-    let httpStatusText = '';
-
-    try {
-      const response = await fetchWithProxy(url, fetchOptions);
-      httpStatus = response.status;
-      httpStatusText = response.statusText;
-      responseData = await response.json();
-    } catch (fetchErr) {
-      const duration = Date.now() - startTime;
-      console.error('[API Proxy] Fetch error:', fetchErr);
-      // Log the failed call so it's never missed
-      logApiCall(supabase, {
-        shopId: shop_id || undefined,
-        partnerId: partner_id || undefined,
-        edgeFunction: 'apishopee-proxy',
-        apiEndpoint: api_path,
-        httpMethod: method,
-        apiCategory: detectApiCategory(api_path),
-        status: 'failed',
-        shopeeError: 'network_error',
-        shopeeMessage: (fetchErr as Error).message || 'Network request failed',
-        durationMs: duration,
-        requestParams: { ...params, ...(shop_id ? { shop_id } : {}) },
-        userId: callerUserId,
-        userEmail: callerUserEmail,
-        triggeredBy,
-        requestId,
-      });
-      console.error('[API Proxy] Fetch error:', (fetchErr as Error).message);
+    // Adaptive rate limit dùng chung với worker: backoff quá dài thì trả 429 kèm retry_after_ms
+    const retryAfterMs = await waitForRateLimit(supabase, partner_id, api_path);
+    if (retryAfterMs > 0) {
       return new Response(
-        JSON.stringify({ error: 'Failed to reach Shopee API' }),
-        { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json', 'x-request-id': requestId } }
+        JSON.stringify({ error: 'error_rate_limit', message: `Partner app is backing off, retry after ${Math.ceil(retryAfterMs / 1000)}s`, retry_after_ms: retryAfterMs }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json', 'x-request-id': requestId } }
       );
     }
 
-    const endTime = Date.now();
-
-    // Log API call (non-blocking)
-    const callStatus = getApiCallStatus(responseData);
-    logApiCall(supabase, {
-      shopId: shop_id || undefined,
-      partnerId: partner_id || undefined,
+    // Client dùng chung lo ký (public / shop), proxy, rate limit và api_call_logs.
+    // Không truyền refresh_token: token multi-app không được refresh ở đây.
+    const call: { log?: ShopeeApiCallLog } = {};
+    const client = createEdgeShopeeClient(supabase, { partnerId: partner_id, partnerKey: partner_key }, {
       edgeFunction: 'apishopee-proxy',
-      apiEndpoint: api_path,
-      httpMethod: method,
       apiCategory: detectApiCategory(api_path),
-      status: callStatus.status,
-      shopeeError: callStatus.shopeeError,
-      shopeeMessage: callStatus.shopeeMessage,
-      httpStatusCode: httpStatus,
-      durationMs: endTime - startTime,
-      requestParams: { ...params, ...(shop_id ? { shop_id } : {}) },
-      responseSummary: createResponseSummary(responseData),
       userId: callerUserId,
       userEmail: callerUserEmail,
       triggeredBy,
       requestId,
+      onCall: (log) => { call.log = log; },
     });
 
+    const responseData = await client.call(api_path, {
+      method: method.toUpperCase() === 'POST' ? 'POST' : 'GET',
+      level: isPartnerLevel ? 'public' : 'shop',
+      shopId: isPartnerLevel ? undefined : shop_id,
+      token: isPartnerLevel ? undefined : { access_token, refresh_token: '' },
+      params: params && typeof params === 'object' ? params : undefined,
+      body: body || undefined,
+    });
+
+    // Không có HTTP status = không tới được Shopee (network error / timeout)
+    if (!call.log?.httpStatusCode) {
+      console.error('[API Proxy] Fetch error:', responseData.message);
+      return new Response(
+        JSON.stringify({ error: 'Failed to reach Shopee API' }),
+        { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json', 'x-request-id': requestId } }
+      );
+    }
+
     return new Response(
       JSON.stringify({
         request: {
@@ -368,9 +304,8 @@ serve(async (req) => {
           body,
         },
         response: {
-          status: httpStatus,
-          statusText: httpStatusText,
-          time_ms: endTime - startTime,
+          status: call.log.httpStatusCode,
+          time_ms: call.log.durationMs,
           data: responseData,
         },
       }),
@@ -0,0 +1,431 @@
+/**
+ * Supabase Edge Function: Shopee Push Receiver
+ *
+ * Endpoint public nhận Live Push từ Shopee (đăng ký Callback URL trên Open Platform).
+ * Xử lý:
+ * 1. Xác thực chữ ký Authorization bằng partner key trong apishopee_partner_apps
+ *    (push uỷ quyền còn phải nằm trong replay window và chưa được xử lý - dedupe như webhook)
+ * 2. Lưu mọi push vào apishopee_push_logs (processed / process_result)
+ * 3. Điều phối theo push code:
+ *    - shop_authorization_push (1): đánh dấu shop đã uỷ quyền
+ *    - shop_authorization_canceled_push (2): đánh dấu shop bị huỷ uỷ quyền
+ *    - open_api_authorization_expiry (12): gắn cờ token sắp hết hạn uỷ quyền
+ *    - Product pushes: chuyển tiếp sang apishopee-product-webhook để ghi history log
+ *
+ * Shopee yêu cầu trả về HTTP 2xx với body rỗng trong vòng 3s, nếu không sẽ retry.
+ * Deploy với --no-verify-jwt (Shopee không gửi Supabase JWT).
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  checkPushTimestamp,
+  claimDedupeKey,
+  DEFAULT_PUSH_REPLAY_WINDOW_SECONDS,
+  releaseDedupeKey,
+  verifyPushSignature,
+  type PushDedupeKey,
+  type PushPartnerApp,
+} from '../_shared/shopee-push.ts';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
+const SUPABASE_SERVICE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+// Callback URL đúng như đã đăng ký với Shopee (req.url bên trong edge runtime có thể khác)
+const PUSH_CALLBACK_URL = Deno.env.get('SHOPEE_PUSH_CALLBACK_URL') || '';
+// Cùng replay window với apishopee-product-webhook
+const REPLAY_WINDOW_SECONDS = Number(Deno.env.get('WEBHOOK_REPLAY_WINDOW_SECONDS')) || DEFAULT_PUSH_REPLAY_WINDOW_SECONDS;
+
+// ==================== PUSH CODES ====================
+
+const PUSH_CODES = {
+  SHOP_AUTHORIZATION: 1,
+  SHOP_AUTHORIZATION_CANCELED: 2,
+  AUTHORIZATION_EXPIRY: 12,
+  VIOLATION_ITEM: 16,
+  ITEM_PRICE_UPDATE: 22,
+  SHOP_PENALTY_UPDATE: 28,
+} as const;
+
+const PUSH_TYPE_NAMES: Record<number, string> = {
+  1: 'shop_authorization_push',
+  2: 'shop_authorization_canceled_push',
+  3: 'order_status_push',
+  4: 'order_trackingno_push',
+  5: 'shopee_updates',
+  12: 'open_api_authorization_expiry',
+  16: 'violation_item_push',
+  22: 'item_price_update_push',
+  28: 'shop_penalty_update_push',
+};
+
+/** Push đổi trạng thái uỷ quyền: replay lại sẽ ghi đè trạng thái hiện tại */
+const AUTHORIZATION_PUSH_CODES = new Set<number>([
+  PUSH_CODES.SHOP_AUTHORIZATION,
+  PUSH_CODES.SHOP_AUTHORIZATION_CANCELED,
+  PUSH_CODES.AUTHORIZATION_EXPIRY,
+]);
+
+/**
+ * Push code → webhook_type của apishopee-product-webhook
+ */
+const PRODUCT_PUSH_TYPES: Record<number, string> = {
+  [PUSH_CODES.VIOLATION_ITEM]: 'violation_item_push',
+  [PUSH_CODES.ITEM_PRICE_UPDATE]: 'item_price_update_push',
+};
+
+// ==================== INTERFACES ====================
+
+interface ShopeePush {
+  code: number;
+  timestamp?: number;
+  partner_id?: number;
+  shop_id?: number;
+  merchant_id?: number;
+  data?: Record<string, unknown>;
+}
+
+interface PushResult {
+  processed: boolean;
+  result: string;
+}
+
+// ==================== HELPERS ====================
+
+function toNumberList(value: unknown): number[] {
+  if (!Array.isArray(value)) return [];
+  return value.map(Number).filter(n => Number.isFinite(n) && n > 0);
+}
+
+/**
+ * Lấy danh sách shop_id từ push (Shopee dùng cả shop_id, shopid và shop_id_list)
+ */
+function extractShopIds(push: ShopeePush): number[] {
+  const data = push.data || {};
+  const ids = new Set<number>(toNumberList(data.shop_id_list));
+  for (const value of [push.shop_id, data.shop_id, data.shopid]) {
+    const id = Number(value);
+    if (Number.isFinite(id) && id > 0) ids.add(id);
+  }
+  return [...ids];
+}
+
+/**
+ * Lấy danh sách merchant_id từ push
+ */
+function extractMerchantIds(push: ShopeePush): number[] {
+  const data = push.data || {};
+  const ids = new Set<number>(toNumberList(data.merchant_id_list));
+  for (const value of [push.merchant_id, data.merchant_id]) {
+    const id = Number(value);
+    if (Number.isFinite(id) && id > 0) ids.add(id);
+  }
+  return [...ids];
+}
+
+/**
+ * Cập nhật trạng thái uỷ quyền cho shop (legacy: apishopee_shops) và app token
+ * (multi-app: apishopee_shop_app_tokens) thuộc partner app đã gửi push.
+ * @returns Số bản ghi được cập nhật
+ */
+async function updateAuthorizationState(
+  supabase: ReturnType<typeof createClient>,
+  partnerApp: PushPartnerApp,
+  target: { shopIds: number[]; merchantIds: number[] },
+  updates: Record<string, unknown>
+): Promise<number> {
+  let updated = 0;
+
+  const applyTo = async (table: 'apishopee_shops' | 'apishopee_shop_app_tokens', column: 'shop_id' | 'merchant_id', ids: number[]) => {
+    if (ids.length === 0) return;
+
+    let query = supabase.from(table).update(updates).in(column, ids);
+    query = table === 'apishopee_shops'
+      ? query.eq('partner_id', partnerApp.partner_id)
+      : query.eq('partner_app_id', partnerApp.id);
+
+    const { data, error } = await query.select('shop_id');
+    if (error) {
+      throw new Error(`Update ${table} failed: ${error.message}`);
+    }
+    updated += data?.length || 0;
+  };
+
+  await applyTo('apishopee_shops', 'shop_id', target.shopIds);
+  await applyTo('apishopee_shops', 'merchant_id', target.merchantIds);
+  await applyTo('apishopee_shop_app_tokens', 'shop_id', target.shopIds);
+  await applyTo('apishopee_shop_app_tokens', 'merchant_id', target.merchantIds);
+
+  return updated;
+}
+
+/**
+ * Dedupe key cho push uỷ quyền: shop (hoặc 0), merchant hoặc trang của push 12 ở cột item_id
+ */
+function getAuthorizationDedupeKey(push: ShopeePush, shopIds: number[], merchantIds: number[]): PushDedupeKey {
+  return {
+    shop_id: shopIds.length === 1 ? shopIds[0] : 0,
+    push_code: push.code,
+    item_id: merchantIds.length === 1 ? merchantIds[0] : Number(push.data?.page_no) || 0,
+    shopee_timestamp: Number(push.timestamp),
+    webhook_type: PUSH_TYPE_NAMES[push.code],
+  };
+}
+
+// ==================== PUSH HANDLERS ====================
+
+/**
+ * shop_authorization_push (code 1): shop/merchant vừa uỷ quyền cho app
+ */
+async function handleAuthorizationPush(
+  supabase: ReturnType<typeof createClient>,
+  partnerApp: PushPartnerApp,
+  push: ShopeePush
+): Promise<PushResult> {
+  const data = push.data || {};
+  if (Number(data.success) !== 1) {
+    return { processed: true, result: `Authorization not successful: ${data.extra || 'unknown'}` };
+  }
+
+  const shopIds = extractShopIds(push);
+  const merchantIds = extractMerchantIds(push);
+
+  const updated = await updateAuthorizationState(supabase, partnerApp, { shopIds, merchantIds }, {
+    authorization_status: 'authorized',
+    authorization_status_reason: (data.authorize_type as string) || null,
+    authorization_status_at: new Date().toISOString(),
+    authorization_expire_before: null,
+  });
+
+  return {
+    processed: true,
+    result: `Authorized ${shopIds.length} shop(s), ${merchantIds.length} merchant(s); ${updated} record(s) updated`,
+  };
+}
+
+/**
+ * shop_authorization_canceled_push (code 2): shop/merchant huỷ uỷ quyền hoặc uỷ quyền hết hạn
+ */
+async function handleAuthorizationCanceledPush(
+  supabase: ReturnType<typeof createClient>,
+  partnerApp: PushPartnerApp,
+  push: ShopeePush
+): Promise<PushResult> {
+  const data = push.data || {};
+  const shopIds = extractShopIds(push);
+  const merchantIds = extractMerchantIds(push);
+
+  if (shopIds.length === 0 && merchantIds.length === 0) {
+    return { processed: false, result: 'No shop_id or merchant_id in push data' };
+  }
+
+  const reason = [data.authorize_type, data.extra].filter(Boolean).join(': ');
+  const updated = await updateAuthorizationState(supabase, partnerApp, { shopIds, merchantIds }, {
+    authorization_status: 'canceled',
+    authorization_status_reason: reason || null,
+    authorization_status_at: new Date().toISOString(),
+  });
+
+  return {
+    processed: true,
+    result: `Canceled ${shopIds.length} shop(s), ${merchantIds.length} merchant(s); ${updated} record(s) updated`,
+  };
+}
+
+/**
+ * open_api_authorization_expiry (code 12): danh sách shop/merchant sắp hết hạn uỷ quyền trong 1 tuần.
+ * Push được phân trang (page_no/total_page), mỗi trang xử lý độc lập.
+ */
+async function handleAuthorizationExpiryPush(
+  supabase: ReturnType<typeof createClient>,
+  partnerApp: PushPartnerApp,
+  push: ShopeePush
+): Promise<PushResult> {
+  const data = push.data || {};
+  const shopIds = toNumberList(data.shop_expire_soon);
+  const merchantIds = toNumberList(data.merchant_expire_soon);
+  const expireBefore = Number(data.expire_before) || null;
+
+  const updated = await updateAuthorizationState(supabase, partnerApp, { shopIds, merchantIds }, {
+    authorization_expire_before: expireBefore,
+  });
+
+  return {
+    processed: true,
+    result: `Flagged expiring authorization (page ${data.page_no || 1}/${data.total_page || 1}): ${shopIds.length} shop(s), ${merchantIds.length} merchant(s); ${updated} record(s) updated`,
+  };
+}
+
+/**
+ * Product pushes: chuyển tiếp sang apishopee-product-webhook để ghi history log
+ */
+async function handleProductPush(
+  supabase: ReturnType<typeof createClient>,
+  push: ShopeePush,
+  webhookType: string
+): Promise<PushResult> {
+  if (!push.shop_id) {
+    return { processed: false, result: 'Missing shop_id for product push' };
+  }
+
+  const { data, error } = await supabase.functions.invoke('apishopee-product-webhook', {
+    body: {
+      action: 'webhook',
+      webhook_type: webhookType,
+      payload: {
+        code: push.code,
+        shop_id: push.shop_id,
+        timestamp: push.timestamp,
+        data: push.data,
+      },
+    },
+  });
+
+  if (error) {
+    return { processed: false, result: `History logger error: ${error.message}` };
+  }
+  if (!data?.success) {
+    return { processed: false, result: `History logger rejected: ${data?.error || 'unknown error'}` };
+  }
+
+  if (data.duplicate) {
+    return { processed: true, result: `Duplicate push, history log already exists (${webhookType})` };
+  }
+
+  return { processed: true, result: `History log created (${webhookType})` };
+}
+
+/**
+ * Điều phối push theo code
+ */
+async function dispatchPush(
+  supabase: ReturnType<typeof createClient>,
+  partnerApp: PushPartnerApp,
+  push: ShopeePush
+): Promise<PushResult> {
+  switch (push.code) {
+    case PUSH_CODES.SHOP_AUTHORIZATION:
+      return await handleAuthorizationPush(supabase, partnerApp, push);
+
+    case PUSH_CODES.SHOP_AUTHORIZATION_CANCELED:
+      return await handleAuthorizationCanceledPush(supabase, partnerApp, push);
+
+    case PUSH_CODES.AUTHORIZATION_EXPIRY:
+      return await handleAuthorizationExpiryPush(supabase, partnerApp, push);
+
+    default: {
+      const webhookType = PRODUCT_PUSH_TYPES[push.code];
+      if (webhookType) {
+        return await handleProductPush(supabase, push, webhookType);
+      }
+      return { processed: false, result: `No handler for push code ${push.code}` };
+    }
+  }
+}
+
+// ==================== MAIN HANDLER ====================
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response(null, { status: 405 });
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+  try {
+    const rawBody = await req.text();
+
+    let push: ShopeePush;
+    try {
+      push = JSON.parse(rawBody);
+    } catch {
+      return new Response(null, { status: 400 });
+    }
+
+    if (typeof push?.code !== 'number') {
+      return new Response(null, { status: 400 });
+    }
+
+    const partnerApp = await verifyPushSignature(supabase, {
+      callbackUrl: PUSH_CALLBACK_URL || req.url,
+      rawBody,
+      authorization: req.headers.get('Authorization'),
+      partnerId: push.partner_id,
+    });
+
+    if (!partnerApp) {
+      console.warn('[PUSH] Invalid signature, code:', push.code, 'partner_id:', push.partner_id);
+      return new Response(null, { status: 401 });
+    }
+
+    const shopIds = extractShopIds(push);
+    const merchantIds = extractMerchantIds(push);
+
+    // Push uỷ quyền bắt được không được gửi lại: timestamp trong replay window, mỗi push xử lý 1 lần
+    let dedupeKey: PushDedupeKey | null = null;
+    if (AUTHORIZATION_PUSH_CODES.has(push.code)) {
+      const replayReason = checkPushTimestamp(Number(push.timestamp), REPLAY_WINDOW_SECONDS);
+      if (replayReason) {
+        console.warn('[PUSH] Rejected:', replayReason, 'code:', push.code, 'timestamp:', push.timestamp);
+        return new Response(null, { status: 400 });
+      }
+
+      dedupeKey = getAuthorizationDedupeKey(push, shopIds, merchantIds);
+      if (!(await claimDedupeKey(supabase, dedupeKey))) {
+        console.log('[PUSH] Duplicate push ignored:', JSON.stringify(dedupeKey));
+        // 2xx để Shopee không retry
+        return new Response(null, { status: 200 });
+      }
+    }
+
+    // Lưu push trước khi xử lý để không mất push khi handler lỗi
+    const { data: log, error: logError } = await supabase
+      .from('apishopee_push_logs')
+      .insert({
+        push_code: push.code,
+        push_type: PUSH_TYPE_NAMES[push.code] || `code_${push.code}`,
+        shop_id: shopIds.length === 1 ? shopIds[0] : null,
+        merchant_id: merchantIds.length === 1 ? merchantIds[0] : null,
+        partner_id: partnerApp.partner_id,
+        data: push.data || null,
+        processed: false,
+        shopee_timestamp: push.timestamp || null,
+      })
+      .select('id')
+      .single();
+
+    if (logError) {
+      console.error('[PUSH] Failed to save push log:', logError.message);
+    }
+
+    let result: PushResult;
+    try {
+      result = await dispatchPush(supabase, partnerApp, push);
+    } catch (handlerError) {
+      result = { processed: false, result: `Handler error: ${(handlerError as Error).message}` };
+    }
+
+    if (dedupeKey && !result.processed) {
+      await releaseDedupeKey(supabase, dedupeKey);
+    }
+
+    console.log(`[PUSH] code=${push.code} partner=${partnerApp.partner_id} processed=${result.processed}: ${result.result}`);
+
+    if (log?.id) {
+      const { error: updateError } = await supabase
+        .from('apishopee_push_logs')
+        .update({ processed: result.processed, process_result: result.result })
+        .eq('id', log.id);
+
+      if (updateError) {
+        console.error('[PUSH] Failed to update push log:', updateError.message);
+      }
+    }
+
+    // Shopee chỉ cần HTTP 2xx với body rỗng
+    return new Response(null, { status: 200 });
+  } catch (error) {
+    console.error('[PUSH] Error:', error);
+    // Trả 500 để Shopee retry theo lịch (300s, 1800s, 10800s)
+    return new Response(null, { status: 500 });
+  }
+});
@@ -10,26 +10,22 @@
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { createHmac } from 'https://deno.land/std@0.168.0/node/crypto.ts';
 import { corsHeaders } from '../_shared/cors.ts';
+import {
+  createEdgeShopeeClient,
+  getPartnerCredentials,
+  getShopToken,
+  type PartnerCredentials,
+  type QueryValue,
+  type ShopeeToken,
+} from '../_shared/shopee-api.ts';
 
-// Shopee API config (fallback)
-const DEFAULT_PARTNER_ID = Number(Deno.env.get('SHOPEE_PARTNER_ID'));
-const DEFAULT_PARTNER_KEY = Deno.env.get('SHOPEE_PARTNER_KEY') || '';
-const SHOPEE_BASE_URL = Deno.env.get('SHOPEE_BASE_URL') || 'https://partner.shopeemobile.com';
-const PROXY_URL = Deno.env.get('SHOPEE_PROXY_URL') || '';
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
 const SUPABASE_SERVICE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
 
 // Constants
 const DAYS_EXPIRED = 30; // Lấy Flash Sale đã kết thúc trong 30 ngày qua
 
-// Interface cho partner credentials
-interface PartnerCredentials {
-  partnerId: number;
-  partnerKey: string;
-}
-
 // Flash Sale data interface từ Shopee API
 interface ShopeeFlashSale {
   flash_sale_id: number;
@@ -47,205 +43,24 @@ interface ShopeeFlashSale {
 // ==================== HELPER FUNCTIONS ====================
 
 /**
- * Lấy partner credentials từ shop hoặc fallback env
- */
-async function getPartnerCredentials(
-  supabase: ReturnType<typeof createClient>,
-  shopId: number
-): Promise<PartnerCredentials> {
-  const { data, error } = await supabase
-    .from('apishopee_shops')
-    .select('partner_id, partner_key')
-    .eq('shop_id', shopId)
-    .single();
-
-  if (data?.partner_id && data?.partner_key && !error) {
-    console.log('[SYNC-WORKER] Using partner from shop:', data.partner_id);
-    return {
-      partnerId: data.partner_id,
-      partnerKey: data.partner_key,
-    };
-  }
-
-  console.log('[SYNC-WORKER] Using default partner from env:', DEFAULT_PARTNER_ID);
-  return {
-    partnerId: DEFAULT_PARTNER_ID,
-    partnerKey: DEFAULT_PARTNER_KEY,
-  };
-}
-
-/**
- * Gọi API qua proxy hoặc trực tiếp
- */
-async function fetchWithProxy(targetUrl: string, options: RequestInit): Promise<Response> {
-  if (PROXY_URL) {
-    console.log('[PROXY] Calling via proxy:', PROXY_URL);
-    const proxyOptions = {
-      ...options,
-      headers: { ...(options.headers || {}), 'x-target-url': targetUrl },
-    };
-    return await fetch(PROXY_URL, proxyOptions);
-  }
-  return await fetch(targetUrl, options);
-}
-
-/**
- * Tạo HMAC-SHA256 signature cho Shopee API
- */
-function createSignature(
-  partnerKey: string,
-  partnerId: number,
-  path: string,
-  timestamp: number,
-  accessToken = '',
-  shopId = 0
-): string {
-  let baseString = `${partnerId}${path}${timestamp}`;
-  if (accessToken) baseString += accessToken;
-  if (shopId) baseString += shopId;
-
-  const hmac = createHmac('sha256', partnerKey);
-  hmac.update(baseString);
-  return hmac.digest('hex');
-}
-
-/**
- * Refresh access token khi hết hạn
- */
-async function refreshAccessToken(
-  credentials: PartnerCredentials,
-  refreshToken: string,
-  shopId: number
-) {
-  const timestamp = Math.floor(Date.now() / 1000);
-  const path = '/api/v2/auth/access_token/get';
-  const sign = createSignature(credentials.partnerKey, credentials.partnerId, path, timestamp);
-
-  const url = `${SHOPEE_BASE_URL}${path}?partner_id=${credentials.partnerId}&timestamp=${timestamp}&sign=${sign}`;
-
-  const response = await fetchWithProxy(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      refresh_token: refreshToken,
-      partner_id: credentials.partnerId,
-      shop_id: shopId,
-    }),
-  });
-
-  return await response.json();
-}
-
-/**
- * Lưu token mới vào database
- */
-async function saveToken(
-  supabase: ReturnType<typeof createClient>,
-  shopId: number,
-  token: Record<string, unknown>
-) {
-  const { error } = await supabase.from('apishopee_shops').upsert(
-    {
-      shop_id: shopId,
-      access_token: token.access_token,
-      refresh_token: token.refresh_token,
-      expire_in: token.expire_in,
-      expired_at: Date.now() + (token.expire_in as number) * 1000,
-      token_updated_at: new Date().toISOString(),
-    },
-    { onConflict: 'shop_id' }
-  );
-
-  if (error) {
-    console.error('Failed to save token:', error);
-    throw error;
-  }
-}
-
-/**
- * Lấy token từ database với auto-refresh
- */
-async function getTokenWithAutoRefresh(
-  supabase: ReturnType<typeof createClient>,
-  shopId: number
-) {
-  const { data: shopData, error: shopError } = await supabase
-    .from('apishopee_shops')
-    .select('shop_id, access_token, refresh_token, expired_at, merchant_id')
-    .eq('shop_id', shopId)
-    .single();
-
-  if (!shopError && shopData?.access_token) {
-    return shopData;
-  }
-
-  throw new Error('Token not found. Please authenticate first.');
-}
-
-/**
- * Gọi Shopee API với auto-retry khi token hết hạn
+ * Gọi Shopee API qua client dùng chung (ký, auto-refresh token, rate limit, log)
  */
-async function callShopeeAPIWithRetry(
+function callShopeeAPIWithRetry(
   supabase: ReturnType<typeof createClient>,
   credentials: PartnerCredentials,
   path: string,
   method: 'GET' | 'POST',
   shopId: number,
-  token: { access_token: string; refresh_token: string },
+  token: ShopeeToken,
   body?: Record<string, unknown>,
-  extraParams?: Record<string, string | number | boolean>
+  extraParams?: Record<string, QueryValue>
 ): Promise<unknown> {
-  const makeRequest = async (accessToken: string) => {
-    const timestamp = Math.floor(Date.now() / 1000);
-    const sign = createSignature(credentials.partnerKey, credentials.partnerId, path, timestamp, accessToken, shopId);
-
-    const params = new URLSearchParams({
-      partner_id: credentials.partnerId.toString(),
-      timestamp: timestamp.toString(),
-      access_token: accessToken,
-      shop_id: shopId.toString(),
-      sign: sign,
-    });
-
-    if (extraParams) {
-      Object.entries(extraParams).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          params.append(key, value.toString());
-        }
-      });
-    }
-
-    const url = `${SHOPEE_BASE_URL}${path}?${params.toString()}`;
-    console.log('[SYNC-WORKER] Calling Shopee API:', path, 'params:', extraParams);
-
-    const options: RequestInit = {
-      method,
-      headers: { 'Content-Type': 'application/json' },
-    };
-
-    if (method === 'POST' && body) {
-      options.body = JSON.stringify(body);
-    }
-
-    const response = await fetchWithProxy(url, options);
-    return await response.json();
-  };
-
-  let result = await makeRequest(token.access_token);
-
-  // Auto-retry khi token hết hạn
-  if (result.error === 'error_auth' || result.message?.includes('Invalid access_token')) {
-    console.log('[AUTO-RETRY] Invalid token detected, refreshing...');
-
-    const newToken = await refreshAccessToken(credentials, token.refresh_token, shopId);
-
-    if (!newToken.error) {
-      await saveToken(supabase, shopId, newToken);
-      result = await makeRequest(newToken.access_token);
-    }
-  }
-
-  return result;
+  console.log('[SYNC-WORKER] Calling Shopee API:', path, 'params:', extraParams);
+  return createEdgeShopeeClient(supabase, credentials, {
+    edgeFunction: 'apishopee-sync-worker',
+    apiCategory: 'flash_sale',
+    triggeredBy: 'system',
+  }).call(path, { method, shopId, token, params: extraParams, body });
 }
 
 // ==================== FLASH SALE SYNC FUNCTIONS ====================
@@ -487,7 +302,7 @@ serve(async (req) => {
     switch (action) {
       case 'sync-flash-sale-data': {
         const credentials = await getPartnerCredentials(supabase, shop_id);
-        const token = await getTokenWithAutoRefresh(supabase, shop_id);
+        const token = await getShopToken(supabase, shop_id);
 
         result = await syncFlashSaleData(supabase, credentials, shop_id, user_id, token, force_sync === true);
         break;
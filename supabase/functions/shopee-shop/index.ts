@@ -6,269 +6,45 @@
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { createHmac } from 'https://deno.land/std@0.168.0/node/crypto.ts';
-import { logApiCall, getApiCallStatus, createResponseSummary, extractUserFromJwt, determineTriggeredBy } from '../_shared/api-logger.ts';
+import { extractUserFromJwt, determineTriggeredBy, type TriggeredBy } from '../_shared/api-logger.ts';
 import { corsHeaders } from '../_shared/cors.ts';
+import {
+  createEdgeShopeeClient,
+  getPartnerCredentials,
+  getShopToken,
+  type PartnerCredentials,
+  type QueryValue,
+  type ShopeeToken,
+} from '../_shared/shopee-api.ts';
 
-// Shopee API config (fallback)
-const DEFAULT_PARTNER_ID = Number(Deno.env.get('SHOPEE_PARTNER_ID'));
-const DEFAULT_PARTNER_KEY = Deno.env.get('SHOPEE_PARTNER_KEY') || '';
-const SHOPEE_BASE_URL = 'https://partner.shopeemobile.com';
-const PROXY_URL = Deno.env.get('SHOPEE_PROXY_URL') || ''; // VPS Proxy URL
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
 const SUPABASE_SERVICE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
 
 const CACHE_TTL_MS = 30 * 60 * 1000; // Cache 30 phút
 
-// Interface cho partner credentials
-interface PartnerCredentials {
-  partnerId: number;
-  partnerKey: string;
-}
-
-/**
- * Lấy partner credentials từ database hoặc fallback env
- */
-async function getPartnerCredentials(
-  supabase: ReturnType<typeof createClient>,
-  shopId: number
-): Promise<PartnerCredentials> {
-  const { data, error } = await supabase
-    .from('apishopee_shops')
-    .select('partner_id, partner_key')
-    .eq('shop_id', shopId)
-    .single();
-
-  if (data?.partner_id && data?.partner_key && !error) {
-    return {
-      partnerId: data.partner_id,
-      partnerKey: data.partner_key,
-    };
-  }
-
-  return {
-    partnerId: DEFAULT_PARTNER_ID,
-    partnerKey: DEFAULT_PARTNER_KEY,
-  };
-}
-
 /**
- * Helper function để gọi API qua proxy hoặc trực tiếp
+ * Gọi Shopee API qua client dùng chung (ký, auto-refresh token, rate limit, log)
  */
-async function fetchWithProxy(targetUrl: string, options: RequestInit): Promise<Response> {
-  if (PROXY_URL) {
-    const proxyOptions = {
-      ...options,
-      headers: { ...(options.headers || {}), 'x-target-url': targetUrl },
-    };
-    return await fetch(PROXY_URL, proxyOptions);
-  }
-  return await fetch(targetUrl, options);
-}
-
-function createSignature(
-  partnerKey: string,
-  partnerId: number,
-  path: string,
-  timestamp: number,
-  accessToken = '',
-  shopId = 0
-): string {
-  let baseString = `${partnerId}${path}${timestamp}`;
-  if (accessToken) baseString += accessToken;
-  if (shopId) baseString += shopId;
-
-  const hmac = createHmac('sha256', partnerKey);
-  hmac.update(baseString);
-  return hmac.digest('hex');
-}
-
-async function refreshAccessToken(
-  credentials: PartnerCredentials,
-  refreshToken: string,
-  shopId: number
-) {
-  const timestamp = Math.floor(Date.now() / 1000);
-  const path = '/api/v2/auth/access_token/get';
-  const sign = createSignature(credentials.partnerKey, credentials.partnerId, path, timestamp);
-
-  const url = `${SHOPEE_BASE_URL}${path}?partner_id=${credentials.partnerId}&timestamp=${timestamp}&sign=${sign}`;
-
-  const response = await fetchWithProxy(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      refresh_token: refreshToken,
-      partner_id: credentials.partnerId,
-      shop_id: shopId,
-    }),
-  });
-
-  return await response.json();
-}
-
-
-async function saveToken(
-  supabase: ReturnType<typeof createClient>,
-  shopId: number,
-  token: Record<string, unknown>
-) {
-  const { error } = await supabase.from('apishopee_shops').upsert(
-    {
-      shop_id: shopId,
-      access_token: token.access_token,
-      refresh_token: token.refresh_token,
-      expire_in: token.expire_in,
-      expired_at: Date.now() + (token.expire_in as number) * 1000,
-      token_updated_at: new Date().toISOString(),
-    },
-    { onConflict: 'shop_id' }
-  );
-
-  if (error) {
-    throw error;
-  }
-}
-
-async function getTokenWithAutoRefresh(
-  supabase: ReturnType<typeof createClient>,
-  shopId: number
-) {
-  // 1. Tìm token từ bảng shops (nơi frontend lưu token)
-  const { data: shopData, error: shopError } = await supabase
-    .from('apishopee_shops')
-    .select('shop_id, access_token, refresh_token, expired_at, merchant_id')
-    .eq('shop_id', shopId)
-    .single();
-
-  if (!shopError && shopData?.access_token) {
-    return shopData;
-  }
-
-  // Token not found after schema consolidation
-  throw new Error('Token not found. Please authenticate first.');
-}
-
-async function callShopeeAPIWithRetry(
+function callShopeeAPIWithRetry(
   supabase: ReturnType<typeof createClient>,
   credentials: PartnerCredentials,
   path: string,
   method: 'GET' | 'POST',
   shopId: number,
-  token: { access_token: string; refresh_token: string },
+  token: ShopeeToken,
   body?: Record<string, unknown>,
-  extraParams?: Record<string, string | number | boolean>,
+  extraParams?: Record<string, QueryValue>,
   callerUserId?: string,
   callerUserEmail?: string,
   triggeredBy?: string
 ): Promise<unknown> {
-  const startTime = Date.now();
-  let wasTokenRefreshed = false;
-  let retryCount = 0;
-
-  const makeRequest = async (accessToken: string) => {
-    const timestamp = Math.floor(Date.now() / 1000);
-    const sign = createSignature(credentials.partnerKey, credentials.partnerId, path, timestamp, accessToken, shopId);
-
-    const params = new URLSearchParams({
-      partner_id: credentials.partnerId.toString(),
-      timestamp: timestamp.toString(),
-      access_token: accessToken,
-      shop_id: shopId.toString(),
-      sign: sign,
-    });
-
-    if (extraParams) {
-      Object.entries(extraParams).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          params.append(key, value.toString());
-        }
-      });
-    }
-
-    const url = `${SHOPEE_BASE_URL}${path}?${params.toString()}`;
-
-    const options: RequestInit = {
-      method,
-      headers: { 'Content-Type': 'application/json' },
-    };
-
-    if (method === 'POST' && body) {
-      options.body = JSON.stringify(body);
-    }
-
-    try {
-      const response = await fetchWithProxy(url, options);
-      return await response.json();
-    } catch (fetchError) {
-      const err = fetchError as Error;
-      return { error: 'network_error', message: err.message || 'Network request failed' };
-    }
-  };
-
-  const logCall = (status: 'success' | 'failed' | 'timeout', duration: number, opts?: {
-    shopeeError?: string; shopeeMessage?: string; responseSummary?: Record<string, unknown>;
-  }) => {
-    logApiCall(supabase, {
-      shopId,
-      partnerId: credentials.partnerId,
-      edgeFunction: 'shopee-shop',
-      apiEndpoint: path,
-      httpMethod: method,
-      apiCategory: 'shop',
-      status,
-      shopeeError: opts?.shopeeError,
-      shopeeMessage: opts?.shopeeMessage,
-      durationMs: duration,
-      responseSummary: opts?.responseSummary,
-      retryCount,
-      wasTokenRefreshed,
-      userId: callerUserId,
-      userEmail: callerUserEmail,
-      triggeredBy: triggeredBy as 'user' | 'cron' | 'scheduler' | 'webhook' | 'system' | undefined,
-    });
-  };
-
-  try {
-    let result = await makeRequest(token.access_token);
-
-    if (result.error === 'error_auth' || result.message?.includes('Invalid access_token')) {
-      const newToken = await refreshAccessToken(credentials, token.refresh_token, shopId);
-
-      if (!newToken.error) {
-        await saveToken(supabase, shopId, newToken);
-        wasTokenRefreshed = true;
-        retryCount = 1;
-
-        // Cập nhật bảng shops
-        await supabase.from('apishopee_shops').upsert({
-          shop_id: shopId,
-          access_token: newToken.access_token,
-          refresh_token: newToken.refresh_token,
-          expired_at: Date.now() + newToken.expire_in * 1000,
-          token_updated_at: new Date().toISOString(),
-        }, { onConflict: 'shop_id' });
-
-        result = await makeRequest(newToken.access_token);
-      }
-    }
-
-    // Log API call (non-blocking)
-    const apiStatus = getApiCallStatus(result as Record<string, unknown>);
-    logCall(apiStatus.status, Date.now() - startTime, {
-      shopeeError: apiStatus.shopeeError,
-      shopeeMessage: apiStatus.shopeeMessage,
-      responseSummary: createResponseSummary(result as Record<string, unknown>),
-    });
-
-    return result;
-  } catch (err) {
-    logCall('failed', Date.now() - startTime, {
-      shopeeError: 'edge_function_error',
-      shopeeMessage: (err as Error).message || 'Unexpected error in callShopeeAPIWithRetry',
-    });
-    throw err;
-  }
+  return createEdgeShopeeClient(supabase, credentials, {
+    edgeFunction: 'shopee-shop',
+    apiCategory: 'shop',
+    userId: callerUserId,
+    userEmail: callerUserEmail,
+    triggeredBy: triggeredBy as TriggeredBy | undefined,
+  }).call(path, { method, shopId, token, params: extraParams, body });
 }
 
 
@@ -494,7 +270,7 @@ serve(async (req) => {
 
         // Cache miss hoặc force refresh -> gọi API
         const credentials = await getPartnerCredentials(supabase, shop_id);
-        const token = await getTokenWithAutoRefresh(supabase, shop_id);
+        const token = await getShopToken(supabase, shop_id);
 
         const [shopInfo, shopProfile] = await Promise.all([
           callShopeeAPIWithRetry(supabase, credentials, '/api/v2/shop/get_shop_info', 'GET', shop_id, token, undefined, undefined, callerUserId, callerUserEmail, triggeredBy),
@@ -536,7 +312,7 @@ serve(async (req) => {
       // Action: lấy tất cả dữ liệu shop (info + profile)
       case 'get-all-shop-data': {
         const credentials = await getPartnerCredentials(supabase, shop_id);
-        const token = await getTokenWithAutoRefresh(supabase, shop_id);
+        const token = await getShopToken(supabase, shop_id);
 
         const apiCalls = [
           { name: 'info', path: '/api/v2/shop/get_shop_info' },
@@ -591,7 +367,7 @@ serve(async (req) => {
 
       case 'get-shop-info': {
         const credentials = await getPartnerCredentials(supabase, shop_id);
-        const token = await getTokenWithAutoRefresh(supabase, shop_id);
+        const token = await getShopToken(supabase, shop_id);
         result = await callShopeeAPIWithRetry(
           supabase,
           credentials,
@@ -610,7 +386,7 @@ serve(async (req) => {
 
       case 'get-profile': {
         const credentials = await getPartnerCredentials(supabase, shop_id);
-        const token = await getTokenWithAutoRefresh(supabase, shop_id);
+        const token = await getShopToken(supabase, shop_id);
         result = await callShopeeAPIWithRetry(
           supabase,
           credentials,
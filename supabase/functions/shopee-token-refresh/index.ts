@@ -7,15 +7,16 @@
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { createHmac } from 'https://deno.land/std@0.168.0/node/crypto.ts';
 import { logActivity, type ActionCategory, type ActionStatus, type ActionSource } from '../_shared/activity-logger.ts';
 import { logApiCall, createResponseSummary, extractUserFromJwt, determineTriggeredBy } from '../_shared/api-logger.ts';
 import { corsHeaders } from '../_shared/cors.ts';
+import { getSecretKeyring, openSecret, sealSecretFields } from '../_shared/secrets.ts';
+import { createShopeeClient, createTransport, SHOPEE_DEFAULT_BASE_URL } from '../_shared/shopee-client.ts';
 
 // Config
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || '';
 const SUPABASE_SERVICE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
-const SHOPEE_BASE_URL = 'https://partner.shopeemobile.com';
+const SHOPEE_BASE_URL = Deno.env.get('SHOPEE_BASE_URL') || SHOPEE_DEFAULT_BASE_URL;
 const PROXY_URL = Deno.env.get('SHOPEE_PROXY_URL') || '';
 
 // Token sẽ được refresh nếu còn dưới X giờ
@@ -41,48 +42,19 @@ interface ShopToken {
 }
 
 /**
- * Helper function để gọi API qua proxy hoặc trực tiếp (với timeout)
+ * access_token / refresh_token mới, mã hóa trước khi ghi DB
  */
-async function fetchWithProxy(targetUrl: string, options: RequestInit, timeoutMs = REQUEST_TIMEOUT_MS): Promise<Response> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-  try {
-    const fetchOptions = {
-      ...options,
-      signal: controller.signal,
-    };
-
-    if (PROXY_URL) {
-      const proxyOptions = {
-        ...fetchOptions,
-        headers: { ...(fetchOptions.headers || {}), 'x-target-url': targetUrl },
-      };
-      return await fetch(PROXY_URL, proxyOptions);
-    }
-    return await fetch(targetUrl, fetchOptions);
-  } finally {
-    clearTimeout(timeoutId);
-  }
-}
-
-/**
- * Tạo signature cho Shopee API
- */
-function createSignature(
-  partnerId: number,
-  partnerKey: string,
-  path: string,
-  timestamp: number
-): string {
-  const baseString = `${partnerId}${path}${timestamp}`;
-  const hmac = createHmac('sha256', partnerKey);
-  hmac.update(baseString);
-  return hmac.digest('hex');
+async function sealNewToken(token: Record<string, unknown>): Promise<Record<string, unknown>> {
+  return sealSecretFields(
+    { access_token: token.access_token, refresh_token: token.refresh_token },
+    ['access_token', 'refresh_token'],
+    await getSecretKeyring()
+  );
 }
 
 /**
- * Refresh access token từ Shopee API (với timeout handling)
+ * Refresh access token qua client dùng chung (với timeout handling).
+ * partnerKey / refreshToken lấy thẳng từ DB, giải mã tại đây.
  */
 async function refreshAccessToken(
   partnerId: number,
@@ -92,31 +64,17 @@ async function refreshAccessToken(
   merchantId?: number
 ): Promise<{ success: boolean; data?: Record<string, unknown>; error?: string }> {
   try {
-    const timestamp = Math.floor(Date.now() / 1000);
-    const path = '/api/v2/auth/access_token/get';
-    const sign = createSignature(partnerId, partnerKey, path, timestamp);
-
-    const body: Record<string, unknown> = {
-      refresh_token: refreshToken,
-      partner_id: partnerId,
-    };
-
-    if (shopId) {
-      body.shop_id = shopId;
-    }
-    if (merchantId) {
-      body.merchant_id = merchantId;
-    }
-
-    const url = `${SHOPEE_BASE_URL}${path}?partner_id=${partnerId}&timestamp=${timestamp}&sign=${sign}`;
-
-    const response = await fetchWithProxy(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(body),
+    const keyring = await getSecretKeyring();
+    partnerKey = await openSecret(partnerKey, keyring);
+    refreshToken = await openSecret(refreshToken, keyring);
+
+    const client = createShopeeClient({
+      credentials: { partnerId, partnerKey },
+      baseUrl: SHOPEE_BASE_URL,
+      transport: createTransport(PROXY_URL),
+      timeoutMs: REQUEST_TIMEOUT_MS,
     });
-
-    const result = await response.json();
+    const result = await client.refreshAccessToken({ shopId, merchantId }, refreshToken);
 
     if (result.error) {
       return { success: false, error: result.message || result.error };
@@ -124,12 +82,7 @@ async function refreshAccessToken(
 
     return { success: true, data: result };
   } catch (error) {
-    const err = error as Error;
-    // Handle timeout/abort error
-    if (err.name === 'AbortError') {
-      return { success: false, error: `Request timeout after ${REQUEST_TIMEOUT_MS}ms` };
-    }
-    return { success: false, error: err.message };
+    return { success: false, error: (error as Error).message };
   }
 }
 
@@ -387,8 +340,7 @@ serve(async (req) => {
         const { error: updateError } = await supabase
           .from('apishopee_shops')
           .update({
-            access_token: newToken.access_token,
-            refresh_token: newToken.refresh_token,
+            ...(await sealNewToken(newToken)),
             expire_in: newToken.expire_in,
             expired_at: newExpiredAt,
             access_token_expired_at: newExpiredAt,
@@ -552,8 +504,7 @@ serve(async (req) => {
         const { error: updateError } = await supabase
           .from('apishopee_shops')
           .update({
-            access_token: newToken.access_token,
-            refresh_token: newToken.refresh_token,
+            ...(await sealNewToken(newToken)),
             expire_in: newToken.expire_in,
             expired_at: newExpiredAt,
             access_token_expired_at: newExpiredAt,
@@ -691,8 +642,7 @@ serve(async (req) => {
               const { error: updateError } = await supabase
                 .from('apishopee_shop_app_tokens')
                 .update({
-                  access_token: newToken.access_token,
-                  refresh_token: newToken.refresh_token,
+                  ...(await sealNewToken(newToken)),
                   expire_in: newToken.expire_in,
                   expired_at: newExpiredAt,
                   access_token_expired_at: newExpiredAt,
@@ -754,8 +704,7 @@ serve(async (req) => {
             const { error: updateError } = await supabase
               .from('apishopee_shop_app_tokens')
               .update({
-                access_token: newToken.access_token,
-                refresh_token: newToken.refresh_token,
+                ...(await sealNewToken(newToken)),
                 expire_in: newToken.expire_in,
                 expired_at: newExpiredAt,
                 access_token_expired_at: newExpiredAt,
@@ -0,0 +1,78 @@
+-- =====================================================
+-- Migration 078: Shopee Push Receiver
+-- =====================================================
+-- Supports the apishopee-push edge function:
+-- every verified push is persisted to apishopee_push_logs and
+-- authorization pushes (code 1, 2, 12) update shop authorization state.
+
+-- =====================================================
+-- 1. apishopee_push_logs - Raw push audit trail
+-- =====================================================
+-- Table already exists in production (created via dashboard); keep in sync here.
+CREATE TABLE IF NOT EXISTS apishopee_push_logs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  push_code INTEGER NOT NULL,
+  push_type TEXT,
+  shop_id BIGINT,
+  merchant_id BIGINT,
+  partner_id BIGINT,
+  data JSONB,
+  processed BOOLEAN DEFAULT false,
+  process_result TEXT,
+  shopee_timestamp BIGINT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE apishopee_push_logs ADD COLUMN IF NOT EXISTS partner_id BIGINT;
+ALTER TABLE apishopee_push_logs ADD COLUMN IF NOT EXISTS process_result TEXT;
+
+COMMENT ON TABLE apishopee_push_logs IS 'Every verified Shopee push received by apishopee-push';
+COMMENT ON COLUMN apishopee_push_logs.partner_id IS 'Partner app whose key verified the push signature';
+COMMENT ON COLUMN apishopee_push_logs.processed IS 'true if a handler processed the push successfully';
+COMMENT ON COLUMN apishopee_push_logs.process_result IS 'Handler outcome or error message';
+
+CREATE INDEX IF NOT EXISTS idx_push_logs_created_at ON apishopee_push_logs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_push_logs_push_code ON apishopee_push_logs(push_code, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_push_logs_shop_id ON apishopee_push_logs(shop_id) WHERE shop_id IS NOT NULL;
+
+ALTER TABLE apishopee_push_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role full access to push logs" ON apishopee_push_logs;
+CREATE POLICY "Service role full access to push logs"
+  ON apishopee_push_logs
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Authenticated users can view push logs" ON apishopee_push_logs;
+CREATE POLICY "Authenticated users can view push logs"
+  ON apishopee_push_logs
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- =====================================================
+-- 2. Authorization state columns
+-- =====================================================
+-- apishopee_shops: legacy single-app tokens
+ALTER TABLE apishopee_shops ADD COLUMN IF NOT EXISTS authorization_status TEXT;
+ALTER TABLE apishopee_shops ADD COLUMN IF NOT EXISTS authorization_status_reason TEXT;
+ALTER TABLE apishopee_shops ADD COLUMN IF NOT EXISTS authorization_status_at TIMESTAMPTZ;
+ALTER TABLE apishopee_shops ADD COLUMN IF NOT EXISTS authorization_expire_before BIGINT;
+
+COMMENT ON COLUMN apishopee_shops.authorization_status IS 'Latest authorization push state: authorized | canceled';
+COMMENT ON COLUMN apishopee_shops.authorization_status_reason IS 'authorize_type / extra from the authorization push';
+COMMENT ON COLUMN apishopee_shops.authorization_expire_before IS 'Set by expiry push (code 12): authorization expires before this unix timestamp';
+
+-- apishopee_shop_app_tokens: multi-app tokens
+ALTER TABLE apishopee_shop_app_tokens ADD COLUMN IF NOT EXISTS authorization_status TEXT;
+ALTER TABLE apishopee_shop_app_tokens ADD COLUMN IF NOT EXISTS authorization_status_reason TEXT;
+ALTER TABLE apishopee_shop_app_tokens ADD COLUMN IF NOT EXISTS authorization_status_at TIMESTAMPTZ;
+ALTER TABLE apishopee_shop_app_tokens ADD COLUMN IF NOT EXISTS authorization_expire_before BIGINT;
+
+COMMENT ON COLUMN apishopee_shop_app_tokens.authorization_status IS 'Latest authorization push state for this app: authorized | canceled';
+COMMENT ON COLUMN apishopee_shop_app_tokens.authorization_expire_before IS 'Set by expiry push (code 12) for this app';
+
+CREATE INDEX IF NOT EXISTS idx_shops_authorization_expire_before
+  ON apishopee_shops(authorization_expire_before) WHERE authorization_expire_before IS NOT NULL;
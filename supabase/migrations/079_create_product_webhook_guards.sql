@@ -0,0 +1,98 @@
+-- =====================================================
+-- Migration 079: Product Webhook Guards
+-- =====================================================
+-- apishopee-product-webhook `webhook` action now:
+-- 1. Requires a valid Shopee signature (or an internal service-role call from apishopee-push)
+-- 2. Rejects pushes whose timestamp is outside the replay window
+-- 3. Dedupes retried pushes by (shop_id, push_code, item_id, shopee_timestamp)
+-- Every rejected request is written to apishopee_webhook_rejected_logs.
+
+-- =====================================================
+-- 1. apishopee_webhook_dedupe - Accepted push keys
+-- =====================================================
+CREATE TABLE IF NOT EXISTS apishopee_webhook_dedupe (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  shop_id BIGINT NOT NULL,
+  push_code INTEGER NOT NULL,
+  item_id BIGINT NOT NULL DEFAULT 0,
+  shopee_timestamp BIGINT NOT NULL,
+  webhook_type TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(shop_id, push_code, item_id, shopee_timestamp)
+);
+
+COMMENT ON TABLE apishopee_webhook_dedupe IS 'Dedupe keys of product pushes already written to apishopee_product_history_logs';
+COMMENT ON COLUMN apishopee_webhook_dedupe.item_id IS '0 when the push has no item_id';
+
+CREATE INDEX IF NOT EXISTS idx_webhook_dedupe_created_at ON apishopee_webhook_dedupe(created_at);
+
+-- =====================================================
+-- 2. apishopee_webhook_rejected_logs - Rejected request audit
+-- =====================================================
+CREATE TABLE IF NOT EXISTS apishopee_webhook_rejected_logs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  reason TEXT NOT NULL CHECK (reason IN ('invalid_signature', 'invalid_payload', 'stale_timestamp', 'future_timestamp', 'duplicate')),
+  webhook_type TEXT,
+  push_code INTEGER,
+  shop_id BIGINT,
+  item_id BIGINT,
+  shopee_timestamp BIGINT,
+  client_ip TEXT,
+  user_agent TEXT,
+  payload JSONB,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+COMMENT ON TABLE apishopee_webhook_rejected_logs IS 'Audit of webhook requests rejected by apishopee-product-webhook';
+COMMENT ON COLUMN apishopee_webhook_rejected_logs.reason IS 'invalid_signature | invalid_payload | stale_timestamp | future_timestamp | duplicate';
+
+CREATE INDEX IF NOT EXISTS idx_webhook_rejected_created_at ON apishopee_webhook_rejected_logs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_rejected_reason ON apishopee_webhook_rejected_logs(reason, created_at DESC);
+
+-- =====================================================
+-- 3. RLS Policies
+-- =====================================================
+ALTER TABLE apishopee_webhook_dedupe ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to webhook dedupe"
+  ON apishopee_webhook_dedupe
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+ALTER TABLE apishopee_webhook_rejected_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to webhook rejected logs"
+  ON apishopee_webhook_rejected_logs
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can view webhook rejected logs"
+  ON apishopee_webhook_rejected_logs
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- =====================================================
+-- 4. Retention
+-- =====================================================
+-- Dedupe keys only need to outlive Shopee's retry schedule and the replay window
+SELECT cron.schedule(
+  'cleanup-webhook-dedupe',
+  '30 3 * * *',  -- Daily 3:30am UTC
+  $$DELETE FROM apishopee_webhook_dedupe WHERE id IN (
+    SELECT id FROM apishopee_webhook_dedupe WHERE created_at < NOW() - INTERVAL '2 days' LIMIT 10000
+  )$$
+);
+
+-- Rejected request audit: keep 30 days
+SELECT cron.schedule(
+  'cleanup-webhook-rejected-logs',
+  '45 3 * * 0',  -- Sunday 3:45am UTC
+  $$DELETE FROM apishopee_webhook_rejected_logs WHERE id IN (
+    SELECT id FROM apishopee_webhook_rejected_logs WHERE created_at < NOW() - INTERVAL '30 days' LIMIT 10000
+  )$$
+);
@@ -0,0 +1,297 @@
+-- =====================================================
+-- Migration 080: Worker Job Queue
+-- =====================================================
+-- Durable Postgres-backed queue for the EC2 worker.
+-- Replaces in-process "is running" flags and the blind startup reset of
+-- 'processing' rows, so multiple worker processes can run safely.
+--
+-- - Lease: claimed jobs are locked until locked_until; expired leases are reclaimed
+-- - Heartbeat: running jobs extend their lease periodically
+-- - Concurrency key: at most one running job per key (e.g. 'shop:123')
+-- - Dedupe key: at most one pending/running job per key (idempotent enqueue)
+-- - Dead letter: jobs exceeding max_attempts move to status 'dead'
+-- - Priority: lower value runs first
+
+-- =====================================================
+-- 1. worker_jobs table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS worker_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  queue TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  priority SMALLINT NOT NULL DEFAULT 100,
+  concurrency_key TEXT,
+  dedupe_key TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  locked_by TEXT,
+  locked_until TIMESTAMPTZ,
+  heartbeat_at TIMESTAMPTZ,
+  last_error TEXT,
+  result JSONB,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+COMMENT ON TABLE worker_jobs IS 'Durable job queue consumed by the EC2 worker';
+COMMENT ON COLUMN worker_jobs.queue IS 'Job type: flash_sale_create | flash_sale_sync | token_refresh';
+COMMENT ON COLUMN worker_jobs.priority IS 'Lower value runs first';
+COMMENT ON COLUMN worker_jobs.concurrency_key IS 'At most one running job per key (e.g. shop:123)';
+COMMENT ON COLUMN worker_jobs.dedupe_key IS 'At most one pending/running job per key';
+COMMENT ON COLUMN worker_jobs.locked_until IS 'Lease expiry; a running job past this time is reclaimed by another worker';
+COMMENT ON COLUMN worker_jobs.status IS 'pending | running | completed | dead (dead letter after max_attempts)';
+
+-- Claim order: pending/expired jobs by priority then run_at
+CREATE INDEX IF NOT EXISTS idx_worker_jobs_claim
+  ON worker_jobs(queue, priority, run_at) WHERE status IN ('pending', 'running');
+CREATE INDEX IF NOT EXISTS idx_worker_jobs_concurrency_key
+  ON worker_jobs(concurrency_key) WHERE status = 'running';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_worker_jobs_dedupe_key
+  ON worker_jobs(dedupe_key) WHERE dedupe_key IS NOT NULL AND status IN ('pending', 'running');
+CREATE INDEX IF NOT EXISTS idx_worker_jobs_dead
+  ON worker_jobs(updated_at DESC) WHERE status = 'dead';
+CREATE INDEX IF NOT EXISTS idx_worker_jobs_completed_at
+  ON worker_jobs(completed_at) WHERE status = 'completed';
+
+ALTER TABLE worker_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to worker jobs"
+  ON worker_jobs
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can view worker jobs"
+  ON worker_jobs
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- =====================================================
+-- 2. enqueue_worker_job - Idempotent enqueue
+-- =====================================================
+CREATE OR REPLACE FUNCTION enqueue_worker_job(
+  p_queue TEXT,
+  p_payload JSONB DEFAULT '{}',
+  p_priority SMALLINT DEFAULT 100,
+  p_concurrency_key TEXT DEFAULT NULL,
+  p_dedupe_key TEXT DEFAULT NULL,
+  p_run_at TIMESTAMPTZ DEFAULT now(),
+  p_max_attempts INTEGER DEFAULT 3
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO worker_jobs (queue, payload, priority, concurrency_key, dedupe_key, run_at, max_attempts)
+  VALUES (p_queue, p_payload, p_priority, p_concurrency_key, p_dedupe_key, p_run_at, p_max_attempts)
+  ON CONFLICT (dedupe_key) WHERE dedupe_key IS NOT NULL AND status IN ('pending', 'running')
+  DO NOTHING
+  RETURNING id INTO v_id;
+
+  -- Already queued: return the in-flight job
+  IF v_id IS NULL THEN
+    SELECT id INTO v_id FROM worker_jobs
+    WHERE dedupe_key = p_dedupe_key AND status IN ('pending', 'running')
+    LIMIT 1;
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+-- =====================================================
+-- 3. claim_worker_jobs - Lease jobs for a worker
+-- =====================================================
+CREATE OR REPLACE FUNCTION claim_worker_jobs(
+  p_worker_id TEXT,
+  p_queues TEXT[],
+  p_limit INTEGER DEFAULT 1,
+  p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF worker_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Expired leases that already used every attempt go to the dead letter
+  UPDATE worker_jobs
+  SET status = 'dead',
+      locked_by = NULL,
+      locked_until = NULL,
+      last_error = COALESCE(last_error, 'Lease expired after final attempt'),
+      updated_at = now()
+  WHERE status = 'running'
+    AND locked_until < now()
+    AND attempts >= max_attempts
+    AND queue = ANY(p_queues);
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT j.id, j.concurrency_key, j.priority, j.run_at
+    FROM worker_jobs j
+    WHERE j.queue = ANY(p_queues)
+      AND (
+        (j.status = 'pending' AND j.run_at <= now())
+        OR (j.status = 'running' AND j.locked_until < now())
+      )
+      -- Skip keys held by another live lease
+      AND (
+        j.concurrency_key IS NULL
+        OR NOT EXISTS (
+          SELECT 1 FROM worker_jobs r
+          WHERE r.concurrency_key = j.concurrency_key
+            AND r.status = 'running'
+            AND r.locked_until >= now()
+            AND r.id <> j.id
+        )
+      )
+    ORDER BY j.priority, j.run_at
+    LIMIT p_limit * 5
+    FOR UPDATE SKIP LOCKED
+  ),
+  -- One job per concurrency key within this claim
+  picked AS (
+    SELECT id FROM (
+      SELECT c.id, c.priority, c.run_at,
+             ROW_NUMBER() OVER (PARTITION BY COALESCE(c.concurrency_key, c.id::text) ORDER BY c.priority, c.run_at) AS rn
+      FROM candidates c
+    ) ranked
+    WHERE rn = 1
+    ORDER BY priority, run_at
+    LIMIT p_limit
+  )
+  UPDATE worker_jobs j
+  SET status = 'running',
+      attempts = j.attempts + 1,
+      locked_by = p_worker_id,
+      locked_until = now() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = now(),
+      updated_at = now()
+  FROM picked
+  WHERE j.id = picked.id
+  RETURNING j.*;
+END;
+$$;
+
+-- =====================================================
+-- 4. heartbeat_worker_job - Extend lease
+-- =====================================================
+-- Returns false if the lease was lost (reclaimed by another worker)
+CREATE OR REPLACE FUNCTION heartbeat_worker_job(
+  p_job_id UUID,
+  p_worker_id TEXT,
+  p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE worker_jobs
+  SET locked_until = now() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = now(),
+      updated_at = now()
+  WHERE id = p_job_id
+    AND status = 'running'
+    AND locked_by = p_worker_id;
+
+  RETURN FOUND;
+END;
+$$;
+
+-- =====================================================
+-- 5. complete_worker_job / fail_worker_job
+-- =====================================================
+CREATE OR REPLACE FUNCTION complete_worker_job(
+  p_job_id UUID,
+  p_worker_id TEXT,
+  p_result JSONB DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE worker_jobs
+  SET status = 'completed',
+      result = p_result,
+      locked_by = NULL,
+      locked_until = NULL,
+      completed_at = now(),
+      updated_at = now()
+  WHERE id = p_job_id
+    AND status = 'running'
+    AND locked_by = p_worker_id;
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Returns the new status: 'pending' (retry scheduled), 'dead', or NULL if the lease was lost
+CREATE OR REPLACE FUNCTION fail_worker_job(
+  p_job_id UUID,
+  p_worker_id TEXT,
+  p_error TEXT,
+  p_retry_delay_seconds INTEGER DEFAULT 60
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  UPDATE worker_jobs
+  SET status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'pending' END,
+      run_at = now() + make_interval(secs => p_retry_delay_seconds),
+      last_error = p_error,
+      locked_by = NULL,
+      locked_until = NULL,
+      updated_at = now()
+  WHERE id = p_job_id
+    AND status = 'running'
+    AND locked_by = p_worker_id
+  RETURNING status INTO v_status;
+
+  RETURN v_status;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION enqueue_worker_job(TEXT, JSONB, SMALLINT, TEXT, TEXT, TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_worker_jobs(TEXT, TEXT[], INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION heartbeat_worker_job(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_worker_job(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fail_worker_job(UUID, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION enqueue_worker_job(TEXT, JSONB, SMALLINT, TEXT, TEXT, TIMESTAMPTZ, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_worker_jobs(TEXT, TEXT[], INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION heartbeat_worker_job(UUID, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION complete_worker_job(UUID, TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION fail_worker_job(UUID, TEXT, TEXT, INTEGER) TO service_role;
+
+-- =====================================================
+-- 6. Flash sale resume support
+-- =====================================================
+-- flash_sale_id is now written right after create_shop_flash_sale, so a job
+-- reclaimed after a crash resumes at "add items" instead of creating a second FS.
+COMMENT ON COLUMN apishopee_flash_sale_auto_history.flash_sale_id IS 'Set immediately after the flash sale is created; a re-run with flash_sale_id set skips creation';
+
+-- =====================================================
+-- 7. Retention
+-- =====================================================
+-- Completed jobs: keep 7 days. Dead jobs are kept for manual inspection.
+SELECT cron.schedule(
+  'cleanup-worker-jobs',
+  '15 3 * * *',  -- Daily 3:15am UTC
+  $$DELETE FROM worker_jobs WHERE id IN (
+    SELECT id FROM worker_jobs WHERE status = 'completed' AND completed_at < NOW() - INTERVAL '7 days' LIMIT 10000
+  )$$
+);
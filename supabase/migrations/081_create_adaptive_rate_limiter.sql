@@ -0,0 +1,339 @@
+-- =====================================================
+-- Migration 081: Adaptive Shopee Rate Limiter
+-- =====================================================
+-- Shared rate-limit state for the worker and edge functions.
+-- Learns from error_rate_limit / HTTP 429 per (partner app, API path):
+-- - Throttle: rate halves (multiplicative decrease), exponential backoff with jitter
+-- - Success: rate grows slowly (additive increase) up to the ceiling
+-- - Several paths throttled within a minute: backoff applies to the whole partner app
+--   (api_path = '*')
+-- Throttle events feed get_rate_limit_analysis for the monitoring dashboard.
+
+-- =====================================================
+-- 1. shopee_rate_limit_state - Learned limits
+-- =====================================================
+CREATE TABLE IF NOT EXISTS shopee_rate_limit_state (
+  partner_id BIGINT NOT NULL,
+  api_path TEXT NOT NULL,
+  rate_per_sec NUMERIC NOT NULL DEFAULT 5,
+  backoff_until TIMESTAMPTZ,
+  consecutive_throttles INTEGER NOT NULL DEFAULT 0,
+  last_throttle_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (partner_id, api_path)
+);
+
+COMMENT ON TABLE shopee_rate_limit_state IS 'Adaptive rate limit per partner app + API path, shared by worker and edge functions';
+COMMENT ON COLUMN shopee_rate_limit_state.api_path IS 'Shopee API path, or * for the partner-wide limit';
+COMMENT ON COLUMN shopee_rate_limit_state.rate_per_sec IS 'Learned safe request rate (0.5 - 10 req/s)';
+COMMENT ON COLUMN shopee_rate_limit_state.backoff_until IS 'No calls before this time';
+
+-- =====================================================
+-- 2. shopee_rate_limit_events - Throttle events
+-- =====================================================
+CREATE TABLE IF NOT EXISTS shopee_rate_limit_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  partner_id BIGINT NOT NULL,
+  api_path TEXT NOT NULL,
+  source TEXT,
+  http_status INTEGER,
+  shopee_error TEXT,
+  backoff_ms INTEGER,
+  rate_after NUMERIC,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+COMMENT ON TABLE shopee_rate_limit_events IS 'Every error_rate_limit / HTTP 429 reported to the adaptive limiter';
+COMMENT ON COLUMN shopee_rate_limit_events.source IS 'Reporter: worker or edge function name';
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_events_created_at ON shopee_rate_limit_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_rate_limit_events_partner ON shopee_rate_limit_events(partner_id, created_at DESC);
+
+-- =====================================================
+-- 3. RLS Policies
+-- =====================================================
+ALTER TABLE shopee_rate_limit_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to rate limit state"
+  ON shopee_rate_limit_state
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can view rate limit state"
+  ON shopee_rate_limit_state
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+ALTER TABLE shopee_rate_limit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to rate limit events"
+  ON shopee_rate_limit_events
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can view rate limit events"
+  ON shopee_rate_limit_events
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- =====================================================
+-- 4. get_rate_limit_state - Read path + partner-wide state
+-- =====================================================
+CREATE OR REPLACE FUNCTION get_rate_limit_state(
+  p_partner_id BIGINT,
+  p_api_path TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_path shopee_rate_limit_state%ROWTYPE;
+  v_partner shopee_rate_limit_state%ROWTYPE;
+BEGIN
+  SELECT * INTO v_path FROM shopee_rate_limit_state
+  WHERE partner_id = p_partner_id AND api_path = p_api_path;
+
+  SELECT * INTO v_partner FROM shopee_rate_limit_state
+  WHERE partner_id = p_partner_id AND api_path = '*';
+
+  RETURN json_build_object(
+    'rate_per_sec', COALESCE(v_path.rate_per_sec, 5),
+    'backoff_until', GREATEST(v_path.backoff_until, v_partner.backoff_until),
+    'consecutive_throttles', COALESCE(v_path.consecutive_throttles, 0)
+  );
+END;
+$$;
+
+-- =====================================================
+-- 5. report_rate_limit_throttle - Multiplicative decrease + backoff
+-- =====================================================
+CREATE OR REPLACE FUNCTION report_rate_limit_throttle(
+  p_partner_id BIGINT,
+  p_api_path TEXT,
+  p_source TEXT DEFAULT NULL,
+  p_http_status INTEGER DEFAULT NULL,
+  p_shopee_error TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_state shopee_rate_limit_state%ROWTYPE;
+  v_base_ms INTEGER;
+  v_backoff_ms INTEGER;
+  v_recent_paths INTEGER;
+  v_partner_backoff TIMESTAMPTZ;
+BEGIN
+  INSERT INTO shopee_rate_limit_state (partner_id, api_path)
+  VALUES (p_partner_id, p_api_path)
+  ON CONFLICT (partner_id, api_path) DO NOTHING;
+
+  -- Row lock serializes concurrent reporters for the same key
+  SELECT * INTO v_state FROM shopee_rate_limit_state
+  WHERE partner_id = p_partner_id AND api_path = p_api_path
+  FOR UPDATE;
+
+  -- Throttles that arrive during an active backoff are echoes of the same burst
+  IF v_state.backoff_until IS NOT NULL AND v_state.backoff_until > now() THEN
+    RETURN get_rate_limit_state(p_partner_id, p_api_path);
+  END IF;
+
+  -- Exponential backoff 1s, 2s, 4s... capped at 60s, plus up to 50% jitter
+  v_base_ms := LEAST(1000 * POWER(2, LEAST(v_state.consecutive_throttles, 6)), 60000)::INTEGER;
+  v_backoff_ms := v_base_ms + FLOOR(random() * v_base_ms * 0.5)::INTEGER;
+
+  UPDATE shopee_rate_limit_state
+  SET rate_per_sec = GREATEST(rate_per_sec * 0.5, 0.5),
+      backoff_until = now() + make_interval(secs => v_backoff_ms / 1000.0),
+      consecutive_throttles = consecutive_throttles + 1,
+      last_throttle_at = now(),
+      updated_at = now()
+  WHERE partner_id = p_partner_id AND api_path = p_api_path
+  RETURNING * INTO v_state;
+
+  -- 3+ paths throttled within a minute → partner-wide limit hit
+  SELECT COUNT(*) INTO v_recent_paths FROM shopee_rate_limit_state
+  WHERE partner_id = p_partner_id AND api_path <> '*'
+    AND last_throttle_at > now() - INTERVAL '1 minute';
+
+  IF v_recent_paths >= 3 THEN
+    v_partner_backoff := now() + make_interval(secs => v_backoff_ms / 1000.0);
+    INSERT INTO shopee_rate_limit_state (partner_id, api_path, backoff_until, consecutive_throttles, last_throttle_at)
+    VALUES (p_partner_id, '*', v_partner_backoff, 1, now())
+    ON CONFLICT (partner_id, api_path) DO UPDATE
+    SET backoff_until = GREATEST(shopee_rate_limit_state.backoff_until, EXCLUDED.backoff_until),
+        consecutive_throttles = shopee_rate_limit_state.consecutive_throttles + 1,
+        last_throttle_at = now(),
+        updated_at = now();
+  END IF;
+
+  INSERT INTO shopee_rate_limit_events (partner_id, api_path, source, http_status, shopee_error, backoff_ms, rate_after)
+  VALUES (p_partner_id, p_api_path, p_source, p_http_status, p_shopee_error, v_backoff_ms, v_state.rate_per_sec);
+
+  RETURN get_rate_limit_state(p_partner_id, p_api_path);
+END;
+$$;
+
+-- =====================================================
+-- 6. report_rate_limit_success - Additive increase
+-- =====================================================
+-- Reporters batch successes (p_count) to avoid one RPC per API call
+CREATE OR REPLACE FUNCTION report_rate_limit_success(
+  p_partner_id BIGINT,
+  p_api_path TEXT,
+  p_count INTEGER DEFAULT 1
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- +0.1 req/s per 10 successful calls, only once the backoff is over
+  UPDATE shopee_rate_limit_state
+  SET rate_per_sec = LEAST(rate_per_sec + 0.01 * p_count, 10),
+      consecutive_throttles = 0,
+      updated_at = now()
+  WHERE partner_id = p_partner_id AND api_path = p_api_path
+    AND (backoff_until IS NULL OR backoff_until < now());
+
+  RETURN get_rate_limit_state(p_partner_id, p_api_path);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_rate_limit_state(BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION report_rate_limit_throttle(BIGINT, TEXT, TEXT, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION report_rate_limit_success(BIGINT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION get_rate_limit_state(BIGINT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION report_rate_limit_throttle(BIGINT, TEXT, TEXT, INTEGER, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION report_rate_limit_success(BIGINT, TEXT, INTEGER) TO service_role;
+
+-- =====================================================
+-- 7. get_rate_limit_analysis - Add current limits + throttle events
+-- =====================================================
+CREATE OR REPLACE FUNCTION get_rate_limit_analysis(
+  p_hours INTEGER DEFAULT 6,
+  p_partner_id BIGINT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result JSON;
+  start_time TIMESTAMPTZ := NOW() - (p_hours || ' hours')::INTERVAL;
+BEGIN
+  SELECT json_build_object(
+    'timeline', (
+      SELECT COALESCE(json_agg(row_data ORDER BY minute), '[]'::json)
+      FROM (
+        SELECT json_build_object(
+          'minute', date_trunc('minute', created_at),
+          'total_calls', COUNT(*),
+          'success', COUNT(*) FILTER (WHERE status = 'success'),
+          'rate_limit_errors', COUNT(*) FILTER (WHERE shopee_error = 'error_rate_limit'),
+          'other_errors', COUNT(*) FILTER (WHERE status != 'success' AND (shopee_error IS NULL OR shopee_error != 'error_rate_limit')),
+          'partner_id', partner_id
+        ) as row_data,
+        date_trunc('minute', created_at) as minute
+        FROM api_call_logs
+        WHERE created_at > start_time
+          AND (p_partner_id IS NULL OR partner_id = p_partner_id)
+        GROUP BY date_trunc('minute', created_at), partner_id
+      ) sub
+    ),
+    'summary', (
+      SELECT json_build_object(
+        'total_calls', COUNT(*),
+        'rate_limit_errors', COUNT(*) FILTER (WHERE shopee_error = 'error_rate_limit'),
+        'peak_calls_per_min', (
+          SELECT MAX(cnt) FROM (
+            SELECT COUNT(*) as cnt FROM api_call_logs
+            WHERE created_at > start_time AND (p_partner_id IS NULL OR partner_id = p_partner_id)
+            GROUP BY date_trunc('minute', created_at)
+          ) sub
+        ),
+        'safe_threshold_per_min', (
+          SELECT COALESCE(MIN(cnt), 0) FROM (
+            SELECT date_trunc('minute', created_at) as min, COUNT(*) as cnt
+            FROM api_call_logs
+            WHERE created_at > start_time AND (p_partner_id IS NULL OR partner_id = p_partner_id)
+              AND shopee_error = 'error_rate_limit'
+            GROUP BY date_trunc('minute', created_at)
+          ) sub
+        ),
+        'avg_calls_per_min', ROUND(
+          COUNT(*)::NUMERIC / NULLIF(EXTRACT(EPOCH FROM (NOW() - start_time)) / 60, 0), 1
+        )
+      )
+      FROM api_call_logs
+      WHERE created_at > start_time AND (p_partner_id IS NULL OR partner_id = p_partner_id)
+    ),
+    'partners', (
+      SELECT COALESCE(json_agg(p), '[]'::json)
+      FROM (
+        SELECT json_build_object(
+          'partner_id', partner_id, 'total_calls', COUNT(*),
+          'rate_limit_errors', COUNT(*) FILTER (WHERE shopee_error = 'error_rate_limit')
+        ) as p
+        FROM api_call_logs
+        WHERE created_at > start_time AND partner_id IS NOT NULL
+        GROUP BY partner_id
+      ) sub
+    ),
+    'current_limits', (
+      SELECT COALESCE(json_agg(l ORDER BY l->>'partner_id', l->>'api_path'), '[]'::json)
+      FROM (
+        SELECT json_build_object(
+          'partner_id', partner_id, 'api_path', api_path,
+          'rate_per_sec', rate_per_sec,
+          'backoff_until', CASE WHEN backoff_until > NOW() THEN backoff_until END,
+          'consecutive_throttles', consecutive_throttles,
+          'last_throttle_at', last_throttle_at,
+          'updated_at', updated_at
+        ) as l
+        FROM shopee_rate_limit_state
+        WHERE (p_partner_id IS NULL OR partner_id = p_partner_id)
+      ) sub
+    ),
+    'throttle_events', (
+      SELECT COALESCE(json_agg(e ORDER BY (e->>'created_at') DESC), '[]'::json)
+      FROM (
+        SELECT json_build_object(
+          'partner_id', partner_id, 'api_path', api_path, 'source', source,
+          'http_status', http_status, 'shopee_error', shopee_error,
+          'backoff_ms', backoff_ms, 'rate_after', rate_after, 'created_at', created_at
+        ) as e
+        FROM shopee_rate_limit_events
+        WHERE created_at > start_time
+          AND (p_partner_id IS NULL OR partner_id = p_partner_id)
+        ORDER BY created_at DESC
+        LIMIT 200
+      ) sub
+    )
+  ) INTO result;
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_rate_limit_analysis(INTEGER, BIGINT) TO authenticated;
+
+-- =====================================================
+-- 8. Retention
+-- =====================================================
+-- Throttle events: keep 30 days
+SELECT cron.schedule(
+  'cleanup-rate-limit-events',
+  '0 6 * * 0',  -- Sunday 6am UTC
+  $$DELETE FROM shopee_rate_limit_events WHERE id IN (
+    SELECT id FROM shopee_rate_limit_events WHERE created_at < NOW() - INTERVAL '30 days' LIMIT 10000
+  )$$
+);
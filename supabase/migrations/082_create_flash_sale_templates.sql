@@ -0,0 +1,222 @@
+-- =====================================================
+-- Migration 082: Flash Sale Templates
+-- =====================================================
+-- Named, versioned flash sale templates reusable across shops and timeslots.
+-- - Template: name + current_version, attached to one or many shops
+-- - Version: immutable item/model list with price rules (absolute, % off original,
+--   floor price), campaign stock limits and purchase limits + the get_item_criteria
+--   snapshot it was validated against
+-- - apishopee_flash_sale_auto_history.template_id / template_version: scheduled jobs
+--   reference a template version instead of copying items_data; the scheduler
+--   resolves it against the shop's products when the job runs
+-- Item JSON shape: FlashSaleTemplateItem in supabase/functions/_shared/flash-sale-template.ts
+
+-- =====================================================
+-- 1. apishopee_flash_sale_templates
+-- =====================================================
+CREATE TABLE IF NOT EXISTS apishopee_flash_sale_templates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  source_shop_id BIGINT,
+  current_version INTEGER NOT NULL DEFAULT 1,
+  is_archived BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+COMMENT ON TABLE apishopee_flash_sale_templates IS 'Named flash sale templates (items + price rules), reusable across shops and timeslots';
+COMMENT ON COLUMN apishopee_flash_sale_templates.source_shop_id IS 'Shop the template items were picked from (item_id / model_id match); other shops match by SKU';
+COMMENT ON COLUMN apishopee_flash_sale_templates.current_version IS 'Version used by new schedules';
+
+CREATE INDEX IF NOT EXISTS idx_fs_templates_created_by
+  ON apishopee_flash_sale_templates(created_by);
+
+-- =====================================================
+-- 2. apishopee_flash_sale_template_versions (immutable)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS apishopee_flash_sale_template_versions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_id UUID NOT NULL REFERENCES apishopee_flash_sale_templates(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  items JSONB NOT NULL DEFAULT '[]',
+  criteria_snapshot JSONB,
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (template_id, version)
+);
+
+COMMENT ON TABLE apishopee_flash_sale_template_versions IS 'Immutable versions of a flash sale template';
+COMMENT ON COLUMN apishopee_flash_sale_template_versions.items IS 'FlashSaleTemplateItem[]: item/model ids + SKUs, price_rule, stock and purchase limits';
+COMMENT ON COLUMN apishopee_flash_sale_template_versions.criteria_snapshot IS 'get_item_criteria response the version was validated against before saving';
+
+-- =====================================================
+-- 3. apishopee_flash_sale_template_shops - attachments
+-- =====================================================
+CREATE TABLE IF NOT EXISTS apishopee_flash_sale_template_shops (
+  template_id UUID NOT NULL REFERENCES apishopee_flash_sale_templates(id) ON DELETE CASCADE,
+  shop_id BIGINT NOT NULL,
+  attached_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (template_id, shop_id)
+);
+
+COMMENT ON TABLE apishopee_flash_sale_template_shops IS 'Shops a flash sale template can be scheduled for';
+
+CREATE INDEX IF NOT EXISTS idx_fs_template_shops_shop
+  ON apishopee_flash_sale_template_shops(shop_id);
+
+-- =====================================================
+-- 4. Auto history references a template version
+-- =====================================================
+ALTER TABLE apishopee_flash_sale_auto_history
+  ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES apishopee_flash_sale_templates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS template_version INTEGER;
+
+COMMENT ON COLUMN apishopee_flash_sale_auto_history.template_id IS 'Template resolved by the scheduler when items_data is empty';
+COMMENT ON COLUMN apishopee_flash_sale_auto_history.template_version IS 'Pinned template version (NULL = current_version at run time)';
+
+CREATE INDEX IF NOT EXISTS idx_fs_auto_history_template
+  ON apishopee_flash_sale_auto_history(template_id)
+  WHERE template_id IS NOT NULL;
+
+-- =====================================================
+-- 5. Visibility helper
+-- =====================================================
+-- Template visible to its creator and to active members of any attached shop.
+-- SECURITY DEFINER so policies on the three tables do not recurse into each other.
+CREATE OR REPLACE FUNCTION can_access_flash_sale_template(p_template_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM apishopee_flash_sale_templates t
+    WHERE t.id = p_template_id AND t.created_by = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM apishopee_flash_sale_template_shops ts
+    JOIN apishopee_shops s ON s.shop_id = ts.shop_id
+    JOIN apishopee_shop_members sm ON sm.shop_id = s.id
+    WHERE ts.template_id = p_template_id
+    AND sm.profile_id = auth.uid()
+    AND sm.is_active = true
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION can_access_flash_sale_template(UUID) TO authenticated;
+
+-- =====================================================
+-- 6. RLS
+-- =====================================================
+ALTER TABLE apishopee_flash_sale_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE apishopee_flash_sale_template_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE apishopee_flash_sale_template_shops ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to flash sale templates"
+  ON apishopee_flash_sale_templates
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Users can view accessible flash sale templates"
+  ON apishopee_flash_sale_templates
+  FOR SELECT
+  TO authenticated
+  USING (can_access_flash_sale_template(id));
+
+CREATE POLICY "Users can create own flash sale templates"
+  ON apishopee_flash_sale_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can update accessible flash sale templates"
+  ON apishopee_flash_sale_templates
+  FOR UPDATE
+  TO authenticated
+  USING (can_access_flash_sale_template(id));
+
+CREATE POLICY "Service role full access to flash sale template versions"
+  ON apishopee_flash_sale_template_versions
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Users can view accessible flash sale template versions"
+  ON apishopee_flash_sale_template_versions
+  FOR SELECT
+  TO authenticated
+  USING (can_access_flash_sale_template(template_id));
+
+-- Versions are append-only: no UPDATE / DELETE policy
+CREATE POLICY "Users can add versions to accessible flash sale templates"
+  ON apishopee_flash_sale_template_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid() AND can_access_flash_sale_template(template_id));
+
+CREATE POLICY "Service role full access to flash sale template shops"
+  ON apishopee_flash_sale_template_shops
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Users can view accessible flash sale template shops"
+  ON apishopee_flash_sale_template_shops
+  FOR SELECT
+  TO authenticated
+  USING (can_access_flash_sale_template(template_id));
+
+-- Attach / detach only for shops the user is a member of
+CREATE POLICY "Users can attach flash sale templates to their shops"
+  ON apishopee_flash_sale_template_shops
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    can_access_flash_sale_template(template_id)
+    AND EXISTS (
+      SELECT 1 FROM apishopee_shop_members sm
+      JOIN apishopee_shops s ON s.id = sm.shop_id
+      WHERE s.shop_id = apishopee_flash_sale_template_shops.shop_id
+      AND sm.profile_id = auth.uid()
+      AND sm.is_active = true
+    )
+  );
+
+CREATE POLICY "Users can detach flash sale templates from their shops"
+  ON apishopee_flash_sale_template_shops
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM apishopee_shop_members sm
+      JOIN apishopee_shops s ON s.id = sm.shop_id
+      WHERE s.shop_id = apishopee_flash_sale_template_shops.shop_id
+      AND sm.profile_id = auth.uid()
+      AND sm.is_active = true
+    )
+  );
+
+-- =====================================================
+-- 7. updated_at trigger
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_flash_sale_templates_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_flash_sale_templates_updated_at ON apishopee_flash_sale_templates;
+CREATE TRIGGER trigger_flash_sale_templates_updated_at
+  BEFORE UPDATE ON apishopee_flash_sale_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_flash_sale_templates_updated_at();
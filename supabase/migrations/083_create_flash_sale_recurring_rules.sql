@@ -0,0 +1,117 @@
+-- =====================================================
+-- Migration 083: Recurring Flash Sale Schedules
+-- =====================================================
+-- Recurring rules ("every day at 12:00 and 21:00") instead of one-shot timeslot picks.
+-- The worker expands active rules into apishopee_flash_sale_auto_history rows as Shopee
+-- publishes new time slots (queue flash_sale_expand), skipping slots that already have
+-- a history row or a flash sale. Matching logic: supabase/functions/_shared/flash-sale-recurrence.ts
+
+-- =====================================================
+-- 1. apishopee_flash_sale_recurring_rules
+-- =====================================================
+CREATE TABLE IF NOT EXISTS apishopee_flash_sale_recurring_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  shop_id BIGINT NOT NULL,
+  name TEXT,
+  days_of_week SMALLINT[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}',
+  start_hours SMALLINT[] NOT NULL,
+  lead_time_minutes INTEGER NOT NULL DEFAULT 10 CHECK (lead_time_minutes >= 0),
+  timezone TEXT NOT NULL DEFAULT 'Asia/Ho_Chi_Minh',
+  horizon_days INTEGER NOT NULL DEFAULT 3 CHECK (horizon_days BETWEEN 1 AND 14),
+  template_id UUID REFERENCES apishopee_flash_sale_templates(id) ON DELETE SET NULL,
+  excluded_timeslot_ids BIGINT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  last_expanded_at TIMESTAMPTZ,
+  last_expansion JSONB,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT recurring_rules_days_check CHECK (
+    cardinality(days_of_week) > 0 AND days_of_week <@ '{0,1,2,3,4,5,6}'::SMALLINT[]
+  ),
+  CONSTRAINT recurring_rules_hours_check CHECK (
+    cardinality(start_hours) > 0
+    AND start_hours <@ '{0,1,2,3,4,5,6,7,8,9,10,11,12,13,14,15,16,17,18,19,20,21,22,23}'::SMALLINT[]
+  )
+);
+
+COMMENT ON TABLE apishopee_flash_sale_recurring_rules IS 'Recurring flash sale schedules expanded into auto_history rows by the worker';
+COMMENT ON COLUMN apishopee_flash_sale_recurring_rules.days_of_week IS '0 = Sunday ... 6 = Saturday, in the rule timezone';
+COMMENT ON COLUMN apishopee_flash_sale_recurring_rules.start_hours IS 'Time slot start hours (0-23) in the rule timezone';
+COMMENT ON COLUMN apishopee_flash_sale_recurring_rules.horizon_days IS 'Only slots starting within this many days are scheduled';
+COMMENT ON COLUMN apishopee_flash_sale_recurring_rules.template_id IS 'Item source; NULL = latest flash sale / history like one-shot schedules';
+COMMENT ON COLUMN apishopee_flash_sale_recurring_rules.excluded_timeslot_ids IS 'Slots whose generated row was deleted by a user - never re-scheduled';
+COMMENT ON COLUMN apishopee_flash_sale_recurring_rules.last_expansion IS 'Result of the last expansion: scheduled / skipped timeslots';
+COMMENT ON COLUMN apishopee_flash_sale_recurring_rules.created_by IS 'Owner of the generated auto_history rows (user_id)';
+
+CREATE INDEX IF NOT EXISTS idx_fs_recurring_rules_shop
+  ON apishopee_flash_sale_recurring_rules(shop_id);
+CREATE INDEX IF NOT EXISTS idx_fs_recurring_rules_active
+  ON apishopee_flash_sale_recurring_rules(is_active)
+  WHERE is_active = true;
+
+-- =====================================================
+-- 2. Auto history references the rule that generated it
+-- =====================================================
+ALTER TABLE apishopee_flash_sale_auto_history
+  ADD COLUMN IF NOT EXISTS recurring_rule_id UUID REFERENCES apishopee_flash_sale_recurring_rules(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN apishopee_flash_sale_auto_history.recurring_rule_id IS 'Recurring rule that generated this row (NULL = one-shot)';
+
+CREATE INDEX IF NOT EXISTS idx_fs_auto_history_shop_timeslot
+  ON apishopee_flash_sale_auto_history(shop_id, timeslot_id);
+
+COMMENT ON COLUMN worker_jobs.queue IS 'Job type: flash_sale_create | flash_sale_sync | flash_sale_expand | token_refresh';
+
+-- =====================================================
+-- 3. RLS
+-- =====================================================
+ALTER TABLE apishopee_flash_sale_recurring_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to flash sale recurring rules"
+  ON apishopee_flash_sale_recurring_rules
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Users can manage recurring rules of their shops"
+  ON apishopee_flash_sale_recurring_rules
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM apishopee_shop_members sm
+      JOIN apishopee_shops s ON s.id = sm.shop_id
+      WHERE s.shop_id = apishopee_flash_sale_recurring_rules.shop_id
+      AND sm.profile_id = auth.uid()
+      AND sm.is_active = true
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM apishopee_shop_members sm
+      JOIN apishopee_shops s ON s.id = sm.shop_id
+      WHERE s.shop_id = apishopee_flash_sale_recurring_rules.shop_id
+      AND sm.profile_id = auth.uid()
+      AND sm.is_active = true
+    )
+  );
+
+-- =====================================================
+-- 4. updated_at trigger
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_flash_sale_recurring_rules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_flash_sale_recurring_rules_updated_at ON apishopee_flash_sale_recurring_rules;
+CREATE TRIGGER trigger_flash_sale_recurring_rules_updated_at
+  BEFORE UPDATE ON apishopee_flash_sale_recurring_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_flash_sale_recurring_rules_updated_at();
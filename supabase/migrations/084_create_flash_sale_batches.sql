@@ -0,0 +1,220 @@
+-- =====================================================
+-- Migration 084: Cross-shop Flash Sale Batches
+-- =====================================================
+-- Bulk scheduling from AllShopsFlashSalePanel: N shops x selected time-of-day slots,
+-- enqueued as one batch.
+-- - apishopee_flash_sale_batches: wizard settings (shops, hours, item source)
+-- - apishopee_flash_sale_batch_shops: per-shop enqueue result (slots / items resolved
+--   in the preview, or why the shop could not be scheduled)
+-- - apishopee_flash_sale_auto_history.batch_id: one scheduled row per shop + timeslot,
+--   executed by the normal scheduler; progress = row statuses grouped by shop
+-- - apishopee_flash_sale_auto_history.item_source: top sellers source resolved at run
+--   time (latest sale / template keep using items_data / template_id)
+-- Rows are written by create_flash_sale_batch / append_flash_sale_batch in one transaction.
+
+-- =====================================================
+-- 1. apishopee_flash_sale_batches
+-- =====================================================
+CREATE TABLE IF NOT EXISTS apishopee_flash_sale_batches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT,
+  shop_ids BIGINT[] NOT NULL,
+  start_hours SMALLINT[] NOT NULL,
+  horizon_days INTEGER NOT NULL CHECK (horizon_days BETWEEN 1 AND 14),
+  lead_time_minutes INTEGER NOT NULL DEFAULT 10 CHECK (lead_time_minutes >= 0),
+  timezone TEXT NOT NULL DEFAULT 'Asia/Ho_Chi_Minh',
+  item_source JSONB NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+COMMENT ON TABLE apishopee_flash_sale_batches IS 'Cross-shop flash sale scheduling batches (bulk wizard)';
+COMMENT ON COLUMN apishopee_flash_sale_batches.item_source IS 'BatchItemSource: {type: latest} | {type: template, template_id, template_version} | {type: top_sellers, limit, percent_off, stock, purchase_limit}';
+COMMENT ON COLUMN apishopee_flash_sale_batches.start_hours IS 'Time slot start hours (0-23) in the batch timezone';
+
+CREATE INDEX IF NOT EXISTS idx_fs_batches_created_by
+  ON apishopee_flash_sale_batches(created_by, created_at DESC);
+
+-- =====================================================
+-- 2. apishopee_flash_sale_batch_shops
+-- =====================================================
+CREATE TABLE IF NOT EXISTS apishopee_flash_sale_batch_shops (
+  batch_id UUID NOT NULL REFERENCES apishopee_flash_sale_batches(id) ON DELETE CASCADE,
+  shop_id BIGINT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('scheduled', 'failed')),
+  slots_count INTEGER NOT NULL DEFAULT 0,
+  items_count INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (batch_id, shop_id)
+);
+
+COMMENT ON TABLE apishopee_flash_sale_batch_shops IS 'Per-shop enqueue result of a flash sale batch';
+COMMENT ON COLUMN apishopee_flash_sale_batch_shops.status IS 'scheduled = auto_history rows created; failed = nothing enqueued (no slot / no item / API error)';
+
+-- =====================================================
+-- 3. Auto history columns
+-- =====================================================
+ALTER TABLE apishopee_flash_sale_auto_history
+  ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES apishopee_flash_sale_batches(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS item_source JSONB;
+
+COMMENT ON COLUMN apishopee_flash_sale_auto_history.batch_id IS 'Cross-shop batch that created this row';
+COMMENT ON COLUMN apishopee_flash_sale_auto_history.item_source IS 'Top sellers source {type: top_sellers, limit, percent_off, stock, purchase_limit}, used when items_data and template_id are empty';
+
+CREATE INDEX IF NOT EXISTS idx_fs_auto_history_batch
+  ON apishopee_flash_sale_auto_history(batch_id)
+  WHERE batch_id IS NOT NULL;
+
+-- =====================================================
+-- 4. Enqueue functions
+-- =====================================================
+-- SECURITY INVOKER: RLS of the three tables still applies (auto_history rows must
+-- belong to the caller). All rows of a call are written or none.
+CREATE OR REPLACE FUNCTION append_flash_sale_batch(
+  p_batch_id UUID,
+  p_shops JSONB,
+  p_rows JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_inserted INTEGER;
+BEGIN
+  INSERT INTO apishopee_flash_sale_batch_shops (batch_id, shop_id, status, slots_count, items_count, error_message)
+  SELECT p_batch_id, s.shop_id, s.status, COALESCE(s.slots_count, 0), COALESCE(s.items_count, 0), s.error_message
+  FROM jsonb_to_recordset(p_shops) AS s(shop_id BIGINT, status TEXT, slots_count INTEGER, items_count INTEGER, error_message TEXT)
+  ON CONFLICT (batch_id, shop_id) DO UPDATE SET
+    status = EXCLUDED.status,
+    slots_count = EXCLUDED.slots_count,
+    items_count = EXCLUDED.items_count,
+    error_message = EXCLUDED.error_message,
+    attempts = apishopee_flash_sale_batch_shops.attempts + 1,
+    updated_at = now();
+
+  INSERT INTO apishopee_flash_sale_auto_history (
+    shop_id, user_id, timeslot_id, status, lead_time_minutes, scheduled_at,
+    slot_start_time, slot_end_time, items_count, template_id, template_version, item_source, batch_id
+  )
+  SELECT r.shop_id, auth.uid(), r.timeslot_id, 'scheduled', r.lead_time_minutes, r.scheduled_at,
+    r.slot_start_time, r.slot_end_time, COALESCE(r.items_count, 0), r.template_id, r.template_version, r.item_source, p_batch_id
+  FROM jsonb_to_recordset(p_rows) AS r(
+    shop_id BIGINT, timeslot_id BIGINT, lead_time_minutes INTEGER, scheduled_at TIMESTAMPTZ,
+    slot_start_time BIGINT, slot_end_time BIGINT, items_count INTEGER,
+    template_id UUID, template_version INTEGER, item_source JSONB
+  );
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  UPDATE apishopee_flash_sale_batches SET updated_at = now() WHERE id = p_batch_id;
+  RETURN v_inserted;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_flash_sale_batch(
+  p_batch JSONB,
+  p_shops JSONB,
+  p_rows JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_batch_id UUID;
+BEGIN
+  INSERT INTO apishopee_flash_sale_batches (
+    name, shop_ids, start_hours, horizon_days, lead_time_minutes, timezone, item_source, created_by
+  )
+  VALUES (
+    p_batch->>'name',
+    ARRAY(SELECT jsonb_array_elements_text(p_batch->'shop_ids')::BIGINT),
+    ARRAY(SELECT jsonb_array_elements_text(p_batch->'start_hours')::SMALLINT),
+    (p_batch->>'horizon_days')::INTEGER,
+    (p_batch->>'lead_time_minutes')::INTEGER,
+    COALESCE(p_batch->>'timezone', 'Asia/Ho_Chi_Minh'),
+    p_batch->'item_source',
+    auth.uid()
+  )
+  RETURNING id INTO v_batch_id;
+
+  PERFORM append_flash_sale_batch(v_batch_id, p_shops, p_rows);
+  RETURN v_batch_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION append_flash_sale_batch(UUID, JSONB, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_flash_sale_batch(JSONB, JSONB, JSONB) TO authenticated;
+
+-- =====================================================
+-- 5. RLS
+-- =====================================================
+ALTER TABLE apishopee_flash_sale_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE apishopee_flash_sale_batch_shops ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to flash sale batches"
+  ON apishopee_flash_sale_batches
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Users can manage own flash sale batches"
+  ON apishopee_flash_sale_batches
+  FOR ALL
+  TO authenticated
+  USING (created_by = auth.uid())
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Service role full access to flash sale batch shops"
+  ON apishopee_flash_sale_batch_shops
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Batch rows only for shops the user is a member of
+CREATE POLICY "Users can manage shops of own flash sale batches"
+  ON apishopee_flash_sale_batch_shops
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM apishopee_flash_sale_batches b
+      WHERE b.id = apishopee_flash_sale_batch_shops.batch_id
+      AND b.created_by = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM apishopee_flash_sale_batches b
+      WHERE b.id = apishopee_flash_sale_batch_shops.batch_id
+      AND b.created_by = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM apishopee_shop_members sm
+      JOIN apishopee_shops s ON s.id = sm.shop_id
+      WHERE s.shop_id = apishopee_flash_sale_batch_shops.shop_id
+      AND sm.profile_id = auth.uid()
+      AND sm.is_active = true
+    )
+  );
+
+-- =====================================================
+-- 6. updated_at trigger
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_flash_sale_batches_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_flash_sale_batches_updated_at ON apishopee_flash_sale_batches;
+CREATE TRIGGER trigger_flash_sale_batches_updated_at
+  BEFORE UPDATE ON apishopee_flash_sale_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_flash_sale_batches_updated_at();
@@ -0,0 +1,25 @@
+-- =====================================================
+-- Migration 085: Manual Product Edits
+-- =====================================================
+-- apishopee-product gains write actions (update-price, update-stock, unlist-item)
+-- used by inline editing in ProductsPanel. Each successful write is logged to
+-- apishopee_product_history_logs with source = 'manual' and the user who made it.
+
+-- =====================================================
+-- 1. History log source + actor
+-- =====================================================
+ALTER TABLE apishopee_product_history_logs
+  ADD COLUMN IF NOT EXISTS actor_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN apishopee_product_history_logs.actor_user_id IS 'User who made a manual change from the app (source = manual)';
+
+ALTER TABLE apishopee_product_history_logs
+  DROP CONSTRAINT IF EXISTS apishopee_product_history_logs_source_check;
+
+ALTER TABLE apishopee_product_history_logs
+  ADD CONSTRAINT apishopee_product_history_logs_source_check
+  CHECK (source IN ('webhook', 'api_sync', 'manual_check', 'manual'));
+
+CREATE INDEX IF NOT EXISTS idx_product_history_logs_actor
+  ON apishopee_product_history_logs(actor_user_id, detected_at DESC)
+  WHERE actor_user_id IS NOT NULL;
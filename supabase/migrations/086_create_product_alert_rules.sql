@@ -0,0 +1,181 @@
+-- =====================================================
+-- Migration 086: Product Price Guardrails & Alerts
+-- =====================================================
+-- User-configurable rules per shop (optionally per category / item) evaluated by
+-- apishopee-product-webhook whenever it writes a product history log:
+--   price_drop_percent / price_increase_percent (threshold = %), price_below_floor
+--   (threshold = VND), stock_out_flash_sale, status_banned.
+-- Each hit is persisted in apishopee_product_alerts (open / acknowledged / snoozed)
+-- and shown as an inbox in ProductHistoryPanel.
+-- Matching logic: supabase/functions/_shared/product-alert-rules.ts
+
+-- =====================================================
+-- 1. apishopee_product_alert_rules
+-- =====================================================
+CREATE TABLE IF NOT EXISTS apishopee_product_alert_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  shop_id BIGINT NOT NULL,
+  category_id BIGINT,
+  item_id BIGINT,
+  name TEXT,
+  rule_type TEXT NOT NULL CHECK (rule_type IN (
+    'price_drop_percent', 'price_increase_percent', 'price_below_floor', 'stock_out_flash_sale', 'status_banned'
+  )),
+  threshold NUMERIC,
+  severity TEXT NOT NULL DEFAULT 'WARNING' CHECK (severity IN ('INFO', 'WARNING', 'HIGH', 'CRITICAL')),
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT product_alert_rules_threshold_check CHECK (
+    CASE
+      WHEN rule_type IN ('price_drop_percent', 'price_increase_percent') THEN threshold > 0 AND threshold <= 1000
+      WHEN rule_type = 'price_below_floor' THEN threshold > 0
+      ELSE true
+    END
+  )
+);
+
+COMMENT ON TABLE apishopee_product_alert_rules IS 'Price / stock / status guardrails evaluated on every product history log';
+COMMENT ON COLUMN apishopee_product_alert_rules.category_id IS 'Only items of this category; NULL = whole shop';
+COMMENT ON COLUMN apishopee_product_alert_rules.item_id IS 'Only this item (e.g. per-item cost floor); NULL = whole shop';
+COMMENT ON COLUMN apishopee_product_alert_rules.threshold IS 'Percent for price_*_percent, VND for price_below_floor, unused otherwise';
+COMMENT ON COLUMN apishopee_product_alert_rules.severity IS 'Severity of the alert; the history log severity is raised to at least this level';
+
+CREATE INDEX IF NOT EXISTS idx_product_alert_rules_shop
+  ON apishopee_product_alert_rules(shop_id)
+  WHERE is_enabled = true;
+
+-- =====================================================
+-- 2. apishopee_product_alerts
+-- =====================================================
+CREATE TABLE IF NOT EXISTS apishopee_product_alerts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  shop_id BIGINT NOT NULL,
+  rule_id UUID REFERENCES apishopee_product_alert_rules(id) ON DELETE SET NULL,
+  history_log_id UUID REFERENCES apishopee_product_history_logs(id) ON DELETE SET NULL,
+  item_id BIGINT NOT NULL,
+  item_name TEXT,
+  model_id BIGINT,
+  model_name TEXT,
+  rule_type TEXT NOT NULL,
+  severity TEXT NOT NULL CHECK (severity IN ('INFO', 'WARNING', 'HIGH', 'CRITICAL')),
+  message TEXT NOT NULL,
+  details JSONB,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'snoozed')),
+  snoozed_until TIMESTAMPTZ,
+  acknowledged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  acknowledged_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT product_alerts_snooze_check CHECK (status <> 'snoozed' OR snoozed_until IS NOT NULL)
+);
+
+COMMENT ON TABLE apishopee_product_alerts IS 'Alert rule hits shown as an inbox in ProductHistoryPanel';
+COMMENT ON COLUMN apishopee_product_alerts.rule_type IS 'Copied from the rule so the alert stays readable after the rule is deleted';
+COMMENT ON COLUMN apishopee_product_alerts.snoozed_until IS 'Snoozed alerts are active again once this time has passed';
+
+CREATE INDEX IF NOT EXISTS idx_product_alerts_shop_status
+  ON apishopee_product_alerts(shop_id, status, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_alerts_rule_log
+  ON apishopee_product_alerts(rule_id, history_log_id);
+
+-- =====================================================
+-- 3. RLS
+-- =====================================================
+ALTER TABLE apishopee_product_alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE apishopee_product_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to product alert rules"
+  ON apishopee_product_alert_rules
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Users can manage alert rules of their shops"
+  ON apishopee_product_alert_rules
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM apishopee_shop_members sm
+      JOIN apishopee_shops s ON s.id = sm.shop_id
+      WHERE s.shop_id = apishopee_product_alert_rules.shop_id
+      AND sm.profile_id = auth.uid()
+      AND sm.is_active = true
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM apishopee_shop_members sm
+      JOIN apishopee_shops s ON s.id = sm.shop_id
+      WHERE s.shop_id = apishopee_product_alert_rules.shop_id
+      AND sm.profile_id = auth.uid()
+      AND sm.is_active = true
+    )
+  );
+
+CREATE POLICY "Service role full access to product alerts"
+  ON apishopee_product_alerts
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Alerts are created by the webhook (service role); members only read and acknowledge / snooze
+CREATE POLICY "Users can view alerts of their shops"
+  ON apishopee_product_alerts
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM apishopee_shop_members sm
+      JOIN apishopee_shops s ON s.id = sm.shop_id
+      WHERE s.shop_id = apishopee_product_alerts.shop_id
+      AND sm.profile_id = auth.uid()
+      AND sm.is_active = true
+    )
+  );
+
+CREATE POLICY "Users can update alerts of their shops"
+  ON apishopee_product_alerts
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM apishopee_shop_members sm
+      JOIN apishopee_shops s ON s.id = sm.shop_id
+      WHERE s.shop_id = apishopee_product_alerts.shop_id
+      AND sm.profile_id = auth.uid()
+      AND sm.is_active = true
+    )
+  );
+
+-- =====================================================
+-- 4. updated_at triggers
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_product_alerts_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_product_alert_rules_updated_at ON apishopee_product_alert_rules;
+CREATE TRIGGER trigger_product_alert_rules_updated_at
+  BEFORE UPDATE ON apishopee_product_alert_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_product_alerts_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_product_alerts_updated_at ON apishopee_product_alerts;
+CREATE TRIGGER trigger_product_alerts_updated_at
+  BEFORE UPDATE ON apishopee_product_alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_product_alerts_updated_at();
+
+-- =====================================================
+-- 5. Realtime for the inbox
+-- =====================================================
+ALTER PUBLICATION supabase_realtime ADD TABLE apishopee_product_alerts;
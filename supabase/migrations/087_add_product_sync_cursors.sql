@@ -0,0 +1,64 @@
+-- =====================================================
+-- Migration 087: Product Sync in the Worker
+-- =====================================================
+-- Product sync moves from apishopee-product (150s edge timeout) to the worker queue
+-- (queue product_sync, worker/src/jobs/product-sync.ts). State per shop lives on the
+-- apishopee_sync_status row that owns the shop's products:
+--   - products_update_time_cursor: incremental sync lists update_time >= cursor instead
+--     of the max update_time found in apishopee_products
+--   - products_sync_cursor: in-flight run (list pagination / pending item ids), saved after
+--     every page and batch so a reclaimed or continued job resumes where it stopped
+--   - products_reconciled_at: last full run; a full run detects deleted items, due daily
+--   - products_sync_interval_minutes / products_next_sync_at: per-shop schedule
+-- Planning logic: supabase/functions/_shared/product-sync.ts
+
+-- =====================================================
+-- 1. Cursor / schedule columns
+-- =====================================================
+ALTER TABLE apishopee_sync_status
+  ADD COLUMN IF NOT EXISTS products_update_time_cursor BIGINT,
+  ADD COLUMN IF NOT EXISTS products_sync_cursor JSONB,
+  ADD COLUMN IF NOT EXISTS products_reconciled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS products_sync_interval_minutes INTEGER DEFAULT 60,
+  ADD COLUMN IF NOT EXISTS products_next_sync_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS products_last_sync_result JSONB,
+  ADD COLUMN IF NOT EXISTS products_sync_error TEXT;
+
+ALTER TABLE apishopee_sync_status
+  DROP CONSTRAINT IF EXISTS sync_status_products_interval_check;
+ALTER TABLE apishopee_sync_status
+  ADD CONSTRAINT sync_status_products_interval_check
+  CHECK (products_sync_interval_minutes IS NULL OR products_sync_interval_minutes >= 15);
+
+COMMENT ON COLUMN apishopee_sync_status.products_update_time_cursor IS 'Unix seconds; the next incremental product sync lists items updated since this time';
+COMMENT ON COLUMN apishopee_sync_status.products_sync_cursor IS 'In-flight product sync (phase, pagination, pending item ids); NULL when idle';
+COMMENT ON COLUMN apishopee_sync_status.products_reconciled_at IS 'Last full product sync (deleted items removed)';
+COMMENT ON COLUMN apishopee_sync_status.products_sync_interval_minutes IS 'Automatic incremental sync interval; NULL = manual only';
+COMMENT ON COLUMN apishopee_sync_status.products_last_sync_result IS 'Counts of the last finished run: mode, inserted, updated, deleted, models, history_logs';
+
+-- Existing rows: continue from the data already synced
+UPDATE apishopee_sync_status s
+SET products_update_time_cursor = (
+  SELECT MAX(p.update_time) FROM apishopee_products p
+  WHERE p.shop_id = s.shop_id AND p.user_id = s.user_id
+)
+WHERE s.products_synced_at IS NOT NULL
+  AND s.products_update_time_cursor IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sync_status_products_next_sync
+  ON apishopee_sync_status(products_next_sync_at)
+  WHERE products_synced_at IS NOT NULL AND products_sync_interval_minutes IS NOT NULL;
+
+COMMENT ON COLUMN worker_jobs.queue IS 'Job type: flash_sale_create | flash_sale_sync | flash_sale_expand | token_refresh | product_sync';
+
+-- =====================================================
+-- 2. Retire the pg_cron edge sync (migration 045)
+-- =====================================================
+DO $$
+BEGIN
+  PERFORM cron.unschedule('products-sync-job');
+EXCEPTION WHEN OTHERS THEN
+  NULL;
+END $$;
+
+DROP FUNCTION IF EXISTS sync_all_shops_products();
@@ -0,0 +1,111 @@
+-- =====================================================
+-- Migration 088: Product Content Drafts
+-- =====================================================
+-- Edits of item name, description, attributes, brand, weight / dimension and images
+-- are staged per item before apishopee-product (action push-content) validates them
+-- against the category attribute requirements and pushes them with update_item.
+--   - base_content: content on Shopee when the draft was started (diff + conflict check)
+--   - content: edited content; images are uploaded to media_space beforehand
+-- A pushed draft is kept for reference; at most one open draft per item.
+-- Content logic: supabase/functions/_shared/product-content.ts
+
+-- =====================================================
+-- 1. apishopee_product_content_drafts
+-- =====================================================
+CREATE TABLE IF NOT EXISTS apishopee_product_content_drafts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  shop_id BIGINT NOT NULL,
+  item_id BIGINT NOT NULL,
+  category_id BIGINT,
+  base_content JSONB NOT NULL,
+  content JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'failed', 'pushed')),
+  validation_errors JSONB NOT NULL DEFAULT '[]',
+  last_error TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  pushed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  pushed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+COMMENT ON TABLE apishopee_product_content_drafts IS 'Staged product content edits, pushed to Shopee with update_item after validation';
+COMMENT ON COLUMN apishopee_product_content_drafts.base_content IS 'Content on Shopee when the draft was started';
+COMMENT ON COLUMN apishopee_product_content_drafts.validation_errors IS 'Errors of the last validation: [{field, attribute_id?, message}]';
+COMMENT ON COLUMN apishopee_product_content_drafts.status IS 'draft | failed (Shopee rejected the push, see last_error) | pushed';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_content_drafts_open_item
+  ON apishopee_product_content_drafts(shop_id, item_id)
+  WHERE status <> 'pushed';
+CREATE INDEX IF NOT EXISTS idx_product_content_drafts_shop
+  ON apishopee_product_content_drafts(shop_id, updated_at DESC);
+
+-- =====================================================
+-- 2. RLS
+-- =====================================================
+ALTER TABLE apishopee_product_content_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to product content drafts"
+  ON apishopee_product_content_drafts
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Members edit open drafts; pushing (status pushed) goes through apishopee-product
+CREATE POLICY "Users can view content drafts of their shops"
+  ON apishopee_product_content_drafts
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM apishopee_shop_members sm
+      JOIN apishopee_shops s ON s.id = sm.shop_id
+      WHERE s.shop_id = apishopee_product_content_drafts.shop_id
+      AND sm.profile_id = auth.uid()
+      AND sm.is_active = true
+    )
+  );
+
+CREATE POLICY "Users can manage open content drafts of their shops"
+  ON apishopee_product_content_drafts
+  FOR ALL
+  TO authenticated
+  USING (
+    status <> 'pushed'
+    AND EXISTS (
+      SELECT 1 FROM apishopee_shop_members sm
+      JOIN apishopee_shops s ON s.id = sm.shop_id
+      WHERE s.shop_id = apishopee_product_content_drafts.shop_id
+      AND sm.profile_id = auth.uid()
+      AND sm.is_active = true
+    )
+  )
+  WITH CHECK (
+    status <> 'pushed'
+    AND EXISTS (
+      SELECT 1 FROM apishopee_shop_members sm
+      JOIN apishopee_shops s ON s.id = sm.shop_id
+      WHERE s.shop_id = apishopee_product_content_drafts.shop_id
+      AND sm.profile_id = auth.uid()
+      AND sm.is_active = true
+    )
+  );
+
+-- =====================================================
+-- 3. updated_at trigger
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_product_content_drafts_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_product_content_drafts_updated_at ON apishopee_product_content_drafts;
+CREATE TRIGGER trigger_product_content_drafts_updated_at
+  BEFORE UPDATE ON apishopee_product_content_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_product_content_drafts_updated_at();
@@ -0,0 +1,82 @@
+-- =====================================================
+-- Migration 089: Cross-shop Catalog SKU Links
+-- =====================================================
+-- The master catalogue (ProductsPage "Danh mục chung") groups items / models of all
+-- shops by normalized item_sku / model_sku. A link overrides that match for one listing:
+--   - master_sku set: the listing belongs to that master SKU
+--   - master_sku NULL: the listing is excluded from matching
+-- model_id = 0 is an item without models. Matching logic: src/lib/shopee/product-catalog.ts
+
+-- =====================================================
+-- 1. apishopee_catalog_sku_links
+-- =====================================================
+CREATE TABLE IF NOT EXISTS apishopee_catalog_sku_links (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  shop_id BIGINT NOT NULL,
+  item_id BIGINT NOT NULL,
+  model_id BIGINT NOT NULL DEFAULT 0,
+  master_sku TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (shop_id, item_id, model_id)
+);
+
+COMMENT ON TABLE apishopee_catalog_sku_links IS 'Manual overrides of the cross-shop SKU matching';
+COMMENT ON COLUMN apishopee_catalog_sku_links.master_sku IS 'Normalized master SKU; NULL = excluded from matching';
+
+CREATE INDEX IF NOT EXISTS idx_catalog_sku_links_master
+  ON apishopee_catalog_sku_links(master_sku);
+
+-- =====================================================
+-- 2. RLS
+-- =====================================================
+ALTER TABLE apishopee_catalog_sku_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to catalog sku links"
+  ON apishopee_catalog_sku_links
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Users can manage catalog links of their shops"
+  ON apishopee_catalog_sku_links
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM apishopee_shop_members sm
+      JOIN apishopee_shops s ON s.id = sm.shop_id
+      WHERE s.shop_id = apishopee_catalog_sku_links.shop_id
+      AND sm.profile_id = auth.uid()
+      AND sm.is_active = true
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM apishopee_shop_members sm
+      JOIN apishopee_shops s ON s.id = sm.shop_id
+      WHERE s.shop_id = apishopee_catalog_sku_links.shop_id
+      AND sm.profile_id = auth.uid()
+      AND sm.is_active = true
+    )
+  );
+
+-- =====================================================
+-- 3. updated_at trigger
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_catalog_sku_links_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_catalog_sku_links_updated_at ON apishopee_catalog_sku_links;
+CREATE TRIGGER trigger_catalog_sku_links_updated_at
+  BEFORE UPDATE ON apishopee_catalog_sku_links
+  FOR EACH ROW
+  EXECUTE FUNCTION update_catalog_sku_links_updated_at();
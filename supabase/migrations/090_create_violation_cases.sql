@@ -0,0 +1,119 @@
+-- =====================================================
+-- Migration 090: Product Violation Cases
+-- =====================================================
+-- violation_item_push (apishopee-product-webhook) opens one case per item + violation_type;
+-- a repeated push bumps report_count and reopens a case that was marked fixed.
+--   open → in_progress → fixed → verified
+-- verified is only set by apishopee-product (action verify-violation) after get_item_base_info
+-- confirms the item status. Open cases are shown next to the listing violation metrics
+-- (account_health 52-54) in ShopPerformancePanel.
+-- Status logic: supabase/functions/_shared/violation-cases.ts
+
+-- =====================================================
+-- 1. apishopee_violation_cases
+-- =====================================================
+CREATE TABLE IF NOT EXISTS apishopee_violation_cases (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  shop_id BIGINT NOT NULL,
+  item_id BIGINT NOT NULL,
+  item_name TEXT,
+  violation_type TEXT NOT NULL,
+  violation_reason TEXT,
+  suggestion TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'fixed', 'verified')),
+  assignee_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  due_at TIMESTAMPTZ,
+  note TEXT,
+  history_log_id UUID REFERENCES apishopee_product_history_logs(id) ON DELETE SET NULL,
+  report_count INTEGER NOT NULL DEFAULT 1,
+  first_reported_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_reported_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  fixed_at TIMESTAMPTZ,
+  fixed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  last_check_at TIMESTAMPTZ,
+  last_check_item_status TEXT,
+  last_check_message TEXT,
+  verified_at TIMESTAMPTZ,
+  verified_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+COMMENT ON TABLE apishopee_violation_cases IS 'Listing violation cases from violation_item_push, tracked until the fix is verified';
+COMMENT ON COLUMN apishopee_violation_cases.status IS 'open | in_progress | fixed | verified (set by verify-violation only)';
+COMMENT ON COLUMN apishopee_violation_cases.last_check_item_status IS 'item_status returned by get_item_base_info at the last verification';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_violation_cases_unresolved
+  ON apishopee_violation_cases(shop_id, item_id, violation_type)
+  WHERE status <> 'verified';
+CREATE INDEX IF NOT EXISTS idx_violation_cases_shop_status
+  ON apishopee_violation_cases(shop_id, status, due_at);
+CREATE INDEX IF NOT EXISTS idx_violation_cases_assignee
+  ON apishopee_violation_cases(assignee_id)
+  WHERE status <> 'verified';
+
+-- =====================================================
+-- 2. RLS
+-- =====================================================
+ALTER TABLE apishopee_violation_cases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to violation cases"
+  ON apishopee_violation_cases
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Users can view violation cases of their shops"
+  ON apishopee_violation_cases
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM apishopee_shop_members sm
+      JOIN apishopee_shops s ON s.id = sm.shop_id
+      WHERE s.shop_id = apishopee_violation_cases.shop_id
+      AND sm.profile_id = auth.uid()
+      AND sm.is_active = true
+    )
+  );
+
+-- Members assign / schedule / move unresolved cases; cases are created by the webhook
+-- and verified by apishopee-product
+CREATE POLICY "Users can update unresolved violation cases of their shops"
+  ON apishopee_violation_cases
+  FOR UPDATE
+  TO authenticated
+  USING (
+    status <> 'verified'
+    AND EXISTS (
+      SELECT 1 FROM apishopee_shop_members sm
+      JOIN apishopee_shops s ON s.id = sm.shop_id
+      WHERE s.shop_id = apishopee_violation_cases.shop_id
+      AND sm.profile_id = auth.uid()
+      AND sm.is_active = true
+    )
+  )
+  WITH CHECK (status <> 'verified');
+
+-- =====================================================
+-- 3. updated_at trigger
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_violation_cases_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_violation_cases_updated_at ON apishopee_violation_cases;
+CREATE TRIGGER trigger_violation_cases_updated_at
+  BEFORE UPDATE ON apishopee_violation_cases
+  FOR EACH ROW
+  EXECUTE FUNCTION update_violation_cases_updated_at();
+
+-- =====================================================
+-- 4. Realtime (ViolationCasesPanel)
+-- =====================================================
+ALTER PUBLICATION supabase_realtime ADD TABLE apishopee_violation_cases;
@@ -0,0 +1,108 @@
+-- =====================================================
+-- Migration 091: Order Sync in the Worker
+-- =====================================================
+-- Orders come back as a module: sync runs in the worker queue (queue order_sync,
+-- worker/src/jobs/order-sync.ts) instead of the removed apishopee-orders-sync edge function
+-- that migration 064 scheduled with pg_cron. State per shop stays on
+-- apishopee_orders_sync_status (migration 063):
+--   - last_sync_update_time: update_time cursor, the next run lists orders updated since then
+--   - sync_cursor: in-flight run (15-day window + get_order_list cursor), saved after every page
+--   - sync_interval_minutes / next_sync_at: per-shop schedule
+-- Order lines are stored in apishopee_order_items so revenue can be attributed to Flash Sales
+-- (promotion_type flash_sale → flash_sale_id).
+-- Planning logic: supabase/functions/_shared/order-sync.ts
+
+-- =====================================================
+-- 1. Retire the pg_cron edge sync (migration 064)
+-- =====================================================
+DO $$
+BEGIN
+  PERFORM cron.unschedule('orders-sync-job');
+EXCEPTION WHEN OTHERS THEN
+  NULL;
+END $$;
+
+DROP FUNCTION IF EXISTS sync_all_shops_orders();
+
+-- =====================================================
+-- 2. Cursor / schedule columns
+-- =====================================================
+ALTER TABLE apishopee_orders_sync_status
+  ADD COLUMN IF NOT EXISTS sync_cursor JSONB,
+  ADD COLUMN IF NOT EXISTS sync_interval_minutes INTEGER DEFAULT 30,
+  ADD COLUMN IF NOT EXISTS next_sync_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_sync_result JSONB;
+
+ALTER TABLE apishopee_orders_sync_status
+  DROP CONSTRAINT IF EXISTS orders_sync_status_interval_check;
+ALTER TABLE apishopee_orders_sync_status
+  ADD CONSTRAINT orders_sync_status_interval_check
+  CHECK (sync_interval_minutes IS NULL OR sync_interval_minutes >= 15);
+
+COMMENT ON COLUMN apishopee_orders_sync_status.sync_cursor IS 'In-flight order sync (update_time window, get_order_list cursor, counts); NULL when idle';
+COMMENT ON COLUMN apishopee_orders_sync_status.sync_interval_minutes IS 'Automatic incremental sync interval; NULL = manual only';
+COMMENT ON COLUMN apishopee_orders_sync_status.last_sync_result IS 'Counts of the last finished run: mode, inserted, updated, items';
+
+-- Left over from the edge sync; the worker keeps is_syncing in step with sync_cursor
+UPDATE apishopee_orders_sync_status SET is_syncing = false WHERE is_syncing = true;
+
+CREATE INDEX IF NOT EXISTS idx_orders_sync_next_sync
+  ON apishopee_orders_sync_status(next_sync_at)
+  WHERE is_initial_sync_done = true AND sync_interval_minutes IS NOT NULL;
+
+-- =====================================================
+-- 3. Order lines
+-- =====================================================
+CREATE TABLE IF NOT EXISTS apishopee_order_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id BIGINT NOT NULL,
+  order_sn TEXT NOT NULL,
+  item_id BIGINT NOT NULL,
+  model_id BIGINT NOT NULL DEFAULT 0,
+  item_name TEXT,
+  item_sku TEXT,
+  model_name TEXT,
+  model_sku TEXT,
+  quantity INTEGER NOT NULL DEFAULT 0,
+  original_price DECIMAL(15,2) NOT NULL DEFAULT 0,
+  discounted_price DECIMAL(15,2) NOT NULL DEFAULT 0,
+  promotion_type TEXT,
+  promotion_id BIGINT,
+  -- promotion_id of lines bought in a (shop) Flash Sale
+  flash_sale_id BIGINT,
+  image_url TEXT,
+  -- Copied from the order so revenue queries need no join
+  order_status TEXT NOT NULL,
+  create_time BIGINT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_items_order ON apishopee_order_items(shop_id, order_sn);
+CREATE INDEX IF NOT EXISTS idx_order_items_shop_create_time ON apishopee_order_items(shop_id, create_time DESC);
+CREATE INDEX IF NOT EXISTS idx_order_items_flash_sale
+  ON apishopee_order_items(shop_id, flash_sale_id) WHERE flash_sale_id IS NOT NULL;
+
+ALTER TABLE apishopee_order_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access to order items" ON apishopee_order_items;
+CREATE POLICY "Service role has full access to order items" ON apishopee_order_items
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view order items of their shops" ON apishopee_order_items;
+CREATE POLICY "Users can view order items of their shops" ON apishopee_order_items
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM apishopee_shop_members sm
+      JOIN apishopee_shops s ON s.id = sm.shop_id
+      WHERE s.shop_id = apishopee_order_items.shop_id
+      AND sm.profile_id = auth.uid()
+      AND sm.is_active = true
+    )
+  );
+
+COMMENT ON TABLE apishopee_order_items IS 'Order lines from get_order_detail item_list (replaced on every sync of the order)';
+COMMENT ON COLUMN apishopee_order_items.flash_sale_id IS 'Flash Sale the line was bought in (promotion_type flash_sale / shop_flash_sale)';
+
+COMMENT ON COLUMN worker_jobs.queue IS 'Job type: flash_sale_create | flash_sale_sync | flash_sale_expand | token_refresh | product_sync | order_sync';
@@ -0,0 +1,48 @@
+-- =====================================================
+-- Migration 092: Flash Sale campaign stock snapshots
+-- =====================================================
+-- Shopee only returns the current campaign_stock of a Flash Sale item, so the worker
+-- (flash_sale_sync, worker/src/jobs/flash-sale-sync.ts) snapshots it when a slot is about
+-- to start / has just started. Units sold come from apishopee_order_items (migration 091);
+-- sell-through = units / campaign_stock. Logic: src/lib/shopee/flash-sale-performance.ts
+
+CREATE TABLE IF NOT EXISTS apishopee_flash_sale_item_stock (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id BIGINT NOT NULL,
+  flash_sale_id BIGINT NOT NULL,
+  item_id BIGINT NOT NULL,
+  -- 0 for items without variations
+  model_id BIGINT NOT NULL DEFAULT 0,
+  item_name TEXT,
+  model_name TEXT,
+  campaign_stock INTEGER NOT NULL DEFAULT 0,
+  promotion_price DECIMAL(15,2),
+  captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (shop_id, flash_sale_id, item_id, model_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_flash_sale_item_stock_sale
+  ON apishopee_flash_sale_item_stock(shop_id, flash_sale_id);
+
+ALTER TABLE apishopee_flash_sale_item_stock ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role has full access to flash sale item stock" ON apishopee_flash_sale_item_stock;
+CREATE POLICY "Service role has full access to flash sale item stock" ON apishopee_flash_sale_item_stock
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view flash sale item stock of their shops" ON apishopee_flash_sale_item_stock;
+CREATE POLICY "Users can view flash sale item stock of their shops" ON apishopee_flash_sale_item_stock
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM apishopee_shop_members sm
+      JOIN apishopee_shops s ON s.id = sm.shop_id
+      WHERE s.shop_id = apishopee_flash_sale_item_stock.shop_id
+      AND sm.profile_id = auth.uid()
+      AND sm.is_active = true
+    )
+  );
+
+COMMENT ON TABLE apishopee_flash_sale_item_stock IS 'campaign_stock of each Flash Sale item/model, snapshotted by flash_sale_sync at slot start';
+COMMENT ON COLUMN apishopee_flash_sale_item_stock.captured_at IS 'Last snapshot; refreshed while the slot is upcoming, kept once it is ongoing';
@@ -0,0 +1,53 @@
+-- =====================================================
+-- Migration 093: Encrypted Shopee secrets at rest
+-- =====================================================
+-- partner_key / access_token / refresh_token keep their columns but hold envelope-encrypted
+-- values: enc:v1:<key id>:<wrapped data key>:<ciphertext>
+-- (supabase/functions/_shared/secret-box.ts). Encryption / decryption only happens in the
+-- Edge Functions and the worker with keys from SHOPEE_SECRET_KEYS; the database never sees a key.
+--
+-- Rollout keeps the live shops working:
+--   1. Deploy code: plaintext values still open as-is, new writes stay plaintext until keys are set
+--   2. Set SHOPEE_SECRET_KEYS on Edge Functions + worker: new tokens / refreshes are written encrypted
+--   3. npm run rotate:secrets (worker) encrypts the remaining rows
+-- Key rotation: prepend a new key id to SHOPEE_SECRET_KEYS, redeploy, run rotate:secrets, then drop
+-- the old key once get_secret_encryption_status() shows no value on it.
+
+COMMENT ON COLUMN apishopee_shops.partner_key IS 'Envelope-encrypted (enc:v1:...) or legacy plaintext; decrypt via _shared/secret-box.ts';
+COMMENT ON COLUMN apishopee_shops.access_token IS 'Envelope-encrypted (enc:v1:...) or legacy plaintext; decrypt via _shared/secret-box.ts';
+COMMENT ON COLUMN apishopee_shops.refresh_token IS 'Envelope-encrypted (enc:v1:...) or legacy plaintext; decrypt via _shared/secret-box.ts';
+COMMENT ON COLUMN apishopee_partner_apps.partner_key IS 'Envelope-encrypted (enc:v1:...) or legacy plaintext; decrypt via _shared/secret-box.ts';
+COMMENT ON COLUMN apishopee_shop_app_tokens.access_token IS 'Envelope-encrypted (enc:v1:...) or legacy plaintext; decrypt via _shared/secret-box.ts';
+COMMENT ON COLUMN apishopee_shop_app_tokens.refresh_token IS 'Envelope-encrypted (enc:v1:...) or legacy plaintext; decrypt via _shared/secret-box.ts';
+
+-- =====================================================
+-- Rollout / rotation progress: values per key id ('plaintext' = not encrypted yet)
+-- =====================================================
+CREATE OR REPLACE FUNCTION get_secret_encryption_status()
+RETURNS TABLE (table_name TEXT, column_name TEXT, key_id TEXT, value_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH secret_values AS (
+    SELECT 'apishopee_shops' AS table_name, 'partner_key' AS column_name, partner_key AS value FROM apishopee_shops
+    UNION ALL SELECT 'apishopee_shops', 'access_token', access_token FROM apishopee_shops
+    UNION ALL SELECT 'apishopee_shops', 'refresh_token', refresh_token FROM apishopee_shops
+    UNION ALL SELECT 'apishopee_partner_apps', 'partner_key', partner_key FROM apishopee_partner_apps
+    UNION ALL SELECT 'apishopee_shop_app_tokens', 'access_token', access_token FROM apishopee_shop_app_tokens
+    UNION ALL SELECT 'apishopee_shop_app_tokens', 'refresh_token', refresh_token FROM apishopee_shop_app_tokens
+  )
+  SELECT
+    table_name,
+    column_name,
+    CASE WHEN value LIKE 'enc:v1:%' THEN split_part(value, ':', 3) ELSE 'plaintext' END AS key_id,
+    COUNT(*) AS value_count
+  FROM secret_values
+  WHERE value IS NOT NULL AND value <> ''
+  GROUP BY 1, 2, 3
+  ORDER BY 1, 2, 3;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_secret_encryption_status() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_secret_encryption_status() TO service_role;
@@ -0,0 +1,441 @@
+-- =====================================================
+-- Migration 094: Admin Audit Log
+-- =====================================================
+-- Every administrative change to shop membership, roles, user permissions, partner apps and
+-- shop connections is written to apishopee_admin_audit_log by triggers on the tables themselves,
+-- so browser, Edge Function and worker writes are all captured:
+--   actor (auth.uid() or the actor passed to a service RPC), before / after row (secrets removed),
+--   changed_fields, reason and source (rpc | direct | service).
+-- The log is append-only: UPDATE / DELETE are rejected by trigger.
+--
+-- Admin writes from the frontend go through the RPCs in section 5, which check the caller is an
+-- admin and record the reason; direct writes to apishopee_shop_members / apishopee_roles and
+-- changes to sys_profiles.permissions / system_role outside those RPCs are blocked.
+-- Viewer: /admin/audit-log (AdminAuditLogPanel), diff / CSV logic in src/lib/admin-audit.ts
+
+-- =====================================================
+-- 1. apishopee_admin_audit_log
+-- =====================================================
+CREATE TABLE IF NOT EXISTS apishopee_admin_audit_log (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  actor_id UUID,
+  actor_email TEXT,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('shop_member', 'role', 'profile', 'partner_app', 'shop', 'shop_app_token')),
+  operation TEXT NOT NULL CHECK (operation IN ('insert', 'update', 'delete')),
+  entity_id TEXT,
+  target_profile_id UUID,
+  shop_id BIGINT,
+  before_data JSONB,
+  after_data JSONB,
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  reason TEXT,
+  source TEXT NOT NULL CHECK (source IN ('rpc', 'direct', 'service'))
+);
+
+COMMENT ON TABLE apishopee_admin_audit_log IS 'Append-only audit of membership, role, permission, partner app and shop connection changes';
+COMMENT ON COLUMN apishopee_admin_audit_log.actor_id IS 'auth.uid() of the caller, or the actor passed by a service RPC; NULL for service / cron writes';
+COMMENT ON COLUMN apishopee_admin_audit_log.shop_id IS 'Shopee shop_id the change relates to';
+COMMENT ON COLUMN apishopee_admin_audit_log.before_data IS 'Row before the change (access_token / refresh_token / partner_key removed)';
+COMMENT ON COLUMN apishopee_admin_audit_log.changed_fields IS 'Columns that changed, including removed secret columns';
+COMMENT ON COLUMN apishopee_admin_audit_log.source IS 'rpc = admin RPC (with reason), direct = browser write, service = Edge Function / worker';
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created ON apishopee_admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor ON apishopee_admin_audit_log(actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON apishopee_admin_audit_log(target_profile_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_shop ON apishopee_admin_audit_log(shop_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION prevent_admin_audit_log_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'apishopee_admin_audit_log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_admin_audit_log_immutable ON apishopee_admin_audit_log;
+CREATE TRIGGER trg_admin_audit_log_immutable
+  BEFORE UPDATE OR DELETE ON apishopee_admin_audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_admin_audit_log_change();
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON apishopee_admin_audit_log FROM anon, authenticated;
+
+-- =====================================================
+-- 2. Admin check (system_role or app role, same roles as ADMIN_ROLES in the Edge Functions)
+-- =====================================================
+CREATE OR REPLACE FUNCTION is_shopee_admin(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_user_id IS NOT NULL AND (
+    EXISTS (SELECT 1 FROM sys_profiles WHERE id = p_user_id AND system_role IN ('super_admin', 'admin'))
+    OR (get_shopee_app_permissions(p_user_id)::jsonb ->> 'role') IN ('super_admin', 'admin')
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION is_shopee_admin(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION is_shopee_admin(UUID) TO authenticated, service_role;
+
+-- =====================================================
+-- 3. RLS: admins read, nobody writes directly
+-- =====================================================
+ALTER TABLE apishopee_admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can read admin audit log" ON apishopee_admin_audit_log;
+CREATE POLICY "Service role can read admin audit log" ON apishopee_admin_audit_log
+  FOR SELECT
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Admins can read admin audit log" ON apishopee_admin_audit_log;
+CREATE POLICY "Admins can read admin audit log" ON apishopee_admin_audit_log
+  FOR SELECT
+  USING (is_shopee_admin(auth.uid()));
+
+-- =====================================================
+-- 4. Capture triggers
+-- =====================================================
+-- Audit context set by the RPCs below (transaction-local):
+--   app.audit_source = 'rpc', app.audit_reason, app.audit_actor (service RPCs acting for a user)
+CREATE OR REPLACE FUNCTION set_admin_audit_context(p_reason TEXT, p_actor UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  SELECT
+    set_config('app.audit_source', 'rpc', true),
+    set_config('app.audit_reason', COALESCE(p_reason, ''), true),
+    set_config('app.audit_actor', COALESCE(p_actor::TEXT, ''), true);
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_admin_audit_context(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION log_admin_audit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entity_type TEXT := TG_ARGV[0];
+  v_secret_fields TEXT[] := ARRAY['access_token', 'refresh_token', 'partner_key'];
+  v_noise_fields TEXT[] := ARRAY['updated_at', 'token_updated_at'];
+  v_old JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  v_row JSONB := COALESCE(v_new, v_old);
+  v_changed TEXT[];
+  v_actor UUID := COALESCE(NULLIF(current_setting('app.audit_actor', true), '')::UUID, auth.uid());
+  v_source TEXT := NULLIF(current_setting('app.audit_source', true), '');
+  v_shop_id BIGINT;
+  v_target UUID;
+BEGIN
+  SELECT COALESCE(array_agg(key ORDER BY key), '{}') INTO v_changed
+  FROM (
+    SELECT key FROM jsonb_object_keys(COALESCE(v_old, '{}'::jsonb) || COALESCE(v_new, '{}'::jsonb)) AS key
+  ) keys
+  WHERE NOT key = ANY(v_noise_fields)
+    AND (TG_OP <> 'UPDATE' OR v_old -> key IS DISTINCT FROM v_new -> key);
+
+  IF TG_OP = 'UPDATE' AND cardinality(v_changed) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_entity_type = 'shop_member' THEN
+    SELECT s.shop_id INTO v_shop_id FROM apishopee_shops s WHERE s.id = (v_row ->> 'shop_id')::UUID;
+    v_target := (v_row ->> 'profile_id')::UUID;
+  ELSIF v_entity_type IN ('shop', 'shop_app_token') THEN
+    v_shop_id := (v_row ->> 'shop_id')::BIGINT;
+  ELSIF v_entity_type = 'profile' THEN
+    v_target := (v_row ->> 'id')::UUID;
+  END IF;
+
+  INSERT INTO apishopee_admin_audit_log (
+    actor_id, actor_email, entity_type, operation, entity_id, target_profile_id, shop_id,
+    before_data, after_data, changed_fields, reason, source
+  ) VALUES (
+    v_actor,
+    (SELECT email FROM sys_profiles WHERE id = v_actor),
+    v_entity_type,
+    lower(TG_OP),
+    v_row ->> 'id',
+    v_target,
+    v_shop_id,
+    v_old - v_secret_fields,
+    v_new - v_secret_fields,
+    v_changed,
+    NULLIF(current_setting('app.audit_reason', true), ''),
+    COALESCE(v_source, CASE WHEN v_actor IS NULL THEN 'service' ELSE 'direct' END)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_audit_shop_members ON apishopee_shop_members;
+CREATE TRIGGER trg_audit_shop_members
+  AFTER INSERT OR UPDATE OR DELETE ON apishopee_shop_members
+  FOR EACH ROW EXECUTE FUNCTION log_admin_audit('shop_member');
+
+DROP TRIGGER IF EXISTS trg_audit_roles ON apishopee_roles;
+CREATE TRIGGER trg_audit_roles
+  AFTER INSERT OR UPDATE OR DELETE ON apishopee_roles
+  FOR EACH ROW EXECUTE FUNCTION log_admin_audit('role');
+
+DROP TRIGGER IF EXISTS trg_audit_partner_apps ON apishopee_partner_apps;
+CREATE TRIGGER trg_audit_partner_apps
+  AFTER INSERT OR UPDATE OR DELETE ON apishopee_partner_apps
+  FOR EACH ROW EXECUTE FUNCTION log_admin_audit('partner_app');
+
+-- Profiles: only access-related columns (name / phone edits are not admin changes)
+DROP TRIGGER IF EXISTS trg_audit_profiles_insert_delete ON sys_profiles;
+CREATE TRIGGER trg_audit_profiles_insert_delete
+  AFTER INSERT OR DELETE ON sys_profiles
+  FOR EACH ROW EXECUTE FUNCTION log_admin_audit('profile');
+
+DROP TRIGGER IF EXISTS trg_audit_profiles_access ON sys_profiles;
+CREATE TRIGGER trg_audit_profiles_access
+  AFTER UPDATE OF permissions, system_role ON sys_profiles
+  FOR EACH ROW
+  WHEN (OLD.permissions IS DISTINCT FROM NEW.permissions OR OLD.system_role IS DISTINCT FROM NEW.system_role)
+  EXECUTE FUNCTION log_admin_audit('profile');
+
+-- Shops / app tokens: connect, re-authorize (auth_time), partner change, disconnect.
+-- Routine token refreshes only touch the token columns and are not logged.
+DROP TRIGGER IF EXISTS trg_audit_shops_insert_delete ON apishopee_shops;
+CREATE TRIGGER trg_audit_shops_insert_delete
+  AFTER INSERT OR DELETE ON apishopee_shops
+  FOR EACH ROW EXECUTE FUNCTION log_admin_audit('shop');
+
+DROP TRIGGER IF EXISTS trg_audit_shops_connection ON apishopee_shops;
+CREATE TRIGGER trg_audit_shops_connection
+  AFTER UPDATE ON apishopee_shops
+  FOR EACH ROW
+  WHEN (
+    OLD.partner_id IS DISTINCT FROM NEW.partner_id
+    OR OLD.merchant_id IS DISTINCT FROM NEW.merchant_id
+    OR OLD.auth_time IS DISTINCT FROM NEW.auth_time
+  )
+  EXECUTE FUNCTION log_admin_audit('shop');
+
+DROP TRIGGER IF EXISTS trg_audit_shop_app_tokens_insert_delete ON apishopee_shop_app_tokens;
+CREATE TRIGGER trg_audit_shop_app_tokens_insert_delete
+  AFTER INSERT OR DELETE ON apishopee_shop_app_tokens
+  FOR EACH ROW EXECUTE FUNCTION log_admin_audit('shop_app_token');
+
+DROP TRIGGER IF EXISTS trg_audit_shop_app_tokens_connection ON apishopee_shop_app_tokens;
+CREATE TRIGGER trg_audit_shop_app_tokens_connection
+  AFTER UPDATE ON apishopee_shop_app_tokens
+  FOR EACH ROW
+  WHEN (OLD.partner_app_id IS DISTINCT FROM NEW.partner_app_id OR OLD.auth_time IS DISTINCT FROM NEW.auth_time)
+  EXECUTE FUNCTION log_admin_audit('shop_app_token');
+
+-- =====================================================
+-- 5. Writes behind RPCs
+-- =====================================================
+REVOKE INSERT, UPDATE, DELETE ON apishopee_shop_members FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON apishopee_roles FROM anon, authenticated;
+REVOKE DELETE ON apishopee_shops FROM anon, authenticated;
+
+-- permissions / system_role of sys_profiles: only via admin RPC or service role
+CREATE OR REPLACE FUNCTION guard_profile_access_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND COALESCE(current_setting('app.audit_source', true), '') <> 'rpc'
+     AND (OLD.permissions IS DISTINCT FROM NEW.permissions OR OLD.system_role IS DISTINCT FROM NEW.system_role) THEN
+    RAISE EXCEPTION 'permissions / system_role can only be changed through admin_set_user_access'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_profile_access ON sys_profiles;
+CREATE TRIGGER trg_guard_profile_access
+  BEFORE UPDATE OF permissions, system_role ON sys_profiles
+  FOR EACH ROW EXECUTE FUNCTION guard_profile_access_change();
+
+CREATE OR REPLACE FUNCTION require_shopee_admin()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_shopee_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Bạn không có quyền thực hiện thao tác này' USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION require_shopee_admin() FROM PUBLIC, anon, authenticated;
+
+-- Shop list + feature overrides of one user (permission dialog)
+CREATE OR REPLACE FUNCTION admin_set_user_access(
+  p_profile_id UUID,
+  p_shop_ids UUID[],
+  p_permissions JSONB,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member_role UUID;
+  v_added INTEGER;
+  v_removed INTEGER;
+BEGIN
+  PERFORM require_shopee_admin();
+  PERFORM set_admin_audit_context(p_reason);
+
+  SELECT id INTO v_member_role FROM apishopee_roles WHERE name = 'member';
+  IF v_member_role IS NULL THEN
+    RAISE EXCEPTION 'Không tìm thấy role member';
+  END IF;
+
+  DELETE FROM apishopee_shop_members
+  WHERE profile_id = p_profile_id AND NOT (shop_id = ANY(COALESCE(p_shop_ids, '{}')));
+  GET DIAGNOSTICS v_removed = ROW_COUNT;
+
+  INSERT INTO apishopee_shop_members (shop_id, profile_id, role_id, is_active)
+  SELECT shop_id, p_profile_id, v_member_role, true
+  FROM unnest(COALESCE(p_shop_ids, '{}')) AS shop_id
+  ON CONFLICT (shop_id, profile_id) DO UPDATE SET is_active = true
+  WHERE apishopee_shop_members.is_active IS DISTINCT FROM true;
+  GET DIAGNOSTICS v_added = ROW_COUNT;
+
+  UPDATE sys_profiles SET permissions = p_permissions WHERE id = p_profile_id;
+
+  RETURN jsonb_build_object('added', v_added, 'removed', v_removed);
+END;
+$$;
+
+-- Add one or more users to one or more shops (bulk assign, shop member dialogs)
+CREATE OR REPLACE FUNCTION admin_assign_shop_members(
+  p_profile_ids UUID[],
+  p_shop_ids UUID[],
+  p_role_id UUID DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role UUID := p_role_id;
+  v_added INTEGER;
+BEGIN
+  PERFORM require_shopee_admin();
+  PERFORM set_admin_audit_context(p_reason);
+
+  IF v_role IS NULL THEN
+    SELECT id INTO v_role FROM apishopee_roles WHERE name = 'member';
+  END IF;
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'Không tìm thấy role member';
+  END IF;
+
+  INSERT INTO apishopee_shop_members (shop_id, profile_id, role_id, is_active)
+  SELECT s, p, v_role, true
+  FROM unnest(p_shop_ids) AS s CROSS JOIN unnest(p_profile_ids) AS p
+  ON CONFLICT (shop_id, profile_id) DO UPDATE SET is_active = true
+  WHERE apishopee_shop_members.is_active IS DISTINCT FROM true;
+  GET DIAGNOSTICS v_added = ROW_COUNT;
+
+  RETURN v_added;
+END;
+$$;
+
+-- Remove users from a shop (inline toggle, shop member dialogs)
+CREATE OR REPLACE FUNCTION admin_remove_shop_members(
+  p_shop_id UUID,
+  p_profile_ids UUID[],
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_removed INTEGER;
+BEGIN
+  PERFORM require_shopee_admin();
+  PERFORM set_admin_audit_context(p_reason);
+
+  DELETE FROM apishopee_shop_members WHERE shop_id = p_shop_id AND profile_id = ANY(p_profile_ids);
+  GET DIAGNOSTICS v_removed = ROW_COUNT;
+  RETURN v_removed;
+END;
+$$;
+
+-- Disconnect a shop: members, refresh logs, app tokens, then the shop
+CREATE OR REPLACE FUNCTION admin_delete_shop(p_shop_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shopee_shop_id BIGINT;
+BEGIN
+  PERFORM require_shopee_admin();
+  PERFORM set_admin_audit_context(p_reason);
+
+  SELECT shop_id INTO v_shopee_shop_id FROM apishopee_shops WHERE id = p_shop_id;
+  IF v_shopee_shop_id IS NULL THEN
+    RAISE EXCEPTION 'Không tìm thấy shop';
+  END IF;
+
+  DELETE FROM apishopee_shop_members WHERE shop_id = p_shop_id;
+  DELETE FROM apishopee_token_refresh_logs WHERE shop_id = p_shop_id;
+  DELETE FROM apishopee_shop_app_tokens WHERE shop_id = v_shopee_shop_id;
+  DELETE FROM apishopee_shops WHERE id = p_shop_id;
+END;
+$$;
+
+-- The user who authorized a shop becomes its admin member (called by apishopee-auth get-token)
+CREATE OR REPLACE FUNCTION connect_shop_member(p_shop_id BIGINT, p_profile_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shop UUID;
+  v_admin_role UUID;
+BEGIN
+  PERFORM set_admin_audit_context('Kết nối shop', p_profile_id);
+
+  SELECT id INTO v_shop FROM apishopee_shops WHERE shop_id = p_shop_id;
+  SELECT id INTO v_admin_role FROM apishopee_roles WHERE name = 'admin';
+  IF v_shop IS NULL OR v_admin_role IS NULL THEN
+    RAISE EXCEPTION 'Shop % or admin role not found', p_shop_id;
+  END IF;
+
+  INSERT INTO apishopee_shop_members (shop_id, profile_id, role_id, is_active)
+  VALUES (v_shop, p_profile_id, v_admin_role, true)
+  ON CONFLICT (shop_id, profile_id) DO UPDATE SET role_id = EXCLUDED.role_id, is_active = true
+  WHERE apishopee_shop_members.role_id IS DISTINCT FROM EXCLUDED.role_id
+     OR apishopee_shop_members.is_active IS DISTINCT FROM true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION admin_set_user_access(UUID, UUID[], JSONB, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION admin_assign_shop_members(UUID[], UUID[], UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION admin_remove_shop_members(UUID, UUID[], TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION admin_delete_shop(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION connect_shop_member(BIGINT, UUID) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION admin_set_user_access(UUID, UUID[], JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_assign_shop_members(UUID[], UUID[], UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_remove_shop_members(UUID, UUID[], TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_delete_shop(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION connect_shop_member(BIGINT, UUID) TO service_role;
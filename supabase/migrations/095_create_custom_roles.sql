@@ -0,0 +1,308 @@
+-- =====================================================
+-- Migration 095: Custom roles with action-level permissions
+-- =====================================================
+-- Admins define roles as a list of permission keys: page keys from menu-config.ts ('home',
+-- 'orders', ...) and action keys '<module>:<action>' ('flash-sale:create', 'products:edit-price',
+-- 'shops:reconnect', ...). Catalog and matching rules: supabase/functions/_shared/app-permissions.ts
+--
+-- A leader / member assigned a custom role gets the role's keys instead of the default features
+-- of their position, plus their per-user overrides (sys_profiles.permissions.shopee_features).
+-- Admins and super admins keep full access.
+--
+-- get_shopee_app_permissions (created outside this repo) is renamed to
+-- get_shopee_app_base_permissions and wrapped, so the frontend (usePermissions), the Edge Function
+-- action guard (_shared/action-guard.ts) and is_shopee_admin all see the effective permissions.
+-- Role and assignment changes go through admin RPCs and are written to the admin audit log (094).
+
+-- =====================================================
+-- 1. Tables
+-- =====================================================
+CREATE TABLE IF NOT EXISTS apishopee_custom_roles (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE CHECK (length(trim(name)) > 0),
+  description TEXT,
+  permissions TEXT[] NOT NULL DEFAULT '{}',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE apishopee_custom_roles IS 'Admin-defined roles: list of page / action permission keys';
+COMMENT ON COLUMN apishopee_custom_roles.permissions IS 'Page keys (products) and action keys (products:edit-price, flash-sale:*)';
+
+CREATE TABLE IF NOT EXISTS apishopee_profile_custom_roles (
+  profile_id UUID PRIMARY KEY REFERENCES sys_profiles(id) ON DELETE CASCADE,
+  role_id UUID NOT NULL REFERENCES apishopee_custom_roles(id) ON DELETE CASCADE,
+  assigned_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  assigned_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE apishopee_profile_custom_roles IS 'Custom role of a user (at most one); replaces the default features of their position';
+
+CREATE INDEX IF NOT EXISTS idx_profile_custom_roles_role ON apishopee_profile_custom_roles(role_id);
+
+DROP TRIGGER IF EXISTS trg_custom_roles_updated_at ON apishopee_custom_roles;
+CREATE TRIGGER trg_custom_roles_updated_at
+  BEFORE UPDATE ON apishopee_custom_roles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- 2. RLS: signed-in users read, writes only through the RPCs below
+-- =====================================================
+ALTER TABLE apishopee_custom_roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE apishopee_profile_custom_roles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read custom roles" ON apishopee_custom_roles;
+CREATE POLICY "Authenticated users can read custom roles" ON apishopee_custom_roles
+  FOR SELECT
+  USING (auth.role() IN ('authenticated', 'service_role'));
+
+DROP POLICY IF EXISTS "Users read own custom role, admins read all" ON apishopee_profile_custom_roles;
+CREATE POLICY "Users read own custom role, admins read all" ON apishopee_profile_custom_roles
+  FOR SELECT
+  USING (auth.role() = 'service_role' OR profile_id = auth.uid() OR is_shopee_admin(auth.uid()));
+
+REVOKE INSERT, UPDATE, DELETE ON apishopee_custom_roles FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON apishopee_profile_custom_roles FROM anon, authenticated;
+
+-- =====================================================
+-- 3. Audit: custom roles and user role assignments
+-- =====================================================
+ALTER TABLE apishopee_admin_audit_log DROP CONSTRAINT IF EXISTS apishopee_admin_audit_log_entity_type_check;
+ALTER TABLE apishopee_admin_audit_log ADD CONSTRAINT apishopee_admin_audit_log_entity_type_check
+  CHECK (entity_type IN ('shop_member', 'role', 'profile', 'partner_app', 'shop', 'shop_app_token', 'custom_role', 'user_role'));
+
+-- Same as 094, plus the target user of 'user_role' rows
+CREATE OR REPLACE FUNCTION log_admin_audit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entity_type TEXT := TG_ARGV[0];
+  v_secret_fields TEXT[] := ARRAY['access_token', 'refresh_token', 'partner_key'];
+  v_noise_fields TEXT[] := ARRAY['updated_at', 'token_updated_at'];
+  v_old JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  v_row JSONB := COALESCE(v_new, v_old);
+  v_changed TEXT[];
+  v_actor UUID := COALESCE(NULLIF(current_setting('app.audit_actor', true), '')::UUID, auth.uid());
+  v_source TEXT := NULLIF(current_setting('app.audit_source', true), '');
+  v_shop_id BIGINT;
+  v_target UUID;
+BEGIN
+  SELECT COALESCE(array_agg(key ORDER BY key), '{}') INTO v_changed
+  FROM (
+    SELECT key FROM jsonb_object_keys(COALESCE(v_old, '{}'::jsonb) || COALESCE(v_new, '{}'::jsonb)) AS key
+  ) keys
+  WHERE NOT key = ANY(v_noise_fields)
+    AND (TG_OP <> 'UPDATE' OR v_old -> key IS DISTINCT FROM v_new -> key);
+
+  IF TG_OP = 'UPDATE' AND cardinality(v_changed) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_entity_type = 'shop_member' THEN
+    SELECT s.shop_id INTO v_shop_id FROM apishopee_shops s WHERE s.id = (v_row ->> 'shop_id')::UUID;
+    v_target := (v_row ->> 'profile_id')::UUID;
+  ELSIF v_entity_type IN ('shop', 'shop_app_token') THEN
+    v_shop_id := (v_row ->> 'shop_id')::BIGINT;
+  ELSIF v_entity_type = 'profile' THEN
+    v_target := (v_row ->> 'id')::UUID;
+  ELSIF v_entity_type = 'user_role' THEN
+    v_target := (v_row ->> 'profile_id')::UUID;
+  END IF;
+
+  INSERT INTO apishopee_admin_audit_log (
+    actor_id, actor_email, entity_type, operation, entity_id, target_profile_id, shop_id,
+    before_data, after_data, changed_fields, reason, source
+  ) VALUES (
+    v_actor,
+    (SELECT email FROM sys_profiles WHERE id = v_actor),
+    v_entity_type,
+    lower(TG_OP),
+    COALESCE(v_row ->> 'id', v_row ->> 'profile_id'),
+    v_target,
+    v_shop_id,
+    v_old - v_secret_fields,
+    v_new - v_secret_fields,
+    v_changed,
+    NULLIF(current_setting('app.audit_reason', true), ''),
+    COALESCE(v_source, CASE WHEN v_actor IS NULL THEN 'service' ELSE 'direct' END)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_audit_custom_roles ON apishopee_custom_roles;
+CREATE TRIGGER trg_audit_custom_roles
+  AFTER INSERT OR UPDATE OR DELETE ON apishopee_custom_roles
+  FOR EACH ROW EXECUTE FUNCTION log_admin_audit('custom_role');
+
+DROP TRIGGER IF EXISTS trg_audit_profile_custom_roles ON apishopee_profile_custom_roles;
+CREATE TRIGGER trg_audit_profile_custom_roles
+  AFTER INSERT OR UPDATE OR DELETE ON apishopee_profile_custom_roles
+  FOR EACH ROW EXECUTE FUNCTION log_admin_audit('user_role');
+
+-- =====================================================
+-- 4. Effective permissions
+-- =====================================================
+DO $$
+BEGIN
+  IF to_regprocedure('get_shopee_app_base_permissions(uuid)') IS NULL THEN
+    ALTER FUNCTION get_shopee_app_permissions(UUID) RENAME TO get_shopee_app_base_permissions;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_shopee_app_base_permissions(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_shopee_app_permissions(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_base JSONB := get_shopee_app_base_permissions(p_user_id)::jsonb;
+  v_role RECORD;
+  v_overrides JSONB;
+  v_features JSONB;
+BEGIN
+  IF v_base IS NULL OR v_base ->> 'role' IS NULL OR v_base ->> 'role' IN ('super_admin', 'admin') THEN
+    RETURN v_base;
+  END IF;
+
+  SELECT r.id, r.name, r.permissions INTO v_role
+  FROM apishopee_profile_custom_roles pr
+  JOIN apishopee_custom_roles r ON r.id = pr.role_id
+  WHERE pr.profile_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN v_base;
+  END IF;
+
+  SELECT p.permissions -> 'shopee_features' INTO v_overrides FROM sys_profiles p WHERE p.id = p_user_id;
+
+  SELECT COALESCE(jsonb_agg(DISTINCT f ORDER BY f), '[]'::jsonb) INTO v_features
+  FROM (
+    SELECT unnest(v_role.permissions) AS f
+    UNION
+    SELECT jsonb_array_elements_text(COALESCE(v_overrides -> 'add', '[]'::jsonb))
+  ) keys
+  WHERE NOT COALESCE(v_overrides -> 'remove', '[]'::jsonb) ? f;
+
+  RETURN v_base || jsonb_build_object(
+    'features', v_features,
+    'custom_role', jsonb_build_object('id', v_role.id, 'name', v_role.name)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_shopee_app_permissions(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_shopee_app_permissions(UUID) TO authenticated, service_role;
+
+-- =====================================================
+-- 5. Admin RPCs
+-- =====================================================
+-- Create (p_role_id NULL) or update a role; '*' is not allowed, keys are 'page' or 'module:action'
+CREATE OR REPLACE FUNCTION admin_save_custom_role(
+  p_role_id UUID,
+  p_name TEXT,
+  p_description TEXT,
+  p_permissions TEXT[],
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_permissions TEXT[];
+  v_invalid TEXT;
+  v_id UUID;
+BEGIN
+  PERFORM require_shopee_admin();
+  PERFORM set_admin_audit_context(p_reason);
+
+  SELECT COALESCE(array_agg(DISTINCT k ORDER BY k), '{}') INTO v_permissions
+  FROM unnest(COALESCE(p_permissions, '{}')) AS k;
+
+  SELECT k INTO v_invalid FROM unnest(v_permissions) AS k
+  WHERE k !~ '^[a-z0-9-]+(/[a-z0-9-]+)*(:([a-z0-9-]+|\*))?$'
+  LIMIT 1;
+  IF v_invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Quyền không hợp lệ: %', v_invalid;
+  END IF;
+
+  IF p_role_id IS NULL THEN
+    INSERT INTO apishopee_custom_roles (name, description, permissions, created_by)
+    VALUES (trim(p_name), NULLIF(trim(p_description), ''), v_permissions, auth.uid())
+    RETURNING id INTO v_id;
+  ELSE
+    UPDATE apishopee_custom_roles
+    SET name = trim(p_name), description = NULLIF(trim(p_description), ''), permissions = v_permissions
+    WHERE id = p_role_id
+    RETURNING id INTO v_id;
+    IF v_id IS NULL THEN
+      RAISE EXCEPTION 'Không tìm thấy vai trò';
+    END IF;
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Delete a role; its users fall back to the default features of their position
+CREATE OR REPLACE FUNCTION admin_delete_custom_role(p_role_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM require_shopee_admin();
+  PERFORM set_admin_audit_context(p_reason);
+
+  DELETE FROM apishopee_profile_custom_roles WHERE role_id = p_role_id;
+  DELETE FROM apishopee_custom_roles WHERE id = p_role_id;
+END;
+$$;
+
+-- Assign (p_role_id NULL = remove) the custom role of a user
+CREATE OR REPLACE FUNCTION admin_set_user_custom_role(
+  p_profile_id UUID,
+  p_role_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM require_shopee_admin();
+  PERFORM set_admin_audit_context(p_reason);
+
+  IF p_role_id IS NULL THEN
+    DELETE FROM apishopee_profile_custom_roles WHERE profile_id = p_profile_id;
+  ELSE
+    INSERT INTO apishopee_profile_custom_roles (profile_id, role_id, assigned_by)
+    VALUES (p_profile_id, p_role_id, auth.uid())
+    ON CONFLICT (profile_id) DO UPDATE SET role_id = EXCLUDED.role_id, assigned_by = EXCLUDED.assigned_by, assigned_at = now()
+    WHERE apishopee_profile_custom_roles.role_id IS DISTINCT FROM EXCLUDED.role_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION admin_save_custom_role(UUID, TEXT, TEXT, TEXT[], TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION admin_delete_custom_role(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION admin_set_user_custom_role(UUID, UUID, TEXT) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION admin_save_custom_role(UUID, TEXT, TEXT, TEXT[], TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_delete_custom_role(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_set_user_custom_role(UUID, UUID, TEXT) TO authenticated;
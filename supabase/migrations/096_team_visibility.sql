@@ -0,0 +1,405 @@
+-- =====================================================
+-- Migration 096: Team visibility, team dashboard, shop handover
+-- =====================================================
+-- A leader sees exactly the shops of the members they manage (sys_profile_departments.manager_id,
+-- exposed as managed_member_ids by get_shopee_app_permissions) plus their own, on every page and RPC:
+--   - user_visible_shop_ids / get_visible_profile_ids / can_access_shop: one definition of "my team"
+--     (admins: everything, leaders: self + managed members, members: self)
+--   - "Team can view ..." SELECT policies on shop-scoped tables (flash sale lists and jobs,
+--     products and their history, orders, API / activity logs, ...) replace the existing
+--     read policies, so they limit what a user sees
+--   - get_api_analytics / get_user_activity (074) only aggregate visible rows for non-admins
+--   - Edge Functions check shop access with can_access_shop (_shared/shop-access.ts)
+-- Team page (/team): get_team_flash_sale_overview (jobs per member) and handover_member_shops
+-- (move a leaving member's shops, pending jobs and recurring rules to another member in one step,
+-- written to the admin audit log).
+
+-- =====================================================
+-- 1. Visibility helpers
+-- =====================================================
+-- Profiles whose data p_user_id can see (admins: all profiles)
+CREATE OR REPLACE FUNCTION get_visible_profile_ids(p_user_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM sys_profiles WHERE is_shopee_admin(p_user_id)
+  UNION
+  SELECT p_user_id WHERE p_user_id IS NOT NULL
+  UNION
+  SELECT m::UUID
+  FROM jsonb_array_elements_text(
+    COALESCE(get_shopee_app_permissions(p_user_id)::jsonb -> 'managed_member_ids', '[]'::jsonb)
+  ) AS m
+  WHERE p_user_id IS NOT NULL;
+$$;
+
+-- Shopee shop_ids p_user_id can see: active memberships of the visible profiles (admins: all shops)
+CREATE OR REPLACE FUNCTION user_visible_shop_ids(p_user_id UUID)
+RETURNS SETOF BIGINT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.shop_id FROM apishopee_shops s WHERE is_shopee_admin(p_user_id)
+  UNION
+  SELECT s.shop_id
+  FROM apishopee_shop_members sm
+  JOIN apishopee_shops s ON s.id = sm.shop_id
+  WHERE sm.is_active = true
+    AND sm.profile_id IN (SELECT get_visible_profile_ids(p_user_id));
+$$;
+
+CREATE OR REPLACE FUNCTION can_access_shop(p_user_id UUID, p_shop_id BIGINT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_user_id IS NOT NULL AND p_shop_id IN (SELECT user_visible_shop_ids(p_user_id));
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_visible_profile_ids(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION user_visible_shop_ids(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION can_access_shop(UUID, BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_visible_profile_ids(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION user_visible_shop_ids(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION can_access_shop(UUID, BIGINT) TO authenticated, service_role;
+
+-- =====================================================
+-- 2. RLS: team read access on shop-scoped tables
+-- =====================================================
+-- Permissive policies are OR-ed, so a team policy next to a broader one (USING (true), any
+-- authenticated user, ...) would not narrow anything. The other SELECT policies of each table
+-- (and FOR ALL policies open to everyone) are dropped and "Team can view shop rows" is the only
+-- read path: own shops, managed members' shops, everything for admins (also rows without a shop).
+-- Own-shop and own-row policies are covered by it; service-role and write policies stay.
+-- Tables created outside this repo are only touched when they exist with a BIGINT shop_id.
+-- The uncorrelated subqueries are evaluated once per statement, not per row.
+DO $$
+DECLARE
+  v_table TEXT;
+  v_policy TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'apishopee_flash_sale_data',
+    'apishopee_flash_sale_auto_history',
+    'apishopee_flash_sale_recurring_rules',
+    'apishopee_flash_sale_item_stock',
+    'apishopee_flash_sale_batch_shops',
+    'apishopee_products',
+    'apishopee_product_models',
+    'apishopee_product_tier_variations',
+    'apishopee_product_history_logs',
+    'apishopee_product_alerts',
+    'apishopee_product_content_drafts',
+    'apishopee_orders',
+    'apishopee_order_items',
+    'apishopee_orders_sync_status',
+    'apishopee_violation_cases',
+    'apishopee_shop_performance_metrics',
+    'apishopee_sync_status',
+    'api_call_logs',
+    'system_activity_logs'
+  ] LOOP
+    IF EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = v_table
+        AND column_name = 'shop_id' AND data_type = 'bigint'
+    ) THEN
+      FOR v_policy IN
+        SELECT policyname FROM pg_policies
+        WHERE schemaname = 'public' AND tablename = v_table
+          AND permissive = 'PERMISSIVE'
+          AND NOT ('service_role' = ANY(roles))
+          AND COALESCE(qual, '') NOT LIKE '%service_role%'
+          AND (cmd = 'SELECT' OR (cmd = 'ALL' AND qual = 'true'))
+      LOOP
+        EXECUTE format('DROP POLICY IF EXISTS %I ON %I', v_policy, v_table);
+      END LOOP;
+
+      EXECUTE format(
+        'CREATE POLICY "Team can view shop rows" ON %I FOR SELECT TO authenticated
+           USING ((SELECT is_shopee_admin(auth.uid())) OR shop_id IN (SELECT user_visible_shop_ids(auth.uid())))',
+        v_table
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Activity without a shop (login, settings, ...) of team members
+DROP POLICY IF EXISTS "Team can view member activity" ON system_activity_logs;
+CREATE POLICY "Team can view member activity" ON system_activity_logs
+  FOR SELECT
+  TO authenticated
+  USING (user_id IN (SELECT get_visible_profile_ids(auth.uid())));
+
+-- Cross-shop batches are owned by their creator (084)
+DROP POLICY IF EXISTS "Team can view member batches" ON apishopee_flash_sale_batches;
+CREATE POLICY "Team can view member batches" ON apishopee_flash_sale_batches
+  FOR SELECT
+  TO authenticated
+  USING (created_by IN (SELECT get_visible_profile_ids(auth.uid())));
+
+-- =====================================================
+-- 3. Monitoring RPCs (074): non-admins only aggregate visible rows
+-- =====================================================
+CREATE OR REPLACE FUNCTION get_api_analytics(p_hours INTEGER DEFAULT 24, p_edge_function TEXT DEFAULT NULL, p_shop_id BIGINT DEFAULT NULL)
+RETURNS JSON LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE result JSON; start_time TIMESTAMPTZ := NOW() - (p_hours || ' hours')::INTERVAL;
+  v_all BOOLEAN := auth.uid() IS NULL OR is_shopee_admin(auth.uid());
+BEGIN
+  WITH logs AS (
+    SELECT * FROM api_call_logs WHERE created_at > start_time
+      AND (p_shop_id IS NULL OR shop_id = p_shop_id)
+      AND (v_all OR shop_id IN (SELECT user_visible_shop_ids(auth.uid())))
+  )
+  SELECT json_build_object(
+    'summary', (
+      SELECT json_build_object(
+        'total_calls', COUNT(*), 'success', COUNT(*) FILTER (WHERE status = 'success'),
+        'failed', COUNT(*) FILTER (WHERE status = 'failed'), 'timeout', COUNT(*) FILTER (WHERE status = 'timeout'),
+        'error_rate', ROUND(COUNT(*) FILTER (WHERE status != 'success')::NUMERIC / NULLIF(COUNT(*), 0) * 100, 2),
+        'avg_duration_ms', ROUND(AVG(duration_ms)),
+        'p95_duration_ms', ROUND(PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY COALESCE(duration_ms, 0)))
+      ) FROM logs WHERE (p_edge_function IS NULL OR edge_function = p_edge_function)
+    ),
+    'calls_per_hour', (
+      SELECT COALESCE(json_agg(hourly ORDER BY hour), '[]'::json) FROM (
+        SELECT json_build_object('hour', date_trunc('hour', created_at), 'total', COUNT(*),
+          'success', COUNT(*) FILTER (WHERE status = 'success'),
+          'failed', COUNT(*) FILTER (WHERE status != 'success')
+        ) as hourly, date_trunc('hour', created_at) as hour
+        FROM logs WHERE (p_edge_function IS NULL OR edge_function = p_edge_function)
+        GROUP BY date_trunc('hour', created_at)
+      ) sub
+    ),
+    'top_errors', (
+      SELECT COALESCE(json_agg(err), '[]'::json) FROM (
+        SELECT json_build_object('error', shopee_error, 'message', shopee_message, 'count', COUNT(*), 'edge_function', edge_function) as err
+        FROM logs WHERE status = 'failed' AND shopee_error IS NOT NULL
+          AND (p_edge_function IS NULL OR edge_function = p_edge_function)
+        GROUP BY shopee_error, shopee_message, edge_function ORDER BY COUNT(*) DESC LIMIT 10
+      ) sub
+    ),
+    'by_function', (
+      SELECT COALESCE(json_agg(fn_stats), '[]'::json) FROM (
+        SELECT json_build_object('edge_function', edge_function, 'total', COUNT(*),
+          'error_rate', ROUND(COUNT(*) FILTER (WHERE status != 'success')::NUMERIC / NULLIF(COUNT(*), 0) * 100, 2),
+          'avg_duration_ms', ROUND(AVG(duration_ms))
+        ) as fn_stats FROM logs GROUP BY edge_function
+      ) sub
+    )
+  ) INTO result;
+  RETURN result;
+END; $$;
+
+CREATE OR REPLACE FUNCTION get_user_activity(p_hours INTEGER DEFAULT 24, p_user_id UUID DEFAULT NULL)
+RETURNS JSON LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE result JSON; start_time TIMESTAMPTZ := NOW() - (p_hours || ' hours')::INTERVAL;
+  v_all BOOLEAN := auth.uid() IS NULL OR is_shopee_admin(auth.uid());
+BEGIN
+  WITH logs AS (
+    SELECT * FROM system_activity_logs WHERE created_at > start_time
+      AND (v_all
+        OR user_id IN (SELECT get_visible_profile_ids(auth.uid()))
+        OR shop_id IN (SELECT user_visible_shop_ids(auth.uid())))
+  )
+  SELECT json_build_object(
+    'timeline', (
+      SELECT COALESCE(json_agg(activity), '[]'::json) FROM (
+        SELECT json_build_object('id', id, 'user_name', user_name, 'user_email', user_email,
+          'shop_name', shop_name, 'action_type', action_type, 'action_category', action_category,
+          'action_description', action_description, 'status', status, 'source', source,
+          'duration_ms', duration_ms, 'error_message', error_message, 'created_at', created_at
+        ) as activity FROM logs
+        WHERE (p_user_id IS NULL OR user_id = p_user_id)
+        ORDER BY created_at DESC LIMIT 100
+      ) sub
+    ),
+    'by_user', (
+      SELECT COALESCE(json_agg(user_stats), '[]'::json) FROM (
+        SELECT json_build_object('user_id', user_id, 'user_name', COALESCE(MAX(user_name), MAX(user_email)),
+          'total_actions', COUNT(*), 'errors', COUNT(*) FILTER (WHERE status = 'failed'), 'last_action', MAX(created_at)
+        ) as user_stats FROM logs
+        WHERE user_id IS NOT NULL GROUP BY user_id
+      ) sub
+    ),
+    'by_category', (
+      SELECT COALESCE(json_agg(cat_stats), '[]'::json) FROM (
+        SELECT json_build_object('category', action_category, 'total', COUNT(*),
+          'success', COUNT(*) FILTER (WHERE status = 'success'), 'failed', COUNT(*) FILTER (WHERE status = 'failed')
+        ) as cat_stats FROM logs GROUP BY action_category
+      ) sub
+    )
+  ) INTO result;
+  RETURN result;
+END; $$;
+
+REVOKE EXECUTE ON FUNCTION get_api_analytics(INTEGER, TEXT, BIGINT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION get_user_activity(INTEGER, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_api_analytics(INTEGER, TEXT, BIGINT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_user_activity(INTEGER, UUID) TO authenticated, service_role;
+
+-- =====================================================
+-- 4. Team dashboard: Flash Sale jobs per member
+-- =====================================================
+-- Leaders: self + managed members. Admins: every user with a shop or a job in the period.
+-- Jobs are attributed to auto_history.user_id (who scheduled them).
+CREATE OR REPLACE FUNCTION get_team_flash_sale_overview(p_days INTEGER DEFAULT 7)
+RETURNS TABLE (
+  profile_id UUID,
+  full_name TEXT,
+  email TEXT,
+  is_self BOOLEAN,
+  shop_count INTEGER,
+  scheduled INTEGER,
+  processing INTEGER,
+  succeeded INTEGER,
+  failed INTEGER,
+  last_run_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH team AS (
+    SELECT get_visible_profile_ids(auth.uid()) AS id
+  ),
+  shops AS (
+    SELECT sm.profile_id, COUNT(*)::INTEGER AS shop_count
+    FROM apishopee_shop_members sm
+    WHERE sm.is_active = true AND sm.profile_id IN (SELECT id FROM team)
+    GROUP BY sm.profile_id
+  ),
+  jobs AS (
+    SELECT
+      h.user_id,
+      COUNT(*) FILTER (WHERE h.status IN ('scheduled', 'retry', 'pending'))::INTEGER AS scheduled,
+      COUNT(*) FILTER (WHERE h.status = 'processing')::INTEGER AS processing,
+      COUNT(*) FILTER (WHERE h.status = 'success')::INTEGER AS succeeded,
+      COUNT(*) FILTER (WHERE h.status IN ('error', 'partial'))::INTEGER AS failed,
+      MAX(h.executed_at) AS last_run_at
+    FROM apishopee_flash_sale_auto_history h
+    WHERE h.user_id IN (SELECT id FROM team)
+      AND (h.scheduled_at > now() - make_interval(days => GREATEST(p_days, 1))
+        OR h.status IN ('scheduled', 'retry', 'pending', 'processing'))
+    GROUP BY h.user_id
+  )
+  SELECT
+    p.id,
+    p.full_name,
+    p.email,
+    p.id = auth.uid(),
+    COALESCE(s.shop_count, 0),
+    COALESCE(j.scheduled, 0),
+    COALESCE(j.processing, 0),
+    COALESCE(j.succeeded, 0),
+    COALESCE(j.failed, 0),
+    j.last_run_at
+  FROM sys_profiles p
+  JOIN team t ON t.id = p.id
+  LEFT JOIN shops s ON s.profile_id = p.id
+  LEFT JOIN jobs j ON j.user_id = p.id
+  WHERE p.id = auth.uid()
+     OR NOT is_shopee_admin(auth.uid())
+     OR s.profile_id IS NOT NULL
+     OR j.user_id IS NOT NULL
+  ORDER BY p.id = auth.uid() DESC, p.full_name;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_team_flash_sale_overview(INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_team_flash_sale_overview(INTEGER) TO authenticated;
+
+-- =====================================================
+-- 5. Handover: move a member's shops to another member
+-- =====================================================
+-- Admins: any two users. Leaders: a managed member to themselves or another managed member.
+-- The receiver gets the giver's active memberships (same shop role); pending auto_history jobs and
+-- recurring rules of those shops are re-owned so the worker keeps running them for the receiver.
+CREATE OR REPLACE FUNCTION handover_member_shops(
+  p_from_profile_id UUID,
+  p_to_profile_id UUID,
+  p_remove_from BOOLEAN DEFAULT true,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller UUID := auth.uid();
+  v_shop_ids UUID[];
+  v_shopee_shop_ids BIGINT[];
+  v_added INTEGER := 0;
+  v_removed INTEGER := 0;
+  v_jobs INTEGER := 0;
+  v_rules INTEGER := 0;
+BEGIN
+  IF p_from_profile_id IS NULL OR p_to_profile_id IS NULL OR p_from_profile_id = p_to_profile_id THEN
+    RAISE EXCEPTION 'Người nhận bàn giao phải khác người bàn giao';
+  END IF;
+
+  IF NOT is_shopee_admin(v_caller) AND (
+    p_from_profile_id = v_caller
+    OR p_from_profile_id NOT IN (SELECT get_visible_profile_ids(v_caller))
+    OR p_to_profile_id NOT IN (SELECT get_visible_profile_ids(v_caller))
+  ) THEN
+    RAISE EXCEPTION 'Bạn chỉ có thể bàn giao shop giữa các thành viên trong nhóm của mình' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_admin_audit_context(p_reason);
+
+  SELECT COALESCE(array_agg(sm.shop_id), '{}'), COALESCE(array_agg(s.shop_id), '{}')
+  INTO v_shop_ids, v_shopee_shop_ids
+  FROM apishopee_shop_members sm
+  JOIN apishopee_shops s ON s.id = sm.shop_id
+  WHERE sm.profile_id = p_from_profile_id AND sm.is_active = true;
+
+  IF cardinality(v_shop_ids) > 0 THEN
+    INSERT INTO apishopee_shop_members (shop_id, profile_id, role_id, is_active)
+    SELECT sm.shop_id, p_to_profile_id, sm.role_id, true
+    FROM apishopee_shop_members sm
+    WHERE sm.profile_id = p_from_profile_id AND sm.shop_id = ANY(v_shop_ids)
+    ON CONFLICT (shop_id, profile_id) DO UPDATE SET is_active = true
+    WHERE apishopee_shop_members.is_active IS DISTINCT FROM true;
+    GET DIAGNOSTICS v_added = ROW_COUNT;
+
+    IF p_remove_from THEN
+      DELETE FROM apishopee_shop_members
+      WHERE profile_id = p_from_profile_id AND shop_id = ANY(v_shop_ids);
+      GET DIAGNOSTICS v_removed = ROW_COUNT;
+    END IF;
+
+    UPDATE apishopee_flash_sale_auto_history
+    SET user_id = p_to_profile_id, updated_at = now()
+    WHERE user_id = p_from_profile_id
+      AND shop_id = ANY(v_shopee_shop_ids)
+      AND status IN ('scheduled', 'retry', 'pending');
+    GET DIAGNOSTICS v_jobs = ROW_COUNT;
+
+    UPDATE apishopee_flash_sale_recurring_rules
+    SET created_by = p_to_profile_id
+    WHERE created_by = p_from_profile_id AND shop_id = ANY(v_shopee_shop_ids);
+    GET DIAGNOSTICS v_rules = ROW_COUNT;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'shops', cardinality(v_shop_ids),
+    'memberships_added', v_added,
+    'memberships_removed', v_removed,
+    'jobs_reassigned', v_jobs,
+    'rules_reassigned', v_rules
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION handover_member_shops(UUID, UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION handover_member_shops(UUID, UUID, BOOLEAN, TEXT) TO authenticated;
@@ -0,0 +1,359 @@
+-- =====================================================
+-- Migration 097: User invitations and deprovisioning
+-- =====================================================
+-- Replaces admin-create-user (admin typed a password for every new user) with email invitations:
+--   - Edge Function admin-invite-user creates an apishopee_user_invitations row (role, custom role,
+--     shops, leader decided up front) and sends the Supabase invite email; the link lands on
+--     /auth/invite?token=..., where the user sets their own password and accepts
+--   - Only the SHA-256 of the invitation token is stored; resending rotates it
+--   - accept_user_invitation applies the whole invitation in one transaction (profile, shops,
+--     custom role, leader) and is written to the admin audit log (094) on behalf of the inviter
+--   - Status: pending -> accepted / expired (cron + on accept) / revoked
+-- admin_deprovision_user removes a user's access in one transaction: shop memberships, custom role,
+-- team links, pending invitations, auth sessions and refresh tokens, and bans the auth user.
+-- Shared constants / validation: supabase/functions/_shared/user-invitations.ts
+
+-- =====================================================
+-- 1. Invitations
+-- =====================================================
+CREATE TABLE IF NOT EXISTS apishopee_user_invitations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  email TEXT NOT NULL CHECK (email = lower(trim(email)) AND email LIKE '%_@_%'),
+  full_name TEXT,
+  phone TEXT,
+  system_role TEXT NOT NULL DEFAULT 'user' CHECK (system_role IN ('admin', 'user')),
+  custom_role_id UUID REFERENCES apishopee_custom_roles(id) ON DELETE SET NULL,
+  shop_ids UUID[] NOT NULL DEFAULT '{}',
+  department_id UUID,
+  manager_id UUID REFERENCES sys_profiles(id) ON DELETE SET NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'expired', 'revoked')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  auth_user_id UUID,
+  accepted_at TIMESTAMPTZ,
+  revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMPTZ,
+  last_sent_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  send_count INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE apishopee_user_invitations IS 'Email invitations: access granted when the invitee accepts (accept_user_invitation)';
+COMMENT ON COLUMN apishopee_user_invitations.token_hash IS 'SHA-256 hex of the token in the invite link; the token itself is never stored';
+COMMENT ON COLUMN apishopee_user_invitations.shop_ids IS 'apishopee_shops.id the invitee joins as member';
+COMMENT ON COLUMN apishopee_user_invitations.auth_user_id IS 'auth.users row created by the invite email';
+
+-- One open invitation per email
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_invitations_pending_email
+  ON apishopee_user_invitations(email) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_user_invitations_created ON apishopee_user_invitations(created_at DESC);
+
+DROP TRIGGER IF EXISTS trg_user_invitations_updated_at ON apishopee_user_invitations;
+CREATE TRIGGER trg_user_invitations_updated_at
+  BEFORE UPDATE ON apishopee_user_invitations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Admins read; rows are written by admin-invite-user (service role) and the RPCs below
+ALTER TABLE apishopee_user_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read user invitations" ON apishopee_user_invitations;
+CREATE POLICY "Admins can read user invitations" ON apishopee_user_invitations
+  FOR SELECT
+  USING (auth.role() = 'service_role' OR is_shopee_admin(auth.uid()));
+
+REVOKE INSERT, UPDATE, DELETE ON apishopee_user_invitations FROM anon, authenticated;
+
+-- =====================================================
+-- 2. Deactivated profiles
+-- =====================================================
+ALTER TABLE sys_profiles ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMPTZ;
+ALTER TABLE sys_profiles ADD COLUMN IF NOT EXISTS deactivated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN sys_profiles.deactivated_at IS 'Set by admin_deprovision_user; cleared when the user accepts a new invitation';
+
+-- Same guard as 094, deactivated_at included
+CREATE OR REPLACE FUNCTION guard_profile_access_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND COALESCE(current_setting('app.audit_source', true), '') <> 'rpc'
+     AND (OLD.permissions IS DISTINCT FROM NEW.permissions
+          OR OLD.system_role IS DISTINCT FROM NEW.system_role
+          OR OLD.deactivated_at IS DISTINCT FROM NEW.deactivated_at) THEN
+    RAISE EXCEPTION 'permissions / system_role / deactivated_at can only be changed through admin RPCs'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_profile_access ON sys_profiles;
+CREATE TRIGGER trg_guard_profile_access
+  BEFORE UPDATE OF permissions, system_role, deactivated_at ON sys_profiles
+  FOR EACH ROW EXECUTE FUNCTION guard_profile_access_change();
+
+DROP TRIGGER IF EXISTS trg_audit_profiles_access ON sys_profiles;
+CREATE TRIGGER trg_audit_profiles_access
+  AFTER UPDATE OF permissions, system_role, deactivated_at ON sys_profiles
+  FOR EACH ROW
+  WHEN (
+    OLD.permissions IS DISTINCT FROM NEW.permissions
+    OR OLD.system_role IS DISTINCT FROM NEW.system_role
+    OR OLD.deactivated_at IS DISTINCT FROM NEW.deactivated_at
+  )
+  EXECUTE FUNCTION log_admin_audit('profile');
+
+-- Same as 095; a deactivated user has no role, features or team (JWTs issued before the
+-- deprovisioning stay valid until they expire, but every permission check fails)
+CREATE OR REPLACE FUNCTION get_shopee_app_permissions(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_base JSONB := get_shopee_app_base_permissions(p_user_id)::jsonb;
+  v_role RECORD;
+  v_overrides JSONB;
+  v_features JSONB;
+BEGIN
+  IF EXISTS (SELECT 1 FROM sys_profiles WHERE id = p_user_id AND deactivated_at IS NOT NULL) THEN
+    RETURN COALESCE(v_base, '{}'::jsonb) || jsonb_build_object(
+      'role', NULL,
+      'features', '[]'::jsonb,
+      'managed_member_ids', '[]'::jsonb
+    );
+  END IF;
+
+  IF v_base IS NULL OR v_base ->> 'role' IS NULL OR v_base ->> 'role' IN ('super_admin', 'admin') THEN
+    RETURN v_base;
+  END IF;
+
+  SELECT r.id, r.name, r.permissions INTO v_role
+  FROM apishopee_profile_custom_roles pr
+  JOIN apishopee_custom_roles r ON r.id = pr.role_id
+  WHERE pr.profile_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN v_base;
+  END IF;
+
+  SELECT p.permissions -> 'shopee_features' INTO v_overrides FROM sys_profiles p WHERE p.id = p_user_id;
+
+  SELECT COALESCE(jsonb_agg(DISTINCT f ORDER BY f), '[]'::jsonb) INTO v_features
+  FROM (
+    SELECT unnest(v_role.permissions) AS f
+    UNION
+    SELECT jsonb_array_elements_text(COALESCE(v_overrides -> 'add', '[]'::jsonb))
+  ) keys
+  WHERE NOT COALESCE(v_overrides -> 'remove', '[]'::jsonb) ? f;
+
+  RETURN v_base || jsonb_build_object(
+    'features', v_features,
+    'custom_role', jsonb_build_object('id', v_role.id, 'name', v_role.name)
+  );
+END;
+$$;
+
+-- =====================================================
+-- 3. Accept (service role, called by admin-invite-user for the signed-in invitee)
+-- =====================================================
+-- Returns the invitation status after the call: 'accepted', or why it could not be accepted
+-- ('expired', 'revoked', 'already_accepted'). Unknown token / other email raise.
+CREATE OR REPLACE FUNCTION accept_user_invitation(p_token_hash TEXT, p_user_id UUID, p_email TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_inv apishopee_user_invitations%ROWTYPE;
+  v_member_role UUID;
+BEGIN
+  SELECT * INTO v_inv FROM apishopee_user_invitations WHERE token_hash = p_token_hash FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lời mời không tồn tại hoặc đã được gửi lại' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_inv.email <> lower(trim(p_email)) THEN
+    RAISE EXCEPTION 'Lời mời này dành cho email khác' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_inv.status = 'accepted' THEN
+    RETURN CASE WHEN v_inv.auth_user_id = p_user_id THEN 'accepted' ELSE 'already_accepted' END;
+  END IF;
+  IF v_inv.status <> 'pending' THEN
+    RETURN v_inv.status;
+  END IF;
+  IF v_inv.expires_at < now() THEN
+    UPDATE apishopee_user_invitations SET status = 'expired' WHERE id = v_inv.id;
+    RETURN 'expired';
+  END IF;
+
+  PERFORM set_admin_audit_context('Chấp nhận lời mời ' || v_inv.email, v_inv.invited_by);
+
+  INSERT INTO sys_profiles (id, email, full_name, phone, system_role, permissions)
+  VALUES (
+    p_user_id,
+    v_inv.email,
+    v_inv.full_name,
+    v_inv.phone,
+    v_inv.system_role,
+    CASE WHEN v_inv.system_role = 'admin' THEN '[]'::jsonb
+         ELSE '["home", "orders", "products", "flash-sale", "settings/profile"]'::jsonb END
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    full_name = COALESCE(NULLIF(sys_profiles.full_name, ''), EXCLUDED.full_name),
+    phone = COALESCE(sys_profiles.phone, EXCLUDED.phone),
+    system_role = EXCLUDED.system_role,
+    permissions = EXCLUDED.permissions,
+    deactivated_at = NULL,
+    deactivated_by = NULL;
+
+  IF cardinality(v_inv.shop_ids) > 0 THEN
+    SELECT id INTO v_member_role FROM apishopee_roles WHERE name = 'member';
+    IF v_member_role IS NULL THEN
+      RAISE EXCEPTION 'Không tìm thấy role member';
+    END IF;
+
+    INSERT INTO apishopee_shop_members (shop_id, profile_id, role_id, is_active)
+    SELECT s.id, p_user_id, v_member_role, true
+    FROM apishopee_shops s
+    WHERE s.id = ANY(v_inv.shop_ids)
+    ON CONFLICT (shop_id, profile_id) DO UPDATE SET is_active = true
+    WHERE apishopee_shop_members.is_active IS DISTINCT FROM true;
+  END IF;
+
+  IF v_inv.custom_role_id IS NOT NULL THEN
+    INSERT INTO apishopee_profile_custom_roles (profile_id, role_id, assigned_by)
+    VALUES (p_user_id, v_inv.custom_role_id, v_inv.invited_by)
+    ON CONFLICT (profile_id) DO UPDATE SET role_id = EXCLUDED.role_id, assigned_by = EXCLUDED.assigned_by, assigned_at = now();
+  END IF;
+
+  IF v_inv.department_id IS NOT NULL THEN
+    INSERT INTO sys_profile_departments (profile_id, department_id, manager_id)
+    SELECT p_user_id, v_inv.department_id, v_inv.manager_id
+    WHERE NOT EXISTS (
+      SELECT 1 FROM sys_profile_departments
+      WHERE profile_id = p_user_id AND department_id = v_inv.department_id
+    );
+  END IF;
+
+  UPDATE apishopee_user_invitations
+  SET status = 'accepted', accepted_at = now(), auth_user_id = p_user_id
+  WHERE id = v_inv.id;
+
+  RETURN 'accepted';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION accept_user_invitation(TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION accept_user_invitation(TEXT, UUID, TEXT) TO service_role;
+
+-- =====================================================
+-- 4. Admin RPCs
+-- =====================================================
+-- Revoke a pending invitation; the auth user created by the invite email is removed if it never signed in
+CREATE OR REPLACE FUNCTION admin_revoke_user_invitation(p_invitation_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_auth_user UUID;
+BEGIN
+  PERFORM require_shopee_admin();
+  PERFORM set_admin_audit_context(p_reason);
+
+  UPDATE apishopee_user_invitations
+  SET status = 'revoked', revoked_by = auth.uid(), revoked_at = now()
+  WHERE id = p_invitation_id AND status IN ('pending', 'expired')
+  RETURNING auth_user_id INTO v_auth_user;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lời mời không tồn tại hoặc đã được chấp nhận';
+  END IF;
+
+  IF v_auth_user IS NOT NULL AND NOT EXISTS (SELECT 1 FROM sys_profiles WHERE id = v_auth_user) THEN
+    DELETE FROM auth.users WHERE id = v_auth_user AND last_sign_in_at IS NULL;
+  END IF;
+END;
+$$;
+
+-- Remove every access of a user at once; the account is kept (history, audit) but cannot sign in
+CREATE OR REPLACE FUNCTION admin_deprovision_user(p_profile_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email TEXT;
+  v_memberships INTEGER;
+  v_sessions INTEGER;
+  v_invitations INTEGER;
+BEGIN
+  PERFORM require_shopee_admin();
+  IF p_profile_id = auth.uid() THEN
+    RAISE EXCEPTION 'Không thể tự vô hiệu hóa tài khoản của mình';
+  END IF;
+  PERFORM set_admin_audit_context(p_reason);
+
+  SELECT email INTO v_email FROM sys_profiles WHERE id = p_profile_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Không tìm thấy người dùng';
+  END IF;
+
+  DELETE FROM apishopee_shop_members WHERE profile_id = p_profile_id;
+  GET DIAGNOSTICS v_memberships = ROW_COUNT;
+
+  DELETE FROM apishopee_profile_custom_roles WHERE profile_id = p_profile_id;
+
+  -- Leaves every team: off the department list, and their members no longer report to them
+  UPDATE sys_profile_departments SET manager_id = NULL WHERE manager_id = p_profile_id;
+  DELETE FROM sys_profile_departments WHERE profile_id = p_profile_id;
+
+  UPDATE apishopee_user_invitations
+  SET status = 'revoked', revoked_by = auth.uid(), revoked_at = now()
+  WHERE email = lower(v_email) AND status = 'pending';
+  GET DIAGNOSTICS v_invitations = ROW_COUNT;
+
+  UPDATE sys_profiles
+  SET system_role = 'user', deactivated_at = now(), deactivated_by = auth.uid()
+  WHERE id = p_profile_id;
+
+  UPDATE auth.users SET banned_until = 'infinity' WHERE id = p_profile_id;
+  DELETE FROM auth.refresh_tokens WHERE user_id = p_profile_id::TEXT;
+  DELETE FROM auth.sessions WHERE user_id = p_profile_id;
+  GET DIAGNOSTICS v_sessions = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'memberships_removed', v_memberships,
+    'sessions_revoked', v_sessions,
+    'invitations_revoked', v_invitations
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION admin_revoke_user_invitation(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION admin_deprovision_user(UUID, TEXT) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION admin_revoke_user_invitation(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_deprovision_user(UUID, TEXT) TO authenticated;
+
+-- =====================================================
+-- 5. Expiry + cleanup
+-- =====================================================
+SELECT cron.schedule(
+  'expire-user-invitations',
+  '15 * * * *',  -- Hourly at :15
+  $$UPDATE apishopee_user_invitations SET status = 'expired' WHERE status = 'pending' AND expires_at < NOW()$$
+);
+
+-- Stub from 051 that always returned an error; user creation now goes through invitations
+DROP FUNCTION IF EXISTS admin_create_user(TEXT, TEXT, TEXT, TEXT, TEXT);
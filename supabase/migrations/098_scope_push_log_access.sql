@@ -0,0 +1,16 @@
+-- =====================================================
+-- Migration 098: Scope push log reads
+-- =====================================================
+-- 078 let every signed-in user read every push payload. Users now see the pushes of the shops
+-- they can see (user_visible_shop_ids, 096); partner-level pushes without a shop_id are admin only.
+
+DROP POLICY IF EXISTS "Authenticated users can view push logs" ON apishopee_push_logs;
+DROP POLICY IF EXISTS "Users can view push logs of visible shops" ON apishopee_push_logs;
+CREATE POLICY "Users can view push logs of visible shops"
+  ON apishopee_push_logs
+  FOR SELECT
+  TO authenticated
+  USING (
+    is_shopee_admin(auth.uid())
+    OR shop_id IN (SELECT user_visible_shop_ids(auth.uid()))
+  );
@@ -0,0 +1,86 @@
+-- =====================================================
+-- Migration 099: Serialise worker job claims
+-- =====================================================
+-- claim_worker_jobs (080) skipped keys held by a live lease with a NOT EXISTS check, but two
+-- workers claiming at the same moment both saw the key as free and leased different jobs of
+-- the same concurrency_key (e.g. two flash_sale_create jobs for one shop). Claims now take a
+-- transaction-level advisory lock first, so each claim sees the leases committed by the last one.
+
+CREATE OR REPLACE FUNCTION claim_worker_jobs(
+  p_worker_id TEXT,
+  p_queues TEXT[],
+  p_limit INTEGER DEFAULT 1,
+  p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF worker_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- One claim at a time: the concurrency_key check below reads running rows from the statement
+  -- snapshot, so two overlapping claims could each lease a different job of the same key.
+  -- Claims are short, so waiting here costs less than double-running a shop's jobs.
+  PERFORM pg_advisory_xact_lock(hashtext('claim_worker_jobs'));
+
+  -- Expired leases that already used every attempt go to the dead letter
+  UPDATE worker_jobs
+  SET status = 'dead',
+      locked_by = NULL,
+      locked_until = NULL,
+      last_error = COALESCE(last_error, 'Lease expired after final attempt'),
+      updated_at = now()
+  WHERE status = 'running'
+    AND locked_until < now()
+    AND attempts >= max_attempts
+    AND queue = ANY(p_queues);
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT j.id, j.concurrency_key, j.priority, j.run_at
+    FROM worker_jobs j
+    WHERE j.queue = ANY(p_queues)
+      AND (
+        (j.status = 'pending' AND j.run_at <= now())
+        OR (j.status = 'running' AND j.locked_until < now())
+      )
+      -- Skip keys held by another live lease
+      AND (
+        j.concurrency_key IS NULL
+        OR NOT EXISTS (
+          SELECT 1 FROM worker_jobs r
+          WHERE r.concurrency_key = j.concurrency_key
+            AND r.status = 'running'
+            AND r.locked_until >= now()
+            AND r.id <> j.id
+        )
+      )
+    ORDER BY j.priority, j.run_at
+    LIMIT p_limit * 5
+    FOR UPDATE SKIP LOCKED
+  ),
+  -- One job per concurrency key within this claim
+  picked AS (
+    SELECT id FROM (
+      SELECT c.id, c.priority, c.run_at,
+             ROW_NUMBER() OVER (PARTITION BY COALESCE(c.concurrency_key, c.id::text) ORDER BY c.priority, c.run_at) AS rn
+      FROM candidates c
+    ) ranked
+    WHERE rn = 1
+    ORDER BY priority, run_at
+    LIMIT p_limit
+  )
+  UPDATE worker_jobs j
+  SET status = 'running',
+      attempts = j.attempts + 1,
+      locked_by = p_worker_id,
+      locked_until = now() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = now(),
+      updated_at = now()
+  FROM picked
+  WHERE j.id = picked.id
+  RETURNING j.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_worker_jobs(TEXT, TEXT[], INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_worker_jobs(TEXT, TEXT[], INTEGER, INTEGER) TO service_role;
@@ -0,0 +1,67 @@
+-- =====================================================
+-- Migration 100: Save Flash Sale Template in one transaction
+-- =====================================================
+-- useSaveFlashSaleTemplate wrote the template, the version, current_version and the shop
+-- attachments as four browser calls: a failure part-way left a template without a version
+-- (or a version that current_version never pointed to), and two editors read the same
+-- current_version before either saved. save_flash_sale_template does all of it in one call;
+-- the next version number is computed under a row lock on the template.
+
+-- SECURITY INVOKER: the RLS policies of migration 082 still decide who may create,
+-- version and attach. Returns {template_id, version}.
+CREATE OR REPLACE FUNCTION save_flash_sale_template(
+  p_template_id UUID,
+  p_name TEXT,
+  p_description TEXT,
+  p_source_shop_id BIGINT,
+  p_items JSONB,
+  p_criteria_snapshot JSONB,
+  p_note TEXT,
+  p_shop_ids BIGINT[]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_template_id UUID := p_template_id;
+  v_version INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Chưa đăng nhập' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_template_id IS NULL THEN
+    -- id generated here: the new row is not visible to the SELECT policy until commit
+    v_template_id := gen_random_uuid();
+    v_version := 1;
+    INSERT INTO apishopee_flash_sale_templates (id, name, description, source_shop_id, current_version, created_by)
+    VALUES (v_template_id, p_name, p_description, p_source_shop_id, 1, auth.uid());
+  ELSE
+    SELECT current_version + 1 INTO v_version
+    FROM apishopee_flash_sale_templates
+    WHERE id = v_template_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Không tìm thấy template';
+    END IF;
+
+    UPDATE apishopee_flash_sale_templates
+    SET current_version = v_version, name = p_name, description = p_description
+    WHERE id = v_template_id;
+  END IF;
+
+  INSERT INTO apishopee_flash_sale_template_versions (template_id, version, items, criteria_snapshot, note, created_by)
+  VALUES (v_template_id, v_version, COALESCE(p_items, '[]'::jsonb), p_criteria_snapshot, p_note, auth.uid());
+
+  INSERT INTO apishopee_flash_sale_template_shops (template_id, shop_id, attached_by)
+  SELECT v_template_id, shop_id, auth.uid()
+  FROM unnest(COALESCE(p_shop_ids, '{}')) AS shop_id
+  ON CONFLICT (template_id, shop_id) DO NOTHING;
+
+  RETURN jsonb_build_object('template_id', v_template_id, 'version', v_version);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_flash_sale_template(UUID, TEXT, TEXT, BIGINT, JSONB, JSONB, TEXT, BIGINT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_flash_sale_template(UUID, TEXT, TEXT, BIGINT, JSONB, JSONB, TEXT, BIGINT[]) TO authenticated;
@@ -0,0 +1,35 @@
+-- =====================================================
+-- Migration 101: One active Flash Sale schedule per shop + timeslot
+-- =====================================================
+-- The recurring expander (083), the batch wizard (084) and the manual setup pages all
+-- check for an existing row before inserting, but two writers checking at the same time
+-- both saw the slot as free. idx_fs_auto_history_shop_timeslot was a plain index, so
+-- nothing stopped the second insert and the scheduler then created (or failed on) a
+-- second Flash Sale for the same slot.
+-- Active = not yet finished: scheduled, pending, retry, processing. Finished rows
+-- (success, partial, error) keep their history and do not block a new schedule.
+
+-- =====================================================
+-- 1. Resolve existing double bookings
+-- =====================================================
+-- Keep the oldest active row per slot; later ones become errors so the index can be built
+UPDATE apishopee_flash_sale_auto_history h
+SET status = 'error',
+    error_message = 'Trùng lịch: khung giờ đã có lịch Flash Sale khác',
+    updated_at = now()
+WHERE h.status IN ('scheduled', 'pending', 'retry', 'processing')
+  AND EXISTS (
+    SELECT 1 FROM apishopee_flash_sale_auto_history o
+    WHERE o.shop_id = h.shop_id
+      AND o.timeslot_id = h.timeslot_id
+      AND o.status IN ('scheduled', 'pending', 'retry', 'processing')
+      AND (o.created_at, o.id) < (h.created_at, h.id)
+  );
+
+-- =====================================================
+-- 2. Partial unique index
+-- =====================================================
+-- idx_fs_auto_history_shop_timeslot stays for booked-slot checks, which also read finished rows
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fs_auto_history_active_slot
+  ON apishopee_flash_sale_auto_history(shop_id, timeslot_id)
+  WHERE status IN ('scheduled', 'pending', 'retry', 'processing');
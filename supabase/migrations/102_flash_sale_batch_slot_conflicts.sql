@@ -0,0 +1,84 @@
+-- =====================================================
+-- Migration 102: Flash Sale batches skip booked slots
+-- =====================================================
+-- create_flash_sale_batch / append_flash_sale_batch (084) inserted every previewed slot,
+-- so a slot booked between the preview and the enqueue (another batch, a recurring rule,
+-- a manual schedule) got a second active row. Inserts now go through the partial unique
+-- index of migration 101 with ON CONFLICT DO NOTHING:
+-- - slots_count is the number of rows actually created for the shop
+-- - a shop whose every slot was taken is recorded as 'skipped' with the reason
+
+-- =====================================================
+-- 1. batch_shops.status: skipped
+-- =====================================================
+ALTER TABLE apishopee_flash_sale_batch_shops
+  DROP CONSTRAINT IF EXISTS apishopee_flash_sale_batch_shops_status_check;
+ALTER TABLE apishopee_flash_sale_batch_shops
+  ADD CONSTRAINT apishopee_flash_sale_batch_shops_status_check
+  CHECK (status IN ('scheduled', 'failed', 'skipped'));
+
+COMMENT ON COLUMN apishopee_flash_sale_batch_shops.status IS 'scheduled = auto_history rows created; failed = nothing enqueued (no slot / no item / API error); skipped = every slot already booked by another schedule';
+
+-- =====================================================
+-- 2. append_flash_sale_batch - ON CONFLICT DO NOTHING
+-- =====================================================
+-- SECURITY INVOKER as before (084). Returns the number of rows created.
+CREATE OR REPLACE FUNCTION append_flash_sale_batch(
+  p_batch_id UUID,
+  p_shops JSONB,
+  p_rows JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_created JSONB;
+  v_inserted INTEGER;
+BEGIN
+  WITH inserted AS (
+    INSERT INTO apishopee_flash_sale_auto_history (
+      shop_id, user_id, timeslot_id, status, lead_time_minutes, scheduled_at,
+      slot_start_time, slot_end_time, items_count, template_id, template_version, item_source, batch_id
+    )
+    SELECT r.shop_id, auth.uid(), r.timeslot_id, 'scheduled', r.lead_time_minutes, r.scheduled_at,
+      r.slot_start_time, r.slot_end_time, COALESCE(r.items_count, 0), r.template_id, r.template_version, r.item_source, p_batch_id
+    FROM jsonb_to_recordset(p_rows) AS r(
+      shop_id BIGINT, timeslot_id BIGINT, lead_time_minutes INTEGER, scheduled_at TIMESTAMPTZ,
+      slot_start_time BIGINT, slot_end_time BIGINT, items_count INTEGER,
+      template_id UUID, template_version INTEGER, item_source JSONB
+    )
+    ON CONFLICT (shop_id, timeslot_id) WHERE status IN ('scheduled', 'pending', 'retry', 'processing')
+    DO NOTHING
+    RETURNING shop_id
+  )
+  SELECT COALESCE(jsonb_object_agg(shop_id, created), '{}'::jsonb), COALESCE(SUM(created), 0)
+  INTO v_created, v_inserted
+  FROM (SELECT shop_id, COUNT(*) AS created FROM inserted GROUP BY shop_id) c;
+
+  INSERT INTO apishopee_flash_sale_batch_shops (batch_id, shop_id, status, slots_count, items_count, error_message)
+  SELECT p_batch_id, s.shop_id,
+    CASE WHEN s.status = 'scheduled' AND s.created = 0 THEN 'skipped' ELSE s.status END,
+    CASE WHEN s.status = 'scheduled' THEN s.created ELSE 0 END,
+    COALESCE(s.items_count, 0),
+    CASE
+      WHEN s.status = 'scheduled' AND s.created = 0 THEN 'Mọi khung giờ đã có lịch Flash Sale khác'
+      WHEN s.status = 'scheduled' AND s.created < COALESCE(s.slots_count, 0)
+        THEN format('Bỏ qua %s khung giờ đã có lịch Flash Sale khác', s.slots_count - s.created)
+      ELSE s.error_message
+    END
+  FROM (
+    SELECT s.*, COALESCE((v_created->>s.shop_id::text)::INTEGER, 0) AS created
+    FROM jsonb_to_recordset(p_shops) AS s(shop_id BIGINT, status TEXT, slots_count INTEGER, items_count INTEGER, error_message TEXT)
+  ) s
+  ON CONFLICT (batch_id, shop_id) DO UPDATE SET
+    status = EXCLUDED.status,
+    slots_count = EXCLUDED.slots_count,
+    items_count = EXCLUDED.items_count,
+    error_message = EXCLUDED.error_message,
+    attempts = apishopee_flash_sale_batch_shops.attempts + 1,
+    updated_at = now();
+
+  UPDATE apishopee_flash_sale_batches SET updated_at = now() WHERE id = p_batch_id;
+  RETURN v_inserted;
+END;
+$$;
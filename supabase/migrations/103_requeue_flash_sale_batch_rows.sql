@@ -0,0 +1,48 @@
+-- =====================================================
+-- Migration 103: Re-queue failed Flash Sale batch rows in one call
+-- =====================================================
+-- The retry button of FlashSaleBatchProgressDialog re-queued error rows with one browser
+-- update per row, so a failure part-way left the batch half retried.
+
+-- =====================================================
+-- requeue_flash_sale_batch_rows - retry error rows
+-- =====================================================
+-- Error rows of the given shops whose slot starts after now + p_min_start_buffer_sec go back
+-- to 'scheduled' (flash_sale_id kept so the scheduler resumes). A slot that meanwhile got
+-- another active row is left as is. SECURITY INVOKER: only rows the caller may update.
+CREATE OR REPLACE FUNCTION requeue_flash_sale_batch_rows(
+  p_batch_id UUID,
+  p_shop_ids BIGINT[],
+  p_min_start_buffer_sec INTEGER DEFAULT 0
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_now_sec BIGINT := EXTRACT(EPOCH FROM now())::BIGINT;
+  v_requeued INTEGER;
+BEGIN
+  UPDATE apishopee_flash_sale_auto_history h
+  SET status = 'scheduled',
+      retry_count = 0,
+      error_message = NULL,
+      executed_at = NULL,
+      scheduled_at = to_timestamp(GREATEST(v_now_sec, h.slot_start_time - COALESCE(h.lead_time_minutes, 0) * 60)),
+      updated_at = now()
+  WHERE h.batch_id = p_batch_id
+    AND h.status = 'error'
+    AND h.shop_id = ANY(p_shop_ids)
+    AND h.slot_start_time > v_now_sec + p_min_start_buffer_sec
+    AND NOT EXISTS (
+      SELECT 1 FROM apishopee_flash_sale_auto_history o
+      WHERE o.shop_id = h.shop_id
+        AND o.timeslot_id = h.timeslot_id
+        AND o.status IN ('scheduled', 'pending', 'retry', 'processing')
+    );
+
+  GET DIAGNOSTICS v_requeued = ROW_COUNT;
+  RETURN v_requeued;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION requeue_flash_sale_batch_rows(UUID, BIGINT[], INTEGER) TO authenticated;
@@ -0,0 +1,45 @@
+-- =====================================================
+-- Migration 104: Replace order lines in one transaction
+-- =====================================================
+-- The order_sync worker (091) deleted the lines of a page of orders and inserted the new ones
+-- as two calls: a failed insert left those orders without lines until the next sync, and
+-- revenue per Flash Sale read them as empty. replace_order_items does both in one call.
+
+-- Called by the worker with the service role key. Returns the number of lines inserted.
+CREATE OR REPLACE FUNCTION replace_order_items(
+  p_shop_id BIGINT,
+  p_order_sns TEXT[],
+  p_items JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_inserted INTEGER;
+BEGIN
+  DELETE FROM apishopee_order_items
+  WHERE shop_id = p_shop_id
+    AND order_sn = ANY(p_order_sns);
+
+  INSERT INTO apishopee_order_items (
+    shop_id, order_sn, item_id, model_id, item_name, item_sku, model_name, model_sku,
+    quantity, original_price, discounted_price, promotion_type, promotion_id, flash_sale_id,
+    image_url, order_status, create_time
+  )
+  SELECT p_shop_id, r.order_sn, r.item_id, COALESCE(r.model_id, 0), r.item_name, r.item_sku, r.model_name, r.model_sku,
+    COALESCE(r.quantity, 0), COALESCE(r.original_price, 0), COALESCE(r.discounted_price, 0),
+    r.promotion_type, r.promotion_id, r.flash_sale_id, r.image_url, r.order_status, r.create_time
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS r(
+    order_sn TEXT, item_id BIGINT, model_id BIGINT, item_name TEXT, item_sku TEXT, model_name TEXT, model_sku TEXT,
+    quantity INTEGER, original_price DECIMAL(15,2), discounted_price DECIMAL(15,2), promotion_type TEXT,
+    promotion_id BIGINT, flash_sale_id BIGINT, image_url TEXT, order_status TEXT, create_time BIGINT
+  )
+  WHERE r.order_sn = ANY(p_order_sns);
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+  RETURN v_inserted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION replace_order_items(BIGINT, TEXT[], JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION replace_order_items(BIGINT, TEXT[], JSONB) TO service_role;
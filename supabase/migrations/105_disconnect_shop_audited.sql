@@ -0,0 +1,66 @@
+-- =====================================================
+-- Migration 105: Audited shop disconnect
+-- =====================================================
+-- SupabaseTokenStorage.clear() nulled access_token / refresh_token of apishopee_shops
+-- straight from the browser. trg_audit_shops_connection (094) only fired on partner,
+-- merchant or auth_time changes, so a disconnect left no audit row.
+-- - disconnect_shop: the one write path for clearing a shop's tokens (member or admin)
+-- - the connection trigger also fires when a token is cleared, so a direct update is
+--   still logged (source 'direct')
+
+-- =====================================================
+-- 1. Log token clears
+-- =====================================================
+DROP TRIGGER IF EXISTS trg_audit_shops_connection ON apishopee_shops;
+CREATE TRIGGER trg_audit_shops_connection
+  AFTER UPDATE ON apishopee_shops
+  FOR EACH ROW
+  WHEN (
+    OLD.partner_id IS DISTINCT FROM NEW.partner_id
+    OR OLD.merchant_id IS DISTINCT FROM NEW.merchant_id
+    OR OLD.auth_time IS DISTINCT FROM NEW.auth_time
+    OR (OLD.access_token IS NOT NULL AND NEW.access_token IS NULL)
+  )
+  EXECUTE FUNCTION log_admin_audit('shop');
+
+-- =====================================================
+-- 2. disconnect_shop
+-- =====================================================
+-- Clears the tokens, keeps the shop record (members, history). Allowed for active members
+-- of the shop and for admins.
+CREATE OR REPLACE FUNCTION disconnect_shop(p_shop_id BIGINT, p_reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_shopee_admin(auth.uid()) AND NOT EXISTS (
+    SELECT 1
+    FROM apishopee_shop_members sm
+    JOIN apishopee_shops s ON s.id = sm.shop_id
+    WHERE s.shop_id = p_shop_id
+      AND sm.profile_id = auth.uid()
+      AND sm.is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Bạn không có quyền thực hiện thao tác này' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_admin_audit_context(COALESCE(p_reason, 'Ngắt kết nối shop'));
+
+  UPDATE apishopee_shops
+  SET access_token = NULL,
+      refresh_token = NULL,
+      expired_at = NULL,
+      access_token_expired_at = NULL,
+      token_updated_at = now()
+  WHERE shop_id = p_shop_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Không tìm thấy shop';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION disconnect_shop(BIGINT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION disconnect_shop(BIGINT, TEXT) TO authenticated;
@@ -0,0 +1,107 @@
+-- =====================================================
+-- Migration 106: Deprovisioning stops the user's Flash Sale automation
+-- =====================================================
+-- admin_deprovision_user (097) removed access but left the user's scheduled Flash Sales
+-- (apishopee_flash_sale_auto_history.user_id) and recurring rules (created_by) running:
+-- the worker and the recurring expander never re-check the owner, so a removed user kept
+-- creating Flash Sales. Active rows (including 'processing', which the worker re-queues when
+-- stuck) are now cancelled and rules paused in the same transaction; the counts are returned
+-- with the rest.
+-- An admin can no longer deprovision an account of the same or a higher role (admin → admin,
+-- admin → super admin).
+
+-- 0 = user / leader / member, 1 = admin, 2 = super admin (system role or app role, the higher one)
+CREATE OR REPLACE FUNCTION shopee_role_rank(p_user_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(MAX(CASE r WHEN 'super_admin' THEN 2 WHEN 'admin' THEN 1 ELSE 0 END), 0)
+  FROM (
+    SELECT system_role AS r FROM sys_profiles WHERE id = p_user_id
+    UNION ALL
+    SELECT get_shopee_app_permissions(p_user_id)::jsonb ->> 'role'
+  ) roles;
+$$;
+
+REVOKE EXECUTE ON FUNCTION shopee_role_rank(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Remove every access of a user at once; the account is kept (history, audit) but cannot sign in
+CREATE OR REPLACE FUNCTION admin_deprovision_user(p_profile_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email TEXT;
+  v_memberships INTEGER;
+  v_sessions INTEGER;
+  v_invitations INTEGER;
+  v_flash_sale_jobs INTEGER;
+  v_recurring_rules INTEGER;
+BEGIN
+  PERFORM require_shopee_admin();
+  IF p_profile_id = auth.uid() THEN
+    RAISE EXCEPTION 'Không thể tự vô hiệu hóa tài khoản của mình';
+  END IF;
+  IF shopee_role_rank(p_profile_id) >= shopee_role_rank(auth.uid()) THEN
+    RAISE EXCEPTION 'Không thể vô hiệu hóa tài khoản có vai trò ngang hoặc cao hơn bạn' USING ERRCODE = '42501';
+  END IF;
+  PERFORM set_admin_audit_context(p_reason);
+
+  SELECT email INTO v_email FROM sys_profiles WHERE id = p_profile_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Không tìm thấy người dùng';
+  END IF;
+
+  DELETE FROM apishopee_shop_members WHERE profile_id = p_profile_id;
+  GET DIAGNOSTICS v_memberships = ROW_COUNT;
+
+  DELETE FROM apishopee_profile_custom_roles WHERE profile_id = p_profile_id;
+
+  -- Leaves every team: off the department list, and their members no longer report to them
+  UPDATE sys_profile_departments SET manager_id = NULL WHERE manager_id = p_profile_id;
+  DELETE FROM sys_profile_departments WHERE profile_id = p_profile_id;
+
+  UPDATE apishopee_user_invitations
+  SET status = 'revoked', revoked_by = auth.uid(), revoked_at = now()
+  WHERE email = lower(v_email) AND status = 'pending';
+  GET DIAGNOSTICS v_invitations = ROW_COUNT;
+
+  -- Scheduled Flash Sales of the user: the worker skips rows that are no longer active.
+  -- 'processing' too: a stuck row would be re-queued and run again otherwise.
+  UPDATE apishopee_flash_sale_auto_history
+  SET status = 'error', error_message = 'Người tạo lịch đã bị vô hiệu hóa', updated_at = now()
+  WHERE user_id = p_profile_id AND status IN ('scheduled', 'pending', 'retry', 'processing');
+  GET DIAGNOSTICS v_flash_sale_jobs = ROW_COUNT;
+
+  -- Paused, not deleted: another admin can review and re-enable them
+  UPDATE apishopee_flash_sale_recurring_rules
+  SET is_active = false, updated_at = now()
+  WHERE created_by = p_profile_id AND is_active;
+  GET DIAGNOSTICS v_recurring_rules = ROW_COUNT;
+
+  UPDATE sys_profiles
+  SET system_role = 'user', deactivated_at = now(), deactivated_by = auth.uid()
+  WHERE id = p_profile_id;
+
+  UPDATE auth.users SET banned_until = 'infinity' WHERE id = p_profile_id;
+  DELETE FROM auth.refresh_tokens WHERE user_id = p_profile_id::TEXT;
+  DELETE FROM auth.sessions WHERE user_id = p_profile_id;
+  GET DIAGNOSTICS v_sessions = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'memberships_removed', v_memberships,
+    'sessions_revoked', v_sessions,
+    'invitations_revoked', v_invitations,
+    'flash_sale_jobs_cancelled', v_flash_sale_jobs,
+    'recurring_rules_paused', v_recurring_rules
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION admin_deprovision_user(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION admin_deprovision_user(UUID, TEXT) TO authenticated;
@@ -0,0 +1,101 @@
+-- =====================================================
+-- Migration 107: Accepting an invitation never reactivates a deactivated account
+-- =====================================================
+-- accept_user_invitation (097) cleared deactivated_at, as if a deprovisioned user could be
+-- invited again. admin-invite-user skips every email that already has a profile and the
+-- auth user stays banned, so that branch never ran. Deactivation is final: the branch is
+-- removed and a deactivated profile is refused outright.
+
+COMMENT ON COLUMN sys_profiles.deactivated_at IS 'Set by admin_deprovision_user; final - the email cannot be invited again';
+
+-- Returns the invitation status after the call: 'accepted', or why it could not be accepted
+-- ('expired', 'revoked', 'already_accepted'). Unknown token / other email / deactivated account raise.
+CREATE OR REPLACE FUNCTION accept_user_invitation(p_token_hash TEXT, p_user_id UUID, p_email TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_inv apishopee_user_invitations%ROWTYPE;
+  v_member_role UUID;
+BEGIN
+  SELECT * INTO v_inv FROM apishopee_user_invitations WHERE token_hash = p_token_hash FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lời mời không tồn tại hoặc đã được gửi lại' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_inv.email <> lower(trim(p_email)) THEN
+    RAISE EXCEPTION 'Lời mời này dành cho email khác' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_inv.status = 'accepted' THEN
+    RETURN CASE WHEN v_inv.auth_user_id = p_user_id THEN 'accepted' ELSE 'already_accepted' END;
+  END IF;
+  IF v_inv.status <> 'pending' THEN
+    RETURN v_inv.status;
+  END IF;
+  IF v_inv.expires_at < now() THEN
+    UPDATE apishopee_user_invitations SET status = 'expired' WHERE id = v_inv.id;
+    RETURN 'expired';
+  END IF;
+  IF EXISTS (SELECT 1 FROM sys_profiles WHERE id = p_user_id AND deactivated_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Tài khoản đã bị vô hiệu hóa' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_admin_audit_context('Chấp nhận lời mời ' || v_inv.email, v_inv.invited_by);
+
+  INSERT INTO sys_profiles (id, email, full_name, phone, system_role, permissions)
+  VALUES (
+    p_user_id,
+    v_inv.email,
+    v_inv.full_name,
+    v_inv.phone,
+    v_inv.system_role,
+    CASE WHEN v_inv.system_role = 'admin' THEN '[]'::jsonb
+         ELSE '["home", "orders", "products", "flash-sale", "settings/profile"]'::jsonb END
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    full_name = COALESCE(NULLIF(sys_profiles.full_name, ''), EXCLUDED.full_name),
+    phone = COALESCE(sys_profiles.phone, EXCLUDED.phone),
+    system_role = EXCLUDED.system_role,
+    permissions = EXCLUDED.permissions;
+
+  IF cardinality(v_inv.shop_ids) > 0 THEN
+    SELECT id INTO v_member_role FROM apishopee_roles WHERE name = 'member';
+    IF v_member_role IS NULL THEN
+      RAISE EXCEPTION 'Không tìm thấy role member';
+    END IF;
+
+    INSERT INTO apishopee_shop_members (shop_id, profile_id, role_id, is_active)
+    SELECT s.id, p_user_id, v_member_role, true
+    FROM apishopee_shops s
+    WHERE s.id = ANY(v_inv.shop_ids)
+    ON CONFLICT (shop_id, profile_id) DO UPDATE SET is_active = true
+    WHERE apishopee_shop_members.is_active IS DISTINCT FROM true;
+  END IF;
+
+  IF v_inv.custom_role_id IS NOT NULL THEN
+    INSERT INTO apishopee_profile_custom_roles (profile_id, role_id, assigned_by)
+    VALUES (p_user_id, v_inv.custom_role_id, v_inv.invited_by)
+    ON CONFLICT (profile_id) DO UPDATE SET role_id = EXCLUDED.role_id, assigned_by = EXCLUDED.assigned_by, assigned_at = now();
+  END IF;
+
+  IF v_inv.department_id IS NOT NULL THEN
+    INSERT INTO sys_profile_departments (profile_id, department_id, manager_id)
+    SELECT p_user_id, v_inv.department_id, v_inv.manager_id
+    WHERE NOT EXISTS (
+      SELECT 1 FROM sys_profile_departments
+      WHERE profile_id = p_user_id AND department_id = v_inv.department_id
+    );
+  END IF;
+
+  UPDATE apishopee_user_invitations
+  SET status = 'accepted', accepted_at = now(), auth_user_id = p_user_id
+  WHERE id = v_inv.id;
+
+  RETURN 'accepted';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION accept_user_invitation(TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION accept_user_invitation(TEXT, UUID, TEXT) TO service_role;
@@ -0,0 +1,13 @@
+-- =====================================================
+-- Migration 108: Scope webhook rejected log reads
+-- =====================================================
+-- 079 let every signed-in user read every rejected push (client IP, user agent, payload). Like push logs
+-- (098), they are now admin only.
+
+DROP POLICY IF EXISTS "Authenticated users can view webhook rejected logs" ON apishopee_webhook_rejected_logs;
+DROP POLICY IF EXISTS "Admins can view webhook rejected logs" ON apishopee_webhook_rejected_logs;
+CREATE POLICY "Admins can view webhook rejected logs"
+  ON apishopee_webhook_rejected_logs
+  FOR SELECT
+  TO authenticated
+  USING (is_shopee_admin(auth.uid()));
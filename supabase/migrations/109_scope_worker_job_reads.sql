@@ -0,0 +1,17 @@
+-- =====================================================
+-- Migration 109: Scope worker job reads
+-- =====================================================
+-- 080 let every signed-in user read every worker job (payloads, results, errors of all shops).
+-- Users now see the jobs they enqueued (payload.user_id, e.g. product_sync polled by
+-- useProductSync); other jobs (flash sale, token refresh, order sync) are admin only.
+
+DROP POLICY IF EXISTS "Authenticated users can view worker jobs" ON worker_jobs;
+DROP POLICY IF EXISTS "Users can view own worker jobs" ON worker_jobs;
+CREATE POLICY "Users can view own worker jobs"
+  ON worker_jobs
+  FOR SELECT
+  TO authenticated
+  USING (
+    is_shopee_admin(auth.uid())
+    OR payload->>'user_id' = auth.uid()::text
+  );
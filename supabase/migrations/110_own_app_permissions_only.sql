@@ -0,0 +1,67 @@
+-- =====================================================
+-- Migration 110: Own permissions only
+-- =====================================================
+-- get_shopee_app_permissions (095, 097) is granted to authenticated and returned the role,
+-- features and team of any user id, so every user could read everyone's permissions.
+-- A signed-in caller now only gets their own, unless they are an admin (Users page).
+-- Calls without a user (service role: action guard, admin-invite-user) are unchanged.
+-- is_shopee_admin(auth.uid()) asks for the caller's own permissions, so the check does not recurse.
+
+-- Same as 097 plus the caller check
+CREATE OR REPLACE FUNCTION get_shopee_app_permissions(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_base JSONB := get_shopee_app_base_permissions(p_user_id)::jsonb;
+  v_role RECORD;
+  v_overrides JSONB;
+  v_features JSONB;
+BEGIN
+  IF auth.uid() IS NOT NULL AND p_user_id IS DISTINCT FROM auth.uid() AND NOT is_shopee_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Bạn không có quyền thực hiện thao tác này' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM sys_profiles WHERE id = p_user_id AND deactivated_at IS NOT NULL) THEN
+    RETURN COALESCE(v_base, '{}'::jsonb) || jsonb_build_object(
+      'role', NULL,
+      'features', '[]'::jsonb,
+      'managed_member_ids', '[]'::jsonb
+    );
+  END IF;
+
+  IF v_base IS NULL OR v_base ->> 'role' IS NULL OR v_base ->> 'role' IN ('super_admin', 'admin') THEN
+    RETURN v_base;
+  END IF;
+
+  SELECT r.id, r.name, r.permissions INTO v_role
+  FROM apishopee_profile_custom_roles pr
+  JOIN apishopee_custom_roles r ON r.id = pr.role_id
+  WHERE pr.profile_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN v_base;
+  END IF;
+
+  SELECT p.permissions -> 'shopee_features' INTO v_overrides FROM sys_profiles p WHERE p.id = p_user_id;
+
+  SELECT COALESCE(jsonb_agg(DISTINCT f ORDER BY f), '[]'::jsonb) INTO v_features
+  FROM (
+    SELECT unnest(v_role.permissions) AS f
+    UNION
+    SELECT jsonb_array_elements_text(COALESCE(v_overrides -> 'add', '[]'::jsonb))
+  ) keys
+  WHERE NOT COALESCE(v_overrides -> 'remove', '[]'::jsonb) ? f;
+
+  RETURN v_base || jsonb_build_object(
+    'features', v_features,
+    'custom_role', jsonb_build_object('id', v_role.id, 'name', v_role.name)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_shopee_app_permissions(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_shopee_app_permissions(UUID) TO authenticated, service_role;
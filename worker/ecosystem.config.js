@@ -1,7 +1,7 @@
 module.exports = {
   apps: [{
     name: 'shopee-worker',
-    script: './dist/index.js',
+    script: './dist/worker/src/index.js',
     node_args: '--max-old-space-size=256',
     max_memory_restart: '250M',
     log_date_format: 'YYYY-MM-DD HH:mm:ss',
@@ -1,8 +1,8 @@
 import dotenv from 'dotenv';
 import path from 'path';
 
-// Load .env from worker directory
-dotenv.config({ path: path.resolve(__dirname, '../.env') });
+// Load .env from worker directory: src/ under ts-node, dist/worker/src/ once built
+dotenv.config({ path: [path.resolve(__dirname, '../.env'), path.resolve(__dirname, '../../../.env')] });
 
 function requireEnv(key: string): string {
   const value = process.env[key];
@@ -18,4 +18,7 @@ export const config = {
   shopeeBaseUrl: process.env.SHOPEE_BASE_URL || 'https://partner.shopeemobile.com',
   flashSaleAlertWebhook: process.env.FLASH_SALE_ALERT_WEBHOOK || '',
   nodeEnv: process.env.NODE_ENV || 'development',
+  /** Max jobs running at once in this process */
+  queueConcurrency: Number(process.env.QUEUE_CONCURRENCY) || 5,
+  queuePollIntervalMs: Number(process.env.QUEUE_POLL_INTERVAL_MS) || 5000,
 };
@@ -4,17 +4,30 @@
  * Persistent Node.js process running on EC2, managed by PM2.
  * Replaces pg_cron + Edge Functions for batch processing 294+ shops.
  *
+ * node-cron only enqueues jobs into the worker_jobs queue; the queue consumer
+ * leases and runs them, so several worker processes can run side by side.
+ *
  * Phase 1: Flash Sale jobs (scheduler + sync)
- * Phase 2: Token refresh + all sync jobs (TODO)
+ * Phase 2: Token refresh + product sync + orders sync
  * Phase 3: Ads jobs (TODO)
  */
 import cron from 'node-cron';
 import http from 'http';
 import { config } from './config';
 import { supabase } from './lib/supabase';
-import { runFlashSaleScheduler } from './jobs/flash-sale-scheduler';
-import { runFlashSaleSync } from './jobs/flash-sale-sync';
-import { runTokenRefresh } from './jobs/token-refresh';
+import { enqueueDueFlashSaleJobs, handleFlashSaleCreateJob } from './jobs/flash-sale-scheduler';
+import { enqueueFlashSaleSyncJobs, handleFlashSaleSyncJob } from './jobs/flash-sale-sync';
+import { enqueueRecurringExpansionJobs, handleFlashSaleExpandJob } from './jobs/flash-sale-recurring';
+import { enqueueTokenRefreshJob, handleTokenRefreshJob } from './jobs/token-refresh';
+import { enqueueProductSyncJobs, handleProductSyncJob } from './jobs/product-sync';
+import { enqueueOrderSyncJobs, handleOrderSyncJob } from './jobs/order-sync';
+import {
+  registerJobHandler,
+  startQueueConsumer,
+  stopQueueConsumer,
+  getActiveJobCount,
+  getQueueConsumerStatus,
+} from './lib/job-queue';
 import { startHeartbeat } from './utils/health-heartbeat';
 import { registerCronJob, markCronStart, markCronSuccess, markCronFailed, getAllCronStatuses } from './utils/cron-status';
 
@@ -30,53 +43,35 @@ process.on('uncaughtException', (err) => {
   process.exit(1);
 });
 
-// ==================== STARTUP CLEANUP ====================
+// ==================== JOB QUEUE ====================
 
-/**
- * Reset stuck 'processing' rows on startup.
- * Handles case where PM2 restarted after a crash mid-job.
- */
-async function cleanupStuckJobs(): Promise<void> {
-  try {
-    const { data, error } = await supabase
-      .from('apishopee_flash_sale_auto_history')
-      .update({
-        status: 'scheduled',
-        error_message: 'Worker restarted — reset from processing',
-        updated_at: new Date().toISOString(),
-      })
-      .eq('status', 'processing')
-      .select('id');
-
-    if (error) {
-      console.error('[WORKER] Startup cleanup error:', error.message);
-      return;
-    }
-    if (data && data.length > 0) {
-      console.log(`[WORKER] Reset ${data.length} stuck processing jobs back to scheduled`);
-    }
-  } catch (err) {
-    console.error('[WORKER] Startup cleanup failed:', (err as Error).message);
-  }
-}
+// Crashed jobs are not reset here: their leases expire and any worker reclaims them
+registerJobHandler('flash_sale_create', handleFlashSaleCreateJob, { leaseSeconds: 300 });
+registerJobHandler('flash_sale_sync', handleFlashSaleSyncJob, { leaseSeconds: 300 });
+registerJobHandler('flash_sale_expand', handleFlashSaleExpandJob, { leaseSeconds: 300 });
+registerJobHandler('token_refresh', handleTokenRefreshJob, { leaseSeconds: 600 });
+registerJobHandler('product_sync', handleProductSyncJob, { leaseSeconds: 600 });
+registerJobHandler('order_sync', handleOrderSyncJob, { leaseSeconds: 600 });
 
-// Run cleanup before starting cron jobs
-cleanupStuckJobs();
+startQueueConsumer();
 
 // ==================== CRON STATUS REGISTRATION ====================
 
 registerCronJob('flash_sale_scheduler');
 registerCronJob('flash_sale_sync');
+registerCronJob('flash_sale_recurring');
 registerCronJob('token_refresh');
+registerCronJob('product_sync');
+registerCronJob('order_sync');
 
 // ==================== CRON SCHEDULES ====================
 
-// Flash sale scheduler — every 2 minutes (URGENT: was timing out on Edge Functions)
+// Flash sale scheduler — every 2 minutes: enqueue due auto-schedule rows
 cron.schedule('*/2 * * * *', async () => {
   const start = markCronStart('flash_sale_scheduler');
   console.log(`[CRON] Flash sale scheduler triggered at ${new Date().toISOString()}`);
   try {
-    await runFlashSaleScheduler();
+    await enqueueDueFlashSaleJobs();
     markCronSuccess('flash_sale_scheduler', start);
   } catch (err) {
     const msg = (err as Error).message;
@@ -85,12 +80,12 @@ cron.schedule('*/2 * * * *', async () => {
   }
 });
 
-// Flash sale sync — every 30 minutes (at :10 and :40 to avoid overlap with scheduler)
+// Flash sale sync — every 30 minutes (at :10 and :40): enqueue one job per shop
 cron.schedule('10,40 * * * *', async () => {
   const start = markCronStart('flash_sale_sync');
   console.log(`[CRON] Flash sale sync triggered at ${new Date().toISOString()}`);
   try {
-    await runFlashSaleSync();
+    await enqueueFlashSaleSyncJobs();
     markCronSuccess('flash_sale_sync', start);
   } catch (err) {
     const msg = (err as Error).message;
@@ -99,12 +94,26 @@ cron.schedule('10,40 * * * *', async () => {
   }
 });
 
-// Token refresh — every 30 minutes (runs before sync jobs to ensure valid tokens)
+// Flash sale recurring rules — every 30 minutes (at :05 and :35): expand rules into scheduled rows
+cron.schedule('5,35 * * * *', async () => {
+  const start = markCronStart('flash_sale_recurring');
+  console.log(`[CRON] Flash sale recurring triggered at ${new Date().toISOString()}`);
+  try {
+    await enqueueRecurringExpansionJobs();
+    markCronSuccess('flash_sale_recurring', start);
+  } catch (err) {
+    const msg = (err as Error).message;
+    console.error('[CRON] Flash sale recurring error:', msg);
+    markCronFailed('flash_sale_recurring', start, msg);
+  }
+});
+
+// Token refresh — every 30 minutes (high priority so it runs before sync jobs)
 cron.schedule('0,30 * * * *', async () => {
   const start = markCronStart('token_refresh');
   console.log(`[CRON] Token refresh triggered at ${new Date().toISOString()}`);
   try {
-    await runTokenRefresh();
+    await enqueueTokenRefreshJob();
     markCronSuccess('token_refresh', start);
   } catch (err) {
     const msg = (err as Error).message;
@@ -113,7 +122,34 @@ cron.schedule('0,30 * * * *', async () => {
   }
 });
 
-// TODO Phase 2: orders, products sync
+// Product sync — every 10 minutes, enqueues shops whose per-shop interval is due
+cron.schedule('*/10 * * * *', async () => {
+  const start = markCronStart('product_sync');
+  console.log(`[CRON] Product sync triggered at ${new Date().toISOString()}`);
+  try {
+    await enqueueProductSyncJobs();
+    markCronSuccess('product_sync', start);
+  } catch (err) {
+    const msg = (err as Error).message;
+    console.error('[CRON] Product sync error:', msg);
+    markCronFailed('product_sync', start, msg);
+  }
+});
+
+// Order sync — every 10 minutes (at :05, :15, ...), enqueues shops whose per-shop interval is due
+cron.schedule('5-59/10 * * * *', async () => {
+  const start = markCronStart('order_sync');
+  console.log(`[CRON] Order sync triggered at ${new Date().toISOString()}`);
+  try {
+    await enqueueOrderSyncJobs();
+    markCronSuccess('order_sync', start);
+  } catch (err) {
+    const msg = (err as Error).message;
+    console.error('[CRON] Order sync error:', msg);
+    markCronFailed('order_sync', start, msg);
+  }
+});
+
 // TODO Phase 3: Ads (future)
 
 // ==================== HEALTH CHECK ====================
@@ -131,6 +167,7 @@ const server = http.createServer((req, res) => {
       },
       env: config.nodeEnv,
       crons: getAllCronStatuses(),
+      queue: getQueueConsumerStatus(),
       timestamp: new Date().toISOString(),
     }));
     return;
@@ -158,23 +195,19 @@ async function gracefulShutdown(signal: string): Promise<void> {
 
   console.log(`[WORKER] ${signal} received, shutting down gracefully...`);
 
-  // Stop accepting new cron triggers (jobs check isShuttingDown flag)
-  // Wait for running jobs to finish (max 30s)
+  // Stop claiming new jobs, then wait for running jobs to finish (max 30s)
+  stopQueueConsumer();
   const maxWait = 30000;
   const start = Date.now();
 
-  // Poll until jobs finish or timeout
-  const { isSchedulerRunning } = await import('./jobs/flash-sale-scheduler');
-  const { isSyncRunning } = await import('./jobs/flash-sale-sync');
-  const { isTokenRefreshRunning } = await import('./jobs/token-refresh');
-
-  while ((isSchedulerRunning() || isSyncRunning() || isTokenRefreshRunning()) && Date.now() - start < maxWait) {
-    console.log('[WORKER] Waiting for running jobs to finish...');
+  while (getActiveJobCount() > 0 && Date.now() - start < maxWait) {
+    console.log(`[WORKER] Waiting for ${getActiveJobCount()} running jobs to finish...`);
     await new Promise(resolve => setTimeout(resolve, 2000));
   }
 
-  if (Date.now() - start >= maxWait) {
-    console.warn('[WORKER] Shutdown timeout — some jobs may not have completed');
+  if (getActiveJobCount() > 0) {
+    // Unfinished jobs keep their lease until it expires, then get reclaimed
+    console.warn('[WORKER] Shutdown timeout — unfinished jobs will be reclaimed after lease expiry');
   }
 
   server.close();
@@ -201,6 +234,10 @@ console.log(`[WORKER] Shopee API: ${config.shopeeBaseUrl}`);
 console.log('[WORKER] Registered cron jobs:');
 console.log('  - Flash Sale Scheduler: */2 * * * *');
 console.log('  - Flash Sale Sync:      10,40 * * * *');
+console.log('  - Flash Sale Recurring: 5,35 * * * *');
 console.log('  - Token Refresh:        0,30 * * * *');
+console.log('  - Product Sync:         */10 * * * *');
+console.log('  - Order Sync:           5-59/10 * * * *');
 console.log('  - Heartbeat:            */5 * * * *');
+console.log(`[WORKER] Queue consumer: ${getQueueConsumerStatus().workerId} (concurrency ${config.queueConcurrency})`);
 console.log('='.repeat(60));
@@ -0,0 +1,210 @@
+/**
+ * Flash Sale Recurring Schedules — expands recurring rules (migration 083) into
+ * apishopee_flash_sale_auto_history rows.
+ *
+ * Every 30 minutes node-cron enqueues one flash_sale_expand job per active rule.
+ * Each job:
+ * 1. Fetch the time slots Shopee has published within the rule horizon
+ * 2. Match them against the rule (weekday / start hour in the rule timezone)
+ * 3. Skip slots that already have a history row, an upcoming/running Flash Sale
+ *    or were excluded by a user
+ * 4. Insert 'scheduled' rows — the flash sale scheduler picks them up from there;
+ *    a slot booked concurrently by another writer is skipped (unique index, migration 101)
+ * The UI preview uses the same matching logic (_shared/flash-sale-recurrence.ts).
+ */
+import { supabase } from '../lib/supabase';
+import { callShopeeApi, getPartnerCredentials, getShopToken } from '../lib/shopee-api';
+import { enqueueJob, JobContext, PRIORITY, QueueJob } from '../lib/job-queue';
+import { checkTimeslotHasFlashSale } from './flash-sale-scheduler';
+import {
+  expandRecurrenceRule,
+  FlashSaleRecurrenceRule,
+  RecurrenceSlot,
+} from '../../../supabase/functions/_shared/flash-sale-recurrence';
+
+// ==================== TYPES ====================
+
+interface RecurringRuleRow extends FlashSaleRecurrenceRule {
+  id: string;
+  shop_id: number;
+  template_id: string | null;
+  excluded_timeslot_ids: number[] | null;
+  is_active: boolean;
+  created_by: string | null;
+}
+
+// ==================== CONSTANTS ====================
+
+const TRIGGERED_BY = 'scheduler' as const;
+/** Shopee rejects get_time_slot_id when start_time is not in the future */
+const TIME_SLOT_START_BUFFER_SEC = 5 * 60;
+
+// ==================== EXPANSION ====================
+
+async function getBookedTimeslotIds(rule: RecurringRuleRow, timeslotIds: number[]): Promise<Set<number>> {
+  const booked = new Set<number>((rule.excluded_timeslot_ids || []).map(Number));
+  if (timeslotIds.length === 0) return booked;
+
+  // Any history row counts, including errors — a failed slot is not retried by the rule
+  const { data: historyRows, error: historyError } = await supabase
+    .from('apishopee_flash_sale_auto_history')
+    .select('timeslot_id')
+    .eq('shop_id', rule.shop_id)
+    .in('timeslot_id', timeslotIds);
+  if (historyError) throw new Error(`History query error: ${historyError.message}`);
+
+  const { data: flashSales, error: flashSaleError } = await supabase
+    .from('apishopee_flash_sale_data')
+    .select('timeslot_id')
+    .eq('shop_id', rule.shop_id)
+    .in('type', [1, 2])
+    .in('timeslot_id', timeslotIds);
+  if (flashSaleError) throw new Error(`Flash sale data query error: ${flashSaleError.message}`);
+
+  for (const row of [...(historyRows || []), ...(flashSales || [])]) {
+    booked.add(Number(row.timeslot_id));
+  }
+  return booked;
+}
+
+async function expandRule(rule: RecurringRuleRow, ctx: JobContext): Promise<Record<string, unknown>> {
+  const credentials = await getPartnerCredentials(supabase, rule.shop_id);
+  const token = await getShopToken(supabase, rule.shop_id);
+  const nowSec = Math.floor(Date.now() / 1000);
+
+  const slotResult = await callShopeeApi({
+    supabase, credentials,
+    path: '/api/v2/shop_flash_sale/get_time_slot_id',
+    method: 'GET', shopId: rule.shop_id, token,
+    extraParams: {
+      start_time: nowSec + TIME_SLOT_START_BUFFER_SEC,
+      end_time: nowSec + rule.horizon_days * 86400,
+    },
+    edgeFunction: 'worker-flash-sale-recurring',
+    apiCategory: 'flash_sale',
+    triggeredBy: TRIGGERED_BY,
+  });
+  if (slotResult?.error) {
+    throw new Error(`get_time_slot_id failed: ${slotResult.message || slotResult.error}`);
+  }
+
+  const slots: RecurrenceSlot[] = (slotResult?.response || []).map(slot => ({
+    timeslot_id: slot.timeslot_id,
+    start_time: slot.start_time,
+    end_time: slot.end_time,
+  }));
+  const booked = await getBookedTimeslotIds(rule, slots.map(s => s.timeslot_id));
+  const expansion = expandRecurrenceRule(rule, slots, { nowSec, bookedTimeslotIds: booked });
+
+  const scheduled: number[] = [];
+  const skipped: Array<{ timeslot_id: number; reason: string }> = expansion.skipped
+    .map(s => ({ timeslot_id: s.timeslot_id, reason: s.reason }));
+
+  for (const slot of expansion.toSchedule) {
+    if (!ctx.hasLease()) break;
+
+    // Flash sale created outside the app (Seller Center) and not synced yet
+    const { exists } = await checkTimeslotHasFlashSale(credentials, rule.shop_id, token, slot.timeslot_id);
+    if (exists) {
+      skipped.push({ timeslot_id: slot.timeslot_id, reason: 'already_booked' });
+      continue;
+    }
+
+    const { error } = await supabase.from('apishopee_flash_sale_auto_history').insert({
+      shop_id: rule.shop_id,
+      user_id: rule.created_by,
+      timeslot_id: slot.timeslot_id,
+      status: 'scheduled',
+      lead_time_minutes: rule.lead_time_minutes,
+      scheduled_at: new Date(slot.scheduled_at * 1000).toISOString(),
+      slot_start_time: slot.start_time,
+      slot_end_time: slot.end_time,
+      items_count: 0,
+      template_id: rule.template_id,
+      recurring_rule_id: rule.id,
+    });
+
+    // 23505 = another writer booked the slot after getBookedTimeslotIds (unique index on
+    // active rows, migration 101) — same outcome as ON CONFLICT DO NOTHING
+    if (error?.code === '23505') {
+      skipped.push({ timeslot_id: slot.timeslot_id, reason: 'already_booked' });
+    } else if (error) {
+      console.error(`[FS-RECURRING] Rule ${rule.id}: insert failed for slot ${slot.timeslot_id}:`, error.message);
+      skipped.push({ timeslot_id: slot.timeslot_id, reason: `insert_failed: ${error.message}` });
+    } else {
+      scheduled.push(slot.timeslot_id);
+    }
+  }
+
+  return { available_slots: slots.length, scheduled, skipped };
+}
+
+// ==================== QUEUE PRODUCER ====================
+
+/**
+ * Enqueue a flash_sale_expand job for every active rule.
+ */
+export async function enqueueRecurringExpansionJobs(): Promise<number> {
+  const { data: rules, error } = await supabase
+    .from('apishopee_flash_sale_recurring_rules')
+    .select('id, shop_id')
+    .eq('is_active', true);
+
+  if (error) throw new Error(`Query error: ${error.message}`);
+
+  if (!rules?.length) {
+    console.log('[FS-RECURRING] No active rules');
+    return 0;
+  }
+
+  for (const rule of rules) {
+    await enqueueJob('flash_sale_expand', { rule_id: rule.id }, {
+      priority: PRIORITY.NORMAL,
+      concurrencyKey: `shop:${rule.shop_id}`,
+      dedupeKey: `flash_sale_expand:${rule.id}`,
+    });
+  }
+
+  console.log(`[FS-RECURRING] Enqueued ${rules.length} expansion jobs`);
+  return rules.length;
+}
+
+// ==================== QUEUE CONSUMER ====================
+
+/**
+ * Queue handler: expand one rule. Safe to re-run — slots inserted by a previous
+ * attempt are counted as booked.
+ */
+export async function handleFlashSaleExpandJob(
+  job: QueueJob,
+  ctx: JobContext
+): Promise<Record<string, unknown>> {
+  const ruleId = job.payload.rule_id as string;
+
+  const { data: rule, error } = await supabase
+    .from('apishopee_flash_sale_recurring_rules')
+    .select('id, shop_id, days_of_week, start_hours, lead_time_minutes, timezone, horizon_days, template_id, excluded_timeslot_ids, is_active, created_by')
+    .eq('id', ruleId)
+    .single();
+
+  if (error || !rule) throw new Error(`Recurring rule ${ruleId} not found: ${error?.message || 'no data'}`);
+  if (!rule.is_active) return { skipped: true, reason: 'Rule is inactive' };
+
+  try {
+    const result = await expandRule(rule as unknown as RecurringRuleRow, ctx);
+    await supabase
+      .from('apishopee_flash_sale_recurring_rules')
+      .update({ last_expanded_at: new Date().toISOString(), last_expansion: result, last_error: null })
+      .eq('id', ruleId);
+
+    console.log(`[FS-RECURRING] Rule ${ruleId}: scheduled ${(result.scheduled as number[]).length} slots`);
+    return result;
+  } catch (err) {
+    const msg = (err as Error).message;
+    await supabase
+      .from('apishopee_flash_sale_recurring_rules')
+      .update({ last_expanded_at: new Date().toISOString(), last_error: msg })
+      .eq('id', ruleId);
+    throw err;
+  }
+}
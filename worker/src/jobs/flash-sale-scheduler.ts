@@ -1,11 +1,16 @@
 /**
  * Flash Sale Auto Scheduler — ported from apishopee-flash-sale-scheduler Edge Function.
  *
- * Runs every 2 minutes via node-cron:
- * 1. Find pending/retry jobs in apishopee_flash_sale_auto_history
- * 2. Check if timeslot already has a Flash Sale
- * 3. If not → create FS and add items
- * 4. If yes → mark as error
+ * Every 2 minutes node-cron enqueues due rows of apishopee_flash_sale_auto_history
+ * as flash_sale_create jobs (see lib/job-queue.ts). Each job:
+ * 1. Check if timeslot already has a Flash Sale
+ * 2. If not → create FS (flash_sale_id persisted immediately) and add items
+ * 3. If yes → mark as error
+ * A job reclaimed after a crash with flash_sale_id already set resumes at step 2's
+ * "add items" instead of creating a second Flash Sale.
+ * Items come from job.items_data, else the job's template (template_id, migration 082)
+ * resolved against the shop's synced products, else the job's top sellers source
+ * (item_source, migration 084), else the latest Flash Sale / history.
  *
  * Key differences from Edge Function:
  * - No serve() HTTP handler — exported async function
@@ -20,9 +25,25 @@ import {
   getPartnerCredentials,
   getShopToken,
   PartnerCredentials,
+  ShopeeEndpoints,
+  ShopFlashSaleAddShopFlashSaleItemsRequestItems,
   ShopToken,
 } from '../lib/shopee-api';
 import { config } from '../config';
+import { enqueueJob, JobContext, PRIORITY, QueueJob } from '../lib/job-queue';
+import {
+  buildTemplateCatalog,
+  buildTopSellerTemplateItems,
+  FlashSaleTemplateItem,
+  resolveFlashSaleTemplate,
+  TEMPLATE_MODEL_COLUMNS,
+  TEMPLATE_PRODUCT_COLUMNS,
+  TemplateCatalogItem,
+  TemplateProductModelRow,
+  TemplateProductRow,
+  TOP_SELLER_CANDIDATE_MULTIPLIER,
+  TopSellerItemSource,
+} from '../../../supabase/functions/_shared/flash-sale-template';
 
 // ==================== TYPES ====================
 
@@ -36,32 +57,25 @@ interface ScheduledJob {
   items_count: number;
   scheduled_at: string;
   retry_count?: number;
-  items_data?: Array<Record<string, unknown>>;
-}
-
-interface FlashSaleItem {
-  item_id: number;
-  item_name?: string;
-  status: number;
-  purchase_limit: number;
-  campaign_stock?: number;
-  input_promotion_price?: number;
-  models?: FlashSaleModel[];
+  items_data?: FlashSaleItemInput[];
+  flash_sale_id?: number | null;
+  template_id?: string | null;
+  template_version?: number | null;
+  item_source?: TopSellerItemSource | null;
 }
 
-interface FlashSaleModel {
-  model_id: number;
-  item_id: number;
-  input_promotion_price: number;
-  campaign_stock: number;
-  status?: number;
-}
+/** Item payload for add_shop_flash_sale_items (also stored as items_data) */
+type FlashSaleItemInput = ShopFlashSaleAddShopFlashSaleItemsRequestItems;
+type FlashSaleItemsResult = ShopeeEndpoints['/api/v2/shop_flash_sale/get_shop_flash_sale_items']['result'];
 
 // ==================== CONSTANTS ====================
 
 const MAX_RETRY_COUNT = 3;
-const MAX_CONCURRENT_SHOPS = 5;
+/** Queue-level attempts cover crashes / lost leases; Shopee errors use retry_count above */
+const MAX_QUEUE_ATTEMPTS = 3;
 const TRIGGERED_BY = 'scheduler' as const;
+/** PostgREST returns at most 1000 rows per request */
+const CATALOG_PAGE_SIZE = 1000;
 
 // ==================== HELPERS ====================
 
@@ -100,13 +114,9 @@ async function sendFailureAlert(job: ScheduledJob, errorMsg: string): Promise<vo
   }
 }
 
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
 // ==================== FLASH SALE LOGIC ====================
 
-async function checkTimeslotHasFlashSale(
+export async function checkTimeslotHasFlashSale(
   credentials: PartnerCredentials,
   shopId: number,
   token: ShopToken,
@@ -120,16 +130,14 @@ async function checkTimeslotHasFlashSale(
     edgeFunction: 'worker-flash-sale-scheduler',
     apiCategory: 'flash_sale',
     triggeredBy: TRIGGERED_BY,
-  }) as { response?: { flash_sale_list?: Array<{ timeslot_id: number; flash_sale_id: number; type: number }> } };
+  });
 
   const list = result?.response?.flash_sale_list || [];
   const existing = list.find(fs => fs.timeslot_id === timeslotId && (fs.type === 1 || fs.type === 2));
   return existing ? { exists: true, flashSaleId: existing.flash_sale_id } : { exists: false };
 }
 
-function parseFlashSaleItems(
-  result: { response?: { item_info?: FlashSaleItem[]; models?: FlashSaleModel[] }; error?: string; message?: string }
-): Array<Record<string, unknown>> {
+function parseFlashSaleItems(result: FlashSaleItemsResult): FlashSaleItemInput[] {
   if (result.error) return [];
 
   const itemInfoList = result?.response?.item_info || [];
@@ -141,7 +149,7 @@ function parseFlashSaleItems(
   });
 
   const enabledItems = itemsWithModels.filter(item => item.status === 1);
-  const items: Array<Record<string, unknown>> = [];
+  const items: FlashSaleItemInput[] = [];
 
   for (const item of enabledItems) {
     const enabledModels = item.models?.filter(m => m.status === 1) || [];
@@ -188,7 +196,7 @@ function parseFlashSaleItems(
   return items;
 }
 
-async function getItemsFromSuccessfulHistory(shopId: number): Promise<Array<Record<string, unknown>>> {
+async function getItemsFromSuccessfulHistory(shopId: number): Promise<FlashSaleItemInput[]> {
   const { data } = await supabase
     .from('apishopee_flash_sale_auto_history')
     .select('id, flash_sale_id, items_data, items_count, executed_at')
@@ -201,16 +209,97 @@ async function getItemsFromSuccessfulHistory(shopId: number): Promise<Array<Reco
 
   if (data?.items_data && Array.isArray(data.items_data) && data.items_data.length > 0) {
     console.log(`[FS-SCHEDULER] Found ${data.items_data.length} items from history (FS #${data.flash_sale_id})`);
-    return data.items_data as Array<Record<string, unknown>>;
+    return data.items_data as FlashSaleItemInput[];
   }
   return [];
 }
 
+async function fetchAllRows<T>(table: string, columns: string, shopId: number): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += CATALOG_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .eq('shop_id', shopId)
+      .order('item_id')
+      .range(from, from + CATALOG_PAGE_SIZE - 1);
+    if (error) throw new Error(`Load ${table} failed: ${error.message}`);
+    rows.push(...((data || []) as unknown as T[]));
+    if (!data || data.length < CATALOG_PAGE_SIZE) return rows;
+  }
+}
+
+async function loadTemplateCatalog(shopId: number): Promise<TemplateCatalogItem[]> {
+  const products = await fetchAllRows<TemplateProductRow>('apishopee_products', TEMPLATE_PRODUCT_COLUMNS, shopId);
+  const models = await fetchAllRows<TemplateProductModelRow>('apishopee_product_models', TEMPLATE_MODEL_COLUMNS, shopId);
+  return buildTemplateCatalog(products, models);
+}
+
+/**
+ * Resolve the job's template version (pinned, or current_version) against the shop's
+ * synced products. Throws when the template or version is gone so the job fails loudly
+ * instead of silently falling back to another item source.
+ */
+async function getItemsFromJobTemplate(job: ScheduledJob): Promise<FlashSaleItemInput[]> {
+  let version = job.template_version;
+  if (!version) {
+    const { data: template, error } = await supabase
+      .from('apishopee_flash_sale_templates')
+      .select('current_version')
+      .eq('id', job.template_id)
+      .single();
+    if (error || !template) throw new Error(`Template ${job.template_id} not found`);
+    version = template.current_version as number;
+  }
+
+  const { data: templateVersion, error } = await supabase
+    .from('apishopee_flash_sale_template_versions')
+    .select('items')
+    .eq('template_id', job.template_id)
+    .eq('version', version)
+    .single();
+  if (error || !templateVersion) throw new Error(`Template ${job.template_id} version ${version} not found`);
+
+  const resolution = resolveFlashSaleTemplate(
+    (templateVersion.items || []) as FlashSaleTemplateItem[],
+    await loadTemplateCatalog(job.shop_id)
+  );
+  console.log(
+    `[FS-SCHEDULER] Template ${job.template_id} v${version}: ${resolution.items.length} items resolved, ` +
+    `${resolution.skipped.length} skipped`
+  );
+  return resolution.items;
+}
+
+/**
+ * Resolve the job's top sellers source: best-selling NORMAL items (by `sold`) with a
+ * percent-off rule, capped at the shop's available stock.
+ */
+async function getItemsFromTopSellers(job: ScheduledJob, source: TopSellerItemSource): Promise<FlashSaleItemInput[]> {
+  const { data: ranked, error } = await supabase
+    .from('apishopee_products')
+    .select('item_id')
+    .eq('shop_id', job.shop_id)
+    .eq('item_status', 'NORMAL')
+    .gt('total_available_stock', 0)
+    .order('sold', { ascending: false })
+    .limit(source.limit * TOP_SELLER_CANDIDATE_MULTIPLIER);
+  if (error) throw new Error(`Load top sellers failed: ${error.message}`);
+
+  const catalog = await loadTemplateCatalog(job.shop_id);
+  const items = buildTopSellerTemplateItems((ranked || []).map(r => r.item_id as number), catalog, source);
+  const resolution = resolveFlashSaleTemplate(items, catalog);
+  console.log(
+    `[FS-SCHEDULER] Top sellers: ${resolution.items.length} items resolved, ${resolution.skipped.length} skipped`
+  );
+  return resolution.items.slice(0, source.limit);
+}
+
 async function getTemplateItems(
   credentials: PartnerCredentials,
   shopId: number,
   token: ShopToken
-): Promise<Array<Record<string, unknown>>> {
+): Promise<FlashSaleItemInput[]> {
   // Try DB candidates first — only upcoming (type=1) and running (type=2)
   const { data: candidates } = await supabase
     .from('apishopee_flash_sale_data')
@@ -231,7 +320,7 @@ async function getTemplateItems(
       edgeFunction: 'worker-flash-sale-scheduler',
       apiCategory: 'flash_sale',
       triggeredBy: TRIGGERED_BY,
-    }) as { response?: { item_info?: FlashSaleItem[]; models?: FlashSaleModel[] }; error?: string; message?: string };
+    });
 
     if (result.error === 'shop_flash_sale_not_exist' || result.error === 'shop_flash_sale_is_not_enabled_or_upcoming') {
       continue;
@@ -254,7 +343,7 @@ async function getTemplateItems(
     edgeFunction: 'worker-flash-sale-scheduler',
     apiCategory: 'flash_sale',
     triggeredBy: TRIGGERED_BY,
-  }) as { response?: { flash_sale_list?: Array<{ flash_sale_id: number; type: number; item_count: number }> } };
+  });
 
   const liveList = (liveResult?.response?.flash_sale_list || [])
     .filter(fs => (fs.type === 1 || fs.type === 2) && fs.item_count > 0)
@@ -269,7 +358,7 @@ async function getTemplateItems(
       edgeFunction: 'worker-flash-sale-scheduler',
       apiCategory: 'flash_sale',
       triggeredBy: TRIGGERED_BY,
-    }) as { response?: { item_info?: FlashSaleItem[]; models?: FlashSaleModel[] }; error?: string; message?: string };
+    });
 
     if (itemResult.error) continue;
     const items = parseFlashSaleItems(itemResult);
@@ -281,7 +370,90 @@ async function getTemplateItems(
 
 // ==================== PROCESS JOB ====================
 
-async function processJob(job: ScheduledJob): Promise<{ success: boolean; message: string; flashSaleId?: number }> {
+/**
+ * Gọi create_shop_flash_sale cho job. Lỗi được ghi vào history (retry / error)
+ * và trả về trong `result`.
+ */
+async function createFlashSaleForJob(
+  job: ScheduledJob,
+  credentials: PartnerCredentials,
+  token: ShopToken
+): Promise<{ flashSaleId?: number; result?: { success: boolean; message: string } }> {
+  const createResult = await callShopeeApi({
+    supabase, credentials,
+    path: '/api/v2/shop_flash_sale/create_shop_flash_sale',
+    method: 'POST', shopId: job.shop_id, token,
+    body: { timeslot_id: job.timeslot_id },
+    edgeFunction: 'worker-flash-sale-scheduler',
+    apiCategory: 'flash_sale',
+    triggeredBy: TRIGGERED_BY,
+  });
+
+  if (createResult.error || !createResult.response?.flash_sale_id) {
+    const errorMsg = createResult.message || createResult.error || 'Cannot create Flash Sale';
+    const retryCount = job.retry_count || 0;
+    const canRetry = isTransientError(errorMsg) && retryCount < MAX_RETRY_COUNT;
+
+    if (canRetry) {
+      const retryAt = new Date(Date.now() + getRetryDelayMinutes(retryCount) * 60_000).toISOString();
+      await supabase.from('apishopee_flash_sale_auto_history').update({
+        status: 'retry', retry_count: retryCount + 1, scheduled_at: retryAt,
+        error_message: `Retry ${retryCount + 1}/${MAX_RETRY_COUNT}: ${errorMsg}`,
+        updated_at: new Date().toISOString(),
+      }).eq('id', job.id);
+      return { result: { success: false, message: `Retry scheduled: ${errorMsg}` } };
+    }
+
+    await supabase.from('apishopee_flash_sale_auto_history').update({
+      status: 'error', error_message: errorMsg,
+      executed_at: new Date().toISOString(), updated_at: new Date().toISOString(),
+    }).eq('id', job.id);
+    await sendFailureAlert(job, errorMsg);
+    return { result: { success: false, message: errorMsg } };
+  }
+
+  return { flashSaleId: createResult.response.flash_sale_id };
+}
+
+const PERSIST_ATTEMPTS = 3;
+
+/** Flash Sale đã tạo trên Shopee nhưng chưa lưu được vào history — không được retry */
+class FlashSalePersistError extends Error {
+  readonly flashSaleId: number;
+
+  constructor(flashSaleId: number, message: string) {
+    super(message);
+    this.flashSaleId = flashSaleId;
+  }
+}
+
+/**
+ * Lưu flash_sale_id vừa tạo vào history (thử lại vài lần). Lỗi cuối cùng được throw để job dừng
+ * trước khi thêm item: chạy lại khi chưa lưu được id sẽ tạo Flash Sale thứ 2.
+ */
+async function persistCreatedFlashSale(
+  jobId: string,
+  flashSaleId: number,
+  itemsToAdd: FlashSaleItemInput[]
+): Promise<void> {
+  let lastError = '';
+  for (let attempt = 1; attempt <= PERSIST_ATTEMPTS; attempt++) {
+    const { error } = await supabase.from('apishopee_flash_sale_auto_history').update({
+      flash_sale_id: flashSaleId, items_data: itemsToAdd, updated_at: new Date().toISOString(),
+    }).eq('id', jobId);
+    if (!error) return;
+
+    lastError = error.message;
+    console.error(`[FS-SCHEDULER] Saving Flash Sale #${flashSaleId} for job ${jobId} failed (${attempt}/${PERSIST_ATTEMPTS}):`, lastError);
+    if (attempt < PERSIST_ATTEMPTS) await new Promise(resolve => setTimeout(resolve, attempt * 1000));
+  }
+  throw new FlashSalePersistError(flashSaleId, `Created Flash Sale #${flashSaleId} but could not save it to the job: ${lastError}`);
+}
+
+async function processJob(
+  job: ScheduledJob,
+  ctx: JobContext
+): Promise<{ success: boolean; message: string; flashSaleId?: number }> {
   console.log(`[FS-SCHEDULER] Processing job ${job.id} shop=${job.shop_id} timeslot=${job.timeslot_id}`);
 
   try {
@@ -304,10 +476,13 @@ async function processJob(job: ScheduledJob): Promise<{ success: boolean; messag
     const credentials = await getPartnerCredentials(supabase, job.shop_id);
     const token = await getShopToken(supabase, job.shop_id);
 
+    // Resume: FS was created by a previous attempt that crashed before finishing
+    let newFsId = job.flash_sale_id || undefined;
+
     // 1. Check if timeslot already has FS
-    const { exists, flashSaleId: existingFsId } = await checkTimeslotHasFlashSale(
-      credentials, job.shop_id, token, job.timeslot_id
-    );
+    const { exists, flashSaleId: existingFsId } = newFsId
+      ? { exists: false, flashSaleId: undefined }
+      : await checkTimeslotHasFlashSale(credentials, job.shop_id, token, job.timeslot_id);
 
     if (exists) {
       const msg = `Timeslot already has Flash Sale #${existingFsId}`;
@@ -319,15 +494,23 @@ async function processJob(job: ScheduledJob): Promise<{ success: boolean; messag
     }
 
     // 2. Get template items
-    let itemsToAdd: Array<Record<string, unknown>> = [];
+    let itemsToAdd: FlashSaleItemInput[] = [];
     if (job.items_data?.length) {
       itemsToAdd = job.items_data;
+    } else if (job.template_id) {
+      itemsToAdd = await getItemsFromJobTemplate(job);
+    } else if (job.item_source?.type === 'top_sellers') {
+      itemsToAdd = await getItemsFromTopSellers(job, job.item_source);
     } else {
       itemsToAdd = await getTemplateItems(credentials, job.shop_id, token);
     }
 
     if (itemsToAdd.length === 0) {
-      const msg = 'No template items found for Flash Sale';
+      const msg = job.template_id
+        ? `Template ${job.template_id} has no items matching this shop`
+        : job.item_source?.type === 'top_sellers'
+          ? 'No top-selling items in stock for Flash Sale'
+          : 'No template items found for Flash Sale';
       await supabase.from('apishopee_flash_sale_auto_history').update({
         status: 'error', error_message: msg,
         executed_at: new Date().toISOString(), updated_at: new Date().toISOString(),
@@ -335,42 +518,24 @@ async function processJob(job: ScheduledJob): Promise<{ success: boolean; messag
       return { success: false, message: msg };
     }
 
-    // 3. Create Flash Sale
-    const createResult = await callShopeeApi({
-      supabase, credentials,
-      path: '/api/v2/shop_flash_sale/create_shop_flash_sale',
-      method: 'POST', shopId: job.shop_id, token,
-      body: { timeslot_id: job.timeslot_id },
-      edgeFunction: 'worker-flash-sale-scheduler',
-      apiCategory: 'flash_sale',
-      triggeredBy: TRIGGERED_BY,
-    }) as { response?: { flash_sale_id?: number }; error?: string; message?: string };
-
-    if (createResult.error || !createResult.response?.flash_sale_id) {
-      const errorMsg = createResult.message || createResult.error || 'Cannot create Flash Sale';
-      const retryCount = job.retry_count || 0;
-      const canRetry = isTransientError(errorMsg) && retryCount < MAX_RETRY_COUNT;
-
-      if (canRetry) {
-        const retryAt = new Date(Date.now() + getRetryDelayMinutes(retryCount) * 60_000).toISOString();
-        await supabase.from('apishopee_flash_sale_auto_history').update({
-          status: 'retry', retry_count: retryCount + 1, scheduled_at: retryAt,
-          error_message: `Retry ${retryCount + 1}/${MAX_RETRY_COUNT}: ${errorMsg}`,
-          updated_at: new Date().toISOString(),
-        }).eq('id', job.id);
-        return { success: false, message: `Retry scheduled: ${errorMsg}` };
+    // 3. Create Flash Sale (skipped when resuming)
+    if (newFsId) {
+      console.log(`[FS-SCHEDULER] Resuming job ${job.id} with existing Flash Sale #${newFsId}`);
+    } else {
+      // Lease lost → another worker owns this row now; leave it untouched
+      if (!ctx.hasLease()) {
+        return { success: false, message: 'Job lease lost before creating Flash Sale' };
       }
 
-      await supabase.from('apishopee_flash_sale_auto_history').update({
-        status: 'error', error_message: errorMsg,
-        executed_at: new Date().toISOString(), updated_at: new Date().toISOString(),
-      }).eq('id', job.id);
-      await sendFailureAlert(job, errorMsg);
-      return { success: false, message: errorMsg };
-    }
+      const created = await createFlashSaleForJob(job, credentials, token);
+      if (!created.flashSaleId) return created.result!;
+
+      newFsId = created.flashSaleId;
+      console.log(`[FS-SCHEDULER] Created Flash Sale #${newFsId}`);
 
-    const newFsId = createResult.response.flash_sale_id;
-    console.log(`[FS-SCHEDULER] Created Flash Sale #${newFsId}`);
+      // Persist immediately so a re-run never creates a second FS for this row
+      await persistCreatedFlashSale(job.id, newFsId, itemsToAdd);
+    }
 
     // 4. Add items to Flash Sale
     const addResult = await callShopeeApi({
@@ -381,10 +546,7 @@ async function processJob(job: ScheduledJob): Promise<{ success: boolean; messag
       edgeFunction: 'worker-flash-sale-scheduler',
       apiCategory: 'flash_sale',
       triggeredBy: TRIGGERED_BY,
-    }) as { error?: string; message?: string; response?: {
-      success_list?: unknown[]; fail_list?: unknown[];
-      failed_items?: Array<{ item_id: number; model_id?: number; err_msg?: string }>;
-    } };
+    });
 
     let message = `Created Flash Sale #${newFsId}`;
     let finalStatus: 'success' | 'partial' | 'error' = 'success';
@@ -396,8 +558,10 @@ async function processJob(job: ScheduledJob): Promise<{ success: boolean; messag
       addedCount = 0;
     } else {
       const failedItems = addResult.response?.failed_items || [];
-      const failList = addResult.response?.fail_list || [];
-      const successList = addResult.response?.success_list || [];
+      // success_list / fail_list are not in the documented response; kept as a fallback
+      const undocumented = addResult.response as { success_list?: unknown[]; fail_list?: unknown[] } | undefined;
+      const failList = undocumented?.fail_list || [];
+      const successList = undocumented?.success_list || [];
 
       if (failedItems.length > 0) {
         const failedItemIds = [...new Set(failedItems.map(f => f.item_id))];
@@ -437,6 +601,17 @@ async function processJob(job: ScheduledJob): Promise<{ success: boolean; messag
     const errorMsg = (error as Error).message;
     console.error(`[FS-SCHEDULER] Job ${job.id} failed:`, errorMsg);
 
+    // Never retry after the Flash Sale exists: the retry would find it in the timeslot and
+    // leave it empty. Stop here with the id so the user can add the items by hand.
+    if (error instanceof FlashSalePersistError) {
+      await supabase.from('apishopee_flash_sale_auto_history').update({
+        status: 'error', error_message: errorMsg, flash_sale_id: error.flashSaleId,
+        executed_at: new Date().toISOString(), updated_at: new Date().toISOString(),
+      }).eq('id', job.id);
+      await sendFailureAlert(job, errorMsg);
+      return { success: false, message: errorMsg, flashSaleId: error.flashSaleId };
+    }
+
     const retryCount = job.retry_count || 0;
     if (isTransientError(errorMsg) && retryCount < MAX_RETRY_COUNT) {
       const retryAt = new Date(Date.now() + getRetryDelayMinutes(retryCount) * 60_000).toISOString();
@@ -499,111 +674,80 @@ async function syncFlashSaleDataForShop(
   return list.length;
 }
 
-// ==================== MAIN ENTRY POINT ====================
+// ==================== QUEUE PRODUCER ====================
 
-/** Running flag to prevent overlapping executions */
-let _isRunning = false;
+/**
+ * Enqueue a flash_sale_create job for every due auto-history row.
+ * 'processing' rows are included so a row orphaned by a crash gets a new job;
+ * the dedupe key keeps rows that already have an in-flight job from being queued twice.
+ */
+export async function enqueueDueFlashSaleJobs(): Promise<number> {
+  const now = new Date().toISOString();
 
-/** Check if scheduler is currently running (used by graceful shutdown) */
-export function isSchedulerRunning(): boolean {
-  return _isRunning;
-}
+  const { data: dueJobs, error: queryError } = await supabase
+    .from('apishopee_flash_sale_auto_history')
+    .select('id, shop_id')
+    .in('status', ['scheduled', 'retry', 'processing'])
+    .lte('scheduled_at', now)
+    .order('scheduled_at', { ascending: true })
+    .limit(200);
 
-export async function runFlashSaleScheduler(): Promise<void> {
-  if (_isRunning) {
-    console.log('[FS-SCHEDULER] Previous run still active, skipping');
-    return;
+  if (queryError) throw new Error(`Query error: ${queryError.message}`);
+
+  if (!dueJobs?.length) {
+    console.log('[FS-SCHEDULER] No pending jobs');
+    return 0;
   }
-  _isRunning = true;
 
-  try {
-    const now = new Date().toISOString();
-    console.log(`[FS-SCHEDULER] Running at ${now}`);
-
-    // Find pending + retry jobs
-    const { data: pendingJobs, error: queryError } = await supabase
-      .from('apishopee_flash_sale_auto_history')
-      .select('id, shop_id, user_id, timeslot_id, slot_start_time, slot_end_time, items_count, scheduled_at, retry_count, items_data')
-      .in('status', ['scheduled', 'retry'])
-      .lte('scheduled_at', now)
-      .order('scheduled_at', { ascending: true })
-      .limit(200);
-
-    if (queryError) throw new Error(`Query error: ${queryError.message}`);
-
-    if (!pendingJobs?.length) {
-      console.log('[FS-SCHEDULER] No pending jobs');
-      return;
-    }
+  for (const row of dueJobs) {
+    await enqueueJob('flash_sale_create', { history_id: row.id }, {
+      priority: PRIORITY.HIGH,
+      concurrencyKey: `shop:${row.shop_id}`,
+      dedupeKey: `flash_sale_create:${row.id}`,
+      maxAttempts: MAX_QUEUE_ATTEMPTS,
+    });
+  }
 
-    console.log(`[FS-SCHEDULER] Found ${pendingJobs.length} pending jobs`);
+  console.log(`[FS-SCHEDULER] Enqueued ${dueJobs.length} due jobs`);
+  return dueJobs.length;
+}
 
-    // Optimistic lock all jobs to 'processing'
-    const jobIds = pendingJobs.map(j => j.id);
-    await supabase.from('apishopee_flash_sale_auto_history')
-      .update({ status: 'processing', updated_at: new Date().toISOString() })
-      .in('id', jobIds);
-
-    // Group by shop_id
-    const jobsByShop = new Map<number, ScheduledJob[]>();
-    for (const job of pendingJobs) {
-      const shopId = job.shop_id as number;
-      if (!jobsByShop.has(shopId)) jobsByShop.set(shopId, []);
-      jobsByShop.get(shopId)!.push(job as unknown as ScheduledJob);
-    }
+// ==================== QUEUE CONSUMER ====================
 
-    console.log(`[FS-SCHEDULER] ${pendingJobs.length} jobs across ${jobsByShop.size} shops`);
-
-    // Process shops in batches of 5 (parallel between shops, sequential within shop)
-    const shopEntries = Array.from(jobsByShop.entries());
-    const results: Array<{ jobId: string; shopId: number; success: boolean; message: string }> = [];
-
-    for (let i = 0; i < shopEntries.length; i += MAX_CONCURRENT_SHOPS) {
-      const batch = shopEntries.slice(i, i + MAX_CONCURRENT_SHOPS);
-
-      const batchResults = await Promise.allSettled(
-        batch.map(async ([shopId, jobs]) => {
-          const shopResults = [];
-          for (const job of jobs) {
-            const result = await processJob(job);
-            shopResults.push({ jobId: job.id, shopId, ...result });
-            if (jobs.length > 1) await delay(500);
-          }
-          return shopResults;
-        })
-      );
-
-      for (const result of batchResults) {
-        if (result.status === 'fulfilled') results.push(...result.value);
-      }
+/**
+ * Queue handler: create one scheduled flash sale, then refresh the shop's flash sale data.
+ * Re-reads the history row so a reclaimed job sees the latest state.
+ */
+export async function handleFlashSaleCreateJob(
+  job: QueueJob,
+  ctx: JobContext
+): Promise<Record<string, unknown>> {
+  const historyId = job.payload.history_id as string;
 
-      // Delay between batches for rate limiting
-      if (i + MAX_CONCURRENT_SHOPS < shopEntries.length) {
-        await delay(2000);
-      }
-    }
+  const { data: row, error } = await supabase
+    .from('apishopee_flash_sale_auto_history')
+    .select('id, shop_id, user_id, timeslot_id, slot_start_time, slot_end_time, items_count, scheduled_at, retry_count, items_data, flash_sale_id, status, template_id, template_version, item_source')
+    .eq('id', historyId)
+    .single();
 
-    const successCount = results.filter(r => r.success).length;
-    const errorCount = results.filter(r => !r.success).length;
-    console.log(`[FS-SCHEDULER] Done: ${successCount} success, ${errorCount} errors`);
-
-    // Sync flash sale data for successful shops
-    if (successCount > 0) {
-      const successShopIds = [...new Set(results.filter(r => r.success).map(r => r.shopId))];
-      for (const shopId of successShopIds) {
-        try {
-          const credentials = await getPartnerCredentials(supabase, shopId);
-          const token = await getShopToken(supabase, shopId);
-          const job = pendingJobs.find(j => j.shop_id === shopId);
-          await syncFlashSaleDataForShop(credentials, shopId, token, (job?.user_id as string) || '');
-        } catch (err) {
-          console.error(`[FS-SCHEDULER] Post-sync failed for shop ${shopId}:`, (err as Error).message);
-        }
-      }
+  if (error || !row) throw new Error(`History row ${historyId} not found: ${error?.message || 'no data'}`);
+
+  if (!['scheduled', 'retry', 'processing'].includes(row.status as string)) {
+    return { skipped: true, reason: `History status is ${row.status}` };
+  }
+
+  const result = await processJob(row as unknown as ScheduledJob, ctx);
+  console.log(`[FS-SCHEDULER] Job ${historyId}: ${result.message}`);
+
+  if (result.success) {
+    try {
+      const credentials = await getPartnerCredentials(supabase, row.shop_id);
+      const token = await getShopToken(supabase, row.shop_id);
+      await syncFlashSaleDataForShop(credentials, row.shop_id, token, (row.user_id as string) || '');
+    } catch (err) {
+      console.error(`[FS-SCHEDULER] Post-sync failed for shop ${row.shop_id}:`, (err as Error).message);
     }
-  } catch (error) {
-    console.error('[FS-SCHEDULER] Fatal error:', (error as Error).message);
-  } finally {
-    _isRunning = false;
   }
+
+  return { success: result.success, message: result.message, flash_sale_id: result.flashSaleId };
 }
@@ -1,13 +1,13 @@
 /**
  * Flash Sale Sync — syncs flash sale list from Shopee API into DB.
  *
- * Runs every 30 minutes. Smart sync strategy:
+ * Every 30 minutes node-cron enqueues one flash_sale_sync job per shop
+ * (low priority, shop concurrency key). Smart sync strategy:
  * - Incremental: only shops with pending auto-schedule or user-triggered sync
  * - Full sync: all shops, once per day (first run after midnight UTC)
+ * Also snapshots campaign_stock of slots about to start (apishopee_flash_sale_item_stock).
  *
- * Rate limit mitigation:
- * - 1.5s delay between shops
- * - Retry on error_rate_limit (wait 5s, max 2 retries)
+ * Rate limiting: handled by callShopeeApi (adaptive shared limiter, see lib/rate-limiter.ts)
  */
 import { supabase } from '../lib/supabase';
 import {
@@ -17,15 +17,9 @@ import {
   PartnerCredentials,
   ShopToken,
 } from '../lib/shopee-api';
+import { enqueueJob, PRIORITY, QueueJob } from '../lib/job-queue';
 
 const TRIGGERED_BY = 'cron' as const;
-const DELAY_BETWEEN_SHOPS_MS = 1500;
-const RATE_LIMIT_RETRY_DELAY_MS = 5000;
-const RATE_LIMIT_MAX_RETRIES = 2;
-
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
 
 // Track last full sync time to trigger daily full sync
 let lastFullSyncDate = '';
@@ -33,8 +27,7 @@ let lastFullSyncDate = '';
 // ==================== SYNC LOGIC ====================
 
 /**
- * Fetch flash sales for a shop with rate limit retry.
- * On error_rate_limit: wait 5s and retry up to 2 times.
+ * Fetch flash sales for a shop (all types, paginated).
  */
 async function fetchAllFlashSales(
   credentials: PartnerCredentials,
@@ -48,30 +41,15 @@ async function fetchAllFlashSales(
     const limit = 100;
 
     while (offset <= 1000) {
-      let result: Record<string, unknown> | null = null;
-      let retries = 0;
-
-      // Retry loop for rate limit errors
-      while (retries <= RATE_LIMIT_MAX_RETRIES) {
-        result = await callShopeeApi({
-          supabase, credentials,
-          path: '/api/v2/shop_flash_sale/get_shop_flash_sale_list',
-          method: 'GET', shopId, token,
-          extraParams: { type, offset, limit },
-          edgeFunction: 'worker-flash-sale-sync',
-          apiCategory: 'flash_sale',
-          triggeredBy: TRIGGERED_BY,
-        }) as Record<string, unknown>;
-
-        // If rate limited, wait and retry
-        if ((result as { error?: string }).error === 'error_rate_limit' && retries < RATE_LIMIT_MAX_RETRIES) {
-          retries++;
-          console.warn(`[FS-SYNC] Rate limited on shop ${shopId} type=${type}, retry ${retries}/${RATE_LIMIT_MAX_RETRIES} after ${RATE_LIMIT_RETRY_DELAY_MS}ms`);
-          await delay(RATE_LIMIT_RETRY_DELAY_MS);
-          continue;
-        }
-        break;
-      }
+      const result = await callShopeeApi({
+        supabase, credentials,
+        path: '/api/v2/shop_flash_sale/get_shop_flash_sale_list',
+        method: 'GET', shopId, token,
+        extraParams: { type, offset, limit },
+        edgeFunction: 'worker-flash-sale-sync',
+        apiCategory: 'flash_sale',
+        triggeredBy: TRIGGERED_BY,
+      }) as Record<string, unknown>;
 
       if (!result || (result as { error?: string }).error) break;
 
@@ -92,6 +70,94 @@ async function fetchAllFlashSales(
   return Array.from(allSales.values());
 }
 
+// ==================== CAMPAIGN STOCK SNAPSHOT ====================
+
+/** Khung bắt đầu trong khoảng này (> chu kỳ cron 30 phút) thì chụp tồn kho Flash Sale */
+const SNAPSHOT_LEAD_SECONDS = 45 * 60;
+
+interface FlashSaleItemsResponse {
+  item_info?: Array<{ item_id: number; item_name?: string; status: number; campaign_stock?: number; input_promotion_price?: number }>;
+  models?: Array<{ item_id: number; model_id: number; model_name?: string; status: number; campaign_stock?: number; input_promotion_price?: number }>;
+  total_count?: number;
+}
+
+/**
+ * Chụp campaign_stock (apishopee_flash_sale_item_stock) để tính sell-through sau khi khung chạy:
+ * khung sắp bắt đầu thì ghi đè (lấy cấu hình mới nhất), khung đang chạy chỉ chụp nếu chưa có.
+ */
+async function snapshotCampaignStock(
+  credentials: PartnerCredentials,
+  shopId: number,
+  token: ShopToken,
+  flashSales: Array<Record<string, unknown>>
+): Promise<void> {
+  const nowSec = Math.floor(Date.now() / 1000);
+  const enabled = flashSales.filter(s => s.status === 1 && (s.item_count as number) > 0);
+  const upcoming = enabled
+    .filter(s => s.type === 1 && (s.start_time as number) - nowSec <= SNAPSHOT_LEAD_SECONDS)
+    .map(s => s.flash_sale_id as number);
+  let ongoing = enabled.filter(s => s.type === 2).map(s => s.flash_sale_id as number);
+
+  if (ongoing.length > 0) {
+    const { data: captured } = await supabase
+      .from('apishopee_flash_sale_item_stock')
+      .select('flash_sale_id')
+      .eq('shop_id', shopId)
+      .in('flash_sale_id', ongoing);
+    const capturedIds = new Set((captured || []).map(r => r.flash_sale_id as number));
+    ongoing = ongoing.filter(id => !capturedIds.has(id));
+  }
+
+  for (const flashSaleId of [...upcoming, ...ongoing]) {
+    const rows: Array<Record<string, unknown>> = [];
+    const capturedAt = new Date().toISOString();
+
+    for (let offset = 0; offset <= 1000; offset += 100) {
+      const result = await callShopeeApi({
+        supabase, credentials,
+        path: '/api/v2/shop_flash_sale/get_shop_flash_sale_items',
+        method: 'GET', shopId, token,
+        extraParams: { flash_sale_id: flashSaleId, offset, limit: 100 },
+        edgeFunction: 'worker-flash-sale-sync',
+        apiCategory: 'flash_sale',
+        triggeredBy: TRIGGERED_BY,
+      }) as { error?: string; response?: FlashSaleItemsResponse };
+
+      if (!result || result.error) {
+        console.warn(`[FS-SYNC] Shop ${shopId} FS ${flashSaleId} stock snapshot skipped: ${result?.error}`);
+        break;
+      }
+
+      const itemInfo = result.response?.item_info || [];
+      const models = result.response?.models || [];
+      for (const item of itemInfo) {
+        const itemModels = models.filter(m => m.item_id === item.item_id);
+        const base = { shop_id: shopId, flash_sale_id: flashSaleId, item_id: item.item_id, item_name: item.item_name ?? null, captured_at: capturedAt };
+        if (itemModels.length === 0) {
+          if (item.status === 1) {
+            rows.push({ ...base, model_id: 0, model_name: null, campaign_stock: item.campaign_stock || 0, promotion_price: item.input_promotion_price ?? null });
+          }
+          continue;
+        }
+        for (const model of itemModels) {
+          if (model.status !== 1) continue;
+          rows.push({ ...base, model_id: model.model_id, model_name: model.model_name ?? null, campaign_stock: model.campaign_stock || 0, promotion_price: model.input_promotion_price ?? null });
+        }
+      }
+
+      if (itemInfo.length < 100 || offset + 100 >= (result.response?.total_count ?? 0)) break;
+    }
+
+    if (rows.length === 0) continue;
+    const { error } = await supabase
+      .from('apishopee_flash_sale_item_stock')
+      .upsert(rows, { onConflict: 'shop_id,flash_sale_id,item_id,model_id' });
+    if (error) {
+      console.warn(`[FS-SYNC] Shop ${shopId} FS ${flashSaleId} stock snapshot error: ${error.message}`);
+    }
+  }
+}
+
 async function syncShopFlashSales(
   credentials: PartnerCredentials,
   shopId: number,
@@ -159,6 +225,10 @@ async function syncShopFlashSales(
       }
     }
 
+    // Tồn kho Flash Sale lúc khung bắt đầu (sell-through), lỗi không làm fail job
+    await snapshotCampaignStock(credentials, shopId, token, flashSales).catch(err =>
+      console.warn(`[FS-SYNC] Shop ${shopId} stock snapshot failed: ${(err as Error).message}`));
+
     // Update sync status
     await supabase
       .from('apishopee_sync_status')
@@ -222,73 +292,58 @@ async function getAllShops(): Promise<number[]> {
   return (data || []).map(s => s.shop_id);
 }
 
-// ==================== MAIN ENTRY POINT ====================
-
-let _isRunning = false;
+// ==================== QUEUE PRODUCER ====================
 
-export function isSyncRunning(): boolean {
-  return _isRunning;
-}
-
-export async function runFlashSaleSync(): Promise<void> {
-  if (_isRunning) {
-    console.log('[FS-SYNC] Previous run still active, skipping');
-    return;
+/**
+ * Enqueue a flash_sale_sync job per shop (full sync once per day, incremental otherwise).
+ */
+export async function enqueueFlashSaleSyncJobs(): Promise<number> {
+  // Determine sync mode: full (daily) or incremental
+  const todayDate = new Date().toISOString().slice(0, 10);
+  const isFullSync = lastFullSyncDate !== todayDate;
+
+  let shopIds: number[];
+
+  if (isFullSync) {
+    shopIds = await getAllShops();
+    console.log(`[FS-SYNC] FULL daily sync: ${shopIds.length} shops`);
+  } else {
+    shopIds = await getShopsForIncrementalSync();
+    console.log(`[FS-SYNC] Incremental sync: ${shopIds.length} shops (with active/pending flash sales)`);
   }
-  _isRunning = true;
 
-  try {
-    // Determine sync mode: full (daily) or incremental
-    const todayDate = new Date().toISOString().slice(0, 10);
-    const isFullSync = lastFullSyncDate !== todayDate;
-
-    let shopIds: number[];
-
-    if (isFullSync) {
-      shopIds = await getAllShops();
-      console.log(`[FS-SYNC] FULL daily sync: ${shopIds.length} shops`);
-    } else {
-      shopIds = await getShopsForIncrementalSync();
-      console.log(`[FS-SYNC] Incremental sync: ${shopIds.length} shops (with active/pending flash sales)`);
-    }
-
-    if (shopIds.length === 0) {
-      console.log('[FS-SYNC] No shops to sync');
-      return;
-    }
+  for (const shopId of shopIds) {
+    await enqueueJob('flash_sale_sync', { shop_id: shopId }, {
+      priority: PRIORITY.LOW,
+      concurrencyKey: `shop:${shopId}`,
+      dedupeKey: `flash_sale_sync:${shopId}`,
+    });
+  }
 
-    let successCount = 0;
-    let errorCount = 0;
+  // Mark full sync done for today
+  if (isFullSync) {
+    lastFullSyncDate = todayDate;
+  }
 
-    for (const shopId of shopIds) {
-      try {
-        const credentials = await getPartnerCredentials(supabase, shopId);
-        const token = await getShopToken(supabase, shopId);
-        const result = await syncShopFlashSales(credentials, shopId, token);
+  console.log(`[FS-SYNC] Enqueued ${shopIds.length} shops (${isFullSync ? 'FULL' : 'incremental'})`);
+  return shopIds.length;
+}
 
-        if (result.error) {
-          console.error(`[FS-SYNC] Shop ${shopId} error: ${result.error}`);
-          errorCount++;
-        } else {
-          successCount++;
-        }
-      } catch (err) {
-        console.error(`[FS-SYNC] Shop ${shopId} failed:`, (err as Error).message);
-        errorCount++;
-      }
+// ==================== QUEUE CONSUMER ====================
 
-      await delay(DELAY_BETWEEN_SHOPS_MS);
-    }
+/**
+ * Queue handler: sync flash sales of one shop. Throws on error so the queue retries.
+ */
+export async function handleFlashSaleSyncJob(job: QueueJob): Promise<Record<string, unknown>> {
+  const shopId = job.payload.shop_id as number;
 
-    // Mark full sync done for today
-    if (isFullSync) {
-      lastFullSyncDate = todayDate;
-    }
+  const credentials = await getPartnerCredentials(supabase, shopId);
+  const token = await getShopToken(supabase, shopId);
+  const result = await syncShopFlashSales(credentials, shopId, token);
 
-    console.log(`[FS-SYNC] Done (${isFullSync ? 'FULL' : 'incremental'}): ${successCount} success, ${errorCount} errors out of ${shopIds.length} shops`);
-  } catch (error) {
-    console.error('[FS-SYNC] Fatal error:', (error as Error).message);
-  } finally {
-    _isRunning = false;
+  if (result.error) {
+    throw new Error(`Shop ${shopId} sync error: ${result.error}`);
   }
+
+  return { synced: result.synced };
 }
@@ -0,0 +1,269 @@
+/**
+ * Order Sync — syncs orders of a shop from Shopee into apishopee_orders / apishopee_order_items
+ * (replaces the removed apishopee-orders-sync edge function + pg_cron job, migration 064).
+ *
+ * Every 10 minutes node-cron enqueues one order_sync job per shop whose next_sync_at is due
+ * (per-shop interval, migration 091); the UI enqueues the same job through apishopee-orders.
+ * Each job walks get_order_list by update_time in 15-day windows from last_sync_update_time
+ * (first run: last 30 days) and fetches get_order_detail for every page
+ * (planning: _shared/order-sync.ts). The cursor is saved after every page: a reclaimed job
+ * resumes from it, and a job that runs out of its time budget enqueues a continuation.
+ */
+import { supabase } from '../lib/supabase';
+import {
+  callShopeeApi,
+  getPartnerCredentials,
+  getShopToken,
+  PartnerCredentials,
+  ShopToken,
+} from '../lib/shopee-api';
+import { enqueueJob, JobContext, PRIORITY, QueueJob } from '../lib/job-queue';
+import {
+  advanceOrderCursor,
+  orderItemRowsOf,
+  orderRowOf,
+  startOrderSyncCursor,
+  ORDER_DETAIL_OPTIONAL_FIELDS,
+  ORDER_LIST_PAGE_SIZE,
+  OrderSyncCounts,
+  OrderSyncCursor,
+  ShopeeOrderDetail,
+} from '../../../supabase/functions/_shared/order-sync';
+
+// ==================== TYPES ====================
+
+interface SyncTarget {
+  shopId: number;
+  credentials: PartnerCredentials;
+  token: ShopToken;
+}
+
+// ==================== CONSTANTS ====================
+
+const TRIGGERED_BY = 'cron' as const;
+const EDGE_FUNCTION = 'worker-order-sync';
+/** Yield the queue slot after this long; the rest continues in a new job */
+const JOB_TIME_BUDGET_MS = 4 * 60 * 1000;
+const DEFAULT_INTERVAL_MINUTES = 30;
+
+// ==================== SYNC STATUS ====================
+
+function dedupeKeyOf(shopId: number): string {
+  return `order_sync:${shopId}`;
+}
+
+/** Own key per shop: a long order sync must not hold back flash sale writes (`shop:<id>`) */
+function concurrencyKeyOf(shopId: number): string {
+  return `orders:shop:${shopId}`;
+}
+
+async function saveSyncStatus(shopId: number, fields: Record<string, unknown>): Promise<void> {
+  const { error } = await supabase
+    .from('apishopee_orders_sync_status')
+    .upsert({ shop_id: shopId, ...fields, updated_at: new Date().toISOString() }, { onConflict: 'shop_id' });
+  if (error) throw new Error(`Save orders sync status failed: ${error.message}`);
+}
+
+// ==================== SHOPEE ====================
+
+async function fetchListPage(target: SyncTarget, cursor: OrderSyncCursor) {
+  const params: Record<string, string | number> = {
+    time_range_field: 'update_time',
+    time_from: cursor.window_from,
+    time_to: cursor.window_to,
+    page_size: ORDER_LIST_PAGE_SIZE,
+  };
+  if (cursor.page_cursor) params.cursor = cursor.page_cursor;
+
+  const result = await callShopeeApi({
+    supabase, credentials: target.credentials,
+    path: '/api/v2/order/get_order_list',
+    method: 'GET', shopId: target.shopId, token: target.token,
+    extraParams: params,
+    edgeFunction: EDGE_FUNCTION,
+    apiCategory: 'order',
+    triggeredBy: TRIGGERED_BY,
+  });
+  if (result?.error) throw new Error(`get_order_list failed: ${result.message || result.error}`);
+
+  const response = result.response as { order_list?: Array<{ order_sn: string }>; more?: boolean; next_cursor?: string } | undefined;
+  return {
+    orderSns: (response?.order_list || []).map(o => o.order_sn),
+    more: !!response?.more,
+    nextCursor: response?.next_cursor,
+  };
+}
+
+async function fetchOrderDetails(target: SyncTarget, orderSns: string[]): Promise<ShopeeOrderDetail[]> {
+  const result = await callShopeeApi({
+    supabase, credentials: target.credentials,
+    path: '/api/v2/order/get_order_detail',
+    method: 'GET', shopId: target.shopId, token: target.token,
+    extraParams: { order_sn_list: orderSns.join(','), response_optional_fields: ORDER_DETAIL_OPTIONAL_FIELDS },
+    edgeFunction: EDGE_FUNCTION,
+    apiCategory: 'order',
+    triggeredBy: TRIGGERED_BY,
+  });
+  if (result?.error) throw new Error(`get_order_detail failed: ${result.message || result.error}`);
+  return (result.response as { order_list?: ShopeeOrderDetail[] } | undefined)?.order_list || [];
+}
+
+// ==================== DB WRITES ====================
+
+/** Upsert one page of orders and replace their item rows */
+async function syncOrderPage(target: SyncTarget, orderSns: string[]): Promise<Partial<OrderSyncCounts>> {
+  const { shopId } = target;
+  const orders = await fetchOrderDetails(target, orderSns);
+  if (orders.length === 0) return {};
+
+  const sns = orders.map(o => o.order_sn);
+  const { data: existing, error: existingError } = await supabase
+    .from('apishopee_orders')
+    .select('order_sn')
+    .eq('shop_id', shopId)
+    .in('order_sn', sns);
+  if (existingError) throw new Error(`Orders query error: ${existingError.message}`);
+  const existingSns = new Set((existing || []).map(o => o.order_sn as string));
+
+  const syncedAt = new Date().toISOString();
+  const { error: upsertError } = await supabase
+    .from('apishopee_orders')
+    .upsert(orders.map(o => orderRowOf(shopId, o, syncedAt)), { onConflict: 'shop_id,order_sn' });
+  if (upsertError) throw new Error(`Upsert orders failed: ${upsertError.message}`);
+
+  // Delete + insert in one transaction (migration 104): a failed insert keeps the old lines
+  const itemRows = orders.flatMap(o => orderItemRowsOf(shopId, o));
+  const { error: itemsError } = await supabase.rpc('replace_order_items', {
+    p_shop_id: shopId,
+    p_order_sns: sns,
+    p_items: itemRows,
+  });
+  if (itemsError) throw new Error(`Replace order items failed: ${itemsError.message}`);
+
+  const inserted = sns.filter(sn => !existingSns.has(sn)).length;
+  return { inserted, updated: sns.length - inserted, items: itemRows.length };
+}
+
+// ==================== QUEUE PRODUCER ====================
+
+/**
+ * Enqueue an order_sync job for every shop whose automatic sync is due.
+ * Only shops synced at least once (the first 30-day sync is started from the UI).
+ */
+export async function enqueueOrderSyncJobs(): Promise<number> {
+  const now = new Date();
+  const { data: rows, error } = await supabase
+    .from('apishopee_orders_sync_status')
+    .select('shop_id, sync_interval_minutes')
+    .eq('is_initial_sync_done', true)
+    .not('sync_interval_minutes', 'is', null)
+    .or(`next_sync_at.is.null,next_sync_at.lte.${now.toISOString()}`);
+  if (error) throw new Error(`Query error: ${error.message}`);
+  if (!rows?.length) return 0;
+
+  const { data: shops, error: shopsError } = await supabase
+    .from('apishopee_shops')
+    .select('shop_id')
+    .in('shop_id', rows.map(r => r.shop_id))
+    .not('access_token', 'is', null);
+  if (shopsError) throw new Error(`Shops query error: ${shopsError.message}`);
+  const withToken = new Set((shops || []).map(s => s.shop_id));
+
+  let enqueued = 0;
+  for (const row of rows) {
+    if (!withToken.has(row.shop_id)) continue;
+
+    await enqueueJob('order_sync', { shop_id: row.shop_id }, {
+      priority: PRIORITY.LOW,
+      concurrencyKey: concurrencyKeyOf(row.shop_id),
+      dedupeKey: dedupeKeyOf(row.shop_id),
+    });
+
+    // Push the schedule now so a failing shop is not re-enqueued every tick
+    const interval = row.sync_interval_minutes || DEFAULT_INTERVAL_MINUTES;
+    await supabase
+      .from('apishopee_orders_sync_status')
+      .update({ next_sync_at: new Date(now.getTime() + interval * 60000).toISOString() })
+      .eq('shop_id', row.shop_id);
+    enqueued++;
+  }
+
+  console.log(`[ORDER-SYNC] Enqueued ${enqueued} shops`);
+  return enqueued;
+}
+
+// ==================== QUEUE CONSUMER ====================
+
+/**
+ * Queue handler: advance the order sync of one shop, resuming the in-flight cursor if there
+ * is one. Throws on Shopee / DB errors so the queue retries from the last saved cursor.
+ */
+export async function handleOrderSyncJob(job: QueueJob, ctx: JobContext): Promise<Record<string, unknown>> {
+  const shopId = job.payload.shop_id as number;
+  const startedAt = Date.now();
+
+  const { data: status, error: statusError } = await supabase
+    .from('apishopee_orders_sync_status')
+    .select('last_sync_update_time, sync_cursor, sync_interval_minutes, total_synced')
+    .eq('shop_id', shopId)
+    .maybeSingle();
+  if (statusError) throw new Error(`Orders sync status query error: ${statusError.message}`);
+
+  let cursor: OrderSyncCursor = (status?.sync_cursor as OrderSyncCursor | null)
+    ?? startOrderSyncCursor(Math.floor(startedAt / 1000), status?.last_sync_update_time ?? null);
+  cursor = { ...cursor, job_id: job.id };
+  await saveSyncStatus(shopId, { sync_cursor: cursor, is_syncing: true, last_error: null });
+
+  try {
+    const target: SyncTarget = {
+      shopId,
+      credentials: await getPartnerCredentials(supabase, shopId),
+      token: await getShopToken(supabase, shopId),
+    };
+
+    while (!cursor.done) {
+      if (!ctx.hasLease()) return { stopped: 'lease_lost', processed: cursor.processed };
+
+      if (Date.now() - startedAt > JOB_TIME_BUDGET_MS) {
+        const nextJobId = await enqueueJob('order_sync', { shop_id: shopId }, {
+          priority: PRIORITY.NORMAL,
+          concurrencyKey: concurrencyKeyOf(shopId),
+          // Per hop: from the second hop on the running job itself holds a shared ':continue'
+          // key, so enqueue would dedupe onto it and the sync would stop
+          dedupeKey: `${dedupeKeyOf(shopId)}:continue:${job.id}`,
+        });
+        console.log(`[ORDER-SYNC] Shop ${shopId}: time budget reached at ${cursor.processed} orders, continuing in ${nextJobId}`);
+        return { continued: true, next_job_id: nextJobId, processed: cursor.processed };
+      }
+
+      const page = await fetchListPage(target, cursor);
+      const counts = page.orderSns.length > 0 ? await syncOrderPage(target, page.orderSns) : {};
+      cursor = advanceOrderCursor(cursor, { orderCount: page.orderSns.length, more: page.more, nextCursor: page.nextCursor }, counts);
+      await saveSyncStatus(shopId, { sync_cursor: cursor });
+    }
+
+    const finishedAt = new Date();
+    const interval = status?.sync_interval_minutes ?? DEFAULT_INTERVAL_MINUTES;
+    const result = { mode: cursor.mode, ...cursor.counts, finished_at: finishedAt.toISOString() };
+
+    await saveSyncStatus(shopId, {
+      sync_cursor: null,
+      is_syncing: false,
+      is_initial_sync_done: true,
+      last_sync_at: finishedAt.toISOString(),
+      last_sync_update_time: cursor.started_at,
+      next_sync_at: new Date(finishedAt.getTime() + interval * 60000).toISOString(),
+      total_synced: (status?.total_synced || 0) + cursor.counts.inserted,
+      new_orders: cursor.counts.inserted,
+      updated_orders: cursor.counts.updated,
+      last_sync_result: result,
+    });
+
+    console.log(`[ORDER-SYNC] Shop ${shopId}: ${cursor.mode} done — ${cursor.counts.inserted} new, ${cursor.counts.updated} updated`);
+    return result;
+  } catch (err) {
+    // Cursor stays so the retry resumes; the error is shown in OrdersPanel
+    await saveSyncStatus(shopId, { last_error: (err as Error).message, is_syncing: false }).catch(() => undefined);
+    throw err;
+  }
+}
@@ -0,0 +1,497 @@
+/**
+ * Product Sync — syncs products / models of a shop from Shopee into DB
+ * (replaces sync-products / check-updates of the apishopee-product edge function).
+ *
+ * Every 10 minutes node-cron enqueues one product_sync job per shop whose
+ * products_next_sync_at is due (per-shop interval, migration 087); the UI enqueues
+ * the same job through apishopee-product. Each job advances the shop's cursor in
+ * apishopee_sync_status (planning: _shared/product-sync.ts):
+ * - incremental: items updated since products_update_time_cursor (+ deleted statuses)
+ * - full: whole shop, items missing on Shopee are deleted — at least once a day
+ * The cursor is saved after every page / batch: a reclaimed job resumes from it, and a
+ * job that runs out of its time budget enqueues a continuation.
+ */
+import { supabase } from '../lib/supabase';
+import {
+  callShopeeApi,
+  getPartnerCredentials,
+  getShopToken,
+  PartnerCredentials,
+  ShopToken,
+} from '../lib/shopee-api';
+import { enqueueJob, JobContext, PRIORITY, QueueJob } from '../lib/job-queue';
+import {
+  advanceListCursor,
+  aggregateProductPricing,
+  completeDetailBatch,
+  getModelPrice,
+  getModelStock,
+  hasProductChanges,
+  isSyncFinished,
+  itemsToRemove,
+  listStatusesFor,
+  modelImageOf,
+  modelNameOf,
+  nextDetailBatch,
+  startProductSyncCursor,
+  PRODUCT_LIST_PAGE_SIZE,
+  ProductSnapshot,
+  ProductSyncCounts,
+  ProductSyncCursor,
+  ProductSyncMode,
+  ShopeeItemBasic,
+  ShopeeModel,
+  ShopeeProduct,
+  TierVariation,
+} from '../../../supabase/functions/_shared/product-sync';
+
+// ==================== TYPES ====================
+
+interface SyncTarget {
+  shopId: number;
+  userId: string;
+  credentials: PartnerCredentials;
+  token: ShopToken;
+}
+
+interface ItemModels {
+  models: ShopeeModel[];
+  tierVariations: TierVariation[];
+}
+
+// ==================== CONSTANTS ====================
+
+const TRIGGERED_BY = 'cron' as const;
+const EDGE_FUNCTION = 'worker-product-sync';
+/** Yield the queue slot after this long; the rest continues in a new job */
+const JOB_TIME_BUDGET_MS = 4 * 60 * 1000;
+const MODEL_PARALLEL_BATCH = 10;
+const RECONCILE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+// ==================== SYNC STATUS ====================
+
+function dedupeKeyOf(shopId: number, userId: string): string {
+  return `product_sync:${shopId}:${userId}`;
+}
+
+/** Own key per shop: a long product sync must not hold back flash sale writes (`shop:<id>`) */
+function concurrencyKeyOf(shopId: number): string {
+  return `products:shop:${shopId}`;
+}
+
+async function saveSyncStatus(shopId: number, userId: string, fields: Record<string, unknown>): Promise<void> {
+  const { error } = await supabase
+    .from('apishopee_sync_status')
+    .upsert({ shop_id: shopId, user_id: userId, ...fields, updated_at: new Date().toISOString() },
+      { onConflict: 'shop_id,user_id' });
+  if (error) throw new Error(`Save sync status failed: ${error.message}`);
+}
+
+// ==================== SHOPEE ====================
+
+async function fetchListPage(target: SyncTarget, cursor: ProductSyncCursor) {
+  const status = listStatusesFor(cursor.mode)[cursor.status_index];
+  const params: Record<string, string | number> = {
+    offset: cursor.offset,
+    page_size: PRODUCT_LIST_PAGE_SIZE,
+    item_status: status,
+  };
+  if (cursor.mode === 'incremental' && cursor.update_time_from) {
+    params.update_time_from = cursor.update_time_from;
+    params.update_time_to = cursor.started_at;
+  }
+
+  const result = await callShopeeApi({
+    supabase, credentials: target.credentials,
+    path: '/api/v2/product/get_item_list',
+    method: 'GET', shopId: target.shopId, token: target.token,
+    extraParams: params,
+    edgeFunction: EDGE_FUNCTION,
+    apiCategory: 'product',
+    triggeredBy: TRIGGERED_BY,
+  });
+  if (result?.error) throw new Error(`get_item_list (${status}) failed: ${result.message || result.error}`);
+
+  const response = result.response as { item?: ShopeeItemBasic[]; has_next_page?: boolean; next_offset?: number } | undefined;
+  return { items: response?.item || [], hasNextPage: !!response?.has_next_page, nextOffset: response?.next_offset };
+}
+
+async function fetchItemDetails(target: SyncTarget, itemIds: number[]): Promise<ShopeeProduct[]> {
+  const result = await callShopeeApi({
+    supabase, credentials: target.credentials,
+    path: '/api/v2/product/get_item_base_info',
+    method: 'GET', shopId: target.shopId, token: target.token,
+    extraParams: { item_id_list: itemIds },
+    edgeFunction: EDGE_FUNCTION,
+    apiCategory: 'product',
+    triggeredBy: TRIGGERED_BY,
+  });
+  if (result?.error) throw new Error(`get_item_base_info failed: ${result.message || result.error}`);
+  return (result.response as { item_list?: ShopeeProduct[] } | undefined)?.item_list || [];
+}
+
+/** Models of items with variants; an item whose call fails keeps its current models in DB */
+async function fetchModels(target: SyncTarget, products: ShopeeProduct[]): Promise<Map<number, ItemModels>> {
+  const modelsByItem = new Map<number, ItemModels>();
+  const withModels = products.filter(p => p.has_model);
+
+  for (let i = 0; i < withModels.length; i += MODEL_PARALLEL_BATCH) {
+    const batch = withModels.slice(i, i + MODEL_PARALLEL_BATCH);
+    await Promise.all(batch.map(async product => {
+      const result = await callShopeeApi({
+        supabase, credentials: target.credentials,
+        path: '/api/v2/product/get_model_list',
+        method: 'GET', shopId: target.shopId, token: target.token,
+        extraParams: { item_id: product.item_id },
+        edgeFunction: EDGE_FUNCTION,
+        apiCategory: 'product',
+        triggeredBy: TRIGGERED_BY,
+      });
+      if (result?.error) {
+        console.warn(`[PRODUCT-SYNC] Shop ${target.shopId}: get_model_list ${product.item_id} failed: ${result.error}`);
+        return;
+      }
+      const response = result.response as { model?: ShopeeModel[]; tier_variation?: TierVariation[] } | undefined;
+      modelsByItem.set(product.item_id, { models: response?.model || [], tierVariations: response?.tier_variation || [] });
+    }));
+  }
+
+  return modelsByItem;
+}
+
+// ==================== HISTORY ====================
+
+async function invokeHistory(body: Record<string, unknown>): Promise<number> {
+  const { data, error } = await supabase.functions.invoke('apishopee-product-webhook', { body });
+  if (error) {
+    console.error(`[PRODUCT-SYNC] History ${body.action} failed:`, error.message);
+    return 0;
+  }
+  if (body.action === 'process-diff') return data?.logs_created || 0;
+  return data?.success ? 1 : 0;
+}
+
+// ==================== DB WRITES ====================
+
+/**
+ * Upsert one batch of items (+ models / tier variations) and log created / changed items.
+ */
+async function syncItemBatch(target: SyncTarget, itemIds: number[]): Promise<Partial<ProductSyncCounts>> {
+  const { shopId, userId } = target;
+  const products = await fetchItemDetails(target, itemIds);
+  if (products.length === 0) return {};
+
+  const modelsByItem = await fetchModels(target, products);
+
+  const { data: existing, error: existingError } = await supabase
+    .from('apishopee_products')
+    .select('item_id, item_name, current_price, original_price, total_available_stock, item_status')
+    .eq('shop_id', shopId)
+    .eq('user_id', userId)
+    .in('item_id', products.map(p => p.item_id));
+  if (existingError) throw new Error(`Products query error: ${existingError.message}`);
+  const existingMap = new Map((existing || []).map(p => [p.item_id as number, p as ProductSnapshot]));
+
+  const syncedAt = new Date().toISOString();
+  const diffs: Array<Record<string, unknown>> = [];
+  const created: ShopeeProduct[] = [];
+
+  const productRows = products.map(p => {
+    const pricing = aggregateProductPricing(p, modelsByItem.get(p.item_id)?.models || []);
+    const snapshot: ProductSnapshot = { item_id: p.item_id, item_name: p.item_name, item_status: p.item_status, ...pricing };
+    const old = existingMap.get(p.item_id);
+
+    if (!old) {
+      created.push(p);
+    } else if (hasProductChanges(old, snapshot)) {
+      diffs.push({
+        shop_id: shopId,
+        user_id: userId,
+        item_id: p.item_id,
+        item_name: p.item_name,
+        old_data: {
+          current_price: old.current_price,
+          original_price: old.original_price,
+          total_available_stock: old.total_available_stock,
+          item_status: old.item_status,
+          item_name: old.item_name,
+        },
+        new_data: {
+          current_price: pricing.current_price,
+          original_price: pricing.original_price,
+          total_available_stock: pricing.total_available_stock,
+          item_status: p.item_status,
+          item_name: p.item_name,
+        },
+        shopee_timestamp: p.update_time,
+        raw_response: p,
+      });
+    }
+
+    return {
+      shop_id: shopId,
+      user_id: userId,
+      item_id: p.item_id,
+      item_name: p.item_name,
+      item_sku: p.item_sku || '',
+      item_status: p.item_status,
+      category_id: p.category_id,
+      image_url_list: p.image?.image_url_list || [],
+      image_id_list: p.image?.image_id_list || [],
+      ...pricing,
+      currency: p.price_info?.[0]?.currency || 'VND',
+      total_reserved_stock: p.stock_info_v2?.summary_info?.total_reserved_stock || 0,
+      brand_id: p.brand?.brand_id || null,
+      brand_name: p.brand?.original_brand_name || null,
+      has_model: p.has_model,
+      create_time: p.create_time,
+      update_time: p.update_time,
+      raw_response: p,
+      synced_at: syncedAt,
+    };
+  });
+
+  const { error: upsertError } = await supabase
+    .from('apishopee_products')
+    .upsert(productRows, { onConflict: 'shop_id,user_id,item_id' });
+  if (upsertError) throw new Error(`Upsert products failed: ${upsertError.message}`);
+
+  // Replace models / tier variations of items whose model list was fetched
+  const modelItemIds = [...modelsByItem.keys()];
+  let modelsCount = 0;
+  if (modelItemIds.length > 0) {
+    await supabase.from('apishopee_product_models')
+      .delete().eq('shop_id', shopId).eq('user_id', userId).in('item_id', modelItemIds);
+    await supabase.from('apishopee_product_tier_variations')
+      .delete().eq('shop_id', shopId).eq('user_id', userId).in('item_id', modelItemIds);
+
+    const tierRows = [...modelsByItem]
+      .filter(([, info]) => info.tierVariations.length > 0)
+      .map(([itemId, info]) => ({
+        shop_id: shopId, user_id: userId, item_id: itemId,
+        tier_variations: info.tierVariations, synced_at: syncedAt,
+      }));
+    const modelRows = [...modelsByItem].flatMap(([itemId, info]) => info.models.map(m => {
+      const price = getModelPrice(m);
+      return {
+        shop_id: shopId,
+        user_id: userId,
+        item_id: itemId,
+        model_id: m.model_id,
+        model_sku: m.model_sku || '',
+        model_name: modelNameOf(m, info.tierVariations),
+        current_price: price.current,
+        original_price: price.original,
+        total_available_stock: getModelStock(m),
+        total_reserved_stock: m.stock_info_v2?.summary_info?.total_reserved_stock || 0,
+        tier_index: m.tier_index,
+        image_url: modelImageOf(m, info.tierVariations),
+        raw_response: m,
+        synced_at: syncedAt,
+      };
+    }));
+
+    if (tierRows.length > 0) {
+      const { error } = await supabase.from('apishopee_product_tier_variations').insert(tierRows);
+      if (error) throw new Error(`Insert tier variations failed: ${error.message}`);
+    }
+    if (modelRows.length > 0) {
+      const { error } = await supabase.from('apishopee_product_models').insert(modelRows);
+      if (error) throw new Error(`Insert models failed: ${error.message}`);
+    }
+    modelsCount = modelRows.length;
+  }
+
+  let historyLogs = 0;
+  for (const p of created) {
+    const pricing = aggregateProductPricing(p, modelsByItem.get(p.item_id)?.models || []);
+    historyLogs += await invokeHistory({
+      action: 'log-product-created',
+      shop_id: shopId,
+      user_id: userId,
+      item_id: p.item_id,
+      item_name: p.item_name,
+      current_price: pricing.current_price,
+      total_stock: pricing.total_available_stock,
+      shopee_timestamp: p.update_time,
+      raw_response: p,
+    });
+  }
+  if (diffs.length > 0) {
+    historyLogs += await invokeHistory({ action: 'process-diff', diffs });
+  }
+
+  return {
+    inserted: created.length,
+    updated: products.length - created.length,
+    models: modelsCount,
+    history_logs: historyLogs,
+  };
+}
+
+/** Delete items removed on Shopee (deleted status or missing from a full listing) */
+async function removeDeletedItems(target: SyncTarget, cursor: ProductSyncCursor): Promise<Partial<ProductSyncCounts>> {
+  const { shopId, userId } = target;
+  const { data: dbProducts, error } = await supabase
+    .from('apishopee_products')
+    .select('item_id, item_name')
+    .eq('shop_id', shopId)
+    .eq('user_id', userId);
+  if (error) throw new Error(`Products query error: ${error.message}`);
+
+  const names = new Map((dbProducts || []).map(p => [p.item_id as number, p.item_name as string | null]));
+  const toRemove = itemsToRemove(cursor, [...names.keys()]);
+  if (toRemove.length === 0) return {};
+
+  let historyLogs = 0;
+  for (const itemId of toRemove) {
+    historyLogs += await invokeHistory({
+      action: 'log-product-deleted', shop_id: shopId, user_id: userId, item_id: itemId, item_name: names.get(itemId),
+    });
+  }
+
+  await supabase.from('apishopee_product_models')
+    .delete().eq('shop_id', shopId).eq('user_id', userId).in('item_id', toRemove);
+  await supabase.from('apishopee_product_tier_variations')
+    .delete().eq('shop_id', shopId).eq('user_id', userId).in('item_id', toRemove);
+  const { error: deleteError } = await supabase.from('apishopee_products')
+    .delete().eq('shop_id', shopId).eq('user_id', userId).in('item_id', toRemove);
+  if (deleteError) throw new Error(`Delete products failed: ${deleteError.message}`);
+
+  console.log(`[PRODUCT-SYNC] Shop ${shopId}: removed ${toRemove.length} deleted items`);
+  return { deleted: toRemove.length, history_logs: historyLogs };
+}
+
+// ==================== QUEUE PRODUCER ====================
+
+/**
+ * Enqueue a product_sync job for every shop whose automatic sync is due.
+ * Only shops synced at least once (the first sync is started from the UI, which picks the owner user).
+ */
+export async function enqueueProductSyncJobs(): Promise<number> {
+  const now = new Date();
+  const { data: rows, error } = await supabase
+    .from('apishopee_sync_status')
+    .select('shop_id, user_id, products_sync_interval_minutes, products_next_sync_at, products_reconciled_at')
+    .not('products_synced_at', 'is', null)
+    .not('products_sync_interval_minutes', 'is', null)
+    .or(`products_next_sync_at.is.null,products_next_sync_at.lte.${now.toISOString()}`);
+  if (error) throw new Error(`Query error: ${error.message}`);
+  if (!rows?.length) return 0;
+
+  const { data: shops, error: shopsError } = await supabase
+    .from('apishopee_shops')
+    .select('shop_id')
+    .in('shop_id', [...new Set(rows.map(r => r.shop_id))])
+    .not('access_token', 'is', null);
+  if (shopsError) throw new Error(`Shops query error: ${shopsError.message}`);
+  const withToken = new Set((shops || []).map(s => s.shop_id));
+
+  let enqueued = 0;
+  for (const row of rows) {
+    if (!withToken.has(row.shop_id)) continue;
+
+    const reconciledAt = row.products_reconciled_at ? Date.parse(row.products_reconciled_at) : 0;
+    const mode: ProductSyncMode = now.getTime() - reconciledAt >= RECONCILE_INTERVAL_MS ? 'full' : 'incremental';
+    await enqueueJob('product_sync', { shop_id: row.shop_id, user_id: row.user_id, mode }, {
+      priority: PRIORITY.LOW,
+      concurrencyKey: concurrencyKeyOf(row.shop_id),
+      dedupeKey: dedupeKeyOf(row.shop_id, row.user_id),
+    });
+
+    // Push the schedule now so a failing shop is not re-enqueued every tick
+    const interval = row.products_sync_interval_minutes || DEFAULT_INTERVAL_MINUTES;
+    await supabase
+      .from('apishopee_sync_status')
+      .update({ products_next_sync_at: new Date(now.getTime() + interval * 60000).toISOString() })
+      .eq('shop_id', row.shop_id)
+      .eq('user_id', row.user_id);
+    enqueued++;
+  }
+
+  console.log(`[PRODUCT-SYNC] Enqueued ${enqueued} shops`);
+  return enqueued;
+}
+
+// ==================== QUEUE CONSUMER ====================
+
+/**
+ * Queue handler: advance the product sync of one shop. Resumes the in-flight cursor if
+ * there is one (payload mode only applies to a new run). Throws on Shopee / DB errors so
+ * the queue retries from the last saved cursor.
+ */
+export async function handleProductSyncJob(job: QueueJob, ctx: JobContext): Promise<Record<string, unknown>> {
+  const shopId = job.payload.shop_id as number;
+  const userId = job.payload.user_id as string;
+  const requestedMode = (job.payload.mode as ProductSyncMode) || 'incremental';
+  const startedAt = Date.now();
+
+  const { data: status, error: statusError } = await supabase
+    .from('apishopee_sync_status')
+    .select('products_update_time_cursor, products_sync_cursor, products_sync_interval_minutes')
+    .eq('shop_id', shopId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (statusError) throw new Error(`Sync status query error: ${statusError.message}`);
+
+  let cursor: ProductSyncCursor = (status?.products_sync_cursor as ProductSyncCursor | null)
+    ?? startProductSyncCursor(requestedMode, Math.floor(startedAt / 1000), status?.products_update_time_cursor ?? null);
+  cursor = { ...cursor, job_id: job.id };
+  await saveSyncStatus(shopId, userId, { products_sync_cursor: cursor, products_sync_error: null });
+
+  try {
+    const target: SyncTarget = {
+      shopId,
+      userId,
+      credentials: await getPartnerCredentials(supabase, shopId),
+      token: await getShopToken(supabase, shopId),
+    };
+
+    while (!isSyncFinished(cursor)) {
+      if (!ctx.hasLease()) return { stopped: 'lease_lost', processed: cursor.processed };
+
+      if (Date.now() - startedAt > JOB_TIME_BUDGET_MS) {
+        const nextJobId = await enqueueJob('product_sync', { shop_id: shopId, user_id: userId }, {
+          priority: PRIORITY.NORMAL,
+          concurrencyKey: concurrencyKeyOf(shopId),
+          // Per hop: from the second hop on the running job itself holds a shared ':continue'
+          // key, so enqueue would dedupe onto it and the sync would stop
+          dedupeKey: `${dedupeKeyOf(shopId, userId)}:continue:${job.id}`,
+        });
+        console.log(`[PRODUCT-SYNC] Shop ${shopId}: time budget reached at ${cursor.processed}/${cursor.total}, continuing in ${nextJobId}`);
+        return { continued: true, next_job_id: nextJobId, phase: cursor.phase, processed: cursor.processed, total: cursor.total };
+      }
+
+      if (cursor.phase === 'list') {
+        cursor = advanceListCursor(cursor, await fetchListPage(target, cursor));
+      } else {
+        const batch = nextDetailBatch(cursor);
+        cursor = completeDetailBatch(cursor, batch, await syncItemBatch(target, batch));
+      }
+      await saveSyncStatus(shopId, userId, { products_sync_cursor: cursor });
+    }
+
+    const removed = await removeDeletedItems(target, cursor);
+    const counts = { ...cursor.counts, deleted: cursor.counts.deleted + (removed.deleted || 0), history_logs: cursor.counts.history_logs + (removed.history_logs || 0) };
+    const finishedAt = new Date();
+    const interval = status?.products_sync_interval_minutes ?? DEFAULT_INTERVAL_MINUTES;
+    const result = { mode: cursor.mode, ...counts, finished_at: finishedAt.toISOString() };
+
+    await saveSyncStatus(shopId, userId, {
+      products_sync_cursor: null,
+      products_update_time_cursor: cursor.started_at,
+      products_synced_at: finishedAt.toISOString(),
+      ...(cursor.mode === 'full' ? { products_reconciled_at: finishedAt.toISOString() } : {}),
+      products_next_sync_at: new Date(finishedAt.getTime() + interval * 60000).toISOString(),
+      products_last_sync_result: result,
+    });
+
+    console.log(`[PRODUCT-SYNC] Shop ${shopId}: ${cursor.mode} done — ${counts.inserted} new, ${counts.updated} updated, ${counts.deleted} deleted`);
+    return result;
+  } catch (err) {
+    // Cursor stays so the retry resumes; the error is shown in ProductsPanel
+    await saveSyncStatus(shopId, userId, { products_sync_error: (err as Error).message }).catch(() => undefined);
+    throw err;
+  }
+}
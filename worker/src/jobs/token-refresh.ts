@@ -1,18 +1,21 @@
 /**
  * Token Refresh — ported from shopee-token-refresh Edge Function.
  *
- * Runs every 30 minutes. Refreshes Shopee access tokens for shops expiring within 3 hours.
+ * Every 30 minutes node-cron enqueues a single token_refresh job (deduped, high priority).
+ * The job refreshes Shopee access tokens for shops expiring within 3 hours.
  * Two passes:
  * 1. Main shop tokens (apishopee_shops) — grouped by merchant_id for efficiency
  * 2. Multi-app tokens (apishopee_shop_app_tokens) — same grouping
  *
- * Auth-level signing: baseString = partnerId + path + timestamp (no token/shopId)
+ * Refresh calls go through the shared Shopee client (public-level signing).
  */
-import { createHmac } from 'crypto';
 import { supabase } from '../lib/supabase';
 import { config } from '../config';
 import { logApiCall, createResponseSummary } from '../utils/api-logger';
 import { logActivity } from '../utils/activity-logger';
+import { enqueueJob, PRIORITY } from '../lib/job-queue';
+import { getSecretKeyring, openSecret, sealSecretFields } from '../lib/secrets';
+import { createShopeeClient } from '../../../supabase/functions/_shared/shopee-client';
 
 // ==================== CONSTANTS ====================
 
@@ -51,12 +54,16 @@ function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-/** Auth-level signing: no accessToken or shopId in base string */
-function createAuthSignature(partnerId: number, partnerKey: string, path: string, timestamp: number): string {
-  const baseString = `${partnerId}${path}${timestamp}`;
-  return createHmac('sha256', partnerKey).update(baseString).digest('hex');
+/** New access / refresh token pair, encrypted for the DB */
+async function sealNewToken(token: Record<string, unknown>): Promise<Record<string, unknown>> {
+  return sealSecretFields(
+    { access_token: token.access_token, refresh_token: token.refresh_token },
+    ['access_token', 'refresh_token'],
+    await getSecretKeyring()
+  );
 }
 
+/** partnerKey / refreshToken come straight from the DB and are decrypted here */
 async function callRefreshApi(
   partnerId: number,
   partnerKey: string,
@@ -65,37 +72,23 @@ async function callRefreshApi(
   merchantId?: number
 ): Promise<{ success: boolean; data?: Record<string, unknown>; error?: string }> {
   try {
-    const timestamp = Math.floor(Date.now() / 1000);
-    const path = '/api/v2/auth/access_token/get';
-    const sign = createAuthSignature(partnerId, partnerKey, path, timestamp);
-
-    const body: Record<string, unknown> = {
-      refresh_token: refreshToken,
-      partner_id: partnerId,
-    };
-    if (shopId) body.shop_id = shopId;
-    if (merchantId) body.merchant_id = merchantId;
-
-    const url = `${config.shopeeBaseUrl}${path}?partner_id=${partnerId}&timestamp=${timestamp}&sign=${sign}`;
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(body),
-      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    const keyring = await getSecretKeyring();
+    partnerKey = await openSecret(partnerKey, keyring);
+    refreshToken = await openSecret(refreshToken, keyring);
+
+    const client = createShopeeClient({
+      credentials: { partnerId, partnerKey },
+      baseUrl: config.shopeeBaseUrl,
+      timeoutMs: REQUEST_TIMEOUT_MS,
     });
+    const result = await client.refreshAccessToken({ shopId: shopId || undefined, merchantId }, refreshToken);
 
-    const result = await response.json() as Record<string, unknown>;
     if (result.error) {
       return { success: false, error: (result.message || result.error) as string };
     }
     return { success: true, data: result };
   } catch (error) {
-    const err = error as Error;
-    if (err.name === 'AbortError') {
-      return { success: false, error: `Request timeout after ${REQUEST_TIMEOUT_MS}ms` };
-    }
-    return { success: false, error: err.message };
+    return { success: false, error: (error as Error).message };
   }
 }
 
@@ -200,8 +193,7 @@ async function refreshMerchantGroup(
   const { error: updateError } = await supabase
     .from('apishopee_shops')
     .update({
-      access_token: newToken.access_token,
-      refresh_token: newToken.refresh_token,
+      ...(await sealNewToken(newToken)),
       expire_in: newToken.expire_in,
       expired_at: newExpiredAt,
       access_token_expired_at: newExpiredAt,
@@ -255,8 +247,7 @@ async function refreshStandaloneShop(shop: ShopToken): Promise<RefreshResult> {
   const { error: updateError } = await supabase
     .from('apishopee_shops')
     .update({
-      access_token: newToken.access_token,
-      refresh_token: newToken.refresh_token,
+      ...(await sealNewToken(newToken)),
       expire_in: newToken.expire_in,
       expired_at: newExpiredAt,
       access_token_expired_at: newExpiredAt,
@@ -319,8 +310,7 @@ async function refreshAppTokens(): Promise<RefreshResult[]> {
         const { error: updateError } = await supabase
           .from('apishopee_shop_app_tokens')
           .update({
-            access_token: newToken.access_token,
-            refresh_token: newToken.refresh_token,
+            ...(await sealNewToken(newToken)),
             expire_in: newToken.expire_in,
             expired_at: newExpiredAt,
             token_updated_at: new Date().toISOString(),
@@ -358,8 +348,7 @@ async function refreshAppTokens(): Promise<RefreshResult[]> {
       const { error: updateError } = await supabase
         .from('apishopee_shop_app_tokens')
         .update({
-          access_token: newToken.access_token,
-          refresh_token: newToken.refresh_token,
+          ...(await sealNewToken(newToken)),
           expire_in: newToken.expire_in,
           expired_at: newExpiredAt,
           token_updated_at: new Date().toISOString(),
@@ -386,19 +375,16 @@ async function refreshAppTokens(): Promise<RefreshResult[]> {
 
 // ==================== MAIN ENTRY POINT ====================
 
-let _isRunning = false;
-
-export function isTokenRefreshRunning(): boolean {
-  return _isRunning;
+/** Enqueue the token refresh run. Only one pending/running refresh exists at a time. */
+export async function enqueueTokenRefreshJob(): Promise<string> {
+  return await enqueueJob('token_refresh', {}, {
+    priority: PRIORITY.HIGH,
+    dedupeKey: 'token_refresh',
+  });
 }
 
-export async function runTokenRefresh(): Promise<void> {
-  if (_isRunning) {
-    console.log('[TOKEN-REFRESH] Previous run still active, skipping');
-    return;
-  }
-  _isRunning = true;
-
+/** Queue handler: refresh all expiring tokens. Throws on fatal error so the queue retries. */
+export async function handleTokenRefreshJob(): Promise<Record<string, unknown>> {
   try {
     console.log('[TOKEN-REFRESH] Starting token refresh');
     const results: RefreshResult[] = [];
@@ -452,9 +438,9 @@ export async function runTokenRefresh(): Promise<void> {
     const skipped = results.filter(r => r.status === 'skipped').length;
     console.log(`[TOKEN-REFRESH] Done: ${success} success, ${failed} failed, ${skipped} skipped (total ${results.length})`);
 
+    return { success, failed, skipped };
   } catch (error) {
     console.error('[TOKEN-REFRESH] Fatal error:', (error as Error).message);
-  } finally {
-    _isRunning = false;
+    throw error;
   }
 }
@@ -0,0 +1,237 @@
+/**
+ * Durable job queue backed by the worker_jobs table (migration 080).
+ *
+ * - enqueueJob(): idempotent via dedupeKey (one pending/running job per key)
+ * - startQueueConsumer(): polls claim_worker_jobs, runs registered handlers,
+ *   heartbeats the lease while running, completes or fails (with backoff) the job
+ *
+ * A crashed worker never releases its leases — they expire and another
+ * worker (or this one after PM2 restart) reclaims the job. Handlers must
+ * therefore be safe to re-run.
+ */
+import os from 'os';
+import { supabase } from './supabase';
+import { config } from '../config';
+
+// ==================== TYPES ====================
+
+export type QueueName = 'flash_sale_create' | 'flash_sale_sync' | 'flash_sale_expand' | 'token_refresh' | 'product_sync' | 'order_sync';
+
+export interface QueueJob<P = Record<string, unknown>> {
+  id: string;
+  queue: QueueName;
+  payload: P;
+  priority: number;
+  concurrency_key: string | null;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+}
+
+export interface EnqueueOptions {
+  /** Lower value runs first (default 100) */
+  priority?: number;
+  /** At most one running job per key, e.g. `shop:123` */
+  concurrencyKey?: string;
+  /** At most one pending/running job per key */
+  dedupeKey?: string;
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+export interface JobContext {
+  /** false once the lease was lost — handler should stop writing side effects */
+  hasLease(): boolean;
+}
+
+type JobHandler = (job: QueueJob, ctx: JobContext) => Promise<Record<string, unknown> | void>;
+
+interface HandlerRegistration {
+  handler: JobHandler;
+  leaseSeconds: number;
+}
+
+// ==================== CONSTANTS ====================
+
+export const PRIORITY = {
+  HIGH: 10,
+  NORMAL: 100,
+  LOW: 200,
+} as const;
+
+const DEFAULT_LEASE_SECONDS = 300;
+const MAX_RETRY_DELAY_SECONDS = 15 * 60;
+
+/** Unique per process so leases survive a PM2 restart of another instance */
+export const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+// ==================== PRODUCER ====================
+
+/**
+ * Enqueue a job. Returns the job ID (existing in-flight job when dedupeKey matches).
+ */
+export async function enqueueJob(
+  queue: QueueName,
+  payload: Record<string, unknown>,
+  options: EnqueueOptions = {}
+): Promise<string> {
+  const { data, error } = await supabase.rpc('enqueue_worker_job', {
+    p_queue: queue,
+    p_payload: payload,
+    p_priority: options.priority ?? PRIORITY.NORMAL,
+    p_concurrency_key: options.concurrencyKey ?? null,
+    p_dedupe_key: options.dedupeKey ?? null,
+    p_run_at: (options.runAt ?? new Date()).toISOString(),
+    p_max_attempts: options.maxAttempts ?? 3,
+  });
+
+  if (error) throw new Error(`Enqueue ${queue} failed: ${error.message}`);
+  return data as string;
+}
+
+// ==================== CONSUMER ====================
+
+const handlers = new Map<QueueName, HandlerRegistration>();
+const activeJobs = new Map<string, QueueJob>();
+
+let pollTimer: NodeJS.Timeout | null = null;
+let isPolling = false;
+let isStopped = false;
+
+/** Register a handler for a queue. Must be called before startQueueConsumer(). */
+export function registerJobHandler(
+  queue: QueueName,
+  handler: JobHandler,
+  options: { leaseSeconds?: number } = {}
+): void {
+  handlers.set(queue, { handler, leaseSeconds: options.leaseSeconds ?? DEFAULT_LEASE_SECONDS });
+}
+
+/** Number of jobs currently running in this process (used by graceful shutdown) */
+export function getActiveJobCount(): number {
+  return activeJobs.size;
+}
+
+/** Summary for /health and heartbeat */
+export function getQueueConsumerStatus(): { workerId: string; activeJobs: Array<{ id: string; queue: string }> } {
+  return {
+    workerId: WORKER_ID,
+    activeJobs: Array.from(activeJobs.values()).map(j => ({ id: j.id, queue: j.queue })),
+  };
+}
+
+/** Exponential backoff: 30s, 60s, 120s... capped at 15 minutes */
+export function getRetryDelaySeconds(attempts: number): number {
+  return Math.min(30 * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_SECONDS);
+}
+
+async function runJob(job: QueueJob, registration: HandlerRegistration): Promise<void> {
+  let leaseHeld = true;
+  const start = Date.now();
+
+  // Heartbeat at 1/3 of the lease so two missed beats still keep the lease
+  const heartbeat = setInterval(async () => {
+    const { data, error } = await supabase.rpc('heartbeat_worker_job', {
+      p_job_id: job.id,
+      p_worker_id: WORKER_ID,
+      p_lease_seconds: registration.leaseSeconds,
+    });
+    if (error) {
+      console.error(`[QUEUE] Heartbeat error for job ${job.id}:`, error.message);
+      return;
+    }
+    if (data === false) {
+      leaseHeld = false;
+      console.warn(`[QUEUE] Lost lease on job ${job.id} (${job.queue})`);
+    }
+  }, (registration.leaseSeconds * 1000) / 3);
+
+  try {
+    const result = await registration.handler(job, { hasLease: () => leaseHeld });
+    clearInterval(heartbeat);
+
+    const { error } = await supabase.rpc('complete_worker_job', {
+      p_job_id: job.id,
+      p_worker_id: WORKER_ID,
+      p_result: result ?? null,
+    });
+    if (error) console.error(`[QUEUE] Complete error for job ${job.id}:`, error.message);
+
+    console.log(`[QUEUE] ${job.queue} job ${job.id} completed in ${Date.now() - start}ms`);
+  } catch (err) {
+    clearInterval(heartbeat);
+    const message = (err as Error).message;
+
+    const { data: newStatus, error } = await supabase.rpc('fail_worker_job', {
+      p_job_id: job.id,
+      p_worker_id: WORKER_ID,
+      p_error: message,
+      p_retry_delay_seconds: getRetryDelaySeconds(job.attempts),
+    });
+    if (error) console.error(`[QUEUE] Fail error for job ${job.id}:`, error.message);
+
+    if (newStatus === 'dead') {
+      console.error(`[QUEUE] ${job.queue} job ${job.id} dead-lettered after ${job.attempts} attempts: ${message}`);
+    } else {
+      console.warn(`[QUEUE] ${job.queue} job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}): ${message}`);
+    }
+  } finally {
+    activeJobs.delete(job.id);
+  }
+}
+
+async function poll(): Promise<void> {
+  if (isPolling || isStopped) return;
+  isPolling = true;
+
+  try {
+    const capacity = config.queueConcurrency - activeJobs.size;
+    if (capacity <= 0) return;
+
+    // Claim per queue so each handler gets its own lease length
+    for (const [queue, registration] of handlers) {
+      const slots = config.queueConcurrency - activeJobs.size;
+      if (slots <= 0 || isStopped) break;
+
+      const { data, error } = await supabase.rpc('claim_worker_jobs', {
+        p_worker_id: WORKER_ID,
+        p_queues: [queue],
+        p_limit: slots,
+        p_lease_seconds: registration.leaseSeconds,
+      });
+
+      if (error) {
+        console.error(`[QUEUE] Claim error (${queue}):`, error.message);
+        continue;
+      }
+
+      for (const job of (data || []) as QueueJob[]) {
+        activeJobs.set(job.id, job);
+        // Not awaited: jobs run concurrently up to queueConcurrency
+        runJob(job, registration);
+      }
+    }
+  } catch (err) {
+    console.error('[QUEUE] Poll failed:', (err as Error).message);
+  } finally {
+    isPolling = false;
+  }
+}
+
+/** Start polling for jobs every config.queuePollIntervalMs */
+export function startQueueConsumer(): void {
+  if (pollTimer) return;
+  isStopped = false;
+  pollTimer = setInterval(poll, config.queuePollIntervalMs);
+  poll();
+  console.log(`[QUEUE] Consumer ${WORKER_ID} started (queues: ${Array.from(handlers.keys()).join(', ')}, concurrency ${config.queueConcurrency})`);
+}
+
+/** Stop claiming new jobs. Running jobs keep going until they finish. */
+export function stopQueueConsumer(): void {
+  isStopped = true;
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
@@ -1,23 +1,184 @@
 import Bottleneck from 'bottleneck';
+import { supabase } from './supabase';
 
 /**
- * Per-partner-app rate limiters to prevent Shopee 429 errors.
- * Each partner app gets its own limiter: max 5 concurrent, 200ms min spacing.
+ * Adaptive Shopee rate limiter, shared with edge functions through
+ * shopee_rate_limit_state (migration 081).
+ *
+ * - Partner app limiter: hard ceiling of 5 req/s and 5 concurrent requests across all paths
+ * - Path limiter (chained to the partner limiter): spacing = 1000 / learned rate
+ * - error_rate_limit / HTTP 429 → report_rate_limit_throttle halves the rate and sets
+ *   a jittered exponential backoff that every worker and edge function honours
+ * - Successes are batched and reported to slowly raise the rate again
  */
-const limiters = new Map<string, Bottleneck>();
-
-export function getLimiter(partnerAppId: string): Bottleneck {
-  if (!limiters.has(partnerAppId)) {
-    limiters.set(partnerAppId, new Bottleneck({
-      maxConcurrent: 5,
-      minTime: 200, // 200ms between requests = max 5/sec per partner app
-    }));
+
+interface LimitState {
+  ratePerSec: number;
+  backoffUntil: number;
+  fetchedAt: number;
+}
+
+interface RemoteState {
+  rate_per_sec: number;
+  backoff_until: string | null;
+}
+
+const DEFAULT_RATE_PER_SEC = 5;
+/** Shopee's per-partner-app cap; learned path rates can go higher but never past this in total */
+const PARTNER_MAX_RATE_PER_SEC = 5;
+const STATE_CACHE_TTL_MS = 10_000;
+const SUCCESS_FLUSH_INTERVAL_MS = 30_000;
+const WORKER_SOURCE = 'worker';
+
+const partnerLimiters = new Map<number, Bottleneck>();
+const pathLimiters = new Map<string, Bottleneck>();
+const states = new Map<string, LimitState>();
+const pendingSuccesses = new Map<string, number>();
+
+function stateKey(partnerId: number, path: string): string {
+  return `${partnerId}|${path}`;
+}
+
+function getPartnerLimiter(partnerId: number): Bottleneck {
+  let limiter = partnerLimiters.get(partnerId);
+  if (!limiter) {
+    limiter = new Bottleneck({ maxConcurrent: 5, minTime: Math.ceil(1000 / PARTNER_MAX_RATE_PER_SEC) });
+    partnerLimiters.set(partnerId, limiter);
+  }
+  return limiter;
+}
+
+function getPathLimiter(partnerId: number, path: string, ratePerSec: number): Bottleneck {
+  const key = stateKey(partnerId, path);
+  const minTime = Math.ceil(1000 / ratePerSec);
+  let limiter = pathLimiters.get(key);
+
+  if (!limiter) {
+    limiter = new Bottleneck({ minTime });
+    limiter.chain(getPartnerLimiter(partnerId));
+    pathLimiters.set(key, limiter);
+  } else {
+    limiter.updateSettings({ minTime });
+  }
+  return limiter;
+}
+
+function applyRemoteState(key: string, remote: RemoteState): LimitState {
+  const state: LimitState = {
+    ratePerSec: Number(remote.rate_per_sec) || DEFAULT_RATE_PER_SEC,
+    backoffUntil: remote.backoff_until ? new Date(remote.backoff_until).getTime() : 0,
+    fetchedAt: Date.now(),
+  };
+  states.set(key, state);
+  return state;
+}
+
+async function getState(partnerId: number, path: string): Promise<LimitState> {
+  const key = stateKey(partnerId, path);
+  const cached = states.get(key);
+  if (cached && Date.now() - cached.fetchedAt < STATE_CACHE_TTL_MS) return cached;
+
+  const { data, error } = await supabase.rpc('get_rate_limit_state', {
+    p_partner_id: partnerId,
+    p_api_path: path,
+  });
+
+  if (error) {
+    // Never block API calls because the shared store is unavailable
+    console.error('[RATE-LIMIT] State lookup error:', error.message);
+    return cached || { ratePerSec: DEFAULT_RATE_PER_SEC, backoffUntil: 0, fetchedAt: Date.now() };
+  }
+  return applyRemoteState(key, data as RemoteState);
+}
+
+// ==================== PUBLIC API ====================
+
+/** true for Shopee error_rate_limit or HTTP 429 */
+export function isRateLimitResponse(result: unknown, httpStatus?: number): boolean {
+  if (httpStatus === 429) return true;
+  return (result as { error?: string } | null)?.error === 'error_rate_limit';
+}
+
+/**
+ * Run a Shopee call under the adaptive limit for (partner app, API path).
+ * Waits out any shared backoff before scheduling.
+ */
+export async function scheduleShopeeCall<T>(
+  partnerId: number,
+  path: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const state = await getState(partnerId, path);
+
+  const waitMs = state.backoffUntil - Date.now();
+  if (waitMs > 0) {
+    console.log(`[RATE-LIMIT] Backoff ${waitMs}ms for partner ${partnerId} ${path}`);
+    await new Promise(resolve => setTimeout(resolve, waitMs));
+  }
+
+  return getPathLimiter(partnerId, path, state.ratePerSec).schedule(fn);
+}
+
+/**
+ * Report a throttled response. Returns the backoff (ms) the caller should expect
+ * before the next attempt is scheduled.
+ */
+export async function reportThrottle(
+  partnerId: number,
+  path: string,
+  httpStatus?: number,
+  shopeeError?: string
+): Promise<number> {
+  const key = stateKey(partnerId, path);
+  const { data, error } = await supabase.rpc('report_rate_limit_throttle', {
+    p_partner_id: partnerId,
+    p_api_path: path,
+    p_source: WORKER_SOURCE,
+    p_http_status: httpStatus ?? null,
+    p_shopee_error: shopeeError ?? null,
+  });
+
+  if (error) {
+    console.error('[RATE-LIMIT] Throttle report error:', error.message);
+    // Local fallback so this process still backs off
+    const fallback: LimitState = {
+      ratePerSec: Math.max((states.get(key)?.ratePerSec || DEFAULT_RATE_PER_SEC) / 2, 0.5),
+      backoffUntil: Date.now() + 2000 + Math.random() * 1000,
+      fetchedAt: Date.now(),
+    };
+    states.set(key, fallback);
+    return fallback.backoffUntil - Date.now();
+  }
+
+  const state = applyRemoteState(key, data as RemoteState);
+  return Math.max(state.backoffUntil - Date.now(), 0);
+}
+
+/** Record a non-throttled response (flushed to the shared store periodically) */
+export function recordSuccess(partnerId: number, path: string): void {
+  const key = stateKey(partnerId, path);
+  pendingSuccesses.set(key, (pendingSuccesses.get(key) || 0) + 1);
+}
+
+async function flushSuccesses(): Promise<void> {
+  const entries = Array.from(pendingSuccesses.entries());
+  pendingSuccesses.clear();
+
+  for (const [key, count] of entries) {
+    const [partnerId, path] = [Number(key.slice(0, key.indexOf('|'))), key.slice(key.indexOf('|') + 1)];
+    const { data, error } = await supabase.rpc('report_rate_limit_success', {
+      p_partner_id: partnerId,
+      p_api_path: path,
+      p_count: count,
+    });
+    if (error) {
+      console.error('[RATE-LIMIT] Success report error:', error.message);
+      continue;
+    }
+    applyRemoteState(key, data as RemoteState);
   }
-  return limiters.get(partnerAppId)!;
 }
 
-/** Default limiter for cases where partner app is unknown */
-export const defaultLimiter = new Bottleneck({
-  maxConcurrent: 3,
-  minTime: 300,
-});
+setInterval(() => {
+  flushSuccesses().catch(err => console.error('[RATE-LIMIT] Flush failed:', (err as Error).message));
+}, SUCCESS_FLUSH_INTERVAL_MS).unref();
@@ -0,0 +1,11 @@
+/**
+ * Keyring for the encrypted partner_key / access_token / refresh_token columns.
+ * Envelope encryption itself is shared with the Edge Functions
+ * (supabase/functions/_shared/secret-box.ts); keys come from SHOPEE_SECRET_KEYS /
+ * SHOPEE_SECRET_ACTIVE_KEY_ID, loaded by config.ts via dotenv.
+ */
+import { createKeyringLoader } from '../../../supabase/functions/_shared/secret-box';
+
+export * from '../../../supabase/functions/_shared/secret-box';
+
+export const getSecretKeyring = createKeyringLoader(name => process.env[name]);
@@ -0,0 +1,107 @@
+/**
+ * Re-encrypt every stored Shopee secret with the active key.
+ * Run: npm run rotate:secrets [-- --dry-run]
+ *
+ * Covers apishopee_shops (partner_key, access_token, refresh_token),
+ * apishopee_partner_apps (partner_key) and apishopee_shop_app_tokens (access_token, refresh_token).
+ * Plaintext rows (before rollout) and rows sealed with an older key id are resealed;
+ * rows already on the active key are left alone, so the command is safe to re-run.
+ *
+ * Each update is guarded by the old values: a token refreshed concurrently (already
+ * sealed with the active key) is skipped instead of being overwritten with a stale one.
+ * Old keys must stay in SHOPEE_SECRET_KEYS until a run reports 0 pending rows.
+ */
+import { supabase } from './lib/supabase';
+import { getSecretKeyring, needsReseal, resealSecret, sealedKeyId } from './lib/secrets';
+
+const PAGE_SIZE = 200;
+
+const SECRET_TABLES: { table: string; columns: string[] }[] = [
+  { table: 'apishopee_shops', columns: ['partner_key', 'access_token', 'refresh_token'] },
+  { table: 'apishopee_partner_apps', columns: ['partner_key'] },
+  { table: 'apishopee_shop_app_tokens', columns: ['access_token', 'refresh_token'] },
+];
+
+interface RotationStats {
+  scanned: number;
+  resealed: number;
+  skipped: number;
+  failed: number;
+  /** Values per key id before this run ('plaintext' for unencrypted) */
+  keyIds: Record<string, number>;
+}
+
+async function rotateTable(table: string, columns: string[], dryRun: boolean): Promise<RotationStats> {
+  const keyring = (await getSecretKeyring())!;
+  const stats: RotationStats = { scanned: 0, resealed: 0, skipped: 0, failed: 0, keyIds: {} };
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(['id', ...columns].join(', '))
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`${table}: ${error.message}`);
+    const rows = (data || []) as unknown as Record<string, string | null>[];
+
+    for (const row of rows) {
+      stats.scanned++;
+      const stale = columns.filter(column => needsReseal(row[column], keyring));
+      for (const column of columns) {
+        if (!row[column]) continue;
+        const keyId = sealedKeyId(row[column]) ?? 'plaintext';
+        stats.keyIds[keyId] = (stats.keyIds[keyId] || 0) + 1;
+      }
+      if (stale.length === 0 || dryRun) continue;
+
+      try {
+        const patch: Record<string, string> = {};
+        for (const column of stale) patch[column] = await resealSecret(row[column]!, keyring);
+
+        let query = supabase.from(table).update(patch).eq('id', row.id!);
+        for (const column of stale) query = query.eq(column, row[column]!);
+        const { data: updated, error: updateError } = await query.select('id');
+
+        if (updateError) throw new Error(updateError.message);
+        if (updated?.length) stats.resealed++;
+        else stats.skipped++;
+      } catch (err) {
+        stats.failed++;
+        console.error(`[ROTATE-SECRETS] ${table} ${row.id}: ${(err as Error).message}`);
+      }
+    }
+
+    if (rows.length < PAGE_SIZE) break;
+  }
+
+  return stats;
+}
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const keyring = await getSecretKeyring();
+  if (!keyring) {
+    console.error('[ROTATE-SECRETS] SHOPEE_SECRET_KEYS is not set');
+    process.exit(1);
+  }
+
+  console.log(`[ROTATE-SECRETS] Active key: ${keyring.activeKeyId}${dryRun ? ' (dry run)' : ''}`);
+  let failed = 0;
+  for (const { table, columns } of SECRET_TABLES) {
+    const stats = await rotateTable(table, columns, dryRun);
+    failed += stats.failed;
+    console.log(
+      `[ROTATE-SECRETS] ${table}: ${stats.scanned} rows, resealed ${stats.resealed}, ` +
+      `skipped ${stats.skipped} (changed concurrently), failed ${stats.failed}, ` +
+      `values by key ${JSON.stringify(stats.keyIds)}`
+    );
+  }
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(err => {
+  console.error('[ROTATE-SECRETS] Fatal:', (err as Error).message);
+  process.exit(1);
+});
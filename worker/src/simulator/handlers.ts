@@ -0,0 +1,729 @@
+/**
+ * Endpoint handlers of the Shopee simulator.
+ * Response shapes follow src/lib/docs/api-data.ts (generated types) where the
+ * endpoint is documented there, otherwise the fields our sync code reads.
+ */
+import type {
+  AuthAccessTokenGetResponse,
+  ShopFlashSaleAddShopFlashSaleItemsRequest,
+  ShopFlashSaleAddShopFlashSaleItemsResponseFailedItems,
+  ShopFlashSaleGetItemCriteriaResponse,
+  ShopFlashSaleUpdateShopFlashSaleItemsRequest,
+} from '../../../supabase/functions/_shared/shopee-endpoints.generated';
+import {
+  ACCESS_TOKEN_TTL_SEC,
+  flashSaleType,
+  randomToken,
+  SimFlashSale,
+  SimFlashSaleModel,
+  SimItem,
+  SimPartner,
+  SimShop,
+  SimulatorState,
+} from './state';
+
+// ==================== TYPES ====================
+
+export type SimLevel = 'public' | 'shop';
+
+export interface HandlerContext {
+  state: SimulatorState;
+  partner: SimPartner;
+  /** Set for shop-level endpoints */
+  shop: SimShop;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  nowSec: number;
+}
+
+/** Fields merged into the Shopee envelope ({ request_id, error, message, ... }) */
+export type HandlerResult = Record<string, unknown>;
+
+export interface EndpointHandler {
+  method: 'GET' | 'POST';
+  level: SimLevel;
+  handle(ctx: HandlerContext): HandlerResult;
+}
+
+/** Business error returned in the envelope (HTTP 200 unless httpStatus is set) */
+export class SimulatorError extends Error {
+  readonly error: string;
+  readonly httpStatus: number;
+
+  constructor(error: string, message: string, httpStatus = 200) {
+    super(message);
+    this.error = error;
+    this.httpStatus = httpStatus;
+  }
+}
+
+// ==================== HELPERS ====================
+
+const ITEM_STATUS_CODES: Record<string, number> = {
+  SELLER_DELETE: 0, NORMAL: 1, REVIEWING: 2, BANNED: 3, UNLIST: 8,
+};
+
+function num(value: unknown): number {
+  return Number(value) || 0;
+}
+
+function numberList(value: string | null): number[] {
+  return (value || '').split(',').map(Number).filter(Boolean);
+}
+
+function requireFlashSale(ctx: HandlerContext, flashSaleId: number): SimFlashSale {
+  const flashSale = ctx.shop.flash_sales.get(flashSaleId);
+  if (!flashSale || flashSale.status === 0) {
+    throw new SimulatorError('shop_flash_sale_not_exist', `Flash sale ${flashSaleId} does not exist.`);
+  }
+  return flashSale;
+}
+
+function requireUpcoming(ctx: HandlerContext, flashSale: SimFlashSale): void {
+  if (flashSale.status !== 1 || flashSaleType(flashSale, ctx.nowSec) !== 1) {
+    throw new SimulatorError(
+      'shop_flash_sale_is_not_enabled_or_upcoming',
+      'Flash sale is not enabled or not upcoming.'
+    );
+  }
+}
+
+function priceInfo(original: number, current: number) {
+  return [{ currency: 'VND', original_price: original, current_price: current, inflated_price_of_original_price: original, inflated_price_of_current_price: current }];
+}
+
+function stockInfo(stock: number) {
+  return {
+    summary_info: { total_reserved_stock: 0, total_available_stock: stock },
+    seller_stock: [{ location_id: 'VNZ', stock }],
+  };
+}
+
+function flashSaleSummary(flashSale: SimFlashSale, nowSec: number) {
+  const itemIds = new Set(flashSale.entries.map(e => e.item_id));
+  const enabledItemIds = new Set(flashSale.entries.filter(e => e.status === 1).map(e => e.item_id));
+  return {
+    timeslot_id: flashSale.timeslot_id,
+    flash_sale_id: flashSale.flash_sale_id,
+    status: flashSale.status,
+    start_time: flashSale.start_time,
+    end_time: flashSale.end_time,
+    enabled_item_count: enabledItemIds.size,
+    item_count: itemIds.size,
+    type: flashSaleType(flashSale, nowSec),
+    remindme_count: flashSale.remindme_count,
+    click_count: flashSale.click_count,
+  };
+}
+
+function issueTokens(shop: SimShop, nowSec: number): void {
+  shop.access_token = randomToken('sim-access-');
+  shop.refresh_token = randomToken('sim-refresh-');
+  shop.access_token_expire_at = nowSec + ACCESS_TOKEN_TTL_SEC;
+}
+
+function failed(itemId: number, modelId: number, errMsg: string): ShopFlashSaleAddShopFlashSaleItemsResponseFailedItems {
+  return { item_id: itemId, model_id: modelId, err_code: 1, err_msg: errMsg, unqualified_conditions: [] };
+}
+
+/**
+ * Validate one (item, model) entry for add/update. Returns an error message or null.
+ */
+function validateEntry(item: SimItem, modelId: number, promoPrice: number, stock: number): string | null {
+  const model = item.models.find(m => m.model_id === modelId);
+  if (item.models.length > 0 && !model) return `Model ${modelId} not found.`;
+
+  const originalPrice = model ? model.current_price : item.current_price;
+  const available = model ? model.stock : item.stock;
+  if (promoPrice <= 0) return 'Promotion price is required.';
+  if (promoPrice >= originalPrice) return 'Promotion price must be lower than original price.';
+  if (stock < 1) return 'Campaign stock must be at least 1.';
+  if (stock > available) return 'Campaign stock exceeds available stock.';
+  return null;
+}
+
+// ==================== AUTH / PUBLIC ====================
+
+function tokenResponse(shop: SimShop): Partial<AuthAccessTokenGetResponse> {
+  return {
+    partner_id: shop.partner_id,
+    shop_id: shop.shop_id,
+    access_token: shop.access_token,
+    refresh_token: shop.refresh_token,
+    expire_in: ACCESS_TOKEN_TTL_SEC,
+  };
+}
+
+const authTokenGet: EndpointHandler = {
+  method: 'POST',
+  level: 'public',
+  handle(ctx) {
+    const code = String(ctx.body.code || '');
+    const shopId = ctx.state.auth_codes.get(code);
+    const shop = shopId ? ctx.state.shops.get(shopId) : undefined;
+    if (!shop || (ctx.body.shop_id && num(ctx.body.shop_id) !== shop.shop_id)) {
+      throw new SimulatorError('error_auth', 'Invalid code.', 403);
+    }
+    ctx.state.auth_codes.delete(code);
+    issueTokens(shop, ctx.nowSec);
+    return {
+      shop_id_list: [shop.shop_id],
+      merchant_id_list: shop.merchant_id ? [shop.merchant_id] : [],
+      access_token: shop.access_token,
+      refresh_token: shop.refresh_token,
+      expire_in: ACCESS_TOKEN_TTL_SEC,
+    };
+  },
+};
+
+const authAccessTokenGet: EndpointHandler = {
+  method: 'POST',
+  level: 'public',
+  handle(ctx) {
+    const shop = ctx.state.shops.get(num(ctx.body.shop_id));
+    if (!shop || shop.partner_id !== ctx.partner.partner_id || shop.refresh_token !== ctx.body.refresh_token) {
+      throw new SimulatorError('error_auth', 'Invalid refresh_token.', 403);
+    }
+    issueTokens(shop, ctx.nowSec);
+    return tokenResponse(shop);
+  },
+};
+
+const getShopsByPartner: EndpointHandler = {
+  method: 'GET',
+  level: 'public',
+  handle(ctx) {
+    const shops = Array.from(ctx.state.shops.values()).filter(s => s.partner_id === ctx.partner.partner_id);
+    return {
+      authed_shop_list: shops.map(s => ({
+        region: s.region, shop_id: s.shop_id, auth_time: ctx.nowSec - 86400, expire_time: ctx.nowSec + 365 * 86400,
+      })),
+      sip_affi_shop_list: [],
+      more: false,
+    };
+  },
+};
+
+// ==================== SHOP ====================
+
+const getShopInfo: EndpointHandler = {
+  method: 'GET',
+  level: 'shop',
+  handle(ctx) {
+    return {
+      shop_name: ctx.shop.shop_name,
+      region: ctx.shop.region,
+      status: 'NORMAL',
+      is_cb: false,
+      is_sip: false,
+      is_upgraded_cbsc: false,
+      merchant_id: ctx.shop.merchant_id,
+      auth_time: ctx.nowSec - 86400,
+      expire_time: ctx.nowSec + 365 * 86400,
+    };
+  },
+};
+
+const getProfile: EndpointHandler = {
+  method: 'GET',
+  level: 'shop',
+  handle(ctx) {
+    return {
+      response: { shop_logo: '', description: 'Local Shopee simulator shop', shop_name: ctx.shop.shop_name },
+    };
+  },
+};
+
+// ==================== PRODUCT ====================
+
+const getItemList: EndpointHandler = {
+  method: 'GET',
+  level: 'shop',
+  handle(ctx) {
+    const offset = num(ctx.query.get('offset'));
+    const pageSize = num(ctx.query.get('page_size')) || 10;
+    const statuses = ctx.query.getAll('item_status').flatMap(s => s.split(',')).filter(Boolean);
+    const updateFrom = num(ctx.query.get('update_time_from'));
+    const updateTo = num(ctx.query.get('update_time_to')) || Infinity;
+
+    const items = Array.from(ctx.shop.items.values())
+      .filter(i => statuses.length === 0 || statuses.includes(i.item_status))
+      .filter(i => i.update_time >= updateFrom && i.update_time <= updateTo)
+      .sort((a, b) => a.item_id - b.item_id);
+
+    const page = items.slice(offset, offset + pageSize);
+    const hasNext = offset + pageSize < items.length;
+    return {
+      response: {
+        item: page.map(i => ({ item_id: i.item_id, item_status: i.item_status, update_time: i.update_time })),
+        total_count: items.length,
+        has_next_page: hasNext,
+        next_offset: hasNext ? offset + pageSize : 0,
+      },
+    };
+  },
+};
+
+const getItemBaseInfo: EndpointHandler = {
+  method: 'GET',
+  level: 'shop',
+  handle(ctx) {
+    const itemList = numberList(ctx.query.get('item_id_list'))
+      .map(id => ctx.shop.items.get(id))
+      .filter((item): item is SimItem => !!item)
+      .map(item => {
+        const hasModel = item.models.length > 0;
+        return {
+          item_id: item.item_id,
+          category_id: item.category_id,
+          item_name: item.item_name,
+          item_sku: item.item_sku,
+          item_status: item.item_status,
+          has_model: hasModel,
+          create_time: item.create_time,
+          update_time: item.update_time,
+          image: { image_url_list: [`https://cf.shopee.vn/file/${item.image_id}`], image_id_list: [item.image_id] },
+          ...(hasModel ? {} : {
+            price_info: priceInfo(item.original_price, item.current_price),
+            stock_info_v2: stockInfo(item.stock),
+          }),
+        };
+      });
+    return { response: { item_list: itemList } };
+  },
+};
+
+const getModelList: EndpointHandler = {
+  method: 'GET',
+  level: 'shop',
+  handle(ctx) {
+    const item = ctx.shop.items.get(num(ctx.query.get('item_id')));
+    if (!item) throw new SimulatorError('error_item_not_found', 'Item not found.');
+    return {
+      response: {
+        tier_variation: item.tier_variation,
+        model: item.models.map(m => ({
+          model_id: m.model_id,
+          model_sku: m.model_sku,
+          model_name: m.model_name,
+          tier_index: m.tier_index,
+          price_info: priceInfo(m.original_price, m.current_price),
+          stock_info_v2: stockInfo(m.stock),
+        })),
+      },
+    };
+  },
+};
+
+const updatePrice: EndpointHandler = {
+  method: 'POST',
+  level: 'shop',
+  handle(ctx) {
+    const item = ctx.shop.items.get(num(ctx.body.item_id));
+    if (!item) throw new SimulatorError('error_item_not_found', 'Item not found.');
+
+    const priceList = (ctx.body.price_list as Array<{ model_id?: number; original_price: number }>) || [];
+    const successList: Array<{ model_id: number; original_price: number }> = [];
+    const failureList: Array<{ model_id: number; failed_reason: string }> = [];
+
+    for (const entry of priceList) {
+      const modelId = num(entry.model_id);
+      const model = item.models.find(m => m.model_id === modelId);
+      if (item.models.length > 0 && !model) {
+        failureList.push({ model_id: modelId, failed_reason: 'Model not found.' });
+        continue;
+      }
+      if (!(entry.original_price > 0)) {
+        failureList.push({ model_id: modelId, failed_reason: 'Price must be greater than 0.' });
+        continue;
+      }
+      const target = model ?? item;
+      target.original_price = entry.original_price;
+      target.current_price = entry.original_price;
+      successList.push({ model_id: modelId, original_price: entry.original_price });
+    }
+
+    item.update_time = ctx.nowSec;
+    return { response: { success_list: successList, failure_list: failureList } };
+  },
+};
+
+const updateStock: EndpointHandler = {
+  method: 'POST',
+  level: 'shop',
+  handle(ctx) {
+    const item = ctx.shop.items.get(num(ctx.body.item_id));
+    if (!item) throw new SimulatorError('error_item_not_found', 'Item not found.');
+
+    const stockList = (ctx.body.stock_list as Array<{ model_id?: number; seller_stock: Array<{ stock: number }> }>) || [];
+    const successList: Array<{ model_id: number; seller_stock: Array<{ stock: number }> }> = [];
+    const failureList: Array<{ model_id: number; failed_reason: string }> = [];
+
+    for (const entry of stockList) {
+      const modelId = num(entry.model_id);
+      const model = item.models.find(m => m.model_id === modelId);
+      const stock = entry.seller_stock?.[0]?.stock;
+      if (item.models.length > 0 && !model) {
+        failureList.push({ model_id: modelId, failed_reason: 'Model not found.' });
+        continue;
+      }
+      if (typeof stock !== 'number' || stock < 0) {
+        failureList.push({ model_id: modelId, failed_reason: 'Stock must be a non-negative number.' });
+        continue;
+      }
+      (model ?? item).stock = stock;
+      successList.push({ model_id: modelId, seller_stock: [{ stock }] });
+    }
+
+    item.update_time = ctx.nowSec;
+    return { response: { success_list: successList, failure_list: failureList } };
+  },
+};
+
+const unlistItem: EndpointHandler = {
+  method: 'POST',
+  level: 'shop',
+  handle(ctx) {
+    const entries = (ctx.body.item_list as Array<{ item_id: number; unlist: boolean }>) || [];
+    const successList: Array<{ item_id: number; unlist: boolean }> = [];
+    const failureList: Array<{ item_id: number; failed_reason: string }> = [];
+
+    for (const entry of entries) {
+      const item = ctx.shop.items.get(num(entry.item_id));
+      if (!item || item.item_status === 'SELLER_DELETE' || item.item_status === 'BANNED') {
+        failureList.push({ item_id: num(entry.item_id), failed_reason: 'Item cannot be updated.' });
+        continue;
+      }
+      item.item_status = entry.unlist ? 'UNLIST' : 'NORMAL';
+      item.update_time = ctx.nowSec;
+      successList.push({ item_id: item.item_id, unlist: !!entry.unlist });
+    }
+    return { response: { success_list: successList, failure_list: failureList } };
+  },
+};
+
+// ==================== FLASH SALE ====================
+
+const getTimeSlotId: EndpointHandler = {
+  method: 'GET',
+  level: 'shop',
+  handle(ctx) {
+    const startTime = num(ctx.query.get('start_time'));
+    const endTime = num(ctx.query.get('end_time'));
+    if (!startTime || !endTime || endTime <= startTime || startTime < ctx.nowSec - 60) {
+      throw new SimulatorError('shop_flash_sale_param_error', 'start_time must be >= now and < end_time.');
+    }
+    const slots = ctx.shop.time_slots
+      .filter(s => s.start_time >= startTime && s.start_time <= endTime && s.start_time > ctx.nowSec)
+      .map(s => ({ ...s }));
+    return { response: slots };
+  },
+};
+
+const createShopFlashSale: EndpointHandler = {
+  method: 'POST',
+  level: 'shop',
+  handle(ctx) {
+    const slot = ctx.shop.time_slots.find(s => s.timeslot_id === num(ctx.body.timeslot_id));
+    if (!slot || slot.start_time <= ctx.nowSec) {
+      throw new SimulatorError('shop_flash_sale_param_error', 'Invalid timeslot_id.');
+    }
+    const taken = Array.from(ctx.shop.flash_sales.values())
+      .some(fs => fs.timeslot_id === slot.timeslot_id && fs.status !== 0);
+    if (taken) {
+      throw new SimulatorError('shop_flash_sale_already_exist', 'This time slot already has a flash sale.');
+    }
+
+    const flashSale: SimFlashSale = {
+      flash_sale_id: ctx.state.nextId(),
+      timeslot_id: slot.timeslot_id,
+      status: 1,
+      start_time: slot.start_time,
+      end_time: slot.end_time,
+      remindme_count: 0,
+      click_count: 0,
+      entries: [],
+    };
+    ctx.shop.flash_sales.set(flashSale.flash_sale_id, flashSale);
+    return { response: { timeslot_id: slot.timeslot_id, flash_sale_id: flashSale.flash_sale_id, status: flashSale.status } };
+  },
+};
+
+const getShopFlashSale: EndpointHandler = {
+  method: 'GET',
+  level: 'shop',
+  handle(ctx) {
+    const flashSale = requireFlashSale(ctx, num(ctx.query.get('flash_sale_id')));
+    return { response: flashSaleSummary(flashSale, ctx.nowSec) };
+  },
+};
+
+const getShopFlashSaleList: EndpointHandler = {
+  method: 'GET',
+  level: 'shop',
+  handle(ctx) {
+    const type = num(ctx.query.get('type'));
+    const offset = num(ctx.query.get('offset'));
+    const limit = num(ctx.query.get('limit')) || 100;
+    const startTime = num(ctx.query.get('start_time'));
+    const endTime = num(ctx.query.get('end_time')) || Infinity;
+
+    const list = Array.from(ctx.shop.flash_sales.values())
+      .filter(fs => fs.status !== 0)
+      .map(fs => flashSaleSummary(fs, ctx.nowSec))
+      .filter(fs => type === 0 || fs.type === type)
+      .filter(fs => fs.start_time >= startTime && fs.start_time <= endTime)
+      .sort((a, b) => b.start_time - a.start_time);
+
+    return { response: { total_count: list.length, flash_sale_list: list.slice(offset, offset + limit) } };
+  },
+};
+
+const getShopFlashSaleItems: EndpointHandler = {
+  method: 'GET',
+  level: 'shop',
+  handle(ctx) {
+    const flashSale = requireFlashSale(ctx, num(ctx.query.get('flash_sale_id')));
+    const offset = num(ctx.query.get('offset'));
+    const limit = num(ctx.query.get('limit')) || 100;
+
+    const itemIds = Array.from(new Set(flashSale.entries.filter(e => e.status !== 2).map(e => e.item_id)));
+    const pageIds = itemIds.slice(offset, offset + limit);
+    const itemInfo: Array<Record<string, unknown>> = [];
+    const models: Array<Record<string, unknown>> = [];
+
+    for (const itemId of pageIds) {
+      const item = ctx.shop.items.get(itemId);
+      if (!item) continue;
+      const entries = flashSale.entries.filter(e => e.item_id === itemId && e.status !== 2);
+      const base = {
+        item_id: item.item_id,
+        item_name: item.item_name,
+        status: ITEM_STATUS_CODES[item.item_status] ?? 1,
+        image: item.image_id,
+      };
+
+      if (item.models.length === 0) {
+        const entry = entries[0];
+        itemInfo.push({
+          ...base,
+          item_status: entry.status,
+          original_price: item.current_price,
+          input_promotion_price: entry.input_promo_price,
+          promotion_price_with_tax: entry.input_promo_price,
+          purchase_limit: entry.purchase_limit,
+          campaign_stock: entry.campaign_stock,
+          stock: item.stock,
+          reject_reason: entry.reject_reason,
+        });
+        continue;
+      }
+
+      itemInfo.push({ ...base, purchase_limit: entries[0]?.purchase_limit ?? 0 });
+      for (const entry of entries) {
+        const model = item.models.find(m => m.model_id === entry.model_id);
+        models.push({
+          item_id: item.item_id,
+          model_id: entry.model_id,
+          model_name: model?.model_name || '',
+          status: entry.status,
+          original_price: model?.current_price || 0,
+          input_promotion_price: entry.input_promo_price,
+          promotion_price_with_tax: entry.input_promo_price,
+          purchase_limit: entry.purchase_limit,
+          campaign_stock: entry.campaign_stock,
+          stock: model?.stock || 0,
+          reject_reason: entry.reject_reason,
+        });
+      }
+    }
+
+    return { response: { total_count: itemIds.length, item_info: itemInfo, models } };
+  },
+};
+
+const addShopFlashSaleItems: EndpointHandler = {
+  method: 'POST',
+  level: 'shop',
+  handle(ctx) {
+    const body = ctx.body as unknown as ShopFlashSaleAddShopFlashSaleItemsRequest;
+    const flashSale = requireFlashSale(ctx, num(body.flash_sale_id));
+    requireUpcoming(ctx, flashSale);
+
+    const failedItems: ShopFlashSaleAddShopFlashSaleItemsResponseFailedItems[] = [];
+    for (const input of body.items || []) {
+      const item = ctx.shop.items.get(num(input.item_id));
+      if (!item) {
+        failedItems.push(failed(input.item_id, 0, 'Item not found.'));
+        continue;
+      }
+      const rejectReason = ctx.shop.rejected_items.get(item.item_id);
+      if (rejectReason) {
+        failedItems.push(failed(item.item_id, 0, rejectReason));
+        continue;
+      }
+
+      const requested = input.models?.length
+        ? input.models.map(m => ({ modelId: m.model_id, price: m.input_promo_price, stock: m.stock }))
+        : [{ modelId: 0, price: num(input.item_input_promo_price), stock: num(input.item_stock) }];
+
+      for (const { modelId, price, stock } of requested) {
+        const error = validateEntry(item, modelId, price, stock);
+        if (error) {
+          failedItems.push(failed(item.item_id, modelId, error));
+          continue;
+        }
+        const entry: SimFlashSaleModel = {
+          item_id: item.item_id,
+          model_id: modelId,
+          input_promo_price: price,
+          campaign_stock: stock,
+          purchase_limit: num(input.purchase_limit),
+          status: 1,
+          reject_reason: '',
+        };
+        flashSale.entries = flashSale.entries
+          .filter(e => !(e.item_id === entry.item_id && e.model_id === entry.model_id))
+          .concat(entry);
+      }
+    }
+
+    return { response: { failed_items: failedItems } };
+  },
+};
+
+const updateShopFlashSaleItems: EndpointHandler = {
+  method: 'POST',
+  level: 'shop',
+  handle(ctx) {
+    const body = ctx.body as unknown as ShopFlashSaleUpdateShopFlashSaleItemsRequest;
+    const flashSale = requireFlashSale(ctx, num(body.flash_sale_id));
+    requireUpcoming(ctx, flashSale);
+
+    const failedItems: ShopFlashSaleAddShopFlashSaleItemsResponseFailedItems[] = [];
+    for (const input of body.items || []) {
+      const item = ctx.shop.items.get(num(input.item_id));
+      const updates = input.models?.length
+        ? input.models.map(m => ({ modelId: m.model_id, status: m.status, price: m.input_promo_price, stock: m.stock }))
+        : [{ modelId: 0, status: input.item_status, price: input.item_input_promo_price, stock: input.item_stock }];
+
+      for (const update of updates) {
+        const entry = flashSale.entries.find(e => e.item_id === input.item_id && e.model_id === update.modelId);
+        if (!item || !entry) {
+          failedItems.push(failed(input.item_id, update.modelId, 'Item is not in this flash sale.'));
+          continue;
+        }
+        const price = update.price ?? entry.input_promo_price;
+        const stock = update.stock ?? entry.campaign_stock;
+        const error = validateEntry(item, update.modelId, price, stock);
+        if (error) {
+          failedItems.push(failed(input.item_id, update.modelId, error));
+          continue;
+        }
+        entry.input_promo_price = price;
+        entry.campaign_stock = stock;
+        if (update.status !== undefined) entry.status = update.status;
+        if (input.purchase_limit !== undefined) entry.purchase_limit = input.purchase_limit;
+      }
+    }
+
+    return { response: { failed_items: failedItems } };
+  },
+};
+
+const deleteShopFlashSaleItems: EndpointHandler = {
+  method: 'POST',
+  level: 'shop',
+  handle(ctx) {
+    const flashSale = requireFlashSale(ctx, num(ctx.body.flash_sale_id));
+    requireUpcoming(ctx, flashSale);
+    const itemIds = new Set((ctx.body.item_ids as number[]) || []);
+    flashSale.entries = flashSale.entries.filter(e => !itemIds.has(e.item_id));
+    return { response: { failed_items: [] } };
+  },
+};
+
+const updateShopFlashSale: EndpointHandler = {
+  method: 'POST',
+  level: 'shop',
+  handle(ctx) {
+    const flashSale = requireFlashSale(ctx, num(ctx.body.flash_sale_id));
+    const status = num(ctx.body.status);
+    if (status !== 1 && status !== 2) {
+      throw new SimulatorError('shop_flash_sale_param_error', 'status must be 1 (enable) or 2 (disable).');
+    }
+    if (flashSale.status === 3) {
+      throw new SimulatorError('shop_flash_sale_param_error', 'System rejected flash sale cannot be edited.');
+    }
+    flashSale.status = status;
+    return { response: { timeslot_id: flashSale.timeslot_id, flash_sale_id: flashSale.flash_sale_id, status } };
+  },
+};
+
+const deleteShopFlashSale: EndpointHandler = {
+  method: 'POST',
+  level: 'shop',
+  handle(ctx) {
+    const flashSale = requireFlashSale(ctx, num(ctx.body.flash_sale_id));
+    if (flashSaleType(flashSale, ctx.nowSec) !== 1) {
+      throw new SimulatorError('shop_flash_sale_is_not_enabled_or_upcoming', 'Only upcoming flash sales can be deleted.');
+    }
+    flashSale.status = 0;
+    return { response: { timeslot_id: flashSale.timeslot_id, flash_sale_id: flashSale.flash_sale_id, status: 0 } };
+  },
+};
+
+const getItemCriteria: EndpointHandler = {
+  method: 'GET',
+  level: 'shop',
+  handle() {
+    const response: ShopFlashSaleGetItemCriteriaResponse = {
+      criteria: [{
+        criteria_id: 1,
+        min_product_rating: 0,
+        min_likes: 0,
+        must_not_pre_order: true,
+        min_order_total: 0,
+        max_days_to_ship: 3,
+        min_repetition_day: 0,
+        min_promo_stock: 1,
+        max_promo_stock: 10000,
+        min_discount: 5,
+        max_discount: 90,
+        min_discount_price: 1000,
+        max_discount_price: 100000000,
+        need_lowest_price: false,
+      }],
+      pair_ids: [{ criteria_id: 1, category_list: [{ category_id: 0, name: 'All', parent_id: 0 }] }],
+      overlap_block_category_ids: [],
+    };
+    return { response };
+  },
+};
+
+// ==================== REGISTRY ====================
+
+export const ENDPOINT_HANDLERS: Record<string, EndpointHandler> = {
+  '/api/v2/auth/token/get': authTokenGet,
+  '/api/v2/auth/access_token/get': authAccessTokenGet,
+  '/api/v2/public/get_shops_by_partner': getShopsByPartner,
+  '/api/v2/shop/get_shop_info': getShopInfo,
+  '/api/v2/shop/get_profile': getProfile,
+  '/api/v2/product/get_item_list': getItemList,
+  '/api/v2/product/get_item_base_info': getItemBaseInfo,
+  '/api/v2/product/get_model_list': getModelList,
+  '/api/v2/product/update_price': updatePrice,
+  '/api/v2/product/update_stock': updateStock,
+  '/api/v2/product/unlist_item': unlistItem,
+  '/api/v2/shop_flash_sale/get_time_slot_id': getTimeSlotId,
+  '/api/v2/shop_flash_sale/create_shop_flash_sale': createShopFlashSale,
+  '/api/v2/shop_flash_sale/get_shop_flash_sale': getShopFlashSale,
+  '/api/v2/shop_flash_sale/get_shop_flash_sale_list': getShopFlashSaleList,
+  '/api/v2/shop_flash_sale/get_shop_flash_sale_items': getShopFlashSaleItems,
+  '/api/v2/shop_flash_sale/add_shop_flash_sale_items': addShopFlashSaleItems,
+  '/api/v2/shop_flash_sale/update_shop_flash_sale_items': updateShopFlashSaleItems,
+  '/api/v2/shop_flash_sale/delete_shop_flash_sale_items': deleteShopFlashSaleItems,
+  '/api/v2/shop_flash_sale/update_shop_flash_sale': updateShopFlashSale,
+  '/api/v2/shop_flash_sale/delete_shop_flash_sale': deleteShopFlashSale,
+  '/api/v2/shop_flash_sale/get_item_criteria': getItemCriteria,
+};
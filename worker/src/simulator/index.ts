@@ -0,0 +1,45 @@
+/**
+ * Run the local Shopee simulator.
+ * Run: npm run simulator  (SIMULATOR_PORT, default 4100)
+ *
+ * Then start the worker / edge functions with SHOPEE_BASE_URL=http://127.0.0.1:4100
+ * and the printed partner + shop credentials stored in apishopee_shops.
+ */
+import { startShopeeSimulator } from './server';
+
+export { startShopeeSimulator } from './server';
+export type { ShopeeSimulator, ShopeeSimulatorOptions, SimulatorFault } from './server';
+export { defaultSeed } from './state';
+export type { SimulatorSeed } from './state';
+
+async function main() {
+  const simulator = await startShopeeSimulator({
+    port: Number(process.env.SIMULATOR_PORT) || 4100,
+    host: process.env.SIMULATOR_HOST || '127.0.0.1',
+    verbose: true,
+  });
+
+  console.log(`[SIMULATOR] Shopee simulator listening on ${simulator.url}`);
+  for (const partner of simulator.state.partners.values()) {
+    console.log(`[SIMULATOR] partner_id=${partner.partner_id} partner_key=${partner.partner_key}`);
+  }
+  for (const shop of simulator.state.shops.values()) {
+    console.log(
+      `[SIMULATOR] shop_id=${shop.shop_id} access_token=${shop.access_token} refresh_token=${shop.refresh_token}`
+    );
+  }
+  console.log(`[SIMULATOR] Control API: ${simulator.url}/__simulator/{state,requests,faults,expire-token,reject-items,auth-code,reset}`);
+
+  const shutdown = () => {
+    simulator.close().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error('[SIMULATOR] Failed to start:', err);
+    process.exit(1);
+  });
+}
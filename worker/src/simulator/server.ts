@@ -0,0 +1,308 @@
+/**
+ * Local Shopee Partner API simulator (HTTP).
+ *
+ * - Validates partner_id / timestamp / sign (HMAC-SHA256) and shop access tokens
+ *   exactly like the real API, so a bad signature fails here too
+ * - Stateful shops, items, models, time slots and flash sales (see state.ts)
+ * - Fault injection: queued Shopee errors (error_rate_limit, 429, ...), expired
+ *   access tokens and per-item rejections from add_shop_flash_sale_items
+ * - Control API under /__simulator/* for tests and scripts in another process
+ *
+ * Point config.shopeeBaseUrl / SHOPEE_BASE_URL at server.url to use it.
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { ENDPOINT_HANDLERS, HandlerResult, SimulatorError } from './handlers';
+import { createSimulatorState, defaultSeed, SimShop, SimulatorSeed, SimulatorState } from './state';
+
+// ==================== TYPES ====================
+
+export interface SimulatorFault {
+  /** Only calls to this API path (default: every path) */
+  path?: string;
+  /** Only calls for this shop (default: every shop) */
+  shopId?: number;
+  error: string;
+  message?: string;
+  /** HTTP status of the faulty response (default 200; use 429 for HTTP-level throttling) */
+  httpStatus?: number;
+  /** How many matching calls fail before the fault is used up (default 1) */
+  times?: number;
+}
+
+export interface SimulatorRequestLog {
+  method: string;
+  path: string;
+  shopId?: number;
+  error: string;
+  httpStatus: number;
+}
+
+export interface ShopeeSimulatorOptions {
+  /** 0 = random free port */
+  port?: number;
+  host?: string;
+  seed?: SimulatorSeed;
+  /** Clock in ms (default Date.now), lets tests move time forward */
+  now?: () => number;
+  /** Allowed clock skew of the signed timestamp, seconds (Shopee: 5 minutes) */
+  timestampToleranceSec?: number;
+  /** Log every request to stdout */
+  verbose?: boolean;
+}
+
+export interface ShopeeSimulator {
+  readonly url: string;
+  readonly state: SimulatorState;
+  readonly requests: SimulatorRequestLog[];
+  injectFault(fault: SimulatorFault): void;
+  /** Next shop-level call with the current token gets invalid_access_token */
+  expireAccessToken(shopId: number): void;
+  /** add_shop_flash_sale_items returns these items in failed_items */
+  rejectItems(shopId: number, itemIds: number[], reason?: string): void;
+  /** Auth code for /api/v2/auth/token/get (what the authorize redirect would carry) */
+  createAuthCode(shopId: number): string;
+  reset(seed?: SimulatorSeed): void;
+  close(): Promise<void>;
+}
+
+// ==================== HELPERS ====================
+
+const CONTROL_PREFIX = '/__simulator';
+
+function sign(partnerKey: string, baseString: string): string {
+  return createHmac('sha256', partnerKey).update(baseString).digest('hex');
+}
+
+function signatureMatches(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, payload: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+function requestId(): string {
+  return Math.random().toString(16).slice(2, 18);
+}
+
+function shopSnapshot(shop: SimShop) {
+  return {
+    shop_id: shop.shop_id,
+    partner_id: shop.partner_id,
+    access_token: shop.access_token,
+    refresh_token: shop.refresh_token,
+    access_token_expire_at: shop.access_token_expire_at,
+    items: Array.from(shop.items.values()),
+    time_slots: shop.time_slots,
+    flash_sales: Array.from(shop.flash_sales.values()),
+    rejected_items: Object.fromEntries(shop.rejected_items),
+  };
+}
+
+// ==================== SERVER ====================
+
+export async function startShopeeSimulator(options: ShopeeSimulatorOptions = {}): Promise<ShopeeSimulator> {
+  const now = options.now || Date.now;
+  const nowSec = () => Math.floor(now() / 1000);
+  const tolerance = options.timestampToleranceSec ?? 300;
+
+  let state = createSimulatorState(options.seed || defaultSeed(nowSec()), nowSec());
+  const faults: SimulatorFault[] = [];
+  const requests: SimulatorRequestLog[] = [];
+  let baseUrl = '';
+
+  const takeFault = (path: string, shopId?: number): SimulatorFault | undefined => {
+    const index = faults.findIndex(f =>
+      (!f.path || f.path === path) && (!f.shopId || f.shopId === shopId)
+    );
+    if (index < 0) return undefined;
+    const fault = faults[index];
+    const remaining = (fault.times ?? 1) - 1;
+    if (remaining > 0) faults[index] = { ...fault, times: remaining };
+    else faults.splice(index, 1);
+    return fault;
+  };
+
+  const simulator: ShopeeSimulator = {
+    get url() { return baseUrl; },
+    get state() { return state; },
+    requests,
+    injectFault(fault) {
+      faults.push(fault);
+    },
+    expireAccessToken(shopId) {
+      const shop = state.shops.get(shopId);
+      if (!shop) throw new Error(`Unknown simulator shop ${shopId}`);
+      shop.access_token_expire_at = 0;
+    },
+    rejectItems(shopId, itemIds, reason = 'Item does not meet the flash sale criteria.') {
+      const shop = state.shops.get(shopId);
+      if (!shop) throw new Error(`Unknown simulator shop ${shopId}`);
+      for (const itemId of itemIds) shop.rejected_items.set(itemId, reason);
+    },
+    createAuthCode(shopId) {
+      const code = `sim-code-${state.nextId()}`;
+      state.auth_codes.set(code, shopId);
+      return code;
+    },
+    reset(seed) {
+      state = createSimulatorState(seed || options.seed || defaultSeed(nowSec()), nowSec());
+      faults.length = 0;
+      requests.length = 0;
+    },
+    close() {
+      return new Promise((resolve, reject) => server.close(err => (err ? reject(err) : resolve())));
+    },
+  };
+
+  // ==================== CONTROL API ====================
+
+  const handleControl = async (req: http.IncomingMessage, res: http.ServerResponse, path: string) => {
+    const raw = req.method === 'POST' ? await readBody(req) : '';
+    const body = raw ? JSON.parse(raw) : {};
+
+    switch (`${req.method} ${path.slice(CONTROL_PREFIX.length)}`) {
+      case 'GET /state':
+        return sendJson(res, 200, { shops: Array.from(state.shops.values()).map(shopSnapshot), faults });
+      case 'GET /requests':
+        return sendJson(res, 200, { requests });
+      case 'POST /faults':
+        simulator.injectFault(body as SimulatorFault);
+        return sendJson(res, 200, { ok: true, pending: faults.length });
+      case 'POST /expire-token':
+        simulator.expireAccessToken(Number(body.shop_id));
+        return sendJson(res, 200, { ok: true });
+      case 'POST /reject-items':
+        simulator.rejectItems(Number(body.shop_id), body.item_ids || [], body.reason);
+        return sendJson(res, 200, { ok: true });
+      case 'POST /auth-code':
+        return sendJson(res, 200, { code: simulator.createAuthCode(Number(body.shop_id)) });
+      case 'POST /reset':
+        simulator.reset();
+        return sendJson(res, 200, { ok: true });
+      default:
+        return sendJson(res, 404, { error: 'not_found' });
+    }
+  };
+
+  // ==================== SHOPEE API ====================
+
+  const handleApi = async (req: http.IncomingMessage, url: URL): Promise<{ status: number; payload: Record<string, unknown> }> => {
+    const path = url.pathname;
+    const query = url.searchParams;
+    const envelope = { request_id: requestId(), error: '', message: '' };
+    const fail = (error: string, message: string, status = 200) => ({ status, payload: { ...envelope, error, message } });
+
+    const handler = ENDPOINT_HANDLERS[path];
+    if (!handler) return fail('error_not_found', `Unknown API path ${path}.`, 404);
+    if (req.method !== handler.method) return fail('error_param', `Use ${handler.method} for ${path}.`, 405);
+
+    // Common params + signature (same base string as the real API)
+    const partnerId = Number(query.get('partner_id'));
+    const timestamp = Number(query.get('timestamp'));
+    const signParam = query.get('sign') || '';
+    const partner = state.partners.get(partnerId);
+    if (!partner) return fail('error_auth', 'Invalid partner_id.', 403);
+    if (!timestamp || Math.abs(nowSec() - timestamp) > tolerance) {
+      return fail('error_param', 'Invalid timestamp.', 403);
+    }
+
+    let shop: SimShop | undefined;
+    let baseString = `${partnerId}${path}${timestamp}`;
+    if (handler.level === 'shop') {
+      const shopId = Number(query.get('shop_id'));
+      const accessToken = query.get('access_token') || '';
+      shop = state.shops.get(shopId);
+      if (!shop || shop.partner_id !== partnerId) return fail('error_param', 'Invalid shop_id.', 403);
+      baseString = `${partnerId}${path}${timestamp}${accessToken}${shopId}`;
+      if (!signatureMatches(sign(partner.partner_key, baseString), signParam)) {
+        return fail('error_sign', 'Wrong sign.', 403);
+      }
+      if (accessToken !== shop.access_token || shop.access_token_expire_at <= nowSec()) {
+        return fail('invalid_access_token', 'Invalid access_token.', 403);
+      }
+    } else if (!signatureMatches(sign(partner.partner_key, baseString), signParam)) {
+      return fail('error_sign', 'Wrong sign.', 403);
+    }
+
+    const fault = takeFault(path, shop?.shop_id);
+    if (fault) {
+      return fail(fault.error, fault.message || `Simulated ${fault.error}.`, fault.httpStatus ?? 200);
+    }
+
+    const raw = req.method === 'POST' ? await readBody(req) : '';
+    let body: Record<string, unknown> = {};
+    try {
+      body = raw ? JSON.parse(raw) : {};
+    } catch {
+      return fail('error_param', 'Invalid JSON body.', 400);
+    }
+
+    try {
+      const result: HandlerResult = handler.handle({
+        state, partner, shop: shop as SimShop, query, body, nowSec: nowSec(),
+      });
+      return { status: 200, payload: { ...envelope, ...result } };
+    } catch (err) {
+      if (err instanceof SimulatorError) return fail(err.error, err.message, err.httpStatus);
+      throw err;
+    }
+  };
+
+  // Authorize page: redirect straight back with a code for the partner's first shop
+  const handleAuthPartner = (res: http.ServerResponse, url: URL) => {
+    const partnerId = Number(url.searchParams.get('partner_id'));
+    const shop = Array.from(state.shops.values()).find(s => s.partner_id === partnerId);
+    const redirect = url.searchParams.get('redirect');
+    if (!shop || !redirect) return sendJson(res, 400, { error: 'error_param', message: 'Unknown partner or missing redirect.' });
+
+    const target = new URL(redirect);
+    target.searchParams.set('code', simulator.createAuthCode(shop.shop_id));
+    target.searchParams.set('shop_id', String(shop.shop_id));
+    res.writeHead(302, { Location: target.toString() });
+    res.end();
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    try {
+      if (url.pathname.startsWith(CONTROL_PREFIX)) return await handleControl(req, res, url.pathname);
+      if (url.pathname === '/api/v2/shop/auth_partner') return handleAuthPartner(res, url);
+
+      const { status, payload } = await handleApi(req, url);
+      requests.push({
+        method: req.method || 'GET',
+        path: url.pathname,
+        shopId: Number(url.searchParams.get('shop_id')) || undefined,
+        error: String(payload.error || ''),
+        httpStatus: status,
+      });
+      if (options.verbose) {
+        console.log(`[SIMULATOR] ${req.method} ${url.pathname} -> ${status} ${payload.error || 'ok'}`);
+      }
+      sendJson(res, status, payload);
+    } catch (err) {
+      console.error('[SIMULATOR] Handler crashed:', (err as Error).message);
+      sendJson(res, 500, { error: 'error_server', message: (err as Error).message });
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, options.host || '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  baseUrl = `http://${options.host || '127.0.0.1'}:${port}`;
+  return simulator;
+}
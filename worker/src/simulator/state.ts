@@ -0,0 +1,230 @@
+/**
+ * In-memory state of the local Shopee simulator: partner apps, shops (with tokens),
+ * items/models, flash sale time slots and flash sales.
+ * Everything is plain data so tests can seed it and assert on it directly.
+ */
+
+// ==================== TYPES ====================
+
+export interface SimPartner {
+  partner_id: number;
+  partner_key: string;
+}
+
+export interface SimModel {
+  model_id: number;
+  model_name: string;
+  model_sku: string;
+  original_price: number;
+  current_price: number;
+  stock: number;
+  /** Index per tier_variation, e.g. [0, 1] */
+  tier_index: number[];
+}
+
+export interface SimItem {
+  item_id: number;
+  item_name: string;
+  item_sku: string;
+  /** NORMAL | UNLIST | BANNED | REVIEWING | SELLER_DELETE */
+  item_status: string;
+  category_id: number;
+  image_id: string;
+  /** Used when the item has no models */
+  original_price: number;
+  current_price: number;
+  stock: number;
+  tier_variation: Array<{ name: string; option_list: Array<{ option: string }> }>;
+  models: SimModel[];
+  create_time: number;
+  update_time: number;
+}
+
+export interface SimTimeSlot {
+  timeslot_id: number;
+  start_time: number;
+  end_time: number;
+}
+
+export interface SimFlashSaleModel {
+  item_id: number;
+  /** 0 for items without models */
+  model_id: number;
+  input_promo_price: number;
+  campaign_stock: number;
+  purchase_limit: number;
+  /** 0 = disable, 1 = enable, 2 = delete, 4 = system_rejected */
+  status: number;
+  reject_reason: string;
+}
+
+export interface SimFlashSale {
+  flash_sale_id: number;
+  timeslot_id: number;
+  /** 0 = deleted, 1 = enabled, 2 = disabled, 3 = system_rejected */
+  status: number;
+  start_time: number;
+  end_time: number;
+  remindme_count: number;
+  click_count: number;
+  entries: SimFlashSaleModel[];
+}
+
+export interface SimShop {
+  shop_id: number;
+  shop_name: string;
+  partner_id: number;
+  region: string;
+  merchant_id: number | null;
+  access_token: string;
+  refresh_token: string;
+  /** Unix seconds; 0 = already expired */
+  access_token_expire_at: number;
+  items: Map<number, SimItem>;
+  time_slots: SimTimeSlot[];
+  flash_sales: Map<number, SimFlashSale>;
+  /** item_id -> reason; add_shop_flash_sale_items returns these in failed_items */
+  rejected_items: Map<number, string>;
+}
+
+export interface SimulatorState {
+  partners: Map<number, SimPartner>;
+  shops: Map<number, SimShop>;
+  /** One-time auth codes from the authorize redirect -> shop_id */
+  auth_codes: Map<string, number>;
+  nextId(): number;
+}
+
+export interface SimulatorSeed {
+  partners: SimPartner[];
+  shops: Array<Omit<SimShop, 'items' | 'time_slots' | 'flash_sales' | 'rejected_items'> & {
+    items?: SimItem[];
+    time_slots?: SimTimeSlot[];
+  }>;
+}
+
+// ==================== CONSTANTS ====================
+
+export const ACCESS_TOKEN_TTL_SEC = 4 * 60 * 60;
+
+/** Daily flash sale windows (local hours), roughly what Shopee VN offers */
+const SLOT_HOURS: Array<[number, number]> = [[0, 9], [9, 12], [12, 15], [15, 18], [18, 21], [21, 24]];
+
+// ==================== HELPERS ====================
+
+export function randomToken(prefix: string): string {
+  return `${prefix}${Math.random().toString(16).slice(2)}${Date.now().toString(16)}`;
+}
+
+/** Time slots for the next `days` days, starting at today's midnight */
+export function buildTimeSlots(nowSec: number, days: number, firstId: number): SimTimeSlot[] {
+  const midnight = new Date(nowSec * 1000);
+  midnight.setHours(0, 0, 0, 0);
+  const base = Math.floor(midnight.getTime() / 1000);
+
+  const slots: SimTimeSlot[] = [];
+  for (let day = 0; day < days; day++) {
+    for (const [from, to] of SLOT_HOURS) {
+      slots.push({
+        timeslot_id: firstId + slots.length,
+        start_time: base + day * 86400 + from * 3600,
+        end_time: base + day * 86400 + to * 3600 - 1,
+      });
+    }
+  }
+  return slots;
+}
+
+function sampleItems(shopId: number, nowSec: number): SimItem[] {
+  const base = shopId * 1000;
+  const variant = (itemId: number, index: number, name: string, price: number): SimModel => ({
+    model_id: itemId * 10 + index + 1,
+    model_name: name,
+    model_sku: `SKU-${itemId}-${index + 1}`,
+    original_price: price,
+    current_price: price,
+    stock: 50,
+    tier_index: [index],
+  });
+
+  const plain = (offset: number, name: string, price: number, stock: number): SimItem => ({
+    item_id: base + offset,
+    item_name: name,
+    item_sku: `SKU-${base + offset}`,
+    item_status: 'NORMAL',
+    category_id: 100001,
+    image_id: `sim-image-${base + offset}`,
+    original_price: price,
+    current_price: price,
+    stock,
+    tier_variation: [],
+    models: [],
+    create_time: nowSec - 30 * 86400,
+    update_time: nowSec - 86400,
+  });
+
+  const withModels = plain(3, 'Áo thun (simulator)', 0, 0);
+  withModels.tier_variation = [{ name: 'Size', option_list: [{ option: 'M' }, { option: 'L' }] }];
+  withModels.models = [variant(withModels.item_id, 0, 'M', 150000), variant(withModels.item_id, 1, 'L', 160000)];
+
+  return [
+    plain(1, 'Bình giữ nhiệt (simulator)', 250000, 100),
+    plain(2, 'Ốp lưng (simulator)', 90000, 0),
+    withModels,
+  ];
+}
+
+/** Shop 1001 / partner 2001 with a few items and a week of time slots */
+export function defaultSeed(nowSec: number): SimulatorSeed {
+  return {
+    partners: [{ partner_id: 2001, partner_key: 'sim-partner-key' }],
+    shops: [
+      {
+        shop_id: 1001,
+        shop_name: 'Simulator Shop',
+        partner_id: 2001,
+        region: 'VN',
+        merchant_id: null,
+        access_token: 'sim-access-1001',
+        refresh_token: 'sim-refresh-1001',
+        access_token_expire_at: nowSec + ACCESS_TOKEN_TTL_SEC,
+        items: sampleItems(1001, nowSec),
+      },
+    ],
+  };
+}
+
+// ==================== STATE ====================
+
+export function createSimulatorState(seed: SimulatorSeed, nowSec: number): SimulatorState {
+  let lastId = 900000;
+  const nextId = () => ++lastId;
+
+  const shops = new Map<number, SimShop>();
+  for (const shop of seed.shops) {
+    const slots = shop.time_slots ?? buildTimeSlots(nowSec, 7, lastId + 1);
+    lastId = Math.max(lastId, ...slots.map(s => s.timeslot_id));
+
+    shops.set(shop.shop_id, {
+      ...shop,
+      items: new Map((shop.items ?? []).map(item => [item.item_id, item])),
+      time_slots: slots,
+      flash_sales: new Map(),
+      rejected_items: new Map(),
+    });
+  }
+
+  return {
+    partners: new Map(seed.partners.map(p => [p.partner_id, p])),
+    shops,
+    auth_codes: new Map(),
+    nextId,
+  };
+}
+
+/** 1 = upcoming, 2 = ongoing, 3 = expired (Shopee's "type") */
+export function flashSaleType(flashSale: SimFlashSale, nowSec: number): number {
+  if (nowSec < flashSale.start_time) return 1;
+  if (nowSec <= flashSale.end_time) return 2;
+  return 3;
+}
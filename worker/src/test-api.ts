@@ -1,6 +1,8 @@
 /**
  * Quick test script to verify Shopee API connectivity from EC2.
  * Run: npx ts-node src/test-api.ts
+ * Hits whatever SHOPEE_BASE_URL points at (production by default). For offline runs,
+ * start the simulator (npm run simulator) and set SHOPEE_BASE_URL to its URL.
  *
  * Tests:
  * 1. Supabase DB connection
@@ -9,7 +11,8 @@
  */
 import { config } from './config';
 import { supabase } from './lib/supabase';
-import { getPartnerCredentials, getShopToken, callShopeeApi, createSignature } from './lib/shopee-api';
+import { getPartnerCredentials, getShopToken, callShopeeApi } from './lib/shopee-api';
+import { createSignature } from '../../supabase/functions/_shared/shopee-client';
 
 async function main() {
   console.log('=== Shopee Worker API Test ===\n');
@@ -38,7 +41,7 @@ async function main() {
 
   // Test 2: Signing verification
   console.log('\n2. Testing signature generation...');
-  const testSign = createSignature('test_key', 12345, '/api/v2/test', 1700000000, 'test_token', 67890);
+  const testSign = await createSignature('test_key', 'shop', 12345, '/api/v2/test', 1700000000, 'test_token', 67890);
   console.log(`   Signature: ${testSign}`);
   console.log(`   Length: ${testSign.length} (expected: 64)`);
   if (testSign.length !== 64) {
@@ -50,6 +53,7 @@ async function main() {
   // Test 3: Live Shopee API call
   const testShop = shops[0];
   console.log(`\n3. Testing Shopee API call for shop ${testShop.shop_id}...`);
+  console.log(`   Base URL: ${config.shopeeBaseUrl}`);
 
   try {
     const credentials = await getPartnerCredentials(supabase, testShop.shop_id);
@@ -68,7 +72,7 @@ async function main() {
       edgeFunction: 'worker-test',
       apiCategory: 'shop',
       triggeredBy: 'system',
-    }) as Record<string, unknown>;
+    });
 
     if (result.error && result.error !== '') {
       console.error(`   WARN: Shopee returned error: ${result.error} - ${result.message}`);
@@ -21,8 +21,10 @@ export interface LogApiCallParams {
   status: ApiCallStatus;
   shopeeError?: string;
   shopeeMessage?: string;
+  httpStatusCode?: number;
   durationMs: number;
   responseSummary?: Record<string, unknown>;
+  retryCount?: number;
   wasTokenRefreshed?: boolean;
   userId?: string;
   userEmail?: string;
@@ -75,8 +77,10 @@ export function logApiCall(supabase: SupabaseClient, params: LogApiCallParams):
       status: params.status,
       shopee_error: params.shopeeError,
       shopee_message: params.shopeeMessage,
+      http_status_code: params.httpStatusCode ?? null,
       duration_ms: params.durationMs,
       response_summary: sanitizedResponse,
+      retry_count: params.retryCount || 0,
       was_token_refreshed: params.wasTokenRefreshed || false,
       user_id: params.userId,
       user_email: params.userEmail,